@@ -9,9 +9,16 @@
     '/api/auth/preferences',
     '/api/auth/profile',
   ];
+  // Step mutations on today's plan are queued in IndexedDB by
+  // src/lib/daily-plan/offline-plan.ts, which replays them in order.
+  const PLAN_MUTATION_PATTERNS = [
+    /\/api\/time-blocks\/[^/]+\/(complete|uncomplete|edit-step|add-step|delete-step|reorder-step|update-meta)(\?|$)/,
+    /\/api\/daily-plan\/[^/]+\/activity\/[^/]+(\?|$)/,
+  ];
 
   function shouldQueue(url, method) {
     if (!['POST', 'PUT', 'PATCH', 'DELETE'].includes(method.toUpperCase())) return false;
+    if (PLAN_MUTATION_PATTERNS.some((pattern) => pattern.test(url))) return false;
     return OFFLINE_MUTATION_ENDPOINTS.some((prefix) => url.includes(prefix));
   }
 
@@ -102,6 +109,20 @@
     flushQueue().catch(() => undefined);
   });
 
+  // Remember the first app interaction of each local day; plan generation
+  // uses it as an upper bound for the wake time.
+  const FIRST_INTERACTION_KEY = 'meshos-first-interaction';
+  try {
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    const stored = JSON.parse(localStorage.getItem(FIRST_INTERACTION_KEY) || 'null');
+    if (!stored || stored.date !== today) {
+      localStorage.setItem(FIRST_INTERACTION_KEY, JSON.stringify({ date: today, at: now.toISOString() }));
+    }
+  } catch {
+    // noop
+  }
+
   // Register service worker for caching/offline page support.
   if ('serviceWorker' in navigator) {
     window.addEventListener('load', async () => {
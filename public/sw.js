@@ -73,3 +73,132 @@ self.addEventListener('fetch', (event) => {
     );
   }
 });
+
+// Chain step nudges (src/lib/chains/chain-notifier.ts).
+// The page posts the full schedule whenever the plan changes. Where the
+// Notification Triggers API exists the browser fires them itself; otherwise
+// the worker keeps timers while it is alive and catches up on anything due
+// whenever it wakes (a page load or plan request, a message or a notification click).
+const CHAIN_NOTIFICATION_DB = 'meshos-chain-notifications';
+const CHAIN_NOTIFICATION_STORE = 'scheduled';
+const CHAIN_NOTIFICATION_GRACE_MS = 10 * 60 * 1000;
+let chainNotificationTimers = [];
+let chainNotificationDb = null;
+
+// Opened once per worker lifetime; reopened if the browser closes it.
+function openChainNotificationDb() {
+  if (!chainNotificationDb) {
+    chainNotificationDb = new Promise((resolve, reject) => {
+      const request = indexedDB.open(CHAIN_NOTIFICATION_DB, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CHAIN_NOTIFICATION_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => {
+        request.result.onclose = () => {
+          chainNotificationDb = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        chainNotificationDb = null;
+        reject(request.error);
+      };
+    });
+  }
+  return chainNotificationDb;
+}
+
+async function withChainNotificationStore(mode, callback) {
+  const db = await openChainNotificationDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CHAIN_NOTIFICATION_STORE, mode);
+    const result = callback(transaction.objectStore(CHAIN_NOTIFICATION_STORE));
+    transaction.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function showChainNotification(notification, extra = {}) {
+  return self.registration.showNotification(notification.title, {
+    body: notification.body,
+    icon: '/icons/icon-192x192.png',
+    tag: notification.id,
+    data: { url: notification.url, chainId: notification.chain_id, stepId: notification.step_id },
+    ...extra,
+  });
+}
+
+async function showDueChainNotifications() {
+  const now = Date.now();
+  const scheduled = (await withChainNotificationStore('readonly', (store) => store.getAll())) || [];
+  const due = scheduled.filter((notification) => notification.fire_at <= now);
+
+  await Promise.all(due
+    .filter((notification) => now - notification.fire_at < CHAIN_NOTIFICATION_GRACE_MS)
+    .map((notification) => showChainNotification(notification)));
+
+  if (due.length > 0) {
+    await withChainNotificationStore('readwrite', (store) => {
+      due.forEach((notification) => store.delete(notification.id));
+    });
+  }
+}
+
+async function armChainNotifications(notifications) {
+  chainNotificationTimers.forEach((timer) => clearTimeout(timer));
+  chainNotificationTimers = [];
+
+  // Drop triggers from the previous schedule so edited steps don't fire twice.
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending
+    .filter((notification) => (notification.tag || '').startsWith('chain-'))
+    .forEach((notification) => notification.close());
+
+  await withChainNotificationStore('readwrite', (store) => {
+    store.clear();
+    notifications.forEach((notification) => store.put(notification));
+  });
+
+  if ('showTrigger' in Notification.prototype && typeof TimestampTrigger === 'function') {
+    await Promise.all(notifications.map((notification) =>
+      showChainNotification(notification, { showTrigger: new TimestampTrigger(notification.fire_at) })
+    ));
+    return;
+  }
+
+  notifications.forEach((notification) => {
+    chainNotificationTimers.push(setTimeout(() => {
+      showDueChainNotifications().catch(() => undefined);
+    }, Math.max(0, notification.fire_at - Date.now())));
+  });
+}
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'SCHEDULE_CHAIN_NOTIFICATIONS') return;
+  const notifications = Array.isArray(event.data.notifications) ? event.data.notifications : [];
+  event.waitUntil(armChainNotifications(notifications).catch(() => undefined));
+});
+
+// Only page loads and plan requests wake the catch-up, not every asset fetch.
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.mode !== 'navigate' && !url.pathname.startsWith('/api/daily-plan')) return;
+  showDueChainNotifications().catch(() => undefined);
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const url = event.notification.data?.url;
+  if (!url || !(event.notification.tag || '').startsWith('chain-')) return;
+
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find((client) => new URL(client.url).pathname === url);
+    if (existing) {
+      await existing.focus();
+    } else {
+      await self.clients.openWindow(url);
+    }
+    await showDueChainNotifications();
+  })());
+});
@@ -1,11 +1,11 @@
-import { StateGraph, END, MemorySaver } from '@langchain/langgraph';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { StateGraph, END, MemorySaver, type LangGraphRunnableConfig } from '@langchain/langgraph';
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from './types/supabase';
 import { DataUnderstandingEngine, generateDataUnderstandingReport } from './lib/intelligence/data-understanding-engine';
 import { preprocessUserData } from './lib/intelligence/data-preprocessor';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from './lib/ai/llm';
 
 // Define enhanced state interface
 interface AgentState {
@@ -22,13 +22,6 @@ interface AgentState {
   checkpoint_id: string | null;
 }
 
-// Initialize LLM
-const llm = new ChatGoogleGenerativeAI({
-  model: 'gemini-1.5-pro',
-  temperature: 0.3,
-  apiKey: process.env.GEMINI_API_KEY,
-});
-
 // Initialize Supabase
 // For server-side scripts like this, we use createClient instead of the Astro-specific createServerClient.
 const supabase = createClient<Database>(
@@ -84,8 +77,13 @@ function analyzeGroceryStock(finance: {items: any[]}[]): { lowStock: string[] }
   return { lowStock: items.filter(item => item.quantity < 5).map(item => item.name) };
 }
 
+// Provider passed to runLifeOptimizer, e.g. one that bills the user
+function configuredLLM(config?: LangGraphRunnableConfig): LLMProvider {
+  return config?.configurable?.llm ?? getLLMProvider();
+}
+
 // Enhanced Nodes with Data Understanding
-async function dataUnderstandingNode(state: AgentState): Promise<Partial<AgentState>> {
+async function dataUnderstandingNode(state: AgentState, config?: LangGraphRunnableConfig): Promise<Partial<AgentState>> {
   console.log('🧠 Building comprehensive data understanding...');
   
   // Get user ID from the first available data point
@@ -108,7 +106,7 @@ async function dataUnderstandingNode(state: AgentState): Promise<Partial<AgentSt
     const preprocessResult = await preprocessUserData(userId);
     
     // Generate comprehensive data understanding report
-    const understandingReport = await generateDataUnderstandingReport(userId);
+    const understandingReport = await generateDataUnderstandingReport(userId, configuredLLM(config));
     
     return {
       enriched_data: preprocessResult.enriched_data,
@@ -189,7 +187,7 @@ async function analyzeNode(state: AgentState): Promise<Partial<AgentState>> {
   return { insights };
 }
 
-async function planNode(state: AgentState): Promise<Partial<AgentState>> {
+async function planNode(state: AgentState, config?: LangGraphRunnableConfig): Promise<Partial<AgentState>> {
   console.log('📋 Generating intelligent life optimization plan...');
   
   const prompt = `
@@ -231,8 +229,13 @@ async function planNode(state: AgentState): Promise<Partial<AgentState>> {
     Be specific and actionable. Max 200 words.
   `;
   
-  const plan = await llm.invoke(prompt);
-  return { plan: plan.content as string };
+  const plan = await configuredLLM(config).complete({
+    prompt,
+    temperature: 0.3,
+    model: GEMINI_PRO_MODEL,
+    purpose: 'daily_plan',
+  });
+  return { plan: plan.text };
 }
 
 async function actionNode(state: AgentState): Promise<Partial<AgentState>> {
@@ -326,7 +329,7 @@ const checkpointer = new MemorySaver();
 const app = workflow.compile({ checkpointer });
 
 // Enhanced API Endpoint with Data Understanding
-export async function runLifeOptimizer(userId?: string) {
+export async function runLifeOptimizer(userId?: string, llm?: LLMProvider) {
   console.log('🚀 Starting Enhanced Life Optimizer...');
   
   // Get user data from all sources
@@ -365,7 +368,7 @@ export async function runLifeOptimizer(userId?: string) {
   });
 
   const result = await app.invoke(initialState, { 
-    configurable: { thread_id: `life-optimizer-${userId || 'default'}` } 
+    configurable: { thread_id: `life-optimizer-${userId || 'default'}`, llm } 
   });
   
   console.log('✅ Life optimization completed');
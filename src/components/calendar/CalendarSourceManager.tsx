@@ -6,8 +6,14 @@
 import React, { useState, useEffect } from 'react';
 import type { CalendarSource, CreateCalendarSourceRequest, UpdateCalendarSourceRequest } from '../../types/calendar';
 import { CSVImporter } from '../import/CSVImporter';
+import { TimetableImportPreview } from '../import/TimetableImportPreview';
 import { parseCsvData } from '../../lib/import/csv-parser';
-import { addCsvEvents } from '../../lib/calendar/importer-service';
+import {
+  isTimetableExport,
+  parseTimetableCsv,
+  type TimetableImportPreview as TimetablePreview,
+} from '../../lib/import/timetable-csv';
+import { addCsvEvents, applyTimetableImport, previewTimetableImport } from '../../lib/calendar/importer-service';
 import { authService } from '../../lib/auth/service';
 import '../../styles/calendar-source-manager.css';
 
@@ -28,6 +34,11 @@ export const CalendarSourceManager: React.FC<CalendarSourceManagerProps> = ({
 }) => {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showCsvImporter, setShowCsvImporter] = useState(false);
+  const [timetableImport, setTimetableImport] = useState<{
+    userId: string;
+    preview: TimetablePreview;
+    skipped: Array<{ row: number; reason: string }>;
+  } | null>(null);
   const [editingSource, setEditingSource] = useState<CalendarSource | null>(null);
   const [loading, setLoading] = useState<Record<string, boolean>>({});
 
@@ -51,6 +62,14 @@ export const CalendarSourceManager: React.FC<CalendarSourceManagerProps> = ({
       return;
     }
 
+    // Timetable exports are previewed against what's stored before anything is written
+    if (isTimetableExport(data)) {
+      const { events, skipped } = parseTimetableCsv(data);
+      const preview = await previewTimetableImport(events, user.id);
+      setTimetableImport({ userId: user.id, preview, skipped });
+      return;
+    }
+
     const events = parseCsvData(data);
     const sourceData: CreateCalendarSourceRequest = {
       name: 'CSV Import',
@@ -130,6 +149,18 @@ export const CalendarSourceManager: React.FC<CalendarSourceManagerProps> = ({
             onClose={() => setShowCsvImporter(false)}
           />
         )}
+
+        {/* Timetable Import Preview */}
+        {timetableImport && (
+          <TimetableImportPreview
+            preview={timetableImport.preview}
+            skipped={timetableImport.skipped}
+            onConfirm={async () => {
+              await applyTimetableImport(timetableImport.preview, timetableImport.userId);
+            }}
+            onClose={() => setTimetableImport(null)}
+          />
+        )}
       </>
     );
   }
@@ -256,6 +287,18 @@ export const CalendarSourceManager: React.FC<CalendarSourceManagerProps> = ({
           onClose={() => setShowCsvImporter(false)}
         />
       )}
+
+      {/* Timetable Import Preview */}
+      {timetableImport && (
+        <TimetableImportPreview
+          preview={timetableImport.preview}
+          skipped={timetableImport.skipped}
+          onConfirm={async () => {
+            await applyTimetableImport(timetableImport.preview, timetableImport.userId);
+          }}
+          onClose={() => setTimetableImport(null)}
+        />
+      )}
     </div>
   );
 };
@@ -225,6 +225,12 @@ export default function ChainView({
                 <span className="text-sm">{chain.anchor.location}</span>
               </div>
             )}
+            {chain.metadata?.outing && (
+              <div className="text-sm text-text-muted mt-1">
+                Part {chain.metadata.outing.index + 1} of {chain.metadata.outing.size} of one outing
+                {chain.metadata.outing.index > 0 ? ' - no trip home in between' : ''}
+              </div>
+            )}
           </div>
           <div className="text-right">
             <div className="text-sm text-text-muted mb-1">Starts at</div>
@@ -391,6 +397,13 @@ export default function ChainView({
                             )}
                           </div>
 
+                          {/* Learned duration - median of the user's recent completions */}
+                          {step.metadata?.learned_duration && (
+                            <div className="mt-1 text-xs text-blue-400">
+                              Usually takes {step.metadata.learned_duration.median} min
+                            </div>
+                          )}
+
                           {/* Duration prior indicator - Requirements 7.3 */}
                           {step.metadata?.duration_prior_applied && (
                             <div className="mt-1 text-xs text-blue-400 flex items-center">
@@ -417,7 +430,9 @@ export default function ChainView({
                               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                               </svg>
-                              Skipped: {step.skip_reason}
+                              {step.metadata?.degradation
+                                ? `${step.metadata.degradation.reason} (running ${step.metadata.degradation.minutes_late} min late)`
+                                : `Skipped: ${step.skip_reason}`}
                             </div>
                           )}
                           
@@ -631,7 +646,8 @@ export default function ChainView({
 /**
  * Exit Gate Display Component
  * 
- * Displays gate conditions with manual toggles
+ * Displays gate conditions with manual toggles; conditions ticked from
+ * habit data are labelled as such
  * Requirements: 3.5, 14.4
  */
 function ExitGateDisplay({
@@ -660,6 +676,9 @@ function ExitGateDisplay({
           `}>
             {condition.name}
           </span>
+          {condition.auto_verified && (
+            <span className="ml-2 text-xs text-blue-400">from habit log</span>
+          )}
         </label>
       ))}
     </div>
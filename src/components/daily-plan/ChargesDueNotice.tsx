@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import type { UpcomingCharge } from '../../lib/expenses/subscription-detector';
+
+interface ChargesDueNoticeProps {
+  planDate: Date | string;
+}
+
+function toDateKey(date: Date | string): string {
+  if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Subscriptions expected to charge on the plan's date, so a direct debit
+ * isn't a surprise. Renders nothing when there are none or they can't load.
+ */
+export default function ChargesDueNotice({ planDate }: ChargesDueNoticeProps) {
+  const [charges, setCharges] = useState<UpcomingCharge[]>([]);
+  const dateKey = toDateKey(planDate);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/expenses/subscriptions?from=${dateKey}&to=${dateKey}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setCharges(data?.upcoming || []);
+      })
+      .catch(() => {
+        if (!cancelled) setCharges([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dateKey]);
+
+  if (charges.length === 0) return null;
+
+  return (
+    <div className="bg-accent-warning/10 border border-accent-warning/30 rounded-lg p-4 mb-6">
+      <p className="text-sm text-accent-warning font-medium">
+        {charges.length === 1 ? 'A subscription charges on this day' : `${charges.length} subscriptions charge on this day`}
+      </p>
+      <ul className="text-xs text-text-secondary mt-1 space-y-0.5">
+        {charges.map((charge) => (
+          <li key={charge.merchant_key + charge.currency}>
+            {charge.merchant_name}: {formatAmount(charge.amount, charge.currency)} ({charge.period})
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { DailyPlan } from '../../types/daily-plan';
+
+interface CollapseModeButtonProps {
+  plan: DailyPlan;
+  onCollapse: () => void;
+  onExitCollapse: () => void;
+  isUpdating?: boolean;
+}
+
+export default function CollapseModeButton({
+  plan,
+  onCollapse,
+  onExitCollapse,
+  isUpdating = false,
+}: CollapseModeButtonProps) {
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const handleConfirm = () => {
+    onCollapse();
+    setShowConfirm(false);
+  };
+
+  // Collapsed: show what's happening and the way back out
+  if (plan.status === 'collapsed') {
+    const recoveryBlocks = (plan.timeBlocks || []).filter(
+      block => block.metadata?.collapse_recovery === true
+    );
+    const remainingRecovery = recoveryBlocks.filter(block => block.status === 'pending').length;
+
+    return (
+      <div className="bg-surface rounded-xl border border-accent-primary/30 shadow-lg">
+        <div className="p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-text-primary mb-2">
+              Collapse Mode is on
+            </h3>
+            <p className="text-sm text-text-muted">
+              Only must-attend anchors and recovery basics are left today.
+              {recoveryBlocks.length > 0 && ` ${remainingRecovery} of ${recoveryBlocks.length} recovery blocks to go.`}
+            </p>
+          </div>
+          <button
+            onClick={onExitCollapse}
+            disabled={isUpdating}
+            className="px-6 py-3 bg-surface-hover text-text-primary border border-border rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {isUpdating ? 'Restoring...' : "I'm back — restore my plan"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (showConfirm) {
+    return (
+      <div className="bg-surface rounded-xl border border-border shadow-lg">
+        <div className="p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text-primary">
+            Switch to Collapse Mode?
+          </h3>
+          <ul className="text-sm text-text-muted space-y-1 ml-4">
+            <li>✓ Keeping must-attend anchors and the steps to get there</li>
+            <li>✗ Dropping the rest of today's blocks</li>
+            <li>+ Adding recovery: eat, meds, hygiene minimum, rest</li>
+          </ul>
+          <p className="text-sm text-text-muted">
+            You can leave Collapse Mode at any time and get the remaining plan back.
+          </p>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleConfirm}
+              disabled={isUpdating}
+              className="px-6 py-3 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              {isUpdating ? 'Collapsing...' : 'Yes, collapse today'}
+            </button>
+            <button
+              onClick={() => setShowConfirm(false)}
+              disabled={isUpdating}
+              className="px-6 py-3 bg-surface-hover text-text-primary border border-border rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => setShowConfirm(true)}
+      disabled={isUpdating}
+      className="w-full px-4 py-3 bg-surface-secondary text-text-secondary rounded-lg hover:bg-surface-hover border border-border transition-colors text-sm"
+    >
+      Day falling apart? Switch to Collapse Mode
+    </button>
+  );
+}
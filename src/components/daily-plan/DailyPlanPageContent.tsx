@@ -1,18 +1,51 @@
 import React, { useState, useEffect } from 'react';
 import PlanGeneratorForm from './PlanGeneratorForm';
+import type { ManualAnchorRepeat } from './PlanGeneratorForm';
 import ActivityList from './ActivityList';
 import ExitTimeDisplay from './ExitTimeDisplay';
 import DegradePlanButton from './DegradePlanButton';
+import CollapseModeButton from './CollapseModeButton';
 import DeletePlanButton from './DeletePlanButton';
 import PlanContextDisplay from './PlanContextDisplay';
+import ChargesDueNotice from './ChargesDueNotice';
 import ChainView from './ChainView';
-import { DEFAULT_GATE_CONDITIONS, ExitGateService } from '../../lib/chains/exit-gate';
+import { DEFAULT_GATE_CONDITIONS, ExitGateService, parseGateConditionList } from '../../lib/chains/exit-gate';
+import { chainNotifier } from '../../lib/chains/chain-notifier';
+import { PLAN_SYNC_EVENT, dailyPlanOfflineStore, loadTodayPlan, planMutationFetch } from '../../lib/daily-plan/offline-plan';
+import type { PlanReplayResult } from '../../lib/daily-plan/offline-plan';
 import type { DailyPlan, EnergyState } from '../../types/daily-plan';
 import type { ExitGate, GateCondition } from '../../lib/chains/types';
 
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function buildRecurrenceRule(repeat: ManualAnchorRepeat, start: Date): string | undefined {
+  const weekday = RRULE_WEEKDAYS[start.getDay()];
+  switch (repeat) {
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${weekday}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}`;
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    default:
+      return undefined;
+  }
+}
+
+// Written by public/sw-register.js on the first page load of each day
+function readFirstInteractionAt(): string | undefined {
+  try {
+    const stored = JSON.parse(localStorage.getItem('meshos-first-interaction') || 'null');
+    return typeof stored?.at === 'string' ? stored.at : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export default function DailyPlanPageContent() {
   type GenerateInput = {
     wakeTime: string;
+    wakeTimeSource: 'manual' | 'default';
     sleepTime: string;
     energyState: EnergyState;
     manualAnchor?: {
@@ -23,6 +56,7 @@ export default function DailyPlanPageContent() {
       anchorType: 'class' | 'seminar' | 'workshop' | 'appointment' | 'other';
       mustAttend: boolean;
       notes?: string;
+      repeat: ManualAnchorRepeat;
     };
   };
 
@@ -32,10 +66,14 @@ export default function DailyPlanPageContent() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDegrading, setIsDegrading] = useState(false);
+  const [isCollapsing, setIsCollapsing] = useState(false);
   const [activeTab, setActiveTab] = useState<'chain' | 'timeline'>('chain');
   const [exitGateService, setExitGateService] = useState<ExitGateService | null>(null);
   const [exitGate, setExitGate] = useState<ExitGate | null>(null);
   const [gateTemplateConditions, setGateTemplateConditions] = useState<GateCondition[] | null>(null);
+  const [nudgesEnabled, setNudgesEnabled] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
   const [manualAnchorRequired, setManualAnchorRequired] = useState(false);
   const [lastGenerateInput, setLastGenerateInput] = useState<GenerateInput | null>(null);
 
@@ -43,8 +81,50 @@ export default function DailyPlanPageContent() {
   useEffect(() => {
     fetchTodaysPlan();
     fetchExitGateTemplate();
+    dailyPlanOfflineStore.replay().catch((err) => {
+      console.error('Failed to replay offline plan changes:', err);
+    });
   }, []);
 
+  // Refetch once queued offline changes have been replayed
+  useEffect(() => {
+    const handleSync = (event: Event) => {
+      const result = (event as CustomEvent<PlanReplayResult>).detail;
+      if (result.conflicts.length > 0) {
+        const count = result.conflicts.length;
+        setSyncNotice(`${count} offline change${count === 1 ? '' : 's'} could not be applied because the plan changed on the server.`);
+      }
+      fetchTodaysPlan();
+    };
+
+    window.addEventListener(PLAN_SYNC_EVENT, handleSync);
+    return () => window.removeEventListener(PLAN_SYNC_EVENT, handleSync);
+  }, []);
+
+  // Reschedule step nudges whenever the chains change (edits and reorders refetch the plan)
+  useEffect(() => {
+    setNudgesEnabled(chainNotifier.isEnabled());
+    chainNotifier.schedule(plan?.chains || []).catch((err) => {
+      console.error('Failed to schedule chain notifications:', err);
+    });
+  }, [plan]);
+
+  const handleToggleNudges = async () => {
+    if (nudgesEnabled) {
+      await chainNotifier.disable();
+      setNudgesEnabled(false);
+      return;
+    }
+
+    const enabled = await chainNotifier.enable();
+    setNudgesEnabled(enabled);
+    if (enabled) {
+      await chainNotifier.schedule(plan?.chains || []);
+    } else {
+      setError('Notifications are blocked for this site. Allow them in your browser settings to get step nudges.');
+    }
+  };
+
   // Initialize exit gate when plan changes
   useEffect(() => {
     if (plan?.chains && plan.chains.length > 0) {
@@ -69,36 +149,8 @@ export default function DailyPlanPageContent() {
         || DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition }));
     }
 
-    const parsedConditions: GateCondition[] = rawConditions
-      .map((value) => {
-        if (!value || typeof value !== 'object') return null;
-        const record = value as Record<string, unknown>;
-        const id = typeof record.id === 'string' ? record.id : null;
-        if (!id) return null;
-
-        const name = typeof record.name === 'string'
-          ? record.name
-          : DEFAULT_GATE_CONDITIONS.find((condition) => condition.id === id)?.name || id;
-
-        return {
-          id,
-          name,
-          satisfied: Boolean(record.satisfied),
-        } as GateCondition;
-      })
-      .filter((condition): condition is GateCondition => Boolean(condition));
-
-    const conditionMap = new Map<string, GateCondition>();
-
-    for (const condition of DEFAULT_GATE_CONDITIONS) {
-      conditionMap.set(condition.id, { ...condition });
-    }
-
-    for (const condition of parsedConditions) {
-      conditionMap.set(condition.id, condition);
-    }
-
-    return Array.from(conditionMap.values());
+    // The stored list is already resolved for the anchor type (variants may remove defaults).
+    return parseGateConditionList(rawConditions);
   };
 
   const findExitGateBlock = (targetPlan: DailyPlan) => {
@@ -179,14 +231,8 @@ export default function DailyPlanPageContent() {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/daily-plan/today');
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch plan: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      const fetchedPlan = data.plan as DailyPlan | null;
+      const { plan: fetchedPlan, offline } = await loadTodayPlan();
+      setIsOffline(offline);
 
       if (fetchedPlan && (!fetchedPlan.timeBlocks || fetchedPlan.timeBlocks.length === 0)) {
         setPlan(null);
@@ -239,6 +285,8 @@ export default function DailyPlanPageContent() {
           anchor_type: input.manualAnchor.anchorType,
           must_attend: input.manualAnchor.mustAttend,
           notes: input.manualAnchor.notes,
+          recurrence_rule: buildRecurrenceRule(input.manualAnchor.repeat, anchorStart),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         };
       }
 
@@ -249,6 +297,8 @@ export default function DailyPlanPageContent() {
         },
         body: JSON.stringify({
           wakeTime: wakeTime.toISOString(),
+          wakeTimeSource: input.wakeTimeSource,
+          firstInteractionAt: readFirstInteractionAt(),
           sleepTime: sleepTime.toISOString(),
           energyState: input.energyState,
           manualAnchor: manualAnchorPayload,
@@ -291,7 +341,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/daily-plan/${plan.id}/activity/${blockId}`, {
+      const response = await planMutationFetch(`/api/daily-plan/${plan.id}/activity/${blockId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -323,7 +373,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/daily-plan/${plan.id}/activity/${blockId}`, {
+      const response = await planMutationFetch(`/api/daily-plan/${plan.id}/activity/${blockId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
@@ -375,6 +425,56 @@ export default function DailyPlanPageContent() {
     }
   };
 
+  const handleCollapse = async () => {
+    if (!plan) return;
+
+    try {
+      setIsCollapsing(true);
+      setError(null);
+
+      const response = await fetch(`/api/daily-plan/${plan.id}/collapse`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to collapse plan: ${response.statusText}`);
+      }
+
+      await fetchTodaysPlan();
+    } catch (err) {
+      console.error('Error collapsing plan:', err);
+      setError(err instanceof Error ? err.message : 'Failed to collapse plan');
+    } finally {
+      setIsCollapsing(false);
+    }
+  };
+
+  const handleExitCollapse = async () => {
+    if (!plan) return;
+
+    try {
+      setIsCollapsing(true);
+      setError(null);
+
+      const response = await fetch(`/api/daily-plan/${plan.id}/exit-collapse`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to exit Collapse Mode: ${response.statusText}`);
+      }
+
+      await fetchTodaysPlan();
+    } catch (err) {
+      console.error('Error exiting Collapse Mode:', err);
+      setError(err instanceof Error ? err.message : 'Failed to exit Collapse Mode');
+    } finally {
+      setIsCollapsing(false);
+    }
+  };
+
   const handleRetry = () => {
     setError(null);
     if (lastGenerateInput) {
@@ -462,7 +562,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/time-blocks/${matchedBlock.id}/${endpointAction}`, {
+      const response = await planMutationFetch(`/api/time-blocks/${matchedBlock.id}/${endpointAction}`, {
         method: 'POST',
       });
 
@@ -512,7 +612,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/time-blocks/${matchedBlock.id}/edit-step`, {
+      const response = await planMutationFetch(`/api/time-blocks/${matchedBlock.id}/edit-step`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -546,7 +646,7 @@ export default function DailyPlanPageContent() {
             if (retryStep) {
               const retryMatched = resolvePersistedStepBlock(retryPlan, retryStep);
               if (retryMatched) {
-                const retryResponse = await fetch(`/api/time-blocks/${retryMatched.id}/edit-step`, {
+                const retryResponse = await planMutationFetch(`/api/time-blocks/${retryMatched.id}/edit-step`, {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
@@ -619,7 +719,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/time-blocks/${matchedBlock.id}/add-step`, {
+      const response = await planMutationFetch(`/api/time-blocks/${matchedBlock.id}/add-step`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -668,7 +768,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/time-blocks/${sourceBlock.id}/reorder-step`, {
+      const response = await planMutationFetch(`/api/time-blocks/${sourceBlock.id}/reorder-step`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -743,7 +843,7 @@ export default function DailyPlanPageContent() {
       setIsUpdating(true);
       setError(null);
 
-      const response = await fetch(`/api/time-blocks/${matchedBlock.id}/delete-step`, {
+      const response = await planMutationFetch(`/api/time-blocks/${matchedBlock.id}/delete-step`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ saveAsTemplate }),
@@ -800,7 +900,7 @@ export default function DailyPlanPageContent() {
           gate_conditions: updatedGate.conditions,
         };
 
-        const response = await fetch(`/api/time-blocks/${exitGateBlock.id}/update-meta`, {
+        const response = await planMutationFetch(`/api/time-blocks/${exitGateBlock.id}/update-meta`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -955,13 +1055,38 @@ export default function DailyPlanPageContent() {
   return (
     <div className="space-y-6">
       {/* Delete Plan Button - Top Right */}
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-2">
+        {plan.chains && plan.chains.length > 0 && chainNotifier.isSupported() && (
+          <button
+            onClick={handleToggleNudges}
+            className="px-3 py-2 rounded-lg border border-border text-sm text-text-secondary hover:text-text-primary hover:bg-surface-hover transition-colors"
+          >
+            {nudgesEnabled ? 'Step nudges on' : 'Turn on step nudges'}
+          </button>
+        )}
         <DeletePlanButton planId={plan.id} onDeleted={handleDeleted} />
       </div>
 
+      {isOffline && (
+        <div className="bg-accent-warning/10 border border-accent-warning/30 rounded-lg p-3 text-sm text-accent-warning">
+          Offline: showing your saved plan. Changes are queued and will sync when you reconnect.
+        </div>
+      )}
+      {syncNotice && (
+        <div className="flex items-start justify-between gap-3 bg-accent-warning/10 border border-accent-warning/30 rounded-lg p-3 text-sm text-accent-warning">
+          <span>{syncNotice}</span>
+          <button onClick={() => setSyncNotice(null)} className="text-xs font-medium underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Plan Context Display - Requirements 1.4, 4.5 */}
       <PlanContextDisplay plan={plan} />
 
+      {/* Subscriptions expected to charge on the plan's date */}
+      <ChargesDueNotice planDate={plan.planDate} />
+
       {/* Tab Navigation - Requirements 13.4, 14.1 */}
       {plan.chains && plan.chains.length > 0 && (
         <div className="flex space-x-2 border-b border-border-primary">
@@ -1039,6 +1164,13 @@ export default function DailyPlanPageContent() {
               onDegrade={handleDegrade}
               isDegrading={isDegrading}
             />
+
+            <CollapseModeButton
+              plan={plan}
+              onCollapse={handleCollapse}
+              onExitCollapse={handleExitCollapse}
+              isUpdating={isCollapsing}
+            />
           </div>
         </div>
       )}
@@ -1070,6 +1202,13 @@ export default function DailyPlanPageContent() {
               onDegrade={handleDegrade}
               isDegrading={isDegrading}
             />
+
+            <CollapseModeButton
+              plan={plan}
+              onCollapse={handleCollapse}
+              onExitCollapse={handleExitCollapse}
+              isUpdating={isCollapsing}
+            />
           </div>
         </div>
       )}
@@ -81,6 +81,11 @@ export default function DegradePlanButton({ plan, onDegrade, isDegrading = false
     setShowConfirm(false);
   };
 
+  // Collapse Mode has its own banner
+  if (plan.status === 'collapsed') {
+    return null;
+  }
+
   // Don't show if plan is already degraded
   if (plan.status === 'degraded') {
     return (
@@ -15,6 +15,14 @@ export default function PlanContextDisplay({ plan }: PlanContextDisplayProps) {
   const planStartTime = formatTime(plan.planStart);
   const wakeTime = formatTime(plan.wakeTime);
   const generatedTime = formatTime(plan.generatedAt);
+  const wakeResolution = plan.wakeResolution;
+  const wakeSourceLabels: Record<string, string> = {
+    manual: 'entered by you',
+    sleep_note: 'from your sleep note',
+    fitness_tracker: 'from your fitness tracker',
+    first_interaction: 'from your first app activity',
+    default: 'default',
+  };
 
   return (
     <div className="bg-blue-500/10 border border-blue-500/30 rounded-lg p-4 mb-6">
@@ -39,6 +47,13 @@ export default function PlanContextDisplay({ plan }: PlanContextDisplayProps) {
               Plan starts at {wakeTime}
             </p>
           )}
+          {wakeResolution && (
+            <p className="text-xs text-blue-300 mt-1" title={wakeResolution.explanation}>
+              Woke at {wakeTime} ({wakeSourceLabels[wakeResolution.source] || wakeResolution.source}
+              {wakeResolution.source !== 'manual' && `, ${Math.round(wakeResolution.confidence * 100)}% confident`}).{' '}
+              {wakeResolution.source !== 'manual' && wakeResolution.explanation}
+            </p>
+          )}
         </div>
       </div>
     </div>
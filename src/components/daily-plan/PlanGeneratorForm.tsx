@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import type { EnergyState } from '../../types/daily-plan';
 
+export type ManualAnchorRepeat = 'none' | 'weekly' | 'biweekly' | 'weekdays';
+
 interface PlanGeneratorFormProps {
   onGenerate: (input: {
     wakeTime: string;
+    wakeTimeSource: 'manual' | 'default';
     sleepTime: string;
     energyState: EnergyState;
     manualAnchor?: {
@@ -14,6 +17,7 @@ interface PlanGeneratorFormProps {
       anchorType: 'class' | 'seminar' | 'workshop' | 'appointment' | 'other';
       mustAttend: boolean;
       notes?: string;
+      repeat: ManualAnchorRepeat;
     };
   }) => void;
   isGenerating?: boolean;
@@ -53,6 +57,8 @@ export default function PlanGeneratorForm({
 }: PlanGeneratorFormProps) {
   // Requirement 8.5: Display the calculated default wake time
   const [wakeTime, setWakeTime] = useState(() => calculateDefaultWakeTime());
+  // Untouched defaults let the server detect the wake time from sleep data
+  const [wakeTimeEdited, setWakeTimeEdited] = useState(false);
   const [sleepTime, setSleepTime] = useState('23:00');
   const [energyState, setEnergyState] = useState<EnergyState>('medium');
   const [manualAnchorEnabled, setManualAnchorEnabled] = useState(false);
@@ -63,6 +69,7 @@ export default function PlanGeneratorForm({
   const [manualAnchorType, setManualAnchorType] = useState<'class' | 'seminar' | 'workshop' | 'appointment' | 'other'>('other');
   const [manualAnchorMustAttend, setManualAnchorMustAttend] = useState(true);
   const [manualAnchorNotes, setManualAnchorNotes] = useState('');
+  const [manualAnchorRepeat, setManualAnchorRepeat] = useState<ManualAnchorRepeat>('none');
   
   // Update default wake time when component mounts or time changes significantly
   useEffect(() => {
@@ -87,6 +94,7 @@ export default function PlanGeneratorForm({
     // Requirement 8.3: Allow user to override the default wake time
     const payload: {
       wakeTime: string;
+      wakeTimeSource: 'manual' | 'default';
       sleepTime: string;
       energyState: EnergyState;
       manualAnchor?: {
@@ -97,8 +105,9 @@ export default function PlanGeneratorForm({
         anchorType: 'class' | 'seminar' | 'workshop' | 'appointment' | 'other';
         mustAttend: boolean;
         notes?: string;
+        repeat: ManualAnchorRepeat;
       };
-    } = { wakeTime, sleepTime, energyState };
+    } = { wakeTime, wakeTimeSource: wakeTimeEdited ? 'manual' : 'default', sleepTime, energyState };
 
     if (manualAnchorEnabled && manualAnchorTitle.trim()) {
       payload.manualAnchor = {
@@ -109,6 +118,7 @@ export default function PlanGeneratorForm({
         anchorType: manualAnchorType,
         mustAttend: manualAnchorMustAttend,
         notes: manualAnchorNotes.trim() || undefined,
+        repeat: manualAnchorRepeat,
       };
     }
 
@@ -129,11 +139,19 @@ export default function PlanGeneratorForm({
             type="time"
             id="wake-time"
             value={wakeTime}
-            onChange={(e) => setWakeTime(e.target.value)}
+            onChange={(e) => {
+              setWakeTime(e.target.value);
+              setWakeTimeEdited(true);
+            }}
             className="w-full px-3 py-2 border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-accent-primary bg-surface text-text-primary"
             disabled={isGenerating}
             required
           />
+          {!wakeTimeEdited && (
+            <p className="mt-1 text-xs text-text-muted">
+              Leave as is to detect it from your sleep notes, fitness tracker or first app use today.
+            </p>
+          )}
         </div>
 
         {/* Sleep Time */}
@@ -285,6 +303,22 @@ export default function PlanGeneratorForm({
                 </select>
               </div>
 
+              <div>
+                <label htmlFor="manual-anchor-repeat" className="block text-xs text-text-muted mb-1">Repeats</label>
+                <select
+                  id="manual-anchor-repeat"
+                  value={manualAnchorRepeat}
+                  onChange={(e) => setManualAnchorRepeat(e.target.value as ManualAnchorRepeat)}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-surface text-text-primary"
+                  disabled={isGenerating}
+                >
+                  <option value="none">Does not repeat</option>
+                  <option value="weekly">Weekly on this day</option>
+                  <option value="biweekly">Every 2 weeks on this day</option>
+                  <option value="weekdays">Every weekday</option>
+                </select>
+              </div>
+
               <div className="flex items-center gap-2 mt-5">
                 <input
                   id="manual-anchor-required"
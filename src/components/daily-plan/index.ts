@@ -2,7 +2,9 @@ export { default as PlanGeneratorForm } from './PlanGeneratorForm';
 export { default as ActivityList } from './ActivityList';
 export { default as ExitTimeDisplay } from './ExitTimeDisplay';
 export { default as DegradePlanButton } from './DegradePlanButton';
+export { default as CollapseModeButton } from './CollapseModeButton';
 export { default as DeletePlanButton } from './DeletePlanButton';
 export { default as PlanContextDisplay } from './PlanContextDisplay';
+export { default as ChargesDueNotice } from './ChargesDueNotice';
 export { default as ChainView } from './ChainView';
 export { default as DailyPlanPageContent } from './DailyPlanPageContent';
@@ -0,0 +1,82 @@
+// src/components/dashboard/cards/UpcomingChargesCard.tsx
+import React, { useEffect, useState } from 'react';
+import type { SubscriptionAlert, UpcomingCharge } from '../../../lib/expenses/subscription-detector';
+
+const WINDOW_DAYS = 7;
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric' });
+}
+
+export const UpcomingChargesCard: React.FC = () => {
+  const [charges, setCharges] = useState<UpcomingCharge[]>([]);
+  const [alerts, setAlerts] = useState<SubscriptionAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUpcoming();
+  }, []);
+
+  const fetchUpcoming = async () => {
+    try {
+      setLoading(true);
+      const from = new Date();
+      const to = new Date(from);
+      to.setDate(to.getDate() + WINDOW_DAYS - 1);
+      const key = (date: Date) =>
+        `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+      const response = await fetch(`/api/expenses/subscriptions?from=${key(from)}&to=${key(to)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch upcoming charges');
+      }
+
+      const data = await response.json();
+      setCharges(data.upcoming || []);
+      setAlerts(data.alerts || []);
+    } catch (err) {
+      console.error('Error fetching upcoming charges:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load charges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  let summary: string;
+  if (loading) {
+    summary = 'Loading...';
+  } else if (error) {
+    summary = 'Error loading charges';
+  } else if (charges.length === 0) {
+    summary = `No subscriptions due in the next ${WINDOW_DAYS} days`;
+  } else {
+    const next = charges[0];
+    summary = `${charges.length} due in the next ${WINDOW_DAYS} days. Next: ${next.merchant_name}, ${formatAmount(next.amount, next.currency)} on ${formatDay(next.date)}`;
+  }
+
+  return (
+    <a href="/expenses" className="card hover:bg-surface-hover transition-colors">
+      <div className="flex items-center">
+        <div className="text-3xl mr-4">£</div>
+        <div className="flex-1">
+          <h3 className="text-lg font-semibold text-text-primary">Upcoming Charges</h3>
+          <p className="text-text-secondary text-sm">{summary}</p>
+          {alerts.length > 0 && (
+            <p className="text-accent-warning text-xs mt-1">{alerts[0].message}</p>
+          )}
+        </div>
+      </div>
+    </a>
+  );
+};
+
+export default UpcomingChargesCard;
@@ -1,5 +1,6 @@
 // src/components/expenses/ExpenseDashboard.tsx - Comprehensive Expense Dashboard
 import React, { useState, useEffect } from 'react';
+import SubscriptionsPanel from './SubscriptionsPanel';
 
 interface ExpenseSummary {
   total_spent: number;
@@ -74,6 +75,7 @@ export default function ExpenseDashboard() {
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [subscriptionsReload, setSubscriptionsReload] = useState(0);
 
   useEffect(() => {
     fetchDashboardData();
@@ -119,9 +121,13 @@ export default function ExpenseDashboard() {
         setUploadFile(null);
         setUploadProgress(0);
         fetchDashboardData(); // Refresh dashboard
+        setSubscriptionsReload(n => n + 1);
         
         // Show success message with summary
-        alert(`Successfully imported ${result.summary.total_transactions} transactions totaling ${dashboardData?.user_settings.currency_symbol}${result.summary.total_amount.toFixed(2)}`);
+        const skipped = result.summary.duplicates_skipped
+          ? ` (${result.summary.duplicates_skipped} already imported were skipped)`
+          : '';
+        alert(`Successfully imported ${result.summary.total_transactions} transactions totaling ${dashboardData?.user_settings.currency_symbol}${result.summary.total_amount.toFixed(2)}${skipped}`);
       } else {
         alert(`Upload failed: ${result.error}`);
       }
@@ -302,6 +308,9 @@ export default function ExpenseDashboard() {
         </div>
       )}
 
+      {/* Subscriptions and upcoming charges */}
+      <SubscriptionsPanel reloadToken={subscriptionsReload} />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         
@@ -444,11 +453,11 @@ export default function ExpenseDashboard() {
             <div className="space-y-4">
               <div>
                 <label className="block text-gray-400 text-sm mb-2">
-                  Select CSV file from your bank
+                  Select a statement file from your bank
                 </label>
                 <input
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.ofx,.qfx,.qif,.xml"
                   onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
                   className="w-full bg-gray-700 text-white p-3 rounded border border-gray-600 file:bg-cyan-600 file:text-white file:border-0 file:rounded file:px-3 file:py-1 file:mr-3"
                 />
@@ -466,9 +475,10 @@ export default function ExpenseDashboard() {
               <div className="text-sm text-gray-400">
                 <p>Supported formats:</p>
                 <ul className="list-disc list-inside mt-1 space-y-1">
-                  <li>UK banks: Barclays, HSBC, Santander, Lloyds, NatWest</li>
-                  <li>US banks: Chase, Bank of America</li>
-                  <li>Indian banks: HDFC, ICICI</li>
+                  <li>OFX / QFX, QIF and CAMT.053 XML from any bank</li>
+                  <li>UK banks (CSV): Barclays, HSBC, Santander, Lloyds, NatWest, Monzo, Starling, Revolut</li>
+                  <li>US banks (CSV): Chase, Bank of America</li>
+                  <li>Indian banks (CSV): HDFC, ICICI, Jupiter</li>
                   <li>Generic CSV with date, description, amount columns</li>
                 </ul>
               </div>
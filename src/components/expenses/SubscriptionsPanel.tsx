@@ -0,0 +1,169 @@
+// src/components/expenses/SubscriptionsPanel.tsx - Detected subscriptions, alerts and the next 30 days of charges
+import React, { useEffect, useState } from 'react';
+import type { SubscriptionAlert, UpcomingCharge } from '../../lib/expenses/subscription-detector';
+import type { StoredSubscription } from '../../lib/expenses/subscription-service';
+
+interface SubscriptionsPanelProps {
+  /** Changes after an upload, to load the re-detected subscriptions */
+  reloadToken?: number;
+}
+
+const PERIOD_LABELS: Record<string, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  annual: 'Yearly',
+};
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export default function SubscriptionsPanel({ reloadToken = 0 }: SubscriptionsPanelProps) {
+  const [subscriptions, setSubscriptions] = useState<StoredSubscription[]>([]);
+  const [alerts, setAlerts] = useState<SubscriptionAlert[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingCharge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [reloadToken]);
+
+  const fetchSubscriptions = async () => {
+    try {
+      const response = await fetch('/api/expenses/subscriptions');
+      if (!response.ok) throw new Error('Failed to fetch subscriptions');
+      const data = await response.json();
+      setSubscriptions(data.subscriptions || []);
+      setAlerts(data.alerts || []);
+      setUpcoming(data.upcoming || []);
+    } catch (error) {
+      console.error('Error fetching subscriptions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const detectAgain = async () => {
+    setIsDetecting(true);
+    try {
+      const response = await fetch('/api/expenses/subscriptions', { method: 'POST' });
+      if (!response.ok) throw new Error('Failed to detect subscriptions');
+      await fetchSubscriptions();
+    } catch (error) {
+      console.error('Error detecting subscriptions:', error);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const dismiss = async (subscription: StoredSubscription) => {
+    const response = await fetch(`/api/expenses/subscriptions/${subscription.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dismissed: true }),
+    });
+    if (response.ok) await fetchSubscriptions();
+  };
+
+  if (isLoading) return null;
+
+  const monthlyTotals = subscriptions
+    .filter((subscription) => subscription.status !== 'lapsed')
+    .reduce((totals, subscription) => {
+      const perMonth =
+        subscription.period === 'weekly' ? (subscription.last_amount * 52) / 12
+        : subscription.period === 'annual' ? subscription.last_amount / 12
+        : subscription.last_amount;
+      totals[subscription.currency] = (totals[subscription.currency] || 0) + perMonth;
+      return totals;
+    }, {} as Record<string, number>);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 mb-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">🔁 Subscriptions</h3>
+          {Object.keys(monthlyTotals).length > 0 && (
+            <p className="text-sm text-gray-400">
+              About {Object.entries(monthlyTotals).map(([currency, total]) => formatAmount(total, currency)).join(' + ')} a month
+            </p>
+          )}
+        </div>
+        <button
+          onClick={detectAgain}
+          disabled={isDetecting}
+          className="text-sm text-gray-300 hover:text-white disabled:opacity-50"
+        >
+          {isDetecting ? 'Detecting...' : 'Detect again'}
+        </button>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {alerts.map((alert) => (
+            <div key={`${alert.type}-${alert.merchant_key}`} className="p-3 bg-gray-700 rounded-lg text-messy-warning text-sm">
+              {alert.type === 'price_increase' ? '📈' : '❓'} {alert.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          No recurring payments found yet. They show up after a few months of statements are imported.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {subscriptions.map((subscription) => (
+              <div key={subscription.id} className="flex justify-between items-center p-3 bg-gray-700 rounded-lg">
+                <div className="min-w-0">
+                  <div className="text-white font-medium truncate">{subscription.merchant_name}</div>
+                  <div className="text-gray-400 text-sm">
+                    {PERIOD_LABELS[subscription.period]} •{' '}
+                    {subscription.status === 'lapsed'
+                      ? `last charged ${formatDate(subscription.last_charge_date)}`
+                      : `next ${formatDate(subscription.next_expected_date)}`}
+                    {' '}• {Math.round(subscription.confidence * 100)}% sure
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="text-white font-medium">{formatAmount(subscription.last_amount, subscription.currency)}</div>
+                  <button onClick={() => dismiss(subscription)} className="text-xs text-gray-400 hover:text-white">
+                    Not a subscription
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="text-white font-medium mb-3">Next 30 days</h4>
+            {upcoming.length === 0 ? (
+              <p className="text-gray-400 text-sm">Nothing expected.</p>
+            ) : (
+              <div className="space-y-2">
+                {upcoming.map((charge) => (
+                  <div key={`${charge.date}-${charge.merchant_key}-${charge.currency}`} className="flex justify-between text-sm">
+                    <span className="text-gray-400 w-28 flex-shrink-0">{formatDate(charge.date)}</span>
+                    <span className="text-white flex-1 truncate">{charge.merchant_name}</span>
+                    <span className="text-white">{formatAmount(charge.amount, charge.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // src/components/habits/HabitCreationModal.tsx
 import React, { useState, useEffect } from 'react';
 import { SemanticType, inferSemanticType } from '../../lib/habits/taxonomy';
+import { DAILY_FREQUENCY, describeHabitFrequency, type HabitFrequency } from '../../lib/habits/frequency';
 
 interface HabitTemplate {
   id: string;
@@ -26,6 +27,7 @@ interface NewHabitData {
   color: string;
   reminder_time?: string;
   allows_skips: boolean;
+  frequency: HabitFrequency;
 }
 
 interface HabitCreationModalProps {
@@ -123,6 +125,18 @@ const COLORS = [
   '#3B82F6', '#10B981', '#8B5CF6', '#F59E0B', '#EF4444', '#06B6D4', '#6366F1', '#EC4899'
 ];
 
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' }, { value: 2, label: 'Tue' }, { value: 3, label: 'Wed' }, { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' }, { value: 6, label: 'Sat' }, { value: 0, label: 'Sun' }
+];
+
+const FREQUENCY_DEFAULTS: Record<HabitFrequency['type'], HabitFrequency> = {
+  daily: DAILY_FREQUENCY,
+  times_per_week: { type: 'times_per_week', times: 3 },
+  weekdays: { type: 'weekdays', days: [1, 3, 5] },
+  every_n_days: { type: 'every_n_days', interval: 2 }
+};
+
 // Recognized units for numerical habits (Requirements 10.1)
 const NUMERICAL_UNITS = [
   'pouches',
@@ -177,7 +191,8 @@ export default function HabitCreationModal({ isOpen, onClose, onSave }: HabitCre
     type: 'build',
     measurement_type: 'boolean',
     color: '#3B82F6',
-    allows_skips: false
+    allows_skips: false,
+    frequency: DAILY_FREQUENCY
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
@@ -221,7 +236,8 @@ export default function HabitCreationModal({ isOpen, onClose, onSave }: HabitCre
         type: 'build',
         measurement_type: 'boolean',
         color: '#3B82F6',
-        allows_skips: false
+        allows_skips: false,
+        frequency: DAILY_FREQUENCY
       });
       setErrors({});
     }
@@ -287,7 +303,8 @@ export default function HabitCreationModal({ isOpen, onClose, onSave }: HabitCre
       target_unit: template.measurement_type === 'duration' ? 'minutes' : 
                    template.measurement_type === 'count' ? 'times' : undefined,
       color: template.color,
-      allows_skips: false
+      allows_skips: false,
+      frequency: DAILY_FREQUENCY
     });
     setStep('basic');
   };
@@ -632,6 +649,80 @@ export default function HabitCreationModal({ isOpen, onClose, onSave }: HabitCre
 
             {step === 'preferences' && (
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Frequency
+                  </label>
+                  <select
+                    value={habitData.frequency.type}
+                    onChange={(e) => setHabitData({ ...habitData, frequency: FREQUENCY_DEFAULTS[e.target.value as HabitFrequency['type']] })}
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="daily">Every day</option>
+                    <option value="times_per_week">Times per week</option>
+                    <option value="weekdays">Specific days</option>
+                    <option value="every_n_days">Every few days</option>
+                  </select>
+
+                  {habitData.frequency.type === 'times_per_week' && (
+                    <input
+                      type="number"
+                      min={1}
+                      max={6}
+                      value={habitData.frequency.times}
+                      onChange={(e) => setHabitData({
+                        ...habitData,
+                        frequency: { type: 'times_per_week', times: Math.min(6, Math.max(1, parseInt(e.target.value) || 1)) }
+                      })}
+                      className="mt-2 w-24 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  )}
+
+                  {habitData.frequency.type === 'weekdays' && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {WEEKDAY_OPTIONS.map(({ value, label }) => {
+                        const days = habitData.frequency.type === 'weekdays' ? habitData.frequency.days : [];
+                        const selected = days.includes(value);
+                        return (
+                          <button
+                            key={value}
+                            type="button"
+                            onClick={() => {
+                              const next = selected ? days.filter(day => day !== value) : [...days, value];
+                              if (next.length > 0) {
+                                setHabitData({ ...habitData, frequency: { type: 'weekdays', days: next.sort((a, b) => a - b) } });
+                              }
+                            }}
+                            className={`px-3 py-1 rounded-lg text-sm border ${
+                              selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-600 text-gray-300'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {habitData.frequency.type === 'every_n_days' && (
+                    <div className="mt-2 flex items-center space-x-2 text-gray-300">
+                      <span>Every</span>
+                      <input
+                        type="number"
+                        min={2}
+                        value={habitData.frequency.interval}
+                        onChange={(e) => setHabitData({
+                          ...habitData,
+                          frequency: { type: 'every_n_days', interval: Math.max(2, parseInt(e.target.value) || 2) }
+                        })}
+                        className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span>days</span>
+                    </div>
+                  )}
+                  <p className="text-gray-400 text-sm mt-1">Days off your schedule won't break your streak</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
                     Color Theme
@@ -719,6 +810,10 @@ export default function HabitCreationModal({ isOpen, onClose, onSave }: HabitCre
                            `${habitData.target_operator === 'AT_MOST' ? '≤' : habitData.target_operator === 'EXACTLY' ? '=' : '≥'} ${habitData.target_value} ${habitData.target_unit}`}
                       </span>
                     </div>
+                    <div>
+                      <span className="text-gray-400">Frequency:</span>
+                      <span className="text-white ml-2">{describeHabitFrequency(habitData.frequency)}</span>
+                    </div>
                     <div>
                       <span className="text-gray-400">Skip Policy:</span>
                       <span className="text-white ml-2">
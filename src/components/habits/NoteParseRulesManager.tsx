@@ -0,0 +1,241 @@
+// src/components/habits/NoteParseRulesManager.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { parseNote } from '../../lib/habits/note-parser';
+import {
+  validateNoteParseRule,
+  type NoteParseRule,
+  type NoteParseRuleInput,
+  type NoteParseRuleTarget,
+} from '../../lib/habits/note-parse-rules';
+
+interface NoteParseRulesManagerProps {
+  habits: Array<{ id: string; name: string }>;
+}
+
+const TARGET_LABELS: Record<NoteParseRuleTarget, string> = {
+  count: 'Count',
+  duration_minutes: 'Duration (minutes)',
+  strength_mg: 'Strength (mg)',
+  field: 'Named field',
+  tag: 'Tag',
+};
+
+const EMPTY_DRAFT: NoteParseRuleInput = {
+  name: '',
+  habit_id: null,
+  match_type: 'regex',
+  pattern: '',
+  target: 'count',
+  field_name: null,
+  tag: null,
+  priority: 0,
+  enabled: true,
+};
+
+export default function NoteParseRulesManager({ habits }: NoteParseRulesManagerProps) {
+  const [rules, setRules] = useState<NoteParseRule[]>([]);
+  const [draft, setDraft] = useState<NoteParseRuleInput>(EMPTY_DRAFT);
+  const [sampleNote, setSampleNote] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch('/api/habits/parse-rules');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (error) {
+      console.error('Failed to load note parse rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  // Try the draft on a sample note without saving it
+  const preview = useMemo(() => {
+    if (!sampleNote.trim() || validateNoteParseRule(draft).length > 0) return null;
+    const rule: NoteParseRule = { ...EMPTY_DRAFT, ...draft, id: 'draft' } as NoteParseRule;
+    const parsed = parseNote(sampleNote, undefined, { rules: [rule], habitId: draft.habit_id || undefined });
+    if (!parsed.rules_applied?.length) return 'No match';
+    if (draft.target === 'tag') return `tags: ${(parsed.tags || []).join(', ')}`;
+    if (draft.target === 'field') return `${draft.field_name}: ${parsed.fields?.[draft.field_name || '']}`;
+    return `${draft.target}: ${parsed[draft.target]}`;
+  }, [draft, sampleNote]);
+
+  const saveRule = async () => {
+    const validationErrors = validateNoteParseRule(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/habits/parse-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save rule']);
+        return;
+      }
+      setDraft(EMPTY_DRAFT);
+      setSampleNote('');
+      await loadRules();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: NoteParseRule) => {
+    const { id, ...input } = rule;
+    const response = await fetch(`/api/habits/parse-rules/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...input, enabled: !rule.enabled }),
+    });
+    if (response.ok) await loadRules();
+  };
+
+  const deleteRule = async (rule: NoteParseRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Entries already logged keep their parsed values.`)) return;
+    const response = await fetch(`/api/habits/parse-rules/${rule.id}`, { method: 'DELETE' });
+    if (response.ok) await loadRules();
+  };
+
+  const habitName = (habitId: string | null) =>
+    habitId ? habits.find((habit) => habit.id === habitId)?.name || 'Unknown habit' : 'All habits';
+
+  const inputClass = 'w-full px-3 py-2 bg-surface border border-border rounded-lg text-sm text-text-primary';
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary">Note Parse Rules</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Teach the note parser your own habits. A regex's first capture group becomes the value, e.g.{' '}
+          <code className="text-xs">pages read: (\d+)</code> → count. Keyword rules add a tag.
+        </p>
+      </div>
+
+      {rules.length > 0 && (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between border border-border rounded-lg p-3">
+              <div className={rule.enabled ? '' : 'opacity-50'}>
+                <p className="text-sm font-medium text-text-primary">
+                  {rule.name} <span className="text-text-muted font-normal">· {habitName(rule.habit_id)}</span>
+                </p>
+                <p className="text-xs text-text-muted mt-1">
+                  <code>{rule.pattern}</code> → {TARGET_LABELS[rule.target]}
+                  {rule.target === 'field' && ` "${rule.field_name}"`}
+                  {rule.target === 'tag' && ` "${rule.tag}"`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => toggleRule(rule)}
+                  className="px-3 py-1.5 text-xs border border-border text-text-secondary rounded-lg hover:text-text-primary transition-colors"
+                >
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => deleteRule(rule)}
+                  className="px-3 py-1.5 text-xs border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Rule name (e.g. Pages read)"
+          className={inputClass}
+        />
+        <select
+          value={draft.habit_id || ''}
+          onChange={(e) => setDraft({ ...draft, habit_id: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">All habits</option>
+          {habits.map((habit) => (
+            <option key={habit.id} value={habit.id}>{habit.name}</option>
+          ))}
+        </select>
+        <select
+          value={draft.match_type}
+          onChange={(e) => {
+            const matchType = e.target.value as NoteParseRuleInput['match_type'];
+            setDraft({ ...draft, match_type: matchType, target: matchType === 'keywords' ? 'tag' : draft.target });
+          }}
+          className={inputClass}
+        >
+          <option value="regex">Regex</option>
+          <option value="keywords">Keywords (comma-separated)</option>
+        </select>
+        <input
+          value={draft.pattern}
+          onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          placeholder={draft.match_type === 'keywords' ? 'gym, lifting, weights' : 'pages read: (\\d+)'}
+          className={`${inputClass} font-mono`}
+        />
+        <select
+          value={draft.target}
+          onChange={(e) => setDraft({ ...draft, target: e.target.value as NoteParseRuleTarget })}
+          disabled={draft.match_type === 'keywords'}
+          className={inputClass}
+        >
+          {(Object.keys(TARGET_LABELS) as NoteParseRuleTarget[]).map((target) => (
+            <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+          ))}
+        </select>
+        {draft.target === 'field' && (
+          <input
+            value={draft.field_name || ''}
+            onChange={(e) => setDraft({ ...draft, field_name: e.target.value })}
+            placeholder="Field name (e.g. book)"
+            className={inputClass}
+          />
+        )}
+        {draft.target === 'tag' && (
+          <input
+            value={draft.tag || ''}
+            onChange={(e) => setDraft({ ...draft, tag: e.target.value })}
+            placeholder="Tag (e.g. strength_training)"
+            className={inputClass}
+          />
+        )}
+        <input
+          value={sampleNote}
+          onChange={(e) => setSampleNote(e.target.value)}
+          placeholder="Try it on a note…"
+          className={`${inputClass} md:col-span-2`}
+        />
+      </div>
+
+      {preview && <p className="text-sm text-text-secondary">Result: {preview}</p>}
+      {errors.length > 0 && (
+        <ul className="text-sm text-accent-error space-y-1">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={saveRule}
+        disabled={saving}
+        className="px-4 py-2 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 transition-colors"
+      >
+        {saving ? 'Saving…' : 'Add Rule'}
+      </button>
+    </div>
+  );
+}
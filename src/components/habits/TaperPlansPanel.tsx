@@ -0,0 +1,300 @@
+// src/components/habits/TaperPlansPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { inferSemanticType } from '../../lib/habits/taxonomy';
+import {
+  TAPER_SEMANTIC_TYPES,
+  TAPER_UNITS,
+  isTaperSemanticType,
+  validateTaperPlanInput,
+  type TaperPlanInput,
+  type TaperPlanStatus,
+  type TaperSemanticType,
+} from '../../lib/habits/taper-plans';
+import type { TaperPlanWithProgress } from '../../lib/habits/taper-plan-service';
+
+interface TaperPlansPanelProps {
+  habits: Array<{ id: string; name: string }>;
+}
+
+const SEMANTIC_LABELS: Record<TaperSemanticType, string> = {
+  NICOTINE_POUCHES: 'Nicotine pouches',
+  VAPING_PUFFS: 'Vaping puffs',
+  POT_USE: 'Cannabis sessions',
+  ENERGY_DRINK: 'Energy drinks / caffeine',
+};
+
+interface Draft {
+  habit_id: string;
+  semantic_type: TaperSemanticType;
+  baseline: string; // blank = calculate from recent entries
+  step_amount: string;
+  step_interval_days: string;
+  target_daily: string;
+}
+
+function draftFor(habit?: { id: string; name: string }): Draft {
+  const inferred = habit ? inferSemanticType(habit.name) : null;
+  return {
+    habit_id: habit?.id || '',
+    semantic_type: isTaperSemanticType(inferred) ? inferred : TAPER_SEMANTIC_TYPES[0],
+    baseline: '',
+    step_amount: '1',
+    step_interval_days: '7',
+    target_daily: '0',
+  };
+}
+
+export default function TaperPlansPanel({ habits }: TaperPlansPanelProps) {
+  // Only habits the taxonomy reads as a substance are offered first
+  const substanceHabits = habits.filter((habit) => isTaperSemanticType(inferSemanticType(habit.name)));
+  const habitOptions = substanceHabits.length > 0 ? substanceHabits : habits;
+
+  const [plans, setPlans] = useState<TaperPlanWithProgress[]>([]);
+  const [draft, setDraft] = useState<Draft>(() => draftFor(habitOptions[0]));
+  const [baselinePreview, setBaselinePreview] = useState<{ baseline: number; daysWithData: number } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadPlans = async () => {
+    try {
+      const response = await fetch('/api/habits/taper-plans');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setPlans(data.plans || []);
+    } catch (error) {
+      console.error('Failed to load taper plans:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  useEffect(() => {
+    setBaselinePreview(null);
+    if (!draft.habit_id) return;
+    fetch(`/api/habits/taper-plans/baseline?habitId=${encodeURIComponent(draft.habit_id)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setBaselinePreview(data))
+      .catch(() => undefined);
+  }, [draft.habit_id]);
+
+  const savePlan = async () => {
+    const input: TaperPlanInput = {
+      habit_id: draft.habit_id,
+      semantic_type: draft.semantic_type,
+      baseline_daily: draft.baseline.trim() === '' ? null : Number(draft.baseline),
+      step_amount: Number(draft.step_amount),
+      step_interval_days: Number(draft.step_interval_days),
+      target_daily: Number(draft.target_daily),
+    };
+    const validationErrors = validateTaperPlanInput(input);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/habits/taper-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save plan']);
+        return;
+      }
+      await loadPlans();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (plan: TaperPlanWithProgress, status: TaperPlanStatus) => {
+    const response = await fetch(`/api/habits/taper-plans/${plan.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status }),
+    });
+    if (response.ok) await loadPlans();
+  };
+
+  const deletePlan = async (plan: TaperPlanWithProgress) => {
+    if (!confirm(`Delete the taper plan for ${plan.habit_name || 'this habit'}? Logged entries are kept.`)) return;
+    const response = await fetch(`/api/habits/taper-plans/${plan.id}`, { method: 'DELETE' });
+    if (response.ok) await loadPlans();
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-surface border border-border rounded-lg text-sm text-text-primary';
+  const unit = TAPER_UNITS[draft.semantic_type];
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary">Taper Plans</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Cut down gradually from your recent average. Going over one day doesn't reset anything: the allowance just
+          holds a day longer.
+        </p>
+      </div>
+
+      {plans.map((plan) => {
+        const { progress } = plan;
+        return (
+          <div key={plan.id} className="border border-border rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <div className={plan.status === 'paused' ? 'opacity-60' : ''}>
+                <p className="text-sm font-medium text-text-primary">
+                  {plan.habit_name || 'Unknown habit'}{' '}
+                  <span className="text-text-muted font-normal">· {SEMANTIC_LABELS[plan.semantic_type]}</span>
+                </p>
+                <p className="text-xs text-text-muted mt-1">
+                  {plan.baseline_daily} → {plan.target_daily} {plan.unit}/day, −{plan.step_amount} every{' '}
+                  {plan.step_interval_days} days{plan.status === 'paused' && ' (paused)'}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                {progress.reachedTarget && plan.status === 'active' && (
+                  <button
+                    onClick={() => setStatus(plan, 'completed')}
+                    className="px-3 py-1.5 text-xs border border-accent-success text-accent-success rounded-lg hover:bg-accent-success/10 transition-colors"
+                  >
+                    Complete
+                  </button>
+                )}
+                <button
+                  onClick={() => setStatus(plan, plan.status === 'paused' ? 'active' : 'paused')}
+                  className="px-3 py-1.5 text-xs border border-border text-text-secondary rounded-lg hover:text-text-primary transition-colors"
+                >
+                  {plan.status === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={() => deletePlan(plan)}
+                  className="px-3 py-1.5 text-xs border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="text-lg font-semibold text-text-primary">
+                  {progress.todayActual ?? 0} / {progress.todayAllowance}
+                </p>
+                <p className="text-xs text-text-muted">Today ({plan.unit})</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-text-primary">{Math.round(progress.adherenceRate * 100)}%</p>
+                <p className="text-xs text-text-muted">Days within allowance</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-text-primary">{progress.nextStepDate || '—'}</p>
+                <p className="text-xs text-text-muted">
+                  {progress.reachedTarget
+                    ? 'Target reached'
+                    : plan.status === 'paused'
+                      ? 'Steps paused'
+                      : `Next step${progress.heldDays ? ` (${progress.heldDays}d held)` : ''}${
+                          progress.pausedDays ? ` (${progress.pausedDays}d paused)` : ''
+                        }`}
+                </p>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={180}>
+              <ComposedChart data={progress.days}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="date" tickFormatter={(date: string) => date.slice(5)} fontSize={10} />
+                <YAxis allowDecimals={false} fontSize={10} />
+                <Tooltip />
+                <Bar dataKey="actual" name={`Logged (${plan.unit})`} fill="#60a5fa" />
+                <Line type="stepAfter" dataKey="allowance" name="Allowance" stroke="#34d399" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <select
+          value={draft.habit_id}
+          onChange={(e) => setDraft(draftFor(habits.find((habit) => habit.id === e.target.value)))}
+          className={inputClass}
+        >
+          {habitOptions.map((habit) => (
+            <option key={habit.id} value={habit.id}>{habit.name}</option>
+          ))}
+        </select>
+        <select
+          value={draft.semantic_type}
+          onChange={(e) => setDraft({ ...draft, semantic_type: e.target.value as TaperSemanticType })}
+          className={inputClass}
+        >
+          {TAPER_SEMANTIC_TYPES.map((type) => (
+            <option key={type} value={type}>{SEMANTIC_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={draft.baseline}
+          onChange={(e) => setDraft({ ...draft, baseline: e.target.value })}
+          placeholder={
+            baselinePreview?.daysWithData
+              ? `Baseline: ${baselinePreview.baseline} ${unit}/day (last ${baselinePreview.daysWithData} logged days)`
+              : `Baseline (${unit}/day)`
+          }
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={draft.target_daily}
+          onChange={(e) => setDraft({ ...draft, target_daily: e.target.value })}
+          placeholder={`Target (${unit}/day)`}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0.5"
+          step="0.5"
+          value={draft.step_amount}
+          onChange={(e) => setDraft({ ...draft, step_amount: e.target.value })}
+          placeholder={`Reduce by (${unit})`}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="1"
+          max="90"
+          value={draft.step_interval_days}
+          onChange={(e) => setDraft({ ...draft, step_interval_days: e.target.value })}
+          placeholder="Every N days"
+          className={inputClass}
+        />
+      </div>
+      <p className="text-xs text-text-muted">
+        −{draft.step_amount || '?'} {unit} every {draft.step_interval_days || '?'} days. Leave the baseline blank to use
+        your recent average.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-accent-error space-y-1">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={savePlan}
+        disabled={saving || !draft.habit_id}
+        className="px-4 py-2 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 transition-colors"
+      >
+        {saving ? 'Saving…' : 'Start Taper Plan'}
+      </button>
+    </div>
+  );
+}
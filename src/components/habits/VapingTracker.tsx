@@ -35,7 +35,8 @@ export default function VapingTracker({ habit, todayEntry, onUpdate }: VapingTra
           value: success, // Store success/failure
           raw_value: count, // Store actual puff count
           logged_at: new Date().toISOString(),
-          notes: count === 0 ? 'Vape-free day!' : `${count} puffs today`
+          notes: count === 0 ? 'Vape-free day!' : `${count} puffs today`,
+          import_batch_id: null
         });
 
       if (error) throw error;
@@ -1,11 +1,13 @@
 // src/components/habits/analytics/CompletionRateChart.tsx - Completion rate visualization
 import React, { useMemo } from 'react';
+import { calculateScheduledStreak, entryValueOutcome, normalizeHabitFrequency } from '../../../lib/habits/frequency';
 
 interface Habit {
   id: string;
   name: string;
   color: string;
   type: 'build' | 'break' | 'maintain';
+  frequency?: unknown;
 }
 
 interface HabitEntry {
@@ -35,7 +37,15 @@ export function CompletionRateChart({ data }: CompletionRateChartProps) {
       const habitEntries = data.entries.filter(e => e.habit_id === habit.id);
       const totalEntries = habitEntries.length;
       const successfulEntries = habitEntries.filter(e => e.value === 1).length;
-      const completionRate = totalEntries > 0 ? (successfulEntries / totalEntries) * 100 : 0;
+      // Rate of scheduled periods met, so rest days of a 3x/week habit aren't misses
+      const frequency = normalizeHabitFrequency(habit.frequency);
+      const completionRate = totalEntries === 0 ? 0 : frequency.type === 'daily'
+        ? (successfulEntries / totalEntries) * 100
+        : calculateScheduledStreak(
+            habitEntries.map(e => ({ date: e.date, outcome: entryValueOutcome(e.value) })),
+            frequency,
+            { asOf: data.dateRange.end, since: data.dateRange.start }
+          ).completionRate * 100;
       
       return {
         habit,
@@ -0,0 +1,323 @@
+// src/components/health/MedicationSchedulePanel.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  validateMedicationInput,
+  type DoseLogStatus,
+  type DoseStatus,
+  type MedicationInput,
+  type ScheduledDose,
+} from '../../lib/health/medication-schedule';
+import type { MedicationWithStatus } from '../../lib/health/medication-service';
+
+const STATUS_STYLES: Record<DoseStatus, string> = {
+  taken: 'text-accent-success',
+  skipped: 'text-text-muted',
+  upcoming: 'text-text-secondary',
+  due: 'text-accent-warning',
+  missed: 'text-accent-error',
+};
+
+interface Draft {
+  name: string;
+  dose_amount: string;
+  dose_unit: string;
+  /** "08:00-10:00, 14:00" - an optional latest time after each dash */
+  slots: string;
+  pills_remaining: string;
+  pills_per_dose: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  dose_amount: '',
+  dose_unit: 'mg',
+  slots: '08:00-10:00',
+  pills_remaining: '',
+  pills_per_dose: '1',
+};
+
+function parseSlots(value: string): MedicationInput['slots'] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [time, latest] = part.split('-').map((piece) => piece.trim());
+      return { time, latest: latest || null };
+    });
+}
+
+function statusText(dose: ScheduledDose): string {
+  switch (dose.status) {
+    case 'taken':
+      return dose.late ? 'Taken late' : 'Taken';
+    case 'skipped':
+      return 'Skipped';
+    case 'due':
+      return `Due by ${dose.latest_time}`;
+    case 'missed':
+      return `Missed (by ${dose.latest_time})`;
+    default:
+      return `At ${dose.slot_time}`;
+  }
+}
+
+export default function MedicationSchedulePanel() {
+  const [medications, setMedications] = useState<MedicationWithStatus[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadMedications = async () => {
+    try {
+      const response = await fetch('/api/health/medications');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setMedications(data.medications || []);
+    } catch (error) {
+      console.error('Failed to load medications:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadMedications();
+  }, []);
+
+  const logDose = async (dose: ScheduledDose, status: DoseLogStatus) => {
+    const response = await fetch('/api/health/medication', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ medication_id: dose.medication_id, slot_time: dose.slot_time, status }),
+    });
+    if (response.ok) await loadMedications();
+  };
+
+  const undoDose = async (dose: ScheduledDose) => {
+    const params = new URLSearchParams({ medicationId: dose.medication_id, slot: dose.slot_time });
+    const response = await fetch(`/api/health/medication?${params}`, { method: 'DELETE' });
+    if (response.ok) await loadMedications();
+  };
+
+  const refill = async (medication: MedicationWithStatus) => {
+    const input = prompt(`Pills of ${medication.name} you have now:`, String(medication.pills_remaining ?? ''));
+    if (input === null || input.trim() === '' || Number.isNaN(Number(input))) return;
+    const response = await fetch(`/api/health/medications/${medication.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pills_remaining: Number(input) }),
+    });
+    if (response.ok) await loadMedications();
+  };
+
+  const setActive = async (medication: MedicationWithStatus, active: boolean) => {
+    const response = await fetch(`/api/health/medications/${medication.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active }),
+    });
+    if (response.ok) await loadMedications();
+  };
+
+  const deleteMedication = async (medication: MedicationWithStatus) => {
+    if (!confirm(`Delete ${medication.name} and its dose history?`)) return;
+    const response = await fetch(`/api/health/medications/${medication.id}`, { method: 'DELETE' });
+    if (response.ok) await loadMedications();
+  };
+
+  const saveMedication = async () => {
+    const input: MedicationInput = {
+      name: draft.name,
+      dose_amount: draft.dose_amount.trim() === '' ? null : Number(draft.dose_amount),
+      dose_unit: draft.dose_unit.trim() || null,
+      slots: parseSlots(draft.slots),
+      pills_remaining: draft.pills_remaining.trim() === '' ? null : Number(draft.pills_remaining),
+      pills_per_dose: Number(draft.pills_per_dose),
+    };
+    const validationErrors = validateMedicationInput(input);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/health/medications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save medication']);
+        return;
+      }
+      setDraft(EMPTY_DRAFT);
+      await loadMedications();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-surface border border-border rounded-lg text-sm text-text-primary';
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-text-primary">Today's Medication</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Doses due before you leave are added to your morning chain and checked at the exit gate.
+        </p>
+      </div>
+
+      {medications.length === 0 && (
+        <p className="text-sm text-text-muted">No medications yet. Add one below with the times you take it.</p>
+      )}
+
+      {medications.map((medication) => (
+        <div
+          key={medication.id}
+          className={`border border-border rounded-lg p-4 space-y-3 ${medication.active ? '' : 'opacity-60'}`}
+        >
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-sm font-medium text-text-primary">
+                {medication.name}
+                {medication.dose_amount !== null && (
+                  <span className="text-text-muted font-normal">
+                    {' '}· {medication.dose_amount} {medication.dose_unit}
+                  </span>
+                )}
+              </p>
+              {medication.refill && (
+                <p className={`text-xs mt-1 ${medication.refill.refill_due ? 'text-accent-warning' : 'text-text-muted'}`}>
+                  {medication.pills_remaining} left · {medication.refill.days_left} days, runs out{' '}
+                  {medication.refill.runs_out_on}
+                  {medication.refill.refill_due && ' · refill soon'}
+                </p>
+              )}
+              {!medication.active && <p className="text-xs text-text-muted mt-1">Paused</p>}
+            </div>
+            <div className="flex space-x-2">
+              {medication.pills_remaining !== null && (
+                <button
+                  onClick={() => refill(medication)}
+                  className="px-3 py-1.5 text-xs border border-border text-text-secondary rounded-lg hover:text-text-primary transition-colors"
+                >
+                  Refill
+                </button>
+              )}
+              <button
+                onClick={() => setActive(medication, !medication.active)}
+                className="px-3 py-1.5 text-xs border border-border text-text-secondary rounded-lg hover:text-text-primary transition-colors"
+              >
+                {medication.active ? 'Pause' : 'Resume'}
+              </button>
+              <button
+                onClick={() => deleteMedication(medication)}
+                className="px-3 py-1.5 text-xs border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+
+          {medication.today.map((dose) => (
+            <div key={dose.slot_time} className="flex items-center justify-between p-3 bg-surface-hover rounded-lg">
+              <div>
+                <p className="text-sm text-text-primary">
+                  {dose.slot_time}
+                  {dose.label && <span className="text-text-muted"> · {dose.label}</span>}
+                </p>
+                <p className={`text-xs ${STATUS_STYLES[dose.status]}`}>{statusText(dose)}</p>
+              </div>
+              {dose.status === 'taken' || dose.status === 'skipped' ? (
+                <button
+                  onClick={() => undoDose(dose)}
+                  className="px-3 py-1.5 text-xs text-text-muted hover:text-text-primary transition-colors"
+                >
+                  Undo
+                </button>
+              ) : (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => logDose(dose, 'taken')}
+                    className="py-1.5 px-3 bg-accent-success/20 text-accent-success rounded text-xs hover:bg-accent-success/30 transition-colors"
+                  >
+                    ✓ Taken
+                  </button>
+                  <button
+                    onClick={() => logDose(dose, 'skipped')}
+                    className="py-1.5 px-3 bg-surface text-text-secondary rounded text-xs hover:text-text-primary transition-colors"
+                  >
+                    Skip
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Name (e.g. Bupropion)"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          value={draft.dose_amount}
+          onChange={(e) => setDraft({ ...draft, dose_amount: e.target.value })}
+          placeholder="Dose"
+          className={inputClass}
+        />
+        <input
+          value={draft.dose_unit}
+          onChange={(e) => setDraft({ ...draft, dose_unit: e.target.value })}
+          placeholder="Unit (mg)"
+          className={inputClass}
+        />
+        <input
+          value={draft.slots}
+          onChange={(e) => setDraft({ ...draft, slots: e.target.value })}
+          placeholder="Times, e.g. 08:00-10:00, 14:00"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          value={draft.pills_remaining}
+          onChange={(e) => setDraft({ ...draft, pills_remaining: e.target.value })}
+          placeholder="Pills left (optional)"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0.5"
+          step="0.5"
+          value={draft.pills_per_dose}
+          onChange={(e) => setDraft({ ...draft, pills_per_dose: e.target.value })}
+          placeholder="Pills per dose"
+          className={inputClass}
+        />
+      </div>
+      <p className="text-xs text-text-muted">
+        Give each time as HH:MM, with "-HH:MM" for the latest it can be taken (otherwise two hours later).
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-accent-error space-y-1">
+          {errors.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={saveMedication}
+        disabled={saving || !draft.name.trim()}
+        className="px-4 py-2 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 transition-colors"
+      >
+        {saving ? 'Saving…' : 'Add Medication'}
+      </button>
+    </div>
+  );
+}
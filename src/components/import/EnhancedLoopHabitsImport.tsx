@@ -2,11 +2,14 @@
 import React, { useState } from 'react';
 import type { ImportProgress, ImportSummary, ConflictResolution, ImportError } from '../../lib/import/enhanced-loop-habits';
 import { detectImportFormat, fuzzyMatchHabit, type ImportFormat, type FuzzyMatchResult } from '../../lib/import/enhanced-loop-habits-v2';
+import type { HabitImportDiff } from '../../lib/import/habit-import-batches';
 
 interface ImportState {
-  stage: 'idle' | 'format-detection' | 'preview' | 'uploading' | 'processing' | 'conflicts' | 'complete' | 'error';
+  stage: 'idle' | 'format-detection' | 'preview' | 'uploading' | 'processing' | 'conflicts' | 'diff' | 'complete' | 'error';
   progress: ImportProgress | null;
   summary: ImportSummary | null;
+  diff?: HabitImportDiff;
+  rollbackMessage?: string;
   conflicts: ConflictResolution[];
   error: string | null;
   importFormat?: ImportFormat;
@@ -38,6 +41,7 @@ export default function EnhancedLoopHabitsImport() {
 
   const [conflictResolutions, setConflictResolutions] = useState<ConflictResolution[]>([]);
   const [existingHabits, setExistingHabits] = useState<Array<{ id: string; name: string }>>([]);
+  const [rollingBack, setRollingBack] = useState(false);
 
   const handleFileChange = (type: 'habits' | 'checkmarks' | 'scores', file: File) => {
     setFiles(prev => ({ ...prev, [type]: file }));
@@ -218,7 +222,8 @@ export default function EnhancedLoopHabitsImport() {
     return null;
   };
 
-  const handleImport = async () => {
+  // Every import runs as a dry run first; the diff stage commits it
+  const handleImport = async (dryRun: boolean = true) => {
     const validationError = validateFiles();
     if (validationError) {
       setImportState(prev => ({ ...prev, stage: 'error', error: validationError }));
@@ -248,6 +253,7 @@ export default function EnhancedLoopHabitsImport() {
       if (conflictResolutions.length > 0) {
         formData.append('conflictResolutions', JSON.stringify(conflictResolutions));
       }
+      formData.append('dryRun', String(dryRun));
 
       const response = await fetch('/api/import/enhanced-loop-habits-v2', {
         method: 'POST',
@@ -296,6 +302,13 @@ export default function EnhancedLoopHabitsImport() {
                 resolution: 'merge' // Default resolution
               })));
               return; // Wait for user to resolve conflicts
+            } else if (data.type === 'preview') {
+              setImportState(prev => ({
+                ...prev,
+                stage: 'diff',
+                diff: data.diff
+              }));
+              return;
             } else if (data.type === 'complete') {
               setImportState(prev => ({ 
                 ...prev, 
@@ -342,6 +355,27 @@ export default function EnhancedLoopHabitsImport() {
     await handleImport();
   };
 
+  const rollbackImport = async (batchId: string) => {
+    if (!confirm('Undo this import? Inserted entries are deleted and overwritten entries restored.')) return;
+
+    setRollingBack(true);
+    try {
+      const response = await fetch(`/api/import/habit-batches/${batchId}/rollback`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Rollback failed');
+      }
+      setImportState(prev => ({
+        ...prev,
+        rollbackMessage: `Import undone: ${result.deletedEntries} entries deleted, ${result.restoredEntries} restored, ${result.deletedHabits} habits removed.`
+      }));
+    } catch (error: any) {
+      setImportState(prev => ({ ...prev, rollbackMessage: error.message || 'Rollback failed' }));
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
   const resetImport = () => {
     setImportState({
       stage: 'idle',
@@ -417,7 +451,7 @@ export default function EnhancedLoopHabitsImport() {
         </div>
 
         <button
-          onClick={handleImport}
+          onClick={() => handleImport()}
           disabled={!files.habits || !files.checkmarks || !files.scores}
           className="w-full px-4 py-3 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
         >
@@ -611,10 +645,10 @@ export default function EnhancedLoopHabitsImport() {
         {/* Action Buttons */}
         <div className="flex space-x-3">
           <button
-            onClick={handleImport}
+            onClick={() => handleImport()}
             className="flex-1 px-4 py-3 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 transition-colors font-medium"
           >
-            Proceed with Import
+            Preview Changes
           </button>
           <button
             onClick={resetImport}
@@ -731,6 +765,114 @@ export default function EnhancedLoopHabitsImport() {
     </div>
   );
 
+  const renderDiff = () => {
+    const { diff } = importState;
+    if (!diff) return null;
+
+    const created = diff.habits.filter(habit => habit.action === 'create');
+    const matched = diff.habits.filter(habit => habit.action === 'match');
+    const formatValues = (values: { value: number | null; notes: string | null }) =>
+      `${values.value ?? '—'}${values.notes ? ` · “${values.notes}”` : ''}`;
+
+    return (
+      <div className="space-y-6">
+        <div className="bg-accent-primary/10 border border-accent-primary/20 rounded-lg p-4">
+          <h4 className="font-medium text-text-primary mb-2">🔍 Dry Run: Nothing Has Been Written Yet</h4>
+          <p className="text-sm text-text-secondary">
+            Review what this import will change, then commit it. A committed import can be undone from this page.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="text-center p-3 bg-surface rounded-lg">
+            <div className="text-2xl font-bold text-accent-success">{diff.entries.insert}</div>
+            <div className="text-sm text-text-muted">New Entries</div>
+          </div>
+          <div className="text-center p-3 bg-surface rounded-lg">
+            <div className="text-2xl font-bold text-accent-warning">{diff.entries.overwrite}</div>
+            <div className="text-sm text-text-muted">Overwritten</div>
+          </div>
+          <div className="text-center p-3 bg-surface rounded-lg">
+            <div className="text-2xl font-bold text-accent-primary">{diff.entries.noteChanges}</div>
+            <div className="text-sm text-text-muted">Notes Changed</div>
+          </div>
+          <div className="text-center p-3 bg-surface rounded-lg">
+            <div className="text-2xl font-bold text-text-secondary">{diff.entries.unchanged}</div>
+            <div className="text-sm text-text-muted">Unchanged</div>
+          </div>
+        </div>
+
+        <div className="border border-border rounded-lg p-4 space-y-2">
+          <h5 className="font-medium text-text-primary">
+            Habits: {created.length} new, {matched.length} matched
+          </h5>
+          {diff.habits.map((habit, index) => (
+            <div key={index} className="text-sm text-text-secondary">
+              {habit.action === 'create' ? (
+                <span>✨ <span className="font-medium text-text-primary">{habit.habitName}</span> will be created</span>
+              ) : (
+                <span>
+                  ✓ <span className="font-medium text-text-primary">{habit.habitName}</span> → {habit.matchedHabitName}
+                  {habit.confidence !== undefined && (
+                    <span className="ml-2 text-text-muted">({habit.confidence}% confidence)</span>
+                  )}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {diff.overwrites.length > 0 && (
+          <details className="bg-accent-warning/5 border border-accent-warning/20 rounded-lg p-4">
+            <summary className="cursor-pointer font-medium text-accent-warning">
+              Overwritten entries ({diff.entries.overwrite})
+            </summary>
+            <div className="mt-3 space-y-1">
+              {diff.overwrites.map((change, index) => (
+                <p key={index} className="text-xs text-text-secondary">
+                  {change.habitName} · {change.date}: {formatValues(change.previous)} → {formatValues(change.next)}
+                </p>
+              ))}
+              {diff.entries.overwrite > diff.overwrites.length && (
+                <p className="text-xs text-text-muted">…and {diff.entries.overwrite - diff.overwrites.length} more</p>
+              )}
+            </div>
+          </details>
+        )}
+
+        {diff.noteChanges.length > 0 && (
+          <details className="bg-accent-primary/5 border border-accent-primary/20 rounded-lg p-4">
+            <summary className="cursor-pointer font-medium text-accent-primary">
+              Note changes ({diff.entries.noteChanges})
+            </summary>
+            <div className="mt-3 space-y-1">
+              {diff.noteChanges.map((change, index) => (
+                <p key={index} className="text-xs text-text-secondary">
+                  {change.habitName} · {change.date}: “{change.previous.notes || ''}” → “{change.next.notes || ''}”
+                </p>
+              ))}
+            </div>
+          </details>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            onClick={() => handleImport(false)}
+            className="flex-1 px-4 py-3 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 transition-colors font-medium"
+          >
+            Commit Import
+          </button>
+          <button
+            onClick={resetImport}
+            className="px-4 py-2 border border-border text-text-secondary rounded-lg hover:border-accent-error hover:text-accent-error transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   const renderSummary = () => {
     if (!importState.summary) return null;
 
@@ -774,6 +916,23 @@ export default function EnhancedLoopHabitsImport() {
           </div>
         </div>
 
+        {summary.batchId && (
+          <div className="flex items-center justify-between border border-border rounded-lg p-4">
+            <p className="text-sm text-text-secondary">
+              {importState.rollbackMessage || 'Imported the wrong file? This whole import can be undone.'}
+            </p>
+            {!importState.rollbackMessage && (
+              <button
+                onClick={() => rollbackImport(summary.batchId!)}
+                disabled={rollingBack}
+                className="ml-4 px-4 py-2 border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 disabled:opacity-50 transition-colors"
+              >
+                {rollingBack ? 'Undoing…' : 'Undo This Import'}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Recommendations */}
         {summary.recommendations.length > 0 && (
           <div className="bg-accent-primary/5 border border-accent-primary/20 rounded-lg p-4">
@@ -884,6 +1043,7 @@ export default function EnhancedLoopHabitsImport() {
       {importState.stage === 'preview' && renderFuzzyMatchPreview()}
       {(importState.stage === 'uploading' || importState.stage === 'processing') && renderProgress()}
       {importState.stage === 'conflicts' && renderConflictResolution()}
+      {importState.stage === 'diff' && renderDiff()}
       {importState.stage === 'complete' && renderSummary()}
       {importState.stage === 'error' && renderError()}
     </div>
@@ -61,11 +61,11 @@ export default function FinanceDataImport() {
         {/* Bank Statement Upload */}
         <div>
           <label className="block text-sm font-medium text-text-secondary mb-2">
-            Bank Statement CSV (Optional)
+            Bank Statement: CSV, OFX, QIF or CAMT.053 (Optional)
           </label>
           <input
             type="file"
-            accept=".csv"
+            accept=".csv,.ofx,.qfx,.qif,.xml"
             onChange={(e) => e.target.files?.[0] && handleFileChange('bank', e.target.files[0])}
             className="w-full px-3 py-2 bg-surface border border-border rounded-lg text-text-primary"
           />
@@ -0,0 +1,94 @@
+// src/components/import/HabitImportBatches.tsx
+import React, { useEffect, useState } from 'react';
+import type { HabitImportBatch } from '../../lib/import/habit-import-batches';
+
+const SOURCE_LABELS: Record<HabitImportBatch['source'], string> = {
+  loop_root: 'Loop root export',
+  loop_per_habit: 'Loop per-habit export',
+};
+
+export default function HabitImportBatches() {
+  const [batches, setBatches] = useState<HabitImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadBatches = async () => {
+    try {
+      const response = await fetch('/api/import/habit-batches');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setBatches(data.batches || []);
+    } catch (error) {
+      console.error('Failed to load import batches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const rollback = async (batch: HabitImportBatch) => {
+    if (!confirm('Undo this import? Inserted entries are deleted and overwritten entries restored.')) return;
+
+    setRollingBack(batch.id);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/import/habit-batches/${batch.id}/rollback`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Rollback failed');
+
+      setMessage(
+        `Import undone: ${result.deletedEntries} entries deleted, ${result.restoredEntries} restored, ` +
+        `${result.deletedHabits} habits removed` +
+        (result.skippedEntries > 0 ? `, ${result.skippedEntries} entries changed since and left as they are.` : '.')
+      );
+      await loadBatches();
+    } catch (error: any) {
+      setMessage(error.message || 'Rollback failed');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading || batches.length === 0) return null;
+
+  return (
+    <div className="card p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-text-primary">Recent Habit Imports</h3>
+      {message && <p className="text-sm text-text-secondary">{message}</p>}
+
+      <div className="space-y-2">
+        {batches.map((batch) => (
+          <div key={batch.id} className="flex items-center justify-between border border-border rounded-lg p-3">
+            <div>
+              <p className="text-sm font-medium text-text-primary">
+                {SOURCE_LABELS[batch.source] || batch.source} · {new Date(batch.created_at).toLocaleString()}
+              </p>
+              {batch.summary && (
+                <p className="text-xs text-text-muted mt-1">
+                  {batch.summary.insert} new, {batch.summary.overwrite} overwritten entries ·{' '}
+                  {batch.summary.habitsCreated} habits created
+                </p>
+              )}
+            </div>
+
+            {batch.status === 'rolled_back' ? (
+              <span className="text-xs text-text-muted">Rolled back</span>
+            ) : (
+              <button
+                onClick={() => rollback(batch)}
+                disabled={rollingBack !== null}
+                className="px-3 py-1.5 text-sm border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 disabled:opacity-50 transition-colors"
+              >
+                {rollingBack === batch.id ? 'Rolling back…' : 'Roll back'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
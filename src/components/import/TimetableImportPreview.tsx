@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { CalendarEvent } from '../../types/calendar';
+import type { TimetableImportPreview as Preview } from '../../lib/import/timetable-csv';
+
+interface TimetableImportPreviewProps {
+  preview: Preview;
+  skipped: Array<{ row: number; reason: string }>;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSession = (event: CalendarEvent) => {
+  const start = new Date(event.start_time);
+  const flags = [event.must_attend ? 'mandatory' : null, event.is_online ? 'online' : null].filter(Boolean);
+  return `${start.toLocaleDateString()} ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · ${event.title}${
+    flags.length > 0 ? ` (${flags.join(', ')})` : ''
+  }`;
+};
+
+export const TimetableImportPreview: React.FC<TimetableImportPreviewProps> = ({ preview, skipped, onConfirm, onClose }) => {
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasChanges = preview.added.length + preview.updated.length + preview.removed.length > 0;
+
+  const handleConfirm = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      await onConfirm();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="csv-importer-modal">
+      <div className="modal-content">
+        <h2>Timetable import preview</h2>
+        <p>
+          {preview.added.length} new · {preview.updated.length} changed · {preview.removed.length} removed ·{' '}
+          {preview.unchanged.length} unchanged
+        </p>
+
+        {preview.added.length > 0 && (
+          <details open>
+            <summary>New sessions</summary>
+            <ul>
+              {preview.added.map((event) => <li key={event.external_id}>{formatSession(event)}</li>)}
+            </ul>
+          </details>
+        )}
+
+        {preview.updated.length > 0 && (
+          <details open>
+            <summary>Changed sessions</summary>
+            <ul>
+              {preview.updated.map(({ incoming, changes }) => (
+                <li key={incoming.external_id}>
+                  {formatSession(incoming)} — {changes.join(', ').replace(/_/g, ' ')}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
+        {preview.removed.length > 0 && (
+          <details open>
+            <summary>No longer in the timetable</summary>
+            <ul>
+              {preview.removed.map((event) => <li key={event.id}>{formatSession(event)}</li>)}
+            </ul>
+          </details>
+        )}
+
+        {skipped.length > 0 && (
+          <details>
+            <summary>{skipped.length} rows skipped</summary>
+            <ul>
+              {skipped.map(({ row, reason }) => <li key={row}>Row {row}: {reason}</li>)}
+            </ul>
+          </details>
+        )}
+
+        {error && <p className="error-message">{error}</p>}
+        <div className="modal-actions">
+          <button onClick={onClose} className="cancel-button" disabled={importing}>Cancel</button>
+          <button onClick={handleConfirm} className="btn btn-primary" disabled={importing || !hasChanges}>
+            {importing ? 'Importing...' : hasChanges ? 'Apply changes' : 'Nothing to import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
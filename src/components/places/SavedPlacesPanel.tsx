@@ -0,0 +1,328 @@
+// src/components/places/SavedPlacesPanel.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  SAVED_PLACE_KINDS,
+  validateSavedPlaceInput,
+  type SavedPlace,
+  type SavedPlaceInput,
+  type SavedPlaceKind,
+} from '../../lib/places/saved-places';
+import { TRAVEL_METHODS, type TravelProfile } from '../../lib/places/travel-profile';
+
+const KIND_LABELS: Record<SavedPlaceKind, string> = {
+  home: 'Home',
+  campus: 'Campus building',
+  gym: 'Gym',
+  gp: 'GP / clinic',
+  work: 'Work',
+  store: 'Shop',
+  other: 'Other',
+};
+
+interface Draft {
+  name: string;
+  kind: SavedPlaceKind;
+  /** "52.4508, -1.9305" as copied from a map */
+  coordinates: string;
+  aliases: string;
+  access_minutes: string;
+  bike_parking_minutes: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  kind: 'campus',
+  coordinates: '',
+  aliases: '',
+  access_minutes: '0',
+  bike_parking_minutes: '',
+};
+
+function toInput(draft: Draft): SavedPlaceInput {
+  const [latitude, longitude] = draft.coordinates.split(',').map((part) => Number(part.trim()));
+  return {
+    name: draft.name,
+    kind: draft.kind,
+    latitude,
+    longitude,
+    aliases: draft.aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+    access_minutes: Number(draft.access_minutes || 0),
+    bike_parking_minutes: draft.bike_parking_minutes.trim() === '' ? null : Number(draft.bike_parking_minutes),
+  };
+}
+
+export default function SavedPlacesPanel() {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [profile, setProfile] = useState<TravelProfile | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [profileStatus, setProfileStatus] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadPlaces = async () => {
+    try {
+      const response = await fetch('/api/places');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setPlaces(data.places || []);
+    } catch (error) {
+      console.error('Failed to load saved places:', error);
+    }
+  };
+
+  const loadProfile = async () => {
+    try {
+      const response = await fetch('/api/daily-plan/travel-profile');
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setProfile(await response.json());
+    } catch (error) {
+      console.error('Failed to load travel profile:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadPlaces();
+    loadProfile();
+  }, []);
+
+  const savePlace = async () => {
+    const input = toInput(draft);
+    const validationErrors = validateSavedPlaceInput(input);
+    if (Number.isNaN(input.latitude) || Number.isNaN(input.longitude)) {
+      validationErrors.push('Coordinates must be "latitude, longitude"');
+    }
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/places', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(Array.isArray(data.details) ? data.details : [data.error || 'Failed to save place']);
+        return;
+      }
+      setDraft(EMPTY_DRAFT);
+      await loadPlaces();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePlace = async (place: SavedPlace) => {
+    if (!confirm(`Delete ${place.name}?`)) return;
+    const response = await fetch(`/api/places/${place.id}`, { method: 'DELETE' });
+    if (response.ok) await loadPlaces();
+  };
+
+  const saveProfile = async () => {
+    if (!profile) return;
+    setProfileStatus('Saving…');
+    const response = await fetch('/api/daily-plan/travel-profile', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(profile),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setProfileStatus(Array.isArray(data.details) ? data.details.join('; ') : data.error || 'Failed to save');
+      return;
+    }
+    setProfile(data);
+    setProfileStatus('Saved');
+  };
+
+  const toggleMethod = (method: TravelProfile['allowed_methods'][number]) => {
+    if (!profile) return;
+    // An empty list means every method
+    const current = profile.allowed_methods.length > 0 ? profile.allowed_methods : TRAVEL_METHODS;
+    const allowed = current.includes(method) ? current.filter((m) => m !== method) : [...current, method];
+    setProfile({ ...profile, allowed_methods: allowed.length === TRAVEL_METHODS.length ? [] : allowed });
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-background border border-border rounded-lg text-sm text-text-primary';
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {places.length === 0 && (
+          <p className="text-sm text-text-muted">
+            No saved places yet. Until you add some, travel is estimated from central Birmingham.
+          </p>
+        )}
+
+        {places.map((place) => (
+          <div key={place.id} className="flex items-start justify-between border border-border rounded-lg p-3">
+            <div>
+              <p className="text-sm font-medium text-text-primary">
+                {place.name}
+                <span className="text-text-muted font-normal"> · {KIND_LABELS[place.kind]}</span>
+              </p>
+              <p className="text-xs text-text-muted mt-1">
+                {place.latitude.toFixed(4)}, {place.longitude.toFixed(4)}
+                {place.access_minutes > 0 && ` · ${place.access_minutes} min to get inside`}
+                {place.bike_parking_minutes !== null && ` · ${place.bike_parking_minutes} min bike parking`}
+              </p>
+              {place.aliases.length > 0 && (
+                <p className="text-xs text-text-muted">Also matches: {place.aliases.join(', ')}</p>
+              )}
+            </div>
+            <button
+              onClick={() => deletePlace(place)}
+              className="px-3 py-1.5 text-xs border border-accent-error text-accent-error rounded-lg hover:bg-accent-error/10 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name (e.g. Muirhead Tower)"
+            className={inputClass}
+          />
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as SavedPlaceKind })}
+            className={inputClass}
+          >
+            {SAVED_PLACE_KINDS.map((kind) => (
+              <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+          <input
+            value={draft.coordinates}
+            onChange={(e) => setDraft({ ...draft, coordinates: e.target.value })}
+            placeholder="Coordinates, e.g. 52.4508, -1.9305"
+            className={inputClass}
+          />
+          <input
+            value={draft.aliases}
+            onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+            placeholder="Other names, comma separated"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min="0"
+            value={draft.access_minutes}
+            onChange={(e) => setDraft({ ...draft, access_minutes: e.target.value })}
+            placeholder="Minutes to get inside"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min="0"
+            value={draft.bike_parking_minutes}
+            onChange={(e) => setDraft({ ...draft, bike_parking_minutes: e.target.value })}
+            placeholder="Bike parking minutes (optional)"
+            className={inputClass}
+          />
+        </div>
+        <p className="text-xs text-text-muted">
+          Anchors whose location mentions a place's name or one of its other names are planned to that place.
+          Minutes to get inside covers lifts, reception and finding the room.
+        </p>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-accent-error space-y-1">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <button
+          onClick={savePlace}
+          disabled={saving || !draft.name.trim()}
+          className="px-4 py-2 bg-accent-primary text-white rounded-lg hover:bg-accent-primary/90 disabled:opacity-50 transition-colors"
+        >
+          {saving ? 'Saving…' : 'Add Place'}
+        </button>
+      </div>
+
+      {profile && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-text-primary">Travel profile</h3>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {TRAVEL_METHODS.map((method) => (
+              <label key={method} className="inline-flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={profile.allowed_methods.length === 0 || profile.allowed_methods.includes(method)}
+                  onChange={() => toggleMethod(method)}
+                />
+                <span className="text-text-primary capitalize">{method}</span>
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <label className="text-text-muted">
+              Walking speed (km/h)
+              <input
+                type="number"
+                step="0.5"
+                value={profile.walking_speed_kmh}
+                onChange={(e) => setProfile({ ...profile, walking_speed_kmh: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-text-muted">
+              Cycling speed (km/h)
+              <input
+                type="number"
+                step="0.5"
+                value={profile.cycling_speed_kmh}
+                onChange={(e) => setProfile({ ...profile, cycling_speed_kmh: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-text-muted">
+              Longest walk (m)
+              <input
+                type="number"
+                step="100"
+                value={profile.max_walking_distance_m}
+                onChange={(e) => setProfile({ ...profile, max_walking_distance_m: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-text-muted">
+              Train fare (pence)
+              <input
+                type="number"
+                value={profile.train_fare_pence ?? ''}
+                onChange={(e) => setProfile({ ...profile, train_fare_pence: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="Standard"
+                className={inputClass}
+              />
+            </label>
+            <label className="text-text-muted">
+              Bus fare (pence)
+              <input
+                type="number"
+                value={profile.bus_fare_pence ?? ''}
+                onChange={(e) => setProfile({ ...profile, bus_fare_pence: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="Standard"
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={saveProfile}
+              className="px-4 py-2 rounded-lg border border-border text-text-secondary text-sm font-medium hover:text-text-primary hover:bg-surface-hover transition-colors"
+            >
+              Save travel profile
+            </button>
+            {profileStatus && <span className="text-xs text-text-muted">{profileStatus}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,11 @@ interface ImportMetaEnv {
   readonly PUBLIC_SUPABASE_ANON_KEY: string;
   readonly SUPABASE_SERVICE_ROLE_KEY: string;
   readonly GEMINI_API_KEY: string;
+  readonly LLM_PROVIDER?: 'gemini' | 'openai-compatible' | 'stub';
+  readonly LLM_MODEL?: string;
+  readonly LLM_BASE_URL?: string;
+  readonly LLM_API_KEY?: string;
+  readonly GTFS_FEED_PATH?: string;
   readonly CMC_API_KEY: string;
   readonly STRIPE_SECRET_KEY: string;
   readonly STRIPE_WEBHOOK_SECRET: string;
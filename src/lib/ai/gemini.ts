@@ -1,24 +1,18 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(import.meta.env.GEMINI_API_KEY);
+import { completeJSON } from './llm';
 
 export async function generateRecommendations(userContext: any) {
-  const model = genAI.getGenerativeModel({ model: "gemini-pro" });
-  
   const prompt = `
     Based on this user's data:
     - Habits: ${JSON.stringify(userContext.habits)}
     - Recent activity: ${JSON.stringify(userContext.recentActivity)}
-    
+
     Generate 3 personalized recommendations for improving their life.
     Return as JSON array with title, description, and actionType fields.
   `;
-  
-  const result = await model.generateContent(prompt);
-  const response = await result.response;
-  
+
   try {
-    return JSON.parse(response.text());
+    const { data } = await completeJSON<any[]>({ prompt, purpose: 'recommendations' });
+    return Array.isArray(data) ? data : [];
   } catch {
     return [];
   }
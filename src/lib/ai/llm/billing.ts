@@ -0,0 +1,67 @@
+// src/lib/ai/llm/billing.ts - Charge users for completions
+//
+// Kept apart from the providers so they load without a Supabase client.
+import { tokenService } from '../../tokens/service';
+import type { TokenDeductionResult } from '../../tokens/types';
+import { usageToAppTokens } from './usage';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider } from './types';
+
+/**
+ * Charge a user for one completion, priced from the provider's reported usage
+ */
+export async function deductForCompletion(
+  userId: string,
+  completion: Pick<LLMCompletion, 'usage' | 'provider' | 'model'>,
+  description: string,
+  entityType?: string,
+  metadata: Record<string, unknown> = {}
+): Promise<TokenDeductionResult> {
+  return tokenService.deductTokens(
+    userId,
+    usageToAppTokens(completion.usage),
+    description,
+    entityType,
+    undefined,
+    {
+      ...metadata,
+      llm_provider: completion.provider,
+      llm_model: completion.model,
+      llm_input_tokens: completion.usage.inputTokens,
+      llm_output_tokens: completion.usage.outputTokens,
+      llm_usage_estimated: completion.usage.estimated,
+    }
+  );
+}
+
+/**
+ * Provider that charges the user for every completion it returns
+ *
+ * Routes hand this to the services they call, so multi-step features pay for
+ * each model call at its own usage. A failed charge is logged rather than
+ * thrown: the completion has already been paid for upstream.
+ */
+export function billedProvider(
+  provider: LLMProvider,
+  userId: string,
+  description: string,
+  entityType = 'ai_completion'
+): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const completion = await provider.complete(request);
+      try {
+        const result = await deductForCompletion(userId, completion, description, entityType, {
+          purpose: request.purpose,
+        });
+        if (!result.success) {
+          console.warn(`[LLM Billing] Could not charge ${userId} for ${description}: ${result.error}`);
+        }
+      } catch (error) {
+        console.warn(`[LLM Billing] Could not charge ${userId} for ${description}:`, error);
+      }
+      return completion;
+    },
+  };
+}
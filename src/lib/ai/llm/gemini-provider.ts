@@ -0,0 +1,55 @@
+// src/lib/ai/llm/gemini-provider.ts - Google Gemini adapter
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { estimateUsage } from './usage';
+import { LLMError, type LLMCompletion, type LLMCompletionRequest, type LLMProvider } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+/** For the long-context analysis features that were built against pro */
+export const GEMINI_PRO_MODEL = 'gemini-1.5-pro';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {
+    if (!apiKey) {
+      throw new LLMError('GEMINI_API_KEY not configured', 'gemini');
+    }
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const modelName = request.model || this.model;
+    const model = this.genAI.getGenerativeModel({
+      model: modelName,
+      ...(request.system ? { systemInstruction: request.system } : {}),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.json ? { responseMimeType: 'application/json' } : {}),
+      },
+    });
+
+    try {
+      const result = await model.generateContent(request.prompt);
+      const text = result.response.text();
+      const usage = result.response.usageMetadata;
+
+      return {
+        text,
+        usage: usage
+          ? {
+              inputTokens: usage.promptTokenCount,
+              outputTokens: usage.candidatesTokenCount,
+              totalTokens: usage.totalTokenCount,
+              estimated: false,
+            }
+          : estimateUsage(`${request.system || ''}${request.prompt}`, text),
+        provider: this.name,
+        model: modelName,
+      };
+    } catch (error) {
+      throw new LLMError(error instanceof Error ? error.message : 'Gemini request failed', this.name, error);
+    }
+  }
+}
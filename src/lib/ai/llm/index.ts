@@ -0,0 +1,133 @@
+// src/lib/ai/llm/index.ts - The one entry point for LLM calls
+//
+// Every AI feature goes through getLLMProvider() instead of constructing a
+// model client itself. LLM_PROVIDER picks the backend:
+//   gemini (default)    GEMINI_API_KEY (or GOOGLE_API_KEY), LLM_MODEL
+//   openai-compatible   LLM_BASE_URL, LLM_MODEL, LLM_API_KEY (optional)
+//   stub                deterministic offline answers; tests install their
+//                       own fixtures with setLLMProvider(new StubLLMProvider(...))
+// Token charges for a completion live in ./billing.
+import { GeminiProvider } from './gemini-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { StubLLMProvider } from './stub-provider';
+import {
+  LLMError,
+  LLMResponseFormatError,
+  type LLMCompletion,
+  type LLMCompletionRequest,
+  type LLMJSONCompletion,
+  type LLMProvider,
+} from './types';
+
+export * from './types';
+export { GeminiProvider, DEFAULT_GEMINI_MODEL, GEMINI_PRO_MODEL } from './gemini-provider';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-compatible-provider';
+export { StubLLMProvider, type LLMFixture, type StubLLMProviderOptions } from './stub-provider';
+export { estimateUsage, usageToAppTokens, LLM_TOKENS_PER_APP_TOKEN } from './usage';
+
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+let activeProvider: LLMProvider | null = null;
+
+function readEnv(key: string): string | undefined {
+  const runtimeEnv = (import.meta as any).env || {};
+  return runtimeEnv[key] || process.env[key] || undefined;
+}
+
+/**
+ * Build the provider LLM_PROVIDER asks for
+ *
+ * @throws LLMError when the chosen provider is not configured
+ */
+export function createLLMProviderFromEnv(): LLMProvider {
+  const kind = readEnv('LLM_PROVIDER') || 'gemini';
+
+  switch (kind) {
+    case 'stub':
+      return new StubLLMProvider([], {
+        fallback: (request) => (request.json ? '{}' : 'AI is running offline with the stub provider.'),
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: readEnv('LLM_BASE_URL') || '',
+        model: readEnv('LLM_MODEL') || DEFAULT_LOCAL_MODEL,
+        apiKey: readEnv('LLM_API_KEY'),
+      });
+    case 'gemini':
+      return new GeminiProvider(readEnv('GEMINI_API_KEY') || readEnv('GOOGLE_API_KEY') || '', readEnv('LLM_MODEL'));
+    default:
+      throw new LLMError(`Unknown LLM_PROVIDER "${kind}"`, kind);
+  }
+}
+
+/**
+ * The configured provider, created on first use
+ *
+ * @throws LLMError when it is not configured
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the provider (tests, scripts); null goes back to the environment's
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+export function isLLMConfigured(): boolean {
+  try {
+    getLLMProvider();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function completeText(
+  request: LLMCompletionRequest,
+  provider: LLMProvider = getLLMProvider()
+): Promise<LLMCompletion> {
+  return provider.complete(request);
+}
+
+/**
+ * Parse a model's JSON answer, tolerating markdown fences and surrounding prose
+ *
+ * @returns undefined if there is no JSON in the text
+ */
+export function parseJSONText<T = unknown>(text: string): T | undefined {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '').trim();
+  try {
+    return JSON.parse(unfenced) as T;
+  } catch {
+    const block = unfenced.match(/[[{][\s\S]*[\]}]/);
+    if (!block) return undefined;
+    try {
+      return JSON.parse(block[0]) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Structured output: ask for JSON and parse it
+ *
+ * @throws LLMResponseFormatError when the answer is not JSON
+ */
+export async function completeJSON<T = unknown>(
+  request: LLMCompletionRequest,
+  provider: LLMProvider = getLLMProvider()
+): Promise<LLMJSONCompletion<T>> {
+  const completion = await provider.complete({ ...request, json: true });
+  const data = parseJSONText<T>(completion.text);
+  if (data === undefined) {
+    throw new LLMResponseFormatError(completion.provider, completion.text);
+  }
+  return { ...completion, data };
+}
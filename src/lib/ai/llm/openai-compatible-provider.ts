@@ -0,0 +1,83 @@
+// src/lib/ai/llm/openai-compatible-provider.ts - OpenAI-style /chat/completions adapter
+//
+// Works with local servers that speak the OpenAI API (Ollama, llama.cpp,
+// LM Studio, vLLM) as well as hosted ones. The API key is optional locally.
+import { estimateUsage } from './usage';
+import { LLMError, type LLMCompletion, type LLMCompletionRequest, type LLMProvider } from './types';
+
+export interface OpenAICompatibleConfig {
+  /** e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Whether the server understands response_format: json_object */
+  supportsJsonMode?: boolean;
+  fetchImpl?: typeof fetch;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseUrl) {
+      throw new LLMError('LLM_BASE_URL not configured', 'openai-compatible');
+    }
+    this.config = { supportsJsonMode: true, ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.model = config.model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    // Features pin Gemini models by name; a local server keeps its own
+    const modelName = request.model && !request.model.startsWith('gemini-') ? request.model : this.model;
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+    const fetchImpl = this.config.fetchImpl ?? fetch;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: modelName,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxOutputTokens,
+          ...(request.json && this.config.supportsJsonMode ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+    } catch (error) {
+      throw new LLMError(`Could not reach ${this.config.baseUrl}`, this.name, error);
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new LLMError(`HTTP ${response.status}: ${details.slice(0, 200)}`, this.name);
+    }
+
+    const body = await response.json();
+    const text: string = body?.choices?.[0]?.message?.content ?? '';
+    const usage = body?.usage;
+
+    return {
+      text,
+      usage: usage
+        ? {
+            inputTokens: usage.prompt_tokens ?? 0,
+            outputTokens: usage.completion_tokens ?? 0,
+            totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+            estimated: false,
+          }
+        : estimateUsage(messages.map((message) => message.content).join('\n'), text),
+      provider: this.name,
+      model: body?.model || modelName,
+    };
+  }
+}
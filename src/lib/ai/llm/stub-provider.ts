@@ -0,0 +1,67 @@
+// src/lib/ai/llm/stub-provider.ts - Deterministic fixture-replay provider
+//
+// Replays canned responses so AI features run in tests and offline. A
+// request is answered by the first fixture whose purpose and prompt match;
+// usage is the fixture's own or estimated from text length, so token
+// charges are deterministic too.
+import { estimateUsage } from './usage';
+import { LLMError, type LLMCompletion, type LLMCompletionRequest, type LLMProvider, type LLMUsage } from './types';
+
+export interface LLMFixture {
+  /** Matches request.purpose exactly */
+  purpose?: string;
+  /** Text the prompt must contain, or a pattern it must match */
+  match?: string | RegExp;
+  /** Objects and arrays are returned as JSON */
+  response: string | Record<string, unknown> | unknown[];
+  usage?: Omit<LLMUsage, 'estimated'>;
+}
+
+export interface StubLLMProviderOptions {
+  /** Answer for requests no fixture matches; without it they throw */
+  fallback?: string | ((request: LLMCompletionRequest) => string);
+}
+
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-fixtures';
+  /** Every request, in order, for assertions */
+  readonly calls: LLMCompletionRequest[] = [];
+
+  constructor(private fixtures: LLMFixture[] = [], private options: StubLLMProviderOptions = {}) {}
+
+  addFixture(fixture: LLMFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.calls.push(request);
+    const prompt = `${request.system || ''}\n${request.prompt}`;
+    const fixture = this.fixtures.find((candidate) => this.matches(candidate, request, prompt));
+
+    let text: string;
+    if (fixture) {
+      text = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    } else if (this.options.fallback !== undefined) {
+      text = typeof this.options.fallback === 'function' ? this.options.fallback(request) : this.options.fallback;
+    } else {
+      throw new LLMError(
+        `No stub fixture for ${request.purpose ? `purpose "${request.purpose}"` : 'this prompt'}: ${request.prompt.slice(0, 80)}`,
+        this.name
+      );
+    }
+
+    return {
+      text,
+      usage: fixture?.usage ? { ...fixture.usage, estimated: false } : estimateUsage(prompt, text),
+      provider: this.name,
+      model: request.model || this.model,
+    };
+  }
+
+  private matches(fixture: LLMFixture, request: LLMCompletionRequest, prompt: string): boolean {
+    if (fixture.purpose && fixture.purpose !== request.purpose) return false;
+    if (fixture.match === undefined) return true;
+    return typeof fixture.match === 'string' ? prompt.includes(fixture.match) : fixture.match.test(prompt);
+  }
+}
@@ -0,0 +1,56 @@
+// src/lib/ai/llm/types.ts - Provider-neutral LLM types
+
+export interface LLMCompletionRequest {
+  /** The user turn */
+  prompt: string;
+  /** System instruction, kept separate where the provider supports it */
+  system?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Ask for a single JSON object (JSON mode where the provider has one) */
+  json?: boolean;
+  /** Overrides the provider's default model */
+  model?: string;
+  /** Feature making the call, e.g. 'habit_note_enrichment'; picks stub fixtures */
+  purpose?: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** True when the provider reported nothing and usage was estimated from text length */
+  estimated: boolean;
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+  provider: string;
+  model: string;
+}
+
+export interface LLMJSONCompletion<T> extends LLMCompletion {
+  data: T;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export class LLMError extends Error {
+  constructor(message: string, public provider: string, public cause?: unknown) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/** The model answered, but not with the JSON that was asked for */
+export class LLMResponseFormatError extends LLMError {
+  constructor(provider: string, public text: string) {
+    super('Model returned invalid JSON', provider);
+    this.name = 'LLMResponseFormatError';
+  }
+}
@@ -0,0 +1,24 @@
+// src/lib/ai/llm/usage.ts - Provider usage → app token charges
+import type { LLMUsage } from './types';
+
+/** Model tokens per app token */
+export const LLM_TOKENS_PER_APP_TOKEN = 100;
+/** Every call costs at least this, however short */
+export const MINIMUM_APP_TOKEN_CHARGE = 1;
+
+/**
+ * Rough model token count for providers that report no usage (~4 chars per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(prompt: string, output: string): LLMUsage {
+  const inputTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens(output);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimated: true };
+}
+
+export function usageToAppTokens(usage: LLMUsage): number {
+  return Math.max(MINIMUM_APP_TOKEN_CHARGE, Math.ceil(usage.totalTokens / LLM_TOKENS_PER_APP_TOKEN));
+}
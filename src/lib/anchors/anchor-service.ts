@@ -8,8 +8,12 @@
 
 import { calendarService } from '../calendar/calendar-service';
 import type { CalendarEvent } from '../../types/calendar';
-import type { Anchor, AnchorType, AnchorServiceConfig } from './types';
+import type { Anchor, AnchorType, AnchorServiceConfig, ManualAnchorSeries } from './types';
 import { DEFAULT_ANCHOR_CONFIG } from './types';
+import { buildSeriesOccurrence } from './recurrence';
+import { placeService } from '../places/place-service';
+import { matchPlace } from '../places/saved-places';
+import { isMissingTable } from '../supabase/helpers';
 
 export class AnchorService {
   private config: AnchorServiceConfig;
@@ -54,33 +58,21 @@ export class AnchorService {
       // Convert calendar events to anchors
       const calendarAnchors = events.map(event => this.convertEventToAnchor(event));
 
-      // Fetch manual anchors for the day (if table exists in current environment).
+      // Fetch manual anchors for the day (if tables exist in current environment).
       let manualAnchors: Anchor[] = [];
       if (supabaseClient) {
-        const { data: manualRows, error: manualError } = await supabaseClient
-          .from('manual_anchors')
-          .select('*')
-          .eq('user_id', userId)
-          .eq('anchor_date', startOfDay.toISOString().split('T')[0])
-          .order('start_time', { ascending: true });
-
-        if (!manualError && Array.isArray(manualRows)) {
-          manualAnchors = manualRows.map((row: any): Anchor => ({
-            id: row.id,
-            start: new Date(row.start_time),
-            end: new Date(row.end_time),
-            title: row.title,
-            location: row.location || undefined,
-            type: (row.anchor_type || 'other') as AnchorType,
-            must_attend: Boolean(row.must_attend),
-            calendar_event_id: `manual-${row.id}`,
-          }));
-        } else if (manualError && manualError.code !== '42P01') {
-          console.warn('[Anchor Service] Manual anchors query failed, continuing with calendar anchors only:', manualError.message);
-        }
+        const anchorDate = startOfDay.toISOString().split('T')[0];
+        const [oneOffAnchors, recurringAnchors] = await Promise.all([
+          this.getManualAnchors(anchorDate, userId, supabaseClient),
+          this.getRecurringAnchors(anchorDate, userId, supabaseClient),
+        ]);
+        manualAnchors = [...oneOffAnchors, ...recurringAnchors];
       }
 
-      const anchors = [...calendarAnchors, ...manualAnchors];
+      let anchors = [...calendarAnchors, ...manualAnchors];
+      if (supabaseClient) {
+        anchors = await this.matchSavedPlaces(anchors, userId, supabaseClient);
+      }
 
       // Sort by start time
       anchors.sort((a, b) => a.start.getTime() - b.start.getTime());
@@ -104,6 +96,110 @@ export class AnchorService {
     }
   }
 
+  /**
+   * Attach the saved place each anchor's location text names, so travel is
+   * planned from real coordinates. Anchors stay as they are if places can't
+   * be loaded.
+   */
+  private async matchSavedPlaces(anchors: Anchor[], userId: string, supabaseClient: any): Promise<Anchor[]> {
+    if (!anchors.some(anchor => anchor.location)) return anchors;
+
+    try {
+      const places = await placeService.listPlaces(supabaseClient, userId);
+      if (places.length === 0) return anchors;
+
+      return anchors.map(anchor => {
+        const place = anchor.location ? matchPlace(anchor.location, places) : null;
+        return place ? { ...anchor, place } : anchor;
+      });
+    } catch (error) {
+      console.warn('[Anchor Service] Saved places unavailable, planning travel without them:', error);
+      return anchors;
+    }
+  }
+
+  /**
+   * Get one-off manual anchors (and edited series occurrences) for a date
+   */
+  private async getManualAnchors(
+    anchorDate: string,
+    userId: string,
+    supabaseClient: any
+  ): Promise<Anchor[]> {
+    const { data: manualRows, error: manualError } = await supabaseClient
+      .from('manual_anchors')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('anchor_date', anchorDate)
+      .order('start_time', { ascending: true });
+
+    if (manualError) {
+      if (!isMissingTable(manualError)) {
+        console.warn('[Anchor Service] Manual anchors query failed, continuing with calendar anchors only:', manualError.message);
+      }
+      return [];
+    }
+
+    return (Array.isArray(manualRows) ? manualRows : []).map((row: any): Anchor => ({
+      id: row.id,
+      start: new Date(row.start_time),
+      end: new Date(row.end_time),
+      title: row.title,
+      location: row.location || undefined,
+      type: (row.anchor_type || 'other') as AnchorType,
+      must_attend: Boolean(row.must_attend),
+      calendar_event_id: `manual-${row.id}`,
+    }));
+  }
+
+  /**
+   * Expand recurring manual anchor series into anchors for a date
+   *
+   * Occurrences that have been edited individually are stored as
+   * manual_anchors rows (series_id + occurrence_date) and are skipped here,
+   * since getManualAnchors already returns the edited version.
+   */
+  private async getRecurringAnchors(
+    anchorDate: string,
+    userId: string,
+    supabaseClient: any
+  ): Promise<Anchor[]> {
+    const { data: seriesRows, error: seriesError } = await supabaseClient
+      .from('manual_anchor_series')
+      .select('*')
+      .eq('user_id', userId)
+      .lte('start_date', anchorDate);
+
+    if (seriesError) {
+      if (!isMissingTable(seriesError)) {
+        console.warn('[Anchor Service] Anchor series query failed, skipping recurring anchors:', seriesError.message);
+      }
+      return [];
+    }
+
+    const series = (Array.isArray(seriesRows) ? seriesRows : []) as ManualAnchorSeries[];
+    if (series.length === 0) return [];
+
+    const { data: overrideRows, error: overrideError } = await supabaseClient
+      .from('manual_anchors')
+      .select('series_id')
+      .eq('user_id', userId)
+      .eq('occurrence_date', anchorDate);
+
+    if (overrideError && overrideError.code !== '42703') {
+      console.warn('[Anchor Service] Occurrence override query failed:', overrideError.message);
+    }
+
+    const overridden = new Set<string>(
+      (Array.isArray(overrideRows) ? overrideRows : []).map((row: any) => row.series_id)
+    );
+
+    return series
+      .filter(row => !overridden.has(row.id))
+      .map(row => buildSeriesOccurrence(row, anchorDate))
+      .filter((anchor): anchor is Anchor => anchor !== null);
+  }
+
   /**
    * Convert a calendar event to an anchor
    * 
@@ -125,6 +221,7 @@ export class AnchorService {
       location: event.location,
       type,
       must_attend,
+      is_online: Boolean(event.is_online),
       calendar_event_id: event.id,
     };
   }
@@ -187,8 +284,14 @@ export class AnchorService {
    * @returns True if must attend, false otherwise
    * 
    * Requirements: 1.5 - Location exists → must_attend = true
+   * An explicit flag from the source (e.g. a timetable's mandatory-attendance
+   * column) takes precedence over the location rule.
    */
   private determineMustAttend(event: CalendarEvent): boolean {
+    if (typeof event.must_attend === 'boolean') {
+      return event.must_attend;
+    }
+
     if (!this.config.requireLocationForMustAttend) {
       return this.config.defaultMustAttend;
     }
@@ -0,0 +1,373 @@
+/**
+ * Recurrence Expansion
+ * Parses the RRULE subset used by recurring manual anchors and expands a
+ * series into concrete Anchor objects for a plan date.
+ *
+ * Series dates are calendar dates (YYYY-MM-DD) in the series' own timezone,
+ * so weekday and interval arithmetic is done on UTC midnights to stay clear
+ * of DST shifts. Only the final start/end instants are converted from the
+ * series timezone.
+ */
+
+import type {
+  Anchor,
+  ManualAnchorSeries,
+  RecurrenceRule,
+  RecurrenceWeekday,
+} from './types';
+
+const WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety net for COUNT-less daily series queried far into the future
+const MAX_EXPANSION_DAYS = 366 * 5;
+
+// Parts read by parseRecurrenceRule; any other part throws
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'UNTIL', 'COUNT', 'WKST']);
+
+function parseDateOnly(value: string): number {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function formatDateOnly(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+function startOfIsoWeek(time: number): number {
+  const weekday = new Date(time).getUTCDay();
+  return time - ((weekday + 6) % 7) * DAY_MS;
+}
+
+function parseIntegerList(parts: Map<string, string>, key: string, min: number, max: number): number[] | undefined {
+  if (!parts.has(key)) return undefined;
+  return parts.get(key)!.split(',').map((raw) => {
+    const value = Number(raw);
+    if (!/^[+-]?\d+$/.test(raw) || value === 0 || Math.abs(value) < min || Math.abs(value) > max) {
+      throw new Error(`Invalid RRULE ${key}: ${raw}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ *
+ * Supports FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, BYMONTHDAY,
+ * BYMONTH, UNTIL and COUNT, plus BYSETPOS on MONTHLY rules (e.g. the first
+ * Monday of the month). MONTHLY without BYDAY or BYMONTHDAY repeats on
+ * DTSTART's day of the month.
+ * Throws on anything outside that subset so bad rules are rejected on save
+ * and iCal imports keep the single event, rather than expanding to the
+ * wrong days.
+ */
+export function parseRecurrenceRule(rule: string, dtstart?: string): RecurrenceRule {
+  const body = rule.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+
+  for (const segment of body.split(';')) {
+    if (!segment) continue;
+    const [key, value] = segment.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE segment: ${segment}`);
+    }
+    if (!SUPPORTED_PARTS.has(key.toUpperCase())) {
+      throw new Error(`Unsupported RRULE part: ${key}`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported RRULE frequency: ${freq ?? 'missing'}`);
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid RRULE interval: ${parts.get('INTERVAL')}`);
+  }
+
+  let byDay: RecurrenceWeekday[] = [];
+  if (parts.has('BYDAY')) {
+    byDay = parts.get('BYDAY')!.split(',').map((day) => {
+      if (!WEEKDAYS.includes(day as RecurrenceWeekday)) {
+        throw new Error(`Unsupported RRULE weekday: ${day}`);
+      }
+      return day as RecurrenceWeekday;
+    });
+  } else if (freq === 'WEEKLY' && dtstart) {
+    byDay = [WEEKDAYS[new Date(parseDateOnly(dtstart)).getUTCDay()]];
+  }
+
+  // Weeks are counted Monday to Monday, which only matters every other week
+  const weekStart = parts.get('WKST');
+  if (weekStart && weekStart !== 'MO' && freq === 'WEEKLY' && interval > 1) {
+    throw new Error(`Unsupported RRULE week start: ${weekStart}`);
+  }
+
+  const parsed: RecurrenceRule = { freq, interval, byDay };
+
+  const byMonthDay = parseIntegerList(parts, 'BYMONTHDAY', 1, 31);
+  if (byMonthDay) parsed.byMonthDay = byMonthDay;
+
+  const byMonth = parseIntegerList(parts, 'BYMONTH', 1, 12);
+  if (byMonth) {
+    if (byMonth.some((month) => month < 0)) {
+      throw new Error(`Invalid RRULE BYMONTH: ${parts.get('BYMONTH')}`);
+    }
+    parsed.byMonth = byMonth;
+  }
+
+  const bySetPos = parseIntegerList(parts, 'BYSETPOS', 1, 31);
+  if (bySetPos) {
+    if (freq !== 'MONTHLY') {
+      throw new Error(`Unsupported RRULE BYSETPOS with FREQ=${freq}`);
+    }
+    if (byDay.length === 0 && !byMonthDay) {
+      throw new Error('RRULE BYSETPOS needs BYDAY or BYMONTHDAY');
+    }
+    parsed.bySetPos = bySetPos;
+  }
+
+  if (parts.has('UNTIL')) {
+    parsed.until = formatDateOnly(parseDateOnly(parts.get('UNTIL')!));
+  }
+
+  if (parts.has('COUNT')) {
+    const count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid RRULE count: ${parts.get('COUNT')}`);
+    }
+    parsed.count = count;
+  }
+
+  if (parsed.until && parsed.count) {
+    throw new Error('RRULE cannot combine UNTIL and COUNT');
+  }
+
+  return parsed;
+}
+
+/**
+ * Serialize a rule back to RRULE text (without the "RRULE:" prefix)
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const segments = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) segments.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) segments.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) segments.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) segments.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) segments.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.until) segments.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) segments.push(`COUNT=${rule.count}`);
+  return segments.join(';');
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+/**
+ * BYDAY, BYMONTHDAY and BYMONTH, which narrow every frequency the same way
+ */
+function matchesFilters(rule: RecurrenceRule, day: number): boolean {
+  const date = new Date(day);
+  if (rule.byDay.length > 0 && !rule.byDay.includes(WEEKDAYS[date.getUTCDay()])) {
+    return false;
+  }
+  if (rule.byMonth && !rule.byMonth.includes(date.getUTCMonth() + 1)) {
+    return false;
+  }
+  if (rule.byMonthDay) {
+    const dayOfMonth = date.getUTCDate();
+    const fromEnd = dayOfMonth - daysInMonth(date) - 1;
+    if (!rule.byMonthDay.some((value) => value === dayOfMonth || value === fromEnd)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether `day` is one of the BYSETPOS picks among its month's matching days
+ */
+function matchesSetPosition(rule: RecurrenceRule, bySetPos: number[], day: number): boolean {
+  const date = new Date(day);
+  const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const candidates: number[] = [];
+  for (let offset = 0; offset < daysInMonth(date); offset++) {
+    const candidate = monthStart + offset * DAY_MS;
+    if (matchesFilters(rule, candidate)) candidates.push(candidate);
+  }
+
+  return bySetPos.some((position) => {
+    const index = position > 0 ? position - 1 : candidates.length + position;
+    return candidates[index] === day;
+  });
+}
+
+function matchesPattern(rule: RecurrenceRule, dtstart: number, day: number): boolean {
+  if (!matchesFilters(rule, day)) return false;
+
+  if (rule.freq === 'DAILY') {
+    return Math.round((day - dtstart) / DAY_MS) % rule.interval === 0;
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const startDate = new Date(dtstart);
+    const date = new Date(day);
+    const months = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + date.getUTCMonth() - startDate.getUTCMonth();
+    if (months % rule.interval !== 0) return false;
+    if (rule.bySetPos) return matchesSetPosition(rule, rule.bySetPos, day);
+    return rule.byDay.length > 0 || Boolean(rule.byMonthDay) || date.getUTCDate() === startDate.getUTCDate();
+  }
+
+  const weeks = Math.round((startOfIsoWeek(day) - startOfIsoWeek(dtstart)) / (7 * DAY_MS));
+  return weeks % rule.interval === 0;
+}
+
+/**
+ * Expand a rule into occurrence dates within [rangeStart, rangeEnd]
+ *
+ * COUNT is applied before exclusions, as in RFC 5545: removing an
+ * occurrence with an EXDATE does not push the series out by one.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: string,
+  rangeStart: string,
+  rangeEnd: string,
+  exdates: string[] = []
+): string[] {
+  const start = parseDateOnly(dtstart);
+  const from = Math.max(start, parseDateOnly(rangeStart));
+  let to = parseDateOnly(rangeEnd);
+  if (rule.until) {
+    to = Math.min(to, parseDateOnly(rule.until));
+  }
+  to = Math.min(to, start + MAX_EXPANSION_DAYS * DAY_MS);
+
+  if (from > to) return [];
+
+  const excluded = new Set(exdates.map((date) => formatDateOnly(parseDateOnly(date))));
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  // COUNT needs occurrences counted from DTSTART, not from the range start.
+  const scanFrom = rule.count ? start : from;
+
+  for (let day = scanFrom; day <= to; day += DAY_MS) {
+    if (!matchesPattern(rule, start, day)) continue;
+
+    generated++;
+    if (rule.count && generated > rule.count) break;
+
+    const date = formatDateOnly(day);
+    if (day >= from && !excluded.has(date)) {
+      occurrences.push(date);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Check whether a series has an occurrence on the given date
+ */
+export function occursOnDate(
+  rule: RecurrenceRule,
+  dtstart: string,
+  date: string,
+  exdates: string[] = []
+): boolean {
+  return expandRecurrence(rule, dtstart, date, date, exdates).length === 1;
+}
+
+function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+
+  return Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to an instant
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @param time - Wall-clock time (HH:MM or HH:MM:SS)
+ * @param timeZone - IANA timezone, e.g. Europe/London
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = parseDateOnly(date) + (hours * 60 + minutes) * 60000;
+
+  // Two passes so times just after a DST change pick up the new offset.
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset * 60000);
+}
+
+/**
+ * Split an instant into calendar date and wall-clock time in a timezone
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const shifted = new Date(instant.getTime() + getTimeZoneOffsetMinutes(instant, timeZone) * 60000);
+  const [date, rest] = shifted.toISOString().split('T');
+  return { date, time: rest.slice(0, 5) };
+}
+
+/**
+ * Build the Anchor for one occurrence of a series
+ *
+ * @returns Anchor for the date, or null if the series does not occur then
+ */
+export function buildSeriesOccurrence(series: ManualAnchorSeries, date: string): Anchor | null {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(series.recurrence_rule, series.start_date);
+  } catch (error) {
+    console.warn('[Anchor Service] Skipping series with invalid recurrence rule:', {
+      seriesId: series.id,
+      rule: series.recurrence_rule,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  if (!occursOnDate(rule, series.start_date, date, series.exdates || [])) {
+    return null;
+  }
+
+  const start = zonedDateTimeToUtc(date, series.start_local_time, series.timezone);
+  const end = new Date(start.getTime() + series.duration_minutes * 60000);
+
+  return {
+    id: `series-${series.id}-${date}`,
+    start,
+    end,
+    title: series.title,
+    location: series.location || undefined,
+    type: series.anchor_type || 'other',
+    must_attend: Boolean(series.must_attend),
+    calendar_event_id: `manual-series-${series.id}-${date}`,
+  };
+}
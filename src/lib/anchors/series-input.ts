@@ -0,0 +1,104 @@
+/**
+ * Request body validation for recurring manual anchor series
+ * Shared by the series create and edit endpoints.
+ */
+
+import type { AnchorType, ManualAnchorSeries } from './types';
+import { formatRecurrenceRule, parseRecurrenceRule } from './recurrence';
+
+const ALLOWED_ANCHOR_TYPES: AnchorType[] = ['class', 'seminar', 'workshop', 'appointment', 'other'];
+
+export type SeriesFields = Omit<ManualAnchorSeries, 'id' | 'user_id' | 'exdates'>;
+
+export type SeriesInputResult =
+  | { ok: true; value: Partial<SeriesFields> }
+  | { ok: false; error: string };
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate and normalize series fields from a request body
+ *
+ * @param raw - Parsed JSON body
+ * @param partial - When true (edits), missing fields are left out instead of rejected
+ */
+export function parseSeriesInput(raw: unknown, partial = false): SeriesInputResult {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, error: 'Request body must be an object' };
+  }
+
+  const body = raw as Record<string, unknown>;
+  const value: Partial<SeriesFields> = {};
+  const missing = (key: string) => !partial && body[key] === undefined;
+
+  if (typeof body.title === 'string' && body.title.trim()) {
+    value.title = body.title.trim();
+  } else if (body.title !== undefined || missing('title')) {
+    return { ok: false, error: 'title is required' };
+  }
+
+  if (typeof body.start_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(body.start_date)) {
+    value.start_date = body.start_date;
+  } else if (body.start_date !== undefined || missing('start_date')) {
+    return { ok: false, error: 'start_date must be YYYY-MM-DD' };
+  }
+
+  if (typeof body.start_local_time === 'string' && /^\d{2}:\d{2}(:\d{2})?$/.test(body.start_local_time)) {
+    value.start_local_time = body.start_local_time.slice(0, 5);
+  } else if (body.start_local_time !== undefined || missing('start_local_time')) {
+    return { ok: false, error: 'start_local_time must be HH:MM' };
+  }
+
+  if (typeof body.duration_minutes === 'number' && Number.isInteger(body.duration_minutes) &&
+      body.duration_minutes > 0 && body.duration_minutes <= 1440) {
+    value.duration_minutes = body.duration_minutes;
+  } else if (body.duration_minutes !== undefined || missing('duration_minutes')) {
+    return { ok: false, error: 'duration_minutes must be a whole number between 1 and 1440' };
+  }
+
+  if (typeof body.recurrence_rule === 'string') {
+    try {
+      value.recurrence_rule = formatRecurrenceRule(
+        parseRecurrenceRule(body.recurrence_rule, value.start_date)
+      );
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : 'Invalid recurrence_rule' };
+    }
+  } else if (body.recurrence_rule !== undefined || missing('recurrence_rule')) {
+    return { ok: false, error: 'recurrence_rule is required' };
+  }
+
+  if (typeof body.timezone === 'string') {
+    if (!isValidTimeZone(body.timezone)) {
+      return { ok: false, error: `Unknown timezone: ${body.timezone}` };
+    }
+    value.timezone = body.timezone;
+  }
+
+  if (body.anchor_type !== undefined) {
+    value.anchor_type = ALLOWED_ANCHOR_TYPES.includes(body.anchor_type as AnchorType)
+      ? (body.anchor_type as AnchorType)
+      : 'other';
+  }
+
+  if (body.must_attend !== undefined) {
+    value.must_attend = body.must_attend !== false;
+  }
+
+  if (body.location !== undefined) {
+    value.location = typeof body.location === 'string' && body.location.trim() ? body.location.trim() : null;
+  }
+
+  if (body.notes !== undefined) {
+    value.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null;
+  }
+
+  return { ok: true, value };
+}
@@ -1,5 +1,7 @@
 // Anchor Service Types - Calendar event classification
 
+import type { SavedPlace } from '../places/saved-places';
+
 /**
  * Anchor - Fixed external commitment (class, appointment, train departure)
  * Hard constraint that chains are built around
@@ -10,8 +12,10 @@ export interface Anchor {
   end: Date;
   title: string;
   location?: string;
+  place?: SavedPlace; // The user's saved place `location` refers to, if any
   type: AnchorType;
   must_attend: boolean;
+  is_online?: boolean; // Online session: no travel there or back
   calendar_event_id: string;
 }
 
@@ -20,6 +24,52 @@ export interface Anchor {
  */
 export type AnchorType = 'class' | 'seminar' | 'workshop' | 'appointment' | 'other';
 
+/**
+ * Recurrence Rule - Supported RRULE subset for recurring manual anchors
+ * Dates are plain calendar dates (YYYY-MM-DD) in the series' timezone
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  /** Days of the month, negative counting back from the last day */
+  byMonthDay?: number[];
+  /** Months, 1-12 */
+  byMonth?: number[];
+  /** Which of each month's matching days to keep, e.g. 1 or -1 (MONTHLY only) */
+  bySetPos?: number[];
+  until?: string;
+  count?: number;
+}
+
+/**
+ * Manual Anchor Series - Row shape of manual_anchor_series
+ */
+export interface ManualAnchorSeries {
+  id: string;
+  user_id: string;
+  title: string;
+  location: string | null;
+  anchor_type: AnchorType;
+  must_attend: boolean;
+  notes: string | null;
+  start_date: string;
+  start_local_time: string;
+  duration_minutes: number;
+  timezone: string;
+  recurrence_rule: string;
+  exdates: string[];
+}
+
+/**
+ * Whether an edit applies to one occurrence or the whole series
+ */
+export type RecurrenceEditScope = 'occurrence' | 'series';
+
 /**
  * Calendar Event - Raw event from calendar service
  * This is the input format from the calendar API
@@ -4,7 +4,8 @@
  */
 
 import { supabase } from '../supabase/client';
-import { icalParser } from './ical-parser';
+import { getICalBaseUid, getICalSyncWindow, icalParser } from './ical-parser';
+import type { ICalSyncWindow } from './ical-parser';
 import { googleCalendar } from './google-calendar';
 import type {
   CalendarSource,
@@ -188,10 +189,12 @@ export class CalendarService {
 
     try {
       let newEvents: Omit<CalendarEvent, 'id' | 'created_at' | 'updated_at'>[] = [];
+      let syncWindow: ICalSyncWindow | null = null;
 
       switch (source.type) {
         case 'ical':
-          newEvents = await this.syncICalSource(source);
+          syncWindow = getICalSyncWindow(result.last_sync);
+          newEvents = await this.syncICalSource(source, syncWindow);
           break;
         case 'google':
           newEvents = await this.syncGoogleSource(source);
@@ -210,8 +213,22 @@ export class CalendarService {
         .select('*')
         .eq('source_id', source.id);
 
-      const existingEventMap = new Map(
-        (existingEvents || []).map(event => [event.external_id || '', event])
+      // Keyed by external_id (UID, or UID::recurrence id for iCal
+      // occurrences). Duplicate rows from earlier syncs are removed.
+      const existingEventMap = new Map<string, NonNullable<typeof existingEvents>[number]>();
+      for (const event of existingEvents || []) {
+        const key = event.external_id || '';
+        if (key && existingEventMap.has(key)) {
+          await supabase.from('calendar_events').delete().eq('id', event.id);
+          result.events_deleted++;
+          continue;
+        }
+        existingEventMap.set(key, event);
+      }
+
+      // A feed can list the same event twice; the last copy wins
+      newEvents = Array.from(
+        new Map(newEvents.map((event, index) => [event.external_id || `__${index}`, event])).values()
       );
 
       // Process new events
@@ -224,8 +241,8 @@ export class CalendarService {
             const updatePayload: TablesUpdate<'calendar_events'> = {
               title: newEvent.title,
               description: newEvent.description,
-              start_time: newEvent.start_time.toISOString(),
-              end_time: newEvent.end_time.toISOString(),
+              start_time: newEvent.start_time,
+              end_time: newEvent.end_time,
               location: newEvent.location,
               event_type: newEvent.event_type,
               flexibility: newEvent.flexibility,
@@ -248,8 +265,8 @@ export class CalendarService {
             source_id: newEvent.source_id,
             title: newEvent.title,
             description: newEvent.description,
-            start_time: newEvent.start_time.toISOString(),
-            end_time: newEvent.end_time.toISOString(),
+            start_time: newEvent.start_time,
+            end_time: newEvent.end_time,
             location: newEvent.location,
             event_type: newEvent.event_type,
             flexibility: newEvent.flexibility,
@@ -263,8 +280,14 @@ export class CalendarService {
         }
       }
 
-      // Delete events that no longer exist in source
-      for (const [, eventToDelete] of existingEventMap) {
+      // Delete events that no longer exist in source. For iCal, past
+      // occurrences outside the sync window are kept while their series is
+      // still in the feed.
+      const feedUids = new Set(newEvents.map(event => getICalBaseUid(event.external_id || '')));
+      for (const [externalId, eventToDelete] of existingEventMap) {
+        if (syncWindow && this.isRetainedICalOccurrence(externalId, eventToDelete.start_time, feedUids, syncWindow)) {
+          continue;
+        }
         await supabase
           .from('calendar_events')
           .delete()
@@ -290,14 +313,34 @@ export class CalendarService {
    * Sync iCal source
    */
   private async syncICalSource(
-    source: CalendarSource
+    source: CalendarSource,
+    window: ICalSyncWindow
   ): Promise<Omit<CalendarEvent, 'id' | 'created_at' | 'updated_at'>[]> {
     if (!source.url) {
       throw new Error('iCal source missing URL');
     }
 
     const parsedData = await icalParser.parseFromUrl(source.url);
-    return icalParser.convertToCalendarEvents(parsedData, source, source.user_id);
+    return icalParser.convertToCalendarEvents(parsedData, source, source.user_id, window);
+  }
+
+  /**
+   * Whether an unmatched stored iCal occurrence should survive a sync
+   *
+   * Plain UIDs that no longer match were either removed from the feed or
+   * turned into a recurring series, so they always go.
+   */
+  private isRetainedICalOccurrence(
+    externalId: string,
+    startTime: string,
+    feedUids: Set<string>,
+    window: ICalSyncWindow
+  ): boolean {
+    if (!externalId.includes('::') || !feedUids.has(getICalBaseUid(externalId))) {
+      return false;
+    }
+    const start = new Date(startTime);
+    return start < window.start || start > window.end;
   }
 
   /**
@@ -362,7 +405,7 @@ export class CalendarService {
     let query = client
       .from('calendar_events')
       .select(`
-        id, user_id, source_id, external_id, title, description, start_time, end_time, location, event_type, flexibility, importance, created_at, updated_at,
+        id, user_id, source_id, external_id, title, description, start_time, end_time, location, event_type, flexibility, importance, must_attend, is_online, created_at, updated_at,
         calendar_sources!inner(name, type, color, is_active)
       `)
       .eq('user_id', userId)
@@ -543,12 +586,12 @@ export class CalendarService {
     existing: CalendarEvent,
     updated: Omit<CalendarEvent, 'id' | 'created_at' | 'updated_at'>
   ): boolean {
-    // Compare existing string dates with updated Date objects converted to ISO strings
+    // Compare instants; the database returns timestamps as +00:00 rather than Z
     return (
       existing.title !== updated.title ||
       existing.description !== updated.description ||
-      existing.start_time !== updated.start_time.toISOString() ||
-      existing.end_time !== updated.end_time.toISOString() ||
+      new Date(existing.start_time).getTime() !== new Date(updated.start_time).getTime() ||
+      new Date(existing.end_time).getTime() !== new Date(updated.end_time).getTime() ||
       existing.location !== updated.location ||
       existing.event_type !== updated.event_type ||
       existing.flexibility !== updated.flexibility ||
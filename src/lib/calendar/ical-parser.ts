@@ -1,9 +1,25 @@
 /**
  * iCal Feed Parser for University Schedules and Other iCal Sources
  * Handles parsing of iCal (.ics) feeds and converting them to calendar events
+ *
+ * Recurring events are expanded into one calendar event per occurrence within
+ * a sync window (RRULE, EXDATE and RECURRENCE-ID overrides). Times are
+ * resolved against their TZID, so a 10:00 Europe/London lecture stays at
+ * 10:00 on both sides of a BST change.
  */
 
 import type { CalendarEvent, CalendarSource } from '../../types/calendar';
+import {
+  expandRecurrence,
+  parseRecurrenceRule,
+  toZonedDateTime,
+  zonedDateTimeToUtc,
+} from '../anchors/recurrence';
+
+interface ICalDateRef {
+  value: string;
+  tzid?: string;
+}
 
 interface ICalEvent {
   uid: string;
@@ -11,8 +27,13 @@ interface ICalEvent {
   description?: string;
   dtstart: string;
   dtend: string;
+  dtstartTzid?: string;
+  dtendTzid?: string;
   location?: string;
   rrule?: string;
+  exdates?: ICalDateRef[];
+  recurrenceId?: ICalDateRef;
+  status?: string;
   categories?: string[];
 }
 
@@ -22,9 +43,72 @@ interface ParsedICalData {
     prodid?: string;
     version?: string;
     calscale?: string;
+    timezone?: string; // X-WR-TIMEZONE, used for floating times
   };
 }
 
+export interface ICalEventInstance {
+  event: ICalEvent;
+  start: Date;
+  end: Date;
+  recurrence_id?: string; // ISO instant of the original occurrence start
+}
+
+export interface ICalSyncWindow {
+  start: Date;
+  end: Date;
+}
+
+interface ResolvedICalDateTime {
+  instant: Date;
+  localDate: string; // YYYY-MM-DD in timeZone
+  localTime: string; // HH:MM in timeZone
+  timeZone: string;
+  isDate: boolean;
+}
+
+export const DEFAULT_ICAL_TIMEZONE = 'Europe/London';
+export const ICAL_SYNC_PAST_DAYS = 7;
+export const ICAL_SYNC_FUTURE_DAYS = 180;
+
+// Outlook/Exchange feeds use Windows zone names in TZID
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'India Standard Time': 'Asia/Kolkata',
+  'UTC': 'UTC',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sync window around a point in time: a week back, about a term ahead
+ */
+export function getICalSyncWindow(now: Date = new Date()): ICalSyncWindow {
+  return {
+    start: new Date(now.getTime() - ICAL_SYNC_PAST_DAYS * DAY_MS),
+    end: new Date(now.getTime() + ICAL_SYNC_FUTURE_DAYS * DAY_MS),
+  };
+}
+
+/**
+ * Stable external id for an event instance: UID, plus the recurrence id for
+ * occurrences of a recurring event
+ */
+export function buildICalExternalId(uid: string, recurrenceId?: string): string {
+  return recurrenceId ? `${uid}::${recurrenceId}` : uid;
+}
+
+export function getICalBaseUid(externalId: string): string {
+  return externalId.split('::')[0];
+}
+
 export class ICalParser {
   /**
    * Parse iCal feed from URL
@@ -60,17 +144,23 @@ export class ICalParser {
 
     let currentEvent: Partial<ICalEvent> | null = null;
     let inEvent = false;
+    // VALARM etc. inside a VEVENT have their own DESCRIPTION/DTSTART lines
+    let nestedDepth = 0;
+    // VTIMEZONE blocks carry DTSTART/TZNAME lines that are not calendar metadata
+    let inOtherComponent = 0;
 
     for (const line of lines) {
-      const [property, value] = this.parseLine(line);
+      const [property, value, params] = this.parseLine(line);
+      const componentName = value.trim().toUpperCase();
 
-      if (property === 'BEGIN' && value === 'VEVENT') {
+      if (property === 'BEGIN' && componentName === 'VEVENT') {
         inEvent = true;
+        nestedDepth = 0;
         currentEvent = {};
         continue;
       }
 
-      if (property === 'END' && value === 'VEVENT') {
+      if (property === 'END' && componentName === 'VEVENT') {
         if (currentEvent && this.isValidEvent(currentEvent)) {
           events.push(currentEvent as ICalEvent);
         }
@@ -79,9 +169,23 @@ export class ICalParser {
         continue;
       }
 
+      if (property === 'BEGIN' && componentName !== 'VCALENDAR') {
+        if (inEvent) nestedDepth++;
+        else inOtherComponent++;
+        continue;
+      }
+
+      if (property === 'END' && componentName !== 'VCALENDAR') {
+        if (inEvent) nestedDepth = Math.max(0, nestedDepth - 1);
+        else inOtherComponent = Math.max(0, inOtherComponent - 1);
+        continue;
+      }
+
       if (inEvent && currentEvent) {
-        this.parseEventProperty(currentEvent, property, value);
-      } else {
+        if (nestedDepth === 0) {
+          this.parseEventProperty(currentEvent, property, value, params);
+        }
+      } else if (inOtherComponent === 0) {
         this.parseMetadataProperty(metadata, property, value);
       }
     }
@@ -91,20 +195,24 @@ export class ICalParser {
 
   /**
    * Convert parsed iCal events to calendar events
+   *
+   * Recurring events become one calendar event per occurrence in the window,
+   * with external_id = UID::recurrence id so re-syncs update in place.
    */
   convertToCalendarEvents(
     parsedData: ParsedICalData,
     source: CalendarSource,
-    userId: string
+    userId: string,
+    window: ICalSyncWindow = getICalSyncWindow()
   ): Omit<CalendarEvent, 'id' | 'created_at' | 'updated_at'>[] {
-    return parsedData.events.map(event => ({
+    return this.expandEvents(parsedData, window).map(({ event, start, end, recurrence_id }) => ({
       user_id: userId,
       source_id: source.id,
-      external_id: event.uid,
+      external_id: buildICalExternalId(event.uid, recurrence_id),
       title: this.cleanText(event.summary),
       description: event.description ? this.cleanText(event.description) : undefined,
-      start_time: this.parseDateTime(event.dtstart),
-      end_time: this.parseDateTime(event.dtend),
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
       location: event.location ? this.cleanText(event.location) : undefined,
       event_type: this.inferEventType(event),
       flexibility: 'fixed' as const,
@@ -112,6 +220,119 @@ export class ICalParser {
     }));
   }
 
+  /**
+   * Expand events into concrete instances
+   *
+   * Single events are returned as-is. Recurring events are expanded within
+   * the window, minus EXDATEs, with RECURRENCE-ID overrides replacing the
+   * occurrence they point at. Cancelled events and occurrences are dropped.
+   * A rule we cannot expand falls back to its first occurrence.
+   */
+  expandEvents(parsedData: ParsedICalData, window: ICalSyncWindow): ICalEventInstance[] {
+    const defaultTimeZone = this.resolveTimeZone(parsedData.metadata.timezone, DEFAULT_ICAL_TIMEZONE);
+    const instances: ICalEventInstance[] = [];
+
+    const overridesByUid = new Map<string, ICalEvent[]>();
+    for (const event of parsedData.events) {
+      if (!event.recurrenceId) continue;
+      overridesByUid.set(event.uid, [...(overridesByUid.get(event.uid) || []), event]);
+    }
+
+    const pushInstance = (event: ICalEvent, recurrenceId?: string) => {
+      if (this.isCancelled(event)) return;
+      const start = this.resolveDateTime(event.dtstart, event.dtstartTzid, defaultTimeZone);
+      const end = this.resolveDateTime(event.dtend, event.dtendTzid ?? event.dtstartTzid, defaultTimeZone);
+      instances.push({ event, start: start.instant, end: end.instant, recurrence_id: recurrenceId });
+    };
+
+    const masterUids = new Set<string>();
+    for (const event of parsedData.events) {
+      if (event.recurrenceId) continue;
+      masterUids.add(event.uid);
+
+      if (!event.rrule) {
+        pushInstance(event);
+        continue;
+      }
+
+      const start = this.resolveDateTime(event.dtstart, event.dtstartTzid, defaultTimeZone);
+      const end = this.resolveDateTime(event.dtend, event.dtendTzid ?? event.dtstartTzid, defaultTimeZone);
+      const durationMs = Math.max(0, end.instant.getTime() - start.instant.getTime());
+
+      let occurrenceDates: string[];
+      try {
+        const rule = parseRecurrenceRule(this.normalizeRuleUntil(event.rrule, start.timeZone), start.localDate);
+        const exdates = (event.exdates || []).map((exdate) => toZonedDateTime(
+          this.resolveDateTime(exdate.value, exdate.tzid ?? event.dtstartTzid, defaultTimeZone).instant,
+          start.timeZone
+        ).date);
+        occurrenceDates = expandRecurrence(
+          rule,
+          start.localDate,
+          toZonedDateTime(window.start, start.timeZone).date,
+          toZonedDateTime(window.end, start.timeZone).date,
+          exdates
+        );
+      } catch (error) {
+        console.warn('[iCal Parser] Cannot expand recurrence, keeping first occurrence only:', {
+          uid: event.uid,
+          rrule: event.rrule,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        pushInstance(event);
+        continue;
+      }
+
+      const overrides = new Map<number, ICalEvent>();
+      for (const override of overridesByUid.get(event.uid) || []) {
+        const recurrenceId = this.resolveDateTime(
+          override.recurrenceId!.value,
+          override.recurrenceId!.tzid ?? event.dtstartTzid,
+          defaultTimeZone
+        );
+        overrides.set(recurrenceId.instant.getTime(), override);
+      }
+
+      for (const date of occurrenceDates) {
+        const occurrenceStart = zonedDateTimeToUtc(date, start.localTime, start.timeZone);
+        const recurrenceId = occurrenceStart.toISOString();
+        const override = overrides.get(occurrenceStart.getTime());
+
+        if (override) {
+          overrides.delete(occurrenceStart.getTime());
+          pushInstance(override, recurrenceId);
+          continue;
+        }
+
+        instances.push({
+          event,
+          start: occurrenceStart,
+          end: new Date(occurrenceStart.getTime() + durationMs),
+          recurrence_id: recurrenceId,
+        });
+      }
+
+      // Occurrences moved into the window from a date outside it
+      for (const [originalStart, override] of overrides) {
+        const overrideStart = this.resolveDateTime(override.dtstart, override.dtstartTzid, defaultTimeZone).instant;
+        if (overrideStart >= window.start && overrideStart <= window.end) {
+          pushInstance(override, new Date(originalStart).toISOString());
+        }
+      }
+    }
+
+    // Overrides whose series is not in the feed still describe a real event
+    for (const [uid, overrides] of overridesByUid) {
+      if (masterUids.has(uid)) continue;
+      for (const override of overrides) {
+        const recurrenceId = this.resolveDateTime(override.recurrenceId!.value, override.recurrenceId!.tzid, defaultTimeZone);
+        pushInstance(override, recurrenceId.instant.toISOString());
+      }
+    }
+
+    return instances;
+  }
+
   /**
    * Unfold lines according to iCal specification
    */
@@ -137,28 +358,48 @@ export class ICalParser {
   }
 
   /**
-   * Parse a single iCal line into property and value
+   * Parse a single iCal line into property, value and parameters
    */
-  private parseLine(line: string): [string, string] {
-    const colonIndex = line.indexOf(':');
+  private parseLine(line: string): [string, string, Record<string, string>] {
+    // The value starts at the first colon outside a quoted parameter value
+    // (TZID="(UTC+00:00) Dublin, Edinburgh, Lisbon, London" has colons).
+    let colonIndex = -1;
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        colonIndex = i;
+        break;
+      }
+    }
     if (colonIndex === -1) {
-      return [line, ''];
+      return [line.toUpperCase(), '', {}];
     }
 
-    const property = line.substring(0, colonIndex).toUpperCase();
+    const head = line.substring(0, colonIndex);
     const value = line.substring(colonIndex + 1);
 
     // Handle parameters (e.g., DTSTART;TZID=America/New_York:20230101T120000)
-    const semicolonIndex = property.indexOf(';');
-    const cleanProperty = semicolonIndex !== -1 ? property.substring(0, semicolonIndex) : property;
+    const [name, ...rawParams] = head.split(';');
+    const params: Record<string, string> = {};
+    for (const rawParam of rawParams) {
+      const equalsIndex = rawParam.indexOf('=');
+      if (equalsIndex === -1) continue;
+      params[rawParam.substring(0, equalsIndex).toUpperCase()] = rawParam.substring(equalsIndex + 1).replace(/^"|"$/g, '');
+    }
 
-    return [cleanProperty, value];
+    return [name.toUpperCase(), value, params];
   }
 
   /**
    * Parse event-specific properties
    */
-  private parseEventProperty(event: Partial<ICalEvent>, property: string, value: string): void {
+  private parseEventProperty(
+    event: Partial<ICalEvent>,
+    property: string,
+    value: string,
+    params: Record<string, string> = {}
+  ): void {
     switch (property) {
       case 'UID':
         event.uid = value;
@@ -171,9 +412,11 @@ export class ICalParser {
         break;
       case 'DTSTART':
         event.dtstart = value;
+        event.dtstartTzid = params.TZID;
         break;
       case 'DTEND':
         event.dtend = value;
+        event.dtendTzid = params.TZID;
         break;
       case 'LOCATION':
         event.location = value;
@@ -181,6 +424,18 @@ export class ICalParser {
       case 'RRULE':
         event.rrule = value;
         break;
+      case 'EXDATE':
+        event.exdates = [
+          ...(event.exdates || []),
+          ...value.split(',').filter(Boolean).map((exdate) => ({ value: exdate.trim(), tzid: params.TZID })),
+        ];
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = { value, tzid: params.TZID };
+        break;
+      case 'STATUS':
+        event.status = value.trim().toUpperCase();
+        break;
       case 'CATEGORIES':
         event.categories = value.split(',').map(cat => cat.trim());
         break;
@@ -201,6 +456,9 @@ export class ICalParser {
       case 'CALSCALE':
         metadata.calscale = value;
         break;
+      case 'X-WR-TIMEZONE':
+        metadata.timezone = value.trim();
+        break;
     }
   }
 
@@ -211,33 +469,73 @@ export class ICalParser {
     return !!(event.uid && event.summary && event.dtstart && event.dtend);
   }
 
+  private isCancelled(event: ICalEvent): boolean {
+    return event.status === 'CANCELLED';
+  }
+
+  /**
+   * Map a TZID to an IANA timezone, falling back when it is unknown
+   */
+  private resolveTimeZone(tzid: string | undefined, fallback: string): string {
+    if (!tzid) return fallback;
+
+    const candidate = WINDOWS_TIMEZONES[tzid] || tzid.replace(/^\/+/, '');
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+      return candidate;
+    } catch {
+      console.warn(`[iCal Parser] Unknown TZID "${tzid}", using ${fallback}`);
+      return fallback;
+    }
+  }
+
+  /**
+   * RRULE UNTIL is usually a UTC instant; recurrence expansion works on
+   * local dates, so convert it to the event's local date first
+   */
+  private normalizeRuleUntil(rrule: string, timeZone: string): string {
+    return rrule.replace(/UNTIL=(\d{8}T\d{6}Z)/i, (_match, until: string) => {
+      const { date } = toZonedDateTime(this.resolveDateTime(until, undefined, timeZone).instant, timeZone);
+      return `UNTIL=${date.replace(/-/g, '')}`;
+    });
+  }
+
   /**
    * Parse iCal datetime format
+   *
+   * - YYYYMMDDTHHMMSSZ: UTC instant (recurs at the same UTC time)
+   * - YYYYMMDDTHHMMSS with TZID: wall-clock time in that timezone
+   * - YYYYMMDDTHHMMSS without TZID: floating, read in the calendar timezone
+   * - YYYYMMDD: all-day, midnight in the event or calendar timezone
    */
-  private parseDateTime(dateTimeStr: string): string {
-    // Handle different iCal datetime formats
-    // Format: YYYYMMDDTHHMMSS or YYYYMMDDTHHMMSSZ
-    const cleanStr = dateTimeStr.replace(/[TZ]/g, '');
-    
-    if (cleanStr.length >= 8) {
-      const year = parseInt(cleanStr.substring(0, 4));
-      const month = parseInt(cleanStr.substring(4, 6)) - 1; // Month is 0-indexed
-      const day = parseInt(cleanStr.substring(6, 8));
-      
-      let hour = 0, minute = 0, second = 0;
-      
-      if (cleanStr.length >= 14) {
-        hour = parseInt(cleanStr.substring(8, 10));
-        minute = parseInt(cleanStr.substring(10, 12));
-        second = parseInt(cleanStr.substring(12, 14));
-      }
-      
-      // Construct a Date object and return its ISO string
-      return new Date(year, month, day, hour, minute, second).toISOString();
+  private resolveDateTime(dateTimeStr: string, tzid: string | undefined, defaultTimeZone: string): ResolvedICalDateTime {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i.exec(dateTimeStr.trim());
+
+    if (!match) {
+      // Fallback to Date parsing
+      const instant = new Date(dateTimeStr);
+      const zoned = toZonedDateTime(instant, 'UTC');
+      return { instant, localDate: zoned.date, localTime: zoned.time, timeZone: 'UTC', isDate: false };
     }
-    
-    // Fallback to Date parsing and return ISO string
-    return new Date(dateTimeStr).toISOString();
+
+    const [, year, month, day, hour, minute, , utc] = match;
+    const localDate = `${year}-${month}-${day}`;
+    const isDate = hour === undefined;
+
+    if (utc) {
+      const instant = new Date(`${localDate}T${hour}:${minute}:00.000Z`);
+      return { instant, localDate, localTime: `${hour}:${minute}`, timeZone: 'UTC', isDate: false };
+    }
+
+    const timeZone = this.resolveTimeZone(tzid, defaultTimeZone);
+    const localTime = isDate ? '00:00' : `${hour}:${minute}`;
+    return {
+      instant: zonedDateTimeToUtc(localDate, localTime, timeZone),
+      localDate,
+      localTime,
+      timeZone,
+      isDate,
+    };
   }
 
   /**
@@ -1,6 +1,11 @@
 import { supabase } from '../supabase/client';
 import type { Database } from '../../types/supabase';
 import type { CalendarEvent, CreateCalendarSourceRequest } from '../../types/calendar';
+import {
+  TIMETABLE_SOURCE_NAME,
+  diffTimetableImport,
+  type TimetableImportPreview,
+} from '../import/timetable-csv';
 
 export const addCsvEvents = async (source: CreateCalendarSourceRequest, events: CalendarEvent[], userId: string) => {
   const { data: sourceData, error: sourceError } = await supabase
@@ -31,3 +36,116 @@ export const addCsvEvents = async (source: CreateCalendarSourceRequest, events:
 
   return { source: sourceData, events: eventsWithSource };
 };
+
+const findTimetableSource = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('calendar_sources')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('type', 'manual')
+    .eq('name', TIMETABLE_SOURCE_NAME)
+    .order('created_at')
+    .limit(1);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as Database['public']['Tables']['calendar_sources']['Row'][])[0] ?? null;
+};
+
+const createTimetableSource = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('calendar_sources')
+    .insert([{
+      name: TIMETABLE_SOURCE_NAME,
+      type: 'manual',
+      color: '#8b5cf6',
+      sync_frequency: 1440,
+      user_id: userId,
+    }] as any)
+    .select()
+    .single<Database['public']['Tables']['calendar_sources']['Row']>();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (!data) {
+    throw new Error('Could not create calendar source.');
+  }
+
+  return data;
+};
+
+/**
+ * Compare a parsed timetable export with the events already stored for it
+ */
+export const previewTimetableImport = async (events: CalendarEvent[], userId: string): Promise<TimetableImportPreview> => {
+  const source = await findTimetableSource(userId);
+  if (!source) {
+    return diffTimetableImport(events, []);
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('source_id', source.id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return diffTimetableImport(events, (data || []) as CalendarEvent[]);
+};
+
+/**
+ * Apply a previewed timetable import: insert new sessions, update changed
+ * ones in place (keeping their ids) and delete sessions dropped from the export
+ */
+export const applyTimetableImport = async (preview: TimetableImportPreview, userId: string) => {
+  const source = (await findTimetableSource(userId)) ?? (await createTimetableSource(userId));
+
+  const toRow = ({ id: _id, created_at: _createdAt, updated_at: _updatedAt, ...event }: CalendarEvent) => ({
+    ...event,
+    source_id: source.id,
+    user_id: userId,
+  });
+
+  if (preview.added.length > 0) {
+    const { error } = await supabase.from('calendar_events').insert(preview.added.map(toRow) as any);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  for (const { existing, incoming } of preview.updated) {
+    const { error } = await supabase
+      .from('calendar_events')
+      .update(toRow(incoming) as never)
+      .eq('id', existing.id)
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  if (preview.removed.length > 0) {
+    const { error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .in('id', preview.removed.map((event) => event.id))
+      .eq('user_id', userId);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  return {
+    source,
+    added: preview.added.length,
+    updated: preview.updated.length,
+    removed: preview.removed.length,
+  };
+};
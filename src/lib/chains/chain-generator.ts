@@ -5,8 +5,11 @@ import type {
   ExecutionChain,
   ChainStepInstance,
   CommitmentEnvelope,
+  CommitmentEnvelopeType,
   ChainTemplate,
   ChainStep,
+  UserChainTemplate,
+  LearnedStepDurations,
 } from './types';
 import type { Anchor } from '../anchors/types';
 import type { TimeBlock, TimeBlockMetadata } from '../../types/daily-plan';
@@ -17,12 +20,18 @@ import { generateDailyContext, type DailyContext } from '../context/daily-contex
 import { enhanceChainWithContext, type ChainContextEnhancement } from './context-integration';
 import { DEFAULT_GATE_CONDITIONS } from './exit-gate';
 import { applyChainStepOverrides, type ChainCustomStep, type ChainStepOverrides } from './step-customization';
+import { matchUserChainTemplate, toChainTemplate } from './user-templates';
+import { applyLearnedDurations } from './duration-model';
+import { planOutings } from './outings';
+import { placeToLocation } from '../places/saved-places';
+import { toTravelPreferences } from '../places/travel-profile';
 
 /**
  * Chain Generator Configuration
  */
 export interface ChainGeneratorConfig {
   currentLocation: Location;
+  travelPreferences?: TravelPreferences; // From the user's travel profile; defaults otherwise
   userEnergy?: number; // 1-5 scale, defaults to 3
   weather?: {
     temperature: number;
@@ -47,6 +56,8 @@ export interface ChainGeneratorOptions {
   allowNoAnchorFallback?: boolean;
   chainStepOverrides?: ChainStepOverrides;
   chainCustomSteps?: ChainCustomStep[];
+  userTemplates?: UserChainTemplate[];
+  learnedDurations?: LearnedStepDurations;
   config: ChainGeneratorConfig;
 }
 
@@ -102,6 +113,7 @@ export class ChainGenerator {
           date: dailyContext.date,
           medsReliability: dailyContext.meds.reliability,
           medsTaken: dailyContext.meds.taken,
+          scheduledDoses: dailyContext.meds.schedule?.doses.length ?? null,
           lowEnergyRisk: dailyContext.day_flags.low_energy_risk,
           sleepDebtRisk: dailyContext.day_flags.sleep_debt_risk,
         });
@@ -143,7 +155,8 @@ export class ChainGenerator {
       }
     }
 
-    return chains;
+    // Anchors too close together to go home between become one outing
+    return planOutings(chains);
   }
 
   /**
@@ -192,11 +205,19 @@ export class ChainGenerator {
       bufferMinutes: CHAIN_COMPLETION_BUFFER_MINUTES,
     });
 
-    // Load chain template for anchor type (with fallback handling)
+    // Prefer a user template bound to this anchor, then the built-in one for its type
     // Requirements: Design - Error Handling - Chain Generation Failures
-    const baseTemplate = getChainTemplate(anchor.type);
-    const template = applyChainStepOverrides(baseTemplate, options.chainStepOverrides, options.chainCustomSteps || []);
-    const templateFallbackUsed = !CHAIN_TEMPLATES[anchor.type];
+    const userTemplateMatch = matchUserChainTemplate(anchor, options.userTemplates || []);
+    const baseTemplate = userTemplateMatch
+      ? toChainTemplate(userTemplateMatch.template, anchor.type)
+      : getChainTemplate(anchor.type);
+    const customizedTemplate = applyChainStepOverrides(baseTemplate, options.chainStepOverrides, options.chainCustomSteps || []);
+    const { template, applied: learnedDurations } = applyLearnedDurations(
+      customizedTemplate,
+      options.learnedDurations,
+      options.chainStepOverrides
+    );
+    const templateFallbackUsed = !userTemplateMatch && !CHAIN_TEMPLATES[anchor.type];
     
     if (templateFallbackUsed) {
       console.warn(`[Chain Generator] Using fallback template for anchor type "${anchor.type}" (anchor: ${anchor.id})`);
@@ -205,7 +226,10 @@ export class ChainGenerator {
     console.log('[Chain Generator] Chain template loaded:', {
       anchorId: anchor.id,
       anchorType: anchor.type,
+      userTemplate: userTemplateMatch?.template.name || 'none',
+      binding: userTemplateMatch?.binding.type || 'none',
       templateSteps: template.steps.length,
+      learnedDurations: Object.keys(learnedDurations).length,
       fallbackUsed: templateFallbackUsed,
     });
 
@@ -214,7 +238,9 @@ export class ChainGenerator {
       anchor,
       template,
       chainCompletionDeadline,
-      travelDuration
+      travelDuration,
+      learnedDurations,
+      customizedTemplate
     );
     
     console.log('[Chain Generator] Backward chain generated:', {
@@ -238,9 +264,13 @@ export class ChainGenerator {
       anchorId: anchor.id,
       envelopeId: commitmentEnvelope.envelope_id,
       prep: `${commitmentEnvelope.prep.start_time.toLocaleTimeString()} - ${commitmentEnvelope.prep.end_time.toLocaleTimeString()}`,
-      travelThere: `${commitmentEnvelope.travel_there.start_time.toLocaleTimeString()} - ${commitmentEnvelope.travel_there.end_time.toLocaleTimeString()}`,
+      travelThere: commitmentEnvelope.travel_there
+        ? `${commitmentEnvelope.travel_there.start_time.toLocaleTimeString()} - ${commitmentEnvelope.travel_there.end_time.toLocaleTimeString()}`
+        : 'none (online)',
       anchor: `${commitmentEnvelope.anchor.start_time.toLocaleTimeString()} - ${commitmentEnvelope.anchor.end_time.toLocaleTimeString()}`,
-      travelBack: `${commitmentEnvelope.travel_back.start_time.toLocaleTimeString()} - ${commitmentEnvelope.travel_back.end_time.toLocaleTimeString()}`,
+      travelBack: commitmentEnvelope.travel_back
+        ? `${commitmentEnvelope.travel_back.start_time.toLocaleTimeString()} - ${commitmentEnvelope.travel_back.end_time.toLocaleTimeString()}`
+        : 'none (online)',
       recovery: `${commitmentEnvelope.recovery.start_time.toLocaleTimeString()} - ${commitmentEnvelope.recovery.end_time.toLocaleTimeString()}`,
     });
 
@@ -259,6 +289,10 @@ export class ChainGenerator {
         template_fallback: true,
         original_anchor_type: anchor.type,
         fallback_template: 'other',
+      } : userTemplateMatch ? {
+        user_template_id: userTemplateMatch.template.id,
+        user_template_name: userTemplateMatch.template.name,
+        user_template_binding: userTemplateMatch.binding.type,
       } : undefined,
     };
     
@@ -322,7 +356,7 @@ export class ChainGenerator {
               role: 'chain-step',
               metadata: {
                 injected: true,
-                reason: 'meds_not_taken_yesterday',
+                reason: dailyContext.meds.schedule ? 'medication_schedule' : 'meds_not_taken_yesterday',
               },
             };
             
@@ -342,7 +376,8 @@ export class ChainGenerator {
         // Requirements: 7.3
         for (const [stepId, adjustedDuration] of Object.entries(enhancement.durationAdjustments)) {
           const step = chain.steps.find(s => s.step_id === stepId);
-          if (step) {
+          // Personal history beats yesterday's generic priors
+          if (step && !step.metadata?.learned_duration) {
             const oldDuration = step.duration;
             step.duration = adjustedDuration;
             step.end_time = new Date(step.start_time.getTime() + adjustedDuration * 60 * 1000);
@@ -423,6 +458,8 @@ export class ChainGenerator {
    * @param template - Chain template
    * @param deadline - Chain completion deadline
    * @param travelDuration - Travel duration in minutes
+   * @param learnedDurations - Learned durations already applied to the template
+   * @param originalTemplate - Template before learned durations, for original estimates
    * @returns Array of chain step instances
    * 
    * Requirements: 4.2, 12.3, 12.4
@@ -431,7 +468,9 @@ export class ChainGenerator {
     anchor: Anchor,
     template: ChainTemplate,
     deadline: Date,
-    travelDuration: number
+    travelDuration: number,
+    learnedDurations: LearnedStepDurations = {},
+    originalTemplate: ChainTemplate = template
   ): ChainStepInstance[] {
     const chainId = uuidv4();
     const steps: ChainStepInstance[] = [];
@@ -459,6 +498,7 @@ export class ChainGenerator {
         duration: templateStep.duration_estimate,
         is_required: templateStep.is_required,
         can_skip_when_late: templateStep.can_skip_when_late,
+        degrade_priority: templateStep.degrade_priority,
         status: 'pending',
         role: templateStep.id === 'exit-gate' ? 'exit-gate' : 'chain-step',
         metadata: {
@@ -466,6 +506,12 @@ export class ChainGenerator {
         },
       };
 
+      const learned = learnedDurations[templateStep.id];
+      if (learned) {
+        step.metadata!.learned_duration = learned;
+        step.metadata!.original_duration = originalTemplate.steps[i]?.duration_estimate;
+      }
+
       steps.unshift(step); // Add to beginning since we're working backward
       currentTime = startTime; // Move backward in time
     }
@@ -518,6 +564,9 @@ export class ChainGenerator {
       role: 'chain-step',
     };
 
+    // Online anchors are attended from home: no travel_there/travel_back
+    const needsTravel = !anchor.is_online;
+
     // Calculate travel_there block
     const travelThereStart = prepEnd;
     const travelThereEnd = new Date(travelThereStart.getTime() + travelDuration * 60 * 1000);
@@ -587,7 +636,7 @@ export class ChainGenerator {
         ? RECOVERY_LONG_MINUTES 
         : RECOVERY_SHORT_MINUTES;
 
-    const recoveryStart = travelBackEnd;
+    const recoveryStart = needsTravel ? travelBackEnd : anchor.end;
     const recoveryEnd = new Date(recoveryStart.getTime() + recoveryDuration * 60 * 1000);
 
     const recovery: ChainStepInstance = {
@@ -606,9 +655,9 @@ export class ChainGenerator {
     return {
       envelope_id: envelopeId,
       prep,
-      travel_there: travelThere,
+      travel_there: needsTravel ? travelThere : undefined,
       anchor: anchorBlock,
-      travel_back: travelBack,
+      travel_back: needsTravel ? travelBack : undefined,
       recovery,
     };
   }
@@ -617,6 +666,7 @@ export class ChainGenerator {
    * Get travel duration for anchor
    * 
    * Uses travel service if anchor has location, otherwise returns default.
+   * Online anchors need no travel and return 0.
    * 
    * @param anchor - Anchor to get travel duration for
    * @param config - Chain generator config
@@ -628,6 +678,11 @@ export class ChainGenerator {
     anchor: Anchor,
     config: ChainGeneratorConfig
   ): Promise<{ duration: number; fallbackUsed: boolean }> {
+    // Online sessions need no travel at all
+    if (anchor.is_online) {
+      return { duration: 0, fallbackUsed: false };
+    }
+
     // If no location, use default
     if (!anchor.location) {
       console.log(`[Chain Generator] No location for anchor ${anchor.id}, using default travel duration`);
@@ -635,15 +690,16 @@ export class ChainGenerator {
     }
 
     try {
-      // Convert anchor location string to Location object
-      // For now, we'll use a simple conversion. In production, this would
-      // geocode the address or look up the location in a database.
-      const destinationLocation: Location = {
-        name: anchor.location,
-        coordinates: [52.4508, -1.9305], // Default to Birmingham city center
-        type: 'other',
-        address: anchor.location,
-      };
+      // The saved place the anchor's location names, else a central
+      // Birmingham stand-in until the user saves the place
+      const destinationLocation: Location = anchor.place
+        ? placeToLocation(anchor.place)
+        : {
+            name: anchor.location,
+            coordinates: [52.4508, -1.9305], // Default to Birmingham city center
+            type: 'other',
+            address: anchor.location,
+          };
 
       // Build travel conditions
       const conditions: TravelConditions = {
@@ -656,25 +712,7 @@ export class ChainGenerator {
         },
       };
 
-      // Build travel preferences (use defaults)
-      const preferences: TravelPreferences = {
-        preferredMethod: 'mixed',
-        maxWalkingDistance: 1500, // 1.5km
-        weatherThreshold: {
-          minTemperature: 0,
-          maxWindSpeed: 30,
-          maxPrecipitation: 10,
-        },
-        fitnessLevel: 'medium',
-        budgetConstraints: {
-          dailyLimit: 500, // £5
-          weeklyLimit: 2000, // £20
-        },
-        timePreferences: {
-          bufferTime: 10,
-          maxTravelTime: 60,
-        },
-      };
+      const preferences = config.travelPreferences ?? toTravelPreferences();
 
       // Get optimal route from travel service
       const route = await this.travelService.getOptimalRoute(
@@ -690,6 +728,14 @@ export class ChainGenerator {
         return { duration: DEFAULT_TRAVEL_DURATION_MINUTES, fallbackUsed: true };
       }
 
+      // A timetabled journey is as long as leaving for the departure until the anchor starts
+      if (route.transit) {
+        return {
+          duration: Math.round((anchor.start.getTime() - route.transit.leaveAt.getTime()) / 60000),
+          fallbackUsed: false,
+        };
+      }
+
       return { duration: route.duration, fallbackUsed: false };
     } catch (error) {
       // Travel Service Error Handling
@@ -848,7 +894,9 @@ export class ChainGenerator {
       { step: envelope.anchor, type: 'anchor' as const },
       { step: envelope.travel_back, type: 'travel_back' as const },
       { step: envelope.recovery, type: 'recovery' as const },
-    ];
+    ].filter((entry): entry is { step: ChainStepInstance; type: CommitmentEnvelopeType } => Boolean(entry.step));
+    // Later anchors of an outing are reached from the previous one, not from home
+    const leavesHome = Boolean(envelope.travel_there || chain.metadata?.outing);
 
     for (const { step, type } of envelopeSteps) {
       const metadata: TimeBlockMetadata = {
@@ -866,7 +914,7 @@ export class ChainGenerator {
         
         // Location state (travel and anchor are not_home, others depend on context)
         location_state: 
-          type === 'travel_there' || type === 'anchor' || type === 'travel_back'
+          type === 'travel_there' || type === 'travel_back' || (type === 'anchor' && leavesHome)
             ? 'not_home'
             : 'at_home',
         
@@ -0,0 +1,381 @@
+// Chain-Based Execution Engine (V2) - Chain Integrity History
+//
+// Persists each chain's final state per day and summarizes it into a weekly
+// report. The report measures chain integrity (were the required steps done),
+// not punctuality: a late but intact chain counts as a success.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DailyPlan } from '../../types/daily-plan';
+import type {
+  AnchorType,
+  ChainIntegrityRecord,
+  DegradationEvent,
+  ExecutionChain,
+  MissedChainStep,
+} from './types';
+import { chainStatusService } from './chain-status-service';
+import { hydratePlanWithChains } from './plan-chains';
+import { getDailyPlanWithBlocks } from '../daily-plan/database';
+import { isMissingTable } from '../supabase/helpers';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back plan generation closes out chains from earlier plans
+const CLOSE_OUT_DAYS = 7;
+
+export const CHAIN_REPORT_DEFAULT_WEEKS = 8;
+export const CHAIN_REPORT_MAX_WEEKS = 26;
+
+export interface ChainIntegrityWeek {
+  week_start: string; // Monday, YYYY-MM-DD
+  chains: number;
+  intact: number;
+  broken: number;
+  late_but_intact: number;
+  integrity_rate: number | null; // null when no chains were tracked that week
+}
+
+export interface ChainBreakingStep {
+  step_id: string;
+  name: string;
+  broken_chains: number;
+  share_of_broken: number;
+}
+
+export interface ChainAnchorTypeIntegrity {
+  anchor_type: AnchorType;
+  chains: number;
+  intact: number;
+  broken: number;
+  integrity_rate: number;
+}
+
+export interface ChainIntegrityReport {
+  range: { from: string; to: string; weeks: number };
+  totals: {
+    chains: number;
+    intact: number;
+    broken: number;
+    late_but_intact: number;
+    integrity_rate: number | null;
+  };
+  trend: 'improving' | 'declining' | 'steady' | 'not_enough_data';
+  weekly: ChainIntegrityWeek[];
+  breaking_steps: ChainBreakingStep[];
+  anchor_types: ChainAnchorTypeIntegrity[];
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function weekStartOf(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  const offset = (date.getUTCDay() + 6) % 7; // Monday = 0
+  return toDateKey(new Date(date.getTime() - offset * DAY_MS));
+}
+
+function rate(intact: number, total: number): number | null {
+  return total > 0 ? Math.round((intact / total) * 100) / 100 : null;
+}
+
+function collectDegradationEvents(chain: ExecutionChain): DegradationEvent[] {
+  const events = new Map<string, DegradationEvent>();
+  for (const event of chain.metadata?.degradation_events || []) {
+    events.set(event.step_id, event);
+  }
+  for (const step of chain.steps) {
+    const event = step.metadata?.degradation as DegradationEvent | undefined;
+    if (event && !events.has(event.step_id)) {
+      events.set(event.step_id, event);
+    }
+  }
+  return Array.from(events.values()).sort((a, b) => a.tier - b.tier);
+}
+
+/**
+ * Build the history record for a chain that has run its course
+ *
+ * A chain is finished once the exit gate is completed, every step is resolved,
+ * or the anchor has started. A chain abandoned without a single tick is still
+ * recorded, as broken with no steps completed; only unfinished chains return
+ * null.
+ */
+export function buildChainIntegrityRecord(
+  chain: ExecutionChain,
+  plan: Pick<DailyPlan, 'id' | 'planDate'>,
+  now: Date = new Date()
+): ChainIntegrityRecord | null {
+  const exitGate = chain.steps.find(step => step.role === 'exit-gate');
+  const allResolved = chain.steps.every(step => step.status === 'completed' || step.status === 'skipped');
+  const finished = exitGate?.status === 'completed' || allResolved || now >= chain.anchor.start;
+
+  if (!finished) {
+    return null;
+  }
+
+  // The anchor was reached (or its time has passed); evaluate the chain as closed.
+  // A chain with nothing ticked never started, so it is broken by any required step.
+  const started = chain.steps.some(step => step.status === 'completed');
+  const evaluation = started
+    ? chainStatusService.evaluateChainStatus({
+      ...chain,
+      commitment_envelope: {
+        ...chain.commitment_envelope,
+        anchor: { ...chain.commitment_envelope.anchor, status: 'completed' },
+      },
+    }, now)
+    : { chain_integrity: chain.steps.some(step => step.is_required) ? 'broken' as const : 'intact' as const, was_late: false };
+
+  const exitCompletedAt = exitGate?.status === 'completed' && typeof exitGate.metadata?.completed_at === 'string'
+    ? new Date(exitGate.metadata.completed_at)
+    : null;
+  const lateMinutes = exitGate && exitCompletedAt && !Number.isNaN(exitCompletedAt.getTime())
+    ? Math.round((exitCompletedAt.getTime() - new Date(exitGate.end_time).getTime()) / 60000)
+    : null;
+
+  const missedSteps: MissedChainStep[] = chain.steps
+    .filter(step => step.status !== 'completed')
+    .map(step => ({
+      template_step_id: typeof step.metadata?.template_step_id === 'string' ? step.metadata.template_step_id : null,
+      name: step.name,
+      required: step.is_required,
+      skipped: step.status === 'skipped',
+    }));
+
+  return {
+    chain_id: chain.chain_id,
+    plan_id: plan.id,
+    plan_date: toDateKey(plan.planDate),
+    anchor_id: chain.anchor_id,
+    anchor_title: chain.anchor.title,
+    anchor_type: chain.anchor.type,
+    status: evaluation.chain_integrity === 'intact' ? 'completed' : 'failed',
+    chain_integrity: evaluation.chain_integrity,
+    was_late: lateMinutes !== null ? lateMinutes > 0 : evaluation.was_late,
+    late_minutes: lateMinutes,
+    steps_total: chain.steps.length,
+    steps_completed: chain.steps.length - missedSteps.length,
+    missed_steps: missedSteps,
+    degradation_events: collectDegradationEvents(chain),
+    evaluated_at: now.toISOString(),
+  };
+}
+
+/**
+ * Save the integrity of every finished chain in a plan
+ *
+ * There is one row per anchor and plan date, so regenerating a day's plan
+ * (which gives its chains new ids) replaces that anchor's record instead of
+ * adding a second one. Chains that are no longer finished (e.g. a step was
+ * un-completed) have their row removed. Never throws: history must not block
+ * step updates.
+ */
+export async function recordChainIntegrity(
+  supabase: AnySupabaseClient,
+  userId: string,
+  plan: DailyPlan,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const chains = hydratePlanWithChains(plan).chains || [];
+    if (chains.length === 0) return;
+
+    const records: ChainIntegrityRecord[] = [];
+    const unfinishedAnchorIds: string[] = [];
+    for (const chain of chains) {
+      const record = buildChainIntegrityRecord(chain, plan, now);
+      if (record) {
+        records.push(record);
+      } else {
+        unfinishedAnchorIds.push(chain.anchor_id);
+      }
+    }
+
+    if (records.length > 0) {
+      const { error } = await supabase
+        .from('chain_integrity_history')
+        .upsert(
+          records.map(record => ({ ...record, user_id: userId, updated_at: now.toISOString() })) as any,
+          { onConflict: 'user_id,plan_date,anchor_id' }
+        );
+
+      if (error) {
+        if (!isMissingTable(error)) {
+          console.warn('[Chain History] Failed to record chain integrity:', error.message);
+        }
+        return;
+      }
+    }
+
+    if (unfinishedAnchorIds.length > 0) {
+      await supabase
+        .from('chain_integrity_history')
+        .delete()
+        .eq('user_id', userId)
+        .eq('plan_date', toDateKey(plan.planDate))
+        .in('anchor_id', unfinishedAnchorIds);
+    }
+  } catch (error) {
+    console.warn('[Chain History] Failed to record chain integrity:', error);
+  }
+}
+
+/**
+ * Record the final state of chains in the plans of the week before `date`
+ *
+ * Runs when a new plan is generated, so chains from days the user never came
+ * back to, including ones where no step was ticked, still reach the history.
+ * Never throws.
+ */
+export async function recordEarlierPlansIntegrity(
+  supabase: AnySupabaseClient,
+  userId: string,
+  date: Date,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('daily_plans')
+      .select('id')
+      .eq('user_id', userId)
+      .gte('plan_date', toDateKey(new Date(date.getTime() - CLOSE_OUT_DAYS * DAY_MS)))
+      .lt('plan_date', toDateKey(date));
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const plan = await getDailyPlanWithBlocks(supabase, row.id);
+      if (plan) {
+        await recordChainIntegrity(supabase, userId, plan, now);
+      }
+    }
+  } catch (error) {
+    console.warn('[Chain History] Failed to record earlier plans:', error);
+  }
+}
+
+/**
+ * Load chain integrity records with plan_date on or after `from`
+ */
+export async function loadChainIntegrityHistory(
+  supabase: AnySupabaseClient,
+  userId: string,
+  from: string
+): Promise<ChainIntegrityRecord[]> {
+  const { data, error } = await supabase
+    .from('chain_integrity_history')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('plan_date', from)
+    .order('plan_date', { ascending: true });
+
+  if (error) {
+    if (isMissingTable(error)) return [];
+    throw error;
+  }
+
+  return (data || []) as ChainIntegrityRecord[];
+}
+
+/**
+ * First day covered by a report of `weeks` weeks ending in the week of `now`
+ */
+export function getChainReportStart(now: Date, weeks: number): string {
+  const currentWeek = weekStartOf(toDateKey(now));
+  return toDateKey(new Date(new Date(`${currentWeek}T00:00:00.000Z`).getTime() - (weeks - 1) * 7 * DAY_MS));
+}
+
+/**
+ * Summarize history into the weekly chain integrity report
+ *
+ * - breaking_steps: required steps missed in broken chains, most frequent first
+ * - anchor_types: hardest (lowest integrity) first
+ * - trend: latest tracked week against the average of the earlier ones
+ */
+export function buildChainIntegrityReport(
+  records: ChainIntegrityRecord[],
+  now: Date = new Date(),
+  weeks: number = CHAIN_REPORT_DEFAULT_WEEKS
+): ChainIntegrityReport {
+  const from = getChainReportStart(now, weeks);
+  const to = toDateKey(now);
+  const inRange = records.filter(record => record.plan_date >= from && record.plan_date <= to);
+
+  const weekly: ChainIntegrityWeek[] = [];
+  for (let i = 0; i < weeks; i++) {
+    const weekStart = toDateKey(new Date(new Date(`${from}T00:00:00.000Z`).getTime() + i * 7 * DAY_MS));
+    const weekRecords = inRange.filter(record => weekStartOf(record.plan_date) === weekStart);
+    const intact = weekRecords.filter(record => record.chain_integrity === 'intact');
+    weekly.push({
+      week_start: weekStart,
+      chains: weekRecords.length,
+      intact: intact.length,
+      broken: weekRecords.length - intact.length,
+      late_but_intact: intact.filter(record => record.was_late).length,
+      integrity_rate: rate(intact.length, weekRecords.length),
+    });
+  }
+
+  const broken = inRange.filter(record => record.chain_integrity === 'broken');
+  const stepCounts = new Map<string, ChainBreakingStep>();
+  for (const record of broken) {
+    const seen = new Set<string>();
+    for (const step of record.missed_steps.filter(missed => missed.required)) {
+      const key = step.template_step_id || step.name.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const entry = stepCounts.get(key) || { step_id: key, name: step.name, broken_chains: 0, share_of_broken: 0 };
+      entry.broken_chains += 1;
+      stepCounts.set(key, entry);
+    }
+  }
+  const breakingSteps = Array.from(stepCounts.values())
+    .map(entry => ({ ...entry, share_of_broken: rate(entry.broken_chains, broken.length) ?? 0 }))
+    .sort((a, b) => b.broken_chains - a.broken_chains || a.name.localeCompare(b.name))
+    .slice(0, 5);
+
+  const byType = new Map<AnchorType, ChainIntegrityRecord[]>();
+  for (const record of inRange) {
+    byType.set(record.anchor_type, [...(byType.get(record.anchor_type) || []), record]);
+  }
+  const anchorTypes = Array.from(byType.entries())
+    .map(([anchorType, typeRecords]) => {
+      const intact = typeRecords.filter(record => record.chain_integrity === 'intact').length;
+      return {
+        anchor_type: anchorType,
+        chains: typeRecords.length,
+        intact,
+        broken: typeRecords.length - intact,
+        integrity_rate: rate(intact, typeRecords.length) ?? 0,
+      };
+    })
+    .sort((a, b) => a.integrity_rate - b.integrity_rate || b.chains - a.chains);
+
+  const tracked = weekly.filter(week => week.integrity_rate !== null);
+  let trend: ChainIntegrityReport['trend'] = 'not_enough_data';
+  if (tracked.length >= 2) {
+    const latest = tracked[tracked.length - 1].integrity_rate!;
+    const earlier = tracked.slice(0, -1);
+    const baseline = earlier.reduce((sum, week) => sum + week.integrity_rate!, 0) / earlier.length;
+    trend = latest - baseline >= 0.1 ? 'improving' : baseline - latest >= 0.1 ? 'declining' : 'steady';
+  }
+
+  const intactTotal = inRange.length - broken.length;
+  return {
+    range: { from, to, weeks },
+    totals: {
+      chains: inRange.length,
+      intact: intactTotal,
+      broken: broken.length,
+      late_but_intact: inRange.filter(record => record.chain_integrity === 'intact' && record.was_late).length,
+      integrity_rate: rate(intactTotal, inRange.length),
+    },
+    trend,
+    weekly,
+    breaking_steps: breakingSteps,
+    anchor_types: anchorTypes,
+  };
+}
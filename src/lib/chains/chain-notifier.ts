@@ -0,0 +1,194 @@
+// Chain-Based Execution Engine (V2) - Chain Execution Notifier
+//
+// Local notifications while a chain runs: each step's start, a nudge shortly
+// before it ends ("Shower ends in 5 min, next: Dress"), and the exit gate
+// deadline. The schedule is handed to the service worker (public/sw.js) so it
+// still fires with the tab in the background; the page keeps its own timers
+// as a fallback. Both use the same notification tag, so a nudge shown twice
+// replaces itself instead of stacking.
+
+import type { ChainStepInstance, ExecutionChain } from './types';
+
+export type ChainNotificationKind = 'step-start' | 'step-ending' | 'exit-deadline';
+
+export interface ChainNotification {
+  id: string; // also used as the notification tag
+  chain_id: string;
+  step_id: string;
+  kind: ChainNotificationKind;
+  fire_at: number; // epoch ms
+  title: string;
+  body: string;
+  url: string;
+}
+
+export const CHAIN_NUDGE_LEAD_MINUTES = 5;
+
+const ENABLED_STORAGE_KEY = 'chain-notifications-enabled';
+const SCHEDULE_MESSAGE = 'SCHEDULE_CHAIN_NOTIFICATIONS';
+const NOTIFICATION_URL = '/daily-plan';
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function isOpen(step: ChainStepInstance): boolean {
+  return step.status === 'pending' || step.status === 'in-progress';
+}
+
+/**
+ * Build the notification schedule for a set of chains
+ *
+ * Only steps that are still open get notifications, and anything already due
+ * is left out, so rebuilding after an edit never replays old nudges.
+ */
+export function buildChainNotifications(
+  chains: ExecutionChain[],
+  now: Date = new Date(),
+  leadMinutes: number = CHAIN_NUDGE_LEAD_MINUTES
+): ChainNotification[] {
+  const notifications: ChainNotification[] = [];
+
+  for (const chain of chains) {
+    const steps = [...chain.steps].sort((a, b) => toTime(a.start_time) - toTime(b.start_time));
+
+    steps.forEach((step, index) => {
+      if (!isOpen(step)) return;
+
+      const start = toTime(step.start_time);
+      const end = toTime(step.end_time);
+      const next = steps.slice(index + 1).find(isOpen);
+      const base = { chain_id: chain.chain_id, step_id: step.step_id, url: NOTIFICATION_URL };
+
+      if (step.role === 'exit-gate') {
+        notifications.push({
+          ...base,
+          id: `chain-${step.step_id}-deadline`,
+          kind: 'exit-deadline',
+          fire_at: end,
+          title: `Leave now for ${chain.anchor.title}`,
+          body: 'Exit gate deadline. Check the gate and head out.',
+        });
+        return;
+      }
+
+      notifications.push({
+        ...base,
+        id: `chain-${step.step_id}-start`,
+        kind: 'step-start',
+        fire_at: start,
+        title: `Start: ${step.name}`,
+        body: next ? `${step.duration} min, then ${next.name}` : `${step.duration} min`,
+      });
+
+      const nudgeAt = end - leadMinutes * 60 * 1000;
+      if (nudgeAt > start) {
+        notifications.push({
+          ...base,
+          id: `chain-${step.step_id}-ending`,
+          kind: 'step-ending',
+          fire_at: nudgeAt,
+          title: `${step.name} ends in ${leadMinutes} min`,
+          body: next ? `Next: ${next.name}` : `Then leave for ${chain.anchor.title}`,
+        });
+      }
+    });
+  }
+
+  return notifications
+    .filter(notification => notification.fire_at > now.getTime())
+    .sort((a, b) => a.fire_at - b.fire_at);
+}
+
+/**
+ * Chain Execution Notifier
+ *
+ * Browser-side scheduler. Call schedule() whenever the plan's chains change;
+ * it replaces the previous schedule in the page and in the service worker.
+ */
+class ChainExecutionNotifier {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  isEnabled(): boolean {
+    if (!this.isSupported()) return false;
+    return Notification.permission === 'granted' && localStorage.getItem(ENABLED_STORAGE_KEY) !== 'false';
+  }
+
+  async enable(): Promise<boolean> {
+    if (!this.isSupported()) return false;
+
+    const permission = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission;
+
+    localStorage.setItem(ENABLED_STORAGE_KEY, permission === 'granted' ? 'true' : 'false');
+    return permission === 'granted';
+  }
+
+  async disable(): Promise<void> {
+    if (!this.isSupported()) return;
+    localStorage.setItem(ENABLED_STORAGE_KEY, 'false');
+    await this.schedule([]);
+  }
+
+  /**
+   * Replace the schedule with notifications for these chains
+   */
+  async schedule(chains: ExecutionChain[]): Promise<number> {
+    if (!this.isSupported()) return 0;
+
+    const notifications = this.isEnabled() ? buildChainNotifications(chains) : [];
+
+    this.clearTimers();
+    for (const notification of notifications) {
+      const delay = notification.fire_at - Date.now();
+      // setTimeout overflows past ~24.8 days; chains are same-day anyway
+      if (delay > 24 * 60 * 60 * 1000) continue;
+      this.timers.push(setTimeout(() => this.show(notification), delay));
+    }
+
+    const registration = await this.getRegistration();
+    registration?.active?.postMessage({ type: SCHEDULE_MESSAGE, notifications });
+
+    return notifications.length;
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  private async getRegistration(): Promise<ServiceWorkerRegistration | null> {
+    if (!('serviceWorker' in navigator)) return null;
+    try {
+      return (await navigator.serviceWorker.getRegistration()) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async show(notification: ChainNotification): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const options: NotificationOptions = {
+      body: notification.body,
+      icon: '/icons/icon-192x192.png',
+      tag: notification.id,
+      data: { url: notification.url, chainId: notification.chain_id, stepId: notification.step_id },
+    };
+
+    const registration = await this.getRegistration();
+    if (registration) {
+      await registration.showNotification(notification.title, options);
+    } else {
+      new Notification(notification.title, options);
+    }
+  }
+}
+
+// Export singleton instance
+export const chainNotifier = new ChainExecutionNotifier();
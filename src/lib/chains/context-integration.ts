@@ -12,6 +12,7 @@
 
 import type { DailyContext } from '../context/daily-context';
 import type { ExecutionChain, ChainStep, ChainStepInstance, GateCondition } from './types';
+import { clockTime } from '../health/medication-schedule';
 
 /**
  * Chain Context Enhancement
@@ -28,26 +29,73 @@ export interface ChainContextEnhancement {
   };
 }
 
+/**
+ * Time at home a chain covers: from its first step until leaving at the
+ * end of its exit gate step
+ */
+export interface ChainHomeWindow {
+  start: Date;
+  departure: Date;
+}
+
+function chainHomeWindow(chain: ExecutionChain): ChainHomeWindow {
+  const departure = chain.steps.find(step => step.role === 'exit-gate')?.end_time ?? chain.chain_completion_deadline;
+  return { start: chain.steps[0]?.start_time ?? departure, departure };
+}
+
+/**
+ * Scheduled doses to take at home during this chain: scheduled before
+ * leaving, with a window still open when the chain starts (so a morning
+ * dose isn't repeated in an afternoon chain)
+ * 
+ * @returns null when the user has no medication schedule
+ */
+function dosesBeforeDeparture(
+  context: DailyContext,
+  window?: ChainHomeWindow
+): NonNullable<DailyContext['meds']['schedule']>['doses'] | null {
+  if (!context.meds.schedule) return null;
+  if (!window) return context.meds.schedule.doses;
+
+  const { timezone } = context.meds.schedule;
+  const startAt = clockTime(window.start, timezone);
+  const leaveAt = clockTime(window.departure, timezone);
+  return context.meds.schedule.doses.filter(dose => dose.slot_time <= leaveAt && dose.latest_time >= startAt);
+}
+
 /**
  * Generate exit gate suggestions based on DailyContext
  * 
  * Prefills exit readiness checklist with items based on yesterday's habits
- * and detected risk flags.
+ * and detected risk flags. With a medication schedule, "Meds taken" is
+ * suggested when a dose falls before leaving and is verified from the dose log.
  * 
  * @param context - Daily context data
+ * @param window - The chain's time at home, to pick the doses due before leaving
  * @returns Array of gate conditions
  * 
  * Requirements: 7.1
  */
-export function generateExitGateSuggestions(context: DailyContext): GateCondition[] {
+export function generateExitGateSuggestions(context: DailyContext, window?: ChainHomeWindow): GateCondition[] {
   const suggestions: GateCondition[] = [
     { id: 'keys', name: 'Keys present', satisfied: false },
     { id: 'phone', name: 'Phone charged >= 20%', satisfied: false },
     { id: 'water', name: 'Water bottle filled', satisfied: false },
   ];
   
-  // Add meds if not taken yesterday and reliability is high enough
-  if (!context.meds.taken && context.meds.reliability > 0.5) {
+  const scheduledDoses = dosesBeforeDeparture(context, window);
+  if (scheduledDoses) {
+    if (scheduledDoses.length > 0) {
+      const names = [...new Set(scheduledDoses.map(dose => dose.name))];
+      suggestions.push({
+        id: 'meds',
+        name: `Meds taken (${names.join(', ')})`,
+        satisfied: false,
+        source: { type: 'medication' },
+      });
+    }
+  } else if (!context.meds.taken && context.meds.reliability > 0.5) {
+    // Add meds if not taken yesterday and reliability is high enough
     suggestions.push({
       id: 'meds',
       name: 'Meds taken',
@@ -72,7 +120,9 @@ export function generateExitGateSuggestions(context: DailyContext): GateConditio
  * 
  * Adds steps for activities that should be done but weren't done yesterday.
  * Currently handles:
- * - "Take meds" if meds not taken yesterday
+ * - "Take <medication>" for each scheduled dose due before leaving, with
+ *   the time it has to be taken by
+ * - "Take meds" if meds not taken yesterday, when there is no schedule
  * 
  * @param chain - Execution chain to enhance
  * @param context - Daily context data
@@ -86,6 +136,20 @@ export function injectMissingSteps(
 ): ChainStep[] {
   const injected: ChainStep[] = [];
   
+  const scheduledDoses = dosesBeforeDeparture(context, chainHomeWindow(chain));
+  if (scheduledDoses) {
+    for (const dose of scheduledDoses) {
+      injected.push({
+        id: `take-meds-${dose.medication_id}-${dose.slot_time.replace(':', '')}`,
+        name: `Take ${dose.name}${dose.dose ? ` ${dose.dose}` : ''} (by ${dose.latest_time})`,
+        duration_estimate: 2,
+        is_required: true,
+        can_skip_when_late: false,
+      });
+    }
+    return injected;
+  }
+  
   // Inject "Take meds" if not taken yesterday and reliability is high enough
   if (!context.meds.taken && context.meds.reliability > 0.5) {
     injected.push({
@@ -193,7 +257,7 @@ export async function enhanceChainWithContext(
   context: DailyContext
 ): Promise<ChainContextEnhancement> {
   return {
-    exitGateSuggestions: generateExitGateSuggestions(context),
+    exitGateSuggestions: generateExitGateSuggestions(context, chainHomeWindow(chain)),
     injectedSteps: injectMissingSteps(chain, context),
     durationAdjustments: applyDurationPriors(chain, context),
     riskInflators: calculateRiskInflators(context),
@@ -1,12 +1,13 @@
 // Chain-Based Execution Engine (V2) - Degradation Service
 
-import type { ExecutionChain, ChainStepInstance } from './types';
+import type { ExecutionChain, ChainStepInstance, DegradationEvent } from './types';
 
 /**
  * Degradation Service
  * 
  * Handles chain degradation when running late.
- * Drops optional steps while preserving required steps.
+ * Sheds optional steps one tier at a time (ordered by degrade_priority)
+ * until the time saved covers how late the user is, while preserving required steps.
  * 
  * Requirements: 15.1, 15.2, 15.3, 15.4, 15.5
  */
@@ -14,7 +15,8 @@ export class DegradationService {
   /**
    * Check if degradation should be triggered
    * 
-   * Degradation triggers when current time exceeds Chain Completion Deadline.
+   * Degradation triggers when current time exceeds Chain Completion Deadline,
+   * or when the current step is running later than the time already saved.
    * 
    * @param chain - Execution chain to check
    * @param currentTime - Current time (defaults to now)
@@ -26,60 +28,146 @@ export class DegradationService {
     chain: ExecutionChain,
     currentTime: Date = new Date()
   ): boolean {
-    return currentTime > chain.chain_completion_deadline;
+    if (currentTime > chain.chain_completion_deadline) {
+      return true;
+    }
+
+    return this.getMinutesLate(chain, currentTime) > this.getMinutesSaved(chain);
+  }
+
+  /**
+   * Get how many minutes late the user is
+   * 
+   * Compares current time with the start time of the first step
+   * that is still pending or in progress.
+   * 
+   * @param chain - Execution chain to check
+   * @param currentTime - Current time (defaults to now)
+   * @returns Whole minutes late (0 when on time)
+   */
+  getMinutesLate(
+    chain: ExecutionChain,
+    currentTime: Date = new Date()
+  ): number {
+    const currentStep = chain.steps.find(
+      step => step.status === 'pending' || step.status === 'in-progress'
+    );
+    if (!currentStep) {
+      return 0;
+    }
+
+    const lateMs = currentTime.getTime() - new Date(currentStep.start_time).getTime();
+    return Math.max(0, Math.floor(lateMs / (60 * 1000)));
+  }
+
+  /**
+   * Get minutes already saved by earlier degradation tiers
+   * 
+   * @param chain - Execution chain
+   * @returns Total minutes saved
+   */
+  getMinutesSaved(chain: ExecutionChain): number {
+    return (chain.metadata?.degradation_events || []).reduce(
+      (total, event) => total + event.minutes_saved,
+      0
+    );
   }
 
   /**
-   * Degrade chain by dropping optional steps
+   * Degrade chain by shedding optional steps tier by tier
    * 
-   * Drops steps where can_skip_when_late = true.
-   * Preserves steps where is_required = true.
-   * Marks dropped steps with status = 'skipped' and skip_reason = "Running late".
+   * Candidates are pending steps where can_skip_when_late = true and is_required = false,
+   * ordered by degrade_priority (lower first, unprioritised steps last, then latest in chain).
+   * Steps are dropped one at a time until the minutes saved cover the minutes late.
+   * Each tier records why it fired in step metadata and chain metadata.
    * 
    * @param chain - Execution chain to degrade
+   * @param currentTime - Current time (defaults to now)
    * @returns Degraded execution chain
    * 
    * Requirements: 15.2, 15.3, 15.4, 15.5
    */
-  degradeChain(chain: ExecutionChain): ExecutionChain {
+  degradeChain(
+    chain: ExecutionChain,
+    currentTime: Date = new Date()
+  ): ExecutionChain {
     // Create a copy of the chain to avoid mutating the original
-    const degradedChain: ExecutionChain = {
+    const steps = chain.steps.map(step => ({ ...step }));
+    const events = [...(chain.metadata?.degradation_events || [])];
+
+    const minutesLate = this.getMinutesLate(chain, currentTime);
+    let minutesSaved = this.getMinutesSaved(chain);
+
+    const candidates = this.getSheddableSteps(steps);
+
+    for (const step of candidates) {
+      if (minutesSaved >= minutesLate) {
+        break;
+      }
+
+      const event: DegradationEvent = {
+        tier: events.length + 1,
+        step_id: step.step_id,
+        step_name: step.name,
+        minutes_late: minutesLate,
+        minutes_saved: step.duration,
+        reason: `Dropped ${step.name.toLowerCase()} to save ${step.duration} min`,
+        triggered_at: currentTime.toISOString(),
+      };
+
+      step.status = 'skipped';
+      step.skip_reason = event.reason;
+      step.metadata = {
+        ...(step.metadata || {}),
+        degradation: event,
+      };
+
+      events.push(event);
+      minutesSaved += step.duration;
+    }
+
+    return {
       ...chain,
-      steps: chain.steps.map(step => this.degradeStep(step)),
+      steps,
+      metadata: {
+        ...(chain.metadata || {}),
+        degradation_events: events,
+      },
     };
-
-    return degradedChain;
   }
 
   /**
-   * Degrade a single chain step
+   * Get optional steps in the order they should be shed
    * 
-   * If step can be skipped when late, mark it as skipped.
-   * Otherwise, preserve the step.
+   * @param steps - Chain steps
+   * @returns Sheddable steps, first to drop first
    * 
-   * @param step - Chain step to degrade
-   * @returns Degraded chain step
-   * 
-   * Requirements: 15.2, 15.3, 15.4
+   * Requirements: 15.2, 15.3
    */
-  private degradeStep(step: ChainStepInstance): ChainStepInstance {
-    // If step can be skipped when late, mark it as skipped
-    if (step.can_skip_when_late && !step.is_required) {
-      return {
-        ...step,
-        status: 'skipped',
-        skip_reason: 'Running late',
-      };
-    }
-
-    // Otherwise, preserve the step
-    return { ...step };
+  private getSheddableSteps(steps: ChainStepInstance[]): ChainStepInstance[] {
+    return steps
+      .map((step, index) => ({ step, index }))
+      .filter(({ step }) =>
+        step.can_skip_when_late &&
+        !step.is_required &&
+        step.status === 'pending'
+      )
+      .sort((a, b) => {
+        const priorityA = a.step.degrade_priority ?? Number.POSITIVE_INFINITY;
+        const priorityB = b.step.degrade_priority ?? Number.POSITIVE_INFINITY;
+        if (priorityA !== priorityB) {
+          return priorityA - priorityB;
+        }
+        // Same priority: drop the step furthest from now first
+        return b.index - a.index;
+      })
+      .map(({ step }) => step);
   }
 
   /**
    * Get list of dropped steps from degradation
    * 
-   * Returns steps that were marked as skipped due to degradation.
+   * Returns steps that were marked as skipped by a degradation tier.
    * 
    * @param originalChain - Original chain before degradation
    * @param degradedChain - Chain after degradation
@@ -98,7 +186,7 @@ export class DegradationService {
       if (
         originalStep.status !== 'skipped' &&
         degradedStep.status === 'skipped' &&
-        degradedStep.skip_reason === 'Running late'
+        degradedStep.metadata?.degradation
       ) {
         droppedSteps.push(degradedStep.name);
       }
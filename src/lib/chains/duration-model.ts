@@ -0,0 +1,229 @@
+// Chain-Based Execution Engine (V2) - Learned Step Durations
+//
+// Learns how long each template step (shower, pack-bag, ...) really takes a
+// user from completion times. Samples are recorded when a chain step block is
+// completed; the generator then schedules with the P80 so most mornings fit,
+// and ChainView shows the median as "usually takes N min".
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TimeBlock } from '../../types/daily-plan';
+import type { ChainTemplate, LearnedStepDurations } from './types';
+import type { ChainStepOverrides } from './step-customization';
+import { isMissingTable } from '../supabase/helpers';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+/**
+ * Trailing window and minimum sample count for a learned estimate
+ */
+export const DURATION_MODEL_WINDOW_DAYS = 28;
+export const DURATION_MODEL_MIN_SAMPLES = 3;
+
+// Completions faster than this are treated as batch-ticking, not real timing
+const MIN_SAMPLE_MINUTES = 0.5;
+
+export interface StepDurationSample {
+  template_step_id: string;
+  duration_minutes: number;
+  observed_at: string;
+}
+
+/**
+ * Linear-interpolated percentile (p in 0..1) of a non-empty list
+ */
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * weight;
+}
+
+/**
+ * Summarize samples into per-step median and P80 over the trailing window
+ * Steps with fewer than DURATION_MODEL_MIN_SAMPLES samples are left out.
+ */
+export function summarizeStepDurations(
+  samples: StepDurationSample[],
+  now: Date = new Date(),
+  windowDays: number = DURATION_MODEL_WINDOW_DAYS
+): LearnedStepDurations {
+  const windowStart = now.getTime() - windowDays * 24 * 60 * 60 * 1000;
+  const byStep = new Map<string, number[]>();
+
+  for (const sample of samples) {
+    const observedAt = new Date(sample.observed_at).getTime();
+    if (Number.isNaN(observedAt) || observedAt < windowStart || observedAt > now.getTime()) continue;
+    if (!(sample.duration_minutes > 0)) continue;
+
+    const values = byStep.get(sample.template_step_id) || [];
+    values.push(Number(sample.duration_minutes));
+    byStep.set(sample.template_step_id, values);
+  }
+
+  const learned: LearnedStepDurations = {};
+  for (const [stepId, values] of byStep) {
+    if (values.length < DURATION_MODEL_MIN_SAMPLES) continue;
+    learned[stepId] = {
+      median: Math.max(1, Math.round(percentile(values, 0.5))),
+      p80: Math.max(1, Math.ceil(percentile(values, 0.8))),
+      sample_count: values.length,
+    };
+  }
+
+  return learned;
+}
+
+/**
+ * Measure how long a completed chain step actually took
+ *
+ * The step is taken to start when the previous step in the same chain was
+ * completed, or at its planned start if the previous step was never ticked.
+ *
+ * @returns Minutes (one decimal), or null when the timing is not believable
+ */
+export function measureStepDuration(
+  block: TimeBlock,
+  previousBlock: TimeBlock | undefined,
+  completedAt: Date
+): number | null {
+  const plannedMinutes = (block.endTime.getTime() - block.startTime.getTime()) / 60000;
+  if (plannedMinutes <= 0) return null;
+
+  const previousCompletedAt = previousBlock?.status === 'completed' && previousBlock.metadata?.completed_at
+    ? new Date(previousBlock.metadata.completed_at as string)
+    : null;
+  const startedAt = previousCompletedAt && !Number.isNaN(previousCompletedAt.getTime())
+    ? previousCompletedAt
+    : block.startTime;
+
+  const minutes = (completedAt.getTime() - startedAt.getTime()) / 60000;
+  // Anything past 4x the plan (or an hour over) is most likely a forgotten tick.
+  const ceiling = Math.max(plannedMinutes * 4, plannedMinutes + 60);
+  if (minutes < MIN_SAMPLE_MINUTES || minutes > ceiling) return null;
+
+  return Math.round(minutes * 10) / 10;
+}
+
+/**
+ * Record a duration sample for a just-completed chain step block
+ * Never throws: learning must not get in the way of completing a step.
+ */
+export async function recordStepDurationSample(
+  supabase: AnySupabaseClient,
+  userId: string,
+  block: TimeBlock,
+  planBlocks: TimeBlock[],
+  completedAt: Date
+): Promise<void> {
+  try {
+    const metadata = (block.metadata || {}) as Record<string, any>;
+    const templateStepId = typeof metadata.template_step_id === 'string' ? metadata.template_step_id : null;
+    const chainId = metadata.chain_id;
+    if (!templateStepId || !chainId) return;
+
+    const chainBlocks = planBlocks
+      .filter(candidate => (candidate.metadata as Record<string, any> | undefined)?.chain_id === chainId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    const index = chainBlocks.findIndex(candidate => candidate.id === block.id);
+    const previousBlock = index > 0 ? chainBlocks[index - 1] : undefined;
+
+    const durationMinutes = measureStepDuration(block, previousBlock, completedAt);
+    if (durationMinutes === null) return;
+
+    const { error } = await supabase
+      .from('chain_step_duration_samples')
+      .upsert(
+        {
+          user_id: userId,
+          template_step_id: templateStepId,
+          time_block_id: block.id,
+          duration_minutes: durationMinutes,
+          planned_minutes: Math.round((block.endTime.getTime() - block.startTime.getTime()) / 60000),
+          observed_at: completedAt.toISOString(),
+        } as any,
+        { onConflict: 'time_block_id' }
+      );
+
+    if (error && !isMissingTable(error)) {
+      console.warn('[Duration Model] Failed to record step duration sample:', error.message);
+    }
+  } catch (error) {
+    console.warn('[Duration Model] Failed to record step duration sample:', error);
+  }
+}
+
+/**
+ * Remove the sample for a block that was un-completed
+ */
+export async function deleteStepDurationSample(
+  supabase: AnySupabaseClient,
+  blockId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('chain_step_duration_samples')
+    .delete()
+    .eq('time_block_id', blockId);
+
+  if (error && !isMissingTable(error)) {
+    console.warn('[Duration Model] Failed to delete step duration sample:', error.message);
+  }
+}
+
+/**
+ * Load the user's learned step durations for chain generation
+ * Returns an empty model if the table is missing or the query fails.
+ */
+export async function loadLearnedStepDurations(
+  supabase: AnySupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<LearnedStepDurations> {
+  const windowStart = new Date(now.getTime() - DURATION_MODEL_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('chain_step_duration_samples')
+    .select('template_step_id, duration_minutes, observed_at')
+    .eq('user_id', userId)
+    .gte('observed_at', windowStart.toISOString());
+
+  if (error) {
+    if (!isMissingTable(error)) {
+      console.warn('[Duration Model] Failed to load step duration samples, using template estimates:', error.message);
+    }
+    return {};
+  }
+
+  return summarizeStepDurations((data || []) as StepDurationSample[], now);
+}
+
+/**
+ * Swap template estimates for learned P80 durations
+ *
+ * Steps whose duration the user set explicitly (ChainStepOverrides) keep
+ * that value; a deliberate choice beats the model.
+ *
+ * @returns Template with learned durations and the learned entries that were applied
+ */
+export function applyLearnedDurations(
+  template: ChainTemplate,
+  learned: LearnedStepDurations = {},
+  overrides?: ChainStepOverrides
+): { template: ChainTemplate; applied: LearnedStepDurations } {
+  const applied: LearnedStepDurations = {};
+
+  const steps = template.steps.map((step) => {
+    const entry = learned[step.id];
+    if (!entry || typeof overrides?.[step.id]?.duration_estimate === 'number') {
+      return step;
+    }
+    applied[step.id] = entry;
+    return { ...step, duration_estimate: entry.p80 };
+  });
+
+  return {
+    template: Object.keys(applied).length > 0 ? { ...template, steps } : template,
+    applied,
+  };
+}
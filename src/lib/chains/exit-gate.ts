@@ -1,7 +1,18 @@
 // Exit Readiness Gate Service
 // Implements boolean gate that must be satisfied before leaving
 
-import type { ExitGate, GateCondition, ExitGateStatus } from './types';
+import type { AnchorType } from '../anchors/types';
+import type {
+  ExitGate,
+  GateCondition,
+  ExitGateStatus,
+  ExitGateTemplate,
+  ExitGateVariant,
+  ExitGateVariants,
+  GateConditionSource,
+} from './types';
+
+const ANCHOR_TYPES: AnchorType[] = ['class', 'seminar', 'workshop', 'appointment', 'other'];
 
 /**
  * Default gate conditions that must be satisfied before leaving
@@ -10,12 +21,161 @@ export const DEFAULT_GATE_CONDITIONS: GateCondition[] = [
   { id: 'keys', name: 'Keys present', satisfied: false },
   { id: 'phone', name: 'Phone charged >= 20%', satisfied: false },
   { id: 'water', name: 'Water bottle filled', satisfied: false },
-  { id: 'meds', name: 'Meds taken', satisfied: false },
-  { id: 'cat-fed', name: 'Cat fed', satisfied: false },
+  { id: 'meds', name: 'Meds taken', satisfied: false, source: { type: 'medication' } },
+  { id: 'cat-fed', name: 'Cat fed', satisfied: false, source: { type: 'habit', habit_name: 'cat' } },
   { id: 'bag-packed', name: 'Bag packed', satisfied: false },
   { id: 'eyeglasses', name: 'Eyeglasses', satisfied: false },
 ];
 
+function parseGateConditionSource(raw: unknown): GateConditionSource | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const record = raw as Record<string, unknown>;
+  if (record.type === 'medication') {
+    const medicationId = typeof record.medication_id === 'string' && record.medication_id.trim()
+      ? record.medication_id.trim()
+      : undefined;
+    return { type: 'medication', ...(medicationId ? { medication_id: medicationId } : {}) };
+  }
+  if (record.type !== 'habit') return undefined;
+
+  const habitId = typeof record.habit_id === 'string' && record.habit_id.trim() ? record.habit_id.trim() : undefined;
+  const habitName = typeof record.habit_name === 'string' && record.habit_name.trim() ? record.habit_name.trim() : undefined;
+  if (!habitId && !habitName) return undefined;
+
+  return {
+    type: 'habit',
+    ...(habitId ? { habit_id: habitId } : {}),
+    ...(habitName ? { habit_name: habitName } : {}),
+  };
+}
+
+/**
+ * Parse one stored or submitted gate condition
+ * Missing names fall back to the default condition name, then the id.
+ */
+export function parseGateCondition(raw: unknown): GateCondition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const id = typeof record.id === 'string' ? record.id : null;
+  if (!id) return null;
+
+  const fallbackName = DEFAULT_GATE_CONDITIONS.find((condition) => condition.id === id)?.name || id;
+  const source = parseGateConditionSource(record.source);
+
+  return {
+    id,
+    name: typeof record.name === 'string' ? record.name : fallbackName,
+    satisfied: Boolean(record.satisfied),
+    ...(source ? { source } : {}),
+    ...(record.auto_verified === true ? { auto_verified: true } : {}),
+  };
+}
+
+/**
+ * Parse a list of gate conditions, deduplicating by id (last write wins)
+ */
+export function parseGateConditionList(raw: unknown[]): GateCondition[] {
+  const map = new Map<string, GateCondition>();
+  for (const value of raw) {
+    const condition = parseGateCondition(value);
+    if (condition) map.set(condition.id, condition);
+  }
+  return Array.from(map.values());
+}
+
+/**
+ * Parse per-anchor-type gate variants; unknown anchor types are dropped
+ */
+export function parseExitGateVariants(raw: unknown): ExitGateVariants {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const variants: ExitGateVariants = {};
+  for (const [anchorType, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!ANCHOR_TYPES.includes(anchorType as AnchorType)) continue;
+    if (!value || typeof value !== 'object') continue;
+
+    const record = value as Record<string, unknown>;
+    const variant: ExitGateVariant = {
+      add: Array.isArray(record.add) ? parseGateConditionList(record.add) : [],
+      remove: Array.isArray(record.remove)
+        ? record.remove.filter((id): id is string => typeof id === 'string')
+        : [],
+    };
+
+    if (variant.add.length > 0 || variant.remove.length > 0) {
+      variants[anchorType as AnchorType] = variant;
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * Read the exit gate template from user preferences
+ * Falls back to the default checklist when nothing has been saved.
+ */
+export function getExitGateTemplateFromPreferences(preferences: unknown): ExitGateTemplate {
+  const record = (preferences && typeof preferences === 'object')
+    ? (preferences as Record<string, unknown>)
+    : {};
+  const template = (record.exit_gate_template && typeof record.exit_gate_template === 'object')
+    ? (record.exit_gate_template as Record<string, unknown>)
+    : {};
+
+  return {
+    gate_conditions: Array.isArray(template.gate_conditions)
+      ? parseGateConditionList(template.gate_conditions)
+      : DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition })),
+    variants: parseExitGateVariants(template.variants),
+  };
+}
+
+/**
+ * Resolve the checklist for one anchor: base conditions, minus the variant's
+ * removals, plus its additions (an added id replaces a base condition)
+ */
+export function resolveGateConditionsForAnchor(
+  baseConditions: GateCondition[],
+  variants: ExitGateVariants,
+  anchorType: AnchorType
+): GateCondition[] {
+  const variant = variants[anchorType];
+  if (!variant) {
+    return baseConditions.map((condition) => ({ ...condition }));
+  }
+
+  const conditions = new Map<string, GateCondition>();
+  for (const condition of baseConditions) {
+    if (!variant.remove.includes(condition.id)) {
+      conditions.set(condition.id, { ...condition });
+    }
+  }
+  for (const condition of variant.add) {
+    conditions.set(condition.id, { ...condition });
+  }
+
+  return Array.from(conditions.values());
+}
+
+/**
+ * Resolve one checklist for an outing: the exit gate is checked once before
+ * leaving, so it covers what every anchor of the outing needs
+ */
+export function resolveGateConditionsForOuting(
+  baseConditions: GateCondition[],
+  variants: ExitGateVariants,
+  anchorTypes: AnchorType[]
+): GateCondition[] {
+  const conditions = new Map<string, GateCondition>();
+  for (const anchorType of anchorTypes) {
+    for (const condition of resolveGateConditionsForAnchor(baseConditions, variants, anchorType)) {
+      if (!conditions.has(condition.id)) conditions.set(condition.id, condition);
+    }
+  }
+
+  return Array.from(conditions.values());
+}
+
 /**
  * Exit Gate Service
  * 
@@ -84,9 +244,34 @@ export class ExitGateService {
     }
 
     condition.satisfied = satisfied;
+    delete condition.auto_verified;
     this.conditions.set(conditionId, condition);
   }
 
+  /**
+   * Mark conditions satisfied from their data sources
+   *
+   * Only conditions that are currently unsatisfied are touched, so a manual
+   * tick is never reported as auto-verified.
+   *
+   * @param conditionIds - IDs of conditions whose source has been verified
+   * @returns IDs of conditions that changed
+   */
+  applyVerifiedConditions(conditionIds: string[]): string[] {
+    const changed: string[] = [];
+
+    for (const conditionId of conditionIds) {
+      const condition = this.conditions.get(conditionId);
+      if (!condition || condition.satisfied) continue;
+
+      condition.satisfied = true;
+      condition.auto_verified = true;
+      changed.push(conditionId);
+    }
+
+    return changed;
+  }
+
   /**
    * Get current state of a specific condition
    * 
@@ -114,6 +299,7 @@ export class ExitGateService {
   resetAllConditions(): void {
     this.conditions.forEach(condition => {
       condition.satisfied = false;
+      delete condition.auto_verified;
     });
   }
 
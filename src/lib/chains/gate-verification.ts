@@ -0,0 +1,179 @@
+// Chain-Based Execution Engine (V2) - Exit Gate Auto-Verification
+//
+// Satisfies gate conditions from data the user already logs, e.g. "Meds taken"
+// from today's medication dose log (or a MEDS habit entry before a schedule is
+// set up). Verification only ever ticks conditions; a missing entry leaves the
+// manual state alone.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DailyPlan } from '../../types/daily-plan';
+import type { GateCondition, GateConditionSource } from './types';
+import { ExitGateService, parseGateConditionList } from './exit-gate';
+import { entryValueOutcome } from '../habits/frequency';
+import { clockTime, outstandingDosesBy, type ScheduledDose } from '../health/medication-schedule';
+import { medicationService } from '../health/medication-service';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+export interface GateVerificationHabit {
+  id: string;
+  name: string;
+}
+
+export interface GateVerificationEntry {
+  habit_id: string;
+  value: number | null;
+  date: string | null;
+  logged_at: string | null;
+}
+
+export interface GateVerificationMedication {
+  /** The plan date's doses; empty when the user has no active medications */
+  schedule: ScheduledDose[];
+  departureTime: string; // HH:MM
+}
+
+/** What a medication source checks until the user sets up a schedule */
+const MEDICATION_HABIT_FALLBACK: GateConditionSource = { type: 'habit', habit_name: 'meds' };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a habit entry ticks a gate condition. Only a completed entry does:
+ * a skip (2) means it wasn't done, and a partial (3) isn't ready to leave
+ * either. An entry logged without a value counts as completed.
+ */
+export function entryTicksGate(value: number | null): boolean {
+  return value !== 3 && entryValueOutcome(value ?? 1) === 'done';
+}
+
+/**
+ * Whether a habit is the one a gate condition source points at
+ */
+export function habitMatchesSource(habit: GateVerificationHabit, source: GateConditionSource): boolean {
+  if (source.type !== 'habit') return false;
+  if (source.habit_id) {
+    return habit.id === source.habit_id;
+  }
+  if (!source.habit_name) return false;
+
+  return new RegExp(`\\b${escapeRegExp(source.habit_name)}\\b`, 'i').test(habit.name);
+}
+
+/**
+ * Whether every dose scheduled before leaving has been taken or skipped. A
+ * dose missed earlier in the day isn't dealt with, so it keeps the gate open.
+ */
+export function medicationSourceSatisfied(
+  source: Extract<GateConditionSource, { type: 'medication' }>,
+  medication: GateVerificationMedication
+): boolean {
+  const doses = source.medication_id
+    ? medication.schedule.filter((dose) => dose.medication_id === source.medication_id)
+    : medication.schedule;
+  const missed = doses.some((dose) => dose.status === 'missed' && dose.slot_time <= medication.departureTime);
+  return !missed && outstandingDosesBy(doses, medication.departureTime).length === 0;
+}
+
+/**
+ * IDs of conditions whose source habit has a completed entry on the given
+ * date, or whose scheduled doses are all dealt with before leaving
+ */
+export function findVerifiedConditionIds(
+  conditions: GateCondition[],
+  habits: GateVerificationHabit[],
+  entries: GateVerificationEntry[],
+  date: string,
+  medication?: GateVerificationMedication
+): string[] {
+  const loggedHabitIds = new Set(
+    entries
+      .filter((entry) => (entry.date || entry.logged_at?.slice(0, 10)) === date)
+      .filter((entry) => entryTicksGate(entry.value))
+      .map((entry) => entry.habit_id)
+  );
+
+  return conditions
+    .filter((condition) => {
+      let source = condition.source;
+      if (!source) return false;
+      if (source.type === 'medication') {
+        if (medication && medication.schedule.length > 0) return medicationSourceSatisfied(source, medication);
+        source = MEDICATION_HABIT_FALLBACK;
+      }
+      return habits.some((habit) => loggedHabitIds.has(habit.id) && habitMatchesSource(habit, source!));
+    })
+    .map((condition) => condition.id);
+}
+
+/**
+ * Apply habit-based verification to every exit gate block in a plan
+ *
+ * Runs on read so conditions pick up entries logged after the plan was
+ * generated. The plan is updated in place; nothing is written back.
+ */
+export async function verifyPlanGateConditions(
+  supabase: AnySupabaseClient,
+  userId: string,
+  plan: DailyPlan
+): Promise<void> {
+  const gateBlocks = (plan.timeBlocks || []).filter((block) => {
+    const role = (block.metadata as Record<string, any> | undefined)?.role;
+    return role?.type === 'exit-gate' && Array.isArray(role.gate_conditions);
+  });
+
+  const pendingSources = gateBlocks.flatMap((block) => (
+    parseGateConditionList((block.metadata as Record<string, any>).role.gate_conditions)
+      .filter((condition) => condition.source && !condition.satisfied)
+      .map((condition) => condition.source!)
+  ));
+  if (pendingSources.length === 0) return;
+
+  const date = plan.planDate.toISOString().split('T')[0];
+
+  const [{ data: habits, error: habitsError }, { data: entries, error: entriesError }] = await Promise.all([
+    supabase.from('habits').select('id, name').eq('user_id', userId),
+    supabase
+      .from('habit_entries')
+      .select('habit_id, value, date, logged_at')
+      .eq('user_id', userId)
+      .eq('date', date),
+  ]);
+
+  if (habitsError || entriesError) {
+    console.warn('[Exit Gate] Failed to load habit data for gate verification:', (habitsError || entriesError)?.message);
+    return;
+  }
+
+  let schedule: ScheduledDose[] = [];
+  let timeZone: string | undefined;
+  if (pendingSources.some((source) => source.type === 'medication')) {
+    try {
+      ({ doses: schedule, timeZone } = await medicationService.getDaySchedule(supabase, userId, date));
+    } catch (error) {
+      console.warn('[Exit Gate] Failed to load medication schedule for gate verification:', (error as Error).message);
+      return;
+    }
+  }
+
+  for (const block of gateBlocks) {
+    const metadata = block.metadata as Record<string, any>;
+    const service = new ExitGateService(parseGateConditionList(metadata.role.gate_conditions));
+    const verifiedIds = findVerifiedConditionIds(
+      service.getAllConditions(),
+      (habits || []) as GateVerificationHabit[],
+      (entries || []) as GateVerificationEntry[],
+      date,
+      { schedule, departureTime: clockTime(new Date(block.endTime), timeZone) }
+    );
+
+    if (service.applyVerifiedConditions(verifiedIds).length > 0) {
+      metadata.role = {
+        ...metadata.role,
+        gate_conditions: service.getAllConditions(),
+      };
+    }
+  }
+}
@@ -18,7 +18,7 @@ export type { LocationPeriod, HomeInterval, LocationState };
  * 
  * Algorithm:
  * 1. Start with location_state = at_home at planStart
- * 2. For each chain:
+ * 2. For each chain (or multi-anchor outing, taken as one trip):
  *    - When travel_there starts: location_state = not_home
  *    - When travel_back ends + recovery completes: location_state = at_home
  * 3. Calculate home intervals:
@@ -67,31 +67,26 @@ export class LocationStateTracker {
       return periods;
     }
 
-    // Sort chains by start time (travel_there start)
-    const sortedChains = [...chains].sort((a, b) => {
-      const aStart = a.commitment_envelope.travel_there.start_time;
-      const bStart = b.commitment_envelope.travel_there.start_time;
-      return aStart.getTime() - bStart.getTime();
-    });
+    // Online chains never leave home, so only chains with travel count.
+    // An outing's chains are one trip: out with the first, back with the last.
+    const trips = this.collectTrips(chains);
 
     let currentTime = planStart;
     let currentState: LocationState = 'at_home';
 
-    for (const chain of sortedChains) {
-      const { travel_there, recovery } = chain.commitment_envelope;
-      
-      console.log('[Location State] Processing chain:', {
-        chainId: chain.chain_id,
-        anchorTitle: chain.anchor.title,
-        travelStart: travel_there.start_time.toLocaleString(),
-        recoveryEnd: recovery.end_time.toLocaleString(),
+    for (const trip of trips) {
+      console.log('[Location State] Processing trip:', {
+        chainIds: trip.chainIds,
+        anchorTitles: trip.anchorTitles,
+        travelStart: trip.start.toLocaleString(),
+        recoveryEnd: trip.end.toLocaleString(),
       });
 
-      // Add at_home period before this chain (if any time exists)
-      if (currentState === 'at_home' && currentTime < travel_there.start_time) {
+      // Add at_home period before this trip (if any time exists)
+      if (currentState === 'at_home' && currentTime < trip.start) {
         const atHomePeriod = {
           start: currentTime,
-          end: travel_there.start_time,
+          end: trip.start,
           state: 'at_home' as const
         };
         periods.push(atHomePeriod);
@@ -104,8 +99,8 @@ export class LocationStateTracker {
 
       // Transition to not_home when travel starts
       const notHomePeriod = {
-        start: travel_there.start_time,
-        end: recovery.end_time,
+        start: trip.start,
+        end: trip.end,
         state: 'not_home' as const
       };
       periods.push(notHomePeriod);
@@ -116,7 +111,7 @@ export class LocationStateTracker {
       });
 
       // Update current time and state
-      currentTime = recovery.end_time;
+      currentTime = trip.end;
       currentState = 'at_home';
     }
 
@@ -144,6 +139,42 @@ export class LocationStateTracker {
     return periods;
   }
 
+  /**
+   * Trips away from home, earliest first
+   * 
+   * A chain with travel is a trip from travel_there start to recovery end;
+   * the chains of one outing are merged into a single trip.
+   */
+  private collectTrips(chains: ExecutionChain[]): Array<{
+    start: Date;
+    end: Date;
+    chainIds: string[];
+    anchorTitles: string[];
+  }> {
+    const trips = new Map<string, { start: Date; end: Date; chainIds: string[]; anchorTitles: string[] }>();
+
+    for (const chain of chains) {
+      const outingId = chain.metadata?.outing?.outing_id;
+      const { travel_there, recovery } = chain.commitment_envelope;
+      if (!travel_there && !outingId) continue;
+
+      const key = outingId || chain.chain_id;
+      const start = travel_there?.start_time ?? chain.anchor.start;
+      const trip = trips.get(key);
+      if (!trip) {
+        trips.set(key, { start, end: recovery.end_time, chainIds: [chain.chain_id], anchorTitles: [chain.anchor.title] });
+        continue;
+      }
+
+      if (start < trip.start) trip.start = start;
+      if (recovery.end_time > trip.end) trip.end = recovery.end_time;
+      trip.chainIds.push(chain.chain_id);
+      trip.anchorTitles.push(chain.anchor.title);
+    }
+
+    return [...trips.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
   /**
    * Calculate home intervals from location periods
    * 
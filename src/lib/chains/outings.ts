@@ -0,0 +1,219 @@
+// Chain-Based Execution Engine (V2) - Multi-anchor outings
+//
+// Every anchor gets its own commitment envelope, so two lectures two hours
+// apart would plan a commute home and back in between. When the gap between
+// anchors is shorter than that round trip plus MIN_HOME_STAY_MINUTES, they
+// are planned as one outing instead: one travel out, on-site gap blocks
+// (a meal, study) between anchors, one travel back, and a single exit gate.
+
+import type { ChainStepInstance, ExecutionChain, OutingInfo } from './types';
+
+/** Time worth being home for between two anchors, on top of the round trip */
+export const MIN_HOME_STAY_MINUTES = 60;
+
+const GAP_MEAL_MINUTES = 30;
+const MIN_GAP_BLOCK_MINUTES = 15;
+
+// Meals worth eating on site when a gap falls inside these (local time)
+const GAP_MEAL_WINDOWS = [
+  { name: 'Lunch', start: '11:30', end: '14:30' },
+  { name: 'Dinner', start: '17:00', end: '20:00' },
+];
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / 60000);
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+/**
+ * Whether the gap between two in-person anchors is too short to go home
+ * Overlapping anchors are a clash, not an outing, and keep their own chains.
+ */
+export function shouldJoinOuting(
+  previous: ExecutionChain,
+  next: ExecutionChain,
+  minHomeStayMinutes: number = MIN_HOME_STAY_MINUTES
+): boolean {
+  const travelBack = previous.commitment_envelope.travel_back;
+  const travelThere = next.commitment_envelope.travel_there;
+  if (!travelBack || !travelThere) return false;
+
+  const gap = minutesBetween(previous.anchor.end, next.anchor.start);
+  return gap >= 0 && gap < travelBack.duration + travelThere.duration + minHomeStayMinutes;
+}
+
+/**
+ * Group in-person chains into outings, in anchor order
+ * Online chains are never part of an outing.
+ */
+export function groupOutings(
+  chains: ExecutionChain[],
+  minHomeStayMinutes: number = MIN_HOME_STAY_MINUTES
+): ExecutionChain[][] {
+  const inPerson = chains
+    .filter((chain) => chain.commitment_envelope.travel_there && chain.commitment_envelope.travel_back)
+    .sort((a, b) => a.anchor.start.getTime() - b.anchor.start.getTime());
+
+  const groups: ExecutionChain[][] = [];
+  for (const chain of inPerson) {
+    const current = groups[groups.length - 1];
+    if (current && shouldJoinOuting(current[current.length - 1], chain, minHomeStayMinutes)) {
+      current.push(chain);
+    } else {
+      groups.push([chain]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Blocks filling the time on site before the next anchor: a meal if the
+ * gap covers a mealtime, then study time, or just getting to the room
+ */
+export function buildGapSteps(
+  chainId: string,
+  start: Date,
+  end: Date,
+  nextAnchorTitle: string
+): ChainStepInstance[] {
+  const steps: ChainStepInstance[] = [];
+  const push = (kind: string, name: string, from: Date, to: Date) => {
+    steps.push({
+      step_id: `${chainId}-outing-${kind}`,
+      chain_id: chainId,
+      name,
+      start_time: from,
+      end_time: to,
+      duration: Math.max(0, minutesBetween(from, to)),
+      is_required: false,
+      can_skip_when_late: true,
+      status: 'pending',
+      role: 'chain-step',
+      metadata: {
+        template_step_id: `outing-${kind}`,
+        outing_gap: true,
+      },
+    });
+  };
+
+  let cursor = start;
+  const meal = GAP_MEAL_WINDOWS
+    .map((window) => ({
+      name: window.name,
+      start: new Date(Math.max(start.getTime(), atTime(start, window.start).getTime())),
+      windowEnd: atTime(start, window.end),
+    }))
+    .find((candidate) => {
+      const mealEnd = addMinutes(candidate.start, GAP_MEAL_MINUTES);
+      return mealEnd <= end && mealEnd <= candidate.windowEnd;
+    });
+
+  if (meal) {
+    // A short wait before the mealtime isn't worth its own block
+    const mealStart = minutesBetween(start, meal.start) >= MIN_GAP_BLOCK_MINUTES ? meal.start : start;
+    if (mealStart > start) push('study-before-meal', 'Study on site', start, mealStart);
+    cursor = addMinutes(mealStart, GAP_MEAL_MINUTES);
+    push('meal', `${meal.name} on site`, mealStart, cursor);
+  }
+
+  if (minutesBetween(cursor, end) >= MIN_GAP_BLOCK_MINUTES) {
+    push('study', 'Study on site', cursor, end);
+  } else if (steps.length === 0 || cursor < end) {
+    push('transfer', `Head to ${nextAnchorTitle}`, cursor, end);
+  }
+
+  return steps;
+}
+
+function withOuting(step: ChainStepInstance, outing: OutingInfo): ChainStepInstance {
+  return { ...step, metadata: { ...(step.metadata || {}), outing } };
+}
+
+/**
+ * Reshape one group of chains into an outing
+ *
+ * The first chain keeps its home prep, exit gate and travel out; the last
+ * keeps its travel back. In between, each anchor's recovery happens on site
+ * and the next chain's steps become gap blocks up to its anchor.
+ */
+function mergeOuting(group: ExecutionChain[]): ExecutionChain[] {
+  const outingId = `outing-${group[0].chain_id}`;
+  const size = group.length;
+  const anchorTypes = [...new Set(group.map((chain) => chain.anchor.type))];
+
+  let previousEnd: Date | null = null;
+  return group.map((chain, index) => {
+    const outing: OutingInfo = { outing_id: outingId, index, size, anchor_types: anchorTypes };
+    const envelope = { ...chain.commitment_envelope };
+    const isFirst = index === 0;
+    const isLast = index === size - 1;
+    let steps = chain.steps;
+    let deadline = chain.chain_completion_deadline;
+
+    if (!isFirst) {
+      const gapStart = previousEnd!;
+      steps = buildGapSteps(chain.chain_id, gapStart, chain.anchor.start, chain.anchor.title);
+      deadline = chain.anchor.start;
+      envelope.travel_there = undefined;
+      envelope.prep = {
+        ...envelope.prep,
+        name: `On site before ${chain.anchor.title}`,
+        start_time: gapStart,
+        end_time: chain.anchor.start,
+        duration: Math.max(0, minutesBetween(gapStart, chain.anchor.start)),
+      };
+    }
+
+    if (!isLast) {
+      const nextStart = group[index + 1].anchor.start;
+      const recoveryEnd = new Date(Math.min(
+        addMinutes(chain.anchor.end, envelope.recovery.duration).getTime(),
+        Math.max(nextStart.getTime(), chain.anchor.end.getTime())
+      ));
+      envelope.travel_back = undefined;
+      envelope.recovery = {
+        ...envelope.recovery,
+        start_time: chain.anchor.end,
+        end_time: recoveryEnd,
+        duration: minutesBetween(chain.anchor.end, recoveryEnd),
+      };
+    }
+    previousEnd = envelope.recovery.end_time;
+
+    return {
+      ...chain,
+      chain_completion_deadline: deadline,
+      steps: steps.map((step) => withOuting(step, outing)),
+      commitment_envelope: envelope,
+      metadata: { ...(chain.metadata || {}), outing },
+    };
+  });
+}
+
+/**
+ * Plan anchors too close together to go home between as outings
+ *
+ * @returns The same chains, with outing members reshaped, in their original order
+ */
+export function planOutings(
+  chains: ExecutionChain[],
+  minHomeStayMinutes: number = MIN_HOME_STAY_MINUTES
+): ExecutionChain[] {
+  const merged = new Map<string, ExecutionChain>();
+  for (const group of groupOutings(chains, minHomeStayMinutes)) {
+    if (group.length < 2) continue;
+    for (const chain of mergeOuting(group)) merged.set(chain.chain_id, chain);
+  }
+
+  return chains.map((chain) => merged.get(chain.chain_id) ?? chain);
+}
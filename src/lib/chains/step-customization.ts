@@ -12,6 +12,7 @@ export type ChainCustomStep = {
   duration_estimate: number;
   is_required?: boolean;
   can_skip_when_late?: boolean;
+  degrade_priority?: number;
   insert_after_id?: string;
 };
 
@@ -61,6 +62,7 @@ export function applyChainStepOverrides(
       duration_estimate: normalizeStepDuration(customStep.duration_estimate, 1),
       is_required: customStep.is_required ?? true,
       can_skip_when_late: customStep.can_skip_when_late ?? false,
+      degrade_priority: customStep.degrade_priority,
     };
 
     const insertAfterId = customStep.insert_after_id;
@@ -58,7 +58,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Shower',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 20
       },
       {
         id: 'dress',
@@ -126,7 +127,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Shower',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 20
       },
       {
         id: 'dress',
@@ -140,7 +142,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Review seminar materials',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 10
       },
       {
         id: 'pack-bag',
@@ -201,7 +204,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Shower',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 20
       },
       {
         id: 'dress',
@@ -215,7 +219,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Review workshop materials',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 10
       },
       {
         id: 'pack-bag',
@@ -330,7 +335,8 @@ export const CHAIN_TEMPLATES: Record<AnchorType, ChainTemplate> = {
         name: 'Shower',
         duration_estimate: 15,
         is_required: false,
-        can_skip_when_late: true
+        can_skip_when_late: true,
+        degrade_priority: 20
       },
       {
         id: 'dress',
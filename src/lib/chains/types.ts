@@ -12,6 +12,7 @@ export interface ChainStep {
   duration_estimate: number; // minutes
   is_required: boolean;
   can_skip_when_late: boolean;
+  degrade_priority?: number; // shedding order for optional steps when late (lower drops first)
   gate_tags?: string[]; // for Exit Gate steps
 }
 
@@ -23,6 +24,28 @@ export interface ChainTemplate {
   steps: ChainStep[];
 }
 
+/**
+ * Chain Template Binding - When a user-defined template applies
+ * Precedence when several match: anchor > title_pattern > anchor_type
+ */
+export type ChainTemplateBinding =
+  | { type: 'anchor_type'; anchor_type: AnchorType }
+  | { type: 'title_pattern'; pattern: string } // case-insensitive substring, or /regex/
+  | { type: 'anchor'; anchor_id: string }; // calendar event id, or series-<id> for a recurring anchor
+
+/**
+ * User Chain Template - Named, user-saved chain template
+ * Stored in user_preferences.preferences.chain_templates
+ */
+export interface UserChainTemplate {
+  id: string;
+  name: string;
+  steps: ChainStep[];
+  bindings: ChainTemplateBinding[];
+  cloned_from?: string; // built-in anchor type or another user template id
+  updated_at?: string;
+}
+
 /**
  * Chain Step Instance - Actual scheduled chain step with times
  */
@@ -35,16 +58,43 @@ export interface ChainStepInstance {
   duration: number; // minutes
   is_required: boolean;
   can_skip_when_late: boolean;
+  degrade_priority?: number;
   status: ChainStepStatus;
   role: ChainStepRole;
   skip_reason?: string;
   metadata?: {
     fallback_used?: boolean;
     fallback_reason?: string;
+    degradation?: DegradationEvent;
     [key: string]: any;
   };
 }
 
+/**
+ * Learned Step Duration - Observed timing for one template step
+ * median feeds "usually takes N min"; p80 is what the generator schedules with
+ */
+export interface LearnedStepDuration {
+  median: number;
+  p80: number;
+  sample_count: number;
+}
+
+export type LearnedStepDurations = Record<string, LearnedStepDuration>; // keyed by template step id
+
+/**
+ * Degradation Event - One tier of the degradation ladder
+ */
+export interface DegradationEvent {
+  tier: number;
+  step_id: string;
+  step_name: string;
+  minutes_late: number;
+  minutes_saved: number;
+  reason: string;
+  triggered_at: string;
+}
+
 /**
  * Execution Chain - Complete chain from prep to recovery
  */
@@ -60,22 +110,70 @@ export interface ExecutionChain {
     template_fallback?: boolean;
     original_anchor_type?: string;
     fallback_template?: string;
+    user_template_id?: string;
+    user_template_name?: string;
+    user_template_binding?: ChainTemplateBinding['type'];
+    degradation_events?: DegradationEvent[];
+    outing?: OutingInfo;
     [key: string]: any;
   };
 }
 
+/**
+ * Outing - Consecutive away-from-home anchors planned as one trip out
+ * Set on every member chain. Only the first chain has home prep, an exit gate
+ * and travel out; later chains fill the gap before their anchor on site, and
+ * only the last travels back.
+ */
+export interface OutingInfo {
+  outing_id: string;
+  index: number; // this chain's position in the outing, from 0
+  size: number;
+  anchor_types: AnchorType[];
+}
+
 /**
  * Commitment Envelope - Full cycle for anchor
+ * Online anchors have no travel_there/travel_back: the user never leaves home.
  */
 export interface CommitmentEnvelope {
   envelope_id: string;
   prep: ChainStepInstance;
-  travel_there: ChainStepInstance;
+  travel_there?: ChainStepInstance;
   anchor: ChainStepInstance;
-  travel_back: ChainStepInstance;
+  travel_back?: ChainStepInstance;
   recovery: ChainStepInstance;
 }
 
+/**
+ * Chain Integrity Record - Final state of one chain, kept per day
+ * Stored in chain_integrity_history; one row per chain_id.
+ */
+export interface ChainIntegrityRecord {
+  chain_id: string;
+  plan_id: string;
+  plan_date: string; // YYYY-MM-DD
+  anchor_id: string;
+  anchor_title: string;
+  anchor_type: AnchorType;
+  status: Extract<ChainStatus, 'completed' | 'failed'>;
+  chain_integrity: 'intact' | 'broken';
+  was_late: boolean;
+  late_minutes: number | null; // exit gate completion vs planned leave time
+  steps_total: number;
+  steps_completed: number;
+  missed_steps: MissedChainStep[];
+  degradation_events: DegradationEvent[];
+  evaluated_at: string;
+}
+
+export interface MissedChainStep {
+  template_step_id: string | null;
+  name: string;
+  required: boolean;
+  skipped: boolean;
+}
+
 /**
  * Exit Readiness Gate - Boolean checklist before leaving
  */
@@ -92,6 +190,45 @@ export interface GateCondition {
   id: string;
   name: string;
   satisfied: boolean;
+  source?: GateConditionSource;
+  auto_verified?: boolean; // satisfied from source data rather than a manual tick
+}
+
+/**
+ * Gate Condition Source - Data that can satisfy a condition automatically
+ * habit: satisfied by a habit entry logged on the plan date; the habit is
+ * matched by id, or by name as a whole word, case-insensitive ("meds" matches "MEDS")
+ * medication: satisfied once every dose scheduled before leaving has been
+ * taken or skipped (one medication when medication_id is set). Until a
+ * medication schedule exists it falls back to a "meds" habit entry.
+ */
+export type GateConditionSource =
+  | {
+      type: 'habit';
+      habit_id?: string;
+      habit_name?: string;
+    }
+  | {
+      type: 'medication';
+      medication_id?: string;
+    };
+
+/**
+ * Exit Gate Variant - Per-anchor-type changes to the base checklist
+ */
+export interface ExitGateVariant {
+  add: GateCondition[];
+  remove: string[]; // condition ids
+}
+
+export type ExitGateVariants = Partial<Record<AnchorType, ExitGateVariant>>;
+
+/**
+ * Exit Gate Template - Stored in user preferences as exit_gate_template
+ */
+export interface ExitGateTemplate {
+  gate_conditions: GateCondition[];
+  variants: ExitGateVariants;
 }
 
 /**
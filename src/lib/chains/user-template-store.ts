@@ -0,0 +1,58 @@
+// Chain-Based Execution Engine (V2) - User Chain Template persistence
+// Templates live in user_preferences.preferences.chain_templates, next to
+// chain_step_overrides and chain_custom_steps.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserChainTemplate } from './types';
+import { normalizeUserChainTemplates } from './user-templates';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+async function loadPreferences(
+  supabase: AnySupabaseClient,
+  userId: string
+): Promise<Record<string, unknown>> {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.preferences && typeof data.preferences === 'object'
+    ? (data.preferences as Record<string, unknown>)
+    : {};
+}
+
+export async function getUserChainTemplates(
+  supabase: AnySupabaseClient,
+  userId: string
+): Promise<UserChainTemplate[]> {
+  const preferences = await loadPreferences(supabase, userId);
+  return normalizeUserChainTemplates(preferences.chain_templates);
+}
+
+export async function saveUserChainTemplates(
+  supabase: AnySupabaseClient,
+  userId: string,
+  templates: UserChainTemplate[]
+): Promise<void> {
+  const preferences = await loadPreferences(supabase, userId);
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(
+      {
+        user_id: userId,
+        preferences: {
+          ...preferences,
+          chain_templates: templates,
+        } as any,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,274 @@
+// Chain-Based Execution Engine (V2) - User-defined Chain Templates
+
+import type { Anchor } from '../anchors/types';
+import type {
+  AnchorType,
+  ChainStep,
+  ChainTemplate,
+  ChainTemplateBinding,
+  UserChainTemplate,
+} from './types';
+import { CHAIN_TEMPLATES } from './templates';
+import { normalizeStepDuration } from './step-customization';
+import { MAX_RULE_PATTERN_LENGTH, isUnsafeRegexPattern } from '../habits/note-parse-rules';
+
+const ANCHOR_TYPES: AnchorType[] = ['class', 'seminar', 'workshop', 'appointment', 'other'];
+const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+// Lower rank wins when several bindings match the same anchor
+const BINDING_RANK: Record<ChainTemplateBinding['type'], number> = {
+  anchor: 0,
+  title_pattern: 1,
+  anchor_type: 2,
+};
+
+export type UserChainTemplateResult =
+  | { ok: true; template: UserChainTemplate }
+  | { ok: false; error: string };
+
+export type UserChainTemplateMatch = {
+  template: UserChainTemplate;
+  binding: ChainTemplateBinding;
+};
+
+export function isBuiltInTemplateId(value: unknown): value is AnchorType {
+  return typeof value === 'string' && ANCHOR_TYPES.includes(value as AnchorType);
+}
+
+function slugifyStepId(name: string, index: number): string {
+  const base = name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-');
+  return base || `step-${index + 1}`;
+}
+
+function parseStep(raw: unknown, index: number): ChainStep | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+  const name = typeof record.name === 'string' ? record.name.trim() : '';
+  if (!name) return null;
+
+  const isRequired = record.is_required !== false;
+  const step: ChainStep = {
+    id: typeof record.id === 'string' && record.id.trim() ? record.id.trim() : slugifyStepId(name, index),
+    name,
+    duration_estimate: normalizeStepDuration(
+      typeof record.duration_estimate === 'number' ? record.duration_estimate : NaN,
+      5
+    ),
+    is_required: isRequired,
+    can_skip_when_late: record.can_skip_when_late === true || (!isRequired && record.can_skip_when_late !== false),
+  };
+
+  if (typeof record.degrade_priority === 'number' && Number.isFinite(record.degrade_priority)) {
+    step.degrade_priority = record.degrade_priority;
+  }
+  if (Array.isArray(record.gate_tags)) {
+    step.gate_tags = record.gate_tags.filter((tag): tag is string => typeof tag === 'string');
+  }
+
+  return step;
+}
+
+function parseBinding(raw: unknown): ChainTemplateBinding | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+
+  if (record.type === 'anchor_type' && isBuiltInTemplateId(record.anchor_type)) {
+    return { type: 'anchor_type', anchor_type: record.anchor_type };
+  }
+  if (record.type === 'title_pattern' && typeof record.pattern === 'string' && record.pattern.trim()) {
+    return { type: 'title_pattern', pattern: record.pattern.trim() };
+  }
+  if (record.type === 'anchor' && typeof record.anchor_id === 'string' && record.anchor_id.trim()) {
+    return { type: 'anchor', anchor_id: record.anchor_id.trim() };
+  }
+  return null;
+}
+
+/**
+ * Make sure every user template still ends at the exit gate
+ *
+ * The Exit Readiness Check and "Leave house" steps drive the exit-gate flow in
+ * Chain View, so they are re-appended from the default template if a user
+ * template leaves them out.
+ */
+function ensureExitSteps(steps: ChainStep[]): ChainStep[] {
+  const result = [...steps];
+  const defaults = CHAIN_TEMPLATES.other.steps;
+
+  for (const requiredId of ['exit-gate', 'leave']) {
+    if (!result.some(step => step.id === requiredId)) {
+      const fallback = defaults.find(step => step.id === requiredId);
+      if (fallback) result.push({ ...fallback });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a user chain template from a request body or stored preferences
+ *
+ * @param raw - Unvalidated template object
+ * @param fallbackId - Id to use when the object has none (new templates)
+ */
+export function parseUserChainTemplate(raw: unknown, fallbackId?: string): UserChainTemplateResult {
+  if (!raw || typeof raw !== 'object') {
+    return { ok: false, error: 'Template must be an object' };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const id = typeof record.id === 'string' && record.id ? record.id : fallbackId;
+  if (!id) {
+    return { ok: false, error: 'Template id is required' };
+  }
+
+  const name = typeof record.name === 'string' ? record.name.trim().slice(0, MAX_TEMPLATE_NAME_LENGTH) : '';
+  if (!name) {
+    return { ok: false, error: 'Template name is required' };
+  }
+
+  if (!Array.isArray(record.steps)) {
+    return { ok: false, error: 'Template steps must be an array' };
+  }
+
+  const parsedSteps = record.steps
+    .map((step, index) => parseStep(step, index))
+    .filter((step): step is ChainStep => step !== null);
+
+  const seenIds = new Set<string>();
+  for (const step of parsedSteps) {
+    if (seenIds.has(step.id)) {
+      return { ok: false, error: `Duplicate step id "${step.id}"` };
+    }
+    seenIds.add(step.id);
+  }
+
+  const bindings = Array.isArray(record.bindings)
+    ? record.bindings
+        .map(parseBinding)
+        .filter((binding): binding is ChainTemplateBinding => binding !== null)
+    : [];
+
+  const template: UserChainTemplate = {
+    id,
+    name,
+    steps: ensureExitSteps(parsedSteps),
+    bindings,
+  };
+
+  if (typeof record.cloned_from === 'string') template.cloned_from = record.cloned_from;
+  if (typeof record.updated_at === 'string') template.updated_at = record.updated_at;
+
+  return { ok: true, template };
+}
+
+/**
+ * Read saved templates from user preferences, dropping anything invalid
+ */
+export function normalizeUserChainTemplates(raw: unknown): UserChainTemplate[] {
+  if (!Array.isArray(raw)) return [];
+
+  const templates: UserChainTemplate[] = [];
+  for (const item of raw) {
+    const result = parseUserChainTemplate(item);
+    if (result.ok && !templates.some(existing => existing.id === result.template.id)) {
+      templates.push(result.template);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Clone a built-in template (by anchor type) or a saved user template
+ * The clone starts without bindings so it never silently takes over.
+ */
+export function cloneChainTemplate(
+  source: AnchorType | UserChainTemplate,
+  id: string,
+  name: string
+): UserChainTemplate {
+  const steps = typeof source === 'string' ? CHAIN_TEMPLATES[source].steps : source.steps;
+
+  return {
+    id,
+    name,
+    steps: steps.map(step => ({
+      ...step,
+      gate_tags: step.gate_tags ? [...step.gate_tags] : undefined,
+    })),
+    bindings: [],
+    cloned_from: typeof source === 'string' ? source : source.id,
+  };
+}
+
+/**
+ * "/regex/flags" patterns match as a case-insensitive regex, anything else as
+ * a substring. A regex that could backtrack catastrophically (the same check
+ * note parse rules use) matches nothing.
+ */
+function matchesTitlePattern(title: string, pattern: string): boolean {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/i.exec(pattern);
+  if (regexMatch) {
+    if (regexMatch[1].length > MAX_RULE_PATTERN_LENGTH || isUnsafeRegexPattern(regexMatch[1])) return false;
+    try {
+      const flags = regexMatch[2].includes('i') ? regexMatch[2] : `${regexMatch[2]}i`;
+      return new RegExp(regexMatch[1], flags).test(title);
+    } catch {
+      return false;
+    }
+  }
+  return title.toLowerCase().includes(pattern.toLowerCase());
+}
+
+function bindingMatches(binding: ChainTemplateBinding, anchor: Anchor): boolean {
+  switch (binding.type) {
+    case 'anchor':
+      return anchor.id === binding.anchor_id ||
+        anchor.calendar_event_id === binding.anchor_id ||
+        // Recurring manual anchors: series-<id> covers every occurrence id series-<id>-<date>
+        anchor.id.startsWith(`${binding.anchor_id}-`);
+    case 'title_pattern':
+      return matchesTitlePattern(anchor.title, binding.pattern);
+    case 'anchor_type':
+      return anchor.type === binding.anchor_type;
+  }
+}
+
+/**
+ * Pick the user template bound most specifically to an anchor
+ *
+ * @returns Best match, or null to fall back to the built-in template.
+ *          Ties go to the template saved first.
+ */
+export function matchUserChainTemplate(
+  anchor: Anchor,
+  templates: UserChainTemplate[]
+): UserChainTemplateMatch | null {
+  let best: UserChainTemplateMatch | null = null;
+
+  for (const template of templates) {
+    for (const binding of template.bindings) {
+      if (!bindingMatches(binding, anchor)) continue;
+      if (!best || BINDING_RANK[binding.type] < BINDING_RANK[best.binding.type]) {
+        best = { template, binding };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Convert a user template to the ChainTemplate shape the generator consumes
+ */
+export function toChainTemplate(template: UserChainTemplate, anchorType: AnchorType): ChainTemplate {
+  return {
+    anchor_type: anchorType,
+    steps: template.steps,
+  };
+}
@@ -12,6 +12,8 @@ import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../../types/supabase';
 import { SemanticType } from '../habits/taxonomy';
 import type { ParsedNoteData } from '../habits/note-parser';
+import { buildDaySchedule, countMissed } from '../health/medication-schedule';
+import { medicationService } from '../health/medication-service';
 
 type HabitEntry = Database['public']['Tables']['habit_entries']['Row'];
 
@@ -57,6 +59,19 @@ export interface DailyContext {
     taken: boolean;
     last_taken_time?: string;
     reliability: number;
+    // Set once the user has a medication schedule; taken/last_taken_time then
+    // come from yesterday's dose log instead of habit notes
+    schedule?: {
+      doses: Array<{
+        medication_id: string;
+        name: string;
+        dose: string | null;
+        slot_time: string; // HH:MM
+        latest_time: string; // HH:MM, must be taken by
+      }>;
+      missed_yesterday: number;
+      timezone: string; // IANA, the slot times are wall-clock times here
+    };
   };
   
   hygiene: {
@@ -73,6 +88,18 @@ export interface DailyContext {
     reliability: number;
   };
   
+  // Values the user's own note parse rules extracted, for habits outside the built-in types
+  custom: {
+    habits: Array<{
+      habit_id: string;
+      count?: number;
+      duration_minutes?: number;
+      fields: Record<string, number | string>;
+      tags: string[];
+    }>;
+    tags: string[];
+  };
+  
   day_flags: {
     low_energy_risk: boolean;
     sleep_debt_risk: boolean;
@@ -320,6 +347,111 @@ function aggregateMeds(entries: HabitEntry[]): DailyContext['meds'] {
   };
 }
 
+/**
+ * Overlay the user's medication schedule on the meds context
+ * 
+ * The schedule is configuration, so the plan date's doses are listed; what
+ * was actually taken still only comes from yesterday's dose log (D-1).
+ * 
+ * @returns The habit-based meds data unchanged when there is no schedule
+ */
+async function applyMedicationSchedule(
+  supabase: ReturnType<typeof createClient<Database>>,
+  userId: string,
+  date: Date,
+  meds: DailyContext['meds']
+): Promise<DailyContext['meds']> {
+  const today = date.toISOString().split('T')[0];
+  const yesterday = new Date(date);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const yesterdayStr = yesterday.toISOString().split('T')[0];
+  
+  try {
+    const medications = await medicationService.listMedications(supabase, userId, { activeOnly: true });
+    if (medications.length === 0) return meds;
+    
+    const [doses, timeZone] = await Promise.all([
+      medicationService.loadDoses(supabase, userId, yesterdayStr, yesterdayStr),
+      medicationService.getTimeZone(supabase, userId),
+    ]);
+    const startOfDay = { date: today, time: '00:00' };
+    const yesterdaySchedule = buildDaySchedule(medications, doses, yesterdayStr, startOfDay, timeZone);
+    const takenTimes = yesterdaySchedule
+      .map(dose => dose.taken_at)
+      .filter((takenAt): takenAt is string => Boolean(takenAt))
+      .sort();
+    const missedYesterday = countMissed(yesterdaySchedule);
+    
+    return {
+      taken: yesterdaySchedule.length > 0 && missedYesterday === 0,
+      last_taken_time: takenTimes[takenTimes.length - 1],
+      reliability: 1.0,
+      schedule: {
+        doses: buildDaySchedule(medications, [], today, startOfDay).map(dose => ({
+          medication_id: dose.medication_id,
+          name: dose.name,
+          dose: dose.dose,
+          slot_time: dose.slot_time,
+          latest_time: dose.latest_time,
+        })),
+        missed_yesterday: missedYesterday,
+        timezone: timeZone,
+      },
+    };
+  } catch (error) {
+    console.error('Error loading medication schedule:', error);
+    return meds;
+  }
+}
+
+/**
+ * Aggregate values from user-defined note parse rules
+ * 
+ * Only entries a rule matched are used; built-in fields are covered by the
+ * aggregators above. Counts and durations add up per habit, numeric fields
+ * add up, and text fields keep the latest value.
+ * 
+ * @param entries - Habit entries to aggregate
+ * @returns Aggregated rule values by habit
+ */
+function aggregateCustomRules(entries: HabitEntry[]): DailyContext['custom'] {
+  type CustomHabit = DailyContext['custom']['habits'][number];
+  const byHabit = new Map<string, CustomHabit>();
+  const allTags = new Set<string>();
+  
+  // Oldest first so text fields end on the latest value
+  for (const entry of [...entries].reverse()) {
+    const raw = (entry as any).parsed;
+    let parsed: ParsedNoteData | null = null;
+    try {
+      parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+      parsed = null;
+    }
+    if (!entry.habit_id || !parsed?.rules_applied?.length) continue;
+    
+    const habit: CustomHabit = byHabit.get(entry.habit_id) ?? { habit_id: entry.habit_id, fields: {}, tags: [] };
+    if (parsed.count !== undefined) habit.count = (habit.count ?? 0) + parsed.count;
+    if (parsed.duration_minutes !== undefined) {
+      habit.duration_minutes = (habit.duration_minutes ?? 0) + parsed.duration_minutes;
+    }
+    for (const [field, value] of Object.entries(parsed.fields || {})) {
+      const previous = habit.fields[field];
+      habit.fields[field] = typeof value === 'number' && typeof previous === 'number' ? previous + value : value;
+    }
+    for (const tag of parsed.tags || []) {
+      if (!habit.tags.includes(tag)) habit.tags.push(tag);
+      allTags.add(tag);
+    }
+    byHabit.set(entry.habit_id, habit);
+  }
+  
+  return {
+    habits: Array.from(byHabit.values()),
+    tags: Array.from(allTags),
+  };
+}
+
 /**
  * Aggregate hygiene data (shower, oral, skincare)
  * 
@@ -660,9 +792,10 @@ export async function generateDailyContext(
   
   // Aggregate all data
   const substances = aggregateSubstances(primaryEntries);
-  const meds = aggregateMeds(primaryEntries);
+  const meds = await applyMedicationSchedule(supabase, userId, date, aggregateMeds(primaryEntries));
   const hygiene = aggregateHygiene(primaryEntries);
   const meals = aggregateMeals(primaryEntries);
+  const custom = aggregateCustomRules(primaryEntries);
   const durationPriors = calculateDurationPriors(trailingEntries);
   const dayFlags = detectRiskFlags(primaryEntries);
   
@@ -676,6 +809,7 @@ export async function generateDailyContext(
     meds,
     hygiene,
     meals,
+    custom,
     day_flags: dayFlags,
     duration_priors: durationPriors,
   };
@@ -685,7 +819,9 @@ export async function generateDailyContext(
     context.substances.nicotine.reliability = Math.min(0.4, context.substances.nicotine.reliability);
     context.substances.cannabis.reliability = Math.min(0.4, context.substances.cannabis.reliability);
     context.substances.caffeine.reliability = Math.min(0.4, context.substances.caffeine.reliability);
-    context.meds.reliability = Math.min(0.4, context.meds.reliability);
+    if (!context.meds.schedule) {
+      context.meds.reliability = Math.min(0.4, context.meds.reliability);
+    }
     context.hygiene.reliability = Math.min(0.4, context.hygiene.reliability);
     context.meals.reliability = Math.min(0.4, context.meals.reliability);
   }
@@ -31,6 +31,9 @@ function rowToDailyPlan(row: DailyPlanRow): DailyPlan {
     generatedAt: new Date(row.generated_at),
     generatedAfterNow: row.generated_after_now,
     planStart: new Date(row.plan_start),
+    collapsedAt: row.collapsed_at ? new Date(row.collapsed_at) : undefined,
+    preCollapseStatus: row.pre_collapse_status ?? undefined,
+    wakeResolution: row.wake_resolution ?? undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -50,7 +53,7 @@ function rowToTimeBlock(row: TimeBlockRow): TimeBlock {
     isFixed: row.is_fixed,
     sequenceOrder: row.sequence_order,
     status: row.status,
-    skipReason: row.skip_reason,
+    skipReason: row.skip_reason ?? undefined,
     metadata: row.metadata ? {
       ...rawMetadata,
       targetTime: rawMetadata.targetTime
@@ -3,6 +3,7 @@
 import { TravelService } from '../uk-student/travel-service';
 import type { Location, TravelConditions, TravelPreferences } from '../../types/uk-student-travel';
 import type { TravelMethod } from '../../types/daily-plan';
+import { toTravelPreferences } from '../places/travel-profile';
 
 export interface Commitment {
   id: string;
@@ -19,10 +20,12 @@ export interface ExitTimeResult {
   preparationTime: number; // minutes (fixed at 15)
   travelMethod: TravelMethod;
   travelBlockDuration: number; // total minutes (travel + prep)
+  departureTime?: Date; // timetabled train/bus departure the exit time leaves for
 }
 
 export interface ExitTimeCalculatorOptions {
   currentLocation: Location;
+  travelPreferences?: TravelPreferences; // From the user's travel profile; defaults otherwise
   userEnergy?: number; // 1-5 scale, defaults to 3
   weather?: {
     temperature: number;
@@ -41,8 +44,8 @@ const DEFAULT_TRAVEL_DURATION_MINUTES = 30;
 export class ExitTimeCalculator {
   private travelService: TravelService;
 
-  constructor() {
-    this.travelService = new TravelService();
+  constructor(travelService: TravelService = new TravelService()) {
+    this.travelService = travelService;
   }
 
   /**
@@ -50,6 +53,10 @@ export class ExitTimeCalculator {
    * 
    * Formula: exitTime = commitmentStart - travelDuration - preparationBuffer
    * 
+   * For a timetabled train or bus journey, travel runs from leaving for the
+   * actual departure until the commitment starts, so the exit time moves
+   * with the timetable rather than a flat estimate.
+   * 
    * @param commitment - The commitment to calculate exit time for
    * @param options - Current location and optional conditions
    * @returns Exit time result with travel details
@@ -58,7 +65,7 @@ export class ExitTimeCalculator {
     commitment: Commitment,
     options: ExitTimeCalculatorOptions
   ): Promise<ExitTimeResult> {
-    const { currentLocation, userEnergy = 3, weather } = options;
+    const { currentLocation, userEnergy = 3, weather, travelPreferences } = options;
 
     // If commitment has no location, we can't calculate travel time
     if (!commitment.location) {
@@ -77,25 +84,7 @@ export class ExitTimeCalculator {
         },
       };
 
-      // Build travel preferences (use defaults)
-      const preferences: TravelPreferences = {
-        preferredMethod: 'mixed',
-        maxWalkingDistance: 1500, // 1.5km
-        weatherThreshold: {
-          minTemperature: 0,
-          maxWindSpeed: 30,
-          maxPrecipitation: 10,
-        },
-        fitnessLevel: 'medium',
-        budgetConstraints: {
-          dailyLimit: 500, // £5
-          weeklyLimit: 2000, // £20
-        },
-        timePreferences: {
-          bufferTime: 10,
-          maxTravelTime: 60,
-        },
-      };
+      const preferences = travelPreferences ?? toTravelPreferences();
 
       // Get optimal route from travel service
       const route = await this.travelService.getOptimalRoute(
@@ -106,7 +95,9 @@ export class ExitTimeCalculator {
       );
 
       // Calculate exit time
-      const travelDuration = route.duration;
+      const travelDuration = route.transit
+        ? Math.round((commitment.startTime.getTime() - route.transit.leaveAt.getTime()) / 60000)
+        : route.duration;
       const totalMinutes = travelDuration + PREPARATION_BUFFER_MINUTES;
       const exitTime = new Date(
         commitment.startTime.getTime() - totalMinutes * 60 * 1000
@@ -119,6 +110,7 @@ export class ExitTimeCalculator {
         preparationTime: PREPARATION_BUFFER_MINUTES,
         travelMethod: route.method as TravelMethod,
         travelBlockDuration: totalMinutes,
+        departureTime: route.transit?.departure,
       };
     } catch (error) {
       // If travel service fails, use fallback
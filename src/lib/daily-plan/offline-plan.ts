@@ -0,0 +1,455 @@
+// Daily Plan - Offline-first cache and mutation queue
+//
+// Today's plan (with its chains) is cached in IndexedDB so the Daily Plan and
+// ChainView keep working without a connection. Step mutations made offline
+// (complete, skip, edit, reorder, ...) are queued in order, applied to the
+// cached plan where possible, and replayed when the connection returns.
+//
+// Conflicts are checked against the server copy fetched before replay:
+// - the plan was regenerated or deleted → queued mutations for it are dropped
+// - the block no longer exists → dropped
+// - status changes the server already has → dropped as already applied
+// - structural edits to a block the server changed after it was queued → dropped
+// Dropped mutations are reported to the UI rather than silently lost.
+
+import type { BlockStatus, DailyPlan, TimeBlock } from '../../types/daily-plan';
+
+export type PlanMutationKind =
+  | 'complete'
+  | 'uncomplete'
+  | 'activity-status'
+  | 'edit-step'
+  | 'add-step'
+  | 'delete-step'
+  | 'reorder-step'
+  | 'update-meta';
+
+export interface QueuedPlanMutation {
+  seq?: number; // IndexedDB auto-increment key, defines replay order
+  kind: PlanMutationKind;
+  url: string;
+  method: string;
+  body: string | null;
+  plan_id: string | null;
+  block_id: string;
+  base_updated_at: string | null; // block.updatedAt when queued
+  queued_at: string;
+}
+
+export type PlanMutationConflictReason =
+  | 'plan_replaced'
+  | 'block_missing'
+  | 'server_changed'
+  | 'rejected';
+
+export interface PlanMutationConflict {
+  mutation: QueuedPlanMutation;
+  reason: PlanMutationConflictReason;
+}
+
+export interface PlanReplayResult {
+  replayed: number;
+  already_applied: number;
+  conflicts: PlanMutationConflict[];
+  remaining: number;
+}
+
+export const PLAN_SYNC_EVENT = 'daily-plan-offline-sync';
+
+const DB_NAME = 'meshos-daily-plan';
+const PLAN_STORE = 'plans';
+const MUTATION_STORE = 'mutations';
+const TODAY_KEY = 'today';
+
+const TIME_BLOCK_ACTIONS: Record<string, PlanMutationKind> = {
+  complete: 'complete',
+  uncomplete: 'uncomplete',
+  'edit-step': 'edit-step',
+  'add-step': 'add-step',
+  'delete-step': 'delete-step',
+  'reorder-step': 'reorder-step',
+  'update-meta': 'update-meta',
+};
+
+const STATUS_KINDS: PlanMutationKind[] = ['complete', 'uncomplete', 'activity-status'];
+
+/**
+ * Recognize a plan mutation request that should be queued when offline
+ */
+export function classifyPlanMutation(
+  url: string,
+  method: string
+): { kind: PlanMutationKind; block_id: string; plan_id: string | null } | null {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+
+  const timeBlockMatch = path.match(/^\/api\/time-blocks\/([^/]+)\/([a-z-]+)$/);
+  if (timeBlockMatch && method.toUpperCase() === 'POST' && TIME_BLOCK_ACTIONS[timeBlockMatch[2]]) {
+    return { kind: TIME_BLOCK_ACTIONS[timeBlockMatch[2]], block_id: timeBlockMatch[1], plan_id: null };
+  }
+
+  const activityMatch = path.match(/^\/api\/daily-plan\/([^/]+)\/activity\/([^/]+)$/);
+  if (activityMatch && method.toUpperCase() === 'PATCH') {
+    return { kind: 'activity-status', block_id: activityMatch[2], plan_id: activityMatch[1] };
+  }
+
+  return null;
+}
+
+function parseBody(mutation: QueuedPlanMutation): Record<string, any> {
+  try {
+    return mutation.body ? JSON.parse(mutation.body) : {};
+  } catch {
+    return {};
+  }
+}
+
+function targetStatus(mutation: QueuedPlanMutation): BlockStatus | null {
+  if (mutation.kind === 'complete') return 'completed';
+  if (mutation.kind === 'uncomplete') return 'pending';
+  if (mutation.kind === 'activity-status') {
+    const status = parseBody(mutation).status;
+    return status === 'completed' || status === 'skipped' ? status : null;
+  }
+  return null;
+}
+
+/**
+ * Apply a queued mutation to a plan so the UI reflects it before sync
+ *
+ * Status changes, step renames and metadata updates (exit gate conditions)
+ * are applied; time shifts from edits, reorders, adds and deletes are left to
+ * the server on replay.
+ */
+export function applyMutationToPlan(plan: DailyPlan, mutation: QueuedPlanMutation): DailyPlan {
+  const status = targetStatus(mutation);
+  const body = parseBody(mutation);
+  const name = mutation.kind === 'edit-step' ? body.name : undefined;
+  const skipReason = mutation.kind === 'activity-status' ? body.skipReason : undefined;
+  const metadata = mutation.kind === 'update-meta' && body.metadata && typeof body.metadata === 'object'
+    ? body.metadata as Record<string, unknown>
+    : undefined;
+  if (!status && typeof name !== 'string' && !metadata) {
+    return plan;
+  }
+
+  const timeBlocks = (plan.timeBlocks || []).map((block) => {
+    if (block.id !== mutation.block_id) return block;
+    return {
+      ...block,
+      ...(status ? { status, skipReason: status === 'skipped' ? skipReason : undefined } : {}),
+      ...(typeof name === 'string' && name.trim() ? { activityName: name.trim() } : {}),
+      ...(metadata ? { metadata: { ...(block.metadata || {}), ...metadata } as TimeBlock['metadata'] } : {}),
+    };
+  });
+
+  const chains = plan.chains?.map((chain) => ({
+    ...chain,
+    steps: chain.steps.map((step) => {
+      if (step.metadata?.time_block_id !== mutation.block_id) return step;
+      return {
+        ...step,
+        ...(status ? { status } : {}),
+        ...(typeof name === 'string' && name.trim() ? { name: name.trim() } : {}),
+      };
+    }),
+  }));
+
+  return { ...plan, timeBlocks, ...(chains ? { chains } : {}) };
+}
+
+/**
+ * Decide whether a queued mutation can still be sent to the server
+ */
+export function detectMutationConflict(
+  mutation: QueuedPlanMutation,
+  serverPlan: DailyPlan | null
+): PlanMutationConflictReason | 'already_applied' | null {
+  if (!serverPlan || (mutation.plan_id && serverPlan.id !== mutation.plan_id)) {
+    return 'plan_replaced';
+  }
+
+  const block = (serverPlan.timeBlocks || []).find((candidate) => candidate.id === mutation.block_id);
+  if (!block) {
+    return 'block_missing';
+  }
+
+  if (STATUS_KINDS.includes(mutation.kind)) {
+    return block.status === targetStatus(mutation) ? 'already_applied' : null;
+  }
+
+  if (mutation.base_updated_at && block.updatedAt) {
+    const serverUpdated = new Date(block.updatedAt).getTime();
+    if (serverUpdated > new Date(mutation.base_updated_at).getTime()) {
+      return 'server_changed';
+    }
+  }
+
+  return null;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isSameLocalDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * Daily Plan Offline Store
+ *
+ * Browser-only. Without IndexedDB every method degrades to a no-op so the
+ * page behaves exactly as it did before.
+ */
+class DailyPlanOfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private replaying: Promise<PlanReplayResult> | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.replay().catch((error) => console.error('[Offline Plan] Replay failed:', error));
+      });
+    }
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PLAN_STORE)) {
+            db.createObjectStore(PLAN_STORE);
+          }
+          if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+            db.createObjectStore(MUTATION_STORE, { keyPath: 'seq', autoIncrement: true });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.openDb();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async cachePlan(plan: DailyPlan | null): Promise<void> {
+    if (!this.isSupported()) return;
+    const store = await this.store(PLAN_STORE, 'readwrite');
+    await requestToPromise(store.put({ plan, cached_at: new Date().toISOString() }, TODAY_KEY));
+  }
+
+  /**
+   * Cached plan, if it was cached today, with still-queued mutations applied
+   */
+  async getCachedPlan(): Promise<DailyPlan | null> {
+    if (!this.isSupported()) return null;
+    const store = await this.store(PLAN_STORE, 'readonly');
+    const entry = await requestToPromise(store.get(TODAY_KEY)) as { plan: DailyPlan | null; cached_at: string } | undefined;
+    if (!entry?.plan || !isSameLocalDay(new Date(entry.cached_at), new Date())) {
+      return null;
+    }
+    return this.applyQueue(entry.plan);
+  }
+
+  async getQueue(): Promise<QueuedPlanMutation[]> {
+    if (!this.isSupported()) return [];
+    const store = await this.store(MUTATION_STORE, 'readonly');
+    const queue = await requestToPromise(store.getAll()) as QueuedPlanMutation[];
+    return queue.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  }
+
+  async applyQueue(plan: DailyPlan): Promise<DailyPlan> {
+    const queue = await this.getQueue();
+    return queue.reduce((current, mutation) => applyMutationToPlan(current, mutation), plan);
+  }
+
+  private async removeMutation(seq: number | undefined): Promise<void> {
+    if (seq === undefined) return;
+    const store = await this.store(MUTATION_STORE, 'readwrite');
+    await requestToPromise(store.delete(seq));
+  }
+
+  /**
+   * Queue a mutation and apply it to the cached plan
+   */
+  async enqueue(url: string, init: RequestInit): Promise<QueuedPlanMutation | null> {
+    const method = (init.method || 'GET').toUpperCase();
+    const classified = classifyPlanMutation(url, method);
+    if (!classified || !this.isSupported()) return null;
+
+    const cachedPlan = await this.getCachedPlan();
+    const block: TimeBlock | undefined = cachedPlan?.timeBlocks?.find((candidate) => candidate.id === classified.block_id);
+
+    const mutation: QueuedPlanMutation = {
+      kind: classified.kind,
+      url,
+      method,
+      body: typeof init.body === 'string' ? init.body : null,
+      plan_id: classified.plan_id || cachedPlan?.id || null,
+      block_id: classified.block_id,
+      base_updated_at: block?.updatedAt ? new Date(block.updatedAt).toISOString() : null,
+      queued_at: new Date().toISOString(),
+    };
+
+    const store = await this.store(MUTATION_STORE, 'readwrite');
+    mutation.seq = await requestToPromise(store.add(mutation)) as number;
+    return mutation;
+  }
+
+  /**
+   * Replay queued mutations in order
+   * Stops at the first network or server error and keeps the rest queued.
+   */
+  async replay(): Promise<PlanReplayResult> {
+    if (this.replaying) return this.replaying;
+
+    this.replaying = this.replayQueue().finally(() => {
+      this.replaying = null;
+    });
+    return this.replaying;
+  }
+
+  private async replayQueue(): Promise<PlanReplayResult> {
+    const result: PlanReplayResult = { replayed: 0, already_applied: 0, conflicts: [], remaining: 0 };
+    const queue = await this.getQueue();
+    if (queue.length === 0 || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      result.remaining = queue.length;
+      return result;
+    }
+
+    let serverPlan: DailyPlan | null;
+    try {
+      const response = await fetch('/api/daily-plan/today');
+      if (!response.ok) {
+        result.remaining = queue.length;
+        return result;
+      }
+      serverPlan = (await response.json()).plan as DailyPlan | null;
+    } catch {
+      result.remaining = queue.length;
+      return result;
+    }
+
+    for (let index = 0; index < queue.length; index++) {
+      const mutation = queue[index];
+      const check = detectMutationConflict(mutation, serverPlan);
+
+      if (check === 'already_applied') {
+        result.already_applied += 1;
+        await this.removeMutation(mutation.seq);
+        continue;
+      }
+      if (check) {
+        result.conflicts.push({ mutation, reason: check });
+        await this.removeMutation(mutation.seq);
+        continue;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(mutation.url, {
+          method: mutation.method,
+          headers: { 'Content-Type': 'application/json' },
+          body: mutation.body,
+        });
+      } catch {
+        result.remaining = queue.length - index;
+        break;
+      }
+
+      if (response.ok) {
+        result.replayed += 1;
+        await this.removeMutation(mutation.seq);
+        // Later mutations are checked against the plan as it is now, so a
+        // complete followed by an uncomplete isn't dropped as already applied
+        serverPlan = applyMutationToPlan(serverPlan!, mutation);
+      } else if (response.status >= 400 && response.status < 500 && response.status !== 401) {
+        result.conflicts.push({ mutation, reason: 'rejected' });
+        await this.removeMutation(mutation.seq);
+      } else {
+        result.remaining = queue.length - index;
+        break;
+      }
+    }
+
+    if (result.conflicts.length > 0) {
+      console.warn('[Offline Plan] Dropped conflicting offline changes:', result.conflicts.map((conflict) => ({
+        kind: conflict.mutation.kind,
+        block_id: conflict.mutation.block_id,
+        reason: conflict.reason,
+      })));
+    }
+
+    window.dispatchEvent(new CustomEvent(PLAN_SYNC_EVENT, { detail: result }));
+    return result;
+  }
+}
+
+// Export singleton instance
+export const dailyPlanOfflineStore = new DailyPlanOfflineStore();
+
+/**
+ * Load today's plan, falling back to the offline cache
+ */
+export async function loadTodayPlan(): Promise<{ plan: DailyPlan | null; offline: boolean }> {
+  try {
+    const response = await fetch('/api/daily-plan/today');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch plan: ${response.statusText}`);
+    }
+
+    const plan = (await response.json()).plan as DailyPlan | null;
+    await dailyPlanOfflineStore.cachePlan(plan).catch(() => undefined);
+    return {
+      plan: plan ? await dailyPlanOfflineStore.applyQueue(plan).catch(() => plan) : null,
+      offline: false,
+    };
+  } catch (error) {
+    const cached = await dailyPlanOfflineStore.getCachedPlan().catch(() => null);
+    if (cached) {
+      return { plan: cached, offline: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * fetch() for plan mutations: queues the request when the network is down
+ * and answers 202 { queued: true } so callers carry on as if it succeeded
+ */
+export async function planMutationFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const queue = async () => {
+    const mutation = await dailyPlanOfflineStore.enqueue(url, init);
+    if (!mutation) return null;
+    return new Response(JSON.stringify({ success: true, queued: true }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    const queued = await queue();
+    if (queued) return queued;
+  }
+
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    const queued = await queue();
+    if (queued) return queued;
+    throw error;
+  }
+}
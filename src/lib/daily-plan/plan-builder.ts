@@ -1,7 +1,7 @@
 // Daily Plan Generator V1 - Plan Builder Service
 
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { Location } from '../../types/uk-student-travel';
+import type { Location, TravelPreferences } from '../../types/uk-student-travel';
 import type { CalendarEvent } from '../../types/calendar';
 import type { Task } from '../../types/task-management';
 import type { Routine as RoutineType } from '../../types/uk-student';
@@ -11,6 +11,7 @@ import type {
   TimeBlock,
   EnergyState,
   ActivityType,
+  CollapseRecoveryKind,
   CreateDailyPlan,
   CreateTimeBlock,
   CreateExitTime,
@@ -34,11 +35,37 @@ import {
 // V2 Chain-Based Execution imports
 import { AnchorService } from '../anchors/anchor-service';
 import { ChainGenerator } from '../chains/chain-generator';
+import { degradationService } from '../chains/degradation-service';
+import { reconstructChainsFromTimeBlocks } from '../chains/plan-chains';
 import { LocationStateTracker } from '../chains/location-state';
 import { WakeRampGenerator } from '../chains/wake-ramp';
-import { DEFAULT_GATE_CONDITIONS } from '../chains/exit-gate';
-import type { ExecutionChain, HomeInterval, LocationPeriod, WakeRamp } from '../chains/types';
+import {
+  DEFAULT_GATE_CONDITIONS,
+  getExitGateTemplateFromPreferences,
+  resolveGateConditionsForAnchor,
+  resolveGateConditionsForOuting,
+} from '../chains/exit-gate';
+import type {
+  ExecutionChain,
+  ExitGateTemplate,
+  HomeInterval,
+  LocationPeriod,
+  UserChainTemplate,
+  WakeRamp,
+} from '../chains/types';
 import type { ChainCustomStep, ChainStepOverrides } from '../chains/step-customization';
+import { getUserChainTemplates } from '../chains/user-template-store';
+import { loadLearnedStepDurations } from '../chains/duration-model';
+import { placeService } from '../places/place-service';
+import { matchPlace, placeToLocation, type SavedPlace } from '../places/saved-places';
+
+/** Where journeys start when the request gives no location and no home is saved */
+const DEFAULT_CURRENT_LOCATION: Location = {
+  name: 'Home',
+  address: 'Birmingham, UK',
+  coordinates: [52.4862, -1.8904],
+  type: 'home',
+};
 
 // Internal types for plan building
 interface Activity {
@@ -83,6 +110,21 @@ const MEAL_DURATIONS = {
   dinner: 45
 };
 
+// Collapse Mode recovery blocks, placed in order from the moment the plan collapses
+const COLLAPSE_RECOVERY_BLOCKS: Array<{
+  kind: CollapseRecoveryKind;
+  name: string;
+  duration: number; // minutes
+  activityType: ActivityType;
+}> = [
+  { kind: 'eat', name: 'Eat something', duration: 20, activityType: 'meal' },
+  { kind: 'meds', name: 'Take meds', duration: 5, activityType: 'routine' },
+  { kind: 'hygiene', name: 'Hygiene minimum (teeth, face)', duration: 10, activityType: 'routine' },
+  { kind: 'rest', name: 'Rest', duration: 30, activityType: 'buffer' },
+];
+
+const COLLAPSE_SKIP_REASON = 'Dropped for Collapse Mode';
+
 // Types for meal placement
 type MealType = 'breakfast' | 'lunch' | 'dinner';
 
@@ -429,6 +471,68 @@ function placeMeals(
   return placements;
 }
 
+/**
+ * Decide whether a block survives Collapse Mode.
+ * Only must-attend anchors and the required chain steps leading to them are kept.
+ */
+function isCollapseEssential(block: TimeBlock): boolean {
+  const metadata = (block.metadata || {}) as Record<string, any>;
+  const roleType = metadata.role?.type;
+
+  if (roleType === 'chain-step' || roleType === 'exit-gate') {
+    // Plans saved before Collapse Mode have no anchor_must_attend flag; treat them as must-attend.
+    return metadata.anchor_must_attend !== false && metadata.role?.required !== false;
+  }
+
+  if (roleType === 'anchor' || block.activityType === 'commitment') {
+    return metadata.anchor_must_attend !== false && block.isFixed;
+  }
+
+  // Travel to a fixed commitment is part of attending it.
+  return block.activityType === 'travel' && block.isFixed;
+}
+
+/**
+ * Place Collapse Mode recovery blocks forward from a start time,
+ * stepping past any kept blocks and stopping at sleep time.
+ */
+export function placeCollapseRecoveryBlocks(
+  start: Date,
+  sleepTime: Date,
+  keptBlocks: TimeBlock[]
+): Array<{ kind: CollapseRecoveryKind; name: string; activityType: ActivityType; startTime: Date; endTime: Date }> {
+  const placements: Array<{ kind: CollapseRecoveryKind; name: string; activityType: ActivityType; startTime: Date; endTime: Date }> = [];
+  let cursor = new Date(start);
+
+  for (const recovery of COLLAPSE_RECOVERY_BLOCKS) {
+    let end = new Date(cursor.getTime() + recovery.duration * 60000);
+
+    // Step past kept blocks until the recovery block fits in a free gap
+    let conflict = keptBlocks.find(block => cursor < block.endTime && end > block.startTime);
+    while (conflict) {
+      cursor = new Date(conflict.endTime);
+      end = new Date(cursor.getTime() + recovery.duration * 60000);
+      conflict = keptBlocks.find(block => cursor < block.endTime && end > block.startTime);
+    }
+
+    if (end > sleepTime) {
+      console.warn(`[Collapse Mode] Not enough time before sleep for recovery block "${recovery.name}"`);
+      continue;
+    }
+
+    placements.push({
+      kind: recovery.kind,
+      name: recovery.name,
+      activityType: recovery.activityType,
+      startTime: cursor,
+      endTime: end,
+    });
+    cursor = end;
+  }
+
+  return placements;
+}
+
 export class PlanBuilderService {
   private supabase: SupabaseClient<any, any, any>;
   private exitTimeCalculator: ExitTimeCalculator;
@@ -519,6 +623,7 @@ export class PlanBuilderService {
         duration_estimate: duration,
         is_required: record.is_required !== false,
         can_skip_when_late: record.can_skip_when_late === true,
+        degrade_priority: typeof record.degrade_priority === 'number' ? record.degrade_priority : undefined,
         insert_after_id: typeof record.insert_after_id === 'string' ? record.insert_after_id : undefined,
       });
     }
@@ -526,7 +631,7 @@ export class PlanBuilderService {
     return customSteps;
   }
 
-  private async getUserExitGateTemplate(userId: string) {
+  private async getUserExitGateTemplate(userId: string): Promise<ExitGateTemplate> {
     const { data, error } = await this.supabase
       .from('user_preferences')
       .select('preferences')
@@ -535,35 +640,19 @@ export class PlanBuilderService {
 
     if (error) {
       console.warn('[Plan Builder] Failed to load exit gate template, using defaults:', error.message);
-      return DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition }));
-    }
-
-    const preferences = data?.preferences && typeof data.preferences === 'object'
-      ? (data.preferences as Record<string, unknown>)
-      : {};
-    const template = preferences.exit_gate_template && typeof preferences.exit_gate_template === 'object'
-      ? (preferences.exit_gate_template as Record<string, unknown>)
-      : {};
-    const gateConditions = Array.isArray(template.gate_conditions) ? template.gate_conditions : null;
-    if (!gateConditions || gateConditions.length === 0) {
-      return DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition }));
+      return {
+        gate_conditions: DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition })),
+        variants: {},
+      };
     }
 
-    const parsed = [];
-    for (const raw of gateConditions) {
-      if (!raw || typeof raw !== 'object') continue;
-      const record = raw as Record<string, unknown>;
-      const id = typeof record.id === 'string' ? record.id : null;
-      if (!id) continue;
-      parsed.push({
-        id,
-        name: typeof record.name === 'string' ? record.name : id,
-        satisfied: Boolean(record.satisfied),
-      });
-    }
-    return parsed.length > 0
-      ? parsed
-      : DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition }));
+    const template = getExitGateTemplateFromPreferences(data?.preferences);
+    return {
+      gate_conditions: template.gate_conditions.length > 0
+        ? template.gate_conditions
+        : DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition })),
+      variants: template.variants,
+    };
   }
 
   /**
@@ -584,9 +673,15 @@ export class PlanBuilderService {
   /**
    * Generate a daily plan
    * 
+   * Travel is planned from `currentLocation`, else the user's saved home,
+   * using their saved places and travel profile.
+   * 
    * Requirements: 1.1, 9.1, 12.1, 12.2, 12.3, 12.4, 12.5
    */
-  async generateDailyPlan(input: PlanInput, currentLocation: Location): Promise<DailyPlan> {
+  async generateDailyPlan(input: PlanInput, requestedLocation?: Location): Promise<DailyPlan> {
+    const travelSetup = await placeService.getTravelSetup(this.supabase, input.userId);
+    const currentLocation = requestedLocation ?? travelSetup.home ?? DEFAULT_CURRENT_LOCATION;
+
     // Step 1: Compute plan start time (max of wake time or current time rounded up)
     const now = new Date();
     const roundedNow = this.roundUpToNext5Minutes(now);
@@ -618,6 +713,11 @@ export class PlanBuilderService {
     // Requirements: 12.1, 12.2, 12.3, 12.4
     const chainStepOverrides = await this.getUserChainStepOverrides(input.userId);
     const chainCustomSteps = await this.getUserChainCustomSteps(input.userId);
+    const userTemplates = await getUserChainTemplates(this.supabase, input.userId).catch((error): UserChainTemplate[] => {
+      console.warn('[Plan Builder] Failed to load user chain templates, using built-in templates:', error.message);
+      return [];
+    });
+    const learnedDurations = await loadLearnedStepDurations(this.supabase, input.userId);
 
     const chains = await this.chainGenerator.generateChainsForDate(
       anchors,
@@ -630,8 +730,11 @@ export class PlanBuilderService {
         allowNoAnchorFallback: false,
         chainStepOverrides,
         chainCustomSteps,
+        userTemplates,
+        learnedDurations,
         config: {
           currentLocation,
+          travelPreferences: travelSetup.preferences,
         },
       }
     );
@@ -650,7 +753,7 @@ export class PlanBuilderService {
     console.log(`[V2 Chain Generation] Calculated ${homeIntervals.length} home intervals`);
 
     // Step 6: Gather inputs (V1.2 compatibility path)
-    const inputs = await this.gatherInputs(input.userId, input.date);
+    const inputs = await this.gatherInputs(input.userId, input.date, travelSetup.places);
 
     // Step 7/8: Timeline generation is chain-first in V2.2 stabilization.
     // - Chain always runs first (including fallback chain when no calendar anchors)
@@ -684,7 +787,8 @@ export class PlanBuilderService {
         currentLocation,
         planStartTime,
         input.energyState,
-        homeIntervals
+        homeIntervals,
+        travelSetup.preferences
       );
 
       timeBlocks = timelineResult.timeBlocks;
@@ -712,7 +816,7 @@ export class PlanBuilderService {
    * 
    * Requirements: 5.1, 7.1, 10.1
    */
-  private async gatherInputs(userId: string, date: Date): Promise<PlanInputs> {
+  private async gatherInputs(userId: string, date: Date, places: SavedPlace[] = []): Promise<PlanInputs> {
     // Fetch calendar commitments for the day
     const startOfDay = new Date(date);
     startOfDay.setHours(0, 0, 0, 0);
@@ -736,7 +840,7 @@ export class PlanBuilderService {
         title: event.title,
         startTime: new Date(event.start_time),
         endTime: new Date(event.end_time),
-        location: event.location ? this.parseLocation(event.location) : undefined,
+        location: event.location ? this.parseLocation(event.location, places) : undefined,
       }));
 
     // Fetch pending tasks (limit 10)
@@ -775,12 +879,12 @@ export class PlanBuilderService {
 
   /**
    * Parse location string into Location object
+   * Only saved places are known; the exit time calculator handles the rest
+   * as missing locations.
    */
-  private parseLocation(locationStr: string): Location | undefined {
-    // Simple parsing - in production, this would use geocoding
-    // For now, just return undefined if we can't parse
-    // The exit time calculator will handle missing locations
-    return undefined;
+  private parseLocation(locationStr: string, places: SavedPlace[]): Location | undefined {
+    const place = matchPlace(locationStr, places);
+    return place ? placeToLocation(place) : undefined;
   }
 
   /**
@@ -924,7 +1028,8 @@ export class PlanBuilderService {
     currentLocation: Location,
     planStartTime: Date,
     energyState: EnergyState,
-    homeIntervals: HomeInterval[] = [] // V2: Home intervals for meal placement
+    homeIntervals: HomeInterval[] = [], // V2: Home intervals for meal placement
+    travelPreferences?: TravelPreferences
   ): Promise<{ timeBlocks: TimeBlock[]; exitTimes: ExitTimeResult[]; commitmentTravelMap: Map<string, number> }> {
     const BUFFER_MINUTES = 5;
     const EVENING_ROUTINE_EARLIEST_TIME = 18; // 6:00 PM
@@ -939,7 +1044,7 @@ export class PlanBuilderService {
     // Requirement: 2.1
     const exitTimeResults = await this.exitTimeCalculator.calculateExitTimes(
       inputs.commitments,
-      { currentLocation }
+      { currentLocation, travelPreferences }
     );
     exitTimes.push(...exitTimeResults);
 
@@ -1483,6 +1588,7 @@ export class PlanBuilderService {
       status: 'active',
       generated_after_now: generatedAfterNow,
       plan_start: planStart.toISOString(),
+      ...(input.wakeResolution ? { wake_resolution: input.wakeResolution } : {}),
     };
 
     const plan = await createDailyPlan(this.supabase, planData);
@@ -1503,7 +1609,18 @@ export class PlanBuilderService {
         };
 
         if (roleType === 'exit-gate') {
-          role.gate_conditions = userExitGateTemplate.map((condition) => ({ ...condition }));
+          const outing = chain.metadata?.outing;
+          role.gate_conditions = outing
+            ? resolveGateConditionsForOuting(
+              userExitGateTemplate.gate_conditions,
+              userExitGateTemplate.variants,
+              outing.anchor_types
+            )
+            : resolveGateConditionsForAnchor(
+              userExitGateTemplate.gate_conditions,
+              userExitGateTemplate.variants,
+              chain.anchor.type
+            );
         }
 
         chainSequenceOrder += 1;
@@ -1517,6 +1634,9 @@ export class PlanBuilderService {
           anchor_end: chain.anchor.end.toISOString(),
           anchor_location: chain.anchor.location || null,
           anchor_type: chain.anchor.type,
+          anchor_must_attend: chain.anchor.must_attend,
+          can_skip_when_late: step.can_skip_when_late,
+          degrade_priority: step.degrade_priority,
           ...(step.metadata || {}),
         };
 
@@ -1663,9 +1783,12 @@ export class PlanBuilderService {
   /**
    * Degrade a plan by removing optional tasks and recomputing buffers
    * 
-   * Requirements: 4.2, 4.3, 4.4, 4.5
+   * Chains running late first shed optional steps through the degradation
+   * ladder, one priority tier at a time, until the time saved covers the delay.
+   *
+   * Requirements: 4.2, 4.3, 4.4, 4.5, 15.1, 15.2
    */
-  async degradePlan(planId: string): Promise<DailyPlan> {
+  async degradePlan(planId: string, now: Date = new Date()): Promise<DailyPlan> {
     // Fetch the current plan with all blocks
     const plan = await getDailyPlanWithBlocks(this.supabase, planId);
     if (!plan) {
@@ -1678,14 +1801,19 @@ export class PlanBuilderService {
 
     const BUFFER_MINUTES = 5;
 
+    // Step 0: Late chains shed optional steps tier by tier
+    // Requirement: 15.1, 15.2
+    const shedBlockIds = await this.degradeLateChains(plan, now);
+
     // Step 1: Identify essential activities (fixed commitments, routines, meals, travel)
     // Requirement: 4.2, 4.3
     const essentialBlocks = plan.timeBlocks.filter(
       block =>
-        block.isFixed || // Fixed commitments and travel blocks
+        !shedBlockIds.has(block.id) &&
+        (block.isFixed || // Fixed commitments and travel blocks
         block.activityType === 'routine' ||
         block.activityType === 'meal' ||
-        block.activityType === 'travel'
+        block.activityType === 'travel')
     );
 
     // Step 2: Mark dropped tasks as skipped
@@ -1693,6 +1821,7 @@ export class PlanBuilderService {
     const droppedBlocks = plan.timeBlocks.filter(
       block =>
         !essentialBlocks.includes(block) &&
+        !shedBlockIds.has(block.id) &&
         block.activityType !== 'buffer' && // Don't mark buffers as skipped
         block.status === 'pending' // Only mark pending blocks
     );
@@ -1793,6 +1922,184 @@ export class PlanBuilderService {
 
     return degradedPlan;
   }
+
+  /**
+   * Run the degradation ladder on each chain that is running late and persist
+   * the shed steps, with the tier that dropped them, on their time blocks
+   *
+   * @returns IDs of the time blocks the ladder skipped
+   */
+  private async degradeLateChains(plan: DailyPlan, now: Date): Promise<Set<string>> {
+    const shedBlockIds = new Set<string>();
+
+    for (const chain of reconstructChainsFromTimeBlocks(plan)) {
+      if (!degradationService.shouldTriggerDegradation(chain, now)) {
+        continue;
+      }
+
+      const degraded = degradationService.degradeChain(chain, now);
+      for (const [index, step] of degraded.steps.entries()) {
+        const event = step.metadata?.degradation;
+        if (chain.steps[index].status === 'skipped' || step.status !== 'skipped' || !event) {
+          continue;
+        }
+
+        const block = plan.timeBlocks!.find(candidate => candidate.id === step.metadata?.time_block_id);
+        if (!block) {
+          continue;
+        }
+
+        await updateTimeBlock(this.supabase, block.id, {
+          status: 'skipped',
+          skip_reason: step.skip_reason,
+          metadata: {
+            ...(block.metadata || {}),
+            degradation: event,
+          },
+        });
+        shedBlockIds.add(block.id);
+      }
+    }
+
+    return shedBlockIds;
+  }
+
+  /**
+   * Collapse a plan into recovery-first mode
+   *
+   * Drops every remaining block except must-attend anchors and their required
+   * chain steps, then adds a small set of recovery blocks (eat, meds, hygiene
+   * minimum, rest). Dropped blocks are flagged so exitCollapseMode can restore them.
+   */
+  async collapsePlan(planId: string): Promise<DailyPlan> {
+    const plan = await getDailyPlanWithBlocks(this.supabase, planId);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    if (plan.status === 'collapsed') {
+      throw new Error('Plan is already in Collapse Mode');
+    }
+
+    const timeBlocks = plan.timeBlocks || [];
+    const now = new Date();
+
+    // Step 1: Drop remaining non-essential blocks (past blocks are left as they are)
+    const remainingBlocks = timeBlocks.filter(
+      block => block.status === 'pending' && block.endTime > now
+    );
+    const keptBlocks = remainingBlocks.filter(isCollapseEssential);
+    const droppedBlocks = remainingBlocks.filter(block => !keptBlocks.includes(block));
+
+    for (const block of droppedBlocks) {
+      await updateTimeBlock(this.supabase, block.id, {
+        status: 'skipped',
+        skip_reason: COLLAPSE_SKIP_REASON,
+        metadata: {
+          ...(block.metadata || {}),
+          collapse_dropped: true,
+        },
+      });
+    }
+
+    // Step 2: Add recovery blocks around the kept anchors
+    const recoveryStart = this.roundUpToNext5Minutes(new Date(Math.max(now.getTime(), plan.planStart.getTime())));
+    const recoveryPlacements = placeCollapseRecoveryBlocks(recoveryStart, plan.sleepTime, keptBlocks);
+    let sequenceOrder = timeBlocks.reduce((max, block) => Math.max(max, block.sequenceOrder), 0);
+
+    if (recoveryPlacements.length > 0) {
+      await createTimeBlocks(
+        this.supabase,
+        recoveryPlacements.map((placement): CreateTimeBlock => ({
+          plan_id: planId,
+          start_time: placement.startTime.toISOString(),
+          end_time: placement.endTime.toISOString(),
+          activity_type: placement.activityType,
+          activity_name: placement.name,
+          is_fixed: false,
+          sequence_order: ++sequenceOrder,
+          status: 'pending',
+          metadata: {
+            role: { type: 'recovery', required: true },
+            collapse_recovery: true,
+            recovery_kind: placement.kind,
+          },
+        }))
+      );
+    }
+
+    // Step 3: Remember where we came from so the plan can be restored
+    await updateDailyPlan(this.supabase, planId, {
+      status: 'collapsed',
+      collapsed_at: now.toISOString(),
+      pre_collapse_status: plan.status,
+    });
+
+    const collapsedPlan = await getDailyPlanWithBlocks(this.supabase, planId);
+    if (!collapsedPlan) {
+      throw new Error('Failed to fetch collapsed plan');
+    }
+
+    return collapsedPlan;
+  }
+
+  /**
+   * Leave Collapse Mode
+   *
+   * Restores blocks dropped by collapsePlan that are still ahead of now,
+   * removes recovery blocks that were not done, and returns the plan to
+   * the status it had before collapsing.
+   */
+  async exitCollapseMode(planId: string): Promise<DailyPlan> {
+    const plan = await getDailyPlanWithBlocks(this.supabase, planId);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    if (plan.status !== 'collapsed') {
+      throw new Error('Plan is not in Collapse Mode');
+    }
+
+    const timeBlocks = plan.timeBlocks || [];
+    const now = new Date();
+
+    // Completed recovery blocks stay as a record of what got done
+    const pendingRecoveryBlocks = timeBlocks.filter(
+      block => block.metadata?.collapse_recovery === true && block.status === 'pending'
+    );
+    for (const block of pendingRecoveryBlocks) {
+      await deleteTimeBlock(this.supabase, block.id);
+    }
+
+    const restorableBlocks = timeBlocks.filter(
+      block =>
+        block.metadata?.collapse_dropped === true &&
+        block.status === 'skipped' &&
+        block.endTime > now
+    );
+    for (const block of restorableBlocks) {
+      const { collapse_dropped: _collapseDropped, ...metadata } = block.metadata || {};
+      await updateTimeBlock(this.supabase, block.id, {
+        status: 'pending',
+        skip_reason: null,
+        metadata,
+      });
+    }
+
+    await updateDailyPlan(this.supabase, planId, {
+      status: plan.preCollapseStatus && plan.preCollapseStatus !== 'collapsed'
+        ? plan.preCollapseStatus
+        : 'active',
+      pre_collapse_status: null,
+    });
+
+    const restoredPlan = await getDailyPlanWithBlocks(this.supabase, planId);
+    if (!restoredPlan) {
+      throw new Error('Failed to fetch restored plan');
+    }
+
+    return restoredPlan;
+  }
 }
 
 
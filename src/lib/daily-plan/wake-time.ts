@@ -0,0 +1,355 @@
+// Daily Plan - Wake Time Resolver
+//
+// Combines the signals we already have into one wake time for the plan:
+// - a sleep note ("slept 11pm-7:30am") parsed by the habit note parser
+// - the end of last night's sleep session from an imported fitness tracker
+// - the user's first app interaction today (an upper bound: they were awake)
+//   Activity before bedtime or before 04:00 is a late night, not a wake-up,
+//   and imported or backfilled habit entries are not activity at all.
+// A wake time typed into the generator form always wins. Otherwise the most
+// confident source is used and the plan records which one and why.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseNote } from '../habits/note-parser';
+import { SemanticType, inferSemanticType } from '../habits/taxonomy';
+import { isMissingTable } from '../supabase/helpers';
+
+type AnySupabaseClient = SupabaseClient<any, any, any>;
+
+export type WakeTimeSource = 'manual' | 'sleep_note' | 'fitness_tracker' | 'first_interaction' | 'default';
+
+export interface WakeTimeCandidate {
+  source: Exclude<WakeTimeSource, 'manual' | 'default'>;
+  wake_time: Date;
+  confidence: number; // 0.0-1.0
+  detail: string;
+  sleep_start?: Date; // When the sleep this candidate ends began, if known
+}
+
+export interface WakeTimeResolution {
+  wake_time: Date;
+  source: WakeTimeSource;
+  confidence: number;
+  explanation: string;
+  candidates: WakeTimeCandidate[];
+}
+
+export interface WakeTimeSleepEntry {
+  notes: string | null;
+  date: string | null;
+  logged_at: string | null;
+  habit_name?: string | null;
+  source?: string | null;
+}
+
+export interface WakeTimeFitnessMetric {
+  source: string;
+  confidence: number | null;
+  metadata: { endedAt?: string; startedAt?: string } | null;
+}
+
+/** Sources below this confidence fall back to the form's default wake time */
+export const WAKE_CONFIDENCE_THRESHOLD = 0.5;
+
+const SLEEP_NOTE_CONFIDENCE = 0.7;
+const FIRST_INTERACTION_CONFIDENCE = 0.55;
+const DEFAULT_CONFIDENCE = 0.3;
+const AGREEMENT_WINDOW_MINUTES = 30;
+const AGREEMENT_BONUS = 0.1;
+const MAX_CONFIDENCE = 0.95;
+// Sleep data may be a few minutes later than the first tap (clock drift, rounding)
+const INTERACTION_TOLERANCE_MINUTES = 10;
+// App activity earlier than this is the end of the previous evening
+const EARLIEST_WAKE_HOUR = 4;
+
+const SOURCE_LABELS: Record<WakeTimeCandidate['source'], string> = {
+  sleep_note: 'your sleep note',
+  fitness_tracker: 'your fitness tracker',
+  first_interaction: 'your first app activity today',
+};
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+function atTimeOfDay(planDate: Date, time: string): Date | null {
+  const [hours, minutes] = time.split(':').map((part) => Number.parseInt(part, 10));
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes) || hours > 23 || minutes > 59) {
+    return null;
+  }
+  const result = new Date(planDate);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+/**
+ * Wake candidate from a sleep note logged for the plan day or the night before
+ */
+export function sleepNoteWakeCandidate(entry: WakeTimeSleepEntry, planDate: Date): WakeTimeCandidate | null {
+  if (!entry.notes) return null;
+
+  const semanticType = entry.habit_name ? inferSemanticType(entry.habit_name) : null;
+  const parsed = parseNote(entry.notes, semanticType ?? undefined);
+  if (!parsed.sleep?.slept_to) return null;
+
+  const previousDay = new Date(planDate);
+  previousDay.setDate(previousDay.getDate() - 1);
+  const crossesMidnight = Boolean(parsed.sleep.slept_from && parsed.sleep.slept_from > parsed.sleep.slept_to);
+
+  // Yesterday's entry only describes last night when the range crosses midnight
+  if (entry.date === toDateString(previousDay) && !crossesMidnight) return null;
+  if (entry.date && entry.date !== toDateString(planDate) && entry.date !== toDateString(previousDay)) return null;
+
+  const wakeTime = atTimeOfDay(planDate, parsed.sleep.slept_to);
+  if (!wakeTime) return null;
+
+  const sleepStart = parsed.sleep.slept_from
+    ? atTimeOfDay(crossesMidnight ? previousDay : planDate, parsed.sleep.slept_from)
+    : null;
+
+  return {
+    source: 'sleep_note',
+    wake_time: wakeTime,
+    confidence: semanticType === SemanticType.SLEEP_PROXY ? SLEEP_NOTE_CONFIDENCE + 0.05 : SLEEP_NOTE_CONFIDENCE,
+    detail: `"${entry.notes.trim()}"`,
+    ...(sleepStart ? { sleep_start: sleepStart } : {}),
+  };
+}
+
+/**
+ * Wake candidate from a tracker sleep session that ended on the plan day
+ */
+export function fitnessSleepWakeCandidate(metric: WakeTimeFitnessMetric, planDate: Date): WakeTimeCandidate | null {
+  const endedAt = metric.metadata?.endedAt ? new Date(metric.metadata.endedAt) : null;
+  if (!endedAt || Number.isNaN(endedAt.getTime()) || !isSameDay(endedAt, planDate)) {
+    return null;
+  }
+
+  const startedAt = metric.metadata?.startedAt ? new Date(metric.metadata.startedAt) : null;
+
+  return {
+    source: 'fitness_tracker',
+    wake_time: endedAt,
+    confidence: Math.min(MAX_CONFIDENCE, metric.confidence ?? 0.8),
+    detail: `${metric.source.replace(/_/g, ' ')} sleep session`,
+    ...(startedAt && !Number.isNaN(startedAt.getTime()) ? { sleep_start: startedAt } : {}),
+  };
+}
+
+/**
+ * Whether a habit entry was written by an import rather than logged in the app
+ *
+ * Loop imports stamp logged_at with midnight UTC of the entry's date, which
+ * would otherwise read as the user being up at 00:00 (or 01:00 in summer).
+ */
+export function isBackfilledEntry(entry: WakeTimeSleepEntry): boolean {
+  if (entry.source?.startsWith('loop_')) return true;
+  if (!entry.logged_at || !entry.date) return false;
+  return new Date(entry.logged_at).getTime() === new Date(`${entry.date}T00:00:00.000Z`).getTime();
+}
+
+/**
+ * Whether app activity can mean the user was already up
+ *
+ * Activity before the earliest plausible wake time, or before last night's
+ * bedtime, is the night before (using the app at 00:30 before bed). Sleep
+ * starting after noon is a nap and says nothing about the morning.
+ */
+function isPlausibleWakeActivity(at: Date, sleepStarts: Date[]): boolean {
+  const earliestWake = new Date(at);
+  earliestWake.setHours(EARLIEST_WAKE_HOUR, 0, 0, 0);
+  if (at.getTime() < earliestWake.getTime()) return false;
+
+  const noon = new Date(at);
+  noon.setHours(12, 0, 0, 0);
+  return sleepStarts.every((start) => start.getTime() >= noon.getTime() || at.getTime() >= start.getTime());
+}
+
+/**
+ * Pick one wake time from the available candidates
+ *
+ * Sleep data that ends after the first app interaction is discarded (the
+ * user was demonstrably awake earlier). Interactions before bedtime or
+ * before 04:00 don't count. Two sleep sources agreeing within half an hour
+ * raise confidence.
+ */
+export function resolveWakeTime(input: {
+  requested: Date;
+  requestedIsManual: boolean;
+  candidates: WakeTimeCandidate[];
+  now?: Date;
+}): WakeTimeResolution {
+  const now = input.now ?? new Date();
+  const candidates = input.candidates.filter((candidate) => candidate.wake_time.getTime() <= now.getTime());
+
+  if (input.requestedIsManual) {
+    return {
+      wake_time: input.requested,
+      source: 'manual',
+      confidence: 1,
+      explanation: 'Using the wake time you entered.',
+      candidates,
+    };
+  }
+
+  const sleepStarts = candidates
+    .map((candidate) => candidate.sleep_start)
+    .filter((start): start is Date => Boolean(start));
+  const firstInteraction = candidates
+    .filter((candidate) => candidate.source === 'first_interaction')
+    .filter((candidate) => isPlausibleWakeActivity(candidate.wake_time, sleepStarts))
+    .sort((a, b) => a.wake_time.getTime() - b.wake_time.getTime())[0];
+
+  const latestPlausible = firstInteraction
+    ? firstInteraction.wake_time.getTime() + INTERACTION_TOLERANCE_MINUTES * 60000
+    : Number.POSITIVE_INFINITY;
+  const sleepCandidates = candidates
+    .filter((candidate) => candidate.source !== 'first_interaction')
+    .filter((candidate) => candidate.wake_time.getTime() <= latestPlausible)
+    .sort((a, b) => b.confidence - a.confidence);
+  const discarded = candidates.filter((candidate) => (
+    candidate.source !== 'first_interaction' && !sleepCandidates.includes(candidate)
+  ));
+
+  const best = sleepCandidates[0];
+  if (best) {
+    const agreeing = sleepCandidates.find((candidate) => (
+      candidate.source !== best.source &&
+      Math.abs(candidate.wake_time.getTime() - best.wake_time.getTime()) <= AGREEMENT_WINDOW_MINUTES * 60000
+    ));
+    const confidence = agreeing ? Math.min(MAX_CONFIDENCE, best.confidence + AGREEMENT_BONUS) : best.confidence;
+
+    if (confidence >= WAKE_CONFIDENCE_THRESHOLD) {
+      const parts = [`Detected from ${SOURCE_LABELS[best.source]} (${best.detail}).`];
+      if (agreeing) parts.push(`${capitalize(SOURCE_LABELS[agreeing.source])} agrees.`);
+      if (discarded.length > 0) {
+        parts.push(`Ignored ${discarded.map((candidate) => SOURCE_LABELS[candidate.source]).join(' and ')} (later than your first app activity).`);
+      }
+      return { wake_time: best.wake_time, source: best.source, confidence, explanation: parts.join(' '), candidates };
+    }
+  }
+
+  if (firstInteraction && firstInteraction.confidence >= WAKE_CONFIDENCE_THRESHOLD) {
+    return {
+      wake_time: firstInteraction.wake_time,
+      source: 'first_interaction',
+      confidence: firstInteraction.confidence,
+      explanation: discarded.length > 0
+        ? 'Your sleep data ends after your first app activity today, so using that activity as the latest you could have woken.'
+        : 'No sleep data for last night, so using your first app activity today as the latest you could have woken.',
+      candidates,
+    };
+  }
+
+  return {
+    wake_time: input.requested,
+    source: 'default',
+    confidence: DEFAULT_CONFIDENCE,
+    explanation: 'No sleep notes, tracker data or app activity yet, so using the default wake time.',
+    candidates,
+  };
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Gather wake candidates for a plan day
+ *
+ * Habit entries logged on the plan day also count as app interactions, so a
+ * first-interaction candidate exists even when the client did not send one.
+ * Imported entries and activity before 04:00 are left out. Missing tables (fitness_metrics is optional) just contribute nothing.
+ */
+export async function loadWakeTimeCandidates(
+  supabase: AnySupabaseClient,
+  userId: string,
+  planDate: Date,
+  firstInteractionAt?: Date | null
+): Promise<WakeTimeCandidate[]> {
+  const previousDay = new Date(planDate);
+  previousDay.setDate(previousDay.getDate() - 1);
+
+  const [{ data: entries, error: entriesError }, { data: metrics, error: metricsError }] = await Promise.all([
+    supabase
+      .from('habit_entries')
+      .select('notes, date, logged_at, source, habits(name)')
+      .eq('user_id', userId)
+      .gte('date', toDateString(previousDay))
+      .lte('date', toDateString(planDate)),
+    supabase
+      .from('fitness_metrics')
+      .select('source, confidence, metadata')
+      .eq('user_id', userId)
+      .eq('type', 'sleep_duration')
+      .gte('date', previousDay.toISOString()),
+  ]);
+
+  if (entriesError) {
+    console.warn('[Wake Time] Failed to load habit entries for wake detection:', entriesError.message);
+  }
+  if (metricsError && !isMissingTable(metricsError)) {
+    console.warn('[Wake Time] Failed to load fitness sleep data for wake detection:', metricsError.message);
+  }
+
+  const candidates: WakeTimeCandidate[] = [];
+  const interactions: Date[] = firstInteractionAt && isSameDay(firstInteractionAt, planDate) ? [firstInteractionAt] : [];
+
+  for (const raw of (entries || []) as Array<WakeTimeSleepEntry & { habits?: { name?: string } | null }>) {
+    const candidate = sleepNoteWakeCandidate({ ...raw, habit_name: raw.habits?.name ?? null }, planDate);
+    if (candidate) candidates.push(candidate);
+
+    const loggedAt = raw.logged_at ? new Date(raw.logged_at) : null;
+    if (loggedAt && !Number.isNaN(loggedAt.getTime()) && isSameDay(loggedAt, planDate) && !isBackfilledEntry(raw)) {
+      interactions.push(loggedAt);
+    }
+  }
+
+  for (const metric of (metrics || []) as WakeTimeFitnessMetric[]) {
+    const candidate = fitnessSleepWakeCandidate(metric, planDate);
+    if (candidate) candidates.push(candidate);
+  }
+
+  const sleepStarts = candidates
+    .map((candidate) => candidate.sleep_start)
+    .filter((start): start is Date => Boolean(start));
+  const wakeActivity = interactions.filter((at) => isPlausibleWakeActivity(at, sleepStarts));
+
+  if (wakeActivity.length > 0) {
+    const earliest = new Date(Math.min(...wakeActivity.map((date) => date.getTime())));
+    candidates.push({
+      source: 'first_interaction',
+      wake_time: earliest,
+      confidence: FIRST_INTERACTION_CONFIDENCE,
+      detail: 'first activity today',
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Resolve the wake time for a plan, never failing plan generation
+ */
+export async function resolveWakeTimeForPlan(
+  supabase: AnySupabaseClient,
+  userId: string,
+  planDate: Date,
+  options: { requested: Date; requestedIsManual: boolean; firstInteractionAt?: Date | null }
+): Promise<WakeTimeResolution> {
+  if (options.requestedIsManual) {
+    return resolveWakeTime({ requested: options.requested, requestedIsManual: true, candidates: [] });
+  }
+
+  try {
+    const candidates = await loadWakeTimeCandidates(supabase, userId, planDate, options.firstInteractionAt);
+    return resolveWakeTime({ requested: options.requested, requestedIsManual: false, candidates });
+  } catch (error) {
+    console.warn('[Wake Time] Wake detection failed, using requested wake time:', error);
+    return resolveWakeTime({ requested: options.requested, requestedIsManual: false, candidates: [] });
+  }
+}
@@ -1,23 +1,12 @@
 // src/lib/expenses/bank-statement-parser.ts - Multi-format Bank Statement Parser
 // Supports UK banks (Barclays, HSBC, Santander, etc.) + international formats
+// This is the CSV format of the statement ingestion pipeline (./statements)
 
-export interface ParsedTransaction {
-  date: string; // ISO date string
-  amount: number;
-  currency: string;
-  description: string;
-  merchant?: string;
-  reference?: string;
-  balance?: number;
-  transactionType: 'debit' | 'credit';
-  
-  // UK-specific fields
-  sortCode?: string;
-  accountNumber?: string;
-  
-  // Raw data for debugging
-  rawData: Record<string, any>;
-}
+import Papa from 'papaparse';
+import type { NormalizedTransaction } from './statements/types';
+
+/** @deprecated Use NormalizedTransaction from ./statements/types */
+export type ParsedTransaction = NormalizedTransaction;
 
 export interface BankFormat {
   name: string;
@@ -32,7 +21,10 @@ export interface BankFormat {
     description: string | number;
     balance?: string | number;
     reference?: string | number;
+    transactionId?: string | number; // The bank's unique ID for the transaction
     merchant?: string | number;
+    currency?: string | number; // Per-row currency, for multi-currency accounts
+    category?: string | number; // The bank's own category
   };
   currencySymbol: string;
 }
@@ -108,6 +100,52 @@ export const BANK_FORMATS: BankFormat[] = [
     currencySymbol: '£'
   },
   
+  {
+    name: 'Monzo UK',
+    identifier: 'Transaction ID,Date,Time,Type,Name,Emoji,Category,Amount,Currency',
+    country: 'UK',
+    dateFormat: 'DD/MM/YYYY',
+    columns: {
+      date: 1,
+      description: 4,
+      amount: 7,
+      currency: 8,
+      category: 6,
+      reference: 0,
+      transactionId: 0
+    },
+    currencySymbol: '£'
+  },
+  {
+    name: 'Starling UK',
+    identifier: 'Date,Counter Party,Reference,Type,Amount (GBP),Balance (GBP)',
+    country: 'UK',
+    dateFormat: 'DD/MM/YYYY',
+    columns: {
+      date: 0,
+      description: 1,
+      reference: 2,
+      amount: 4,
+      balance: 5,
+      category: 6
+    },
+    currencySymbol: '£'
+  },
+  {
+    name: 'Revolut',
+    identifier: 'Type,Product,Started Date,Completed Date,Description,Amount,Fee,Currency,State,Balance',
+    country: 'UK',
+    dateFormat: 'YYYY-MM-DD',
+    columns: {
+      date: 2,
+      description: 4,
+      amount: 5,
+      currency: 7,
+      balance: 9
+    },
+    currencySymbol: '£'
+  },
+
   // International Banks
   {
     name: 'Chase USA',
@@ -165,6 +203,23 @@ export const BANK_FORMATS: BankFormat[] = [
     currencySymbol: '₹'
   },
   
+  {
+    // Two title lines come before the header
+    name: 'Jupiter India',
+    identifier: 'Date,Value Date,Particulars,Tran Type,Cheque Details,Withdrawals,Deposits,Balance',
+    country: 'IN',
+    dateFormat: 'DD/MM/YYYY',
+    columns: {
+      date: 0,
+      description: 2,
+      reference: 4,
+      debit: 5,
+      credit: 6,
+      balance: 7
+    },
+    currencySymbol: '₹'
+  },
+
   // Generic formats
   {
     name: 'Generic CSV',
@@ -180,33 +235,69 @@ export const BANK_FORMATS: BankFormat[] = [
   }
 ];
 
+// Banks that put title lines above the header (Jupiter) still have it near the top
+const HEADER_SEARCH_ROWS = 10;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// toISOString would shift dates built at local midnight into the previous UTC day
+function toISODate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
 export class BankStatementParser {
-  private detectFormat(csvContent: string): BankFormat | null {
-    const lines = csvContent.trim().split('\n');
-    if (lines.length < 2) return null;
-    
-    const header = lines[0].toLowerCase();
-    
-    // Try to match against known formats
+  private readRows(csvContent: string, preview = 0): string[][] {
+    const result = Papa.parse<string[]>(csvContent.replace(/^\uFEFF/, '').trim(), {
+      skipEmptyLines: 'greedy',
+      preview,
+    });
+    return result.data;
+  }
+
+  /**
+   * The layout whose columns all appear in this header row. When several
+   * match (HSBC's four columns are also in a Lloyds header), the one naming
+   * the most columns wins.
+   */
+  private matchHeader(row: string[]): BankFormat | null {
+    const header = row.join(',').toLowerCase();
+    let best: { format: BankFormat; columns: number } | null = null;
+
     for (const format of BANK_FORMATS) {
-      const identifierLower = format.identifier.toLowerCase();
-      
-      // Check if header contains all required columns
-      const requiredColumns = identifierLower.split(',').map(col => col.trim());
-      const headerMatches = requiredColumns.every(col => 
+      const requiredColumns = format.identifier.toLowerCase().split(',').map(col => col.trim());
+      const headerMatches = requiredColumns.every(col =>
         header.includes(col) || this.findSimilarColumn(header, col)
       );
-      
-      if (headerMatches) {
-        return format;
+
+      if (headerMatches && (!best || requiredColumns.length > best.columns)) {
+        best = { format, columns: requiredColumns.length };
       }
     }
-    
+
+    if (best) return best.format;
+
     // Fallback to generic format if common columns are found
     if (header.includes('date') && header.includes('amount') && header.includes('description')) {
       return BANK_FORMATS.find(f => f.name === 'Generic CSV') || null;
     }
-    
+
+    return null;
+  }
+
+  /**
+   * Find the header row and the bank layout it belongs to
+   */
+  public detectFormat(csvContent: string): { format: BankFormat; headerRow: number } | null {
+    const rows = this.readRows(csvContent, HEADER_SEARCH_ROWS + 1);
+    if (rows.length < 2) return null;
+
+    for (let i = 0; i < Math.min(rows.length - 1, HEADER_SEARCH_ROWS); i++) {
+      const format = this.matchHeader(rows[i]);
+      if (format) return { format, headerRow: i };
+    }
+
     return null;
   }
   
@@ -227,10 +318,13 @@ export class BankStatementParser {
   private parseDate(dateStr: string, format: string): string {
     // Clean the date string
     const cleaned = dateStr.trim().replace(/['"]/g, '');
-    
-    try {
-      let date: Date;
-      
+    let date: Date;
+
+    // ISO dates are unambiguous whatever the layout says
+    const iso = cleaned.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) {
+      date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    } else {
       switch (format) {
         case 'DD/MM/YYYY':
           const [day1, month1, year1] = cleaned.split('/').map(Number);
@@ -261,16 +355,14 @@ export class BankStatementParser {
         default:
           date = new Date(cleaned);
       }
-      
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid date');
-      }
-      
-      return date.toISOString().split('T')[0];
-    } catch (error) {
-      console.warn('Date parsing failed:', dateStr, format, error);
-      return new Date().toISOString().split('T')[0];
     }
+    
+    // A row is better reported than filed under today
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date "${dateStr}" for ${format}`);
+    }
+    
+    return toISODate(date);
   }
   
   private parseAmount(amountStr: string, currencySymbol: string): number {
@@ -373,48 +465,52 @@ export class BankStatementParser {
     return { merchant };
   }
   
-  public parseCSV(csvContent: string): {
-    transactions: ParsedTransaction[];
+  public parseCSV(csvContent: string, defaultCurrency = 'USD'): {
+    transactions: NormalizedTransaction[];
     format: BankFormat | null;
     errors: string[];
   } {
     const errors: string[] = [];
-    const transactions: ParsedTransaction[] = [];
+    const transactions: NormalizedTransaction[] = [];
     
     try {
       // Detect format
-      const format = this.detectFormat(csvContent);
-      if (!format) {
+      const detected = this.detectFormat(csvContent);
+      if (!detected) {
         errors.push('Could not detect bank statement format');
         return { transactions: [], format: null, errors };
       }
       
-      const lines = csvContent.trim().split('\n');
-      const dataLines = lines.slice(1); // Skip header
+      const { format, headerRow } = detected;
+      // Papa keeps quoted fields that span lines together
+      const rows = this.readRows(csvContent);
+      const header = rows[headerRow].map(col => col.trim().toLowerCase());
+      const categoryColumn = format.columns.category ??
+        header.findIndex(col => col === 'category' || col === 'spending category');
+      const cell = (fields: string[], column: string | number | undefined): string =>
+        typeof column === 'number' && column >= 0 ? fields[column] ?? '' : '';
       
-      for (let i = 0; i < dataLines.length; i++) {
+      for (let i = headerRow + 1; i < rows.length; i++) {
+        const rowNumber = i + 1;
         try {
-          const line = dataLines[i].trim();
-          if (!line) continue;
-          
-          // Parse CSV line (handle quoted fields)
-          const fields = this.parseCSVLine(line);
+          const fields = rows[i].map(field => field.trim());
           
           // Extract date
           const dateField = typeof format.columns.date === 'number' 
             ? fields[format.columns.date] 
-            : fields.find((_, idx) => idx === 0); // Default to first column
+            : fields[0]; // Default to first column
           
-          if (!dateField) continue;
+          // Title, footer and summary rows
+          if (!dateField || !/^\d/.test(dateField)) continue;
           
           const date = this.parseDate(dateField, format.dateFormat);
           
           // Extract description
           const descriptionField = typeof format.columns.description === 'number'
             ? fields[format.columns.description]
-            : fields.find((_, idx) => idx === 1); // Default to second column
+            : fields[1]; // Default to second column
           
-          const description = descriptionField || 'Unknown transaction';
+          const description = descriptionField?.replace(/\s+/g, ' ') || 'Unknown transaction';
           
           // Extract amount
           let amount = 0;
@@ -422,21 +518,13 @@ export class BankStatementParser {
           
           if (format.columns.amount !== undefined) {
             // Single amount column
-            const amountField = typeof format.columns.amount === 'number'
-              ? fields[format.columns.amount]
-              : '';
-            amount = this.parseAmount(amountField, format.currencySymbol);
+            amount = this.parseAmount(cell(fields, format.columns.amount), format.currencySymbol);
             transactionType = amount < 0 ? 'debit' : 'credit';
             amount = Math.abs(amount);
           } else {
             // Separate debit/credit columns
-            const debitField = format.columns.debit !== undefined && typeof format.columns.debit === 'number'
-              ? fields[format.columns.debit] : '';
-            const creditField = format.columns.credit !== undefined && typeof format.columns.credit === 'number'
-              ? fields[format.columns.credit] : '';
-            
-            const debitAmount = this.parseAmount(debitField, format.currencySymbol);
-            const creditAmount = this.parseAmount(creditField, format.currencySymbol);
+            const debitAmount = this.parseAmount(cell(fields, format.columns.debit), format.currencySymbol);
+            const creditAmount = this.parseAmount(cell(fields, format.columns.credit), format.currencySymbol);
             
             if (debitAmount > 0) {
               amount = debitAmount;
@@ -451,47 +539,48 @@ export class BankStatementParser {
           if (amount === 0) continue;
           
           // Extract balance if available
-          let balance: number | undefined;
-          if (format.columns.balance !== undefined && typeof format.columns.balance === 'number') {
-            const balanceField = fields[format.columns.balance];
-            if (balanceField) {
-              balance = this.parseAmount(balanceField, format.currencySymbol);
-            }
-          }
+          const balanceField = cell(fields, format.columns.balance);
+          const balance = balanceField ? this.parseAmount(balanceField, format.currencySymbol) : undefined;
           
           // Extract merchant and categorize
           const { merchant } = this.categorizeDescription(description);
           
+          const currencyField = cell(fields, format.columns.currency).toUpperCase();
+          
           // Build transaction
-          const transaction: ParsedTransaction = {
+          const transaction: NormalizedTransaction = {
             date,
             amount,
-            currency: format.country === 'UK' ? 'GBP' : 
+            currency: /^[A-Z]{3}$/.test(currencyField) ? currencyField :
+                     format.country === 'UK' ? 'GBP' : 
                      format.country === 'US' ? 'USD' :
-                     format.country === 'IN' ? 'INR' : 'USD',
+                     format.country === 'IN' ? 'INR' : defaultCurrency,
             description,
             merchant,
             balance,
             transactionType,
+            bankCategory: cell(fields, categoryColumn) || undefined,
             rawData: {
               format: format.name,
-              lineNumber: i + 2, // +2 because we skip header and arrays are 0-indexed
+              lineNumber: rowNumber,
               originalFields: fields
             }
           };
           
           // Add reference if available
-          if (format.columns.reference !== undefined && typeof format.columns.reference === 'number') {
-            const referenceField = fields[format.columns.reference];
-            if (referenceField) {
-              transaction.reference = referenceField;
-            }
+          const referenceField = cell(fields, format.columns.reference);
+          if (referenceField) {
+            transaction.reference = referenceField;
+          }
+          const transactionIdField = cell(fields, format.columns.transactionId);
+          if (transactionIdField) {
+            transaction.bankTransactionId = transactionIdField;
           }
           
           transactions.push(transaction);
           
         } catch (error) {
-          errors.push(`Line ${i + 2}: ${error instanceof Error ? error.message : String(error)}`);
+          errors.push(`Line ${rowNumber}: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
       
@@ -503,38 +592,6 @@ export class BankStatementParser {
     }
   }
   
-  private parseCSVLine(line: string): string[] {
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Escaped quote
-          current += '"';
-          i++; // Skip next quote
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        // Field separator
-        fields.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    // Don't forget the last field
-    fields.push(current.trim());
-    
-    return fields;
-  }
-  
   public getSupportedFormats(): BankFormat[] {
     return BANK_FORMATS;
   }
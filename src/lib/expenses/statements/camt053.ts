@@ -0,0 +1,112 @@
+// src/lib/expenses/statements/camt053.ts - ISO 20022 CAMT.053 bank-to-customer statements
+//
+// Reads every booked entry (Ntry) of every statement (Stmt) in the file.
+// Pending entries are left out; they come back booked, sometimes for a
+// different amount, in a later statement.
+import { decodeEntities, elementText, elements, stripNamespacePrefixes } from './markup';
+import type { NormalizedTransaction, StatementFormat, StatementParseResult } from './types';
+
+function entryDate(entry: string): string | undefined {
+  for (const tag of ['BookgDt', 'ValDt']) {
+    const [dateElement] = elements(entry, tag);
+    const date = elementText(dateElement, 'Dt') ?? elementText(dateElement, 'DtTm');
+    if (date && /^\d{4}-\d{2}-\d{2}/.test(date)) return date.slice(0, 10);
+  }
+  return undefined;
+}
+
+// The entry's own amount comes before any in its transaction details
+function entryAmount(entry: string): { amount: number; currency?: string } | null {
+  const match = entry.match(/<Amt(?:\s+Ccy="([A-Za-z]{3})")?\s*>\s*([\d.]+)\s*<\/Amt>/);
+  return match ? { amount: parseFloat(match[2]), currency: match[1]?.toUpperCase() } : null;
+}
+
+// Who was paid for debits, who paid for credits
+function counterparty(entry: string, isDebit: boolean): string | undefined {
+  const [party] = elements(entry, isDebit ? 'Cdtr' : 'Dbtr');
+  return elementText(party, 'Nm');
+}
+
+function usableReference(value: string | undefined): string | undefined {
+  return value && value.toUpperCase() !== 'NOTPROVIDED' ? value : undefined;
+}
+
+export const camt053Format: StatementFormat = {
+  id: 'camt053',
+  name: 'CAMT.053',
+  extensions: ['.xml'],
+
+  detect(content) {
+    return /camt\.053/i.test(content.slice(0, 1000)) || /<([\w.-]+:)?BkToCstmrStmt[\s>]/.test(content);
+  },
+
+  parse(content, options = {}): StatementParseResult {
+    const document = stripNamespacePrefixes(content);
+    const transactions: NormalizedTransaction[] = [];
+    const errors: string[] = [];
+    let account: string | undefined;
+    let start: string | undefined;
+    let end: string | undefined;
+
+    elements(document, 'Stmt').forEach((statement, statementIndex) => {
+      const [accountElement] = elements(statement, 'Acct');
+      const accountCurrency = elementText(accountElement, 'Ccy');
+      account ??= elementText(accountElement, 'IBAN') ?? elementText(accountElement, 'Othr');
+
+      const [period] = elements(statement, 'FrToDt');
+      const from = (elementText(period, 'FrDtTm') ?? elementText(period, 'FrDt'))?.slice(0, 10);
+      const to = (elementText(period, 'ToDtTm') ?? elementText(period, 'ToDt'))?.slice(0, 10);
+      if (from && (!start || from < start)) start = from;
+      if (to && (!end || to > end)) end = to;
+
+      elements(statement, 'Ntry').forEach((entry, entryIndex) => {
+        const position = `Statement ${statementIndex + 1}, entry ${entryIndex + 1}`;
+        const status = elementText(entry, 'Sts');
+        if (status && status.toUpperCase() !== 'BOOK') return;
+
+        const date = entryDate(entry);
+        const amount = entryAmount(entry);
+        const indicator = elementText(entry, 'CdtDbtInd');
+        if (!date || !amount || !Number.isFinite(amount.amount) || (indicator !== 'DBIT' && indicator !== 'CRDT')) {
+          errors.push(`${position}: missing booking date, amount or CdtDbtInd`);
+          return;
+        }
+        if (amount.amount === 0) return;
+
+        const isDebit = indicator === 'DBIT';
+        const party = counterparty(entry, isDebit);
+        const remittance = elements(entry, 'Ustrd').map((line) => decodeEntities(line).trim()).filter(Boolean);
+        const description =
+          elementText(entry, 'AddtlNtryInf') ?? ([party, ...remittance].filter(Boolean).join(' ') || 'Unknown transaction');
+
+        transactions.push({
+          date,
+          amount: amount.amount,
+          currency: amount.currency ?? accountCurrency ?? options.defaultCurrency ?? 'EUR',
+          description,
+          merchant: party,
+          reference:
+            usableReference(elementText(entry, 'AcctSvcrRef')) ??
+            usableReference(elementText(entry, 'NtryRef')) ??
+            usableReference(elementText(entry, 'EndToEndId')),
+        bankTransactionId: usableReference(elementText(entry, 'AcctSvcrRef')),
+          transactionType: isDebit ? 'debit' : 'credit',
+          rawData: {
+            format: 'CAMT.053',
+            statement: statementIndex + 1,
+            entry: entryIndex + 1,
+            bankTransactionCode: elementText(entry, 'BkTxCd'),
+          },
+        });
+      });
+    });
+
+    return {
+      transactions,
+      errors,
+      layout: 'CAMT.053',
+      account,
+      period: start && end ? { start, end } : undefined,
+    };
+  },
+};
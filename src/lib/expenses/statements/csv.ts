@@ -0,0 +1,18 @@
+// src/lib/expenses/statements/csv.ts - Bank CSV exports, laid out as in BANK_FORMATS
+import { bankParser } from '../bank-statement-parser';
+import type { StatementFormat, StatementParseResult } from './types';
+
+export const csvFormat: StatementFormat = {
+  id: 'csv',
+  name: 'CSV',
+  extensions: ['.csv', '.txt'],
+
+  detect(content) {
+    return bankParser.detectFormat(content) !== null;
+  },
+
+  parse(content, options = {}): StatementParseResult {
+    const { transactions, format, errors } = bankParser.parseCSV(content, options.defaultCurrency);
+    return { transactions, errors, layout: format?.name ?? null };
+  },
+};
@@ -0,0 +1,62 @@
+// src/lib/expenses/statements/imported-hashes.ts - Content hashes already in the database
+//
+// expenses keeps the hashes in its content_hash and match_hash columns; bank
+// rows imported as metrics keep them in metadata.content_hash and
+// metadata.match_hash.
+import { isMissingTable } from '../../supabase/helpers';
+
+export type StatementImportTarget = 'expenses' | 'metrics';
+export type StatementHashColumn = 'content_hash' | 'match_hash';
+
+const HASH_COLUMNS: Record<StatementImportTarget, Record<StatementHashColumn, { select: string; filter: string }>> = {
+  expenses: {
+    content_hash: { select: 'hash:content_hash', filter: 'content_hash' },
+    match_hash: { select: 'hash:match_hash', filter: 'match_hash' },
+  },
+  metrics: {
+    content_hash: { select: 'hash:metadata->>content_hash', filter: 'metadata->>content_hash' },
+    match_hash: { select: 'hash:metadata->>match_hash', filter: 'metadata->>match_hash' },
+  },
+};
+
+// Keeps each lookup's URL a sensible length
+const LOOKUP_CHUNK_SIZE = 50;
+
+/**
+ * Which of these hashes the user has already imported
+ *
+ * @param column - Look among content hashes, or among match hashes
+ */
+export async function findImportedHashes(
+  supabaseClient: any,
+  userId: string,
+  target: StatementImportTarget,
+  hashes: string[],
+  column: StatementHashColumn = 'content_hash'
+): Promise<Set<string>> {
+  const found = new Set<string>();
+  const columns = HASH_COLUMNS[target][column];
+
+  for (let i = 0; i < hashes.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabaseClient
+      .from(target)
+      .select(columns.select)
+      .eq('user_id', userId)
+      .in(columns.filter, hashes.slice(i, i + LOOKUP_CHUNK_SIZE));
+
+    if (error) {
+      // 42703: the column is missing (before the hash migrations)
+      if (isMissingTable(error) || error.code === '42703') {
+        console.warn(`[Statements] No ${column} on ${target}, importing without those duplicate checks`);
+        return found;
+      }
+      throw new Error(`Failed to look up imported transactions: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      if (row.hash) found.add(row.hash);
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,215 @@
+// src/lib/expenses/statements/ingestion.ts - One way in for every bank statement
+//
+// Detects the file's format, reads it into NormalizedTransactions, gives each
+// one a content hash and categorizes the new ones once with AutoCategorizer.
+// The hash covers what a transaction is rather than which file it came in:
+// the bank's own transaction ID where the format has one, otherwise its date
+// and amount. Overlapping statement periods, or the same month downloaded as
+// CSV and again as QIF, don't import anything twice.
+import { autoCategorizer } from '../auto-categorizer';
+import { camt053Format } from './camt053';
+import { csvFormat } from './csv';
+import { ofxFormat } from './ofx';
+import { qifFormat } from './qif';
+import type {
+  NormalizedTransaction,
+  StatementFormat,
+  StatementFormatId,
+  StatementParseOptions,
+  StatementParseResult,
+} from './types';
+
+// Strictest detection first; almost anything with a date column passes as CSV
+export const STATEMENT_FORMATS: StatementFormat[] = [camt053Format, ofxFormat, qifFormat, csvFormat];
+
+export const STATEMENT_FILE_EXTENSIONS = Array.from(new Set(STATEMENT_FORMATS.flatMap((format) => format.extensions)));
+
+export type TransactionCategorization = ReturnType<typeof autoCategorizer.categorizeTransaction>;
+
+export interface IngestedTransaction extends NormalizedTransaction {
+  /** SHA-256 of account and bank transaction ID, or of account, date, signed amount and currency */
+  contentHash: string;
+  /**
+   * SHA-256 of account, date, signed amount and currency, even when the bank
+   * gave an ID: what a CSV or QIF export of the same transaction hashes to
+   */
+  matchHash: string;
+  categorization: TransactionCategorization;
+}
+
+export interface StatementReadOptions extends StatementParseOptions {
+  fileName?: string;
+  /** Read as this format instead of detecting one */
+  format?: StatementFormatId;
+}
+
+export interface StatementIngestOptions extends StatementReadOptions {
+  /** Which of the user's accounts this is; the same transaction in two accounts is two transactions */
+  accountKey?: string;
+  /** For AutoCategorizer; defaults to UK for sterling transactions */
+  userCountry?: string;
+  userSettings?: any;
+  /** Which of these hashes are already imported (as content hashes) */
+  findExistingHashes?: (hashes: string[]) => Promise<Set<string>>;
+  /** Which of these hashes earlier imports stored as match hashes */
+  findExistingMatchHashes?: (hashes: string[]) => Promise<Set<string>>;
+}
+
+export interface StatementReadResult extends StatementParseResult {
+  format: StatementFormatId | null;
+}
+
+export interface StatementIngestResult {
+  format: StatementFormatId | null;
+  layout: string | null;
+  /** Transactions not imported before, in statement order */
+  transactions: IngestedTransaction[];
+  /** Transactions an earlier statement already brought in */
+  duplicatesSkipped: number;
+  errors: string[];
+  account?: string;
+  period?: { start: string; end: string };
+}
+
+export function detectStatementFormat(content: string, fileName?: string): StatementFormat | null {
+  return STATEMENT_FORMATS.find((format) => format.detect(content, fileName)) ?? null;
+}
+
+/**
+ * Read a statement file without hashing or categorizing it
+ */
+export function parseStatement(content: string, options: StatementReadOptions = {}): StatementReadResult {
+  const format = options.format
+    ? STATEMENT_FORMATS.find((candidate) => candidate.id === options.format) ?? null
+    : detectStatementFormat(content, options.fileName);
+
+  if (!format) {
+    return {
+      format: null,
+      layout: null,
+      transactions: [],
+      errors: [
+        options.format
+          ? `Unknown statement format: ${options.format}`
+          : `Could not detect the statement format; supported: ${STATEMENT_FORMATS.map((f) => f.name).join(', ')}`,
+      ],
+    };
+  }
+
+  const result = format.parse(content, options);
+  const dates = result.transactions.map((transaction) => transaction.date).sort();
+  const period = result.period ?? (dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : undefined);
+
+  return { ...result, format: format.id, period };
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hashKeys(keys: string[]): Promise<string[]> {
+  const occurrences = new Map<string, number>();
+  return Promise.all(
+    keys.map((key) => {
+      const occurrence = occurrences.get(key) ?? 0;
+      occurrences.set(key, occurrence + 1);
+      return sha256(`${key}|${occurrence}`);
+    })
+  );
+}
+
+function amountKey(transaction: NormalizedTransaction, accountKey: string): string {
+  const minorUnits = Math.round(transaction.amount * 100) * (transaction.transactionType === 'debit' ? -1 : 1);
+  return [accountKey, transaction.date, minorUnits, transaction.currency.toUpperCase()].join('|');
+}
+
+/**
+ * Content hashes, one per transaction
+ *
+ * A transaction the bank gave an ID is hashed by that ID, so a renamed payee
+ * in a later download is still the same transaction. Without one, the
+ * description is left out: banks word it differently between formats and
+ * downloads (OFX joins NAME and MEMO). Two coffees of the same price on the
+ * same day are told apart by their position among identical lines, which is
+ * the same in every statement that covers that day.
+ */
+export async function hashTransactions(transactions: NormalizedTransaction[], accountKey = ''): Promise<string[]> {
+  return hashKeys(
+    transactions.map((transaction) =>
+      transaction.bankTransactionId
+        ? [accountKey, 'id', transaction.bankTransactionId].join('|')
+        : amountKey(transaction, accountKey)
+    )
+  );
+}
+
+/**
+ * Date and amount hashes, one per transaction, whether or not it has a bank ID
+ *
+ * Formats without IDs (CSV, QIF) only have these to go on, so an OFX or
+ * CAMT.053 download is matched against them too. For transactions without
+ * an ID they equal the content hash.
+ */
+export function matchHashTransactions(transactions: NormalizedTransaction[], accountKey = ''): Promise<string[]> {
+  return hashKeys(transactions.map((transaction) => amountKey(transaction, accountKey)));
+}
+
+/**
+ * Read, dedupe and categorize a statement file
+ */
+export async function ingestStatement(content: string, options: StatementIngestOptions = {}): Promise<StatementIngestResult> {
+  const statement = parseStatement(content, options);
+  const hashes = await hashTransactions(statement.transactions, options.accountKey);
+  const matchHashes = await matchHashTransactions(statement.transactions, options.accountKey);
+  const withId = statement.transactions.map((transaction) => Boolean(transaction.bankTransactionId));
+
+  // A transaction with an ID is also looked for among earlier imports without
+  // one, and one without an ID among the match hashes of earlier imports with
+  // one. Two transactions that both have IDs are never matched by date and
+  // amount, so a new payment beside an identical one isn't mistaken for it.
+  const existing =
+    options.findExistingHashes && hashes.length > 0
+      ? await options.findExistingHashes(Array.from(new Set([...hashes, ...matchHashes.filter((_, i) => withId[i])])))
+      : new Set<string>();
+  const idlessHashes = matchHashes.filter((_, i) => !withId[i]);
+  const existingMatches =
+    options.findExistingMatchHashes && idlessHashes.length > 0
+      ? await options.findExistingMatchHashes(idlessHashes)
+      : new Set<string>();
+
+  const transactions: IngestedTransaction[] = [];
+  let duplicatesSkipped = 0;
+
+  statement.transactions.forEach((transaction, i) => {
+    const duplicate = withId[i]
+      ? existing.has(hashes[i]) || existing.has(matchHashes[i])
+      : existing.has(hashes[i]) || existingMatches.has(hashes[i]);
+    if (duplicate) {
+      duplicatesSkipped++;
+      return;
+    }
+    transactions.push({
+      ...transaction,
+      contentHash: hashes[i],
+      matchHash: matchHashes[i],
+      categorization: autoCategorizer.categorizeTransaction(
+        transaction.description,
+        transaction.merchant,
+        transaction.amount,
+        options.userCountry ?? (transaction.currency === 'GBP' ? 'UK' : undefined),
+        options.userSettings
+      ),
+    });
+  });
+
+  return {
+    format: statement.format,
+    layout: statement.layout,
+    transactions,
+    duplicatesSkipped,
+    errors: statement.errors,
+    account: statement.account,
+    period: statement.period,
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/expenses/statements/markup.ts - Tag helpers for OFX and CAMT.053
+//
+// Statement files are small and regular, so plain pattern matching reads
+// them without an XML parser. That works on the server too, where there is
+// no DOMParser, and copes with OFX 1.x SGML, which leaves tags unclosed.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Drop namespace prefixes from tag names, so <ns2:Ntry> reads as <Ntry>
+ */
+export function stripNamespacePrefixes(xml: string): string {
+  return xml.replace(/<(\/?)[\w.-]+:/g, '<$1');
+}
+
+/**
+ * The inner markup of every <tag> element, in document order
+ */
+export function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+/**
+ * The text of the first <tag> element, with any child tags removed
+ */
+export function elementText(xml: string | undefined, tag: string): string | undefined {
+  if (!xml) return undefined;
+  const [inner] = elements(xml, tag);
+  if (inner === undefined) return undefined;
+  const text = decodeEntities(inner.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+/**
+ * The value of an OFX tag. SGML OFX leaves leaf tags unclosed, so the value
+ * runs to the next tag or line end.
+ */
+export function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || undefined;
+}
@@ -0,0 +1,74 @@
+// src/lib/expenses/statements/ofx.ts - OFX / QFX statements (1.x SGML and 2.x XML)
+import { ofxValue } from './markup';
+import type { NormalizedTransaction, StatementFormat, StatementParseResult } from './types';
+
+const TRANSACTION_BLOCK = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi;
+
+// 20240115, 20240115120000 or 20240115120000.000[-5:EST]; the day is what counts
+function parseOfxDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parseOfxAmount(value: string | undefined): number {
+  // Some European banks write decimal commas
+  return parseFloat((value ?? '').replace(',', '.').replace(/[^\d.+-]/g, ''));
+}
+
+export const ofxFormat: StatementFormat = {
+  id: 'ofx',
+  name: 'OFX',
+  extensions: ['.ofx', '.qfx'],
+
+  detect(content) {
+    return /OFXHEADER/i.test(content.slice(0, 500)) || /<OFX>/i.test(content);
+  },
+
+  parse(content, options = {}): StatementParseResult {
+    const transactions: NormalizedTransaction[] = [];
+    const errors: string[] = [];
+    const currency = ofxValue(content, 'CURDEF') ?? options.defaultCurrency ?? 'GBP';
+    const start = parseOfxDate(ofxValue(content, 'DTSTART'));
+    const end = parseOfxDate(ofxValue(content, 'DTEND'));
+
+    let index = 0;
+    for (const [, block] of content.matchAll(TRANSACTION_BLOCK)) {
+      index++;
+      const date = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+      const amount = parseOfxAmount(ofxValue(block, 'TRNAMT'));
+      if (!date || !Number.isFinite(amount)) {
+        errors.push(`Transaction ${index}: missing DTPOSTED or TRNAMT`);
+        continue;
+      }
+      if (amount === 0) continue;
+
+      const name = ofxValue(block, 'NAME') ?? ofxValue(block, 'PAYEE');
+      const memo = ofxValue(block, 'MEMO');
+      const description = [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' ');
+
+      transactions.push({
+        date,
+        amount: Math.abs(amount),
+        currency: ofxValue(block, 'CURSYM') ?? currency,
+        description: description || 'Unknown transaction',
+        merchant: name,
+        reference: ofxValue(block, 'FITID') ?? ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM'),
+        bankTransactionId: ofxValue(block, 'FITID'),
+        transactionType: amount < 0 ? 'debit' : 'credit',
+        rawData: {
+          format: 'OFX',
+          transactionIndex: index,
+          type: ofxValue(block, 'TRNTYPE'),
+        },
+      });
+    }
+
+    return {
+      transactions,
+      errors,
+      layout: 'OFX',
+      account: ofxValue(content, 'ACCTID'),
+      period: start && end ? { start, end } : undefined,
+    };
+  },
+};
@@ -0,0 +1,124 @@
+// src/lib/expenses/statements/qif.ts - Quicken Interchange Format statements
+//
+// One field per line, keyed by its first character, with ^ ending each
+// record. Dates have no fixed order: US exports are month first, UK ones day
+// first, so the whole file is checked for a part that can only be a day.
+import type { NormalizedTransaction, StatementFormat, StatementParseResult } from './types';
+
+interface QifRecord {
+  fields: Record<string, string>;
+  line: number;
+}
+
+type DateOrder = 'dmy' | 'mdy';
+
+function readRecords(content: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let fields: Record<string, string> = {};
+  let startLine = 0;
+
+  content.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('!')) return;
+    if (line.startsWith('^')) {
+      if (Object.keys(fields).length > 0) records.push({ fields, line: startLine });
+      fields = {};
+      return;
+    }
+    if (Object.keys(fields).length === 0) startLine = i + 1;
+    const key = line[0].toUpperCase();
+    // Split transactions (S/E/$) repeat; the record's own fields come first
+    if (!(key in fields)) fields[key] = line.slice(1).trim();
+  });
+  if (Object.keys(fields).length > 0) records.push({ fields, line: startLine });
+
+  return records;
+}
+
+interface QifDate {
+  year: number;
+  first: number;
+  second: number;
+  /** 2024-01-15: the order is known */
+  iso: boolean;
+}
+
+// "15/01/2024", "1/15'24", "01-15-2024" or "2024-01-15"
+function readDate(value: string): QifDate | null {
+  const cleaned = value.replace(/\s+/g, '').replace("'", '/');
+  const iso = cleaned.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (iso) return { year: Number(iso[1]), first: Number(iso[2]), second: Number(iso[3]), iso: true };
+
+  const match = cleaned.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  return { year, first: Number(match[1]), second: Number(match[2]), iso: false };
+}
+
+function detectDateOrder(records: QifRecord[]): DateOrder {
+  for (const { fields } of records) {
+    const date = fields.D ? readDate(fields.D) : null;
+    if (!date || date.iso) continue;
+    if (date.first > 12) return 'dmy';
+    if (date.second > 12) return 'mdy';
+  }
+  // Nothing decides it; this app's banks are mostly UK ones
+  return 'dmy';
+}
+
+function parseQifDate(value: string, order: DateOrder): string | null {
+  const date = readDate(value);
+  if (!date) return null;
+
+  const [month, day] = date.iso || order === 'mdy' ? [date.first, date.second] : [date.second, date.first];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${date.year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export const qifFormat: StatementFormat = {
+  id: 'qif',
+  name: 'QIF',
+  extensions: ['.qif'],
+
+  detect(content, fileName) {
+    return /^\s*!(Type|Account|Option)/i.test(content) || (!!fileName?.toLowerCase().endsWith('.qif') && /^\^/m.test(content));
+  },
+
+  parse(content, options = {}): StatementParseResult {
+    const records = readRecords(content);
+    const order = detectDateOrder(records);
+    const transactions: NormalizedTransaction[] = [];
+    const errors: string[] = [];
+
+    for (const { fields, line } of records) {
+      const date = fields.D ? parseQifDate(fields.D, order) : null;
+      const amount = parseFloat((fields.T ?? fields.U ?? '').replace(/,/g, ''));
+      if (!date || !Number.isFinite(amount)) {
+        errors.push(`Line ${line}: missing or unreadable date or amount`);
+        continue;
+      }
+      if (amount === 0) continue;
+
+      const payee = fields.P || undefined;
+      const memo = fields.M || undefined;
+
+      transactions.push({
+        date,
+        amount: Math.abs(amount),
+        currency: options.defaultCurrency ?? 'GBP',
+        description: [payee, memo && memo !== payee ? memo : undefined].filter(Boolean).join(' ') || 'Unknown transaction',
+        merchant: payee,
+        reference: fields.N || undefined,
+        transactionType: amount < 0 ? 'debit' : 'credit',
+        bankCategory: fields.L || undefined,
+        rawData: {
+          format: 'QIF',
+          lineNumber: line,
+          dateOrder: order,
+        },
+      });
+    }
+
+    return { transactions, errors, layout: 'QIF' };
+  },
+};
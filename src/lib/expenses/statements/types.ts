@@ -0,0 +1,53 @@
+// src/lib/expenses/statements/types.ts - Shapes shared by every statement format
+
+export type StatementFormatId = 'csv' | 'ofx' | 'qif' | 'camt053';
+
+/**
+ * One statement line, whatever file it came from
+ */
+export interface NormalizedTransaction {
+  date: string; // ISO date (YYYY-MM-DD)
+  amount: number; // Always positive; transactionType carries the sign
+  currency: string;
+  description: string;
+  merchant?: string;
+  reference?: string;
+  /** The bank's own unique ID for the transaction (OFX FITID, CAMT.053 AcctSvcrRef), kept across downloads */
+  bankTransactionId?: string;
+  balance?: number;
+  transactionType: 'debit' | 'credit';
+  /** The bank's own category, where the statement has one */
+  bankCategory?: string;
+
+  // UK-specific fields
+  sortCode?: string;
+  accountNumber?: string;
+
+  // Raw data for debugging
+  rawData: Record<string, any>;
+}
+
+export interface StatementParseResult {
+  transactions: NormalizedTransaction[];
+  errors: string[];
+  /** The bank layout or standard the file was read as, e.g. "Monzo UK" or "OFX" */
+  layout: string | null;
+  /** Account number or IBAN, when the file states it */
+  account?: string;
+  /** Statement period, when the file states it */
+  period?: { start: string; end: string };
+}
+
+export interface StatementParseOptions {
+  /** For files that don't say which currency they are in, like QIF or generic CSV */
+  defaultCurrency?: string;
+}
+
+export interface StatementFormat {
+  id: StatementFormatId;
+  name: string;
+  /** File extensions this format is usually saved with */
+  extensions: string[];
+  detect(content: string, fileName?: string): boolean;
+  parse(content: string, options?: StatementParseOptions): StatementParseResult;
+}
@@ -0,0 +1,290 @@
+// src/lib/expenses/subscription-detector.ts - Recurring payments in imported transactions
+//
+// Debits are grouped by merchant, with card references and store numbers
+// stripped so "SPOTIFY P2A4B1C" and "Spotify" are one merchant. A group is a
+// subscription when the gaps between its charges mostly fit one period and
+// its amounts mostly stay near their median, so a few days' jitter, one
+// skipped charge or a price rise doesn't hide it.
+
+export const SUBSCRIPTION_PERIODS = ['weekly', 'monthly', 'annual'] as const;
+
+export type SubscriptionPeriod = (typeof SUBSCRIPTION_PERIODS)[number];
+
+/**
+ * missed: the expected charge is overdue in the imported statements; lapsed: a whole period more.
+ * Measured against the latest imported charge, so it only moves on when a newer statement is imported.
+ */
+export type SubscriptionStatus = 'active' | 'missed' | 'lapsed';
+
+interface PeriodRule {
+  days: number;
+  /** How far a charge can land from its expected day */
+  jitterDays: number;
+  /** How overdue a charge is before it counts as missed */
+  graceDays: number;
+  minCharges: number;
+}
+
+const PERIOD_RULES: Record<SubscriptionPeriod, PeriodRule> = {
+  weekly: { days: 7, jitterDays: 2, graceDays: 3, minCharges: 4 },
+  monthly: { days: 30.44, jitterDays: 5, graceDays: 6, minCharges: 3 },
+  annual: { days: 365.25, jitterDays: 15, graceDays: 21, minCharges: 2 },
+};
+
+// Amounts this far either side of the median are still the same subscription
+const AMOUNT_DRIFT = 0.25;
+const PRICE_INCREASE_RATIO = 0.05;
+const MIN_PRICE_INCREASE = 0.5;
+export const MIN_SUBSCRIPTION_CONFIDENCE = 0.6;
+
+const MERCHANT_PREFIX =
+  /^(card payment to|card payment|direct debit to|direct debit|faster payment to|standing order to|payment to|contactless|visa|pos|dd|so|bp|cp)\s+/;
+const MERCHANT_NOISE = new Set(['com', 'www', 'co', 'uk', 'gb', 'ltd', 'limited', 'plc', 'inc', 'london', 'payment', 'ref']);
+
+export interface Charge {
+  date: string; // YYYY-MM-DD
+  amount: number; // Positive
+  currency: string;
+  merchant?: string | null;
+  description: string;
+}
+
+export interface DetectedSubscription {
+  merchant_key: string;
+  merchant_name: string;
+  period: SubscriptionPeriod;
+  currency: string;
+  /** Median of the charges before the latest one */
+  typical_amount: number;
+  last_amount: number;
+  first_charge_date: string;
+  last_charge_date: string;
+  next_expected_date: string;
+  charge_count: number;
+  /** 0-1: how regular the gaps and amounts are, and how many charges back it up */
+  confidence: number;
+  status: SubscriptionStatus;
+}
+
+export interface SubscriptionAlert {
+  type: 'price_increase' | 'missed_charge';
+  merchant_key: string;
+  merchant_name: string;
+  message: string;
+  amount?: number;
+  previous_amount?: number;
+  expected_date?: string;
+}
+
+export interface UpcomingCharge {
+  date: string;
+  merchant_key: string;
+  merchant_name: string;
+  period: SubscriptionPeriod;
+  amount: number;
+  currency: string;
+}
+
+export interface DetectOptions {
+  /** Latest date the imported statements cover; defaults to the latest charge */
+  coveredUntil?: string;
+}
+
+function toDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86400000;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * 86400000).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDay(toDay(date) + days);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * The merchant a transaction was with, as a grouping key: lower case, no
+ * payment-type prefix, no words containing digits, first two words
+ */
+export function merchantKey(text: string): string {
+  const words = text
+    .toLowerCase()
+    .trim()
+    .replace(MERCHANT_PREFIX, '')
+    .split(/[^\p{L}\p{N}&]+/u)
+    .filter((word) => word && !/\d/.test(word) && !MERCHANT_NOISE.has(word));
+  return words.slice(0, 2).join(' ');
+}
+
+/**
+ * The kth charge after `date`. Monthly and annual charges keep their day of
+ * the month, moved back to the last day in shorter months.
+ */
+export function nthChargeDate(date: string, period: SubscriptionPeriod, k: number): string {
+  if (period === 'weekly') return addDays(date, 7 * k);
+
+  const [year, month, day] = date.split('-').map(Number);
+  const months = period === 'monthly' ? k : 12 * k;
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function matchPeriod(gapDays: number): SubscriptionPeriod | null {
+  for (const period of SUBSCRIPTION_PERIODS) {
+    const rule = PERIOD_RULES[period];
+    if (Math.abs(gapDays - rule.days) <= rule.jitterDays) return period;
+  }
+  return null;
+}
+
+// A gap of two periods is one skipped charge: it half counts
+function gapRegularity(gapDays: number, rule: PeriodRule): number {
+  const periods = Math.round(gapDays / rule.days);
+  if (periods < 1 || periods > 2) return 0;
+  if (Math.abs(gapDays - periods * rule.days) > rule.jitterDays * periods) return 0;
+  return periods === 1 ? 1 : 0.5;
+}
+
+function inferSubscription(key: string, charges: Charge[], coveredUntil: string): DetectedSubscription | null {
+  if (charges.length < 2) return null;
+
+  const gaps = charges.slice(1).map((charge, i) => toDay(charge.date) - toDay(charges[i].date));
+  const period = matchPeriod(median(gaps));
+  if (!period) return null;
+
+  const rule = PERIOD_RULES[period];
+  if (charges.length < rule.minCharges) return null;
+
+  const amounts = charges.map((charge) => charge.amount);
+  const typical = median(amounts);
+  const regularity = gaps.reduce((sum, gap) => sum + gapRegularity(gap, rule), 0) / gaps.length;
+  const steadiness = amounts.filter((amount) => Math.abs(amount - typical) <= typical * AMOUNT_DRIFT).length / amounts.length;
+  const confidence = round2(0.5 * regularity + 0.3 * steadiness + 0.2 * Math.min(1, charges.length / 6));
+
+  const first = charges[0];
+  const last = charges[charges.length - 1];
+  const nextExpected = nthChargeDate(last.date, period, 1);
+  const overdueDays = toDay(coveredUntil) - toDay(nextExpected);
+
+  return {
+    merchant_key: key,
+    merchant_name: (last.merchant || last.description).trim(),
+    period,
+    currency: last.currency,
+    typical_amount: round2(median(amounts.slice(0, -1))),
+    last_amount: round2(last.amount),
+    first_charge_date: first.date,
+    last_charge_date: last.date,
+    next_expected_date: nextExpected,
+    charge_count: charges.length,
+    confidence,
+    status: overdueDays > rule.days + rule.graceDays ? 'lapsed' : overdueDays > rule.graceDays ? 'missed' : 'active',
+  };
+}
+
+/**
+ * Subscriptions and other recurring payments among these debits, soonest
+ * next charge first
+ */
+export function detectSubscriptions(charges: Charge[], options: DetectOptions = {}): DetectedSubscription[] {
+  if (charges.length === 0) return [];
+  const coveredUntil = options.coveredUntil ?? charges.reduce((latest, charge) => (charge.date > latest ? charge.date : latest), '');
+  const groups = new Map<string, { key: string; charges: Charge[] }>();
+
+  for (const charge of charges) {
+    const key = merchantKey(charge.merchant || charge.description);
+    if (!key || charge.amount <= 0) continue;
+    const groupKey = `${key}|${charge.currency}`;
+    const group = groups.get(groupKey) ?? { key, charges: [] };
+    group.charges.push(charge);
+    groups.set(groupKey, group);
+  }
+
+  const subscriptions: DetectedSubscription[] = [];
+  for (const group of groups.values()) {
+    // One charge a day: the same payment can arrive through two imports
+    const byDate = new Map<string, Charge>();
+    for (const charge of group.charges) {
+      if (!byDate.has(charge.date)) byDate.set(charge.date, charge);
+    }
+    const sorted = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    const subscription = inferSubscription(group.key, sorted, coveredUntil);
+    if (subscription && subscription.confidence >= MIN_SUBSCRIPTION_CONFIDENCE) subscriptions.push(subscription);
+  }
+
+  return subscriptions.sort((a, b) => a.next_expected_date.localeCompare(b.next_expected_date));
+}
+
+/**
+ * Expected charges from `from` to `to` (inclusive), earliest first. Lapsed
+ * subscriptions are left out.
+ */
+export function upcomingCharges(subscriptions: DetectedSubscription[], from: string, to: string): UpcomingCharge[] {
+  const charges: UpcomingCharge[] = [];
+
+  for (const subscription of subscriptions) {
+    if (subscription.status === 'lapsed') continue;
+    for (let k = 1; ; k++) {
+      const date = nthChargeDate(subscription.last_charge_date, subscription.period, k);
+      if (date > to) break;
+      if (date < from) continue;
+      charges.push({
+        date,
+        merchant_key: subscription.merchant_key,
+        merchant_name: subscription.merchant_name,
+        period: subscription.period,
+        amount: subscription.last_amount,
+        currency: subscription.currency,
+      });
+    }
+  }
+
+  return charges.sort((a, b) => a.date.localeCompare(b.date) || a.merchant_name.localeCompare(b.merchant_name));
+}
+
+/**
+ * Price rises on the latest charge and expected charges that never came
+ */
+export function subscriptionAlerts(subscriptions: DetectedSubscription[]): SubscriptionAlert[] {
+  const alerts: SubscriptionAlert[] = [];
+
+  for (const subscription of subscriptions) {
+    const { merchant_key, merchant_name, typical_amount, last_amount, currency } = subscription;
+    const increase = last_amount - typical_amount;
+    if (increase >= MIN_PRICE_INCREASE && increase > typical_amount * PRICE_INCREASE_RATIO) {
+      alerts.push({
+        type: 'price_increase',
+        merchant_key,
+        merchant_name,
+        message: `${merchant_name} went up from ${typical_amount.toFixed(2)} to ${last_amount.toFixed(2)} ${currency}`,
+        amount: last_amount,
+        previous_amount: typical_amount,
+      });
+    }
+
+    if (subscription.status === 'missed') {
+      alerts.push({
+        type: 'missed_charge',
+        merchant_key,
+        merchant_name,
+        message: `${merchant_name} was expected around ${subscription.next_expected_date} but hasn't charged. Cancelled, or moved to another card?`,
+        expected_date: subscription.next_expected_date,
+      });
+    }
+  }
+
+  return alerts;
+}
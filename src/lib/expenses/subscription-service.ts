@@ -0,0 +1,255 @@
+// src/lib/expenses/subscription-service.ts - Detected subscriptions per user
+import {
+  addDays,
+  detectSubscriptions,
+  subscriptionAlerts,
+  upcomingCharges,
+  type Charge,
+  type DetectedSubscription,
+  type SubscriptionAlert,
+  type UpcomingCharge,
+} from './subscription-detector';
+import { isMissingTable, withNumericColumns } from '../supabase/helpers';
+
+const SUBSCRIPTION_COLUMNS =
+  'id, merchant_key, merchant_name, period, currency, typical_amount, last_amount, first_charge_date, last_charge_date, next_expected_date, charge_count, confidence, status, dismissed';
+
+// Long enough to see an annual charge twice
+const LOOKBACK_DAYS = 400;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+export interface StoredSubscription extends DetectedSubscription {
+  id: string;
+  dismissed: boolean;
+}
+
+export interface SubscriptionOverview {
+  subscriptions: StoredSubscription[];
+  alerts: SubscriptionAlert[];
+  upcoming: UpcomingCharge[];
+}
+
+export function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toSubscription(row: any): StoredSubscription {
+  return withNumericColumns(row, ['typical_amount', 'last_amount', 'charge_count', 'confidence']);
+}
+
+/**
+ * Every row of a query, a page at a time; none if the table doesn't exist
+ *
+ * @param buildQuery - Builds the filtered, ordered query for each page
+ */
+async function fetchAllRows(what: string, buildQuery: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: page, error } = await buildQuery().range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      if (isMissingTable(error)) return rows;
+      throw new Error(`Failed to load ${what}: ${error.message}`);
+    }
+    rows.push(...(page || []));
+    if (!page || page.length < PAGE_SIZE) return rows;
+  }
+}
+
+function subscriptionKey(subscription: Pick<DetectedSubscription, 'merchant_key' | 'currency'>): string {
+  return `${subscription.merchant_key}|${subscription.currency}`;
+}
+
+class SubscriptionService {
+  /**
+   * Debits from uploaded statements (expenses) and from the finance
+   * importer (metrics) since `since`
+   */
+  async loadCharges(supabaseClient: any, userId: string, since: string): Promise<Charge[]> {
+    const [expenses, metrics] = await Promise.all([
+      fetchAllRows('expenses', () =>
+        supabaseClient
+          .from('expenses')
+          .select('transaction_date, amount, currency, merchant_name, description')
+          .eq('user_id', userId)
+          .eq('transaction_type', 'debit')
+          .gte('transaction_date', since)
+          .order('transaction_date', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows('expense metrics', () =>
+        supabaseClient
+          .from('metrics')
+          .select('value, unit, metadata, recorded_at')
+          .eq('user_id', userId)
+          .eq('type', 'expense')
+          .gte('recorded_at', `${since}T00:00:00`)
+          .order('recorded_at', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+    ]);
+
+    const charges: Charge[] = [];
+    for (const row of expenses) {
+      charges.push({
+        date: String(row.transaction_date).slice(0, 10),
+        amount: Math.abs(Number(row.amount)),
+        currency: row.currency || 'GBP',
+        merchant: row.merchant_name,
+        description: row.description || '',
+      });
+    }
+
+    for (const row of metrics) {
+      const vendor = row.metadata?.vendor;
+      charges.push({
+        date: localDateKey(new Date(row.recorded_at)),
+        amount: Math.abs(Number(row.value)),
+        currency: row.unit || 'GBP',
+        merchant: vendor && vendor !== 'Unknown' ? vendor : null,
+        description: row.metadata?.description || '',
+      });
+    }
+
+    return charges;
+  }
+
+  async listSubscriptions(
+    supabaseClient: any,
+    userId: string,
+    options: { includeDismissed?: boolean } = {}
+  ): Promise<StoredSubscription[]> {
+    let query = supabaseClient
+      .from('detected_subscriptions')
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq('user_id', userId);
+    if (!options.includeDismissed) query = query.eq('dismissed', false);
+
+    const { data, error } = await query.order('next_expected_date', { ascending: true });
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load subscriptions: ${error.message}`);
+    }
+    return (data || []).map(toSubscription);
+  }
+
+  /**
+   * Re-run detection over the last LOOKBACK_DAYS of debits. Existing rows are
+   * updated in place, so a dismissed subscription stays dismissed; ones no
+   * longer detected are removed unless dismissed.
+   *
+   * Status (and so the missed-charge alert) is worked out here against the
+   * latest imported transaction, not today: a charge isn't missing just
+   * because no statement covering its date has been imported yet. It only
+   * changes when the next import refreshes it.
+   */
+  async refreshSubscriptions(supabaseClient: any, userId: string, today: Date = new Date()): Promise<StoredSubscription[]> {
+    const charges = await this.loadCharges(supabaseClient, userId, addDays(localDateKey(today), -LOOKBACK_DAYS));
+    const detected = detectSubscriptions(charges);
+    const now = new Date().toISOString();
+
+    if (detected.length > 0) {
+      const { error } = await supabaseClient
+        .from('detected_subscriptions')
+        .upsert(
+          detected.map((subscription) => ({ ...subscription, user_id: userId, updated_at: now })),
+          { onConflict: 'user_id,merchant_key,currency' }
+        );
+      if (error) {
+        if (isMissingTable(error)) return [];
+        throw new Error(`Failed to save subscriptions: ${error.message}`);
+      }
+    }
+
+    const detectedKeys = new Set(detected.map(subscriptionKey));
+    const stored = await this.listSubscriptions(supabaseClient, userId, { includeDismissed: true });
+    const staleIds = stored
+      .filter((subscription) => !subscription.dismissed && !detectedKeys.has(subscriptionKey(subscription)))
+      .map((subscription) => subscription.id);
+
+    if (staleIds.length > 0) {
+      const { error } = await supabaseClient
+        .from('detected_subscriptions')
+        .delete()
+        .eq('user_id', userId)
+        .in('id', staleIds);
+      if (error) throw new Error(`Failed to remove old subscriptions: ${error.message}`);
+    }
+
+    return stored.filter((subscription) => !subscription.dismissed && !staleIds.includes(subscription.id));
+  }
+
+  /**
+   * Merchant|currency keys of the subscriptions among a statement's debits
+   *
+   * A statement alone rarely holds enough charges to show a rhythm, so its
+   * debits are checked together with the user's earlier ones and the
+   * subscriptions already detected. Dismissed subscriptions are left out.
+   */
+  async recurringKeys(supabaseClient: any, userId: string, charges: Charge[]): Promise<Set<string>> {
+    if (charges.length === 0) return new Set();
+
+    const firstDate = charges.reduce((earliest, charge) => (charge.date < earliest ? charge.date : earliest), charges[0].date);
+    const [history, stored] = await Promise.all([
+      this.loadCharges(supabaseClient, userId, addDays(firstDate, -LOOKBACK_DAYS)),
+      this.listSubscriptions(supabaseClient, userId, { includeDismissed: true }),
+    ]);
+
+    // The statement may already be imported; only what came before it is history
+    const earlier = history.filter((charge) => charge.date < firstDate);
+    const keys = new Set(detectSubscriptions([...earlier, ...charges]).map(subscriptionKey));
+    for (const subscription of stored) {
+      if (subscription.dismissed) keys.delete(subscriptionKey(subscription));
+      else keys.add(subscriptionKey(subscription));
+    }
+    return keys;
+  }
+
+  /**
+   * Refresh after an import without failing the import
+   */
+  async refreshAfterImport(supabaseClient: any, userId: string): Promise<void> {
+    try {
+      await this.refreshSubscriptions(supabaseClient, userId);
+    } catch (error) {
+      console.warn('[Subscriptions] Failed to refresh after import:', error);
+    }
+  }
+
+  /**
+   * Subscriptions the user hasn't dismissed, their alerts and the charges
+   * expected from `from` to `to` (YYYY-MM-DD, inclusive)
+   *
+   * Statuses are as of the last import (see refreshSubscriptions).
+   */
+  async getOverview(supabaseClient: any, userId: string, from: string, to: string): Promise<SubscriptionOverview> {
+    const subscriptions = await this.listSubscriptions(supabaseClient, userId);
+    return {
+      subscriptions,
+      alerts: subscriptionAlerts(subscriptions),
+      upcoming: upcomingCharges(subscriptions, from, to),
+    };
+  }
+
+  async setDismissed(
+    supabaseClient: any,
+    userId: string,
+    subscriptionId: string,
+    dismissed: boolean
+  ): Promise<StoredSubscription | null> {
+    const { data, error } = await supabaseClient
+      .from('detected_subscriptions')
+      .update({ dismissed, updated_at: new Date().toISOString() })
+      .eq('id', subscriptionId)
+      .eq('user_id', userId)
+      .select(SUBSCRIPTION_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update subscription: ${error.message}`);
+    return data ? toSubscription(data) : null;
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -2,6 +2,9 @@
 // src/lib/finance/correctedFinanceImporter.ts
 
 import { createServerClient } from '../supabase/server';
+import { ingestStatement } from '../expenses/statements/ingestion';
+import { findImportedHashes } from '../expenses/statements/imported-hashes';
+import { subscriptionService } from '../expenses/subscription-service';
 import type { AstroCookies } from 'astro';
 
 export interface ImportResult {
@@ -115,30 +118,44 @@ export class CorrectedFinanceImporter {
     }
   }
 
-  // 2. BANK IMPORT - Append with duplicate prevention
+  // 2. BANK IMPORT - Append, skipping transactions earlier statements brought in
   private async importBankTransactions(bankText: string, stats: any) {
     console.log('🏦 Processing bank transactions...');
 
-    // Get existing transaction dates to prevent duplicates
-    const existingDates = await this.getExistingTransactionDates();
-    
-    const transactions = this.parseJupiterBankCSV(bankText, existingDates);
+    const statement = await ingestStatement(bankText, {
+      accountKey: 'bank',
+      defaultCurrency: 'INR',
+      findExistingHashes: (hashes) => findImportedHashes(this.supabase, this.userId, 'metrics', hashes),
+      findExistingMatchHashes: (hashes) => findImportedHashes(this.supabase, this.userId, 'metrics', hashes, 'match_hash')
+    });
+
+    if (!statement.format) {
+      throw new Error(statement.errors[0]);
+    }
+
+    // Filter internal transfers
+    const realTransactions = statement.transactions.filter(tx =>
+      !this.isInternalTransfer(tx.description, tx.transactionType === 'debit' ? -tx.amount : tx.amount)
+    );
     
-    if (transactions.realTransactions.length > 0) {
-      const bankMetrics = transactions.realTransactions.map(tx => ({
+    if (realTransactions.length > 0) {
+      const bankMetrics = realTransactions.map(tx => ({
         user_id: this.userId,
-        type: tx.amount > 0 ? 'income' : 'expense',
-        value: Math.abs(tx.amount),
-        unit: 'INR',
+        type: tx.transactionType === 'credit' ? 'income' : 'expense',
+        value: tx.amount,
+        unit: tx.currency,
         metadata: {
           description: tx.description,
-          category: tx.category,
-          vendor: tx.vendor,
+          category: tx.categorization.categoryName,
+          subcategory: tx.categorization.subcategory,
+          vendor: tx.merchant || 'Unknown',
           source: 'bank',
           reference: tx.reference,
-          balance: tx.balance
+          balance: tx.balance,
+          content_hash: tx.contentHash,
+          match_hash: tx.matchHash
         },
-        recorded_at: tx.date.toISOString()
+        recorded_at: new Date(`${tx.date}T00:00:00`).toISOString()
       }));
 
       const { error } = await this.supabase
@@ -147,17 +164,19 @@ export class CorrectedFinanceImporter {
 
       if (error) throw error;
 
-      // Update stats
-      stats.totalProcessed = transactions.totalProcessed;
-      stats.realExpenses = transactions.realTransactions.length;
-      stats.internalTransfers = transactions.internalTransfers;
-      stats.duplicatesSkipped = transactions.duplicatesSkipped;
-      stats.dateRange = transactions.dateRange;
-
-      console.log(`✅ Imported ${transactions.realTransactions.length} real transactions`);
-      console.log(`🚫 Excluded ${transactions.internalTransfers} internal transfers`);
-      console.log(`⏭️ Skipped ${transactions.duplicatesSkipped} duplicates`);
+      await subscriptionService.refreshAfterImport(this.supabase, this.userId);
     }
+
+    // Update stats
+    stats.totalProcessed = statement.transactions.length + statement.duplicatesSkipped;
+    stats.realExpenses = realTransactions.length;
+    stats.internalTransfers = statement.transactions.length - realTransactions.length;
+    stats.duplicatesSkipped = statement.duplicatesSkipped;
+    stats.dateRange = statement.period ? `${statement.period.start} to ${statement.period.end}` : 'No dates';
+
+    console.log(`✅ Imported ${realTransactions.length} real transactions from ${statement.layout}`);
+    console.log(`🚫 Excluded ${stats.internalTransfers} internal transfers`);
+    console.log(`⏭️ Skipped ${statement.duplicatesSkipped} duplicates`);
   }
 
   // 3. MANUAL EXPENSES - Legacy support
@@ -242,128 +261,6 @@ export class CorrectedFinanceImporter {
     return holdings;
   }
 
-  // BANK PARSER - Enhanced with filtering and duplicate prevention
-  private parseJupiterBankCSV(csvContent: string, existingDates: Set<string>) {
-    const lines = csvContent.split('\n');
-    const realTransactions = [];
-    let totalProcessed = 0;
-    let internalTransfers = 0;
-    let duplicatesSkipped = 0;
-    const dates = [];
-    
-    // Skip header lines and process records
-    let i = 2;
-    while (i < lines.length) {
-      const record = this.parseMultiLineCSVRecord(lines, i);
-      if (!record.transaction) {
-        i = record.nextIndex;
-        continue;
-      }
-      
-      totalProcessed++;
-      const tx = record.transaction;
-      i = record.nextIndex;
-      
-      // Check for duplicates
-      const dateStr = tx.date.toISOString().split('T')[0];
-      const duplicateKey = `${dateStr}-${tx.description.substring(0, 30)}-${Math.abs(tx.amount)}`;
-      
-      if (existingDates.has(duplicateKey)) {
-        duplicatesSkipped++;
-        continue;
-      }
-      
-      // Filter internal transfers
-      if (this.isInternalTransfer(tx.description, tx.amount)) {
-        internalTransfers++;
-        continue;
-      }
-      
-      realTransactions.push(tx);
-      dates.push(dateStr);
-    }
-    
-    // Calculate date range
-    const uniqueDates = [...new Set(dates)].sort();
-    const dateRange = uniqueDates.length > 0 ? 
-      `${uniqueDates[0]} to ${uniqueDates[uniqueDates.length - 1]}` : 'No dates';
-    
-    return {
-      realTransactions,
-      totalProcessed,
-      internalTransfers,
-      duplicatesSkipped,
-      dateRange
-    };
-  }
-
-  // MULTI-LINE CSV PARSER - Handles Jupiter's complex format
-  private parseMultiLineCSVRecord(lines: string[], startIndex: number) {
-    let currentRecord = '';
-    let i = startIndex;
-    
-    // Combine lines until we have a complete record
-    while (i < lines.length) {
-      const line = lines[i].trim();
-      if (!line) {
-        i++;
-        continue;
-      }
-      
-      currentRecord += (currentRecord ? ' ' : '') + line;
-      
-      // Check if record is complete (even number of quotes)
-      const quoteCount = (currentRecord.match(/"/g) || []).length;
-      const isComplete = quoteCount % 2 === 0;
-      
-      i++;
-      
-      if (isComplete && currentRecord.includes(',')) {
-        const transaction = this.parseJupiterTransaction(currentRecord);
-        return { transaction, nextIndex: i };
-      }
-    }
-    
-    return { transaction: null, nextIndex: i };
-  }
-
-  // TRANSACTION PARSER - Enhanced
-  private parseJupiterTransaction(record: string) {
-    try {
-      const fields = this.parseCSVFields(record);
-      if (fields.length < 8) return null;
-      
-      const [date, valueDate, particulars, tranType, chequeDetails, withdrawals, deposits, balance] = fields;
-      
-      if (!date || date.includes('*') || !particulars) return null;
-      
-      const withdrawalAmount = parseFloat(withdrawals?.replace(/,/g, '') || '0');
-      const depositAmount = parseFloat(deposits?.replace(/,/g, '') || '0');
-      const amount = depositAmount > 0 ? depositAmount : -withdrawalAmount;
-      
-      if (amount === 0) return null;
-      
-      const parsedDate = this.parseIndianDate(date);
-      if (!parsedDate) return null;
-      
-      const cleanDescription = particulars.replace(/"/g, '').trim();
-      
-      return {
-        date: parsedDate,
-        description: cleanDescription,
-        amount: amount,
-        balance: parseFloat(balance?.replace(/,/g, '') || '0'),
-        type: tranType,
-        reference: chequeDetails || '',
-        category: this.categorizeTransaction(cleanDescription),
-        vendor: this.extractVendor(cleanDescription)
-      };
-      
-    } catch (error) {
-      return null;
-    }
-  }
-
   // INTERNAL TRANSFER DETECTION - Critical for accurate expenses
   private isInternalTransfer(description: string, amount: number): boolean {
     const desc = description.toLowerCase();
@@ -394,7 +291,7 @@ export class CorrectedFinanceImporter {
     return false;
   }
 
-  // ENHANCED CATEGORIZATION
+  // MANUAL EXPENSE CATEGORIZATION - statements are categorized during ingestion
   private categorizeTransaction(description: string): string {
     const desc = description.toLowerCase();
     
@@ -444,7 +341,7 @@ export class CorrectedFinanceImporter {
     return 'Other';
   }
 
-  // VENDOR EXTRACTION
+  // VENDOR EXTRACTION - manual expenses
   private extractVendor(description: string): string {
     const desc = description.toLowerCase();
     
@@ -462,69 +359,6 @@ export class CorrectedFinanceImporter {
     return 'Unknown';
   }
 
-  // UTILITY METHODS
-  private async getExistingTransactionDates(): Promise<Set<string>> {
-    const { data } = await this.supabase
-      .from('metrics')
-      .select('recorded_at, metadata')
-      .eq('user_id', this.userId)
-      .in('type', ['expense', 'income']);
-    
-    const existingKeys = new Set<string>();
-    
-    for (const metric of data || []) {
-      const dateStr = metric.recorded_at.split('T')[0];
-      const description = metric.metadata?.description || '';
-      const duplicateKey = `${dateStr}-${description.substring(0, 30)}-*`;
-      existingKeys.add(duplicateKey);
-    }
-    
-    return existingKeys;
-  }
-
-  private parseCSVFields(record: string): string[] {
-    const fields = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < record.length; i++) {
-      const char = record[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        fields.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    fields.push(current.trim());
-    return fields;
-  }
-
-  private parseIndianDate(dateStr: string): Date | null {
-    if (!dateStr || dateStr.includes('*')) return null;
-    
-    try {
-      const parts = dateStr.split('/');
-      if (parts.length === 3) {
-        const day = parseInt(parts[0]);
-        const month = parseInt(parts[1]) - 1;
-        const year = parseInt(parts[2]);
-        
-        if (year >= 2020 && year <= 2030 && month >= 0 && month <= 11 && day >= 1 && day <= 31) {
-          return new Date(year, month, day);
-        }
-      }
-    } catch (error) {
-      return null;
-    }
-    
-    return null;
-  }
-
   private parseManualExpenses(textContent: string) {
     // Legacy manual expense parsing
     const expenses = [];
@@ -8,10 +8,11 @@
  * Requirements: 13.1, 13.2, 13.3, 13.4, 13.5
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { parseNote, type ParsedNoteData } from './note-parser';
+import { parseNote, type NoteParseOptions, type ParsedNoteData } from './note-parser';
 import { type SemanticType } from './taxonomy';
 import { tokenService } from '../tokens/service';
+import { completeJSON, usageToAppTokens } from '../ai/llm';
+import { deductForCompletion } from '../ai/llm/billing';
 
 /**
  * Configuration for AI enrichment
@@ -19,7 +20,7 @@ import { tokenService } from '../tokens/service';
 export interface AIEnrichmentConfig {
   enabled: boolean;
   confidenceThreshold: number; // Only enrich if deterministic confidence < this
-  tokenCost: number; // Cost per enrichment call
+  tokenCost: number; // Balance required before calling the AI; the charge itself follows reported usage
   maxRetries: number; // Max retries on failure
 }
 
@@ -58,6 +59,7 @@ export interface AIEnrichmentResult {
  * @param note - The habit note to enrich
  * @param semanticType - Optional semantic type hint
  * @param config - Optional configuration overrides
+ * @param parseOptions - User-defined parse rules, tried before the AI
  * @returns Enrichment result with parsed data
  * 
  * Requirements: 13.1, 13.2, 13.3, 13.4, 13.5
@@ -66,12 +68,13 @@ export async function enrichNoteWithAI(
   userId: string,
   note: string,
   semanticType?: SemanticType,
-  config: Partial<AIEnrichmentConfig> = {}
+  config: Partial<AIEnrichmentConfig> = {},
+  parseOptions: NoteParseOptions = {}
 ): Promise<AIEnrichmentResult> {
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
   
-  // Step 1: Always try deterministic parsing first
-  const deterministicResult = parseNote(note, semanticType);
+  // Step 1: Always try deterministic parsing (with the user's rules) first
+  const deterministicResult = parseNote(note, semanticType, parseOptions);
   
   // Step 2: Check if AI enrichment is needed
   // Requirement 13.1: Call AI only when deterministic parsing has low confidence
@@ -124,15 +127,14 @@ export async function enrichNoteWithAI(
   
   // Step 5: Attempt AI enrichment
   try {
-    const enrichedData = await callAIForEnrichment(note, semanticType, deterministicResult);
+    const { enrichedData, completion } = await callAIForEnrichment(note, semanticType, deterministicResult);
     
-    // Step 6: Deduct tokens on success
-    const deductionResult = await tokenService.deductTokens(
+    // Step 6: Deduct tokens on success, priced from the provider's usage
+    const deductionResult = await deductForCompletion(
       userId,
-      finalConfig.tokenCost,
+      completion,
       'AI habit note enrichment',
       'ai_note_enrichment',
-      undefined,
       { note_preview: note.substring(0, 50) }
     );
     
@@ -147,7 +149,7 @@ export async function enrichNoteWithAI(
     return {
       success: true,
       enrichedData,
-      tokensUsed: finalConfig.tokenCost,
+      tokensUsed: usageToAppTokens(completion.usage),
       fallbackUsed: false,
     };
     
@@ -167,57 +169,40 @@ export async function enrichNoteWithAI(
 /**
  * Call AI service to enrich note data
  * 
- * Uses Google Gemini to extract structured data from the note.
+ * Uses the configured LLM provider to extract structured data from the note.
  * Combines deterministic results with AI insights for best accuracy.
  * 
  * @param note - The habit note to enrich
  * @param semanticType - Optional semantic type hint
  * @param deterministicResult - Results from deterministic parsing
- * @returns Enriched parsed note data
+ * @returns Enriched parsed note data and the completion it came from
  */
 async function callAIForEnrichment(
   note: string,
   semanticType: SemanticType | undefined,
   deterministicResult: ParsedNoteData
-): Promise<ParsedNoteData> {
-  // Initialize Gemini
-  const apiKey = import.meta.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-  
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY not configured');
-  }
-  
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-  
+) {
   // Build prompt with context
   const prompt = buildEnrichmentPrompt(note, semanticType, deterministicResult);
   
-  // Call AI
-  const result = await model.generateContent(prompt);
-  const response = await result.response;
-  const text = response.text();
+  // Call AI; throws LLMResponseFormatError if the answer is not JSON
+  const completion = await completeJSON<Partial<ParsedNoteData>>({
+    prompt,
+    purpose: 'habit_note_enrichment',
+  });
+  const aiData = completion.data;
   
-  // Parse AI response
-  try {
-    const aiData = JSON.parse(text);
-    
-    // Merge AI results with deterministic results
-    // AI takes precedence for fields it successfully extracted
-    const enrichedData: ParsedNoteData = {
-      ...deterministicResult,
-      ...aiData,
-      confidence: Math.max(deterministicResult.confidence, aiData.confidence || 0.7),
-      parse_method: 'ai_enriched',
-      original_text: note,
-    };
-    
-    return enrichedData;
-    
-  } catch (error) {
-    console.error('Failed to parse AI response:', error);
-    throw new Error('AI returned invalid JSON');
-  }
+  // Merge AI results with deterministic results
+  // AI takes precedence for fields it successfully extracted
+  const enrichedData: ParsedNoteData = {
+    ...deterministicResult,
+    ...aiData,
+    confidence: Math.max(deterministicResult.confidence, aiData.confidence || 0.7),
+    parse_method: 'ai_enriched',
+    original_text: note,
+  };
+  
+  return { enrichedData, completion };
 }
 
 /**
@@ -286,12 +271,14 @@ Your response (JSON only, no markdown):`;
  * @param userId - User ID for token balance
  * @param notes - Array of notes with semantic types
  * @param config - Optional configuration
+ * @param parseOptions - User-defined parse rules, tried before the AI
  * @returns Array of enrichment results
  */
 export async function batchEnrichNotes(
   userId: string,
   notes: Array<{ note: string; semanticType?: SemanticType }>,
-  config: Partial<AIEnrichmentConfig> = {}
+  config: Partial<AIEnrichmentConfig> = {},
+  parseOptions: NoteParseOptions = {}
 ): Promise<AIEnrichmentResult[]> {
   const results: AIEnrichmentResult[] = [];
   
@@ -306,7 +293,7 @@ export async function batchEnrichNotes(
     
     // Return deterministic results for all notes
     for (const { note, semanticType } of notes) {
-      const deterministicResult = parseNote(note, semanticType);
+      const deterministicResult = parseNote(note, semanticType, parseOptions);
       results.push({
         success: true,
         enrichedData: deterministicResult,
@@ -320,7 +307,7 @@ export async function batchEnrichNotes(
   
   // Process each note
   for (const { note, semanticType } of notes) {
-    const result = await enrichNoteWithAI(userId, note, semanticType, config);
+    const result = await enrichNoteWithAI(userId, note, semanticType, config, parseOptions);
     results.push(result);
     
     // Stop if we run out of tokens mid-batch
@@ -328,7 +315,7 @@ export async function batchEnrichNotes(
       // Process remaining notes with deterministic parsing only
       for (let i = results.length; i < notes.length; i++) {
         const { note: remainingNote, semanticType: remainingType } = notes[i];
-        const deterministicResult = parseNote(remainingNote, remainingType);
+        const deterministicResult = parseNote(remainingNote, remainingType, parseOptions);
         results.push({
           success: true,
           enrichedData: deterministicResult,
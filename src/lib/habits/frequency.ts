@@ -0,0 +1,266 @@
+// src/lib/habits/frequency.ts - Habit frequency schedules
+//
+// A habit is not always daily: "Gym 3x/week", "Laundry every 4 days" and
+// "Piano on Mon/Wed/Fri" each have their own idea of a missed day. Streaks
+// and completion rates are computed per schedule period instead of per
+// calendar day, so rest days never break a streak.
+//
+// Streaks still count check-ins, so a daily habit's streak is in days and a
+// 3x/week habit's streak is the number of sessions in its unbroken run.
+
+export type HabitFrequency =
+  | { type: 'daily' }
+  | { type: 'times_per_week'; times: number }
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday ... 6 = Saturday
+  | { type: 'every_n_days'; interval: number };
+
+export type HabitEntryOutcome = 'done' | 'skipped' | 'missed';
+
+export interface ScheduledEntry {
+  date: string; // YYYY-MM-DD
+  outcome: HabitEntryOutcome;
+}
+
+export interface ScheduledStreakResult {
+  current: number;
+  best: number;
+  /** Share of due periods that were met, 0-1 */
+  completionRate: number;
+  periodsMet: number;
+  periodsDue: number;
+}
+
+export const DAILY_FREQUENCY: HabitFrequency = { type: 'daily' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function toDay(date: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return Number.NaN;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Entry value → outcome: 1 completed, 3 partial, 2 skipped (doesn't break
+ * the streak), 0 failed
+ */
+export function entryValueOutcome(value: number | null): HabitEntryOutcome {
+  if (value === 1 || value === 3) return 'done';
+  if (value === 2) return 'skipped';
+  return 'missed';
+}
+
+/**
+ * Validate a frequency from a request body or a habits.frequency row
+ *
+ * @returns The frequency, or null if it is not a valid schedule
+ */
+export function parseHabitFrequency(raw: unknown): HabitFrequency | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+
+  switch (value.type) {
+    case 'daily':
+      return DAILY_FREQUENCY;
+    case 'times_per_week':
+      return isPositiveInteger(value.times) && value.times <= 7
+        ? (value.times === 7 ? DAILY_FREQUENCY : { type: 'times_per_week', times: value.times })
+        : null;
+    case 'weekdays': {
+      if (!Array.isArray(value.days)) return null;
+      const days = [...new Set(value.days)].filter(
+        (day): day is number => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+      );
+      if (days.length === 0 || days.length !== value.days.length) return null;
+      return days.length === 7 ? DAILY_FREQUENCY : { type: 'weekdays', days: days.sort((a, b) => a - b) };
+    }
+    case 'every_n_days':
+      return isPositiveInteger(value.interval)
+        ? (value.interval === 1 ? DAILY_FREQUENCY : { type: 'every_n_days', interval: value.interval })
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Frequency for a stored habit; habits without one (or with a bad one) are daily
+ */
+export function normalizeHabitFrequency(raw: unknown): HabitFrequency {
+  return parseHabitFrequency(raw) ?? DAILY_FREQUENCY;
+}
+
+/**
+ * Map Loop Habits' frequency (NumRepetitions / Interval in Habits.csv)
+ *
+ * Loop stores "numerator times every denominator days": 1/1 is daily, 3/7 is
+ * three times a week, 1/4 is every four days. Other ratios are scaled to a
+ * weekly target.
+ */
+export function frequencyFromLoop(numerator: number, denominator: number): HabitFrequency {
+  const num = isPositiveInteger(numerator) ? numerator : 1;
+  const den = isPositiveInteger(denominator) ? denominator : 1;
+
+  if (num >= den) return DAILY_FREQUENCY;
+  if (num === 1) return { type: 'every_n_days', interval: den };
+  if (den === 7) return { type: 'times_per_week', times: num };
+
+  const times = Math.min(7, Math.max(1, Math.round((num * 7) / den)));
+  return times === 7 ? DAILY_FREQUENCY : { type: 'times_per_week', times };
+}
+
+/**
+ * Map a frequency back to Loop's numerator/denominator
+ *
+ * Loop cannot express specific weekdays, so those export as N times a week.
+ */
+export function frequencyToLoop(frequency: HabitFrequency): { numerator: number; denominator: number } {
+  switch (frequency.type) {
+    case 'daily':
+      return { numerator: 1, denominator: 1 };
+    case 'times_per_week':
+      return { numerator: frequency.times, denominator: 7 };
+    case 'weekdays':
+      return { numerator: frequency.days.length, denominator: 7 };
+    case 'every_n_days':
+      return { numerator: 1, denominator: frequency.interval };
+  }
+}
+
+export function describeHabitFrequency(frequency: HabitFrequency): string {
+  switch (frequency.type) {
+    case 'daily':
+      return 'Every day';
+    case 'times_per_week':
+      return `${frequency.times}× per week`;
+    case 'weekdays':
+      return frequency.days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+    case 'every_n_days':
+      return `Every ${frequency.interval} days`;
+  }
+}
+
+interface SchedulePeriod {
+  start: number;
+  end: number; // inclusive
+  required: number;
+}
+
+/**
+ * Split [from, to] into schedule periods
+ *
+ * Periods are contiguous, so a check-in a day late (Wednesday for a Tuesday
+ * habit) still lands in the period it was meant for.
+ */
+function buildPeriods(frequency: HabitFrequency, from: number, to: number): SchedulePeriod[] {
+  const periods: SchedulePeriod[] = [];
+
+  if (frequency.type === 'daily') {
+    for (let day = from; day <= to; day += DAY_MS) {
+      periods.push({ start: day, end: day, required: 1 });
+    }
+    return periods;
+  }
+
+  if (frequency.type === 'every_n_days') {
+    const span = frequency.interval * DAY_MS;
+    for (let start = from; start <= to; start += span) {
+      periods.push({ start, end: start + span - DAY_MS, required: 1 });
+    }
+    return periods;
+  }
+
+  if (frequency.type === 'times_per_week') {
+    // ISO weeks; a partial first week only asks for the days it has left
+    for (let start = from; start <= to;) {
+      const weekday = (new Date(start).getUTCDay() + 6) % 7;
+      const end = start + (6 - weekday) * DAY_MS;
+      const daysInPeriod = Math.round((end - start) / DAY_MS) + 1;
+      periods.push({ start, end, required: Math.min(frequency.times, daysInPeriod) });
+      start = end + DAY_MS;
+    }
+    return periods;
+  }
+
+  const scheduled: number[] = [];
+  for (let day = from; day <= to + 7 * DAY_MS; day += DAY_MS) {
+    if (frequency.days.includes(new Date(day).getUTCDay())) scheduled.push(day);
+  }
+  for (let i = 0; i < scheduled.length - 1 && scheduled[i] <= to; i++) {
+    periods.push({ start: scheduled[i], end: scheduled[i + 1] - DAY_MS, required: 1 });
+  }
+  return periods;
+}
+
+/**
+ * Calculate streaks and completion rate against a habit's schedule
+ *
+ * A period is met when its done + skipped check-ins reach the target. The
+ * period containing asOf never breaks a streak while it can still be met;
+ * asOf itself counts as still available unless it already has an entry.
+ *
+ * @param options.since - First day of the schedule (defaults to the earliest entry)
+ */
+export function calculateScheduledStreak(
+  entries: ScheduledEntry[],
+  frequency: HabitFrequency,
+  options: { asOf: string; since?: string }
+): ScheduledStreakResult {
+  const asOf = toDay(options.asOf);
+  const dated = entries
+    .map((entry) => ({ ...entry, day: toDay(entry.date) }))
+    .filter((entry) => !Number.isNaN(entry.day) && entry.day <= asOf);
+
+  const earliest = dated.length > 0 ? Math.min(...dated.map((entry) => entry.day)) : Number.NaN;
+  const since = options.since ? toDay(options.since) : earliest;
+  const empty: ScheduledStreakResult = { current: 0, best: 0, completionRate: 0, periodsMet: 0, periodsDue: 0 };
+  if (Number.isNaN(since) || Number.isNaN(asOf) || since > asOf) return empty;
+
+  const periods = buildPeriods(frequency, since, asOf);
+  const asOfHasEntry = dated.some((entry) => entry.day === asOf);
+
+  let run = 0;
+  let best = 0;
+  let periodsMet = 0;
+  let periodsDue = 0;
+
+  for (const period of periods) {
+    const inPeriod = dated.filter((entry) => entry.day >= period.start && entry.day <= period.end);
+    const checkIns = inPeriod.filter((entry) => entry.outcome !== 'missed').length;
+    const met = checkIns >= period.required;
+    const isCurrent = period.end >= asOf;
+
+    if (met) {
+      periodsMet++;
+      periodsDue++;
+      run += checkIns;
+    } else if (isCurrent) {
+      const daysLeft = Math.round((period.end - asOf) / DAY_MS) + (asOfHasEntry ? 0 : 1);
+      if (checkIns + daysLeft >= period.required) {
+        // Still achievable: keep the run going without counting it as due
+        run += checkIns;
+      } else {
+        periodsDue++;
+        run = 0;
+      }
+    } else {
+      periodsDue++;
+      run = 0;
+    }
+
+    best = Math.max(best, run);
+  }
+
+  return {
+    current: run,
+    best,
+    completionRate: periodsDue > 0 ? periodsMet / periodsDue : 0,
+    periodsMet,
+    periodsDue,
+  };
+}
@@ -0,0 +1,127 @@
+// src/lib/habits/loop-score.ts - Loop Habits' score (habit strength)
+//
+// Loop's Scores.csv is an exponentially weighted average of how much of the
+// schedule was met: each day pulls the score towards that day's completion
+// by a factor that depends on the habit's frequency, so one miss costs a
+// few percent instead of resetting a streak. Skipped days leave the score
+// where it was.
+
+import { entryValueOutcome, frequencyToLoop, type HabitEntryOutcome, type HabitFrequency } from './frequency';
+
+export interface LoopScoreEntry {
+  date: string; // YYYY-MM-DD
+  outcome: HabitEntryOutcome;
+  /** Share of the day's target reached, 0-1; defaults to 1 for done and 0 for missed */
+  progress?: number;
+}
+
+export interface LoopScore {
+  date: string;
+  score: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A partial check-in (value 3) counts as half a day */
+export const PARTIAL_PROGRESS = 0.5;
+
+function toDay(date: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return Number.NaN;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function toDate(day: number): string {
+  return new Date(day).toISOString().split('T')[0];
+}
+
+function entryProgress(entry: LoopScoreEntry): number {
+  if (entry.outcome !== 'done') return 0;
+  if (typeof entry.progress !== 'number' || Number.isNaN(entry.progress)) return 1;
+  return Math.min(1, Math.max(0, entry.progress));
+}
+
+/**
+ * Score input for a stored habit entry
+ *
+ * Yes/no habits: 1 done, 3 partial, 2 skipped, 0 missed. Count and duration
+ * habits score the share of target_value reached.
+ */
+export function loopScoreEntryFromValue(
+  date: string,
+  value: number | null,
+  habit: { measurement_type?: string | null; target_value?: number | null }
+): LoopScoreEntry {
+  const measurement = (habit.measurement_type || 'boolean').toLowerCase();
+  if (measurement === 'count' || measurement === 'duration') {
+    const amount = value ?? 0;
+    const target = habit.target_value ?? 0;
+    return { date, outcome: amount > 0 ? 'done' : 'missed', progress: target > 0 ? amount / target : 1 };
+  }
+
+  const outcome = entryValueOutcome(value);
+  return value === 3 ? { date, outcome, progress: PARTIAL_PROGRESS } : { date, outcome };
+}
+
+/**
+ * One step of Loop's score: move `previous` towards `completed` (0-1)
+ */
+export function nextLoopScore(frequency: HabitFrequency, previous: number, completed: number): number {
+  const { numerator, denominator } = frequencyToLoop(frequency);
+  const multiplier = Math.pow(0.5, Math.sqrt(numerator / denominator) / 13);
+  return previous * multiplier + completed * (1 - multiplier);
+}
+
+/**
+ * Daily Loop scores from the first day to `to`, oldest first
+ *
+ * Completion is a rolling sum over Loop's interval: a 3x/week habit scores a
+ * full day whenever the last 7 days hold 3 check-ins.
+ *
+ * @param options.seed - Known score (e.g. imported from Loop) to continue from the day after
+ * @param options.from - First day to score (defaults to the day after the seed, else the earliest entry)
+ */
+export function calculateLoopScores(
+  entries: LoopScoreEntry[],
+  frequency: HabitFrequency,
+  options: { to: string; from?: string; seed?: LoopScore }
+): LoopScore[] {
+  const to = toDay(options.to);
+  const byDay = new Map<number, LoopScoreEntry>();
+  for (const entry of entries) {
+    const day = toDay(entry.date);
+    if (!Number.isNaN(day) && day <= to) byDay.set(day, entry);
+  }
+
+  const seedDay = options.seed ? toDay(options.seed.date) : Number.NaN;
+  const from = options.from
+    ? toDay(options.from)
+    : !Number.isNaN(seedDay) ? seedDay + DAY_MS : Math.min(...byDay.keys());
+  if (!Number.isFinite(from) || Number.isNaN(to) || from > to) return [];
+
+  const { numerator, denominator } = frequencyToLoop(frequency);
+  const scores: LoopScore[] = [];
+  let score = options.seed?.score ?? 0;
+
+  // Check-ins just before `from` still count towards the first days' window
+  let rollingSum = 0;
+  for (let day = from - denominator * DAY_MS; day < from; day += DAY_MS) {
+    const entry = byDay.get(day);
+    if (entry) rollingSum += entryProgress(entry);
+  }
+
+  for (let day = from; day <= to; day += DAY_MS) {
+    const entry = byDay.get(day);
+    rollingSum += entry ? entryProgress(entry) : 0;
+
+    const leaving = byDay.get(day - denominator * DAY_MS);
+    if (leaving) rollingSum -= entryProgress(leaving);
+
+    if (entry?.outcome !== 'skipped') {
+      score = nextLoopScore(frequency, score, Math.min(1, rollingSum / numerator));
+    }
+    scores.push({ date: toDate(day), score });
+  }
+
+  return scores;
+}
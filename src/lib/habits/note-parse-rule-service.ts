@@ -0,0 +1,121 @@
+// src/lib/habits/note-parse-rule-service.ts - Per-user note parse rules
+//
+// Stores the rules note-parse-rules.ts applies, and parses logged notes
+// with them for habit_entries.parsed.
+import { isMissingTable } from '../supabase/helpers';
+import { parseNote, type ParsedNoteData } from './note-parser';
+import type { NoteParseRule, NoteParseRuleInput } from './note-parse-rules';
+import { inferSemanticType } from './taxonomy';
+
+const RULE_COLUMNS = 'id, habit_id, name, match_type, pattern, target, field_name, tag, priority, enabled';
+
+class NoteParseRuleService {
+  /**
+   * A user's rules, highest priority first
+   *
+   * @param habitId - Only rules for this habit plus rules for every habit
+   */
+  async listRules(
+    supabaseClient: any,
+    userId: string,
+    options: { habitId?: string; enabledOnly?: boolean } = {}
+  ): Promise<NoteParseRule[]> {
+    let query = supabaseClient
+      .from('habit_note_parse_rules')
+      .select(RULE_COLUMNS)
+      .eq('user_id', userId);
+    if (options.habitId) query = query.or(`habit_id.is.null,habit_id.eq.${options.habitId}`);
+    if (options.enabledOnly) query = query.eq('enabled', true);
+
+    const { data, error } = await query
+      .order('priority', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load note parse rules: ${error.message}`);
+    }
+    return (data || []) as NoteParseRule[];
+  }
+
+  async createRule(supabaseClient: any, userId: string, input: NoteParseRuleInput): Promise<NoteParseRule> {
+    const { data, error } = await supabaseClient
+      .from('habit_note_parse_rules')
+      .insert({ ...this.toRow(input), user_id: userId })
+      .select(RULE_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to create note parse rule: ${error.message}`);
+    return data as NoteParseRule;
+  }
+
+  async updateRule(
+    supabaseClient: any,
+    userId: string,
+    ruleId: string,
+    input: NoteParseRuleInput
+  ): Promise<NoteParseRule | null> {
+    const { data, error } = await supabaseClient
+      .from('habit_note_parse_rules')
+      .update({ ...this.toRow(input), updated_at: new Date().toISOString() })
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select(RULE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update note parse rule: ${error.message}`);
+    return (data as NoteParseRule) ?? null;
+  }
+
+  async deleteRule(supabaseClient: any, userId: string, ruleId: string): Promise<boolean> {
+    const { data, error } = await supabaseClient
+      .from('habit_note_parse_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete note parse rule: ${error.message}`);
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Parse a logged note with the user's rules, for habit_entries.parsed
+   *
+   * @returns null for an empty note
+   */
+  async parseEntryNote(
+    supabaseClient: any,
+    userId: string,
+    habit: { id: string; name?: string | null },
+    note: string | null | undefined
+  ): Promise<ParsedNoteData | null> {
+    if (!note || !note.trim()) return null;
+
+    let rules: NoteParseRule[] = [];
+    try {
+      rules = await this.listRules(supabaseClient, userId, { habitId: habit.id, enabledOnly: true });
+    } catch (error) {
+      console.error('[NoteParseRules] Failed to load rules, parsing with built-ins only:', error);
+    }
+
+    const semanticType = habit.name ? inferSemanticType(habit.name) : null;
+    return parseNote(note, semanticType || undefined, { rules, habitId: habit.id });
+  }
+
+  private toRow(input: NoteParseRuleInput) {
+    return {
+      habit_id: input.habit_id || null,
+      name: input.name.trim(),
+      match_type: input.match_type,
+      pattern: input.pattern,
+      target: input.target,
+      field_name: input.target === 'field' ? input.field_name || null : null,
+      tag: input.target === 'tag' ? input.tag?.trim() || null : null,
+      priority: input.priority ?? 0,
+      enabled: input.enabled ?? true,
+    };
+  }
+}
+
+export const noteParseRuleService = new NoteParseRuleService();
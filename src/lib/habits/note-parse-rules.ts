@@ -0,0 +1,295 @@
+/**
+ * User-defined Note Parse Rules
+ *
+ * The built-in note parser only understands nicotine, cannabis, caffeine,
+ * shower and sleep notes. Parse rules let a user teach it their own habits:
+ * a regex whose first capture group becomes count, duration or a named
+ * field ("pages read: (\d+)" → count), or keywords that add a tag.
+ *
+ * Rules are stored per user (habit_note_parse_rules, see
+ * note-parse-rule-service.ts), optionally scoped to one habit, and applied
+ * by parseNote before the AI enrichment fallback.
+ */
+
+import type { ParsedNoteData } from './note-parser';
+
+export type NoteParseRuleMatchType = 'regex' | 'keywords';
+export type NoteParseRuleTarget = 'count' | 'duration_minutes' | 'strength_mg' | 'field' | 'tag';
+
+export interface NoteParseRule {
+  id: string;
+  /** Habit the rule is limited to; null applies it to every habit */
+  habit_id: string | null;
+  name: string;
+  match_type: NoteParseRuleMatchType;
+  /** Regex source, or comma-separated keywords */
+  pattern: string;
+  target: NoteParseRuleTarget;
+  /** Key under ParsedNoteData.fields (target 'field') */
+  field_name: string | null;
+  /** Tag to add (target 'tag') */
+  tag: string | null;
+  /** Higher runs first; the first rule to set a value wins */
+  priority: number;
+  enabled: boolean;
+}
+
+export type NoteParseRuleInput = Omit<NoteParseRule, 'id' | 'priority' | 'enabled' | 'field_name' | 'tag' | 'habit_id'> &
+  Partial<Pick<NoteParseRule, 'priority' | 'enabled' | 'field_name' | 'tag' | 'habit_id'>>;
+
+export const MAX_RULE_PATTERN_LENGTH = 200;
+// Rules only look at the start of very long notes, bounding match time
+const MAX_MATCHED_NOTE_LENGTH = 2000;
+
+const NUMERIC_TARGETS: NoteParseRuleTarget[] = ['count', 'duration_minutes', 'strength_mg'];
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Characters tried when checking whether two repeated atoms can match the same text
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)),
+  '\t',
+  '\n',
+  '\u00a0',
+  'é',
+];
+
+/**
+ * Whether two single-character atoms ("\s", ".", "[a-z]", "x") can match
+ * the same character
+ */
+function atomsOverlap(first: string, second: string): boolean {
+  try {
+    const a = new RegExp(`^(?:${first})$`, 'i');
+    const b = new RegExp(`^(?:${second})$`, 'i');
+    return SAMPLE_CHARACTERS.some((char) => a.test(char) && b.test(char));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Length of the quantifier starting at `index` ("*", "+", "?", "{2}",
+ * "{2,}", "{2,5}"), or 0 if there is none
+ */
+function quantifierLength(pattern: string, index: number): number {
+  const char = pattern[index];
+  if (char === '*' || char === '+' || char === '?') return 1;
+  if (char !== '{') return 0;
+  return /^\{\d+(,\d*)?\}/.exec(pattern.slice(index))?.[0].length ?? 0;
+}
+
+/**
+ * Whether a regex could backtrack catastrophically on a long note
+ *
+ * Rejects the shapes safe-regex does: a repeated group that itself repeats,
+ * is optional or alternates ("(a+)+", "(a?){25}", "(a|ab)*"), plus
+ * backreferences. Also rejects unbounded repeats in a row that can match the
+ * same characters (".*.*", "\s*\s+"), which backtrack polynomially.
+ * Escapes and character classes are read as single atoms.
+ */
+export function isUnsafeRegexPattern(pattern: string): boolean {
+  const open: Array<{ varies: boolean; alternates: boolean }> = [];
+  let previousGroup: { varies: boolean; alternates: boolean } | null = null;
+  // The atom a quantifier applies to, and the unbounded repeat right before it
+  let previousAtom: string | null = null;
+  let adjacentUnbounded: string | null = null;
+  let lastUnbounded: string | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const quantifier = quantifierLength(pattern, i);
+
+    if (quantifier > 0) {
+      const text = pattern.slice(i, i + quantifier);
+      const unbounded = text === '*' || text === '+' || text.endsWith(',}');
+      if (text !== '?' && previousGroup && (previousGroup.varies || previousGroup.alternates)) return true;
+      if (unbounded && previousAtom && adjacentUnbounded && atomsOverlap(adjacentUnbounded, previousAtom)) return true;
+
+      open.forEach((group) => {
+        group.varies = true;
+      });
+      lastUnbounded = unbounded ? previousAtom : null;
+      i += quantifier - 1;
+      // Lazy quantifiers ("*?") backtrack just the same
+      if (pattern[i + 1] === '?') i++;
+      previousGroup = null;
+      previousAtom = null;
+      continue;
+    }
+
+    previousGroup = null;
+    previousAtom = null;
+    adjacentUnbounded = null;
+
+    if (char === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return true;
+      previousAtom = pattern.slice(i, i + 2);
+      i++;
+    } else if (char === '[') {
+      const classStart = i;
+      i++;
+      if (pattern[i] === '^') i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        if (pattern[i] === '\\') i++;
+        i++;
+      }
+      previousAtom = pattern.slice(classStart, i + 1);
+    } else if (char === '(') {
+      open.push({ varies: false, alternates: false });
+      // Skip "?:", "?=", "?!", "?<=", "?<!" and "?<name>"
+      if (pattern[i + 1] === '?') {
+        if (pattern[i + 2] === '<' && pattern[i + 3] !== '=' && pattern[i + 3] !== '!') {
+          i = Math.max(i, pattern.indexOf('>', i));
+        } else {
+          i += pattern[i + 2] === '<' ? 3 : 2;
+        }
+      }
+    } else if (char === ')') {
+      previousGroup = open.pop() ?? null;
+      if (previousGroup?.varies && open.length > 0) open[open.length - 1].varies = true;
+    } else if (char === '|') {
+      if (open.length > 0) open[open.length - 1].alternates = true;
+    } else {
+      previousAtom = char;
+    }
+
+    if (previousAtom) adjacentUnbounded = lastUnbounded;
+    lastUnbounded = null;
+  }
+
+  return false;
+}
+
+/**
+ * Compile a rule to a case-insensitive regex; null if the pattern is invalid
+ * or could backtrack catastrophically
+ */
+export function compileNoteParseRule(rule: Pick<NoteParseRule, 'match_type' | 'pattern'>): RegExp | null {
+  if (!rule.pattern || rule.pattern.length > MAX_RULE_PATTERN_LENGTH) return null;
+  if (rule.match_type === 'regex' && isUnsafeRegexPattern(rule.pattern)) return null;
+
+  try {
+    if (rule.match_type === 'keywords') {
+      const keywords = rule.pattern
+        .split(',')
+        .map((keyword) => keyword.trim())
+        .filter(Boolean)
+        .map(escapeRegex);
+      if (keywords.length === 0) return null;
+      return new RegExp(`\\b(?:${keywords.join('|')})\\b`, 'i');
+    }
+    return new RegExp(rule.pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a rule before it is stored
+ *
+ * @returns Error messages (empty if valid)
+ */
+export function validateNoteParseRule(input: Partial<NoteParseRuleInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.name || !input.name.trim()) errors.push('Name is required');
+  if (input.match_type !== 'regex' && input.match_type !== 'keywords') {
+    errors.push('Match type must be regex or keywords');
+  }
+  if (!input.target || ![...NUMERIC_TARGETS, 'field', 'tag'].includes(input.target)) {
+    errors.push('Target must be count, duration_minutes, strength_mg, field or tag');
+  }
+  if (!input.pattern || input.pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    errors.push(`Pattern is required and must be at most ${MAX_RULE_PATTERN_LENGTH} characters`);
+  } else if (input.match_type === 'regex' && isUnsafeRegexPattern(input.pattern)) {
+    errors.push('Pattern could take too long to match: avoid repeating a repeated group like "(\\d+)+", repeats in a row like ".*.*" and backreferences');
+  } else if (input.match_type && !compileNoteParseRule({ match_type: input.match_type, pattern: input.pattern })) {
+    errors.push('Pattern is not a valid regular expression');
+  }
+
+  if (input.target === 'tag' && !input.tag?.trim()) errors.push('Tag rules need a tag');
+  if (input.target === 'field' && !/^[a-z][a-z0-9_]{0,39}$/i.test(input.field_name || '')) {
+    errors.push('Field rules need a field name (letters, digits and underscores)');
+  }
+  if (input.match_type === 'keywords' && input.target !== 'tag') {
+    errors.push('Keyword rules can only add tags');
+  }
+  // Numeric targets read the first capture group
+  if (input.match_type === 'regex' && input.pattern && NUMERIC_TARGETS.includes(input.target as NoteParseRuleTarget)) {
+    const regex = compileNoteParseRule({ match_type: 'regex', pattern: input.pattern });
+    // Matching the empty alternative reports how many groups the pattern has
+    if (regex && new RegExp(`${regex.source}|`).exec('')!.length < 2) {
+      errors.push('Rules that extract a number need a capture group, e.g. "pages read: (\\d+)"');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Number from a captured group: "1,200" is 1200, "2,5" is 2.5
+ */
+export function parseCapturedNumber(text: string | undefined): number | null {
+  if (text === undefined) return null;
+  // A comma before exactly three digits separates thousands; any other is a decimal comma
+  const withoutThousands = text.replace(/(\d),(?=\d{3}(?!\d))/g, '$1');
+  const value = parseFloat(withoutThousands.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Apply a user's rules to a note, writing into result
+ *
+ * Rule values take precedence over the built-in patterns: a rule is an
+ * explicit statement of what the user's note means.
+ *
+ * @returns Number of rules that matched
+ */
+export function applyNoteParseRules(
+  note: string,
+  rules: NoteParseRule[],
+  result: ParsedNoteData,
+  habitId?: string
+): number {
+  const applicable = rules
+    .filter((rule) => rule.enabled && (!rule.habit_id || rule.habit_id === habitId))
+    .sort((a, b) => b.priority - a.priority);
+
+  const setByRule = new Set<string>();
+  const text = note.slice(0, MAX_MATCHED_NOTE_LENGTH);
+  let matched = 0;
+
+  for (const rule of applicable) {
+    const regex = compileNoteParseRule(rule);
+    const match = regex ? text.match(regex) : null;
+    if (!match) continue;
+
+    if (rule.target === 'tag') {
+      if (!rule.tag) continue;
+      result.tags = Array.from(new Set([...(result.tags || []), rule.tag]));
+    } else if (rule.target === 'field') {
+      if (!rule.field_name || setByRule.has(`field:${rule.field_name}`)) continue;
+      const captured = match[1] ?? match[0];
+      const numeric = parseCapturedNumber(captured);
+      result.fields = { ...(result.fields || {}), [rule.field_name]: numeric ?? captured.trim() };
+      setByRule.add(`field:${rule.field_name}`);
+    } else {
+      if (setByRule.has(rule.target)) continue;
+      const value = parseCapturedNumber(match[1]);
+      if (value === null) continue;
+      result[rule.target] = value;
+      // A rule count replaces a built-in range guess
+      if (rule.target === 'count') delete result.count_range;
+      setByRule.add(rule.target);
+    }
+
+    result.rules_applied = [...(result.rules_applied || []), rule.id];
+    matched++;
+  }
+
+  return matched;
+}
@@ -9,6 +9,7 @@
  */
 
 import { SemanticType } from './taxonomy';
+import { applyNoteParseRules, type NoteParseRule } from './note-parse-rules';
 
 /**
  * Parsed note data structure
@@ -68,6 +69,11 @@ export interface ParsedNoteData {
   // Tags
   tags?: string[];
   
+  // Values from user-defined parse rules, by field name
+  fields?: Record<string, number | string>;
+  // Ids of the user rules that matched
+  rules_applied?: string[];
+  
   // Confidence and metadata
   confidence: number; // 0.0-1.0
   parse_method: 'deterministic' | 'ai_enriched' | 'failed';
@@ -116,6 +122,16 @@ const PATTERNS = {
   oral_sessions: /(\d+)\s*(brush|floss|oral)/i,
 };
 
+/**
+ * Options for parseNote
+ */
+export interface NoteParseOptions {
+  /** User-defined rules, applied after the built-in patterns */
+  rules?: NoteParseRule[];
+  /** Habit the note belongs to, for habit-scoped rules */
+  habitId?: string;
+}
+
 /**
  * Parse a habit note into structured data
  * 
@@ -125,6 +141,7 @@ const PATTERNS = {
  * 
  * @param note - The free-form note text to parse
  * @param semanticType - Optional semantic type hint for context-aware parsing
+ * @param options - User-defined parse rules to apply
  * @returns Parsed data with confidence score
  * 
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.6, 3.7, 3.8, 3.9, 3.10, 3.11
@@ -138,7 +155,8 @@ const PATTERNS = {
  */
 export function parseNote(
   note: string,
-  semanticType?: SemanticType
+  semanticType?: SemanticType,
+  options: NoteParseOptions = {}
 ): ParsedNoteData {
   // Handle empty or invalid notes
   if (!note || typeof note !== 'string') {
@@ -268,6 +286,13 @@ export function parseNote(
       totalPatterns++;
     }
     
+    // User-defined rules; only matches count, so unmatched rules don't dilute confidence
+    if (options.rules && options.rules.length > 0) {
+      const ruleMatches = applyNoteParseRules(processedNote, options.rules, result, options.habitId);
+      matchCount += ruleMatches;
+      totalPatterns += ruleMatches;
+    }
+    
     // Calculate confidence score
     // Base confidence on match ratio, with minimum threshold
     if (totalPatterns > 0) {
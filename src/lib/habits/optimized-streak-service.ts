@@ -2,6 +2,7 @@
 import type { Database } from '../../types/supabase';
 import { habitCacheService } from './cache-service';
 import { habitPaginationService } from './pagination-service';
+import { calculateScheduledStreak, normalizeHabitFrequency, type HabitFrequency } from './frequency';
 
 type HabitData = Database['public']['Tables']['habits']['Row'];
 type HabitEntry = Database['public']['Tables']['habit_entries']['Row'];
@@ -61,10 +62,10 @@ class OptimizedStreakService {
     }
 
     try {
-      // Get habit type to determine success criteria
+      // Get habit type and schedule to determine success criteria
       const { data: habit, error: habitError } = await supabaseClient
         .from('habits')
-        .select('type')
+        .select('type, frequency')
         .eq('id', habitId)
         .single();
 
@@ -72,6 +73,12 @@ class OptimizedStreakService {
         throw new Error(`Failed to fetch habit: ${habitError?.message}`);
       }
 
+      // The database function counts consecutive days, which is only right for daily habits
+      const frequency = normalizeHabitFrequency(habit.frequency);
+      if (frequency.type !== 'daily') {
+        return await this.calculateStreakClientSide(supabaseClient, userId, habitId, habit.type, asOfDate, frequency);
+      }
+
       // Use database function for optimal performance
       const { data: streakResult, error: streakError } = await supabaseClient
         .rpc('calculate_habit_streak', {
@@ -82,7 +89,7 @@ class OptimizedStreakService {
       if (streakError) {
         // Fallback to client-side calculation if database function fails
         console.warn('Database streak calculation failed, falling back to client-side:', streakError);
-        return await this.calculateStreakClientSide(supabaseClient, userId, habitId, habit.type, asOfDate);
+        return await this.calculateStreakClientSide(supabaseClient, userId, habitId, habit.type, asOfDate, frequency);
       }
 
       const result: StreakCalculationResult = {
@@ -115,7 +122,8 @@ class OptimizedStreakService {
     userId: string,
     habitId: string,
     habitType: string,
-    asOfDate: string
+    asOfDate: string,
+    frequency: HabitFrequency = normalizeHabitFrequency(null)
   ): Promise<StreakCalculationResult> {
     const startTime = Date.now();
 
@@ -201,6 +209,19 @@ class OptimizedStreakService {
       }
     }
 
+    // Non-daily habits: rest days between check-ins don't break the streak
+    if (frequency.type !== 'daily') {
+      const scheduled = calculateScheduledStreak(
+        sortedEntries
+          .filter((entry) => entry.date)
+          .map((entry) => ({ date: entry.date as string, outcome: isSuccess(entry.value) ? 'done' as const : 'missed' as const })),
+        frequency,
+        { asOf: asOfDate }
+      );
+      currentStreak = scheduled.current;
+      bestStreak = scheduled.best;
+    }
+
     const result: StreakCalculationResult = {
       current: currentStreak,
       best: bestStreak,
@@ -248,6 +269,13 @@ class OptimizedStreakService {
             });
           }
         }
+
+        // The batch function is day-based; recompute habits on another schedule
+        for (const habitId of await this.getNonDailyHabitIds(supabaseClient, habitIds)) {
+          const result = await this.calculateHabitStreak(supabaseClient, userId, habitId);
+          results.set(habitId, result);
+          await this.updateHabitStreak(supabaseClient, habitId, result);
+        }
         return results;
       }
     } catch (error) {
@@ -282,6 +310,25 @@ class OptimizedStreakService {
     return results;
   }
 
+  /**
+   * Habits whose frequency is not daily; an unreadable schedule counts as daily
+   */
+  private async getNonDailyHabitIds(supabaseClient: any, habitIds: string[]): Promise<string[]> {
+    try {
+      const { data, error } = await supabaseClient
+        .from('habits')
+        .select('id, frequency')
+        .in('id', habitIds);
+
+      if (error || !data) return [];
+      return data
+        .filter((habit: { frequency: unknown }) => normalizeHabitFrequency(habit.frequency).type !== 'daily')
+        .map((habit: { id: string }) => habit.id);
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Update habit streak in database
    */
@@ -1,56 +1,60 @@
 // src/lib/habits/streaks.ts
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { calculateScheduledStreak, entryValueOutcome, normalizeHabitFrequency } from './frequency';
+import { habitStrengthService } from './strength-service';
 
-export async function updateHabitStreak(supabase: SupabaseClient, habitId: string, userId: string) {
-  const { data: entries } = await supabase
-    .from('habit_entries')
-    .select('date, value')
-    .eq('habit_id', habitId)
-    .eq('user_id', userId)
-    .order('date', { ascending: false })
-    .limit(100);
+export { entryValueOutcome };
+
+/**
+ * Refresh a habit's streaks and strength after its entries changed
+ *
+ * @param changedDate - Date of the entry that changed; strength is then only
+ *   rescored from that day on. Without it the whole history is rescored.
+ */
+export async function updateHabitStreak(
+  supabase: SupabaseClient,
+  habitId: string,
+  userId: string,
+  changedDate?: string
+) {
+  const [{ data: habit }, { data: entries }] = await Promise.all([
+    supabase
+      .from('habits')
+      .select('frequency')
+      .eq('id', habitId)
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('habit_entries')
+      .select('date, value')
+      .eq('habit_id', habitId)
+      .eq('user_id', userId)
+      .order('date', { ascending: false })
+      .limit(100),
+  ]);
 
   if (!entries) return;
 
-  let currentStreak = 0;
-  let bestStreak = 0;
-  let tempStreak = 0;
-  const today = new Date();
-  
-  // Calculate current streak (from today backwards)
-  for (let i = 0; i < 100; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
-    const dateStr = checkDate.toISOString().split('T')[0];
-    
-    const entry = entries.find((e: any) => e.date === dateStr);
-    
-    if (entry) {
-      if (entry.value === 1 || entry.value === 3) { // Completed or partial
-        if (i === 0 || currentStreak > 0) currentStreak++;
-        tempStreak++;
-      } else if (entry.value === 2) { // Skipped - doesn't break streak
-        if (i === 0 || currentStreak > 0) currentStreak++;
-        tempStreak++;
-      } else { // Failed (value = 0)
-        if (currentStreak === 0) currentStreak = tempStreak;
-        break;
-      }
-    } else {
-      // No entry - only breaks streak if we have an active one
-      if (currentStreak > 0) break;
-    }
-    
-    bestStreak = Math.max(bestStreak, tempStreak);
-  }
+  const today = new Date().toISOString().split('T')[0];
+  const { current, best } = calculateScheduledStreak(
+    entries.map((entry: any) => ({ date: entry.date, outcome: entryValueOutcome(entry.value) })),
+    normalizeHabitFrequency((habit as any)?.frequency),
+    { asOf: today }
+  );
 
   // Update habit with new streaks
   await supabase
     .from('habits')
-    .update({ 
-      streak_count: currentStreak,
-      best_streak: Math.max(bestStreak, currentStreak)
+    .update({
+      streak_count: current,
+      best_streak: Math.max(best, current)
     })
     .eq('id', habitId)
     .eq('user_id', userId);
+
+  if (changedDate) {
+    await habitStrengthService.updateHabitStrength(supabase, userId, habitId, changedDate, today);
+  } else {
+    await habitStrengthService.recalculateHabitStrength(supabase, userId, habitId, today);
+  }
 }
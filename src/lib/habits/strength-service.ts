@@ -0,0 +1,332 @@
+// src/lib/habits/strength-service.ts - Loop-style habit strength, stored per day
+//
+// Streaks reset on a single miss; the strength score (see loop-score.ts)
+// only drifts. Scores live in habit_scores, one row per habit per day:
+// rows imported from Loop's Scores.csv are kept as they are, and computed
+// rows continue from the latest imported score. A check-in only rescores
+// the days from its date on, continuing from the stored score before it.
+import { isMissingTable } from '../supabase/helpers';
+import { normalizeHabitFrequency, frequencyToLoop } from './frequency';
+import { calculateLoopScores, loopScoreEntryFromValue, type LoopScore } from './loop-score';
+
+export type HabitScoreSource = 'computed' | 'loop_import';
+
+export interface HabitStrength {
+  habitId: string;
+  /** Latest score, 0-1 */
+  score: number;
+  date: string;
+  /** Daily scores in the requested range, oldest first */
+  history: LoopScore[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Supabase caps a select at 1000 rows
+const PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+
+function shiftDate(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+class HabitStrengthService {
+  /**
+   * Recompute and store a habit's daily scores up to asOfDate
+   *
+   * @returns The computed scores, oldest first (empty if nothing to score)
+   */
+  async recalculateHabitStrength(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    asOfDate: string = new Date().toISOString().split('T')[0]
+  ): Promise<LoopScore[]> {
+    try {
+      const habit = await this.fetchHabit(supabaseClient, userId, habitId);
+      if (!habit) return [];
+
+      const { data: seedRow, error: seedError } = await supabaseClient
+        .from('habit_scores')
+        .select('date, score')
+        .eq('habit_id', habitId)
+        .eq('user_id', userId)
+        .eq('source', 'loop_import')
+        .lte('date', asOfDate)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (seedError) {
+        if (isMissingTable(seedError)) return [];
+        throw seedError;
+      }
+
+      const frequency = normalizeHabitFrequency(habit.frequency);
+      const seed: LoopScore | undefined = seedRow ? { date: seedRow.date, score: Number(seedRow.score) } : undefined;
+      // The first day after the seed still sees check-ins from Loop's interval before it
+      const entriesFrom = seed ? shiftDate(seed.date, -frequencyToLoop(frequency).denominator) : undefined;
+      const entries = await this.fetchEntries(supabaseClient, userId, habitId, entriesFrom, asOfDate);
+
+      const scores = calculateLoopScores(
+        entries.map((entry) => loopScoreEntryFromValue(entry.date, entry.value, habit)),
+        frequency,
+        { to: asOfDate, seed }
+      );
+      await this.storeComputedScores(supabaseClient, userId, habitId, scores);
+
+      // Computed rows before the first scored day belong to entries that no longer exist
+      let staleQuery = supabaseClient
+        .from('habit_scores')
+        .delete()
+        .eq('habit_id', habitId)
+        .eq('user_id', userId)
+        .eq('source', 'computed');
+      if (scores.length > 0) staleQuery = staleQuery.lt('date', scores[0].date);
+      const { error: deleteError } = await staleQuery;
+      if (deleteError) throw deleteError;
+
+      return scores;
+    } catch (error) {
+      console.error('[HabitStrength] Failed to recalculate habit strength:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update a habit's stored scores after the entry on changedDate changed
+   *
+   * Scores before changedDate can't depend on it, so this continues from
+   * the latest stored score before it and only reads the entries after.
+   * Without an earlier score, or when imported Loop scores come after
+   * changedDate, it falls back to recalculateHabitStrength.
+   *
+   * @returns The rescored days, oldest first
+   */
+  async updateHabitStrength(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    changedDate: string,
+    asOfDate: string = new Date().toISOString().split('T')[0]
+  ): Promise<LoopScore[]> {
+    try {
+      const [habit, { data: seedRow, error: seedError }, { data: laterImports, error: importError }] = await Promise.all([
+        this.fetchHabit(supabaseClient, userId, habitId),
+        supabaseClient
+          .from('habit_scores')
+          .select('date, score')
+          .eq('habit_id', habitId)
+          .eq('user_id', userId)
+          .lt('date', changedDate)
+          .order('date', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabaseClient
+          .from('habit_scores')
+          .select('date')
+          .eq('habit_id', habitId)
+          .eq('user_id', userId)
+          .eq('source', 'loop_import')
+          .gte('date', changedDate)
+          .limit(1),
+      ]);
+
+      if (!habit) return [];
+      const error = seedError || importError;
+      if (error) {
+        if (isMissingTable(error)) return [];
+        throw error;
+      }
+      if (!seedRow || (laterImports || []).length > 0) {
+        return this.recalculateHabitStrength(supabaseClient, userId, habitId, asOfDate);
+      }
+
+      const frequency = normalizeHabitFrequency(habit.frequency);
+      const seed: LoopScore = { date: seedRow.date, score: Number(seedRow.score) };
+      const entriesFrom = shiftDate(seed.date, -frequencyToLoop(frequency).denominator);
+      const entries = await this.fetchEntries(supabaseClient, userId, habitId, entriesFrom, asOfDate);
+
+      const scores = calculateLoopScores(
+        entries.map((entry) => loopScoreEntryFromValue(entry.date, entry.value, habit)),
+        frequency,
+        { to: asOfDate, seed }
+      );
+      await this.storeComputedScores(supabaseClient, userId, habitId, scores);
+      return scores;
+    } catch (error) {
+      console.error('[HabitStrength] Failed to update habit strength:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store scores from a Loop Scores.csv and continue the computed scores from them
+   *
+   * @param scores - date (YYYY-MM-DD) → score (0-1)
+   */
+  async storeImportedScores(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    scores: Record<string, number>
+  ): Promise<number> {
+    const rows = Object.entries(scores)
+      .filter(([date, score]) => /^\d{4}-\d{2}-\d{2}$/.test(date) && Number.isFinite(score))
+      .map(([date, score]) => ({
+        habit_id: habitId,
+        user_id: userId,
+        date,
+        score: Math.min(1, Math.max(0, score)),
+        source: 'loop_import' as HabitScoreSource,
+        updated_at: new Date().toISOString(),
+      }));
+    if (rows.length === 0) return 0;
+
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      const { error } = await supabaseClient
+        .from('habit_scores')
+        .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: 'habit_id,date' });
+
+      if (error) {
+        if (!isMissingTable(error)) {
+          console.error('[HabitStrength] Failed to store imported Loop scores:', error);
+        }
+        return 0;
+      }
+    }
+
+    await this.recalculateHabitStrength(supabaseClient, userId, habitId);
+    return rows.length;
+  }
+
+  /**
+   * Stored strength for several habits over the last `days` days
+   *
+   * Habits whose scores stop before asOfDate (no check-in since) are
+   * scored forward so the score reflects the days that went by.
+   */
+  async getHabitStrengths(
+    supabaseClient: any,
+    userId: string,
+    habitIds: string[],
+    options: { days: number; asOfDate?: string }
+  ): Promise<Map<string, HabitStrength>> {
+    const asOfDate = options.asOfDate ?? new Date().toISOString().split('T')[0];
+    const since = shiftDate(asOfDate, -(options.days - 1));
+    const strengths = new Map<string, HabitStrength>();
+    if (habitIds.length === 0) return strengths;
+
+    const { data: rows, error } = await supabaseClient
+      .from('habit_scores')
+      .select('habit_id, date, score')
+      .eq('user_id', userId)
+      .in('habit_id', habitIds)
+      .gte('date', since)
+      .lte('date', asOfDate)
+      .order('date', { ascending: true })
+      .limit(habitIds.length * options.days);
+
+    if (error) {
+      if (!isMissingTable(error)) {
+        console.error('[HabitStrength] Failed to load habit strength:', error);
+      }
+      return strengths;
+    }
+
+    const historyByHabit = new Map<string, LoopScore[]>();
+    for (const row of rows || []) {
+      const history = historyByHabit.get(row.habit_id) ?? [];
+      history.push({ date: row.date, score: Number(row.score) });
+      historyByHabit.set(row.habit_id, history);
+    }
+
+    for (const habitId of habitIds) {
+      let history = historyByHabit.get(habitId) ?? [];
+      const stored = history[history.length - 1];
+      if (stored && stored.date !== asOfDate) {
+        const rescored = await this.updateHabitStrength(supabaseClient, userId, habitId, shiftDate(stored.date, 1), asOfDate);
+        history = [...history, ...rescored.filter((score) => score.date > stored.date)];
+      } else if (!stored) {
+        const scores = await this.recalculateHabitStrength(supabaseClient, userId, habitId, asOfDate);
+        history = scores.filter((score) => score.date >= since);
+      }
+
+      const latest = history[history.length - 1];
+      if (latest) {
+        strengths.set(habitId, { habitId, score: latest.score, date: latest.date, history });
+      }
+    }
+
+    return strengths;
+  }
+
+  private async fetchHabit(
+    supabaseClient: any,
+    userId: string,
+    habitId: string
+  ): Promise<{ frequency: unknown; measurement_type: string | null; target_value: number | null } | null> {
+    const { data: habit, error } = await supabaseClient
+      .from('habits')
+      .select('frequency, measurement_type, target_value')
+      .eq('id', habitId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return error ? null : habit ?? null;
+  }
+
+  private async storeComputedScores(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    scores: LoopScore[]
+  ): Promise<void> {
+    for (let i = 0; i < scores.length; i += WRITE_BATCH_SIZE) {
+      const rows = scores.slice(i, i + WRITE_BATCH_SIZE).map((score) => ({
+        habit_id: habitId,
+        user_id: userId,
+        date: score.date,
+        score: Number(score.score.toFixed(4)),
+        source: 'computed' as HabitScoreSource,
+        updated_at: new Date().toISOString(),
+      }));
+      const { error } = await supabaseClient
+        .from('habit_scores')
+        .upsert(rows, { onConflict: 'habit_id,date' });
+      if (error) throw error;
+    }
+  }
+
+  private async fetchEntries(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    from: string | undefined,
+    to: string
+  ): Promise<Array<{ date: string; value: number | null }>> {
+    const entries: Array<{ date: string; value: number | null }> = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabaseClient
+        .from('habit_entries')
+        .select('date, value')
+        .eq('habit_id', habitId)
+        .eq('user_id', userId)
+        .lte('date', to);
+      if (from) query = query.gte('date', from);
+
+      const { data: page, error } = await query
+        .order('date', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      entries.push(...(page || []).filter((entry: any) => entry.date));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+}
+
+export const habitStrengthService = new HabitStrengthService();
+export default habitStrengthService;
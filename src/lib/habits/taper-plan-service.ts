@@ -0,0 +1,263 @@
+// src/lib/habits/taper-plan-service.ts - Per-user taper plans
+//
+// Stores the plans taper-plans.ts schedules, and works out today's
+// allowance and adherence from the habit's logged entries.
+import {
+  DEFAULT_BASELINE_DAYS,
+  TAPER_UNITS,
+  addDays,
+  buildTaperProgress,
+  calculateBaseline,
+  dailyAmounts,
+  taperPlanChanges,
+  type DailyAmount,
+  type TaperPlan,
+  type TaperPlanInput,
+  type TaperPlanStatus,
+  type TaperProgress,
+  type TaperSemanticType,
+} from './taper-plans';
+import { isMissingTable, withNumericColumns } from '../supabase/helpers';
+
+const PLAN_COLUMNS =
+  'id, habit_id, semantic_type, unit, baseline_daily, step_amount, step_interval_days, target_daily, start_date, status, ' +
+  'paused_at, paused_days, schedule_history';
+
+export interface TaperPlanWithProgress extends TaperPlan {
+  habit_name: string | null;
+  progress: TaperProgress;
+}
+
+export type TaperPlanUpdate = Partial<Pick<TaperPlan, 'status' | 'step_amount' | 'step_interval_days' | 'target_daily'>>;
+
+export class TaperPlanConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaperPlanConflictError';
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function toPlan(row: any): TaperPlan {
+  return {
+    ...withNumericColumns(row, ['baseline_daily', 'step_amount', 'step_interval_days', 'target_daily']),
+    paused_at: row.paused_at ?? null,
+    paused_days: row.paused_days ?? 0,
+    schedule_history: row.schedule_history ?? [],
+  };
+}
+
+class TaperPlanService {
+  async listPlans(
+    supabaseClient: any,
+    userId: string,
+    options: { status?: TaperPlanStatus } = {}
+  ): Promise<TaperPlan[]> {
+    let query = supabaseClient.from('habit_taper_plans').select(PLAN_COLUMNS).eq('user_id', userId);
+    if (options.status) query = query.eq('status', options.status);
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load taper plans: ${error.message}`);
+    }
+    return (data || []).map(toPlan);
+  }
+
+  /**
+   * Plans with their schedule walked up to `asOf`; completed plans are left out
+   */
+  async listPlansWithProgress(
+    supabaseClient: any,
+    userId: string,
+    asOf: string = today()
+  ): Promise<TaperPlanWithProgress[]> {
+    const plans = (await this.listPlans(supabaseClient, userId)).filter((plan) => plan.status !== 'completed');
+    if (plans.length === 0) return [];
+
+    const { data: habits } = await supabaseClient
+      .from('habits')
+      .select('id, name, measurement_type')
+      .eq('user_id', userId)
+      .in('id', [...new Set(plans.map((plan) => plan.habit_id))]);
+    const habitsById = new Map<string, { name: string; measurement_type: string | null }>(
+      (habits || []).map((habit: any) => [habit.id, habit])
+    );
+
+    return Promise.all(
+      plans.map(async (plan) => {
+        const habit = habitsById.get(plan.habit_id);
+        const amounts = await this.loadDailyAmounts(
+          supabaseClient,
+          userId,
+          plan.habit_id,
+          habit?.measurement_type ?? null,
+          plan.start_date
+        );
+        return { ...plan, habit_name: habit?.name ?? null, progress: buildTaperProgress(plan, amounts, asOf) };
+      })
+    );
+  }
+
+  /**
+   * Average daily use over the last DEFAULT_BASELINE_DAYS logged days before `asOf`
+   *
+   * @returns null if the habit is not the user's
+   */
+  async previewBaseline(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    asOf: string = today()
+  ): Promise<{ baseline: number; daysWithData: number } | null> {
+    const habit = await this.loadHabit(supabaseClient, userId, habitId);
+    if (!habit) return null;
+
+    const amounts = await this.loadDailyAmounts(
+      supabaseClient,
+      userId,
+      habitId,
+      habit.measurement_type,
+      addDays(asOf, -DEFAULT_BASELINE_DAYS)
+    );
+    return calculateBaseline(amounts, asOf);
+  }
+
+  /**
+   * @returns null if the habit is not the user's
+   * @throws TaperPlanConflictError if the habit already has an active plan,
+   *   or there is no logged use to take a baseline from
+   */
+  async createPlan(
+    supabaseClient: any,
+    userId: string,
+    input: TaperPlanInput
+  ): Promise<TaperPlan | null> {
+    const startDate = input.start_date || today();
+    let baseline = input.baseline_daily ?? null;
+
+    if (baseline === null) {
+      const preview = await this.previewBaseline(supabaseClient, userId, input.habit_id, startDate);
+      if (!preview) return null;
+      if (preview.baseline <= (input.target_daily ?? 0)) {
+        throw new TaperPlanConflictError(
+          `No use above the target logged in the last ${DEFAULT_BASELINE_DAYS} days; set a baseline`
+        );
+      }
+      baseline = preview.baseline;
+    } else if (!(await this.loadHabit(supabaseClient, userId, input.habit_id))) {
+      return null;
+    }
+
+    const semanticType = input.semantic_type as TaperSemanticType;
+    const { data, error } = await supabaseClient
+      .from('habit_taper_plans')
+      .insert({
+        user_id: userId,
+        habit_id: input.habit_id,
+        semantic_type: semanticType,
+        unit: TAPER_UNITS[semanticType],
+        baseline_daily: baseline,
+        step_amount: input.step_amount,
+        step_interval_days: input.step_interval_days,
+        target_daily: input.target_daily ?? 0,
+        start_date: startDate,
+        status: 'active',
+      })
+      .select(PLAN_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') throw new TaperPlanConflictError('This habit already has an active taper plan');
+      throw new Error(`Failed to create taper plan: ${error.message}`);
+    }
+    return toPlan(data);
+  }
+
+  /**
+   * Pause, resume or complete a plan, or change its steps from today on
+   *
+   * @returns null if the plan is not the user's
+   */
+  async updatePlan(
+    supabaseClient: any,
+    userId: string,
+    planId: string,
+    update: TaperPlanUpdate,
+    asOf: string = today()
+  ): Promise<TaperPlan | null> {
+    const { data: current, error: loadError } = await supabaseClient
+      .from('habit_taper_plans')
+      .select(PLAN_COLUMNS)
+      .eq('id', planId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (loadError) throw new Error(`Failed to load taper plan: ${loadError.message}`);
+    if (!current) return null;
+
+    const changes = taperPlanChanges(toPlan(current), update, asOf);
+    const { data, error } = await supabaseClient
+      .from('habit_taper_plans')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', planId)
+      .eq('user_id', userId)
+      .select(PLAN_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') throw new TaperPlanConflictError('This habit already has an active taper plan');
+      throw new Error(`Failed to update taper plan: ${error.message}`);
+    }
+    return data ? toPlan(data) : null;
+  }
+
+  async deletePlan(supabaseClient: any, userId: string, planId: string): Promise<boolean> {
+    const { data, error } = await supabaseClient
+      .from('habit_taper_plans')
+      .delete()
+      .eq('id', planId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete taper plan: ${error.message}`);
+    return (data?.length ?? 0) > 0;
+  }
+
+  private async loadHabit(
+    supabaseClient: any,
+    userId: string,
+    habitId: string
+  ): Promise<{ id: string; measurement_type: string | null } | null> {
+    const { data } = await supabaseClient
+      .from('habits')
+      .select('id, measurement_type')
+      .eq('id', habitId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    return data ?? null;
+  }
+
+  private async loadDailyAmounts(
+    supabaseClient: any,
+    userId: string,
+    habitId: string,
+    measurementType: string | null,
+    since: string
+  ): Promise<DailyAmount[]> {
+    const { data, error } = await supabaseClient
+      .from('habit_entries')
+      .select('date, value, numeric_value, parsed')
+      .eq('user_id', userId)
+      .eq('habit_id', habitId)
+      .gte('date', since);
+
+    if (error) throw new Error(`Failed to load habit entries: ${error.message}`);
+    return dailyAmounts(data || [], measurementType);
+  }
+}
+
+export const taperPlanService = new TaperPlanService();
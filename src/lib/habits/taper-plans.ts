@@ -0,0 +1,403 @@
+// src/lib/habits/taper-plans.ts - Substance reduction (taper) plans
+//
+// A plan starts from a baseline (average daily use over recent logged
+// days) and steps the daily allowance down by a fixed amount every N days
+// until it reaches the target. It is non-punitive: a logged day over the
+// allowance doesn't reset anything, it just doesn't count towards the next
+// step, so the schedule slides one day later and the current allowance holds.
+//
+// Pausing holds the allowance without counting days either, so the rest of
+// the schedule moves back by the length of the pause. Changing the steps
+// keeps every earlier day's allowance: the new steps start from the current
+// allowance on the day of the change.
+import { SemanticType } from './taxonomy';
+
+export const TAPER_SEMANTIC_TYPES = [
+  SemanticType.NICOTINE_POUCHES,
+  SemanticType.VAPING_PUFFS,
+  SemanticType.POT_USE,
+  SemanticType.ENERGY_DRINK,
+] as const;
+
+export type TaperSemanticType = (typeof TAPER_SEMANTIC_TYPES)[number];
+
+export const TAPER_UNITS: Record<TaperSemanticType, string> = {
+  [SemanticType.NICOTINE_POUCHES]: 'pouches',
+  [SemanticType.VAPING_PUFFS]: 'puffs',
+  [SemanticType.POT_USE]: 'sessions',
+  [SemanticType.ENERGY_DRINK]: 'drinks',
+};
+
+/** Days of history the baseline is averaged over */
+export const DEFAULT_BASELINE_DAYS = 14;
+export const MAX_STEP_INTERVAL_DAYS = 90;
+
+export type TaperPlanStatus = 'active' | 'paused' | 'completed';
+
+/** The step settings a plan ran on before a change or a pause */
+export interface TaperScheduleVersion {
+  /** First day these settings no longer applied */
+  until: string;
+  /** Set when the plan was paused on `until`: the day it was resumed */
+  resumed_on?: string;
+  step_amount: number;
+  step_interval_days: number;
+  target_daily: number;
+}
+
+export interface TaperPlan {
+  id: string;
+  habit_id: string;
+  semantic_type: TaperSemanticType;
+  unit: string;
+  baseline_daily: number;
+  /** Allowance drops by this much per step */
+  step_amount: number;
+  step_interval_days: number;
+  target_daily: number;
+  start_date: string; // YYYY-MM-DD
+  status: TaperPlanStatus;
+  /** Day the current pause began; null unless paused */
+  paused_at: string | null;
+  /** Days spent in earlier pauses, each of which moved the schedule back a day */
+  paused_days: number;
+  /** Ordered by `until`; the plan's own step settings apply after the last one */
+  schedule_history: TaperScheduleVersion[];
+}
+
+export interface TaperPlanInput {
+  habit_id: string;
+  semantic_type: string;
+  /** Calculated from recent entries when omitted */
+  baseline_daily?: number | null;
+  step_amount: number;
+  step_interval_days: number;
+  target_daily?: number;
+  start_date?: string;
+}
+
+export interface DailyAmount {
+  date: string; // YYYY-MM-DD
+  amount: number;
+}
+
+export interface TaperDay {
+  date: string;
+  allowance: number;
+  /** null when nothing was logged that day */
+  actual: number | null;
+  /** null when nothing was logged or the plan was paused */
+  within: boolean | null;
+  paused: boolean;
+}
+
+export interface TaperProgress {
+  days: TaperDay[];
+  todayAllowance: number;
+  todayActual: number | null;
+  daysTracked: number;
+  daysWithin: number;
+  /** Share of tracked days at or under the allowance, 0-1 */
+  adherenceRate: number;
+  /** Days over the allowance, each of which pushed the schedule back a day */
+  heldDays: number;
+  /** Days the plan was paused */
+  pausedDays: number;
+  /** null while paused or once at the target */
+  nextStepDate: string | null;
+  projectedTargetDate: string | null;
+  reachedTarget: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDay(toDay(date) + days * DAY_MS);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function isTaperSemanticType(value: unknown): value is TaperSemanticType {
+  return (TAPER_SEMANTIC_TYPES as readonly unknown[]).includes(value);
+}
+
+/**
+ * How much was used according to one habit entry: numeric_value, then the
+ * count parsed from its note, then the raw value for count habits
+ *
+ * @returns null when the entry says nothing about the amount
+ */
+export function entryAmount(
+  entry: { value?: number | null; numeric_value?: number | null; parsed?: unknown },
+  measurementType?: string | null
+): number | null {
+  if (typeof entry.numeric_value === 'number') return entry.numeric_value;
+
+  let parsed = entry.parsed as { count?: unknown } | null | undefined;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      parsed = null;
+    }
+  }
+  if (parsed && typeof parsed.count === 'number') return parsed.count;
+
+  if (measurementType === 'count' && typeof entry.value === 'number') return entry.value;
+  return null;
+}
+
+/**
+ * Sum entry amounts per day, oldest first
+ */
+export function dailyAmounts(
+  entries: Array<{ date: string; value?: number | null; numeric_value?: number | null; parsed?: unknown }>,
+  measurementType?: string | null
+): DailyAmount[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    const amount = entryAmount(entry, measurementType);
+    if (amount === null || !entry.date) continue;
+    const date = entry.date.slice(0, 10);
+    totals.set(date, (totals.get(date) ?? 0) + amount);
+  }
+  return [...totals.entries()]
+    .map(([date, amount]) => ({ date, amount }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Average daily use over the days before `endDate` that have a logged amount
+ */
+export function calculateBaseline(
+  amounts: DailyAmount[],
+  endDate: string,
+  days: number = DEFAULT_BASELINE_DAYS
+): { baseline: number; daysWithData: number } {
+  const from = addDays(endDate, -days);
+  const window = amounts.filter((day) => day.date >= from && day.date < endDate);
+  if (window.length === 0) return { baseline: 0, daysWithData: 0 };
+
+  const total = window.reduce((sum, day) => sum + day.amount, 0);
+  return { baseline: round1(total / window.length), daysWithData: window.length };
+}
+
+type StepSettings = Pick<TaperPlan, 'step_amount' | 'step_interval_days' | 'target_daily'>;
+
+type ScheduledPlan = Pick<TaperPlan, 'baseline_daily' | 'start_date' | 'status'> &
+  StepSettings &
+  Partial<Pick<TaperPlan, 'paused_at' | 'schedule_history'>>;
+
+function sameSteps(a: StepSettings, b: StepSettings): boolean {
+  return (
+    a.step_amount === b.step_amount &&
+    a.step_interval_days === b.step_interval_days &&
+    a.target_daily === b.target_daily
+  );
+}
+
+/**
+ * Step settings in force on `date`
+ */
+export function stepSettingsOn(
+  plan: StepSettings & Partial<Pick<TaperPlan, 'schedule_history'>>,
+  date: string
+): StepSettings {
+  const version = (plan.schedule_history ?? []).find((earlier) => date < earlier.until) ?? plan;
+  return {
+    step_amount: version.step_amount,
+    step_interval_days: version.step_interval_days,
+    target_daily: version.target_daily,
+  };
+}
+
+/**
+ * Walk the plan from its start to `today`, holding the allowance on days
+ * logged over it and on paused days, with the step settings each day had
+ */
+export function buildTaperProgress(plan: ScheduledPlan, amounts: DailyAmount[], today: string): TaperProgress {
+  const byDate = new Map(amounts.map((day) => [day.date, day.amount]));
+  const history = plan.schedule_history ?? [];
+  const pausedAt = plan.status === 'paused' ? plan.paused_at ?? today : null;
+  const days: TaperDay[] = [];
+  let allowance = plan.baseline_daily;
+  let steps = stepSettingsOn(plan, plan.start_date);
+  // Days kept since the allowance last dropped (or the steps last changed)
+  let progressDays = 0;
+  let heldDays = 0;
+  let pausedDays = 0;
+
+  for (let date = plan.start_date; date <= today; date = addDays(date, 1)) {
+    const current = stepSettingsOn(plan, date);
+    if (!sameSteps(current, steps)) {
+      // New steps start from the allowance on the day they were set
+      steps = current;
+      progressDays = 0;
+    }
+    const paused =
+      (pausedAt !== null && date >= pausedAt) ||
+      history.some((version) => version.resumed_on && date >= version.until && date < version.resumed_on);
+
+    const actual = byDate.get(date) ?? null;
+    const within = actual === null || paused ? null : actual <= allowance;
+    days.push({ date, allowance, actual, within, paused });
+
+    // Today is still in progress; unlogged days count as kept
+    if (date === today) break;
+    if (paused) pausedDays++;
+    else if (within === false) heldDays++;
+    else if (++progressDays >= steps.step_interval_days) {
+      allowance = Math.max(steps.target_daily, round1(allowance - steps.step_amount));
+      progressDays = 0;
+    }
+  }
+
+  const todayAllowance = allowance;
+  const tracked = days.filter((day) => day.within !== null);
+  const daysWithin = tracked.filter((day) => day.within).length;
+  const reachedTarget = todayAllowance <= plan.target_daily;
+
+  let nextStepDate: string | null = null;
+  let projectedTargetDate: string | null = null;
+  if (!reachedTarget && pausedAt === null && plan.step_amount > 0) {
+    const untilNextStep = plan.step_interval_days - progressDays;
+    const stepsLeft = Math.ceil(round1(todayAllowance - plan.target_daily) / plan.step_amount);
+    nextStepDate = addDays(today, untilNextStep);
+    projectedTargetDate = addDays(today, untilNextStep + (stepsLeft - 1) * plan.step_interval_days);
+  }
+
+  return {
+    days,
+    todayAllowance,
+    todayActual: byDate.get(today) ?? null,
+    daysTracked: tracked.length,
+    daysWithin,
+    adherenceRate: tracked.length > 0 ? daysWithin / tracked.length : 0,
+    heldDays,
+    pausedDays,
+    nextStepDate,
+    projectedTargetDate,
+    reachedTarget,
+  };
+}
+
+/**
+ * Row changes for an update to a running plan, keeping the schedule so far
+ *
+ * Changed steps take effect today and the earlier settings go into
+ * schedule_history. Pausing records the day; resuming records the pause
+ * there too and adds its length to paused_days.
+ */
+export function taperPlanChanges(
+  plan: TaperPlan,
+  update: Partial<Pick<TaperPlan, 'status' | 'step_amount' | 'step_interval_days' | 'target_daily'>>,
+  today: string
+): Partial<TaperPlan> {
+  const changes: Partial<TaperPlan> = { ...update };
+  const history = [...plan.schedule_history];
+  const next = { ...plan, ...update };
+
+  const stepsChanged = !sameSteps(plan, next);
+  if (stepsChanged && !history.some((version) => version.until === today && !version.resumed_on)) {
+    history.push({ until: today, ...stepSettingsOn(plan, today) });
+  }
+
+  if (plan.status === 'active' && next.status === 'paused') {
+    changes.paused_at = today;
+  } else if (plan.status === 'paused' && next.status === 'active') {
+    const pausedAt = plan.paused_at ?? today;
+    const pausedFor = Math.round((toDay(today) - toDay(pausedAt)) / DAY_MS);
+    if (pausedFor > 0) {
+      history.push({ until: pausedAt, resumed_on: today, ...stepSettingsOn({ ...plan, schedule_history: history }, pausedAt) });
+      changes.paused_days = plan.paused_days + pausedFor;
+    }
+    changes.paused_at = null;
+  }
+
+  if (history.length !== plan.schedule_history.length) {
+    changes.schedule_history = history.sort((a, b) => a.until.localeCompare(b.until));
+  }
+  return changes;
+}
+
+/**
+ * @returns Problems with the input; empty when it can be saved
+ */
+export function validateTaperPlanInput(input: Partial<TaperPlanInput>): string[] {
+  const errors: string[] = [];
+
+  if (!input.habit_id) errors.push('habit_id is required');
+  if (!isTaperSemanticType(input.semantic_type)) {
+    errors.push(`semantic_type must be one of ${TAPER_SEMANTIC_TYPES.join(', ')}`);
+  }
+  if (typeof input.step_amount !== 'number' || !(input.step_amount > 0)) {
+    errors.push('step_amount must be a positive number');
+  }
+  if (
+    !Number.isInteger(input.step_interval_days) ||
+    (input.step_interval_days as number) < 1 ||
+    (input.step_interval_days as number) > MAX_STEP_INTERVAL_DAYS
+  ) {
+    errors.push(`step_interval_days must be a whole number from 1 to ${MAX_STEP_INTERVAL_DAYS}`);
+  }
+  if (input.target_daily !== undefined && (typeof input.target_daily !== 'number' || input.target_daily < 0)) {
+    errors.push('target_daily must be zero or more');
+  }
+  if (input.baseline_daily !== undefined && input.baseline_daily !== null) {
+    if (typeof input.baseline_daily !== 'number' || input.baseline_daily < 0) {
+      errors.push('baseline_daily must be zero or more');
+    } else if (input.baseline_daily <= (input.target_daily ?? 0)) {
+      errors.push('baseline_daily must be above target_daily');
+    }
+  }
+  if (input.start_date !== undefined && !DATE_PATTERN.test(input.start_date)) {
+    errors.push('start_date must be YYYY-MM-DD');
+  }
+
+  return errors;
+}
+
+/**
+ * Changes to a running plan: pause/resume/complete, or a gentler or steeper schedule
+ */
+export function validateTaperPlanUpdate(update: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const allowed = new Set(['status', 'step_amount', 'step_interval_days', 'target_daily']);
+  const unknown = Object.keys(update).filter((key) => !allowed.has(key));
+
+  if (unknown.length > 0) errors.push(`Cannot change ${unknown.join(', ')}`);
+  if (Object.keys(update).length === 0) errors.push('Nothing to change');
+  if (update.status !== undefined && !['active', 'paused', 'completed'].includes(update.status as string)) {
+    errors.push('status must be active, paused or completed');
+  }
+  if (update.step_amount !== undefined && !(typeof update.step_amount === 'number' && update.step_amount > 0)) {
+    errors.push('step_amount must be a positive number');
+  }
+  if (
+    update.step_interval_days !== undefined &&
+    !(
+      Number.isInteger(update.step_interval_days) &&
+      (update.step_interval_days as number) >= 1 &&
+      (update.step_interval_days as number) <= MAX_STEP_INTERVAL_DAYS
+    )
+  ) {
+    errors.push(`step_interval_days must be a whole number from 1 to ${MAX_STEP_INTERVAL_DAYS}`);
+  }
+  if (update.target_daily !== undefined && !(typeof update.target_daily === 'number' && update.target_daily >= 0)) {
+    errors.push('target_daily must be zero or more');
+  }
+
+  return errors;
+}
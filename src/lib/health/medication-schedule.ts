@@ -0,0 +1,344 @@
+// src/lib/health/medication-schedule.ts - Named medications with scheduled doses
+//
+// Each medication has one or more daily slots ("08:00"), each with a window
+// it has to be taken in ("ADHD meds before 10:00"). A slot with nothing
+// logged is upcoming before its time, due inside the window and missed once
+// the window has closed. Refill countdowns come from the pills left and how
+// many a day the schedule uses. Slot times are wall-clock times in the
+// user's timezone, whatever timezone the server runs in.
+
+import { toZonedDateTime } from '../anchors/recurrence';
+
+/** A slot without its own latest time can be taken this long after it */
+export const DEFAULT_DOSE_WINDOW_MINUTES = 120;
+export const DEFAULT_REFILL_THRESHOLD_DAYS = 7;
+export const MAX_SLOTS_PER_DAY = 8;
+/** Used when the user hasn't set a timezone in their preferences */
+export const DEFAULT_MEDICATION_TIMEZONE = 'Europe/London';
+
+export type DoseLogStatus = 'taken' | 'skipped';
+export type DoseStatus = DoseLogStatus | 'upcoming' | 'due' | 'missed';
+
+export interface MedicationSlot {
+  time: string; // HH:MM
+  /** Must be taken by this time (HH:MM); defaults to DEFAULT_DOSE_WINDOW_MINUTES after `time` */
+  latest?: string | null;
+  label?: string | null;
+}
+
+export interface Medication {
+  id: string;
+  name: string;
+  dose_amount: number | null;
+  dose_unit: string | null;
+  slots: MedicationSlot[];
+  /** null when the user doesn't track their supply */
+  pills_remaining: number | null;
+  pills_per_dose: number;
+  refill_threshold_days: number;
+  active: boolean;
+  notes: string | null;
+}
+
+export interface MedicationInput {
+  name: string;
+  dose_amount?: number | null;
+  dose_unit?: string | null;
+  slots: MedicationSlot[];
+  pills_remaining?: number | null;
+  pills_per_dose?: number;
+  refill_threshold_days?: number;
+  notes?: string | null;
+}
+
+export interface MedicationDoseLog {
+  medication_id: string;
+  scheduled_date: string; // YYYY-MM-DD
+  slot_time: string; // HH:MM, one of the medication's slots
+  status: DoseLogStatus;
+  taken_at: string | null; // ISO timestamp
+}
+
+export interface ScheduledDose {
+  medication_id: string;
+  name: string;
+  dose: string | null; // "150 mg"
+  slot_time: string;
+  latest_time: string;
+  label: string | null;
+  status: DoseStatus;
+  taken_at: string | null;
+  /** Taken, but after the window closed */
+  late: boolean;
+}
+
+export interface RefillStatus {
+  /** Whole days the pills left cover at the scheduled rate */
+  days_left: number;
+  runs_out_on: string; // YYYY-MM-DD
+  refill_due: boolean;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function fromMinutes(total: number): string {
+  const clamped = Math.min(Math.max(total, 0), 23 * 60 + 59);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+/** HH:MM of a timestamp in the user's timezone */
+export function clockTime(date: Date, timeZone: string = DEFAULT_MEDICATION_TIMEZONE): string {
+  return toZonedDateTime(date, timeZone).time;
+}
+
+/** YYYY-MM-DD of a timestamp in the user's timezone */
+export function localDate(date: Date, timeZone: string = DEFAULT_MEDICATION_TIMEZONE): string {
+  return toZonedDateTime(date, timeZone).date;
+}
+
+/**
+ * The timezone to read dose times in: the user's own when it's a valid
+ * IANA name, otherwise DEFAULT_MEDICATION_TIMEZONE
+ */
+export function resolveMedicationTimeZone(timeZone: unknown): string {
+  if (typeof timeZone !== 'string' || !timeZone) return DEFAULT_MEDICATION_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_MEDICATION_TIMEZONE;
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Latest time a slot can be taken; windows never run past midnight
+ */
+export function latestTimeFor(slot: MedicationSlot): string {
+  if (slot.latest) return slot.latest;
+  return fromMinutes(toMinutes(slot.time) + DEFAULT_DOSE_WINDOW_MINUTES);
+}
+
+export function formatDose(medication: Pick<Medication, 'dose_amount' | 'dose_unit'>): string | null {
+  if (medication.dose_amount === null || medication.dose_amount === undefined) return null;
+  return medication.dose_unit ? `${medication.dose_amount} ${medication.dose_unit}` : String(medication.dose_amount);
+}
+
+/**
+ * Status of every active medication's slots on `date`, earliest first
+ *
+ * @param asOf - The current local date and time; days before it are over,
+ *   so anything unlogged on them is missed
+ * @param timeZone - The user's timezone, to tell whether a dose was taken late
+ */
+export function buildDaySchedule(
+  medications: Medication[],
+  doses: MedicationDoseLog[],
+  date: string,
+  asOf: { date: string; time: string },
+  timeZone: string = DEFAULT_MEDICATION_TIMEZONE
+): ScheduledDose[] {
+  const logged = new Map(
+    doses
+      .filter((dose) => dose.scheduled_date === date)
+      .map((dose) => [`${dose.medication_id}|${dose.slot_time}`, dose])
+  );
+
+  const schedule: ScheduledDose[] = [];
+  for (const medication of medications) {
+    if (!medication.active) continue;
+
+    for (const slot of medication.slots) {
+      const latest = latestTimeFor(slot);
+      const log = logged.get(`${medication.id}|${slot.time}`);
+
+      let status: DoseStatus;
+      if (log) status = log.status;
+      else if (date < asOf.date) status = 'missed';
+      else if (date > asOf.date || asOf.time < slot.time) status = 'upcoming';
+      else if (asOf.time <= latest) status = 'due';
+      else status = 'missed';
+
+      const takenAt = log?.status === 'taken' ? log.taken_at : null;
+      schedule.push({
+        medication_id: medication.id,
+        name: medication.name,
+        dose: formatDose(medication),
+        slot_time: slot.time,
+        latest_time: latest,
+        label: slot.label ?? null,
+        status,
+        taken_at: takenAt,
+        late: takenAt !== null && clockTime(new Date(takenAt), timeZone) > latest,
+      });
+    }
+  }
+
+  return schedule.sort((a, b) => a.slot_time.localeCompare(b.slot_time) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Doses scheduled at or before `time` that are still waiting to be taken,
+ * i.e. the ones to take before leaving the house at `time`. A dose whose
+ * window has already closed is missed, not outstanding.
+ */
+export function outstandingDosesBy(schedule: ScheduledDose[], time: string): ScheduledDose[] {
+  return schedule.filter(
+    (dose) => dose.slot_time <= time && (dose.status === 'due' || dose.status === 'upcoming')
+  );
+}
+
+export function countMissed(schedule: ScheduledDose[]): number {
+  return schedule.filter((dose) => dose.status === 'missed').length;
+}
+
+/**
+ * Days the supply lasts at the scheduled rate
+ *
+ * @returns null when the supply isn't tracked or nothing is scheduled
+ */
+export function refillStatus(
+  medication: Pick<Medication, 'pills_remaining' | 'pills_per_dose' | 'slots' | 'refill_threshold_days'>,
+  today: string
+): RefillStatus | null {
+  if (medication.pills_remaining === null || medication.slots.length === 0) return null;
+
+  const perDay = medication.pills_per_dose * medication.slots.length;
+  if (!(perDay > 0)) return null;
+
+  const daysLeft = Math.max(0, Math.floor(medication.pills_remaining / perDay));
+  return {
+    days_left: daysLeft,
+    runs_out_on: addDays(today, daysLeft),
+    refill_due: daysLeft <= medication.refill_threshold_days,
+  };
+}
+
+function validateSlots(slots: unknown, errors: string[]): void {
+  if (!Array.isArray(slots) || slots.length === 0) {
+    errors.push('slots must list at least one scheduled time');
+    return;
+  }
+  if (slots.length > MAX_SLOTS_PER_DAY) {
+    errors.push(`slots can have at most ${MAX_SLOTS_PER_DAY} times a day`);
+  }
+
+  const seen = new Set<string>();
+  for (const slot of slots as Array<Partial<MedicationSlot>>) {
+    if (!slot || !isValidTime(slot.time)) {
+      errors.push('Each slot needs a time as HH:MM');
+      continue;
+    }
+    if (seen.has(slot.time)) errors.push(`Slot ${slot.time} is listed twice`);
+    seen.add(slot.time);
+
+    if (slot.latest !== undefined && slot.latest !== null) {
+      if (!isValidTime(slot.latest)) errors.push(`Latest time for ${slot.time} must be HH:MM`);
+      else if (slot.latest < slot.time) errors.push(`Latest time for ${slot.time} can't be before it`);
+    }
+  }
+}
+
+function validateSupply(input: Partial<MedicationInput>, errors: string[]): void {
+  if (
+    input.pills_remaining !== undefined &&
+    input.pills_remaining !== null &&
+    !(typeof input.pills_remaining === 'number' && input.pills_remaining >= 0)
+  ) {
+    errors.push('pills_remaining must be zero or more');
+  }
+  if (input.pills_per_dose !== undefined && !(typeof input.pills_per_dose === 'number' && input.pills_per_dose > 0)) {
+    errors.push('pills_per_dose must be a positive number');
+  }
+  if (
+    input.refill_threshold_days !== undefined &&
+    !(Number.isInteger(input.refill_threshold_days) && (input.refill_threshold_days as number) >= 0)
+  ) {
+    errors.push('refill_threshold_days must be a whole number of days');
+  }
+  if (
+    input.dose_amount !== undefined &&
+    input.dose_amount !== null &&
+    !(typeof input.dose_amount === 'number' && input.dose_amount > 0)
+  ) {
+    errors.push('dose_amount must be a positive number');
+  }
+}
+
+/**
+ * @returns Problems with the input; empty when it can be saved
+ */
+export function validateMedicationInput(input: Partial<MedicationInput>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+  validateSlots(input.slots, errors);
+  validateSupply(input, errors);
+
+  return errors;
+}
+
+/**
+ * Changes to a medication: schedule, dose, supply (e.g. after a refill) or active
+ */
+export function validateMedicationUpdate(update: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const allowed = new Set([
+    'name',
+    'dose_amount',
+    'dose_unit',
+    'slots',
+    'pills_remaining',
+    'pills_per_dose',
+    'refill_threshold_days',
+    'active',
+    'notes',
+  ]);
+  const unknown = Object.keys(update).filter((key) => !allowed.has(key));
+
+  if (unknown.length > 0) errors.push(`Cannot change ${unknown.join(', ')}`);
+  if (Object.keys(update).length === 0) errors.push('Nothing to change');
+  if (update.name !== undefined && !(typeof update.name === 'string' && update.name.trim())) {
+    errors.push('name cannot be empty');
+  }
+  if (update.slots !== undefined) validateSlots(update.slots, errors);
+  if (update.active !== undefined && typeof update.active !== 'boolean') errors.push('active must be true or false');
+  validateSupply(update as Partial<MedicationInput>, errors);
+
+  return errors;
+}
+
+/**
+ * A dose being logged against one of a medication's slots
+ */
+export function validateDoseLog(input: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.medication_id !== 'string' || !input.medication_id) errors.push('medication_id is required');
+  if (!isValidTime(input.slot_time)) errors.push('slot_time must be HH:MM');
+  if (input.status !== undefined && input.status !== 'taken' && input.status !== 'skipped') {
+    errors.push('status must be taken or skipped');
+  }
+  if (input.date !== undefined && !(typeof input.date === 'string' && DATE_PATTERN.test(input.date))) {
+    errors.push('date must be YYYY-MM-DD');
+  }
+  if (input.taken_at !== undefined && Number.isNaN(Date.parse(String(input.taken_at)))) {
+    errors.push('taken_at must be a timestamp');
+  }
+
+  return errors;
+}
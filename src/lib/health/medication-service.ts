@@ -0,0 +1,364 @@
+// src/lib/health/medication-service.ts - Per-user medications and dose log
+//
+// Stores the medications medication-schedule.ts schedules, logs doses
+// against their slots and keeps the pill count in step with what was taken.
+import {
+  DEFAULT_REFILL_THRESHOLD_DAYS,
+  buildDaySchedule,
+  clockTime,
+  localDate,
+  refillStatus,
+  resolveMedicationTimeZone,
+  type DoseLogStatus,
+  type Medication,
+  type MedicationDoseLog,
+  type MedicationInput,
+  type MedicationSlot,
+  type RefillStatus,
+  type ScheduledDose,
+} from './medication-schedule';
+import { isMissingTable, withNumericColumns } from '../supabase/helpers';
+
+const MEDICATION_COLUMNS =
+  'id, name, dose_amount, dose_unit, slots, pills_remaining, pills_per_dose, refill_threshold_days, active, notes';
+const DOSE_COLUMNS = 'medication_id, scheduled_date, slot_time, status, taken_at';
+
+export interface MedicationWithStatus extends Medication {
+  today: ScheduledDose[];
+  refill: RefillStatus | null;
+}
+
+export interface DaySchedule {
+  medications: Medication[];
+  doses: ScheduledDose[];
+  /** The user's timezone, which the slot times are in */
+  timeZone: string;
+}
+
+export type MedicationUpdate = Partial<Omit<Medication, 'id'>>;
+
+export interface DoseLogInput {
+  medication_id: string;
+  slot_time: string;
+  status?: DoseLogStatus;
+  date?: string;
+  taken_at?: string;
+}
+
+export class MedicationDoseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MedicationDoseError';
+  }
+}
+
+function nowLocal(timeZone: string): { date: string; time: string } {
+  const now = new Date();
+  return { date: localDate(now, timeZone), time: clockTime(now, timeZone) };
+}
+
+function toSlots(raw: unknown): MedicationSlot[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((slot) => slot && typeof slot.time === 'string')
+    .map((slot) => ({ time: slot.time, latest: slot.latest ?? null, label: slot.label ?? null }));
+}
+
+function toMedication(row: any): Medication {
+  return {
+    ...withNumericColumns(row, ['dose_amount', 'pills_remaining', 'pills_per_dose', 'refill_threshold_days']),
+    slots: toSlots(row.slots),
+  };
+}
+
+class MedicationService {
+  async listMedications(
+    supabaseClient: any,
+    userId: string,
+    options: { activeOnly?: boolean } = {}
+  ): Promise<Medication[]> {
+    let query = supabaseClient.from('medications').select(MEDICATION_COLUMNS).eq('user_id', userId);
+    if (options.activeOnly) query = query.eq('active', true);
+
+    const { data, error } = await query.order('name', { ascending: true });
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load medications: ${error.message}`);
+    }
+    return (data || []).map(toMedication);
+  }
+
+  /**
+   * The timezone the user's dose times are in, from their preferences
+   */
+  async getTimeZone(supabaseClient: any, userId: string): Promise<string> {
+    const { data, error } = await supabaseClient
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) console.warn('[Medication] Failed to load timezone, using default:', error.message);
+    return resolveMedicationTimeZone(data?.preferences?.timezone);
+  }
+
+  /**
+   * Every active medication's doses on `date`, with what was logged
+   *
+   * @param asOf - Defaults to now in the user's timezone
+   */
+  async getDaySchedule(
+    supabaseClient: any,
+    userId: string,
+    date: string,
+    asOf?: { date: string; time: string }
+  ): Promise<DaySchedule> {
+    const timeZone = await this.getTimeZone(supabaseClient, userId);
+    const medications = await this.listMedications(supabaseClient, userId, { activeOnly: true });
+    if (medications.length === 0) return { medications, doses: [], timeZone };
+
+    const doses = await this.loadDoses(supabaseClient, userId, date, date);
+    return {
+      medications,
+      doses: buildDaySchedule(medications, doses, date, asOf ?? nowLocal(timeZone), timeZone),
+      timeZone,
+    };
+  }
+
+  /**
+   * All medications with today's doses and how long the supply lasts
+   *
+   * @param asOf - Defaults to now in the user's timezone
+   */
+  async listMedicationsWithStatus(
+    supabaseClient: any,
+    userId: string,
+    asOf?: { date: string; time: string }
+  ): Promise<MedicationWithStatus[]> {
+    const medications = await this.listMedications(supabaseClient, userId);
+    if (medications.length === 0) return [];
+
+    const timeZone = await this.getTimeZone(supabaseClient, userId);
+    const now = asOf ?? nowLocal(timeZone);
+    const doses = await this.loadDoses(supabaseClient, userId, now.date, now.date);
+    const today = buildDaySchedule(medications, doses, now.date, now, timeZone);
+
+    return medications.map((medication) => ({
+      ...medication,
+      today: today.filter((dose) => dose.medication_id === medication.id),
+      refill: medication.active ? refillStatus(medication, now.date) : null,
+    }));
+  }
+
+  async createMedication(supabaseClient: any, userId: string, input: MedicationInput): Promise<Medication> {
+    const { data, error } = await supabaseClient
+      .from('medications')
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        dose_amount: input.dose_amount ?? null,
+        dose_unit: input.dose_unit?.trim() || null,
+        slots: input.slots,
+        pills_remaining: input.pills_remaining ?? null,
+        pills_per_dose: input.pills_per_dose ?? 1,
+        refill_threshold_days: input.refill_threshold_days ?? DEFAULT_REFILL_THRESHOLD_DAYS,
+        notes: input.notes ?? null,
+      })
+      .select(MEDICATION_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to create medication: ${error.message}`);
+    return toMedication(data);
+  }
+
+  async updateMedication(
+    supabaseClient: any,
+    userId: string,
+    medicationId: string,
+    update: MedicationUpdate
+  ): Promise<Medication | null> {
+    const { data, error } = await supabaseClient
+      .from('medications')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', medicationId)
+      .eq('user_id', userId)
+      .select(MEDICATION_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update medication: ${error.message}`);
+    return data ? toMedication(data) : null;
+  }
+
+  /**
+   * Deletes the medication and its dose log
+   */
+  async deleteMedication(supabaseClient: any, userId: string, medicationId: string): Promise<boolean> {
+    const { data, error } = await supabaseClient
+      .from('medications')
+      .delete()
+      .eq('id', medicationId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete medication: ${error.message}`);
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Log a scheduled dose as taken or skipped; logging it again replaces the
+   * first log. The pill count drops when a dose becomes taken and goes back
+   * up when a taken dose is changed to skipped.
+   *
+   * @returns null if the medication is not the user's
+   * @throws MedicationDoseError if the slot isn't on the medication's schedule
+   */
+  async logDose(
+    supabaseClient: any,
+    userId: string,
+    input: DoseLogInput
+  ): Promise<{ dose: MedicationDoseLog; pills_remaining: number | null } | null> {
+    const medication = await this.loadMedication(supabaseClient, userId, input.medication_id);
+    if (!medication) return null;
+    if (!medication.slots.some((slot) => slot.time === input.slot_time)) {
+      throw new MedicationDoseError(`${medication.name} has no dose scheduled at ${input.slot_time}`);
+    }
+
+    const date = input.date || localDate(new Date(), await this.getTimeZone(supabaseClient, userId));
+    const status = input.status || 'taken';
+    const [previous] = await this.loadDoses(supabaseClient, userId, date, date, medication.id, input.slot_time);
+
+    const { data, error } = await supabaseClient
+      .from('medication_doses')
+      .upsert(
+        {
+          user_id: userId,
+          medication_id: medication.id,
+          scheduled_date: date,
+          slot_time: input.slot_time,
+          status,
+          taken_at: status === 'taken' ? input.taken_at || new Date().toISOString() : null,
+        },
+        { onConflict: 'medication_id,scheduled_date,slot_time' }
+      )
+      .select(DOSE_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to log dose: ${error.message}`);
+
+    const wasTaken = previous?.status === 'taken';
+    const pillsRemaining = await this.adjustSupply(
+      supabaseClient,
+      userId,
+      medication,
+      (status === 'taken' ? 1 : 0) - (wasTaken ? 1 : 0)
+    );
+    return { dose: data as MedicationDoseLog, pills_remaining: pillsRemaining };
+  }
+
+  /**
+   * Remove a dose log (a mis-tap), putting back the pills it took
+   *
+   * @returns false if there was nothing logged for that slot
+   */
+  async clearDose(
+    supabaseClient: any,
+    userId: string,
+    input: { medication_id: string; slot_time: string; date?: string }
+  ): Promise<boolean> {
+    const date = input.date || localDate(new Date(), await this.getTimeZone(supabaseClient, userId));
+    const { data, error } = await supabaseClient
+      .from('medication_doses')
+      .delete()
+      .eq('user_id', userId)
+      .eq('medication_id', input.medication_id)
+      .eq('scheduled_date', date)
+      .eq('slot_time', input.slot_time)
+      .select('status');
+
+    if (error) throw new Error(`Failed to clear dose: ${error.message}`);
+    if (!data || data.length === 0) return false;
+
+    if (data[0].status === 'taken') {
+      const medication = await this.loadMedication(supabaseClient, userId, input.medication_id);
+      if (medication) await this.adjustSupply(supabaseClient, userId, medication, -1);
+    }
+    return true;
+  }
+
+  /**
+   * Dose logs between two dates (inclusive)
+   */
+  async loadDoses(
+    supabaseClient: any,
+    userId: string,
+    from: string,
+    to: string,
+    medicationId?: string,
+    slotTime?: string
+  ): Promise<MedicationDoseLog[]> {
+    let query = supabaseClient
+      .from('medication_doses')
+      .select(DOSE_COLUMNS)
+      .eq('user_id', userId)
+      .gte('scheduled_date', from)
+      .lte('scheduled_date', to);
+    if (medicationId) query = query.eq('medication_id', medicationId);
+    if (slotTime) query = query.eq('slot_time', slotTime);
+
+    const { data, error } = await query;
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load medication doses: ${error.message}`);
+    }
+    return data || [];
+  }
+
+  private async loadMedication(supabaseClient: any, userId: string, medicationId: string): Promise<Medication | null> {
+    const { data } = await supabaseClient
+      .from('medications')
+      .select(MEDICATION_COLUMNS)
+      .eq('id', medicationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    return data ? toMedication(data) : null;
+  }
+
+  /**
+   * Change the pill count in one statement (adjust_medication_supply), so
+   * two doses logged at once both count
+   *
+   * @param dosesTaken - Net doses taken by this change (negative gives pills back)
+   */
+  private async adjustSupply(
+    supabaseClient: any,
+    userId: string,
+    medication: Medication,
+    dosesTaken: number
+  ): Promise<number | null> {
+    if (medication.pills_remaining === null || dosesTaken === 0) return medication.pills_remaining;
+
+    const { data, error } = await supabaseClient.rpc('adjust_medication_supply', {
+      p_medication_id: medication.id,
+      p_user_id: userId,
+      p_doses_taken: dosesTaken,
+    });
+
+    if (error?.code === 'PGRST202') {
+      // Before the migration: read-modify-write, which can lose a concurrent dose
+      console.warn('[Medication] adjust_medication_supply not found, updating the pill count directly');
+      const pillsRemaining = Math.max(0, medication.pills_remaining - dosesTaken * medication.pills_per_dose);
+      const { error: updateError } = await supabaseClient
+        .from('medications')
+        .update({ pills_remaining: pillsRemaining, updated_at: new Date().toISOString() })
+        .eq('id', medication.id)
+        .eq('user_id', userId);
+
+      if (updateError) throw new Error(`Failed to update pill count: ${updateError.message}`);
+      return pillsRemaining;
+    }
+
+    if (error) throw new Error(`Failed to update pill count: ${error.message}`);
+    return data === null || data === undefined ? null : Number(data);
+  }
+}
+
+export const medicationService = new MedicationService();
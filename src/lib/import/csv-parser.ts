@@ -24,7 +24,7 @@ export const parseCsvData = (data: any[]): CalendarEvent[] => {
   });
 };
 
-const mapEventType = (type: string | undefined): 'class' | 'meeting' | 'personal' | 'workout' | 'task' | 'break' | 'meal' => {
+export const mapEventType = (type: string | undefined): 'class' | 'meeting' | 'personal' | 'workout' | 'task' | 'break' | 'meal' => {
   switch (type) {
     case 'lecture':
     case 'laboratory practical':
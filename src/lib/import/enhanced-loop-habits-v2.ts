@@ -10,7 +10,17 @@
 import { createServerClient } from '../supabase/server';
 import type { AstroCookies } from 'astro';
 import { parseNote, type ParsedNoteData } from '../habits/note-parser';
+import type { NoteParseRule } from '../habits/note-parse-rules';
+import { noteParseRuleService } from '../habits/note-parse-rule-service';
 import { inferSemanticType, normalizeUnit, type SemanticType } from '../habits/taxonomy';
+import {
+  createEmptyImportDiff,
+  habitImportBatchService,
+  recordEntryDiff,
+  snapshotEntry,
+  type HabitImportBatchChange,
+  type HabitImportDiff,
+} from './habit-import-batches';
 
 /**
  * Import format detection result
@@ -24,6 +34,8 @@ export interface PerHabitImportOptions {
   files: File[]; // Array of per-habit checkmarks.csv files
   userId: string;
   conflictResolution?: ConflictResolution[];
+  /** Report what the import would change without writing anything */
+  dryRun?: boolean;
 }
 
 /**
@@ -44,6 +56,20 @@ export interface ImportResult {
   importedEntries: number;
   errors: ImportError[];
   warnings: ImportWarning[];
+  diff?: HabitImportDiff;
+  /** Batch to roll back (committed imports only) */
+  batchId?: string | null;
+}
+
+/**
+ * Per-file import context shared by a whole run
+ */
+interface PerHabitRunContext {
+  dryRun: boolean;
+  diff: HabitImportDiff;
+  batchId: string | null;
+  /** The user's enabled note parse rules */
+  parseRules: NoteParseRule[];
 }
 
 /**
@@ -266,9 +292,8 @@ export function normalizeLoopValue(
   
   if (type === 'NUMERICAL') {
     if (isNaN(numValue)) return 0;
-    // Loop often stores numerical values multiplied by 1000.
-    // Keep small values as-is to avoid over-dividing already-normalized data.
-    return Math.abs(numValue) >= 1000 ? numValue / 1000 : numValue;
+    // Loop always stores numerical values multiplied by 1000, so 500 is 0.5
+    return numValue / 1000;
   }
 
   // Text token mapping for per-habit exports
@@ -349,6 +374,12 @@ export class EnhancedLoopHabitsImporterV2 {
       errors: [],
       warnings: [],
     };
+    const context: PerHabitRunContext = {
+      dryRun: Boolean(options.dryRun),
+      diff: createEmptyImportDiff(),
+      batchId: null,
+      parseRules: [],
+    };
     
     try {
       // Get existing habits for fuzzy matching
@@ -365,6 +396,16 @@ export class EnhancedLoopHabitsImporterV2 {
         });
         return result;
       }
+
+      try {
+        context.parseRules = await noteParseRuleService.listRules(this.supabase, this.userId, { enabledOnly: true });
+      } catch (error) {
+        console.warn('Failed to load note parse rules, parsing with built-ins only:', error);
+      }
+
+      if (!context.dryRun) {
+        context.batchId = await habitImportBatchService.startBatch(this.supabase, this.userId, 'loop_per_habit');
+      }
       
       // Process each file
       for (const file of options.files) {
@@ -372,7 +413,8 @@ export class EnhancedLoopHabitsImporterV2 {
           const fileResult = await this.processPerHabitFile(
             file,
             existingHabits || [],
-            options.conflictResolution || []
+            options.conflictResolution || [],
+            context
           );
           
           result.importedHabits += fileResult.importedHabits;
@@ -388,6 +430,9 @@ export class EnhancedLoopHabitsImporterV2 {
         }
       }
       
+      await habitImportBatchService.completeBatch(this.supabase, context.batchId, context.diff);
+      result.diff = context.diff;
+      result.batchId = context.batchId;
       result.success = result.errors.filter(e => e.severity === 'error').length === 0;
       return result;
       
@@ -407,7 +452,8 @@ export class EnhancedLoopHabitsImporterV2 {
   private async processPerHabitFile(
     file: File,
     existingHabits: Array<{ id: string; name: string; type: string; measurement_type: string }>,
-    conflictResolutions: ConflictResolution[]
+    conflictResolutions: ConflictResolution[],
+    context: PerHabitRunContext
   ): Promise<ImportResult> {
     const result: ImportResult = {
       success: false,
@@ -450,6 +496,19 @@ export class EnhancedLoopHabitsImporterV2 {
         message: `Matched "${habitName}" to existing habit "${match.habitName}" (${match.confidence}% confidence)`,
         habitName,
       });
+      context.diff.habits.push({
+        habitName,
+        action: 'match',
+        matchedHabitId: match.habitId,
+        matchedHabitName: match.habitName,
+        confidence: match.confidence,
+      });
+    } else if (context.dryRun) {
+      // Nothing to compare against: every entry of a new habit is an insert
+      habitId = '';
+      habitType = this.determineHabitType(habitName);
+      measurementType = 'boolean';
+      context.diff.habits.push({ habitName, action: 'create' });
     } else {
       // Create new habit
       const { data: newHabit, error: createError } = await this.supabase
@@ -478,6 +537,10 @@ export class EnhancedLoopHabitsImporterV2 {
       habitType = newHabit.type;
       measurementType = newHabit.measurement_type;
       result.importedHabits++;
+      context.diff.habits.push({ habitName, action: 'create' });
+      await habitImportBatchService.recordChanges(this.supabase, context.batchId, this.userId, [
+        { action: 'habit_created', habitId },
+      ]);
     }
     
     // Infer semantic type for better parsing
@@ -509,12 +572,13 @@ export class EnhancedLoopHabitsImporterV2 {
         numeric_value: number | null;
         source: string | null;
         logged_at: string | null;
+        import_batch_id: string | null;
       }
     >();
-    if (entryDates.length > 0) {
+    if (habitId && entryDates.length > 0) {
       const { data: existingRows, error: existingError } = await this.supabase
         .from('habit_entries')
-        .select('id, date, value, notes, parsed, numeric_value, source, logged_at')
+        .select('id, date, value, notes, parsed, numeric_value, source, logged_at, import_batch_id')
         .eq('user_id', this.userId)
         .eq('habit_id', habitId)
         .in('date', entryDates);
@@ -538,6 +602,7 @@ export class EnhancedLoopHabitsImporterV2 {
             numeric_value: number | null;
             source: string | null;
             logged_at: string | null;
+            import_batch_id: string | null;
           });
         }
       }
@@ -545,6 +610,7 @@ export class EnhancedLoopHabitsImporterV2 {
 
     const rowsToInsert: Array<Record<string, unknown>> = [];
     const rowsToUpdate: Array<{ id: string; row: Record<string, unknown> }> = [];
+    const batchChanges: HabitImportBatchChange[] = [];
     let mergedExisting = 0;
 
     for (const entry of dedupedEntries) {
@@ -553,7 +619,10 @@ export class EnhancedLoopHabitsImporterV2 {
         let numericValue: number | null = null;
         
         if (entry.notes) {
-          parsedData = parseNote(entry.notes, semanticType || undefined);
+          parsedData = parseNote(entry.notes, semanticType || undefined, {
+            rules: context.parseRules,
+            habitId: habitId || undefined,
+          });
           numericValue = this.extractNumericValue(parsedData, measurementType);
         }
         
@@ -563,19 +632,32 @@ export class EnhancedLoopHabitsImporterV2 {
 
         if (existing) {
           mergedExisting++;
-          rowsToUpdate.push({
-            id: existing.id,
-            row: {
-              value: existing.value ?? normalizedValue,
-              notes: this.chooseBetterText(existing.notes, entry.notes),
-              numeric_value: existing.numeric_value ?? numericValue,
-              parsed: existing.parsed ?? incomingParsed,
-              source: existing.source || 'loop_per_habit',
-              logged_at: existing.logged_at || new Date(`${entry.date}T00:00:00.000Z`).toISOString(),
-            },
-          });
+          const row: Record<string, unknown> = {
+            value: existing.value ?? normalizedValue,
+            notes: this.chooseBetterText(existing.notes, entry.notes),
+            numeric_value: existing.numeric_value ?? numericValue,
+            parsed: existing.parsed ?? incomingParsed,
+            source: existing.source || 'loop_per_habit',
+            logged_at: existing.logged_at || new Date(`${entry.date}T00:00:00.000Z`).toISOString(),
+          };
+          // Rewriting an entry with the values it already has is not an overwrite
+          if (!recordEntryDiff(context.diff, habitName, entry.date, existing, row)) continue;
+
+          if (context.batchId) {
+            row.import_batch_id = context.batchId;
+            batchChanges.push({
+              action: 'entry_updated',
+              habitId,
+              entryId: existing.id,
+              date: entry.date,
+              previous: snapshotEntry(existing),
+            });
+          }
+          rowsToUpdate.push({ id: existing.id, row });
         } else {
+          context.diff.entries.insert++;
           rowsToInsert.push({
+            ...(context.batchId ? { import_batch_id: context.batchId } : {}),
             habit_id: habitId,
             user_id: this.userId,
             date: entry.date,
@@ -597,6 +679,14 @@ export class EnhancedLoopHabitsImporterV2 {
       }
     }
 
+    if (context.dryRun) {
+      result.success = true;
+      return result;
+    }
+
+    // Prior values are stored before anything is overwritten
+    await habitImportBatchService.recordChanges(this.supabase, context.batchId, this.userId, batchChanges);
+
     if (rowsToUpdate.length > 0) {
       for (const updateItem of rowsToUpdate) {
         const { error: updateError } = await this.supabase
@@ -693,19 +783,28 @@ export class EnhancedLoopHabitsImporterV2 {
   ): Array<{ date: string; valueRaw: string; notes: string | null }> {
     const entries: Array<{ date: string; valueRaw: string; notes: string | null }> = [];
     const rows = this.parseDelimitedRows(csvContent);
-    if (rows.length < 2) return entries;
+    if (rows.length === 0) return entries;
 
     const headers = rows[0].map((h) => h.trim().toLowerCase());
-    const dateIndex = headers.findIndex((h) => h === 'date' || h === 'timestamp');
-    const valueIndex = headers.findIndex((h) => h === 'value');
-    const notesIndex = headers.findIndex((h) => h === 'notes' || h === 'note' || h === 'comment');
+    let dateIndex = headers.findIndex((h) => h === 'date' || h === 'timestamp');
+    let valueIndex = headers.findIndex((h) => h === 'value');
+    let notesIndex = headers.findIndex((h) => h === 'notes' || h === 'note' || h === 'comment');
+    let firstDataRow = 1;
+
+    // Loop's own per-habit files have no header: Date,Value[,Notes]
+    if (dateIndex === -1 && valueIndex === -1 && this.parseLoopDate(rows[0][0] || '')) {
+      dateIndex = 0;
+      valueIndex = 1;
+      notesIndex = 2;
+      firstDataRow = 0;
+    }
 
     if (dateIndex === -1 || valueIndex === -1) {
       console.warn(`Per-habit CSV missing required columns for ${habitName}`);
       return entries;
     }
 
-    for (let i = 1; i < rows.length; i++) {
+    for (let i = firstDataRow; i < rows.length; i++) {
       const row = rows[i];
       if (!row || row.length === 0) continue;
 
@@ -827,34 +926,17 @@ export class EnhancedLoopHabitsImporterV2 {
       return 'NUMERICAL';
     }
 
+    // Yes/no checkmarks are only ever 0-3 (or text tokens); anything else is
+    // a ×1000 numerical value
     const sample = entries.slice(0, 50);
-    let numericCount = 0;
-    let bigNumericCount = 0;
-    let tokenCount = 0;
-
-    for (const row of sample) {
+    const hasNumericalValue = sample.some((row) => {
       const raw = (row.valueRaw || '').trim();
-      if (!raw) continue;
-      const upper = raw.toUpperCase();
-      if (
-        upper.startsWith('YES') ||
-        upper.startsWith('NO') ||
-        upper.startsWith('SKIP') ||
-        upper.startsWith('UNKNOWN')
-      ) {
-        tokenCount++;
-        continue;
-      }
-
+      if (!raw) return false;
       const n = Number(raw);
-      if (!isNaN(n)) {
-        numericCount++;
-        if (Math.abs(n) >= 1000) bigNumericCount++;
-      }
-    }
+      return !isNaN(n) && ![0, 1, 2, 3].includes(n);
+    });
 
-    if (bigNumericCount > 0) return 'NUMERICAL';
-    if (numericCount > tokenCount) return 'NUMERICAL';
+    if (hasNumericalValue) return 'NUMERICAL';
     return 'YES_NO';
   }
 
@@ -1,6 +1,21 @@
 // src/lib/import/enhanced-loop-habits.ts - Enhanced Loop Habits Import with Error Handling
 import { createServerClient } from '../supabase/server';
 import type { AstroCookies } from 'astro';
+import {
+  DAILY_FREQUENCY,
+  calculateScheduledStreak,
+  frequencyFromLoop,
+  normalizeHabitFrequency,
+  type HabitFrequency,
+} from '../habits/frequency';
+import { habitStrengthService } from '../habits/strength-service';
+import {
+  createEmptyImportDiff,
+  habitImportBatchService,
+  type HabitImportDiff,
+} from './habit-import-batches';
+
+const ENTRY_PAGE_SIZE = 1000;
 
 export interface ImportProgress {
   stage: 'validation' | 'parsing' | 'conflict_resolution' | 'importing' | 'calculating_streaks' | 'complete';
@@ -55,6 +70,10 @@ export interface ImportSummary {
     averageStreakLength: number;
     mostActiveHabit: string;
   };
+  /** What the import changes (the whole result of a dry run) */
+  diff?: HabitImportDiff;
+  /** Batch to roll back (committed imports only) */
+  batchId?: string | null;
 }
 
 export interface ValidationResult {
@@ -85,7 +104,8 @@ export class EnhancedLoopHabitsImporter {
 
   async importWithEnhancedHandling(
     csvFiles: { habits: string; checkmarks: string; scores: string },
-    conflictResolutions?: ConflictResolution[]
+    conflictResolutions?: ConflictResolution[],
+    options: { dryRun?: boolean } = {}
   ): Promise<ImportSummary> {
     this.startTime = Date.now();
     const summary: ImportSummary = {
@@ -142,10 +162,25 @@ export class EnhancedLoopHabitsImporter {
 
       // Apply conflict resolutions
       const resolvedHabits = this.applyConflictResolutions(parsedData.habits, conflicts, conflictResolutions || []);
+      summary.diff = await this.previewHabitsAndEntries(resolvedHabits, parsedData).catch((error) => {
+        // The diff is the whole point of a dry run, but must not block a committed import
+        if (options.dryRun) throw error;
+        console.warn('Failed to preview import changes:', error);
+        return createEmptyImportDiff();
+      });
+
+      if (options.dryRun) {
+        this.updateProgress('complete', 100, 'Dry run complete');
+        summary.success = true;
+        summary.processingTime = Date.now() - this.startTime;
+        return summary;
+      }
 
       // Stage 4: Import Habits
       this.updateProgress('importing', 60, 'Importing habits and entries');
-      const importResult = await this.importHabitsAndEntries(resolvedHabits, parsedData);
+      summary.batchId = await habitImportBatchService.startBatch(this.supabase, this.userId, 'loop_root');
+      const importResult = await this.importHabitsAndEntries(resolvedHabits, parsedData, summary.batchId);
+      await habitImportBatchService.completeBatch(this.supabase, summary.batchId, summary.diff);
       summary.importedHabits = importResult.importedHabits;
       summary.skippedHabits = importResult.skippedHabits;
       summary.importedEntries = importResult.importedEntries;
@@ -450,6 +485,8 @@ export class EnhancedLoopHabitsImporter {
           const habitName = header[j];
           if (!habitName) continue;
           
+          // Blank cells are days that were never logged
+          if (values[j] === '') continue;
           if (!data[habitName]) data[habitName] = {};
           
           const rawValue = parseInt(values[j]) || 0;
@@ -609,7 +646,61 @@ export class EnhancedLoopHabitsImporter {
     return resolvedHabits;
   }
 
-  private async importHabitsAndEntries(habits: any[], parsedData: any) {
+  /**
+   * Read-only pass over the same matching rules as importHabitsAndEntries
+   *
+   * Root imports never overwrite: entries that already exist are skipped.
+   */
+  private async previewHabitsAndEntries(habits: any[], parsedData: any): Promise<HabitImportDiff> {
+    const diff = createEmptyImportDiff();
+    const { data: existingHabits } = await this.supabase
+      .from('habits')
+      .select('id, name')
+      .eq('user_id', this.userId);
+
+    const existingByName = new Map<string, { id: string; name: string }>();
+    for (const habit of existingHabits || []) {
+      existingByName.set(habit.name.toLowerCase().trim(), habit);
+    }
+
+    const habitMap = new Map<string, string>();
+    for (const habit of habits) {
+      const existing = existingByName.get(habit.name.toLowerCase().trim());
+      if (existing) {
+        habitMap.set(habit.name, existing.id);
+        diff.habits.push({
+          habitName: habit.name,
+          action: 'match',
+          matchedHabitId: existing.id,
+          matchedHabitName: existing.name,
+          confidence: 100,
+        });
+      } else {
+        diff.habits.push({ habitName: habit.name, action: 'create' });
+      }
+    }
+
+    const existingEntries = await this.loadExistingEntryIds(Array.from(habitMap.values()));
+
+    const importedNames = new Set(habits.map((habit) => habit.name));
+    for (const [habitName, dateEntries] of Object.entries(parsedData.checkmarks)) {
+      if (!importedNames.has(habitName)) continue;
+      const habitId = habitMap.get(habitName);
+
+      for (const [dateStr, value] of Object.entries(dateEntries as Record<string, number>)) {
+        if (value === null || value === undefined || value < 0) continue;
+        if (habitId && existingEntries.has(`${habitId}-${dateStr}`)) {
+          diff.entries.unchanged++;
+        } else {
+          diff.entries.insert++;
+        }
+      }
+    }
+
+    return diff;
+  }
+
+  private async importHabitsAndEntries(habits: any[], parsedData: any, batchId: string | null = null) {
     let importedHabits = 0;
     let skippedHabits = 0;
     let importedEntries = 0;
@@ -657,6 +748,8 @@ export class EnhancedLoopHabitsImporter {
             color: habit.color,
             position: habit.position,
             target_value: habit.numRepetitions,
+            // Loop's NumRepetitions / Interval is the habit's frequency
+            frequency: frequencyFromLoop(habit.numRepetitions, habit.interval),
           })
           .select('id, name')
           .single();
@@ -666,6 +759,9 @@ export class EnhancedLoopHabitsImporter {
           existingHabitsMap.set(habitKey, insertedHabit.id); // Update the map
           console.log(`✅ Created new habit: ${habit.name} (${insertedHabit.id})`);
           importedHabits++;
+          await habitImportBatchService.recordChanges(this.supabase, batchId, this.userId, [
+            { action: 'habit_created', habitId: insertedHabit.id },
+          ]);
         } else {
           skippedHabits++;
         }
@@ -690,22 +786,10 @@ export class EnhancedLoopHabitsImporter {
     
     // Import entries - check for existing entries to avoid duplicates
     const entries = [];
-    const existingEntriesMap = new Map<string, boolean>();
     
     // Get existing entries to avoid duplicates
-    if (habitMap.size > 0) {
-      const { data: existingEntries } = await this.supabase
-        .from('habit_entries')
-        .select('habit_id, date')
-        .eq('user_id', this.userId)
-        .in('habit_id', Array.from(habitMap.values()));
-      
-      if (existingEntries) {
-        for (const entry of existingEntries) {
-          existingEntriesMap.set(`${entry.habit_id}-${entry.date}`, true);
-        }
-      }
-    }
+    const existingEntriesMap = await this.loadExistingEntryIds(Array.from(habitMap.values()));
+    const existingEntryIds = new Set(existingEntriesMap.values());
     
     for (const [habitName, dateEntries] of Object.entries(parsedData.checkmarks)) {
       const habitId = habitMap.get(habitName);
@@ -769,6 +853,8 @@ export class EnhancedLoopHabitsImporter {
         console.log(`📦 Inserting ${entries.length} entries using safe insertion (prevents duplicates)`);
         let insertedCount = 0;
         let useSafeInsertRpc = true;
+        // Entries the RPC inserted, tagged with the batch once the loop is done
+        const rpcInsertedIds: string[] = [];
         
         for (let i = 0; i < entries.length; i++) {
           const entry = entries[i];
@@ -786,6 +872,11 @@ export class EnhancedLoopHabitsImporter {
                   p_notes: entry.notes
                 });
               error = rpcResult.error;
+              // The RPC also updates an existing entry and returns its id; only
+              // entries this import created may be tagged, or a rollback deletes them
+              if (!error && typeof rpcResult.data === 'string' && !existingEntryIds.has(rpcResult.data)) {
+                rpcInsertedIds.push(rpcResult.data);
+              }
 
               if (error?.code === 'PGRST202') {
                 useSafeInsertRpc = false;
@@ -808,7 +899,8 @@ export class EnhancedLoopHabitsImporter {
                   user_id: entry.user_id,
                   value: entry.value,
                   logged_at: entry.logged_at,
-                  date: entry.date
+                  date: entry.date,
+                  ...(batchId ? { import_batch_id: batchId } : {})
                 });
               error = insertResult.error;
             }
@@ -843,6 +935,19 @@ export class EnhancedLoopHabitsImporter {
           }
         }
         
+        if (batchId) {
+          for (let i = 0; i < rpcInsertedIds.length; i += 500) {
+            const { error: tagError } = await this.supabase
+              .from('habit_entries')
+              .update({ import_batch_id: batchId })
+              .in('id', rpcInsertedIds.slice(i, i + 500))
+              .eq('user_id', this.userId);
+            if (tagError) {
+              console.error('❌ Failed to tag imported entries with their batch:', tagError);
+            }
+          }
+        }
+
         importedEntries = insertedCount;
         if (insertedCount > 0) {
           console.log(`✅ Successfully processed ${importedEntries} habit entries (inserted/updated with duplicate prevention)`);
@@ -862,6 +967,18 @@ export class EnhancedLoopHabitsImporter {
     } else {
       console.log('ℹ️ No new entries to import');
     }
+
+    // Loop's Scores.csv seeds the habit strength score so it doesn't restart at zero
+    for (const [habitName, dateScores] of Object.entries(parsedData.scores || {})) {
+      const habitId = habitMap.get(habitName);
+      if (!habitId) continue;
+      await habitStrengthService.storeImportedScores(
+        this.supabase,
+        this.userId,
+        habitId,
+        dateScores as Record<string, number>
+      );
+    }
     
     return {
       importedHabits,
@@ -872,11 +989,40 @@ export class EnhancedLoopHabitsImporter {
     };
   }
 
+  /**
+   * Ids of the user's entries for these habits, keyed by `${habit_id}-${date}`
+   *
+   * Paged, since a single read stops at PostgREST's 1000 row cap and years of
+   * Loop history go well past it.
+   */
+  private async loadExistingEntryIds(habitIds: string[]): Promise<Map<string, string>> {
+    const existing = new Map<string, string>();
+    if (habitIds.length === 0) return existing;
+
+    for (let offset = 0; ; offset += ENTRY_PAGE_SIZE) {
+      const { data: page, error } = await this.supabase
+        .from('habit_entries')
+        .select('id, habit_id, date')
+        .eq('user_id', this.userId)
+        .in('habit_id', habitIds)
+        .order('id', { ascending: true })
+        .range(offset, offset + ENTRY_PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load existing entries: ${error.message}`);
+      for (const entry of page || []) {
+        existing.set(`${entry.habit_id}-${entry.date}`, entry.id);
+      }
+      if (!page || page.length < ENTRY_PAGE_SIZE) break;
+    }
+
+    return existing;
+  }
+
   private async calculateAllStreaks() {
     // Use existing streak calculation logic
     const { data: habits } = await this.supabase
       .from('habits')
-      .select('id, name, type')
+      .select('id, name, type, frequency')
       .eq('user_id', this.userId);
     
     if (!habits) return;
@@ -891,7 +1037,7 @@ export class EnhancedLoopHabitsImporter {
       if (!entries || entries.length === 0) continue;
       
       const { currentStreak, bestStreak, totalCompletions } = this.calculateStreakForHabit(
-        entries, habit.name, habit.type
+        entries, habit.name, habit.type, normalizeHabitFrequency(habit.frequency)
       );
       
       await this.supabase
@@ -905,7 +1051,7 @@ export class EnhancedLoopHabitsImporter {
     }
   }
 
-  private calculateStreakForHabit(entries: any[], habitName: string, habitType: string) {
+  private calculateStreakForHabit(entries: any[], habitName: string, habitType: string, frequency: HabitFrequency = DAILY_FREQUENCY) {
     const isSuccess = (value: number): boolean => {
       const lower = habitName.toLowerCase();
       if (lower.includes('vap')) {
@@ -959,6 +1105,17 @@ export class EnhancedLoopHabitsImporter {
     // Count total completions
     totalCompletions = entries.filter(e => isSuccess(e.value)).length;
     
+    // Non-daily habits: rest days don't break the streak
+    if (frequency.type !== 'daily') {
+      const scheduled = calculateScheduledStreak(
+        entries.map(e => ({ date: e.date, outcome: isSuccess(e.value) ? 'done' as const : 'missed' as const })),
+        frequency,
+        { asOf: today.toISOString().split('T')[0] }
+      );
+      currentStreak = scheduled.current;
+      bestStreak = scheduled.best;
+    }
+    
     return { currentStreak, bestStreak, totalCompletions };
   }
 
@@ -0,0 +1,351 @@
+/**
+ * Habit Import Batches
+ *
+ * Every Loop import first runs as a dry run that reports what it would do
+ * (habits created or matched, entries inserted or overwritten, notes that
+ * change). A committed import is recorded as a batch: inserted entries carry
+ * its import_batch_id and overwritten entries keep their prior values in
+ * habit_import_batch_changes, so the whole batch can be rolled back.
+ * Editing an entry in the app clears its import_batch_id, so a rollback
+ * leaves entries the user has since changed alone.
+ */
+
+import { updateHabitStreak } from '../habits/streaks';
+import { isMissingTable } from '../supabase/helpers';
+
+export type HabitImportSource = 'loop_root' | 'loop_per_habit';
+
+export interface HabitImportHabitChange {
+  habitName: string;
+  action: 'create' | 'match';
+  matchedHabitId?: string;
+  matchedHabitName?: string;
+  /** Fuzzy match confidence, 0-100 */
+  confidence?: number;
+}
+
+export interface HabitImportEntryValues {
+  value: number | null;
+  notes: string | null;
+}
+
+export interface HabitImportEntryChange {
+  habitName: string;
+  date: string;
+  previous: HabitImportEntryValues;
+  next: HabitImportEntryValues;
+}
+
+export interface HabitImportDiff {
+  habits: HabitImportHabitChange[];
+  entries: {
+    insert: number;
+    overwrite: number;
+    unchanged: number;
+    noteChanges: number;
+  };
+  /** First MAX_DIFF_ROWS overwritten entries */
+  overwrites: HabitImportEntryChange[];
+  /** First MAX_DIFF_ROWS entries whose notes change */
+  noteChanges: HabitImportEntryChange[];
+}
+
+/** Snapshot of an entry before an import overwrote it */
+export interface HabitEntrySnapshot {
+  value: number | null;
+  notes: string | null;
+  numeric_value: number | null;
+  parsed: unknown;
+  source: string | null;
+  logged_at: string | null;
+  import_batch_id: string | null;
+}
+
+export type HabitImportBatchChange =
+  | { action: 'habit_created'; habitId: string }
+  | { action: 'entry_updated'; habitId: string; entryId: string; date: string; previous: HabitEntrySnapshot };
+
+export interface HabitImportBatch {
+  id: string;
+  source: HabitImportSource;
+  status: 'committed' | 'rolled_back';
+  summary: HabitImportDiff['entries'] & { habitsCreated: number; habitsMatched: number } | null;
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+export interface HabitImportRollbackResult {
+  restoredEntries: number;
+  deletedEntries: number;
+  deletedHabits: number;
+  /** Overwritten entries a later import or edit changed again; left as they are */
+  skippedEntries: number;
+}
+
+export const MAX_DIFF_ROWS = 200;
+
+// Fields an import can overwrite on an existing entry
+const SNAPSHOT_FIELDS = ['value', 'notes', 'numeric_value', 'parsed', 'source', 'logged_at'] as const;
+const WRITE_BATCH_SIZE = 500;
+
+function comparable(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'string' && value.startsWith('{')) {
+    try {
+      return JSON.stringify(JSON.parse(value));
+    } catch {
+      return value;
+    }
+  }
+  return String(value);
+}
+
+export function createEmptyImportDiff(): HabitImportDiff {
+  return {
+    habits: [],
+    entries: { insert: 0, overwrite: 0, unchanged: 0, noteChanges: 0 },
+    overwrites: [],
+    noteChanges: [],
+  };
+}
+
+/**
+ * Whether writing `next` over an existing entry changes anything
+ */
+export function isEntryOverwrite(existing: Record<string, unknown>, next: Record<string, unknown>): boolean {
+  return SNAPSHOT_FIELDS.some((field) => field in next && comparable(existing[field]) !== comparable(next[field]));
+}
+
+/**
+ * Count an existing entry the import touches, recording it when it changes
+ */
+export function recordEntryDiff(
+  diff: HabitImportDiff,
+  habitName: string,
+  date: string,
+  existing: Record<string, unknown>,
+  next: Record<string, unknown>
+): boolean {
+  if (!isEntryOverwrite(existing, next)) {
+    diff.entries.unchanged++;
+    return false;
+  }
+
+  const change: HabitImportEntryChange = {
+    habitName,
+    date,
+    previous: { value: (existing.value as number | null) ?? null, notes: (existing.notes as string | null) ?? null },
+    next: {
+      value: ('value' in next ? next.value : existing.value) as number | null ?? null,
+      notes: ('notes' in next ? next.notes : existing.notes) as string | null ?? null,
+    },
+  };
+
+  diff.entries.overwrite++;
+  if (diff.overwrites.length < MAX_DIFF_ROWS) diff.overwrites.push(change);
+  if (comparable(change.previous.notes) !== comparable(change.next.notes)) {
+    diff.entries.noteChanges++;
+    if (diff.noteChanges.length < MAX_DIFF_ROWS) diff.noteChanges.push(change);
+  }
+  return true;
+}
+
+export function snapshotEntry(row: Record<string, unknown>): HabitEntrySnapshot {
+  return {
+    value: (row.value as number | null) ?? null,
+    notes: (row.notes as string | null) ?? null,
+    numeric_value: (row.numeric_value as number | null) ?? null,
+    parsed: row.parsed ?? null,
+    source: (row.source as string | null) ?? null,
+    logged_at: (row.logged_at as string | null) ?? null,
+    import_batch_id: (row.import_batch_id as string | null) ?? null,
+  };
+}
+
+class HabitImportBatchService {
+  /**
+   * Open a batch for a committed import
+   *
+   * @returns The batch id, or null when batches are unavailable (the import still runs)
+   */
+  async startBatch(supabaseClient: any, userId: string, source: HabitImportSource): Promise<string | null> {
+    try {
+      const { data, error } = await supabaseClient
+        .from('habit_import_batches')
+        .insert({ user_id: userId, source, status: 'committed' })
+        .select('id')
+        .single();
+
+      if (error) {
+        if (!isMissingTable(error)) {
+          console.error('[HabitImportBatches] Failed to start import batch:', error);
+        }
+        return null;
+      }
+      return data.id;
+    } catch (error) {
+      console.error('[HabitImportBatches] Failed to start import batch:', error);
+      return null;
+    }
+  }
+
+  async recordChanges(
+    supabaseClient: any,
+    batchId: string | null,
+    userId: string,
+    changes: HabitImportBatchChange[]
+  ): Promise<void> {
+    if (!batchId || changes.length === 0) return;
+
+    const rows = changes.map((change) => ({
+      batch_id: batchId,
+      user_id: userId,
+      habit_id: change.habitId,
+      action: change.action,
+      entry_id: change.action === 'entry_updated' ? change.entryId : null,
+      date: change.action === 'entry_updated' ? change.date : null,
+      previous: change.action === 'entry_updated' ? change.previous : null,
+    }));
+
+    try {
+      for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+        const { error } = await supabaseClient
+          .from('habit_import_batch_changes')
+          .insert(rows.slice(i, i + WRITE_BATCH_SIZE));
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error('[HabitImportBatches] Failed to record import changes:', error);
+    }
+  }
+
+  async completeBatch(supabaseClient: any, batchId: string | null, diff: HabitImportDiff): Promise<void> {
+    if (!batchId) return;
+
+    try {
+      const { error } = await supabaseClient
+        .from('habit_import_batches')
+        .update({
+          summary: {
+            ...diff.entries,
+            habitsCreated: diff.habits.filter((habit) => habit.action === 'create').length,
+            habitsMatched: diff.habits.filter((habit) => habit.action === 'match').length,
+          },
+        })
+        .eq('id', batchId);
+      if (error) throw error;
+    } catch (error) {
+      console.error('[HabitImportBatches] Failed to store import summary:', error);
+    }
+  }
+
+  async listBatches(supabaseClient: any, userId: string, limit: number = 10): Promise<HabitImportBatch[]> {
+    const { data, error } = await supabaseClient
+      .from('habit_import_batches')
+      .select('id, source, status, summary, created_at, rolled_back_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load import batches: ${error.message}`);
+    }
+    return (data || []) as HabitImportBatch[];
+  }
+
+  /**
+   * Undo a committed import: restore overwritten entries, delete inserted
+   * ones, and delete habits it created that have no other entries left
+   */
+  async rollbackBatch(supabaseClient: any, userId: string, batchId: string): Promise<HabitImportRollbackResult> {
+    const { data: batch, error: batchError } = await supabaseClient
+      .from('habit_import_batches')
+      .select('id, status')
+      .eq('id', batchId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (batchError) throw new Error(`Failed to load import batch: ${batchError.message}`);
+    if (!batch) throw new Error('Import batch not found');
+    if (batch.status === 'rolled_back') throw new Error('Import batch was already rolled back');
+
+    const { data: changes, error: changesError } = await supabaseClient
+      .from('habit_import_batch_changes')
+      .select('habit_id, entry_id, action, previous')
+      .eq('batch_id', batchId)
+      .eq('user_id', userId);
+
+    if (changesError) throw new Error(`Failed to load import changes: ${changesError.message}`);
+
+    const result: HabitImportRollbackResult = { restoredEntries: 0, deletedEntries: 0, deletedHabits: 0, skippedEntries: 0 };
+    const affectedHabits = new Set<string>();
+
+    // Restore first: restored rows drop this batch id, so the delete below only hits inserted rows
+    for (const change of (changes || []).filter((row: any) => row.action === 'entry_updated')) {
+      const { data: restored, error } = await supabaseClient
+        .from('habit_entries')
+        .update(change.previous)
+        .eq('id', change.entry_id)
+        .eq('user_id', userId)
+        .eq('import_batch_id', batchId)
+        .select('id');
+
+      if (error) throw new Error(`Failed to restore entry: ${error.message}`);
+      if (restored && restored.length > 0) {
+        result.restoredEntries++;
+        affectedHabits.add(change.habit_id);
+      } else {
+        result.skippedEntries++;
+      }
+    }
+
+    const { data: deleted, error: deleteError } = await supabaseClient
+      .from('habit_entries')
+      .delete()
+      .eq('user_id', userId)
+      .eq('import_batch_id', batchId)
+      .select('id, habit_id');
+
+    if (deleteError) throw new Error(`Failed to delete imported entries: ${deleteError.message}`);
+    result.deletedEntries = deleted?.length ?? 0;
+    for (const row of deleted || []) affectedHabits.add(row.habit_id);
+
+    for (const change of (changes || []).filter((row: any) => row.action === 'habit_created')) {
+      const { count, error: countError } = await supabaseClient
+        .from('habit_entries')
+        .select('id', { count: 'exact', head: true })
+        .eq('habit_id', change.habit_id)
+        .eq('user_id', userId);
+
+      if (countError || (count ?? 0) > 0) continue;
+
+      const { error } = await supabaseClient
+        .from('habits')
+        .delete()
+        .eq('id', change.habit_id)
+        .eq('user_id', userId);
+      if (!error) {
+        result.deletedHabits++;
+        affectedHabits.delete(change.habit_id);
+      }
+    }
+
+    const { error: statusError } = await supabaseClient
+      .from('habit_import_batches')
+      .update({ status: 'rolled_back', rolled_back_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('user_id', userId);
+
+    if (statusError) throw new Error(`Failed to mark import batch rolled back: ${statusError.message}`);
+
+    for (const habitId of affectedHabits) {
+      await updateHabitStreak(supabaseClient, habitId, userId);
+    }
+
+    return result;
+  }
+}
+
+export const habitImportBatchService = new HabitImportBatchService();
@@ -0,0 +1,204 @@
+/**
+ * Loop Habits CSV Export
+ *
+ * Writes habits back out in the layout of Loop's own "Export as CSV":
+ * - Habits.csv: Position,Name,Question,Description,NumRepetitions,Interval,Color
+ * - Checkmarks.csv / Scores.csv: one column per habit, newest day first
+ * - "NNN Name/Checkmarks.csv": Date,Value,Notes per logged day (no header)
+ * - "NNN Name/Scores.csv": Date,Score per day
+ *
+ * Values use the encoding normalizeLoopValue reads (YES_NO: 2 done, 3 skipped,
+ * 0 missed; NUMERICAL: value × 1000). The per-habit folders are the lossless
+ * copy: they carry notes and only the days that were actually logged, which
+ * is what EnhancedLoopHabitsImporterV2 imports.
+ */
+
+import { entryValueOutcome, frequencyToLoop, normalizeHabitFrequency } from '../habits/frequency';
+import { calculateLoopScores, loopScoreEntryFromValue } from '../habits/loop-score';
+
+export type LoopValueMode = 'NUMERICAL' | 'YES_NO';
+
+export interface LoopExportHabit {
+  id: string;
+  name: string;
+  description?: string | null;
+  measurement_type?: string | null;
+  target_value?: number | null;
+  target_unit?: string | null;
+  color?: string | null;
+  position?: number | null;
+  frequency?: unknown;
+}
+
+export interface LoopExportEntry {
+  habit_id: string;
+  date: string; // YYYY-MM-DD
+  value: number | null;
+  notes?: string | null;
+}
+
+export interface LoopExportFile {
+  /** Path relative to the export folder, e.g. "001 Gym/Checkmarks.csv" */
+  path: string;
+  content: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_COLOR = '#3b82f6';
+
+/**
+ * Loop value mode for a habit, matching how the per-habit importer reads it back
+ */
+export function loopValueMode(measurementType: string | null | undefined): LoopValueMode {
+  const normalized = (measurementType || '').toLowerCase();
+  return normalized === 'count' || normalized === 'duration' || normalized === 'numerical'
+    ? 'NUMERICAL'
+    : 'YES_NO';
+}
+
+/**
+ * Encode an internal entry value the way Loop writes it (inverse of normalizeLoopValue)
+ *
+ * Partial check-ins (3) have no Loop equivalent and export as done.
+ */
+export function encodeLoopValue(value: number | null, mode: LoopValueMode): string {
+  if (mode === 'NUMERICAL') {
+    return String(Math.round((value ?? 0) * 1000));
+  }
+
+  switch (entryValueOutcome(value)) {
+    case 'done':
+      return '2';
+    case 'skipped':
+      return '3';
+    default:
+      return '0';
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function padPosition(index: number): string {
+  return String(index + 1).padStart(3, '0');
+}
+
+function folderName(index: number, name: string): string {
+  // Folder names cannot hold path separators; the importer strips the number prefix
+  const safeName = name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'Habit';
+  return `${padPosition(index)} ${safeName}`;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function datesDescending(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = to; date >= from; date = addDays(date, -1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function buildQuestion(habit: LoopExportHabit, mode: LoopValueMode): string {
+  // The root importer reads "How many" questions as count habits
+  if (mode === 'NUMERICAL') return `How many ${habit.target_unit || 'times'} today?`;
+  return '';
+}
+
+/**
+ * Build the files of a Loop Habits CSV export
+ *
+ * @param options.asOf - Last day written to Checkmarks.csv and Scores.csv
+ */
+export function buildLoopHabitsExport(
+  habits: LoopExportHabit[],
+  entries: LoopExportEntry[],
+  options: { asOf: string }
+): LoopExportFile[] {
+  const ordered = [...habits].sort(
+    (a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER)
+  );
+  const entriesByHabit = new Map<string, Map<string, LoopExportEntry>>();
+  for (const entry of entries) {
+    if (!entry.date || entry.date > options.asOf) continue;
+    const byDate = entriesByHabit.get(entry.habit_id) ?? new Map<string, LoopExportEntry>();
+    byDate.set(entry.date, entry);
+    entriesByHabit.set(entry.habit_id, byDate);
+  }
+
+  const firstDate = entries
+    .map((entry) => entry.date)
+    .filter((date) => date && date <= options.asOf)
+    .sort()[0];
+  const dates = firstDate ? datesDescending(firstDate, options.asOf) : [];
+
+  const habitRows = ['Position,Name,Question,Description,NumRepetitions,Interval,Color'];
+  const checkmarkColumns: Array<Map<string, string>> = [];
+  const scoreColumns: Array<Map<string, string>> = [];
+  const files: LoopExportFile[] = [];
+
+  ordered.forEach((habit, index) => {
+    const mode = loopValueMode(habit.measurement_type);
+    const frequency = normalizeHabitFrequency(habit.frequency);
+    const { numerator, denominator } = frequencyToLoop(frequency);
+    const byDate = entriesByHabit.get(habit.id) ?? new Map<string, LoopExportEntry>();
+    const folder = folderName(index, habit.name);
+
+    habitRows.push([
+      padPosition(index),
+      csvField(habit.name),
+      csvField(buildQuestion(habit, mode)),
+      csvField(habit.description ?? ''),
+      String(numerator),
+      String(denominator),
+      habit.color || DEFAULT_COLOR,
+    ].join(','));
+
+    const checkmarks = new Map<string, string>();
+    const logged = [...byDate.values()].sort((a, b) => b.date.localeCompare(a.date));
+    const checkmarkRows = logged.map((entry) => {
+      const value = encodeLoopValue(entry.value, mode);
+      checkmarks.set(entry.date, value);
+      return `${entry.date},${value},${csvField(entry.notes?.trim() ?? '')}`;
+    });
+    checkmarkColumns.push(checkmarks);
+
+    const scores = new Map<string, string>();
+    const firstLogged = logged[logged.length - 1]?.date;
+    const scoreRows = firstLogged
+      ? calculateLoopScores(
+          logged.map((entry) => loopScoreEntryFromValue(entry.date, entry.value, habit)),
+          frequency,
+          { from: firstLogged, to: options.asOf }
+        )
+          .reverse()
+          .map(({ date, score }) => {
+            scores.set(date, score.toFixed(4));
+            return `${date},${score.toFixed(4)}`;
+          })
+      : [];
+    scoreColumns.push(scores);
+
+    files.push(
+      { path: `${folder}/Checkmarks.csv`, content: checkmarkRows.map((row) => `${row}\n`).join('') },
+      { path: `${folder}/Scores.csv`, content: scoreRows.map((row) => `${row}\n`).join('') }
+    );
+  });
+
+  // Loop ends every row of the combined files with a trailing comma
+  const header = `Date,${ordered.map((habit) => `${csvField(habit.name)},`).join('')}`;
+  const combined = (columns: Array<Map<string, string>>) =>
+    [header, ...dates.map((date) => `${date},${columns.map((column) => `${column.get(date) ?? ''},`).join('')}`)]
+      .map((row) => `${row}\n`)
+      .join('');
+
+  return [
+    { path: 'Habits.csv', content: habitRows.map((row) => `${row}\n`).join('') },
+    { path: 'Checkmarks.csv', content: combined(checkmarkColumns) },
+    { path: 'Scores.csv', content: combined(scoreColumns) },
+    ...files,
+  ];
+}
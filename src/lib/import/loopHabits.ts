@@ -1,6 +1,8 @@
 // src/lib/import/loopHabits.ts - FIXED VERSION
 import { createServerClient } from '../supabase/server';
 import type { AstroCookies } from 'astro';
+import { frequencyFromLoop } from '../habits/frequency';
+import { habitStrengthService } from '../habits/strength-service';
 
 export interface LoopHabitsData {
   habits: Array<{
@@ -62,6 +64,8 @@ export async function importLoopHabitsData(
           color: habit.color,
           position: habit.position,
           target_value: habit.numRepetitions,
+          // Loop's NumRepetitions / Interval is the habit's frequency
+          frequency: frequencyFromLoop(habit.numRepetitions, habit.interval),
         })
         .select('id, name')
         .single();
@@ -115,28 +119,13 @@ export async function importLoopHabitsData(
       }
     }
     
-    // 3. Import scores
+    // 3. Import scores (seed the habit strength score)
     console.log('📊 Processing scores...');
-    const scores = [];
+    let scoreCount = 0;
     for (const [habitName, dateScores] of Object.entries(scoresData)) {
       const habitId = habitMap.get(habitName);
       if (!habitId) continue;
-      
-      for (const [dateStr, score] of Object.entries(dateScores)) {
-        if (score !== null && score !== undefined) {
-          scores.push({
-            habit_id: habitId,
-            score: score,
-            date: dateStr,
-          });
-        }
-      }
-    }
-    
-    // Batch insert scores
-    if (scores.length > 0) {
-      console.log(`📊 Inserting ${scores.length} scores...`);
-      await supabase.from('habit_scores').insert(scores);
+      scoreCount += await habitStrengthService.storeImportedScores(supabase, userId, habitId, dateScores);
     }
     
     // 4. Calculate streaks for each habit
@@ -145,7 +134,7 @@ export async function importLoopHabitsData(
     
     return {
       success: true,
-      message: `Successfully imported ${habitsData.length} habits with ${entries.length} entries and ${scores.length} scores`,
+      message: `Successfully imported ${habitsData.length} habits with ${entries.length} entries and ${scoreCount} scores`,
       imported: habitsData.length
     };
     
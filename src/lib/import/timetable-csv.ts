@@ -0,0 +1,256 @@
+/**
+ * University Timetable CSV Import
+ *
+ * Parses the university timetable export (see sample-data/timetable_*.csv)
+ * into calendar events that keep the columns the generic CSV importer drops:
+ * - "Attendance is mandatory for this activity" → must_attend
+ * - "This activity takes place online" (and not on location) → is_online,
+ *   so the chain generator builds no travel for the session
+ * - "ID" + start date + start time → a stable external_id, so re-importing
+ *   an updated export updates rows instead of duplicating them
+ * - "Start week" and "Staff member(s)" → description
+ *
+ * Timetable IDs identify an activity, not an occurrence: a weekly lecture
+ * repeats the same ID every week, hence the date and time in the external id.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { CalendarEvent } from '../../types/calendar';
+import { zonedDateTimeToUtc } from '../anchors/recurrence';
+import { mapEventType } from './csv-parser';
+
+/** Timetable exports are in UK local time */
+export const DEFAULT_TIMETABLE_TIMEZONE = 'Europe/London';
+
+/** Name of the calendar source timetable imports are stored under */
+export const TIMETABLE_SOURCE_NAME = 'University Timetable';
+
+const COLUMNS = {
+  description: 'Description',
+  startWeek: 'Start week',
+  startDate: 'Start date',
+  startTime: 'Start time',
+  endDate: 'End date',
+  endTime: 'End time',
+  type: 'Type',
+  staff: 'Staff member(s)',
+  location: 'Location(s)',
+  additionalInfo: 'Additional info',
+  mandatory: 'Attendance is mandatory for this activity',
+  draft: 'Draft',
+  id: 'ID',
+  onLocation: 'This activity takes place on location',
+  online: 'This activity takes place online',
+} as const;
+
+// Columns that tell a timetable export apart from any other CSV
+const SIGNATURE_COLUMNS = [COLUMNS.id, COLUMNS.startWeek, COLUMNS.mandatory, COLUMNS.online];
+
+/** Fields compared when previewing a re-import */
+const COMPARED_FIELDS = [
+  'title',
+  'start_time',
+  'end_time',
+  'location',
+  'description',
+  'event_type',
+  'must_attend',
+  'is_online',
+] as const;
+
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface TimetableParseResult {
+  events: CalendarEvent[];
+  skipped: Array<{ row: number; reason: string }>;
+}
+
+export interface TimetableEventUpdate {
+  existing: CalendarEvent;
+  incoming: CalendarEvent;
+  changes: ComparedField[];
+}
+
+export interface TimetableImportPreview {
+  added: CalendarEvent[];
+  updated: TimetableEventUpdate[];
+  unchanged: CalendarEvent[];
+  /** Stored timetable events inside the export's date range that are no longer in it */
+  removed: CalendarEvent[];
+}
+
+function cell(row: Record<string, unknown>, column: string): string {
+  const value = row[column];
+  return typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim();
+}
+
+function isYes(value: string): boolean {
+  return value.toLowerCase() === 'yes';
+}
+
+/**
+ * Whether parsed CSV rows (Papa.parse with header: true) look like a timetable export
+ */
+export function isTimetableExport(rows: Array<Record<string, unknown>>): boolean {
+  const first = rows[0];
+  if (!first) return false;
+  return SIGNATURE_COLUMNS.every((column) => column in first);
+}
+
+/**
+ * Stable external id for one occurrence of a timetable activity
+ *
+ * An activity ID can meet more than once a week (or twice a day), so the
+ * session's own date and start time tell occurrences apart.
+ */
+export function buildTimetableExternalId(activityId: string, startDate: string, startTime: string): string {
+  return `timetable:${activityId}:${startDate}T${startTime}`;
+}
+
+function buildDescription(row: Record<string, unknown>): string | undefined {
+  const parts = [
+    cell(row, COLUMNS.additionalInfo),
+    cell(row, COLUMNS.startWeek) && `Week: ${cell(row, COLUMNS.startWeek)}`,
+    cell(row, COLUMNS.staff) && `Staff: ${cell(row, COLUMNS.staff)}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('\n') : undefined;
+}
+
+/**
+ * Parse timetable rows into calendar events
+ *
+ * Draft activities and rows without an ID or valid times are skipped and
+ * reported rather than failing the whole import.
+ */
+export function parseTimetableCsv(
+  rows: Array<Record<string, unknown>>,
+  options: { timeZone?: string; now?: Date } = {}
+): TimetableParseResult {
+  const timeZone = options.timeZone ?? DEFAULT_TIMETABLE_TIMEZONE;
+  const now = (options.now ?? new Date()).toISOString();
+  const events: CalendarEvent[] = [];
+  const skipped: TimetableParseResult['skipped'] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    // Row numbers as the user sees them in a spreadsheet (header is row 1)
+    const rowNumber = index + 2;
+    const activityId = cell(row, COLUMNS.id);
+    const startDate = cell(row, COLUMNS.startDate);
+    const endDate = cell(row, COLUMNS.endDate) || startDate;
+
+    if (isYes(cell(row, COLUMNS.draft))) {
+      skipped.push({ row: rowNumber, reason: 'Draft activity' });
+      return;
+    }
+    if (!activityId) {
+      skipped.push({ row: rowNumber, reason: 'Missing activity ID' });
+      return;
+    }
+
+    let start: Date;
+    let end: Date;
+    try {
+      start = zonedDateTimeToUtc(startDate, cell(row, COLUMNS.startTime), timeZone);
+      end = zonedDateTimeToUtc(endDate, cell(row, COLUMNS.endTime), timeZone);
+    } catch {
+      skipped.push({ row: rowNumber, reason: 'Invalid start or end time' });
+      return;
+    }
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      skipped.push({ row: rowNumber, reason: 'Invalid start or end time' });
+      return;
+    }
+
+    const externalId = buildTimetableExternalId(activityId, startDate, cell(row, COLUMNS.startTime));
+    if (seen.has(externalId)) {
+      skipped.push({ row: rowNumber, reason: `Duplicate of activity ${activityId} at the same time` });
+      return;
+    }
+    seen.add(externalId);
+
+    const online = isYes(cell(row, COLUMNS.online)) && !isYes(cell(row, COLUMNS.onLocation));
+    const location = cell(row, COLUMNS.location);
+
+    events.push({
+      id: uuidv4(),
+      user_id: '',
+      source_id: '',
+      external_id: externalId,
+      title: cell(row, COLUMNS.description),
+      description: buildDescription(row),
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      location: location || undefined,
+      event_type: mapEventType(cell(row, COLUMNS.type).toLowerCase() || undefined),
+      flexibility: 'fixed',
+      importance: isYes(cell(row, COLUMNS.mandatory)) ? 'high' : 'medium',
+      must_attend: isYes(cell(row, COLUMNS.mandatory)),
+      is_online: online,
+      created_at: now,
+      updated_at: now,
+    });
+  });
+
+  return { events, skipped };
+}
+
+function normalize(field: ComparedField, value: unknown): string {
+  if (field === 'start_time' || field === 'end_time') {
+    const time = new Date(String(value)).getTime();
+    return Number.isNaN(time) ? '' : String(time);
+  }
+  if (field === 'must_attend' || field === 'is_online') {
+    return String(Boolean(value));
+  }
+  return value == null ? '' : String(value);
+}
+
+/**
+ * Compare parsed timetable events with what is already stored for the source
+ *
+ * Stored events outside the export's date range are left alone: an export
+ * usually covers a few weeks and must not wipe the rest of the term.
+ */
+export function diffTimetableImport(
+  incoming: CalendarEvent[],
+  existing: CalendarEvent[]
+): TimetableImportPreview {
+  const preview: TimetableImportPreview = { added: [], updated: [], unchanged: [], removed: [] };
+  const stored = new Map(
+    existing
+      .filter((event) => event.external_id)
+      .map((event) => [event.external_id as string, event])
+  );
+
+  for (const event of incoming) {
+    const match = event.external_id ? stored.get(event.external_id) : undefined;
+    if (!match) {
+      preview.added.push(event);
+      continue;
+    }
+    stored.delete(event.external_id as string);
+
+    const changes = COMPARED_FIELDS.filter(
+      (field) => normalize(field, match[field]) !== normalize(field, event[field])
+    );
+    if (changes.length > 0) {
+      preview.updated.push({ existing: match, incoming: event, changes });
+    } else {
+      preview.unchanged.push(match);
+    }
+  }
+
+  if (incoming.length > 0) {
+    const rangeStart = Math.min(...incoming.map((event) => new Date(event.start_time).getTime()));
+    const rangeEnd = Math.max(...incoming.map((event) => new Date(event.end_time).getTime()));
+    for (const event of stored.values()) {
+      const start = new Date(event.start_time).getTime();
+      if (start >= rangeStart && start <= rangeEnd) {
+        preview.removed.push(event);
+      }
+    }
+  }
+
+  return preview;
+}
@@ -1,7 +1,15 @@
 // src/lib/integrations/banking-parser.ts - UK Banking Smart Dump Parser
 // Secure parsing for Monzo, Starling, Revolut, and traditional UK bank statements
+// Files are read by the statement ingestion pipeline (lib/expenses/statements)
 
 import { createSupabaseClient } from '../supabase/client';
+import {
+  STATEMENT_FILE_EXTENSIONS,
+  ingestStatement,
+  type IngestedTransaction
+} from '../expenses/statements/ingestion';
+import { detectSubscriptions, merchantKey, type Charge } from '../expenses/subscription-detector';
+import { subscriptionService } from '../expenses/subscription-service';
 
 export interface BankTransaction {
   id: string;
@@ -26,6 +34,8 @@ export interface BankTransaction {
   };
 }
 
+export type BankType = 'monzo' | 'starling' | 'revolut' | 'hsbc' | 'lloyds' | 'natwest';
+
 export type TransactionCategory = 
   | 'groceries' | 'transport' | 'entertainment' | 'education' 
   | 'healthcare' | 'utilities' | 'rent' | 'income' | 'savings'
@@ -65,75 +75,30 @@ export interface BudgetAnalysis {
 class BankingParser {
   private supabase = createSupabaseClient();
 
-  // UK Bank patterns for different formats
-  private bankPatterns = {
-    monzo: {
-      format: 'csv',
-      headers: ['id', 'created', 'description', 'amount', 'currency', 'local_amount', 'local_currency', 'category', 'notes', 'address', 'receipt', 'attachments'],
-      dateFormat: 'iso',
-      amountField: 'amount',
-      descriptionField: 'description'
-    },
-    starling: {
-      format: 'csv',
-      headers: ['Date', 'Counter Party', 'Reference', 'Type', 'Amount (GBP)', 'Balance (GBP)', 'Spending Category'],
-      dateFormat: 'dd/mm/yyyy',
-      amountField: 'Amount (GBP)',
-      descriptionField: 'Counter Party'
-    },
-    revolut: {
-      format: 'csv',
-      headers: ['Type', 'Product', 'Started Date', 'Completed Date', 'Description', 'Amount', 'Fee', 'Currency', 'State', 'Balance'],
-      dateFormat: 'yyyy-mm-dd',
-      amountField: 'Amount',
-      descriptionField: 'Description'
-    },
-    hsbc: {
-      format: 'csv',
-      headers: ['Date', 'Description', 'Amount', 'Balance'],
-      dateFormat: 'dd/mm/yyyy',
-      amountField: 'Amount',
-      descriptionField: 'Description'
-    },
-    lloyds: {
-      format: 'csv',
-      headers: ['Transaction Date', 'Transaction Type', 'Sort Code', 'Account Number', 'Transaction Description', 'Debit Amount', 'Credit Amount', 'Balance'],
-      dateFormat: 'dd/mm/yyyy',
-      amountField: ['Debit Amount', 'Credit Amount'],
-      descriptionField: 'Transaction Description'
-    },
-    natwest: {
-      format: 'csv',
-      headers: ['Date', 'Type', 'Description', 'Value', 'Balance', 'Account Name', 'Account Number'],
-      dateFormat: 'dd/mm/yyyy',
-      amountField: 'Value',
-      descriptionField: 'Description'
-    }
-  };
-
   /**
    * Parse bank statement file and extract transactions
    */
   async parseStatementFile(
     file: File, 
-    bankType: keyof typeof this.bankPatterns,
+    bankType: BankType,
     userId: string
   ): Promise<{ success: boolean; transactions?: BankTransaction[]; error?: string }> {
     try {
       // Validate file type
-      if (!file.name.toLowerCase().endsWith('.csv')) {
-        return { success: false, error: 'Only CSV files are supported' };
+      if (!STATEMENT_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+        return { success: false, error: `Supported statement files: ${STATEMENT_FILE_EXTENSIONS.join(', ')}` };
       }
 
       // Read file content
       const fileContent = await this.readFileContent(file);
-      const bankConfig = this.bankPatterns[bankType];
 
-      // Parse CSV
-      const rawTransactions = this.parseCSV(fileContent, bankConfig);
-      
-      // Process and categorize transactions
-      const processedTransactions = await this.processTransactions(rawTransactions, bankType, userId);
+      // Parse and categorize; the content hash doubles as the transaction id
+      const statement = await ingestStatement(fileContent, { fileName: file.name, accountKey: bankType });
+      if (!statement.format) {
+        return { success: false, error: statement.errors[0] };
+      }
+
+      const processedTransactions = await this.processTransactions(statement.transactions, bankType, userId);
 
       // Store transactions (keeping only insights, not raw sensitive data)
       await this.storeTransactionInsights(processedTransactions, userId);
@@ -158,125 +123,44 @@ class BankingParser {
   }
 
   /**
-   * Parse CSV content based on bank format
-   */
-  private parseCSV(content: string, bankConfig: any): any[] {
-    const lines = content.split('\n').map(line => line.trim()).filter(line => line);
-    const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim());
-    
-    // Validate headers match expected format
-    const expectedHeaders = bankConfig.headers;
-    const headerMatch = expectedHeaders.every(expected => 
-      headers.some(actual => actual.toLowerCase().includes(expected.toLowerCase()))
-    );
-
-    if (!headerMatch && bankConfig !== this.bankPatterns.monzo) {
-      // Try to auto-detect bank type if headers don't match
-      console.warn('Headers don\'t match expected format, attempting auto-detection');
-    }
-
-    // Parse data rows
-    const transactions = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length >= headers.length - 2) { // Allow for minor variations
-        const transaction: any = {};
-        headers.forEach((header, index) => {
-          if (values[index]) {
-            transaction[header] = values[index].replace(/"/g, '').trim();
-          }
-        });
-        transactions.push(transaction);
-      }
-    }
-
-    return transactions;
-  }
-
-  /**
-   * Parse CSV line handling quoted values
-   */
-  private parseCSVLine(line: string): string[] {
-    const result = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current);
-    return result;
-  }
-
-  /**
-   * Process raw transactions and add intelligent categorization
+   * Convert ingested transactions to pence and this module's categories
    */
   private async processTransactions(
-    rawTransactions: any[], 
-    bankType: keyof typeof this.bankPatterns,
+    transactions: IngestedTransaction[], 
+    bankType: BankType,
     userId: string
   ): Promise<BankTransaction[]> {
     const processed: BankTransaction[] = [];
-    const config = this.bankPatterns[bankType];
+    const recurring = await this.detectRecurring(transactions, userId);
 
-    for (const raw of rawTransactions) {
+    for (const tx of transactions) {
       try {
-        // Extract amount
-        const amount = this.extractAmount(raw, config);
-        if (amount === null) continue;
-
-        // Extract date
-        const date = this.extractDate(raw, config);
-        if (!date) continue;
-
-        // Extract description
-        const description = this.extractDescription(raw, config);
-        
-        // Generate unique ID (hash of key fields)
-        const id = this.generateTransactionId(date, amount, description, bankType);
-
-        // Categorize transaction
-        const category = this.categorizeTransaction(description, amount);
-        const subcategory = this.getSubcategory(description, category);
-        const merchant = this.extractMerchant(description);
-        const isRecurring = await this.detectRecurring(description, amount, userId);
-
-        // Extract metadata
-        const metadata = {
-          rawDescription: description,
-          bank: bankType,
-          accountType: this.detectAccountType(raw),
-          balance: this.extractBalance(raw, config),
-          cardLast4: this.extractCardInfo(description)
-        };
-
-        const transaction: BankTransaction = {
-          id,
-          date: date.toISOString(),
+        const amount = Math.round(tx.amount * 100) * (tx.transactionType === 'debit' ? -1 : 1);
+        const category = this.toTransactionCategory(tx);
+        const isRecurring = tx.transactionType === 'debit' &&
+          recurring.has(`${merchantKey(tx.merchant || tx.description)}|${tx.currency}`);
+
+        processed.push({
+          id: tx.contentHash,
+          date: tx.date,
           amount,
-          currency: raw.currency || raw.Currency || 'GBP',
-          description: this.cleanDescription(description),
-          reference: raw.reference || raw.Reference,
+          currency: tx.currency,
+          description: this.cleanDescription(tx.description),
+          reference: tx.reference,
           category,
-          subcategory,
-          merchant,
-          confidence: this.calculateCategoryConfidence(description, category),
+          subcategory: tx.categorization.subcategory,
+          merchant: tx.merchant,
+          confidence: tx.categorization.confidence,
           isRecurring,
-          tags: this.generateTags(description, category),
-          metadata
-        };
-
-        processed.push(transaction);
+          tags: this.generateTags(tx.description, category),
+          metadata: {
+            rawDescription: tx.description,
+            bank: bankType,
+            accountType: 'current',
+            balance: tx.balance !== undefined ? Math.round(tx.balance * 100) : undefined,
+            cardLast4: this.extractCardInfo(tx.description)
+          }
+        });
       } catch (error) {
         console.warn('Error processing transaction:', error);
       }
@@ -286,237 +170,46 @@ class BankingParser {
   }
 
   /**
-   * Extract amount from transaction
-   */
-  private extractAmount(raw: any, config: any): number | null {
-    try {
-      let amountField = config.amountField;
-      let amountStr = '';
-
-      if (Array.isArray(amountField)) {
-        // Handle debit/credit columns (e.g., Lloyds)
-        const debit = raw[amountField[0]] || '';
-        const credit = raw[amountField[1]] || '';
-        amountStr = debit ? `-${debit}` : credit;
-      } else {
-        amountStr = raw[amountField] || '';
-      }
-
-      if (!amountStr) return null;
-
-      // Clean amount string and convert to pence
-      const cleanAmount = amountStr
-        .replace(/[£$€,\s]/g, '')
-        .replace(/\(([^)]+)\)/, '-$1'); // Handle negative amounts in parentheses
-
-      const pounds = parseFloat(cleanAmount);
-      return Math.round(pounds * 100); // Convert to pence
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Extract date from transaction
-   */
-  private extractDate(raw: any, config: any): Date | null {
-    try {
-      const dateFields = ['Date', 'created', 'Started Date', 'Completed Date', 'Transaction Date'];
-      let dateStr = '';
-
-      for (const field of dateFields) {
-        if (raw[field]) {
-          dateStr = raw[field];
-          break;
-        }
-      }
-
-      if (!dateStr) return null;
-
-      // Handle different date formats
-      if (config.dateFormat === 'iso') {
-        return new Date(dateStr);
-      } else if (config.dateFormat === 'dd/mm/yyyy') {
-        const parts = dateStr.split('/');
-        return new Date(parseInt(parts[2]), parseInt(parts[1]) - 1, parseInt(parts[0]));
-      } else if (config.dateFormat === 'yyyy-mm-dd') {
-        return new Date(dateStr);
-      }
-
-      // Try auto-parsing
-      return new Date(dateStr);
-    } catch {
-      return null;
-    }
-  }
-
-  /**
-   * Extract description from transaction
+   * Map an AutoCategorizer category onto this module's categories
    */
-  private extractDescription(raw: any, config: any): string {
-    const descField = config.descriptionField;
-    return raw[descField] || raw.Description || raw.description || 'Unknown transaction';
-  }
-
-  /**
-   * Categorize transaction based on description and amount
-   */
-  private categorizeTransaction(description: string, amount: number): TransactionCategory {
-    const desc = description.toLowerCase();
-
-    // Income patterns
-    if (amount > 0) {
-      if (desc.includes('salary') || desc.includes('wage') || desc.includes('payroll')) {
-        return 'income';
-      }
-      if (desc.includes('interest') || desc.includes('dividend') || desc.includes('cashback')) {
-        return 'income';
-      }
+  private toTransactionCategory(tx: IngestedTransaction): TransactionCategory {
+    const { categoryName, subcategory } = tx.categorization;
+
+    switch (categoryName) {
+      case 'Food & Dining':
+        return subcategory === 'Groceries' || subcategory === 'Supermarket' ? 'groceries' : 'dining';
+      case 'Transportation':
+        return 'transport';
+      case 'Shopping':
+        return 'shopping';
+      case 'Bills & Utilities':
+        return 'utilities';
+      case 'Entertainment':
+        return subcategory === 'Subscriptions' || subcategory === 'Streaming' ? 'subscriptions' : 'entertainment';
+      case 'Healthcare':
+        return 'healthcare';
+      default:
+        return tx.transactionType === 'credit' ? 'income' : 'other';
     }
-
-    // Expense patterns
-    const patterns: { [key in TransactionCategory]: string[] } = {
-      groceries: ['tesco', 'sainsbury', 'asda', 'morrisons', 'lidl', 'aldi', 'waitrose', 'co-op', 'iceland', 'marks & spencer'],
-      transport: ['tfl', 'uber', 'train', 'bus', 'parking', 'petrol', 'fuel', 'oyster', 'rail', 'taxi'],
-      dining: ['restaurant', 'cafe', 'pub', 'mcdonald', 'kfc', 'pizza', 'takeaway', 'food', 'deliveroo', 'just eat'],
-      entertainment: ['cinema', 'netflix', 'spotify', 'amazon prime', 'disney', 'theatre', 'concert', 'game'],
-      education: ['university', 'college', 'school', 'course', 'tuition', 'book', 'academic', 'student'],
-      healthcare: ['pharmacy', 'doctor', 'hospital', 'dental', 'medical', 'boots', 'nhs'],
-      utilities: ['electric', 'gas', 'water', 'council tax', 'broadband', 'phone', 'internet', 'mobile'],
-      rent: ['rent', 'mortgage', 'estate', 'letting', 'property', 'housing'],
-      shopping: ['amazon', 'ebay', 'argos', 'john lewis', 'next', 'primark', 'h&m', 'zara'],
-      subscriptions: ['subscription', 'monthly', 'annual', 'membership', 'premium'],
-      savings: ['savings', 'investment', 'pension', 'isa', 'transfer'],
-      travel: ['booking', 'hotel', 'flight', 'holiday', 'travel', 'airbnb'],
-      income: ['salary', 'wage', 'payroll', 'benefits', 'refund', 'cashback'],
-      other: []
-    };
-
-    // Match against patterns
-    for (const [category, keywords] of Object.entries(patterns)) {
-      if (keywords.some(keyword => desc.includes(keyword))) {
-        return category as TransactionCategory;
-      }
-    }
-
-    // Default categorization based on amount
-    if (amount > 0) return 'income';
-    if (Math.abs(amount) > 50000) return 'rent'; // > £500
-    return 'other';
   }
 
   /**
-   * Get subcategory for transaction
+   * Merchant|currency keys of the subscriptions in this statement, judged
+   * against the user's earlier debits and stored subscriptions
    */
-  private getSubcategory(description: string, category: TransactionCategory): string | undefined {
-    const desc = description.toLowerCase();
-
-    const subcategories: { [key in TransactionCategory]: { [key: string]: string[] } } = {
-      groceries: {
-        'supermarket': ['tesco', 'sainsbury', 'asda', 'morrisons'],
-        'discount': ['lidl', 'aldi', 'iceland'],
-        'premium': ['waitrose', 'marks & spencer']
-      },
-      transport: {
-        'public': ['tfl', 'bus', 'train', 'rail', 'oyster'],
-        'taxi': ['uber', 'taxi', 'cab'],
-        'fuel': ['petrol', 'fuel', 'shell', 'bp']
-      },
-      dining: {
-        'fast_food': ['mcdonald', 'kfc', 'subway', 'burger'],
-        'delivery': ['deliveroo', 'just eat', 'uber eats'],
-        'restaurant': ['restaurant', 'pub', 'cafe']
-      },
-      entertainment: { 'streaming': ['netflix', 'spotify', 'disney'], 'gaming': ['game', 'steam'], 'cinema': ['cinema', 'theatre'] },
-      education: { 'tuition': ['tuition', 'course'], 'materials': ['book', 'supplies'], 'accommodation': ['student', 'halls'] },
-      healthcare: { 'pharmacy': ['pharmacy', 'boots'], 'medical': ['doctor', 'hospital', 'dental'] },
-      utilities: { 'energy': ['electric', 'gas'], 'water': ['water'], 'internet': ['broadband', 'internet'], 'mobile': ['mobile', 'phone'] },
-      rent: { 'rent': ['rent', 'letting'], 'mortgage': ['mortgage'], 'council_tax': ['council tax'] },
-      shopping: { 'online': ['amazon', 'ebay'], 'clothing': ['next', 'h&m', 'zara'], 'department': ['john lewis', 'argos'] },
-      subscriptions: { 'software': ['adobe', 'microsoft'], 'media': ['netflix', 'spotify'], 'fitness': ['gym', 'fitness'] },
-      savings: { 'investment': ['investment', 'stocks'], 'pension': ['pension'], 'isa': ['isa'] },
-      travel: { 'accommodation': ['hotel', 'airbnb'], 'transport': ['flight', 'train'], 'booking': ['booking.com'] },
-      income: { 'salary': ['salary', 'wage'], 'benefits': ['benefits', 'allowance'], 'other': ['refund', 'cashback'] },
-      other: {}
-    };
-
-    const categorySubcats = subcategories[category] || {};
-    for (const [subcat, keywords] of Object.entries(categorySubcats)) {
-      if (keywords.some(keyword => desc.includes(keyword))) {
-        return subcat;
-      }
-    }
+  private async detectRecurring(transactions: IngestedTransaction[], userId: string): Promise<Set<string>> {
+    const charges: Charge[] = transactions
+      .filter(tx => tx.transactionType === 'debit')
+      .map(tx => ({ date: tx.date, amount: tx.amount, currency: tx.currency, merchant: tx.merchant, description: tx.description }));
 
-    return undefined;
-  }
-
-  /**
-   * Extract merchant name from description
-   */
-  private extractMerchant(description: string): string | undefined {
-    // Remove common prefixes and suffixes
-    let merchant = description
-      .replace(/^(CARD PAYMENT TO|PAYMENT TO|DD|SO|TFR|POS)\s*/i, '')
-      .replace(/\s*(LONDON|UK|GB)?\s*\d{2}\/\d{2}$/, '')
-      .replace(/\s*\d{4}$/, '')
-      .trim();
-
-    // Extract merchant name before location/date info
-    merchant = merchant.split(/\s+\d{2}\/\d{2}|\s+LONDON|\s+UK/)[0];
-    
-    return merchant.length > 2 ? merchant : undefined;
-  }
-
-  /**
-   * Detect if transaction is recurring
-   */
-  private async detectRecurring(description: string, amount: number, userId: string): Promise<boolean> {
     try {
-      // Look for similar transactions in the past
-      const { data: similarTxns } = await this.supabase
-        .from('bank_transaction_insights')
-        .select('amount, description')
-        .eq('user_id', userId)
-        .eq('amount', amount)
-        .ilike('description', `%${description.slice(0, 10)}%`)
-        .limit(5);
-
-      return (similarTxns?.length || 0) >= 2;
-    } catch {
-      return false;
-    }
-  }
-
-  /**
-   * Calculate confidence score for categorization
-   */
-  private calculateCategoryConfidence(description: string, category: TransactionCategory): number {
-    const desc = description.toLowerCase();
-    
-    // High confidence keywords
-    const highConfidenceMap: { [key in TransactionCategory]: string[] } = {
-      groceries: ['tesco', 'sainsbury', 'grocery'],
-      transport: ['tfl', 'uber', 'oyster'],
-      dining: ['restaurant', 'mcdonald', 'cafe'],
-      entertainment: ['netflix', 'cinema', 'spotify'],
-      education: ['university', 'tuition', 'student'],
-      healthcare: ['pharmacy', 'nhs', 'medical'],
-      utilities: ['electric', 'gas', 'council tax'],
-      rent: ['rent', 'mortgage', 'estate'],
-      shopping: ['amazon', 'shop', 'store'],
-      subscriptions: ['subscription', 'monthly'],
-      savings: ['savings', 'investment'],
-      travel: ['booking', 'hotel', 'flight'],
-      income: ['salary', 'wage', 'payroll'],
-      other: []
-    };
-
-    const keywords = highConfidenceMap[category] || [];
-    if (keywords.some(keyword => desc.includes(keyword))) {
-      return 0.9;
+      return await subscriptionService.recurringKeys(this.supabase, userId, charges);
+    } catch (error) {
+      // Without history, fall back to what this statement shows on its own
+      console.warn('Error loading subscription history:', error);
+      const subscriptions = detectSubscriptions(charges);
+      return new Set(subscriptions.map(subscription => `${subscription.merchant_key}|${subscription.currency}`));
     }
-
-    return 0.6; // Medium confidence for pattern-based matches
   }
 
   /**
@@ -540,21 +233,6 @@ class BankingParser {
     return tags;
   }
 
-  /**
-   * Generate unique transaction ID
-   */
-  private generateTransactionId(date: Date, amount: number, description: string, bank: string): string {
-    const hashInput = `${date.toISOString().split('T')[0]}-${amount}-${description.slice(0, 20)}-${bank}`;
-    // Simple hash function
-    let hash = 0;
-    for (let i = 0; i < hashInput.length; i++) {
-      const char = hashInput.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(36);
-  }
-
   /**
    * Store transaction insights (not raw data) in database
    */
@@ -625,21 +303,6 @@ class BankingParser {
       .replace(/SORT CODE \d{6}/gi, 'SORT****');
   }
 
-  /**
-   * Extract balance if available
-   */
-  private extractBalance(raw: any, config: any): number | undefined {
-    const balanceFields = ['Balance', 'balance', 'Balance (GBP)'];
-    for (const field of balanceFields) {
-      if (raw[field]) {
-        const cleanBalance = raw[field].replace(/[£$€,\s]/g, '');
-        const pounds = parseFloat(cleanBalance);
-        return Math.round(pounds * 100);
-      }
-    }
-    return undefined;
-  }
-
   /**
    * Extract card info from description
    */
@@ -648,19 +311,6 @@ class BankingParser {
     return cardMatch ? cardMatch[1] : undefined;
   }
 
-  /**
-   * Detect account type
-   */
-  private detectAccountType(raw: any): string {
-    if (raw['Account Name'] || raw['Product']) {
-      const accountInfo = (raw['Account Name'] || raw['Product']).toLowerCase();
-      if (accountInfo.includes('current')) return 'current';
-      if (accountInfo.includes('savings')) return 'savings';
-      if (accountInfo.includes('credit')) return 'credit';
-    }
-    return 'current';
-  }
-
   /**
    * Analyze spending patterns and generate insights
    */
@@ -900,7 +550,7 @@ class BankingParser {
 export const bankingParser = new BankingParser();
 
 // Helper functions
-export const parseStatementFile = (file: File, bankType: keyof typeof bankingParser['bankPatterns'], userId: string) =>
+export const parseStatementFile = (file: File, bankType: BankType, userId: string) =>
   bankingParser.parseStatementFile(file, bankType, userId);
 
 export const getSpendingInsights = (userId: string, days?: number) =>
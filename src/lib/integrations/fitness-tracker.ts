@@ -17,6 +17,8 @@ export interface FitnessMetric {
     recordedAt?: string;
     activityType?: string;
     workoutDuration?: number;
+    startedAt?: string; // ISO timestamp, interval metrics such as sleep
+    endedAt?: string; // ISO timestamp, e.g. when a sleep session ended
   };
 }
 
@@ -144,7 +146,9 @@ class FitnessTracker {
           confidence: 0.9,
           metadata: {
             device,
-            recordedAt: record.getAttribute('creationDate') || undefined
+            recordedAt: record.getAttribute('creationDate') || undefined,
+            startedAt: date ? this.parseDate(date) : undefined,
+            endedAt: record.getAttribute('endDate') ? this.parseDate(record.getAttribute('endDate')!) : undefined
           }
         });
       });
@@ -202,6 +206,7 @@ class FitnessTracker {
 
               const value = point.value?.[0]?.fpVal || point.value?.[0]?.intVal || 0;
               const startTime = new Date(parseInt(point.startTimeNanos) / 1000000);
+              const endTime = point.endTimeNanos ? new Date(parseInt(point.endTimeNanos) / 1000000) : null;
               
               metrics.push({
                 id: this.generateMetricId(startTime.toISOString(), type, value),
@@ -212,7 +217,9 @@ class FitnessTracker {
                 source: 'google_fit',
                 confidence: 0.8,
                 metadata: {
-                  device: point.originDataSourceId
+                  device: point.originDataSourceId,
+                  startedAt: startTime.toISOString(),
+                  endedAt: endTime ? endTime.toISOString() : undefined
                 }
               });
             });
@@ -359,7 +366,10 @@ class FitnessTracker {
           const date = sleep.dateOfSleep;
           const duration = sleep.timeInBed / 60; // Convert to hours
           
-          metrics.push(this.createMetric(date, 'sleep_duration', duration, 'hours', 'fitbit'));
+          const sleepMetric = this.createMetric(date, 'sleep_duration', duration, 'hours', 'fitbit');
+          if (sleep.startTime) sleepMetric.metadata.startedAt = this.parseDate(sleep.startTime);
+          if (sleep.endTime) sleepMetric.metadata.endedAt = this.parseDate(sleep.endTime);
+          metrics.push(sleepMetric);
           
           if (sleep.levels?.summary) {
             const levels = sleep.levels.summary;
@@ -1,5 +1,6 @@
 // src/lib/intelligence/dashboard-ai.ts
 import { createServerClient } from '../supabase/server';
+import { completeJSON, isLLMConfigured } from '../ai/llm';
 
 interface UserContext {
   habits: any[];
@@ -19,12 +20,6 @@ interface AIInsight {
 }
 
 export class DashboardIntelligence {
-  private geminiApiKey: string;
-
-  constructor() {
-    this.geminiApiKey = import.meta.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-  }
-
   async generateDashboardInsights(userId: string, supabase: any): Promise<AIInsight[]> {
     // Gather comprehensive user context
     const userContext = await this.gatherUserContext(userId, supabase);
@@ -92,8 +87,8 @@ export class DashboardIntelligence {
     // 5. Content Intelligence
     insights.push(...this.analyzeContentPatterns(context.contentData));
 
-    // Generate AI-powered insights using Gemini
-    const aiInsights = await this.generateGeminiInsights(context);
+    // Generate AI-powered insights using the configured LLM
+    const aiInsights = await this.generateLLMInsights(context);
     insights.push(...aiInsights);
 
     return insights.sort((a, b) => b.confidence - a.confidence).slice(0, 6);
@@ -271,8 +266,8 @@ export class DashboardIntelligence {
     return insights;
   }
 
-  private async generateGeminiInsights(context: UserContext): Promise<AIInsight[]> {
-    if (!this.geminiApiKey) return [];
+  private async generateLLMInsights(context: UserContext): Promise<AIInsight[]> {
+    if (!isLLMConfigured()) return [];
 
     const prompt = `
     Analyze this user's life data and provide 2-3 actionable insights:
@@ -304,26 +299,16 @@ export class DashboardIntelligence {
     `;
 
     try {
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${this.geminiApiKey}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }]
-        })
-      });
-
-      const result = await response.json();
-      const content = result.candidates?.[0]?.content?.parts?.[0]?.text;
+      const { data: insights } = await completeJSON<any[]>({ prompt, purpose: 'dashboard_insights' });
       
-      if (content) {
-        const insights = JSON.parse(content.replace(/```json\n?/g, '').replace(/```\n?/g, ''));
+      if (Array.isArray(insights)) {
         return insights.map((insight: any) => ({
           ...insight,
           data: {}
         }));
       }
     } catch (error) {
-      console.error('Gemini API error:', error);
+      console.error('LLM insights error:', error);
     }
 
     return [];
@@ -3,7 +3,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '../../types/supabase';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from '../ai/llm';
 
 interface DataContext {
   user_id: string;
@@ -65,19 +65,15 @@ interface DataQualityReport {
 
 export class DataUnderstandingEngine {
   private supabase;
-  private llm;
+  private llm?: LLMProvider;
   private userId: string;
 
-  constructor(userId: string) {
+  constructor(userId: string, llm?: LLMProvider) {
     this.supabase = createClient<Database>(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_ANON_KEY!
     );
-    this.llm = new ChatGoogleGenerativeAI({
-      model: 'gemini-1.5-pro',
-      temperature: 0.1,
-      apiKey: process.env.GEMINI_API_KEY,
-    });
+    this.llm = llm;
     this.userId = userId;
   }
 
@@ -257,8 +253,14 @@ export class DataUnderstandingEngine {
     `;
 
     try {
-      const response = await this.llm.invoke(patternAnalysisPrompt);
-      const aiPatterns = JSON.parse(response.content as string);
+      const response = await (this.llm ?? getLLMProvider()).complete({
+        prompt: patternAnalysisPrompt,
+        temperature: 0.1,
+        json: true,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'data_pattern_detection',
+      });
+      const aiPatterns = JSON.parse(response.text);
       patterns.push(...aiPatterns);
     } catch (error) {
       console.error('Pattern detection error:', error);
@@ -824,8 +826,8 @@ export class DataUnderstandingEngine {
 }
 
 // Export utility functions for use in other modules
-export async function generateDataUnderstandingReport(userId: string) {
-  const engine = new DataUnderstandingEngine(userId);
+export async function generateDataUnderstandingReport(userId: string, llm?: LLMProvider) {
+  const engine = new DataUnderstandingEngine(userId, llm);
   const context = await engine.buildDataContext();
   const qualityReport = await engine.generateDataQualityReport();
   
@@ -836,8 +838,8 @@ export async function generateDataUnderstandingReport(userId: string) {
   };
 }
 
-export async function getDataInsights(userId: string) {
-  const engine = new DataUnderstandingEngine(userId);
+export async function getDataInsights(userId: string, llm?: LLMProvider) {
+  const engine = new DataUnderstandingEngine(userId, llm);
   const context = await engine.buildDataContext();
   
   return {
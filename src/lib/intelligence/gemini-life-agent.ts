@@ -1,5 +1,5 @@
 // src/lib/intelligence/gemini-life-agent.ts
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from '../ai/llm';
 import { createServerAuth } from '../auth/simple-multi-user';
 
 interface UserContext {
@@ -37,15 +37,12 @@ interface TaskCreationRequest {
 }
 
 export class GeminiLifeAgent {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   private supabase: any;
   private userId: string;
 
-  constructor(cookies: any, userId: string, apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    // Use gemini-1.5-pro for maximum intelligence with paid credits
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+  constructor(cookies: any, userId: string, llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
     const serverAuth = createServerAuth(cookies);
     this.supabase = serverAuth.supabase;
     this.userId = userId;
@@ -250,9 +247,11 @@ ${message}
 
 Respond as Mesh. Be empathetic, intelligent, and actionable. If you need to create tasks or take actions, include them in your response using the JSON format specified above.`;
 
-      const result = await this.model.generateContent(fullPrompt);
-      const response = result.response;
-      let aiResponse = response.text();
+      const { text: aiResponse } = await this.llm.complete({
+        prompt: fullPrompt,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'life_agent_chat',
+      });
 
       // Extract and execute any actions from the AI response
       const actions = await this.executeAIActions(aiResponse, context);
@@ -392,8 +391,11 @@ Current time: ${new Date().toLocaleTimeString('en-GB')}`;
       const systemPrompt = this.createSystemPrompt(context);
       const fullPrompt = `${systemPrompt}\n\n${briefingPrompt}`;
 
-      const result = await this.model.generateContent(fullPrompt);
-      const briefingContent = result.response.text();
+      const { text: briefingContent } = await this.llm.complete({
+        prompt: fullPrompt,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'life_agent_briefing',
+      });
 
       return {
         greeting: briefingContent.split('\n')[0] || "Good morning! Here's your daily optimization briefing.",
@@ -1,8 +1,15 @@
 // NaturalLanguageTaskService - Unified interface for all AI task processing
 // This combines TaskParsingService, TaskReasoningService, and TaskWorkflowService
-import { taskParsingService, type ParsedTask } from './task-parsing-service';
-import { taskReasoningService } from './task-reasoning-service';
-import { taskWorkflowService, type EmailContent, type Conversation, type ExtractedGoal } from './task-workflow-service';
+import { TaskParsingService, taskParsingService, type ParsedTask } from './task-parsing-service';
+import { TaskReasoningService, taskReasoningService } from './task-reasoning-service';
+import {
+  TaskWorkflowService,
+  taskWorkflowService,
+  type EmailContent,
+  type Conversation,
+  type ExtractedGoal,
+} from './task-workflow-service';
+import type { LLMProvider } from '../ai/llm';
 import { TaskService } from '../task-management/task-service';
 import type { CreateTaskRequest, Task } from '../../types/task-management';
 
@@ -34,6 +41,10 @@ interface ParseConfig {
 }
 
 export class NaturalLanguageTaskService {
+  private parsing: TaskParsingService;
+  private reasoning: TaskReasoningService;
+  private workflow: TaskWorkflowService;
+
   private defaultConfig: ParseConfig = {
     enableReasoning: true,
     enableGoalExtraction: false,
@@ -41,6 +52,13 @@ export class NaturalLanguageTaskService {
     maxTasks: 10
   };
 
+  // Without a provider the shared services resolve the configured one per call
+  constructor(llm?: LLMProvider) {
+    this.parsing = llm ? new TaskParsingService(llm) : taskParsingService;
+    this.reasoning = llm ? new TaskReasoningService(llm) : taskReasoningService;
+    this.workflow = llm ? new TaskWorkflowService(llm) : taskWorkflowService;
+  }
+
   /**
    * MAIN METHOD: Create tasks from natural language
    * This is the primary interface that the UI will use
@@ -61,7 +79,7 @@ export class NaturalLanguageTaskService {
       });
 
       // Step 1: Validate input
-      const validation = taskParsingService.validateInput(input);
+      const validation = this.parsing.validateInput(input);
       if (!validation.isValid) {
         return {
           tasks: [],
@@ -79,9 +97,9 @@ export class NaturalLanguageTaskService {
       const hasMultipleTaskIndicators = /[,;]|and(?=\s)|then(?=\s)|also(?=\s)|\d+\.|•|\*/.test(cleanedInput);
       
       if (hasMultipleTaskIndicators) {
-        parsedTasks = await taskParsingService.parseMultipleTasks(cleanedInput, finalConfig.userContext);
+        parsedTasks = await this.parsing.parseMultipleTasks(cleanedInput, finalConfig.userContext);
       } else {
-        const singleTask = await taskParsingService.parseTask(cleanedInput, finalConfig.userContext);
+        const singleTask = await this.parsing.parseTask(cleanedInput, finalConfig.userContext);
         parsedTasks = [singleTask];
       }
 
@@ -101,7 +119,7 @@ export class NaturalLanguageTaskService {
           parsedTasks.map(async (task, index) => {
             // Apply reasoning to all tasks, not just high confidence ones
             try {
-              const enhanced = await taskReasoningService.enhanceTaskWithReasoning(
+              const enhanced = await this.reasoning.enhanceTaskWithReasoning(
                 task, 
                 finalConfig.userContext || {}
               );
@@ -180,7 +198,7 @@ export class NaturalLanguageTaskService {
     try {
       console.log(`📧 Creating tasks from email: "${email.subject}"`);
 
-      const result = await taskWorkflowService.processEmail(email, userId);
+      const result = await this.workflow.processEmail(email, userId);
       
       return {
         tasks: result.tasks,
@@ -210,7 +228,7 @@ export class NaturalLanguageTaskService {
     try {
       console.log(`💬 Creating tasks from conversation...`);
 
-      const result = await taskWorkflowService.processConversation(conversation, userId);
+      const result = await this.workflow.processConversation(conversation, userId);
       
       return {
         tasks: result.tasks,
@@ -249,7 +267,7 @@ export class NaturalLanguageTaskService {
 
     for (const parsedTask of parsedTasks) {
       try {
-        const createRequest = taskParsingService.convertToCreateRequest(parsedTask, userId);
+        const createRequest = this.parsing.convertToCreateRequest(parsedTask, userId);
         
         if (!supabaseClient) {
           throw new Error('Supabase client is required for task creation');
@@ -1,7 +1,7 @@
 // src/lib/intelligence/performance-optimizer.ts - Performance Optimization Layer
-// Adds caching, parallel execution, streaming responses, and smart prompt optimization
+// Adds caching, parallel execution, and smart prompt optimization
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider, type LLMProvider } from '../ai/llm';
 import { getUserContext, type UnifiedUserContext } from './unified-context';
 import { createAutonomousActionsEngine, processConversationForAutonomousActions } from './autonomous-actions';
 
@@ -30,24 +30,15 @@ interface PromptOptimization {
 }
 
 class PerformanceOptimizer {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   private conversationCache: Map<string, ConversationCache> = new Map();
   private contextCache: Map<string, { context: any; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
   private readonly MAX_CACHE_SIZE = 50;
-  private readonly MAX_PROMPT_LENGTH = 8000; // Optimize for Gemini performance
-  private readonly STREAMING_THRESHOLD = 100; // Enable streaming for responses > 100 chars
-
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ 
-      model: "gemini-1.5-flash", // Use flash for speed, pro for complex reasoning
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 1024, // Limit for faster responses
-      }
-    });
+  private readonly MAX_PROMPT_LENGTH = 8000; // Keep prompts short for fast responses
+
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
   // Main optimized chat interface
@@ -55,7 +46,8 @@ class PerformanceOptimizer {
     cookies: any,
     userId: string,
     userMessage: string,
-    enableStreaming = true
+    _enableStreaming = true, // Kept for callers; providers return whole completions
+    llm: LLMProvider = this.llm // Per request, e.g. one that bills the caller
   ): Promise<OptimizedResponse> {
     const startTime = Date.now();
     
@@ -79,17 +71,15 @@ class PerformanceOptimizer {
     // Optimize prompt for performance
     const optimizedPrompt = this.optimizePrompt(userMessage, context);
     
-    // Generate response (with streaming if enabled)
-    let response: string;
-    let tokensUsed = 0;
-    
-    if (enableStreaming && this.shouldEnableStreaming(userMessage)) {
-      response = await this.generateStreamingResponse(optimizedPrompt);
-    } else {
-      const result = await this.model.generateContent(optimizedPrompt.prompt);
-      response = result.response.text();
-      tokensUsed = result.response.usageMetadata?.totalTokenCount || 0;
-    }
+    // Generate response
+    const completion = await llm.complete({
+      prompt: optimizedPrompt.prompt,
+      temperature: 0.7,
+      maxOutputTokens: 1024, // Limit for faster responses
+      purpose: 'optimized_chat',
+    });
+    const response = completion.text;
+    const tokensUsed = completion.usage.totalTokens;
 
     // Process autonomous actions in parallel
     const actionsPromise = this.processAutonomousActions(
@@ -112,7 +102,7 @@ class PerformanceOptimizer {
       cacheHit: false,
       actionsExecuted: actions.length,
       tokensUsed,
-      streamingEnabled: enableStreaming && this.shouldEnableStreaming(userMessage)
+      streamingEnabled: false
     };
   }
 
@@ -338,34 +328,6 @@ Respond with empathy and actionable advice. Include autonomous actions when appr
     return activities.join('\n') || 'No recent activity';
   }
 
-  // Generate streaming response for better UX
-  private async generateStreamingResponse(prompt: string): Promise<string> {
-    try {
-      const result = await this.model.generateContentStream(prompt);
-      
-      let response = '';
-      for await (const chunk of result.stream) {
-        const chunkText = chunk.text();
-        response += chunkText;
-        // In a real implementation, you'd emit these chunks to the client
-      }
-      
-      return response;
-    } catch (error) {
-      console.error('Streaming generation error:', error);
-      // Fallback to regular generation
-      const result = await this.model.generateContent(prompt);
-      return result.response.text();
-    }
-  }
-
-  // Determine if streaming should be enabled
-  private shouldEnableStreaming(userMessage: string): boolean {
-    // Enable streaming for longer user messages or complex queries
-    return userMessage.length > this.STREAMING_THRESHOLD ||
-           /explain|analyze|detailed|comprehensive/.test(userMessage.toLowerCase());
-  }
-
   // Process autonomous actions in parallel
   private async processAutonomousActions(
     cookies: any,
@@ -467,7 +429,7 @@ Respond with empathy and actionable advice. Include autonomous actions when appr
       },
       optimization: {
         max_prompt_length: this.MAX_PROMPT_LENGTH,
-        streaming_enabled: true,
+        streaming_enabled: false,
         cache_duration_minutes: this.CACHE_DURATION / (1000 * 60)
       }
     };
@@ -510,9 +472,9 @@ Respond with empathy and actionable advice. Include autonomous actions when appr
 let performanceOptimizer: PerformanceOptimizer | null = null;
 
 // Factory function
-export function getPerformanceOptimizer(apiKey: string): PerformanceOptimizer {
+export function getPerformanceOptimizer(llm: LLMProvider = getLLMProvider()): PerformanceOptimizer {
   if (!performanceOptimizer) {
-    performanceOptimizer = new PerformanceOptimizer(apiKey);
+    performanceOptimizer = new PerformanceOptimizer(llm);
   }
   return performanceOptimizer;
 }
@@ -522,11 +484,11 @@ export async function optimizedAIChat(
   cookies: any,
   userId: string,
   userMessage: string,
-  apiKey: string,
-  enableStreaming = true
+  enableStreaming = true,
+  llm?: LLMProvider
 ): Promise<OptimizedResponse> {
-  const optimizer = getPerformanceOptimizer(apiKey);
-  return optimizer.optimizedChat(cookies, userId, userMessage, enableStreaming);
+  const optimizer = getPerformanceOptimizer();
+  return optimizer.optimizedChat(cookies, userId, userMessage, enableStreaming, llm);
 }
 
 // Export types
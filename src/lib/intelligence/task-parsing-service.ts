@@ -1,6 +1,6 @@
 // TaskParsingService - Uses LangChain to convert natural language to structured task data
 import { z } from 'zod';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { getLLMProvider, type LLMProvider } from '../ai/llm';
 import { StructuredOutputParser } from '@langchain/core/output_parsers';
 import { PromptTemplate } from '@langchain/core/prompts';
 import type { CreateTaskRequest } from '../../types/task-management';
@@ -28,18 +28,11 @@ const ParsedTaskSchema = z.object({
 export type ParsedTask = z.infer<typeof ParsedTaskSchema>;
 
 export class TaskParsingService {
-  private model: ChatGoogleGenerativeAI;
   private parser: StructuredOutputParser<ParsedTask>;
   private prompt: PromptTemplate;
 
-  constructor() {
-    // Initialize the AI model (using Gemini via LangChain)
-    this.model = new ChatGoogleGenerativeAI({
-      modelName: 'gemini-1.5-flash', // Updated to current model name
-      apiKey: import.meta.env.GEMINI_API_KEY,
-      temperature: 0.3, // Lower temperature for more consistent parsing
-    });
-
+  // The provider is resolved per call so importing the singleton never needs credentials
+  constructor(private llm?: LLMProvider) {
     // Create a parser that enforces our schema
     this.parser = StructuredOutputParser.fromZodSchema(ParsedTaskSchema);
 
@@ -67,6 +60,11 @@ Remember: Return ONLY the JSON object, no additional text.
 `);
   }
 
+  private complete(prompt: string, purpose: string, json = false) {
+    // Lower temperature for more consistent parsing
+    return (this.llm ?? getLLMProvider()).complete({ prompt, temperature: 0.3, json, purpose });
+  }
+
   /**
    * Parse a natural language string into a structured task
    */
@@ -93,10 +91,10 @@ Remember: Return ONLY the JSON object, no additional text.
       });
 
       // Call the AI model
-      const response = await this.model.invoke(fullPrompt);
+      const response = await this.complete(fullPrompt, 'task_parsing', true);
       
       // Parse the response using our structured parser
-      const parsedTask = await this.parser.parse(response.content as string);
+      const parsedTask = await this.parser.parse(response.text);
 
       console.log(`✅ Successfully parsed task:`, {
         title: parsedTask.title,
@@ -136,11 +134,11 @@ Remember: Return ONLY the JSON object, no additional text.
         Only return the JSON array, no other text.
       `;
 
-      const splittingResponse = await this.model.invoke(splittingPrompt);
+      const splittingResponse = await this.complete(splittingPrompt, 'task_splitting', true);
       let individualTasks: string[];
 
       try {
-        individualTasks = JSON.parse(splittingResponse.content as string);
+        individualTasks = JSON.parse(splittingResponse.text);
       } catch {
         // Fallback: split by common separators
         individualTasks = input.split(/[,;]|and(?=\s)|then(?=\s)/).map(t => t.trim()).filter(t => t.length > 0);
@@ -205,8 +203,8 @@ Examples:
 
 Return ONLY the cleaned title, nothing else.`;
 
-      const response = await this.model.invoke(cleaningPrompt);
-      const cleanedTitle = response.content.toString().trim().replace(/^["']|["']$/g, '');
+      const response = await this.complete(cleaningPrompt, 'task_title_cleaning');
+      const cleanedTitle = response.text.trim().replace(/^["']|["']$/g, '');
       
       if (cleanedTitle && cleanedTitle.length > 0 && cleanedTitle.length < 50) {
         console.log(`🤖 AI cleaned title: "${input}" → "${cleanedTitle}"`);
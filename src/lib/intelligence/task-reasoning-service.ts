@@ -1,5 +1,5 @@
-// TaskReasoningService - Uses Gemini for advanced reasoning about tasks
-import { GoogleGenerativeAI } from '@google/generative-ai';
+// TaskReasoningService - Uses the configured LLM for advanced reasoning about tasks
+import { completeJSON, getLLMProvider, type LLMProvider } from '../ai/llm';
 import type { ParsedTask } from './task-parsing-service';
 import type { Task } from '../../types/task-management';
 
@@ -48,15 +48,11 @@ interface TaskBreakdown {
 }
 
 export class TaskReasoningService {
-  private genAI: GoogleGenerativeAI;
+  // Resolved per call so importing the singleton never needs credentials
+  constructor(private llm?: LLMProvider) {}
 
-  constructor() {
-    this.genAI = new GoogleGenerativeAI(import.meta.env.GEMINI_API_KEY);
-  }
-
-  private cleanJsonResponse(text: string): string {
-    // Remove markdown code blocks
-    return text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  private get provider(): LLMProvider {
+    return this.llm ?? getLLMProvider();
   }
 
   /**
@@ -69,8 +65,6 @@ export class TaskReasoningService {
     try {
       console.log(`🧠 Enhancing task with reasoning: "${parsedTask.title}"`);
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
       const prompt = `
 You are an expert task management consultant. Analyze this task and provide intelligent reasoning.
 
@@ -116,9 +110,7 @@ Consider:
 Return ONLY the JSON object, no other text.
       `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const reasoning = JSON.parse(this.cleanJsonResponse(response.text())) as ReasoningResult;
+      const { data: reasoning } = await completeJSON<ReasoningResult>({ prompt, purpose: 'task_reasoning' }, this.provider);
 
       console.log(`✅ Task reasoning completed with confidence: ${reasoning.confidence}`);
 
@@ -151,8 +143,6 @@ Return ONLY the JSON object, no other text.
     try {
       console.log(`🔧 Breaking down complex task: "${task.title}"`);
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
       const prompt = `
 You are an expert at breaking down complex tasks into manageable subtasks.
 
@@ -189,9 +179,7 @@ Return a JSON object with this structure:
 Return ONLY the JSON object, no other text.
       `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const breakdown = JSON.parse(this.cleanJsonResponse(response.text())) as TaskBreakdown;
+      const { data: breakdown } = await completeJSON<TaskBreakdown>({ prompt, purpose: 'task_breakdown' }, this.provider);
 
       console.log(`✅ Task breakdown completed: ${breakdown.subtasks.length} subtasks`);
       return breakdown;
@@ -235,8 +223,6 @@ Return ONLY the JSON object, no other text.
     try {
       console.log(`📅 Suggesting optimal scheduling for: "${task.title}"`);
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
       const prompt = `
 You are a scheduling optimization expert. Suggest the best times to schedule this task.
 
@@ -278,9 +264,7 @@ Return JSON:
 Return ONLY the JSON object.
       `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const scheduling = JSON.parse(this.cleanJsonResponse(response.text()));
+      const { data: scheduling } = await completeJSON<any>({ prompt, purpose: 'task_scheduling' }, this.provider);
 
       console.log(`✅ Scheduling suggestions generated: ${scheduling.recommendedSlots.length} slots`);
       return scheduling;
@@ -362,8 +346,6 @@ Return ONLY the JSON object.
         }
       });
 
-      const model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-
       const prompt = `
 Analyze these task completion patterns and provide insights:
 
@@ -386,9 +368,7 @@ Return JSON:
 }
       `;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const analysis = JSON.parse(this.cleanJsonResponse(response.text()));
+      const { data: analysis } = await completeJSON<any>({ prompt, purpose: 'task_patterns' }, this.provider);
 
       console.log(`✅ Pattern analysis complete: ${analysis.insights.length} insights`);
 
@@ -1,9 +1,9 @@
 // TaskWorkflowService - Uses LangGraph for complex multi-step AI workflows
 import { StateGraph, START, END } from '@langchain/langgraph';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { getLLMProvider, type LLMProvider } from '../ai/llm';
 import { z } from 'zod';
-import { taskParsingService, type ParsedTask } from './task-parsing-service';
-import { taskReasoningService } from './task-reasoning-service';
+import { TaskParsingService, taskParsingService, type ParsedTask } from './task-parsing-service';
+import { TaskReasoningService, taskReasoningService } from './task-reasoning-service';
 import type { Task } from '../../types/task-management';
 
 // State schema for our workflow
@@ -52,19 +52,21 @@ export interface ExtractedGoal {
 }
 
 export class TaskWorkflowService {
-  private model: ChatGoogleGenerativeAI;
   private workflow: StateGraph<WorkflowStateType>;
+  private parsing: TaskParsingService;
+  private reasoning: TaskReasoningService;
 
-  constructor() {
-    this.model = new ChatGoogleGenerativeAI({
-      modelName: 'gemini-1.5-flash',
-      apiKey: import.meta.env.GEMINI_API_KEY,
-      temperature: 0.4
-    });
-
+  // The provider is resolved per call so importing the singleton never needs credentials
+  constructor(private llm?: LLMProvider) {
+    this.parsing = llm ? new TaskParsingService(llm) : taskParsingService;
+    this.reasoning = llm ? new TaskReasoningService(llm) : taskReasoningService;
     this.workflow = this.createWorkflow();
   }
 
+  private completeJSONText(prompt: string, purpose: string) {
+    return (this.llm ?? getLLMProvider()).complete({ prompt, temperature: 0.4, json: true, purpose });
+  }
+
   /**
    * Create the LangGraph workflow for complex task processing
    */
@@ -210,8 +212,8 @@ Return a JSON object:
 Return ONLY the JSON object.
       `;
 
-      const result = await this.model.invoke(prompt);
-      const extracted = JSON.parse(result.content as string);
+      const result = await this.completeJSONText(prompt, 'task_workflow_extraction');
+      const extracted = JSON.parse(result.text);
 
       return {
         ...state,
@@ -246,7 +248,7 @@ Return ONLY the JSON object.
       console.log(`📝 Parsing tasks from extracted content`);
 
       // Use our existing task parsing service
-      const tasks = await taskParsingService.parseMultipleTasks(state.input);
+      const tasks = await this.parsing.parseMultipleTasks(state.input);
 
       return {
         ...state,
@@ -277,7 +279,7 @@ Return ONLY the JSON object.
 
       const enhancedTasks = await Promise.all(
         state.extractedTasks.map((task: ParsedTask) =>
-          taskReasoningService.enhanceTaskWithReasoning(task, {})
+          this.reasoning.enhanceTaskWithReasoning(task, {})
         )
       );
 
@@ -338,15 +340,15 @@ If no clear goals are discussed, return empty goals array.
 Return ONLY the JSON object.
       `;
 
-      const result = await this.model.invoke(prompt);
-      const extracted = JSON.parse(result.content as string);
+      const result = await this.completeJSONText(prompt, 'task_workflow_goals');
+      const extracted = JSON.parse(result.text);
 
       // Parse the task strings from goals into proper ParsedTask objects
       const goalsWithParsedTasks = await Promise.all(
         extracted.goals.map(async (goal: any) => {
           const parsedTasks = await Promise.all(
             goal.tasks.map((taskStr: string) => 
-              taskParsingService.parseTask(taskStr)
+              this.parsing.parseTask(taskStr)
             )
           );
           return {
@@ -1,5 +1,5 @@
 // src/lib/intelligence/uk-student-ai-agent.ts
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from '../ai/llm';
 import { createServerAuth } from '../auth/simple-multi-user';
 
 interface UKStudentContext {
@@ -50,14 +50,12 @@ interface DailyPlanRequest {
 }
 
 export class UKStudentAIAgent {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   private supabase: any;
   private userId: string;
 
-  constructor(cookies: any, userId: string, apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+  constructor(cookies: any, userId: string, llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
     const serverAuth = createServerAuth(cookies);
     this.supabase = serverAuth.supabase;
     this.userId = userId;
@@ -408,9 +406,11 @@ ${message}
 
 Respond as Mesh. Be empathetic, intelligent, and actionable. If you need to create tasks, adjust schedules, or take actions, include them in your response using the JSON format specified above.`;
 
-      const result = await this.model.generateContent(fullPrompt);
-      const response = result.response;
-      let aiResponse = response.text();
+      const { text: aiResponse } = await this.llm.complete({
+        prompt: fullPrompt,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'uk_student_chat',
+      });
 
       // Extract and execute any actions from the AI response
       const actions = await this.executeAIActions(aiResponse, context);
@@ -552,8 +552,11 @@ Provide a detailed, time-blocked daily plan that optimizes for productivity, hea
       const systemPrompt = this.createUKStudentSystemPrompt(context);
       const fullPrompt = `${systemPrompt}\n\n${planPrompt}`;
 
-      const result = await this.model.generateContent(fullPrompt);
-      const planContent = result.response.text();
+      const { text: planContent } = await this.llm.complete({
+        prompt: fullPrompt,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'uk_student_daily_plan',
+      });
 
       return {
         wakeTime: planRequest.wakeTime,
@@ -596,8 +599,11 @@ Provide specific, actionable insights that help the student optimize across all
       const systemPrompt = this.createUKStudentSystemPrompt(context);
       const fullPrompt = `${systemPrompt}\n\n${insightsPrompt}`;
 
-      const result = await this.model.generateContent(fullPrompt);
-      const insightsContent = result.response.text();
+      const { text: insightsContent } = await this.llm.complete({
+        prompt: fullPrompt,
+        model: GEMINI_PRO_MODEL,
+        purpose: 'uk_student_insights',
+      });
 
       return {
         timestamp: new Date().toISOString(),
@@ -0,0 +1,156 @@
+// src/lib/places/place-service.ts - Per-user saved places
+import type { Location, TravelPreferences } from '../../types/uk-student-travel';
+import { isMissingTable, withNumericColumns } from '../supabase/helpers';
+import { findHome, placeToLocation, type SavedPlace, type SavedPlaceInput } from './saved-places';
+import { getTravelProfileFromPreferences, toTravelPreferences, type TravelProfile } from './travel-profile';
+
+const PLACE_COLUMNS =
+  'id, name, kind, latitude, longitude, address, aliases, access_minutes, bike_parking_minutes, notes';
+
+export type SavedPlaceUpdate = Partial<Omit<SavedPlace, 'id'>>;
+
+export interface TravelSetup {
+  places: SavedPlace[];
+  profile: TravelProfile;
+  /** The saved home, where journeys start by default */
+  home: Location | null;
+  preferences: TravelPreferences;
+}
+
+export class SavedPlaceConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedPlaceConflictError';
+  }
+}
+
+// Only one home per user (saved_places_one_home_idx)
+function isDuplicateHome(error: any): boolean {
+  return error?.code === '23505';
+}
+
+function toPlace(row: any): SavedPlace {
+  return {
+    ...withNumericColumns(row, ['latitude', 'longitude', 'access_minutes', 'bike_parking_minutes']),
+    aliases: Array.isArray(row.aliases) ? row.aliases : [],
+  };
+}
+
+function cleanAliases(aliases: string[] | undefined): string[] {
+  return (aliases ?? []).map((alias) => alias.trim()).filter(Boolean);
+}
+
+class PlaceService {
+  async listPlaces(supabaseClient: any, userId: string): Promise<SavedPlace[]> {
+    const { data, error } = await supabaseClient
+      .from('saved_places')
+      .select(PLACE_COLUMNS)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      if (isMissingTable(error)) return [];
+      throw new Error(`Failed to load saved places: ${error.message}`);
+    }
+    return (data || []).map(toPlace);
+  }
+
+  /**
+   * Saved places and the travel profile, as planning a day needs them.
+   * Falls back to no places and the default profile rather than failing
+   * the plan.
+   */
+  async getTravelSetup(supabaseClient: any, userId: string): Promise<TravelSetup> {
+    let places: SavedPlace[] = [];
+    let profile = getTravelProfileFromPreferences(null);
+
+    try {
+      places = await this.listPlaces(supabaseClient, userId);
+    } catch (error) {
+      console.warn('[Places] Failed to load saved places, planning without them:', error);
+    }
+
+    try {
+      const { data, error } = await supabaseClient
+        .from('user_preferences')
+        .select('preferences')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      profile = getTravelProfileFromPreferences(data?.preferences);
+    } catch (error) {
+      console.warn('[Places] Failed to load travel profile, using defaults:', error);
+    }
+
+    const homePlace = findHome(places);
+    const home = homePlace ? placeToLocation(homePlace) : null;
+    return { places, profile, home, preferences: toTravelPreferences(profile, home ?? undefined) };
+  }
+
+  /**
+   * @throws SavedPlaceConflictError when adding a second home
+   */
+  async createPlace(supabaseClient: any, userId: string, input: SavedPlaceInput): Promise<SavedPlace> {
+    const { data, error } = await supabaseClient
+      .from('saved_places')
+      .insert({
+        user_id: userId,
+        name: input.name.trim(),
+        kind: input.kind ?? 'other',
+        latitude: input.latitude,
+        longitude: input.longitude,
+        address: input.address?.trim() || null,
+        aliases: cleanAliases(input.aliases),
+        access_minutes: input.access_minutes ?? 0,
+        bike_parking_minutes: input.bike_parking_minutes ?? null,
+        notes: input.notes ?? null,
+      })
+      .select(PLACE_COLUMNS)
+      .single();
+
+    if (error) {
+      if (isDuplicateHome(error)) throw new SavedPlaceConflictError('A home place is already saved');
+      throw new Error(`Failed to create saved place: ${error.message}`);
+    }
+    return toPlace(data);
+  }
+
+  /**
+   * @throws SavedPlaceConflictError when making a second place home
+   */
+  async updatePlace(
+    supabaseClient: any,
+    userId: string,
+    placeId: string,
+    update: SavedPlaceUpdate
+  ): Promise<SavedPlace | null> {
+    const changes = update.aliases ? { ...update, aliases: cleanAliases(update.aliases) } : update;
+    const { data, error } = await supabaseClient
+      .from('saved_places')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', placeId)
+      .eq('user_id', userId)
+      .select(PLACE_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (isDuplicateHome(error)) throw new SavedPlaceConflictError('A home place is already saved');
+      throw new Error(`Failed to update saved place: ${error.message}`);
+    }
+    return data ? toPlace(data) : null;
+  }
+
+  async deletePlace(supabaseClient: any, userId: string, placeId: string): Promise<boolean> {
+    const { data, error } = await supabaseClient
+      .from('saved_places')
+      .delete()
+      .eq('id', placeId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete saved place: ${error.message}`);
+    return (data?.length ?? 0) > 0;
+  }
+}
+
+export const placeService = new PlaceService();
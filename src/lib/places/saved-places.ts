@@ -0,0 +1,164 @@
+// src/lib/places/saved-places.ts - The user's own geography
+//
+// Saved places (home, campus buildings, the gym, the GP) carry real
+// coordinates and how long it takes to get from outside to inside: lifts,
+// reception, bike racks. Anchors name places in free text ("Lecture, Muirhead
+// 118"), so matching looks for a place's name or one of its aliases as whole
+// words in that text.
+import type { Location } from '../../types/uk-student-travel';
+
+export const SAVED_PLACE_KINDS = ['home', 'campus', 'gym', 'gp', 'work', 'store', 'other'] as const;
+export const MAX_ACCESS_MINUTES = 120;
+export const MAX_BIKE_PARKING_MINUTES = 60;
+
+export type SavedPlaceKind = (typeof SAVED_PLACE_KINDS)[number];
+
+export interface SavedPlace {
+  id: string;
+  name: string;
+  kind: SavedPlaceKind;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  /** Other names anchors use for this place ("Muirhead", "ERI") */
+  aliases: string[];
+  /** Outside to in the room */
+  access_minutes: number;
+  /** Locking up at the racks; null uses the travel default */
+  bike_parking_minutes: number | null;
+  notes: string | null;
+}
+
+export interface SavedPlaceInput {
+  name: string;
+  kind?: SavedPlaceKind;
+  latitude: number;
+  longitude: number;
+  address?: string | null;
+  aliases?: string[];
+  access_minutes?: number;
+  bike_parking_minutes?: number | null;
+  notes?: string | null;
+}
+
+const LOCATION_TYPES: Record<SavedPlaceKind, Location['type']> = {
+  home: 'home',
+  campus: 'university',
+  gym: 'gym',
+  gp: 'other',
+  work: 'other',
+  store: 'store',
+  other: 'other',
+};
+
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+/**
+ * The saved place an anchor's location text refers to. The longest name or
+ * alias found as whole words wins, so "Muirhead Tower" beats "Tower".
+ *
+ * @returns null when nothing matches
+ */
+export function matchPlace(locationText: string, places: SavedPlace[]): SavedPlace | null {
+  const text = normalize(locationText);
+  let best: { place: SavedPlace; length: number } | null = null;
+
+  for (const place of places) {
+    for (const candidate of [place.name, ...place.aliases]) {
+      const needle = normalize(candidate);
+      if (needle.trim().length === 0 || !text.includes(needle)) continue;
+      if (!best || needle.length > best.length) best = { place, length: needle.length };
+    }
+  }
+
+  return best?.place ?? null;
+}
+
+export function findHome(places: SavedPlace[]): SavedPlace | null {
+  return places.find((place) => place.kind === 'home') ?? null;
+}
+
+/**
+ * A saved place as a travel endpoint, with its access overheads
+ */
+export function placeToLocation(place: SavedPlace): Location {
+  return {
+    id: place.id,
+    name: place.name,
+    coordinates: [place.latitude, place.longitude],
+    type: LOCATION_TYPES[place.kind],
+    address: place.address ?? undefined,
+    notes: place.notes ?? undefined,
+    accessMinutes: place.access_minutes,
+    bikeParkingMinutes: place.bike_parking_minutes ?? undefined,
+  };
+}
+
+function isMinutes(value: unknown, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+function validateFields(input: Partial<SavedPlaceInput>, errors: string[]): void {
+  if (input.kind !== undefined && !SAVED_PLACE_KINDS.includes(input.kind)) {
+    errors.push(`kind must be one of ${SAVED_PLACE_KINDS.join(', ')}`);
+  }
+  if (input.latitude !== undefined && !(typeof input.latitude === 'number' && Math.abs(input.latitude) <= 90)) {
+    errors.push('latitude must be between -90 and 90');
+  }
+  if (input.longitude !== undefined && !(typeof input.longitude === 'number' && Math.abs(input.longitude) <= 180)) {
+    errors.push('longitude must be between -180 and 180');
+  }
+  if (
+    input.aliases !== undefined &&
+    !(Array.isArray(input.aliases) && input.aliases.every((alias) => typeof alias === 'string'))
+  ) {
+    errors.push('aliases must be a list of names');
+  }
+  if (input.access_minutes !== undefined && !isMinutes(input.access_minutes, MAX_ACCESS_MINUTES)) {
+    errors.push(`access_minutes must be a whole number from 0 to ${MAX_ACCESS_MINUTES}`);
+  }
+  if (
+    input.bike_parking_minutes !== undefined &&
+    input.bike_parking_minutes !== null &&
+    !isMinutes(input.bike_parking_minutes, MAX_BIKE_PARKING_MINUTES)
+  ) {
+    errors.push(`bike_parking_minutes must be a whole number from 0 to ${MAX_BIKE_PARKING_MINUTES}`);
+  }
+}
+
+export function validateSavedPlaceInput(input: Partial<SavedPlaceInput>): string[] {
+  const errors: string[] = [];
+
+  if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+  if (input.latitude === undefined || input.longitude === undefined) errors.push('latitude and longitude are required');
+  validateFields(input, errors);
+
+  return errors;
+}
+
+export function validateSavedPlaceUpdate(update: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const allowed = new Set([
+    'name',
+    'kind',
+    'latitude',
+    'longitude',
+    'address',
+    'aliases',
+    'access_minutes',
+    'bike_parking_minutes',
+    'notes',
+  ]);
+  const unknown = Object.keys(update).filter((key) => !allowed.has(key));
+
+  if (unknown.length > 0) errors.push(`Cannot change ${unknown.join(', ')}`);
+  if (Object.keys(update).length === 0) errors.push('Nothing to change');
+  if (update.name !== undefined && !(typeof update.name === 'string' && update.name.trim())) {
+    errors.push('name cannot be empty');
+  }
+  validateFields(update as Partial<SavedPlaceInput>, errors);
+
+  return errors;
+}
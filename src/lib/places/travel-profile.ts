@@ -0,0 +1,155 @@
+// src/lib/places/travel-profile.ts - How the user likes to get around
+//
+// Stored in user_preferences.preferences.travel_profile. Speeds, fares and
+// the methods the user will actually use replace the travel planner's
+// Birmingham averages; anything unset keeps the default.
+import type { Location, TravelPreferences, TravelRoute } from '../../types/uk-student-travel';
+
+export const TRAVEL_METHODS: TravelRoute['method'][] = ['bike', 'train', 'walk', 'bus'];
+
+export interface TravelProfile {
+  preferred_method: TravelPreferences['preferredMethod'];
+  /** Only plan these; empty means any */
+  allowed_methods: TravelRoute['method'][];
+  walking_speed_kmh: number;
+  cycling_speed_kmh: number;
+  max_walking_distance_m: number;
+  /** null uses the planner's standard fare */
+  train_fare_pence: number | null;
+  bus_fare_pence: number | null;
+  fitness_level: TravelPreferences['fitnessLevel'];
+  buffer_minutes: number;
+  max_travel_minutes: number;
+}
+
+export const DEFAULT_TRAVEL_PROFILE: TravelProfile = {
+  preferred_method: 'mixed',
+  allowed_methods: [],
+  walking_speed_kmh: 5,
+  cycling_speed_kmh: 15,
+  max_walking_distance_m: 1500,
+  train_fare_pence: null,
+  bus_fare_pence: null,
+  fitness_level: 'medium',
+  buffer_minutes: 10,
+  max_travel_minutes: 60,
+};
+
+const SPEED_LIMITS: Record<'walking_speed_kmh' | 'cycling_speed_kmh', [number, number]> = {
+  walking_speed_kmh: [1, 10],
+  cycling_speed_kmh: [5, 40],
+};
+
+function isMethod(value: unknown): value is TravelRoute['method'] {
+  return TRAVEL_METHODS.includes(value as TravelRoute['method']);
+}
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Read the travel profile from user preferences
+ * Fields that are missing or out of range keep their defaults.
+ */
+export function getTravelProfileFromPreferences(preferences: unknown): TravelProfile {
+  const record = (preferences && typeof preferences === 'object')
+    ? (preferences as Record<string, unknown>)
+    : {};
+  const raw = (record.travel_profile && typeof record.travel_profile === 'object')
+    ? (record.travel_profile as Record<string, unknown>)
+    : {};
+
+  const profile: TravelProfile = { ...DEFAULT_TRAVEL_PROFILE, allowed_methods: [] };
+  if (raw.preferred_method === 'mixed' || isMethod(raw.preferred_method)) profile.preferred_method = raw.preferred_method;
+  if (Array.isArray(raw.allowed_methods)) profile.allowed_methods = raw.allowed_methods.filter(isMethod);
+  for (const key of Object.keys(SPEED_LIMITS) as Array<keyof typeof SPEED_LIMITS>) {
+    const [min, max] = SPEED_LIMITS[key];
+    if (isNumberIn(raw[key], min, max)) profile[key] = raw[key];
+  }
+  if (isNumberIn(raw.max_walking_distance_m, 0, 20000)) profile.max_walking_distance_m = raw.max_walking_distance_m;
+  if (isNumberIn(raw.train_fare_pence, 0, 10000)) profile.train_fare_pence = raw.train_fare_pence;
+  if (isNumberIn(raw.bus_fare_pence, 0, 10000)) profile.bus_fare_pence = raw.bus_fare_pence;
+  if (raw.fitness_level === 'low' || raw.fitness_level === 'medium' || raw.fitness_level === 'high') {
+    profile.fitness_level = raw.fitness_level;
+  }
+  if (isNumberIn(raw.buffer_minutes, 0, 60)) profile.buffer_minutes = raw.buffer_minutes;
+  if (isNumberIn(raw.max_travel_minutes, 5, 240)) profile.max_travel_minutes = raw.max_travel_minutes;
+
+  return profile;
+}
+
+/**
+ * Check a profile before saving; unlike reading, nothing is silently dropped
+ */
+export function validateTravelProfile(input: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const allowed = new Set(Object.keys(DEFAULT_TRAVEL_PROFILE));
+  const unknown = Object.keys(input).filter((key) => !allowed.has(key));
+
+  if (unknown.length > 0) errors.push(`Unknown fields: ${unknown.join(', ')}`);
+  if (input.preferred_method !== undefined && input.preferred_method !== 'mixed' && !isMethod(input.preferred_method)) {
+    errors.push(`preferred_method must be mixed or one of ${TRAVEL_METHODS.join(', ')}`);
+  }
+  if (input.allowed_methods !== undefined && !(Array.isArray(input.allowed_methods) && input.allowed_methods.every(isMethod))) {
+    errors.push(`allowed_methods must only contain ${TRAVEL_METHODS.join(', ')}`);
+  }
+  for (const key of Object.keys(SPEED_LIMITS) as Array<keyof typeof SPEED_LIMITS>) {
+    const [min, max] = SPEED_LIMITS[key];
+    if (input[key] !== undefined && !isNumberIn(input[key], min, max)) errors.push(`${key} must be from ${min} to ${max}`);
+  }
+  if (input.max_walking_distance_m !== undefined && !isNumberIn(input.max_walking_distance_m, 0, 20000)) {
+    errors.push('max_walking_distance_m must be from 0 to 20000');
+  }
+  for (const key of ['train_fare_pence', 'bus_fare_pence']) {
+    if (input[key] !== undefined && input[key] !== null && !isNumberIn(input[key], 0, 10000)) {
+      errors.push(`${key} must be from 0 to 10000, or null for the standard fare`);
+    }
+  }
+  if (input.fitness_level !== undefined && !['low', 'medium', 'high'].includes(input.fitness_level as string)) {
+    errors.push('fitness_level must be low, medium or high');
+  }
+  if (input.buffer_minutes !== undefined && !isNumberIn(input.buffer_minutes, 0, 60)) {
+    errors.push('buffer_minutes must be from 0 to 60');
+  }
+  if (input.max_travel_minutes !== undefined && !isNumberIn(input.max_travel_minutes, 5, 240)) {
+    errors.push('max_travel_minutes must be from 5 to 240');
+  }
+
+  return errors;
+}
+
+/**
+ * The profile in the shape the travel planner takes
+ */
+export function toTravelPreferences(
+  profile: TravelProfile = DEFAULT_TRAVEL_PROFILE,
+  homeLocation?: Location
+): TravelPreferences {
+  return {
+    preferredMethod: profile.preferred_method,
+    allowedMethods: profile.allowed_methods.length > 0 ? profile.allowed_methods : undefined,
+    walkingSpeedKmh: profile.walking_speed_kmh,
+    cyclingSpeedKmh: profile.cycling_speed_kmh,
+    fares: {
+      train: profile.train_fare_pence ?? undefined,
+      bus: profile.bus_fare_pence ?? undefined,
+    },
+    maxWalkingDistance: profile.max_walking_distance_m,
+    weatherThreshold: {
+      minTemperature: 0,
+      maxWindSpeed: 30,
+      maxPrecipitation: 10,
+    },
+    fitnessLevel: profile.fitness_level,
+    budgetConstraints: {
+      dailyLimit: 500, // £5
+      weeklyLimit: 2000, // £20
+    },
+    timePreferences: {
+      bufferTime: profile.buffer_minutes,
+      maxTravelTime: profile.max_travel_minutes,
+    },
+    homeLocation,
+  };
+}
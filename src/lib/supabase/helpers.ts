@@ -0,0 +1,24 @@
+// src/lib/supabase/helpers.ts - Shared handling of Supabase query results
+
+/**
+ * Whether a query failed because its table doesn't exist yet (Postgres
+ * undefined_table), so features whose migration hasn't run degrade quietly
+ */
+export function isMissingTable(error: any): boolean {
+  return error?.code === '42P01';
+}
+
+/**
+ * Copy of a row with the given columns converted to numbers
+ *
+ * PostgREST returns Postgres numeric columns as strings to keep their
+ * precision. Null stays null.
+ */
+export function withNumericColumns<T extends Record<string, any>>(row: T, columns: readonly (keyof T)[]): T {
+  const converted: Record<string, any> = { ...row };
+  for (const column of columns) {
+    const value = row[column];
+    converted[column as string] = value === null || value === undefined ? value : Number(value);
+  }
+  return converted as T;
+}
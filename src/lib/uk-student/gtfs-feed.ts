@@ -0,0 +1,223 @@
+// src/lib/uk-student/gtfs-feed.ts - GTFS static feed loading
+//
+// Reads the parts of a GTFS static feed (https://gtfs.org/schedule/reference/)
+// timetable routing needs: stops, routes, trips, stop_times and the service
+// calendar (calendar.txt and/or calendar_dates.txt). Any operator's feed
+// works, so routing isn't tied to Birmingham's stations.
+import Papa from 'papaparse';
+import { readZip } from '../utils/zip';
+
+/** Used when the feed has no agency.txt (agency_timezone is otherwise required) */
+export const DEFAULT_FEED_TIMEZONE = 'Europe/London';
+
+export type TransitMode = 'train' | 'bus';
+
+export interface GtfsStop {
+  stop_id: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface GtfsRoute {
+  route_id: string;
+  /** route_short_name, falling back to route_long_name */
+  name: string;
+  mode: TransitMode;
+}
+
+export interface GtfsTrip {
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  headsign: string | null;
+}
+
+export interface GtfsStopTime {
+  stop_id: string;
+  /** Seconds after the start of the service day; can pass 24:00:00 */
+  arrival: number;
+  departure: number;
+}
+
+export interface GtfsService {
+  /** Runs on these weekdays, Sunday first (Date.getDay order) */
+  weekdays: boolean[];
+  start_date: string; // YYYYMMDD
+  end_date: string; // YYYYMMDD
+}
+
+export interface GtfsFeed {
+  timezone: string;
+  stops: Map<string, GtfsStop>;
+  routes: Map<string, GtfsRoute>;
+  trips: Map<string, GtfsTrip>;
+  /** Each trip's stops in stop_sequence order */
+  stopTimes: Map<string, GtfsStopTime[]>;
+  services: Map<string, GtfsService>;
+  /** Per service and YYYYMMDD date: 1 = added, 2 = removed */
+  serviceExceptions: Map<string, Map<string, 1 | 2>>;
+}
+
+export class GtfsFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtfsFeedError';
+  }
+}
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const CALENDAR_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Train for rail, metro and tram; bus for buses and coaches. Covers the
+ * basic route_type values and the extended (Google/HVT) ones.
+ */
+export function transitModeFor(routeType: number): TransitMode {
+  if (routeType === 3 || routeType === 11 || (routeType >= 200 && routeType < 300) || (routeType >= 700 && routeType < 800)) {
+    return 'bus';
+  }
+  return 'train';
+}
+
+/**
+ * "25:10:00" → seconds after the start of the service day
+ *
+ * @returns null for an empty or malformed time
+ */
+export function parseGtfsTime(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d{1,3}):([0-5]\d):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function parseTable(text: string): Array<Record<string, string>> {
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+  return result.data;
+}
+
+/**
+ * Build a feed from its text files, keyed by file name ("stops.txt")
+ *
+ * @throws GtfsFeedError if a required file or the service calendar is missing
+ */
+export function parseGtfsFeed(files: Map<string, string>): GtfsFeed {
+  const missing = REQUIRED_FILES.filter((name) => !files.has(name));
+  if (missing.length > 0) throw new GtfsFeedError(`GTFS feed is missing ${missing.join(', ')}`);
+  if (!files.has('calendar.txt') && !files.has('calendar_dates.txt')) {
+    throw new GtfsFeedError('GTFS feed has neither calendar.txt nor calendar_dates.txt');
+  }
+
+  const table = (name: string) => (files.has(name) ? parseTable(files.get(name)!) : []);
+
+  const [agency] = table('agency.txt');
+  const feed: GtfsFeed = {
+    timezone: agency?.agency_timezone?.trim() || DEFAULT_FEED_TIMEZONE,
+    stops: new Map(),
+    routes: new Map(),
+    trips: new Map(),
+    stopTimes: new Map(),
+    services: new Map(),
+    serviceExceptions: new Map(),
+  };
+
+  for (const row of table('stops.txt')) {
+    const lat = Number(row.stop_lat);
+    const lon = Number(row.stop_lon);
+    if (!row.stop_id || !Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    // Stations (location_type 1) and entrances have no departures of their own
+    if (row.location_type && row.location_type !== '0') continue;
+    feed.stops.set(row.stop_id, { stop_id: row.stop_id, name: row.stop_name || row.stop_id, lat, lon });
+  }
+
+  for (const row of table('routes.txt')) {
+    if (!row.route_id) continue;
+    feed.routes.set(row.route_id, {
+      route_id: row.route_id,
+      name: row.route_short_name || row.route_long_name || row.route_id,
+      mode: transitModeFor(Number(row.route_type)),
+    });
+  }
+
+  for (const row of table('trips.txt')) {
+    if (!row.trip_id || !feed.routes.has(row.route_id)) continue;
+    feed.trips.set(row.trip_id, {
+      trip_id: row.trip_id,
+      route_id: row.route_id,
+      service_id: row.service_id,
+      headsign: row.trip_headsign || null,
+    });
+  }
+
+  const sequenced = new Map<string, Array<GtfsStopTime & { sequence: number }>>();
+  for (const row of table('stop_times.txt')) {
+    if (!feed.trips.has(row.trip_id) || !feed.stops.has(row.stop_id)) continue;
+    // Untimed intermediate stops can't be boarded at a known time
+    const arrival = parseGtfsTime(row.arrival_time) ?? parseGtfsTime(row.departure_time);
+    const departure = parseGtfsTime(row.departure_time) ?? arrival;
+    if (arrival === null || departure === null) continue;
+
+    const times = sequenced.get(row.trip_id) ?? [];
+    times.push({ stop_id: row.stop_id, arrival, departure, sequence: Number(row.stop_sequence) });
+    sequenced.set(row.trip_id, times);
+  }
+  for (const [tripId, times] of sequenced) {
+    feed.stopTimes.set(
+      tripId,
+      times.sort((a, b) => a.sequence - b.sequence).map(({ stop_id, arrival, departure }) => ({ stop_id, arrival, departure }))
+    );
+  }
+
+  for (const row of table('calendar.txt')) {
+    if (!row.service_id) continue;
+    feed.services.set(row.service_id, {
+      weekdays: CALENDAR_WEEKDAYS.map((day) => row[day] === '1'),
+      start_date: row.start_date,
+      end_date: row.end_date,
+    });
+  }
+
+  for (const row of table('calendar_dates.txt')) {
+    if (!row.service_id || (row.exception_type !== '1' && row.exception_type !== '2')) continue;
+    const exceptions = feed.serviceExceptions.get(row.service_id) ?? new Map<string, 1 | 2>();
+    exceptions.set(row.date, row.exception_type === '1' ? 1 : 2);
+    feed.serviceExceptions.set(row.service_id, exceptions);
+  }
+
+  return feed;
+}
+
+/**
+ * Whether a service runs on a date, after calendar_dates exceptions
+ *
+ * @param date - Service date (YYYY-MM-DD)
+ */
+export function isServiceActive(feed: GtfsFeed, serviceId: string, date: string): boolean {
+  const compact = date.replace(/-/g, '');
+  const exception = feed.serviceExceptions.get(serviceId)?.get(compact);
+  if (exception) return exception === 1;
+
+  const service = feed.services.get(serviceId);
+  if (!service || compact < service.start_date || compact > service.end_date) return false;
+
+  const [year, month, day] = date.split('-').map(Number);
+  return service.weekdays[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+/**
+ * Load a feed from its ZIP archive, with the files at the top level or in
+ * one folder (as some operators publish them)
+ */
+export async function loadGtfsFeedFromZip(archive: Uint8Array): Promise<GtfsFeed> {
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  for (const [path, content] of await readZip(archive)) {
+    const name = path.split('/').pop()!;
+    if (name.endsWith('.txt')) files.set(name, decoder.decode(content));
+  }
+  return parseGtfsFeed(files);
+}
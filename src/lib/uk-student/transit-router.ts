@@ -0,0 +1,342 @@
+// src/lib/uk-student/transit-router.ts - Timetable routing over a GTFS feed
+//
+// Answers "when do I have to leave to be there by 10:00?" from the feed's
+// actual departures: walk to a nearby stop, ride one or more trips (changing
+// at the same stop or one a short walk away), walk to the destination. Uses a
+// reverse connection scan, so the answer is the latest departure that still
+// arrives in time, and the wait for that departure is part of the journey
+// instead of a flat estimate.
+import { toZonedDateTime, zonedDateTimeToUtc } from '../anchors/recurrence';
+import {
+  isServiceActive,
+  loadGtfsFeedFromZip,
+  type GtfsFeed,
+  type GtfsStop,
+  type TransitMode,
+} from './gtfs-feed';
+import type { TransitJourney, TransitLeg } from '../../types/uk-student-travel';
+
+/** Straight-line distance to a stop worth walking */
+export const DEFAULT_MAX_WALK_METERS = 1000;
+export const DEFAULT_MIN_CHANGE_MINUTES = 3;
+/** Changing between stops further apart than this isn't offered */
+export const MAX_TRANSFER_WALK_METERS = 300;
+/** Be at the stop this long before the departure */
+export const STOP_BUFFER_MINUTES = 2;
+
+const WALK_METERS_PER_MINUTE = 80; // ~5 km/h
+const WALK_DETOUR_FACTOR = 1.3; // streets aren't straight lines
+const MAX_JOURNEY_MINUTES = 180;
+const MAX_LEGS = 6;
+/**
+ * Service days whose connections stay built. A plan needs its date and the
+ * day before, so this covers planning a few days either way while a
+ * long-running server doesn't keep every date it was ever asked about.
+ */
+const MAX_CACHED_SERVICE_DATES = 8;
+
+export interface TransitRouteOptions {
+  modes?: TransitMode[];
+  maxWalkMeters?: number;
+  minChangeMinutes?: number;
+}
+
+interface Connection {
+  trip_id: string;
+  from_stop: string;
+  to_stop: string;
+  departure: number; // epoch ms
+  arrival: number; // epoch ms
+}
+
+interface NearbyStop {
+  stop: GtfsStop;
+  walkMinutes: number;
+}
+
+function distanceMeters(a: [number, number], b: [number, number]): number {
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+  const dLat = toRadians(b[0] - a[0]);
+  const dLon = toRadians(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function minutesBetween(start: number, end: number): number {
+  return Math.round((end - start) / 60000);
+}
+
+export class TransitRouter {
+  /** Least recently used first */
+  private readonly connectionsByDate = new Map<string, Connection[]>();
+  private readonly transfersByStop = new Map<string, NearbyStop[]>();
+
+  constructor(private readonly feed: GtfsFeed) {}
+
+  /**
+   * Stops within walking distance, nearest first
+   */
+  nearbyStops(coordinates: [number, number], maxWalkMeters: number = DEFAULT_MAX_WALK_METERS): NearbyStop[] {
+    const nearby: NearbyStop[] = [];
+    for (const stop of this.feed.stops.values()) {
+      const meters = distanceMeters(coordinates, [stop.lat, stop.lon]);
+      if (meters <= maxWalkMeters) {
+        nearby.push({ stop, walkMinutes: Math.ceil((meters * WALK_DETOUR_FACTOR) / WALK_METERS_PER_MINUTE) });
+      }
+    }
+    return nearby.sort((a, b) => a.walkMinutes - b.walkMinutes);
+  }
+
+  /**
+   * The journey that leaves `from` as late as possible and still reaches
+   * `to` by `arriveBy`
+   *
+   * @returns null when no stop is in walking distance or nothing runs in time
+   */
+  planArriveBy(
+    from: [number, number],
+    to: [number, number],
+    arriveBy: Date,
+    options: TransitRouteOptions = {}
+  ): TransitJourney | null {
+    const maxWalk = options.maxWalkMeters ?? DEFAULT_MAX_WALK_METERS;
+    const changeMs = (options.minChangeMinutes ?? DEFAULT_MIN_CHANGE_MINUTES) * 60000;
+    const origins = this.nearbyStops(from, maxWalk);
+    const destinations = this.nearbyStops(to, maxWalk);
+    if (origins.length === 0 || destinations.length === 0) return null;
+
+    const deadline = arriveBy.getTime();
+    // Latest time to be standing at a stop and still make it, by walking out…
+    const finalAt = new Map<string, number>();
+    for (const { stop, walkMinutes } of destinations) {
+      finalAt.set(stop.stop_id, deadline - walkMinutes * 60000);
+    }
+    // …or by boarding onward, with the connection that gets you on
+    const latestAt = new Map<string, number>();
+    const boardAt = new Map<string, Connection>();
+    // …or by walking to a nearby stop and boarding there
+    const transferAt = new Map<string, { time: number; via: string }>();
+    const tripExit = new Map<string, Connection>();
+    const onwardFrom = (stopId: string) =>
+      Math.max(latestAt.get(stopId) ?? -Infinity, transferAt.get(stopId)?.time ?? -Infinity);
+
+    for (const connection of this.connectionsFor(arriveBy, options.modes)) {
+      let reachable = tripExit.has(connection.trip_id);
+      if (!reachable) {
+        const walkOut = finalAt.get(connection.to_stop);
+        if (
+          (walkOut !== undefined && connection.arrival <= walkOut) ||
+          connection.arrival + changeMs <= onwardFrom(connection.to_stop)
+        ) {
+          tripExit.set(connection.trip_id, connection);
+          reachable = true;
+        }
+      }
+
+      if (reachable && connection.departure > (latestAt.get(connection.from_stop) ?? -Infinity)) {
+        latestAt.set(connection.from_stop, connection.departure);
+        boardAt.set(connection.from_stop, connection);
+        for (const { stop, walkMinutes } of this.transfersFrom(connection.from_stop)) {
+          const time = connection.departure - walkMinutes * 60000;
+          if (time > (transferAt.get(stop.stop_id)?.time ?? -Infinity)) {
+            transferAt.set(stop.stop_id, { time, via: connection.from_stop });
+          }
+        }
+      }
+    }
+
+    let best: { origin: NearbyStop; leaveAt: number } | null = null;
+    for (const origin of origins) {
+      const boardBy = latestAt.get(origin.stop.stop_id);
+      if (boardBy === undefined) continue;
+      const leaveAt = boardBy - (origin.walkMinutes + STOP_BUFFER_MINUTES) * 60000;
+      if (!best || leaveAt > best.leaveAt) best = { origin, leaveAt };
+    }
+    if (!best) return null;
+
+    const legs = this.reconstructLegs(
+      best.origin.stop.stop_id,
+      { boardAt, tripExit, finalAt, latestAt, transferAt },
+      changeMs
+    );
+    if (legs.length === 0) return null;
+
+    const lastStop = legs[legs.length - 1].toStopId;
+    const walkFromStop = destinations.find((candidate) => candidate.stop.stop_id === lastStop)?.walkMinutes ?? 0;
+    let waitMinutes = 0;
+    for (let i = 1; i < legs.length; i++) {
+      waitMinutes += minutesBetween(legs[i - 1].arrival.getTime(), legs[i].departure.getTime()) - legs[i].transferWalkMinutes;
+    }
+
+    return {
+      leaveAt: new Date(best.leaveAt),
+      departure: legs[0].departure,
+      arrival: new Date(legs[legs.length - 1].arrival.getTime() + walkFromStop * 60000),
+      walkToStopMinutes: best.origin.walkMinutes,
+      walkFromStopMinutes: walkFromStop,
+      waitMinutes,
+      legs: legs.map(({ toStopId, transferWalkMinutes, ...leg }) => leg),
+    };
+  }
+
+  /**
+   * Stops within a short walk of a stop, for changing between them
+   */
+  private transfersFrom(stopId: string): NearbyStop[] {
+    const cached = this.transfersByStop.get(stopId);
+    if (cached) return cached;
+
+    const stop = this.feed.stops.get(stopId)!;
+    const transfers = this.nearbyStops([stop.lat, stop.lon], MAX_TRANSFER_WALK_METERS)
+      .filter((nearby) => nearby.stop.stop_id !== stopId);
+    this.transfersByStop.set(stopId, transfers);
+    return transfers;
+  }
+
+  private reconstructLegs(
+    originStopId: string,
+    scan: {
+      boardAt: Map<string, Connection>;
+      tripExit: Map<string, Connection>;
+      finalAt: Map<string, number>;
+      latestAt: Map<string, number>;
+      transferAt: Map<string, { time: number; via: string }>;
+    },
+    changeMs: number
+  ): Array<TransitLeg & { toStopId: string; transferWalkMinutes: number }> {
+    const { boardAt, tripExit, finalAt, latestAt, transferAt } = scan;
+    const legs: Array<TransitLeg & { toStopId: string; transferWalkMinutes: number }> = [];
+    let stopId = originStopId;
+    let transferWalkMinutes = 0;
+
+    while (legs.length < MAX_LEGS) {
+      const board = boardAt.get(stopId);
+      const exit = board && tripExit.get(board.trip_id);
+      if (!board || !exit) break;
+
+      const trip = this.feed.trips.get(board.trip_id)!;
+      const route = this.feed.routes.get(trip.route_id)!;
+      legs.push({
+        mode: route.mode,
+        routeName: route.name,
+        headsign: trip.headsign,
+        fromStop: this.feed.stops.get(board.from_stop)!.name,
+        toStop: this.feed.stops.get(exit.to_stop)!.name,
+        departure: new Date(board.departure),
+        arrival: new Date(exit.arrival),
+        toStopId: exit.to_stop,
+        transferWalkMinutes,
+      });
+
+      const walkOut = finalAt.get(exit.to_stop);
+      if (walkOut !== undefined && exit.arrival <= walkOut) break;
+
+      // Change at the same stop when that works, else walk to the nearby one
+      const boardHere = latestAt.get(exit.to_stop);
+      const transfer = transferAt.get(exit.to_stop);
+      if (boardHere !== undefined && exit.arrival + changeMs <= boardHere) {
+        stopId = exit.to_stop;
+        transferWalkMinutes = 0;
+      } else if (transfer) {
+        stopId = transfer.via;
+        transferWalkMinutes = this.transfersFrom(transfer.via)
+          .find((nearby) => nearby.stop.stop_id === exit.to_stop)?.walkMinutes ?? 0;
+      } else {
+        break;
+      }
+    }
+
+    return legs;
+  }
+
+  /**
+   * Hops between consecutive stops of every trip running in the window
+   * before `arriveBy`, latest departure first. Includes the previous service
+   * day, whose late trips run past midnight (25:10:00).
+   */
+  private connectionsFor(arriveBy: Date, modes?: TransitMode[]): Connection[] {
+    const serviceDate = toZonedDateTime(arriveBy, this.feed.timezone).date;
+    const all = [
+      ...this.connectionsOn(addDays(serviceDate, -1)),
+      ...this.connectionsOn(serviceDate),
+    ];
+
+    const deadline = arriveBy.getTime();
+    const earliest = deadline - MAX_JOURNEY_MINUTES * 60000;
+    return all
+      .filter((connection) => connection.arrival <= deadline && connection.departure >= earliest)
+      .filter((connection) => {
+        if (!modes) return true;
+        const trip = this.feed.trips.get(connection.trip_id)!;
+        return modes.includes(this.feed.routes.get(trip.route_id)!.mode);
+      })
+      .sort((a, b) => b.departure - a.departure || b.arrival - a.arrival);
+  }
+
+  private connectionsOn(serviceDate: string): Connection[] {
+    const cached = this.connectionsByDate.get(serviceDate);
+    if (cached) {
+      this.connectionsByDate.delete(serviceDate);
+      this.connectionsByDate.set(serviceDate, cached);
+      return cached;
+    }
+
+    // GTFS times count from noon minus 12h, which is midnight except on DST change days
+    const dayStart = zonedDateTimeToUtc(serviceDate, '12:00', this.feed.timezone).getTime() - 12 * 3600000;
+    const connections: Connection[] = [];
+    for (const trip of this.feed.trips.values()) {
+      if (!isServiceActive(this.feed, trip.service_id, serviceDate)) continue;
+      const times = this.feed.stopTimes.get(trip.trip_id) || [];
+      for (let i = 0; i < times.length - 1; i++) {
+        connections.push({
+          trip_id: trip.trip_id,
+          from_stop: times[i].stop_id,
+          to_stop: times[i + 1].stop_id,
+          departure: dayStart + times[i].departure * 1000,
+          arrival: dayStart + times[i + 1].arrival * 1000,
+        });
+      }
+    }
+
+    this.connectionsByDate.set(serviceDate, connections);
+    if (this.connectionsByDate.size > MAX_CACHED_SERVICE_DATES) {
+      this.connectionsByDate.delete(this.connectionsByDate.keys().next().value!);
+    }
+    return connections;
+  }
+}
+
+let sharedRouter: Promise<TransitRouter | null> | null = null;
+
+/**
+ * Router for the feed at GTFS_FEED_PATH, loaded once per server process
+ *
+ * @returns null when no feed is configured, outside Node, or if the feed can't be read
+ */
+export function loadTransitRouterFromEnv(): Promise<TransitRouter | null> {
+  if (!sharedRouter) sharedRouter = loadSharedRouter();
+  return sharedRouter;
+}
+
+async function loadSharedRouter(): Promise<TransitRouter | null> {
+  const runtimeEnv = (import.meta as any).env || {};
+  const path = runtimeEnv.GTFS_FEED_PATH || (typeof process !== 'undefined' ? process.env?.GTFS_FEED_PATH : undefined);
+  if (!path) return null;
+
+  try {
+    const { readFile } = await import('node:fs/promises');
+    const feed = await loadGtfsFeedFromZip(new Uint8Array(await readFile(path)));
+    return new TransitRouter(feed);
+  } catch (error) {
+    console.error('[Transit Router] Failed to load GTFS feed, timetable routing disabled:', {
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
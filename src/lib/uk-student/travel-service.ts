@@ -10,11 +10,28 @@ import type {
   CyclingRoute,
   TravelCostTracking
 } from '../../types/uk-student-travel';
+import { loadTransitRouterFromEnv, type TransitRouter } from './transit-router';
+import type { TransitMode } from './gtfs-feed';
+
+type TravelMethod = TravelRoute['method'];
+
+export interface TravelServiceOptions {
+  /**
+   * Timetable router for train and bus journeys; null turns timetable routing
+   * off. Defaults to the GTFS feed at GTFS_FEED_PATH, if any.
+   */
+  transitRouter?: TransitRouter | null;
+}
 
 export class TravelService {
+  // Defaults for anything the user's travel profile and saved places don't set
   private readonly TRAIN_COST_PENCE = 205; // £2.05 base cost
+  private readonly BUS_COST_PENCE = 200; // £2 single fare cap
   private readonly BIKE_PARKING_TIME = 5; // minutes
   private readonly LIFT_ACCESS_TIME = 3; // minutes
+  private readonly CYCLING_SPEED_KMH = 15;
+  private readonly WALKING_SPEED_KMH = 5;
+  private readonly MAX_WALKING_DISTANCE_METERS = 1500;
   private readonly POST_WORKOUT_FATIGUE_MULTIPLIER = 1.3;
   
   // Birmingham-specific locations
@@ -45,6 +62,8 @@ export class TravelService {
     }
   };
 
+  constructor(private readonly options: TravelServiceOptions = {}) {}
+
   /**
    * Determines optimal transport method based on weather, schedule, and energy levels
    */
@@ -54,7 +73,10 @@ export class TravelService {
     conditions: TravelConditions,
     preferences: TravelPreferences
   ): Promise<TravelRoute> {
-    const routes = await this.calculateAllRoutes(from, to, conditions);
+    const routes = await this.calculateAllRoutes(from, to, conditions, preferences);
+    if (routes.length === 0) {
+      throw new Error(`No route from ${from.name} to ${to.name} with the allowed travel methods`);
+    }
     
     // Score each route based on multiple factors
     const scoredRoutes = routes.map(route => ({
@@ -72,26 +94,41 @@ export class TravelService {
 
   /**
    * Calculate all possible routes between two locations
+   * Only the methods the preferences allow are planned.
    */
   private async calculateAllRoutes(
     from: Location,
     to: Location,
-    conditions: TravelConditions
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
   ): Promise<TravelRoute[]> {
     const routes: TravelRoute[] = [];
+    const allowed = (method: TravelMethod) =>
+      !preferences?.allowedMethods?.length || preferences.allowedMethods.includes(method);
 
     // Calculate bike route
-    const bikeRoute = await this.calculateBikeRoute(from, to, conditions);
-    if (bikeRoute) routes.push(bikeRoute);
+    if (allowed('bike')) {
+      const bikeRoute = await this.calculateBikeRoute(from, to, conditions, preferences);
+      if (bikeRoute) routes.push(bikeRoute);
+    }
 
     // Calculate train route
-    const trainRoute = await this.calculateTrainRoute(from, to, conditions);
-    if (trainRoute) routes.push(trainRoute);
+    if (allowed('train')) {
+      const trainRoute = await this.calculateTrainRoute(from, to, conditions, preferences);
+      if (trainRoute) routes.push(trainRoute);
+    }
+
+    // Calculate bus route (timetable only)
+    if (allowed('bus')) {
+      const busRoute = await this.calculateBusRoute(from, to, conditions, preferences);
+      if (busRoute) routes.push(busRoute);
+    }
 
     // Calculate walking route (for short distances)
     const walkingDistance = this.calculateDistance(from.coordinates, to.coordinates);
-    if (walkingDistance < 1.5) { // Less than 1.5km
-      const walkRoute = await this.calculateWalkingRoute(from, to, conditions);
+    const maxWalkingKm = (preferences?.maxWalkingDistance ?? this.MAX_WALKING_DISTANCE_METERS) / 1000;
+    if (allowed('walk') && walkingDistance < maxWalkingKm) {
+      const walkRoute = await this.calculateWalkingRoute(from, to, conditions, preferences);
       if (walkRoute) routes.push(walkRoute);
     }
 
@@ -104,19 +141,20 @@ export class TravelService {
   private async calculateBikeRoute(
     from: Location,
     to: Location,
-    conditions: TravelConditions
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
   ): Promise<TravelRoute | null> {
     const distance = this.calculateDistance(from.coordinates, to.coordinates);
     const elevation = await this.getElevationChange(from, to);
     
-    // Base cycling time (assuming 15 km/h average in Birmingham)
-    let duration = (distance / 15) * 60; // minutes
+    // Base cycling time (the user's own speed, else 15 km/h)
+    let duration = (distance / (preferences?.cyclingSpeedKmh ?? this.CYCLING_SPEED_KMH)) * 60; // minutes
     
     // Adjust for elevation
     duration += elevation * 0.5; // 30 seconds per meter of elevation
     
-    // Add parking and access time
-    duration += this.BIKE_PARKING_TIME + this.LIFT_ACCESS_TIME;
+    // Add parking and access time (the destination's own, if it's a saved place)
+    duration += (to.bikeParkingMinutes ?? this.BIKE_PARKING_TIME) + (to.accessMinutes ?? this.LIFT_ACCESS_TIME);
     
     // Weather adjustments
     const weatherMultiplier = this.getWeatherMultiplier(conditions.weather, 'bike');
@@ -152,48 +190,78 @@ export class TravelService {
   }
 
   /**
-   * Calculate train route with real-time disruption handling
+   * Calculate train route: the timetabled journey arriving before
+   * conditions.timeConstraints.arrival. There is no train estimate without a
+   * GTFS feed.
    */
   private async calculateTrainRoute(
     from: Location,
     to: Location,
-    conditions: TravelConditions
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
   ): Promise<TravelRoute | null> {
-    // Check if locations are train-accessible
-    if (!this.isTrainAccessible(from) || !this.isTrainAccessible(to)) {
+    const router = await this.getTransitRouter();
+    if (!router) return null;
+    return this.calculateTimetableRoute(router, 'train', from, to, conditions, preferences);
+  }
+
+  /**
+   * Calculate bus route; there is no bus estimate without a GTFS feed
+   */
+  private async calculateBusRoute(
+    from: Location,
+    to: Location,
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
+  ): Promise<TravelRoute | null> {
+    const router = await this.getTransitRouter();
+    if (!router) return null;
+    return this.calculateTimetableRoute(router, 'bus', from, to, conditions, preferences);
+  }
+
+  /**
+   * Timetabled journey that leaves as late as possible and still arrives by
+   * conditions.timeConstraints.arrival. The duration runs from leaving to
+   * arriving, so it includes waiting at stops; the transit details carry the
+   * actual departure to leave for. A destination's access time comes off the
+   * arrival deadline, so the journey gets you to the door early enough.
+   */
+  private calculateTimetableRoute(
+    router: TransitRouter,
+    mode: TransitMode,
+    from: Location,
+    to: Location,
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
+  ): TravelRoute | null {
+    if (!this.isCoordinateTuple(from.coordinates) || !this.isCoordinateTuple(to.coordinates)) {
       return null;
     }
 
-    // Base train journey time between Five Ways and University
-    let duration = 12; // minutes for Five Ways to University
-    
-    // Add walking time to/from stations
-    duration += this.getWalkingTimeToStation(from);
-    duration += this.getWalkingTimeFromStation(to);
-    
-    // Check for real-time disruptions
-    const disruptions = await this.checkTrainDisruptions();
-    if (disruptions.length > 0) {
-      duration += 15; // Add delay buffer
-    }
+    const accessMinutes = to.accessMinutes ?? 0;
+    const arriveBy = new Date(conditions.timeConstraints.arrival.getTime() - accessMinutes * 60000);
+    const journey = router.planArriveBy(from.coordinates, to.coordinates, arriveBy, { modes: [mode] });
+    if (!journey) return null;
 
-    // Weather doesn't significantly affect train travel
-    const weatherMultiplier = this.getWeatherMultiplier(conditions.weather, 'train');
-    duration *= weatherMultiplier;
+    // A train ticket covers the journey; each bus boarded is its own fare
+    const cost = mode === 'train'
+      ? preferences?.fares?.train ?? this.TRAIN_COST_PENCE
+      : (preferences?.fares?.bus ?? this.BUS_COST_PENCE) * journey.legs.length;
 
     return {
       from,
       to,
-      method: 'train',
+      method: mode,
       distance: this.calculateDistance(from.coordinates, to.coordinates) * 1000, // Convert to meters
-      duration: Math.round(duration),
-      cost: this.TRAIN_COST_PENCE,
-      elevation: 0, // Trains don't have elevation changes
+      duration: Math.round((journey.arrival.getTime() - journey.leaveAt.getTime()) / 60000) + accessMinutes,
+      cost,
+      elevation: 0,
       difficulty: 'easy',
-      weatherSuitability: this.getWeatherSuitability(conditions.weather, 'train'),
-      energyRequired: this.calculateEnergyRequired('train', 0, 0),
-      safetyRating: 5, // Very safe
-      alternatives: []
+      weatherSuitability: this.getWeatherSuitability(conditions.weather, mode),
+      energyRequired: this.calculateEnergyRequired(mode, 0, 0),
+      safetyRating: 5,
+      alternatives: [],
+      transit: journey,
     };
   }
 
@@ -203,12 +271,13 @@ export class TravelService {
   private async calculateWalkingRoute(
     from: Location,
     to: Location,
-    conditions: TravelConditions
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
   ): Promise<TravelRoute | null> {
     const distance = this.calculateDistance(from.coordinates, to.coordinates);
     
-    // Average walking speed: 5 km/h
-    let duration = (distance / 5) * 60; // minutes
+    // The user's walking speed, else an average 5 km/h
+    let duration = (distance / (preferences?.walkingSpeedKmh ?? this.WALKING_SPEED_KMH)) * 60; // minutes
     
     // Weather adjustments for walking
     const weatherMultiplier = this.getWeatherMultiplier(conditions.weather, 'walk');
@@ -219,6 +288,8 @@ export class TravelService {
       duration *= 1.3;
     }
 
+    duration += to.accessMinutes ?? 0;
+
     return {
       from,
       to,
@@ -283,7 +354,7 @@ export class TravelService {
   /**
    * Get weather multiplier for different transport methods
    */
-  private getWeatherMultiplier(weather: WeatherData, method: 'bike' | 'train' | 'walk'): number {
+  private getWeatherMultiplier(weather: WeatherData, method: TravelMethod): number {
     const { condition, temperature, windSpeed, precipitation } = weather;
 
     switch (method) {
@@ -295,6 +366,7 @@ export class TravelService {
         return 1.0;
 
       case 'train':
+      case 'bus':
         // Trains are mostly weather-independent
         if (condition === 'snowy') return 1.2; // Slight delays possible
         return 1.0;
@@ -313,7 +385,7 @@ export class TravelService {
   /**
    * Get weather suitability score (0-1)
    */
-  private getWeatherSuitability(weather: WeatherData, method: 'bike' | 'train' | 'walk'): number {
+  private getWeatherSuitability(weather: WeatherData, method: TravelMethod): number {
     const { condition, temperature, windSpeed, precipitation } = weather;
 
     switch (method) {
@@ -327,6 +399,9 @@ export class TravelService {
       case 'train':
         return 0.9; // Almost always suitable
 
+      case 'bus':
+        return condition === 'rainy' || condition === 'snowy' ? 0.8 : 0.85; // Some waiting outdoors
+
       case 'walk':
         if (condition === 'sunny' && temperature > 10) return 0.9;
         if (condition === 'cloudy' && temperature > 5) return 0.7;
@@ -343,7 +418,7 @@ export class TravelService {
    * Calculate energy required for a route (1-5 scale)
    */
   private calculateEnergyRequired(
-    method: 'bike' | 'train' | 'walk',
+    method: TravelMethod,
     distance: number,
     elevation: number
   ): number {
@@ -354,6 +429,7 @@ export class TravelService {
         return Math.min(5, Math.max(1, energy));
 
       case 'train':
+      case 'bus':
         return 1; // Very low energy requirement
 
       case 'walk':
@@ -421,43 +497,12 @@ export class TravelService {
   }
 
   /**
-   * Check if location is accessible by train
+   * Timetable router from the constructor options, else the shared one for
+   * the configured GTFS feed
    */
-  private isTrainAccessible(location: Location): boolean {
-    const trainAccessible = ['five-ways', 'university', 'selly-oak'];
-    return trainAccessible.some(name => 
-      location.name.toLowerCase().includes(name)
-    );
-  }
-
-  /**
-   * Get walking time to nearest train station
-   */
-  private getWalkingTimeToStation(location: Location): number {
-    // Simplified walking times to stations
-    const walkingTimes: Record<string, number> = {
-      'five-ways': 2,
-      'university': 5,
-      'selly-oak': 3
-    };
-
-    return walkingTimes[location.name.toLowerCase()] || 8;
-  }
-
-  /**
-   * Get walking time from train station to destination
-   */
-  private getWalkingTimeFromStation(location: Location): number {
-    return this.getWalkingTimeToStation(location);
-  }
-
-  /**
-   * Check for real-time train disruptions
-   */
-  private async checkTrainDisruptions(): Promise<any[]> {
-    // In a real implementation, this would call the UK transport API
-    // For now, return empty array (no disruptions)
-    return [];
+  private async getTransitRouter(): Promise<TransitRouter | null> {
+    if (this.options.transitRouter !== undefined) return this.options.transitRouter;
+    return loadTransitRouterFromEnv();
   }
 
   /**
@@ -489,10 +534,11 @@ export class TravelService {
   async getAlternativeRoutes(
     from: Location,
     to: Location,
-    disruptedMethod: 'bike' | 'train' | 'walk',
-    conditions: TravelConditions
+    disruptedMethod: TravelMethod,
+    conditions: TravelConditions,
+    preferences?: TravelPreferences
   ): Promise<TravelRoute[]> {
-    const allRoutes = await this.calculateAllRoutes(from, to, conditions);
+    const allRoutes = await this.calculateAllRoutes(from, to, conditions, preferences);
     
     // Filter out the disrupted method
     return allRoutes.filter(route => route.method !== disruptedMethod);
@@ -2,6 +2,7 @@
 // Handles expense tracking, budgeting, receipt OCR, and financial analytics
 
 import { supabase } from '../supabase/client';
+import { ingestStatement } from '../expenses/statements/ingestion';
 import type {
   UKStudentExpense,
   UKStudentBudget,
@@ -596,16 +597,33 @@ export class UKFinanceService implements UKFinanceServiceInterface {
   async parseUKBankStatement(file: File, bankType: UKBankType): Promise<Transaction[]> {
     try {
       const text = await file.text();
-      
+      const statement = await ingestStatement(text, {
+        fileName: file.name,
+        accountKey: bankType,
+        userCountry: 'UK',
+        defaultCurrency: 'GBP'
+      });
+
+      if (statement.format) {
+        return statement.transactions.map(tx => ({
+          date: new Date(`${tx.date}T00:00:00`),
+          description: tx.description,
+          amount: tx.amount,
+          balance: tx.balance,
+          // The bank's own category where the statement has one
+          category: tx.bankCategory ?? tx.categorization.categoryName,
+          reference: tx.reference
+        }));
+      }
+
+      // Text layouts the ingestion pipeline doesn't read
       switch (bankType) {
-        case 'monzo':
-          return this.parseMonzoStatement(text);
         case 'iq-prepaid':
           return this.parseIQPrepaidStatement(text);
         case 'icici-uk':
           return this.parseICICIUKStatement(text);
         default:
-          return this.parseGenericStatement(text);
+          throw new Error(statement.errors.join('; '));
       }
     } catch (error) {
       console.error('Error parsing bank statement:', error);
@@ -1192,31 +1210,7 @@ export class UKFinanceService implements UKFinanceServiceInterface {
     return trendData.sort((a, b) => a.date.getTime() - b.date.getTime());
   }
 
-  // Bank statement parsers
-  private parseMonzoStatement(text: string): Transaction[] {
-    const lines = text.split('\n').slice(1); // Skip header
-    const transactions: Transaction[] = [];
-
-    for (const line of lines) {
-      const parts = line.split(',');
-      if (parts.length >= 4) {
-        try {
-          transactions.push({
-            date: new Date(parts[0]),
-            description: parts[1],
-            amount: Math.abs(parseFloat(parts[2])),
-            balance: parseFloat(parts[3]),
-            category: parts[4] || undefined
-          });
-        } catch (error) {
-          console.warn('Failed to parse Monzo transaction line:', line);
-        }
-      }
-    }
-
-    return transactions;
-  }
-
+  // Text statement layouts the ingestion pipeline doesn't read
   private parseIQPrepaidStatement(text: string): Transaction[] {
     // IQ Prepaid specific parsing logic
     const lines = text.split('\n');
@@ -1269,29 +1263,6 @@ export class UKFinanceService implements UKFinanceServiceInterface {
     return transactions;
   }
 
-  private parseGenericStatement(text: string): Transaction[] {
-    // Generic CSV parsing
-    const lines = text.split('\n').slice(1); // Skip header
-    const transactions: Transaction[] = [];
-
-    for (const line of lines) {
-      const parts = line.split(',');
-      if (parts.length >= 3) {
-        try {
-          transactions.push({
-            date: new Date(parts[0]),
-            description: parts[1],
-            amount: Math.abs(parseFloat(parts[2]))
-          });
-        } catch (error) {
-          console.warn('Failed to parse generic transaction line:', line);
-        }
-      }
-    }
-
-    return transactions;
-  }
-
   // Database mapping functions
   private mapDatabaseExpenseToType(data: any): UKStudentExpense {
     return {
@@ -0,0 +1,8 @@
+// src/lib/utils/json-response.ts - JSON responses for API routes
+
+export function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -2,6 +2,8 @@
 import type { APIRoute } from 'astro';
 import { GeminiLifeAgent } from '../../../lib/intelligence/gemini-life-agent';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
     const serverAuth = createServerAuth(cookies);
@@ -22,7 +24,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     console.log(`💬 Chat initiated with user ${user.id}`);
 
     // Initialize AI agent
-    const agent = new GeminiLifeAgent(cookies, user.id, process.env.GOOGLE_API_KEY!);
+    const agent = new GeminiLifeAgent(cookies, user.id, billedProvider(getLLMProvider(), user.id, 'AI chat'));
     
     // Get chat response
     const result = await agent.chat(message);
@@ -2,21 +2,21 @@
 import type { APIRoute } from 'astro';
 import { GeminiLifeAgent } from '../../../lib/intelligence/gemini-life-agent';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider, isLLMConfigured } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const GET: APIRoute = async ({ cookies }) => {
   try {
     const serverAuth = createServerAuth(cookies);
     const user = await serverAuth.requireAuth();
 
-    // Get Gemini API key from environment
-    const geminiApiKey = import.meta.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-    
-    if (!geminiApiKey) {
-      throw new Error('Gemini API key not configured');
+    // LLM_PROVIDER and its credentials come from the environment
+    if (!isLLMConfigured()) {
+      throw new Error('AI provider not configured');
     }
 
     // Initialize the advanced Gemini life agent
-    const agent = new GeminiLifeAgent(cookies, user.id, geminiApiKey);
+    const agent = new GeminiLifeAgent(cookies, user.id, billedProvider(getLLMProvider(), user.id, 'AI daily briefing'));
     
     // Generate comprehensive daily briefing with AI
     const briefing = await agent.generateDailyBriefing();
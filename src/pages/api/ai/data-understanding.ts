@@ -1,6 +1,8 @@
 // API endpoint for data understanding and quality analysis
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 import { generateDataUnderstandingReport, getDataInsights } from '../../../lib/intelligence/data-understanding-engine';
 import { preprocessUserData } from '../../../lib/intelligence/data-preprocessor';
 
@@ -15,16 +17,17 @@ export const GET: APIRoute = async ({ request, cookies }) => {
     
 
     console.log(`🧠 Data understanding request: ${action} for user ${user.id}`);
+    const llm = billedProvider(getLLMProvider(), user.id, 'AI data understanding');
 
     let result;
 
     switch (action) {
       case 'full_report':
-        result = await generateDataUnderstandingReport(user.id);
+        result = await generateDataUnderstandingReport(user.id, llm);
         break;
         
       case 'insights':
-        result = await getDataInsights(user.id);
+        result = await getDataInsights(user.id, llm);
         break;
         
       case 'preprocess':
@@ -32,7 +35,7 @@ export const GET: APIRoute = async ({ request, cookies }) => {
         break;
         
       case 'quality_check':
-        const report = await generateDataUnderstandingReport(user.id);
+        const report = await generateDataUnderstandingReport(user.id, llm);
         result = {
           quality_score: report.qualityReport.overall_score,
           completeness: report.qualityReport.completeness,
@@ -80,6 +83,9 @@ export const GET: APIRoute = async ({ request, cookies }) => {
 };
 
 export const POST: APIRoute = async ({ request, cookies }) => {
+    const serverAuth = createServerAuth(cookies);
+    const user = await serverAuth.requireAuth();
+    const supabase = serverAuth.supabase;
   try {
     const body = await request.json();
     const { action, options = {} } = body;
@@ -88,13 +94,14 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     
 
     console.log(`🔄 Data understanding POST request: ${action} for user ${user.id}`);
+    const llm = billedProvider(getLLMProvider(), user.id, 'AI data understanding');
 
     let result;
 
     switch (action) {
       case 'analyze_patterns':
         // Analyze specific patterns based on provided options
-        const insights = await getDataInsights(user.id);
+        const insights = await getDataInsights(user.id, llm);
         result = {
           patterns: insights.patterns.filter(p => 
             !options.pattern_types || options.pattern_types.includes(p.type)
@@ -109,7 +116,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         
       case 'data_quality_improvement':
         // Get specific recommendations for data quality improvement
-        const report = await generateDataUnderstandingReport(user.id);
+        const report = await generateDataUnderstandingReport(user.id, llm);
         result = {
           current_score: report.qualityReport.overall_score,
           improvement_plan: report.qualityReport.recommendations,
@@ -125,7 +132,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         
       case 'correlation_analysis':
         // Deep dive into correlations between specific domains
-        const correlationData = await getDataInsights(user.id);
+        const correlationData = await getDataInsights(user.id, llm);
         result = {
           correlations: correlationData.correlations,
           strength_analysis: correlationData.correlations.map(c => ({
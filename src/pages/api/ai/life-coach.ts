@@ -1,6 +1,8 @@
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
 import { GeminiLifeAgent } from '../../../lib/intelligence/gemini-life-agent';
+import { getLLMProvider, isLLMConfigured } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
@@ -9,15 +11,13 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     
     const { message } = await request.json();
 
-    // Get Gemini API key from environment
-    const geminiApiKey = import.meta.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-    
-    if (!geminiApiKey) {
-      throw new Error('Gemini API key not configured');
+    // LLM_PROVIDER and its credentials come from the environment
+    if (!isLLMConfigured()) {
+      throw new Error('AI provider not configured');
     }
 
     // Initialize the advanced Gemini life agent
-    const agent = new GeminiLifeAgent(cookies, user.id, geminiApiKey);
+    const agent = new GeminiLifeAgent(cookies, user.id, billedProvider(getLLMProvider(), user.id, 'AI life coach'));
     
     // Get intelligent AI response
     const response = await agent.chat(message);
@@ -30,15 +30,15 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     console.error('Life coach error:', error);
     
     // Enhanced fallback with more helpful information
-    const fallbackMessage = error.message.includes('API key') 
-      ? "I need to be configured with a Gemini API key to provide intelligent responses. For now, I can help with basic task and habit management."
+    const fallbackMessage = error.message.includes('not configured') 
+      ? "I need an AI provider to be configured to provide intelligent responses. For now, I can help with basic task and habit management."
       : "I'm having some trouble with my advanced AI right now, but I'm still here to help! Try asking about your tasks, habits, UK move planning, or energy management.";
       
     return new Response(JSON.stringify({ 
       error: error.message,
       response: fallbackMessage
     }), { 
-      status: error.message.includes('API key') ? 503 : 500,
+      status: error.message.includes('not configured') ? 503 : 500,
       headers: { 'Content-Type': 'application/json' }
     });
   }
@@ -1,6 +1,8 @@
 import type { APIRoute } from 'astro';
 import { runLifeOptimizer } from '../../../agentic-life-optimizer';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 // This endpoint can be triggered by a cron job (e.g., on Vercel or Render)
 // to run the proactive life optimization agent periodically.
@@ -15,7 +17,7 @@ export const GET: APIRoute = async ({ request, cookies }) => {
     // For now, we assume a generic run.
     console.log("Life optimization cron job triggered.");
 
-    const result = await runLifeOptimizer();
+    const result = await runLifeOptimizer(user.id, billedProvider(getLLMProvider(), user.id, 'AI life optimization'));
 
     return new Response(JSON.stringify({
       success: true,
@@ -4,6 +4,8 @@
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
 import { optimizedAIChat } from '../../../lib/intelligence/performance-optimizer';
+import { getLLMProvider, isLLMConfigured } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   const startTime = Date.now();
@@ -40,10 +42,9 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     const rateLimitWindow = 60 * 1000; // 1 minute
     const maxRequestsPerWindow = 10;
 
-    // Get API key from environment
-    const apiKey = import.meta.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error('GEMINI_API_KEY not configured');
+    // LLM_PROVIDER and its credentials come from the environment
+    if (!isLLMConfigured()) {
+      console.error('AI provider not configured');
       return new Response(JSON.stringify({ 
         success: false, 
         error: 'AI service not available' 
@@ -61,8 +62,8 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       cookies,
       user.id,
       message,
-      apiKey,
-      enableStreaming
+      enableStreaming,
+      billedProvider(getLLMProvider(), user.id, 'AI chat')
     );
 
     const totalTime = Date.now() - startTime;
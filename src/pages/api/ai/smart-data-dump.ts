@@ -1,7 +1,8 @@
 // Smart Data Dumping API - Let Rahul "yap" his data and AI will structure it
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { GEMINI_PRO_MODEL, getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 import { z } from 'zod';
 
 // Enhanced schemas for Rahul's specific data types
@@ -66,12 +67,6 @@ const DataDumpSchema = z.object({
   })).optional()
 });
 
-const llm = new ChatGoogleGenerativeAI({
-  model: 'gemini-1.5-pro',
-  temperature: 0.1,
-  apiKey: process.env.GEMINI_API_KEY,
-});
-
 export const POST: APIRoute = async ({ request, cookies }) => {
     const serverAuth = createServerAuth(cookies);
     const user = await serverAuth.requireAuth();
@@ -134,11 +129,17 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
     `;
 
-    const response = await llm.invoke(prompt);
+    const response = await billedProvider(getLLMProvider(), user.id, 'AI smart data dump').complete({
+      prompt,
+      temperature: 0.1,
+      json: true,
+      model: GEMINI_PRO_MODEL,
+      purpose: 'smart_data_dump',
+    });
     let parsedData;
     
     try {
-      parsedData = JSON.parse(response.content as string);
+      parsedData = JSON.parse(response.text);
       // Validate with Zod
       const validatedData = DataDumpSchema.parse(parsedData);
       
@@ -166,7 +167,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         success: false,
         error: 'Parsing failed, used fallback extraction',
         fallback_data: fallbackData,
-        raw_response: response.content
+        raw_response: response.text
       }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' }
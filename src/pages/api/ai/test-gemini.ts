@@ -2,35 +2,37 @@
 import type { APIRoute } from 'astro';
 import { GeminiLifeAgent } from '../../../lib/intelligence/gemini-life-agent';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider, isLLMConfigured } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const GET: APIRoute = async ({ cookies }) => {
   try {
     const serverAuth = createServerAuth(cookies);
     const user = await serverAuth.requireAuth();
 
-    // Get Gemini API key
-    const geminiApiKey = import.meta.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-    
-    if (!geminiApiKey) {
+    if (!isLLMConfigured()) {
       return new Response(JSON.stringify({
         success: false,
-        error: 'Gemini API key not configured',
-        message: 'Please add GEMINI_API_KEY to your .env file'
+        error: 'AI provider not configured',
+        message: 'Please set LLM_PROVIDER (and GEMINI_API_KEY or LLM_BASE_URL) in your .env file'
       }), {
         headers: { 'Content-Type': 'application/json' },
         status: 503
       });
     }
 
-    // Test basic Gemini functionality
-    const agent = new GeminiLifeAgent(cookies, user.id, geminiApiKey);
+    // Test basic agent functionality against the configured provider
+    const llm = billedProvider(getLLMProvider(), user.id, 'AI connection test');
+    const agent = new GeminiLifeAgent(cookies, user.id, llm);
     
     const testMessage = "Hi! Can you analyze my current situation and help me prioritize my day?";
     const response = await agent.chat(testMessage);
 
     return new Response(JSON.stringify({
       success: true,
-      message: 'Gemini AI agent is working correctly',
+      message: 'AI agent is working correctly',
+      provider: llm.name,
+      model: llm.model,
       test_input: testMessage,
       ai_response: response.substring(0, 500) + (response.length > 500 ? '...' : ''),
       response_length: response.length,
@@ -48,10 +50,10 @@ export const GET: APIRoute = async ({ cookies }) => {
       error: error.message,
       details: 'Gemini AI test failed',
       troubleshooting: {
-        api_key: import.meta.env.GEMINI_API_KEY ? 'Configured' : 'Missing',
+        provider_configured: isLLMConfigured(),
         error_type: error.name || 'Unknown',
-        suggestion: error.message.includes('API_KEY') ? 
-          'Check your GEMINI_API_KEY in .env file' : 
+        suggestion: error.name === 'LLMError' ? 
+          'Check LLM_PROVIDER and its credentials in your .env file' : 
           'Check your network connection and API quota'
       }
     }), {
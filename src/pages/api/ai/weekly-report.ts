@@ -2,6 +2,8 @@
 import type { APIRoute } from 'astro';
 import { GeminiLifeAgent } from '../../../lib/intelligence/gemini-life-agent';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const GET: APIRoute = async ({ cookies }) => {
     const serverAuth = createServerAuth(cookies);
@@ -11,7 +13,7 @@ export const GET: APIRoute = async ({ cookies }) => {
     
 
     // Initialize AI agent
-    const agent = new GeminiLifeAgent(cookies, user.id, process.env.GOOGLE_API_KEY!);
+    const agent = new GeminiLifeAgent(cookies, user.id, billedProvider(getLLMProvider(), user.id, 'AI weekly report'));
     
     // Generate weekly report
     const report = await agent.generateDailyBriefing();
@@ -0,0 +1,266 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { parseSeriesInput } from '../../../../lib/anchors/series-input';
+import {
+  occursOnDate,
+  parseRecurrenceRule,
+  zonedDateTimeToUtc,
+} from '../../../../lib/anchors/recurrence';
+import type { ManualAnchorSeries, RecurrenceEditScope, RecurrenceRule } from '../../../../lib/anchors/types';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseScope(value: unknown): RecurrenceEditScope | null {
+  return value === 'occurrence' || value === 'series' ? value : null;
+}
+
+async function loadSeries(supabase: any, seriesId: string, userId: string): Promise<ManualAnchorSeries | null> {
+  const { data, error } = await supabase
+    .from('manual_anchor_series')
+    .select('*')
+    .eq('id', seriesId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ManualAnchorSeries | null;
+}
+
+async function findOccurrenceOverride(supabase: any, seriesId: string, occurrenceDate: string) {
+  const { data, error } = await supabase
+    .from('manual_anchors')
+    .select('id')
+    .eq('series_id', seriesId)
+    .eq('occurrence_date', occurrenceDate)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as { id: string } | null;
+}
+
+/**
+ * PATCH /api/anchors/series/[id]
+ *
+ * Edit a recurring anchor.
+ * - scope "series": update the series itself; every non-edited occurrence follows
+ * - scope "occurrence": store an override for occurrence_date only. The override
+ *   may move the occurrence to another anchor_date or time.
+ */
+export const PATCH: APIRoute = async ({ params, request, cookies }) => {
+  try {
+    // manual_anchor_series is not in the generated Database types yet
+    const supabase: any = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const seriesId = params.id;
+    if (!seriesId) {
+      return jsonResponse({ error: 'Series ID is required' }, 400);
+    }
+
+    const body = await request.json().catch(() => null);
+    const scope = parseScope(body?.scope);
+    if (!scope) {
+      return jsonResponse({
+        error: 'Invalid scope',
+        details: 'scope must be one of: occurrence, series',
+      }, 400);
+    }
+
+    const parsed = parseSeriesInput(body, true);
+    if (!parsed.ok) {
+      return jsonResponse({ error: 'Invalid anchor series', details: parsed.error }, 400);
+    }
+
+    const series = await loadSeries(supabase, seriesId, user.id);
+    if (!series) {
+      return jsonResponse({ error: 'Series not found' }, 404);
+    }
+
+    if (scope === 'series') {
+      const { data, error } = await supabase
+        .from('manual_anchor_series')
+        .update({
+          ...parsed.value,
+          updated_at: new Date().toISOString(),
+        } as any)
+        .eq('id', seriesId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return jsonResponse({ series: data }, 200);
+    }
+
+    const occurrenceDate = body?.occurrence_date;
+    if (typeof occurrenceDate !== 'string' || !DATE_PATTERN.test(occurrenceDate)) {
+      return jsonResponse({
+        error: 'Invalid occurrence',
+        details: 'occurrence_date (YYYY-MM-DD) is required when scope is occurrence',
+      }, 400);
+    }
+
+    const anchorDate = body?.anchor_date ?? occurrenceDate;
+    if (typeof anchorDate !== 'string' || !DATE_PATTERN.test(anchorDate)) {
+      return jsonResponse({ error: 'Invalid occurrence', details: 'anchor_date must be YYYY-MM-DD' }, 400);
+    }
+
+    const existingOverride = await findOccurrenceOverride(supabase, seriesId, occurrenceDate);
+    let rule: RecurrenceRule;
+    try {
+      rule = parseRecurrenceRule(series.recurrence_rule, series.start_date);
+    } catch (error) {
+      return jsonResponse({
+        error: 'Invalid recurrence rule',
+        details: error instanceof Error ? error.message : String(error),
+      }, 400);
+    }
+    if (!existingOverride && !occursOnDate(rule, series.start_date, occurrenceDate, series.exdates || [])) {
+      return jsonResponse({
+        error: 'Invalid occurrence',
+        details: `Series does not occur on ${occurrenceDate}`,
+      }, 400);
+    }
+
+    const merged = { ...series, ...parsed.value };
+    const start = zonedDateTimeToUtc(anchorDate, merged.start_local_time, merged.timezone);
+    const end = new Date(start.getTime() + merged.duration_minutes * 60000);
+
+    const overrideRow = {
+      user_id: user.id,
+      series_id: seriesId,
+      occurrence_date: occurrenceDate,
+      anchor_date: anchorDate,
+      title: merged.title,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      location: merged.location,
+      anchor_type: merged.anchor_type,
+      must_attend: merged.must_attend,
+      notes: merged.notes,
+    };
+
+    const { data, error } = existingOverride
+      ? await supabase
+          .from('manual_anchors')
+          .update({ ...overrideRow, updated_at: new Date().toISOString() } as any)
+          .eq('id', existingOverride.id)
+          .select()
+          .single()
+      : await supabase
+          .from('manual_anchors')
+          .insert(overrideRow as any)
+          .select()
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return jsonResponse({ occurrence: data }, 200);
+  } catch (error) {
+    console.error('Error updating anchor series:', error);
+    return jsonResponse({
+      error: 'Failed to update anchor series',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+};
+
+/**
+ * DELETE /api/anchors/series/[id]?scope=series|occurrence&date=YYYY-MM-DD
+ *
+ * - scope "series": delete the series and all of its occurrence overrides
+ * - scope "occurrence": exclude one date from the series (adds an EXDATE)
+ */
+export const DELETE: APIRoute = async ({ params, url, cookies }) => {
+  try {
+    // manual_anchor_series is not in the generated Database types yet
+    const supabase: any = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const seriesId = params.id;
+    if (!seriesId) {
+      return jsonResponse({ error: 'Series ID is required' }, 400);
+    }
+
+    const scope = parseScope(url.searchParams.get('scope') ?? 'series');
+    if (!scope) {
+      return jsonResponse({
+        error: 'Invalid scope',
+        details: 'scope must be one of: occurrence, series',
+      }, 400);
+    }
+
+    const series = await loadSeries(supabase, seriesId, user.id);
+    if (!series) {
+      return jsonResponse({ error: 'Series not found' }, 404);
+    }
+
+    if (scope === 'series') {
+      const { error } = await supabase
+        .from('manual_anchor_series')
+        .delete()
+        .eq('id', seriesId);
+
+      if (error) {
+        throw error;
+      }
+
+      return jsonResponse({ success: true }, 200);
+    }
+
+    const occurrenceDate = url.searchParams.get('date');
+    if (!occurrenceDate || !DATE_PATTERN.test(occurrenceDate)) {
+      return jsonResponse({
+        error: 'Invalid occurrence',
+        details: 'date (YYYY-MM-DD) is required when scope is occurrence',
+      }, 400);
+    }
+
+    const exdates = Array.from(new Set([...(series.exdates || []), occurrenceDate])).sort();
+    const { error: updateError } = await supabase
+      .from('manual_anchor_series')
+      .update({ exdates, updated_at: new Date().toISOString() } as any)
+      .eq('id', seriesId);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('manual_anchors')
+      .delete()
+      .eq('series_id', seriesId)
+      .eq('occurrence_date', occurrenceDate);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return jsonResponse({ success: true, exdates }, 200);
+  } catch (error) {
+    console.error('Error deleting anchor series:', error);
+    return jsonResponse({
+      error: 'Failed to delete anchor series',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+};
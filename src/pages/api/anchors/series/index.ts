@@ -0,0 +1,107 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { parseSeriesInput } from '../../../../lib/anchors/series-input';
+
+/**
+ * GET /api/anchors/series
+ *
+ * List the user's recurring manual anchor series
+ */
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('manual_anchor_series')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({ series: data || [] }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching anchor series:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch anchor series',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+/**
+ * POST /api/anchors/series
+ *
+ * Create a recurring manual anchor series, e.g. a weekly therapy session:
+ * { title, start_date, start_local_time, duration_minutes,
+ *   recurrence_rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU", timezone }
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSeriesInput(body);
+
+    if (!parsed.ok) {
+      return new Response(JSON.stringify({
+        error: 'Invalid anchor series',
+        details: parsed.error,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('manual_anchor_series')
+      .insert({
+        user_id: user.id,
+        ...parsed.value,
+      } as any)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({ series: data }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error creating anchor series:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create anchor series',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../lib/supabase/server';
+import {
+  CHAIN_REPORT_DEFAULT_WEEKS,
+  CHAIN_REPORT_MAX_WEEKS,
+  buildChainIntegrityReport,
+  getChainReportStart,
+  loadChainIntegrityHistory,
+} from '../../../lib/chains/chain-history';
+
+/**
+ * GET /api/chains/integrity-report?weeks=8
+ *
+ * Weekly chain integrity report: which steps most often break a chain, which
+ * anchor types are hardest, and the trend across weeks. Late but intact
+ * chains count as successes.
+ */
+export const GET: APIRoute = async ({ url, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const weeksParam = url.searchParams.get('weeks');
+    const weeks = weeksParam === null ? CHAIN_REPORT_DEFAULT_WEEKS : Number(weeksParam);
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > CHAIN_REPORT_MAX_WEEKS) {
+      return new Response(JSON.stringify({
+        error: 'Invalid weeks',
+        details: `weeks must be a whole number between 1 and ${CHAIN_REPORT_MAX_WEEKS}`,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date();
+    const records = await loadChainIntegrityHistory(supabase, user.id, getChainReportStart(now, weeks));
+    const report = buildChainIntegrityReport(records, now, weeks);
+
+    return new Response(JSON.stringify({ report }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error building chain integrity report:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to build chain integrity report',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
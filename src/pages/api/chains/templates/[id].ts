@@ -0,0 +1,133 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { parseUserChainTemplate } from '../../../../lib/chains/user-templates';
+import { getUserChainTemplates, saveUserChainTemplates } from '../../../../lib/chains/user-template-store';
+
+/**
+ * PUT /api/chains/templates/[id]
+ *
+ * Save a template: rename, replace steps, or change bindings.
+ * Fields left out of the body keep their saved values.
+ */
+export const PUT: APIRoute = async ({ params, request, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templateId = params.id;
+    if (!templateId) {
+      return new Response(JSON.stringify({ error: 'Template ID is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templates = await getUserChainTemplates(supabase, user.id);
+    const index = templates.findIndex((template) => template.id === templateId);
+    if (index < 0) {
+      return new Response(JSON.stringify({ error: 'Template not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const existing = templates[index];
+    const parsed = parseUserChainTemplate({
+      ...existing,
+      name: body.name ?? existing.name,
+      steps: body.steps ?? existing.steps,
+      bindings: body.bindings ?? existing.bindings,
+      id: existing.id,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (!parsed.ok) {
+      return new Response(JSON.stringify({
+        error: 'Invalid chain template',
+        details: parsed.error,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const nextTemplates = [...templates];
+    nextTemplates[index] = parsed.template;
+    await saveUserChainTemplates(supabase, user.id, nextTemplates);
+
+    return new Response(JSON.stringify({ template: parsed.template }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error updating chain template:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to update chain template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+/**
+ * DELETE /api/chains/templates/[id]
+ *
+ * Remove a saved template. Anchors it was bound to fall back to the built-in
+ * template for their type on the next plan generation.
+ */
+export const DELETE: APIRoute = async ({ params, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templates = await getUserChainTemplates(supabase, user.id);
+    const nextTemplates = templates.filter((template) => template.id !== params.id);
+
+    if (nextTemplates.length === templates.length) {
+      return new Response(JSON.stringify({ error: 'Template not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await saveUserChainTemplates(supabase, user.id, nextTemplates);
+
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error deleting chain template:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to delete chain template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
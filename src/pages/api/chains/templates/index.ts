@@ -0,0 +1,130 @@
+import type { APIRoute } from 'astro';
+import { v4 as uuidv4 } from 'uuid';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { CHAIN_TEMPLATES } from '../../../../lib/chains/templates';
+import {
+  cloneChainTemplate,
+  isBuiltInTemplateId,
+  parseUserChainTemplate,
+} from '../../../../lib/chains/user-templates';
+import { getUserChainTemplates, saveUserChainTemplates } from '../../../../lib/chains/user-template-store';
+
+/**
+ * GET /api/chains/templates
+ *
+ * List the user's saved chain templates alongside the built-in ones
+ * (built-ins are returned so the UI can offer them as clone sources).
+ */
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templates = await getUserChainTemplates(supabase, user.id);
+
+    return new Response(JSON.stringify({ templates, built_in: CHAIN_TEMPLATES }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching chain templates:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch chain templates',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+/**
+ * POST /api/chains/templates
+ *
+ * Create a named chain template.
+ * Body: { name, steps?, bindings?, clone_from? }
+ * - clone_from: built-in anchor type ("class", "appointment", ...) or a saved template id.
+ *   Steps are copied from the source unless steps are also given.
+ */
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const templates = await getUserChainTemplates(supabase, user.id);
+    const id = uuidv4();
+    let draft: Record<string, unknown> = { ...body, id };
+
+    if (body.clone_from !== undefined) {
+      const source = isBuiltInTemplateId(body.clone_from)
+        ? body.clone_from
+        : templates.find((template) => template.id === body.clone_from);
+
+      if (!source) {
+        return new Response(JSON.stringify({
+          error: 'Template not found',
+          details: `No built-in or saved template "${body.clone_from}" to clone from`,
+        }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+
+      const clone = cloneChainTemplate(source, id, typeof body.name === 'string' ? body.name : '');
+      draft = {
+        ...clone,
+        steps: Array.isArray(body.steps) ? body.steps : clone.steps,
+        bindings: body.bindings ?? clone.bindings,
+      };
+    }
+
+    const parsed = parseUserChainTemplate({ ...draft, updated_at: new Date().toISOString() });
+    if (!parsed.ok) {
+      return new Response(JSON.stringify({
+        error: 'Invalid chain template',
+        details: parsed.error,
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    await saveUserChainTemplates(supabase, user.id, [...templates, parsed.template]);
+
+    return new Response(JSON.stringify({ template: parsed.template }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error creating chain template:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to create chain template',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
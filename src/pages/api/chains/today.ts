@@ -1,6 +1,7 @@
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../lib/supabase/server';
 import { anchorService } from '../../../lib/anchors/anchor-service';
+import { placeService } from '../../../lib/places/place-service';
 import { chainGenerator } from '../../../lib/chains/chain-generator';
 import { wakeRampGenerator } from '../../../lib/chains/wake-ramp';
 import { LocationStateTracker } from '../../../lib/chains/location-state';
@@ -102,7 +103,8 @@ export const GET: APIRoute = async ({ request, cookies }) => {
       });
     }
 
-    // Parse current location (default to Birmingham city center)
+    // Parse current location (default to the saved home, else Birmingham city center)
+    const travelSetup = await placeService.getTravelSetup(supabase, user.id);
     let currentLocation: Location;
     if (currentLocationParam) {
       try {
@@ -116,6 +118,8 @@ export const GET: APIRoute = async ({ request, cookies }) => {
           headers: { 'Content-Type': 'application/json' }
         });
       }
+    } else if (travelSetup.home) {
+      currentLocation = travelSetup.home;
     } else {
       currentLocation = {
         name: 'Home',
@@ -158,6 +162,7 @@ export const GET: APIRoute = async ({ request, cookies }) => {
         date,
         config: {
           currentLocation,
+          travelPreferences: travelSetup.preferences,
           userEnergy: energyParam === 'low' ? 2 : energyParam === 'high' ? 4 : 3,
         }
       });
@@ -1,7 +1,8 @@
 // Serializd Content Analysis - Understanding Rahul's taste from 400+ reviews and 490+ shows
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 interface ContentAnalysis {
   taste_profile: {
@@ -42,12 +43,6 @@ interface ContentAnalysis {
   };
 }
 
-const llm = new ChatGoogleGenerativeAI({
-  model: 'gemini-1.5-pro',
-  temperature: 0.2,
-  apiKey: process.env.GEMINI_API_KEY,
-});
-
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
     const serverAuth = createServerAuth(cookies);
@@ -58,20 +53,21 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
     console.log('🎬 Analyzing Serializd data for content recommendations...');
 
+    const llm = billedProvider(getLLMProvider(), user.id, 'AI content analysis');
     let analysis: ContentAnalysis;
 
     switch (analysis_type) {
       case 'full_analysis':
-        analysis = await performFullContentAnalysis(serializd_data);
+        analysis = await performFullContentAnalysis(serializd_data, llm);
         break;
       case 'taste_profile':
-        analysis = await analyzeTasteProfile(serializd_data);
+        analysis = await analyzeTasteProfile(serializd_data, llm);
         break;
       case 'recommendations':
-        analysis = await generateRecommendations(serializd_data);
+        analysis = await generateRecommendations(serializd_data, llm);
         break;
       default:
-        analysis = await performFullContentAnalysis(serializd_data);
+        analysis = await performFullContentAnalysis(serializd_data, llm);
     }
 
     // Store analysis results
@@ -101,7 +97,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 };
 
 // Perform comprehensive content analysis
-async function performFullContentAnalysis(serializdData: string): Promise<ContentAnalysis> {
+async function performFullContentAnalysis(serializdData: string, llm: LLMProvider): Promise<ContentAnalysis> {
   const prompt = `
   You are analyzing Rahul's complete Serializd data (400+ reviews, 490+ shows) to understand his content consumption patterns and preferences.
 
@@ -187,10 +183,16 @@ async function performFullContentAnalysis(serializdData: string): Promise<Conten
   Be thorough and insightful. This analysis will drive his content recommendations for months.
   `;
 
-  const response = await llm.invoke(prompt);
+  const response = await llm.complete({
+    prompt,
+    temperature: 0.2,
+    json: true,
+    model: GEMINI_PRO_MODEL,
+    purpose: 'content_analysis',
+  });
   
   try {
-    return JSON.parse(response.content as string);
+    return JSON.parse(response.text);
   } catch (error) {
     console.error('Failed to parse content analysis:', error);
     // Return a basic structure if parsing fails
@@ -226,7 +228,7 @@ async function performFullContentAnalysis(serializdData: string): Promise<Conten
 }
 
 // Analyze taste profile specifically
-async function analyzeTasteProfile(serializdData: string): Promise<ContentAnalysis> {
+async function analyzeTasteProfile(serializdData: string, llm: LLMProvider): Promise<ContentAnalysis> {
   const prompt = `
   Focus specifically on understanding Rahul's taste profile from his Serializd data.
 
@@ -242,10 +244,16 @@ async function analyzeTasteProfile(serializdData: string): Promise<ContentAnalys
   Return focused analysis on taste profile only.
   `;
 
-  const response = await llm.invoke(prompt);
+  const response = await llm.complete({
+    prompt,
+    temperature: 0.2,
+    json: true,
+    model: GEMINI_PRO_MODEL,
+    purpose: 'content_taste_profile',
+  });
   
   try {
-    const tasteData = JSON.parse(response.content as string);
+    const tasteData = JSON.parse(response.text);
     return {
       taste_profile: tasteData,
       viewing_patterns: {
@@ -266,12 +274,12 @@ async function analyzeTasteProfile(serializdData: string): Promise<ContentAnalys
     };
   } catch (error) {
     console.error('Failed to parse taste profile:', error);
-    return await performFullContentAnalysis(serializdData);
+    return await performFullContentAnalysis(serializdData, llm);
   }
 }
 
 // Generate recommendations based on existing data
-async function generateRecommendations(serializdData: string): Promise<ContentAnalysis> {
+async function generateRecommendations(serializdData: string, llm: LLMProvider): Promise<ContentAnalysis> {
   const prompt = `
   Based on Rahul's Serializd data, generate specific content recommendations.
 
@@ -292,10 +300,16 @@ async function generateRecommendations(serializdData: string): Promise<ContentAn
   Focus on actionable recommendations with clear reasoning.
   `;
 
-  const response = await llm.invoke(prompt);
+  const response = await llm.complete({
+    prompt,
+    temperature: 0.2,
+    json: true,
+    model: GEMINI_PRO_MODEL,
+    purpose: 'content_recommendations',
+  });
   
   try {
-    const recData = JSON.parse(response.content as string);
+    const recData = JSON.parse(response.text);
     return {
       taste_profile: {
         preferred_genres: [],
@@ -323,7 +337,7 @@ async function generateRecommendations(serializdData: string): Promise<ContentAn
     };
   } catch (error) {
     console.error('Failed to parse recommendations:', error);
-    return await performFullContentAnalysis(serializdData);
+    return await performFullContentAnalysis(serializdData, llm);
   }
 }
 
@@ -0,0 +1,87 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { getDailyPlan } from '../../../../lib/daily-plan/database';
+import { createPlanBuilderService } from '../../../../lib/daily-plan/plan-builder';
+
+/**
+ * POST /api/daily-plan/:id/collapse
+ * 
+ * Enter Collapse Mode: keep must-attend anchors and their required chain steps,
+ * drop everything else that is still ahead, and add recovery blocks
+ * (eat, meds, hygiene minimum, rest).
+ * 
+ * Leave Collapse Mode with POST /api/daily-plan/:id/exit-collapse
+ */
+export const POST: APIRoute = async ({ params, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { id: planId } = params;
+
+    if (!planId) {
+      return new Response(JSON.stringify({ 
+        error: 'Missing parameter',
+        details: 'planId is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Verify plan exists and belongs to user
+    const plan = await getDailyPlan(supabase, planId);
+    if (!plan) {
+      return new Response(JSON.stringify({ error: 'Plan not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (plan.userId !== user.id) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (plan.status === 'collapsed') {
+      return new Response(JSON.stringify({ 
+        error: 'Plan already collapsed',
+        details: 'This plan is already in Collapse Mode'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const planBuilderService = createPlanBuilderService(supabase);
+    const collapsedPlan = await planBuilderService.collapsePlan(planId);
+
+    return new Response(JSON.stringify({ 
+      plan: collapsedPlan,
+      message: 'Collapse Mode on. Anchors kept, recovery blocks added.'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Error collapsing plan:', error);
+    
+    return new Response(JSON.stringify({ 
+      error: 'Failed to collapse plan',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -61,6 +61,17 @@ export const POST: APIRoute = async ({ params, cookies }) => {
       });
     }
 
+    // Collapse Mode already dropped everything optional
+    if (plan.status === 'collapsed') {
+      return new Response(JSON.stringify({ 
+        error: 'Plan is in Collapse Mode',
+        details: 'Exit Collapse Mode before degrading this plan'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Degrade the plan
     // Requirement: 4.1 - Call degradation service
     const planBuilderService = createPlanBuilderService(supabase);
@@ -0,0 +1,84 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { getDailyPlan } from '../../../../lib/daily-plan/database';
+import { createPlanBuilderService } from '../../../../lib/daily-plan/plan-builder';
+
+/**
+ * POST /api/daily-plan/:id/exit-collapse
+ * 
+ * Leave Collapse Mode: restore dropped blocks that are still ahead,
+ * remove unfinished recovery blocks, and return the plan to its previous status.
+ */
+export const POST: APIRoute = async ({ params, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { id: planId } = params;
+
+    if (!planId) {
+      return new Response(JSON.stringify({ 
+        error: 'Missing parameter',
+        details: 'planId is required'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Verify plan exists and belongs to user
+    const plan = await getDailyPlan(supabase, planId);
+    if (!plan) {
+      return new Response(JSON.stringify({ error: 'Plan not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (plan.userId !== user.id) {
+      return new Response(JSON.stringify({ error: 'Forbidden' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (plan.status !== 'collapsed') {
+      return new Response(JSON.stringify({ 
+        error: 'Plan not collapsed',
+        details: 'This plan is not in Collapse Mode'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const planBuilderService = createPlanBuilderService(supabase);
+    const restoredPlan = await planBuilderService.exitCollapseMode(planId);
+
+    return new Response(JSON.stringify({ 
+      plan: restoredPlan,
+      message: 'Collapse Mode off. Remaining plan restored.'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Error exiting Collapse Mode:', error);
+    
+    return new Response(JSON.stringify({ 
+      error: 'Failed to exit Collapse Mode',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
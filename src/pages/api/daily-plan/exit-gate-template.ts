@@ -1,55 +1,16 @@
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../lib/supabase/server';
-import { DEFAULT_GATE_CONDITIONS } from '../../../lib/chains/exit-gate';
-
-type GateCondition = {
-  id: string;
-  name: string;
-  satisfied: boolean;
-};
-
-function normalizeGateConditions(rawConditions: unknown): GateCondition[] {
-  if (!Array.isArray(rawConditions)) {
-    return DEFAULT_GATE_CONDITIONS.map((condition) => ({ ...condition }));
-  }
-
-  const parsed = rawConditions
-    .map((value) => {
-      if (!value || typeof value !== 'object') return null;
-      const record = value as Record<string, unknown>;
-      const id = typeof record.id === 'string' ? record.id : null;
-      if (!id) return null;
-
-      const fallbackName = DEFAULT_GATE_CONDITIONS.find((condition) => condition.id === id)?.name || id;
-
-      return {
-        id,
-        name: typeof record.name === 'string' ? record.name : fallbackName,
-        satisfied: Boolean(record.satisfied),
-      } as GateCondition;
-    })
-    .filter((condition): condition is GateCondition => Boolean(condition));
-
-  // Preserve only what user saved when array is provided (supports delete/removal).
-  // Deduplicate by id while preserving last-write.
-  const map = new Map<string, GateCondition>();
-  for (const condition of parsed) {
-    map.set(condition.id, condition);
-  }
-  return Array.from(map.values());
-}
-
-function getTemplateFromPreferences(preferences: unknown): GateCondition[] {
-  const record = (preferences && typeof preferences === 'object')
-    ? (preferences as Record<string, unknown>)
-    : {};
-  const template = (record.exit_gate_template && typeof record.exit_gate_template === 'object')
-    ? (record.exit_gate_template as Record<string, unknown>)
-    : {};
-
-  return normalizeGateConditions(template.gate_conditions);
-}
-
+import {
+  getExitGateTemplateFromPreferences,
+  parseExitGateVariants,
+  parseGateConditionList,
+} from '../../../lib/chains/exit-gate';
+
+/**
+ * GET /api/daily-plan/exit-gate-template
+ *
+ * Returns the base checklist and per-anchor-type variants.
+ */
 export const GET: APIRoute = async ({ cookies }) => {
   try {
     const supabase = createServerClient(cookies);
@@ -72,9 +33,9 @@ export const GET: APIRoute = async ({ cookies }) => {
       throw error;
     }
 
-    const gateConditions = getTemplateFromPreferences(data?.preferences);
+    const template = getExitGateTemplateFromPreferences(data?.preferences);
 
-    return new Response(JSON.stringify({ gate_conditions: gateConditions }), {
+    return new Response(JSON.stringify(template), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -90,6 +51,14 @@ export const GET: APIRoute = async ({ cookies }) => {
   }
 };
 
+/**
+ * PUT /api/daily-plan/exit-gate-template
+ *
+ * Body: { gate_conditions?, variants? }
+ * - variants: { [anchor_type]: { add: GateCondition[], remove: string[] } },
+ *   e.g. { class: { add: [{ id: 'laptop', name: 'Laptop' }] } }
+ * Whichever part is left out keeps its saved value.
+ */
 export const PUT: APIRoute = async ({ request, cookies }) => {
   try {
     const supabase = createServerClient(cookies);
@@ -103,7 +72,6 @@ export const PUT: APIRoute = async ({ request, cookies }) => {
     }
 
     const body = await request.json().catch(() => null);
-    const gateConditions = normalizeGateConditions(body?.gate_conditions);
 
     const { data: existing, error: existingError } = await supabase
       .from('user_preferences')
@@ -120,10 +88,20 @@ export const PUT: APIRoute = async ({ request, cookies }) => {
         ? (existing.preferences as Record<string, unknown>)
         : {};
 
+    const existingTemplate = getExitGateTemplateFromPreferences(existingPreferences);
+    const template = {
+      gate_conditions: Array.isArray(body?.gate_conditions)
+        ? parseGateConditionList(body.gate_conditions)
+        : existingTemplate.gate_conditions,
+      variants: body?.variants !== undefined
+        ? parseExitGateVariants(body.variants)
+        : existingTemplate.variants,
+    };
+
     const nextPreferences = {
       ...existingPreferences,
       exit_gate_template: {
-        gate_conditions: gateConditions,
+        ...template,
         updated_at: new Date().toISOString(),
       },
     };
@@ -143,7 +121,7 @@ export const PUT: APIRoute = async ({ request, cookies }) => {
       throw upsertError;
     }
 
-    return new Response(JSON.stringify({ gate_conditions: gateConditions }), {
+    return new Response(JSON.stringify(template), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -2,6 +2,10 @@ import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../lib/supabase/server';
 import { createPlanBuilderService } from '../../../lib/daily-plan/plan-builder';
 import { AnchorService } from '../../../lib/anchors/anchor-service';
+import { toZonedDateTime } from '../../../lib/anchors/recurrence';
+import { parseSeriesInput } from '../../../lib/anchors/series-input';
+import { resolveWakeTimeForPlan } from '../../../lib/daily-plan/wake-time';
+import { recordChainIntegrity, recordEarlierPlansIntegrity } from '../../../lib/chains/chain-history';
 import {
   deleteDailyPlan,
   deleteExitTimesByPlan,
@@ -20,6 +24,10 @@ import type { Location } from '../../../types/uk-student-travel';
  * 
  * Requirement 8.4: Accept wake time from form and use planStart = max(wakeTime, now)
  * The plan builder handles the planStart calculation internally.
+ *
+ * Unless wakeTimeSource is 'manual', the wake time is resolved from sleep
+ * notes, fitness tracker sleep and the first app interaction
+ * (firstInteractionAt), falling back to the submitted default.
  */
 export const POST: APIRoute = async ({ request, cookies }) => {
   let requestPlanDate = new Date();
@@ -112,7 +120,16 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       const allowedAnchorTypes = ['class', 'seminar', 'workshop', 'appointment', 'other'];
       const anchorType = allowedAnchorTypes.includes(anchorTypeRaw) ? anchorTypeRaw : 'other';
 
+      let recurrence: { rule: string; timezone: string } | null = null;
+      if (typeof manualAnchor.recurrence_rule === 'string' && manualAnchor.recurrence_rule.trim()) {
+        recurrence = {
+          rule: manualAnchor.recurrence_rule,
+          timezone: typeof manualAnchor.timezone === 'string' ? manualAnchor.timezone : 'Europe/London',
+        };
+      }
+
       return {
+        recurrence,
         title,
         start_time: startTime.toISOString(),
         end_time: endTime.toISOString(),
@@ -139,25 +156,79 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       });
     }
 
+    // Chains from earlier days are final now, ticked or not
+    await recordEarlierPlansIntegrity(supabase, user.id, date);
+
     // Replace existing plan for the same user/day (idempotent regenerate behavior).
+    // Chains already finished in it keep their history.
     const existingPlan = await getDailyPlanByDateWithBlocks(supabase, user.id, date);
     if (existingPlan) {
+      await recordChainIntegrity(supabase, user.id, existingPlan);
       await deleteExitTimesByPlan(supabase, existingPlan.id);
       await deleteTimeBlocksByPlan(supabase, existingPlan.id);
       await deleteDailyPlan(supabase, existingPlan.id);
     }
 
     // Optional manual anchor insertion (for no-calendar users and custom anchors).
-    if (parsedManualAnchor) {
+    if (parsedManualAnchor?.recurrence) {
+      const { recurrence, start_time, end_time, ...anchorFields } = parsedManualAnchor;
+      const startInstant = new Date(start_time);
+      const { date: startDate, time: startLocalTime } = toZonedDateTime(startInstant, recurrence.timezone);
+      const parsedSeries = parseSeriesInput({
+        ...anchorFields,
+        start_date: startDate,
+        start_local_time: startLocalTime,
+        duration_minutes: Math.round((new Date(end_time).getTime() - startInstant.getTime()) / 60000),
+        recurrence_rule: recurrence.rule,
+        timezone: recurrence.timezone,
+      });
+
+      if (!parsedSeries.ok) {
+        return new Response(JSON.stringify({
+          error: 'Invalid recurring anchor',
+          details: parsedSeries.error,
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const { data: existingSeries, error: seriesReadError } = await supabase
+        .from('manual_anchor_series')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('title', anchorFields.title)
+        .eq('start_date', startDate)
+        .eq('start_local_time', startLocalTime)
+        .maybeSingle();
+
+      if (seriesReadError) {
+        throw seriesReadError;
+      }
+
+      if (!existingSeries) {
+        const { error: seriesError } = await supabase
+          .from('manual_anchor_series')
+          .insert({
+            user_id: user.id,
+            ...parsedSeries.value,
+          } as any);
+
+        if (seriesError) {
+          throw seriesError;
+        }
+      }
+    } else if (parsedManualAnchor) {
+      const { recurrence: _recurrence, ...anchorFields } = parsedManualAnchor;
       const anchorDate = date.toISOString().split('T')[0];
       const { data: existingManualAnchor, error: manualAnchorReadError } = await supabase
         .from('manual_anchors')
         .select('id')
         .eq('user_id', user.id)
         .eq('anchor_date', anchorDate)
-        .eq('title', parsedManualAnchor.title)
-        .eq('start_time', parsedManualAnchor.start_time)
-        .eq('end_time', parsedManualAnchor.end_time)
+        .eq('title', anchorFields.title)
+        .eq('start_time', anchorFields.start_time)
+        .eq('end_time', anchorFields.end_time)
         .maybeSingle();
 
       if (manualAnchorReadError) {
@@ -170,7 +241,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
           .insert({
             user_id: user.id,
             anchor_date: anchorDate,
-            ...parsedManualAnchor,
+            ...anchorFields,
           } as any);
 
         if (manualAnchorError) {
@@ -179,34 +250,45 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       }
     }
 
+    const firstInteractionAt = typeof body.firstInteractionAt === 'string' ? new Date(body.firstInteractionAt) : null;
+    const wakeResolution = await resolveWakeTimeForPlan(supabase, user.id, date, {
+      requested: wakeTime,
+      requestedIsManual: body.wakeTimeSource === 'manual',
+      firstInteractionAt: firstInteractionAt && !Number.isNaN(firstInteractionAt.getTime()) ? firstInteractionAt : null,
+    });
+    // A detected wake time must still leave the day before sleep time
+    const resolvedWakeTime = wakeResolution.wake_time < sleepTime ? wakeResolution.wake_time : wakeTime;
+
     // Create plan input
     const planInput: PlanInput = {
       userId: user.id,
       date,
-      wakeTime,
+      wakeTime: resolvedWakeTime,
       sleepTime,
       energyState: body.energyState,
+      wakeResolution: resolvedWakeTime === wakeResolution.wake_time
+        ? {
+            source: wakeResolution.source,
+            confidence: wakeResolution.confidence,
+            explanation: wakeResolution.explanation,
+          }
+        : undefined,
     };
 
-    // Get current location (default to Birmingham city center if not provided)
+    // Get current location (the plan builder defaults to the saved home)
     const parsedCurrentLocation = body.currentLocation as Partial<Location> | undefined;
     const hasCoordinates = Array.isArray(parsedCurrentLocation?.coordinates) &&
       parsedCurrentLocation.coordinates.length === 2 &&
       parsedCurrentLocation.coordinates.every((value) => typeof value === 'number' && Number.isFinite(value));
 
-    const currentLocation: Location = hasCoordinates
+    const currentLocation: Location | undefined = hasCoordinates
       ? {
           name: parsedCurrentLocation?.name || 'Home',
           coordinates: parsedCurrentLocation!.coordinates as [number, number],
           type: parsedCurrentLocation?.type || 'home',
           address: parsedCurrentLocation?.address,
         }
-      : {
-          name: 'Home',
-          address: 'Birmingham, UK',
-          coordinates: [52.4862, -1.8904],
-          type: 'home',
-        };
+      : undefined;
 
     // Generate plan
     const planBuilderService = createPlanBuilderService(supabase);
@@ -0,0 +1,140 @@
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../lib/supabase/server';
+import {
+  getTravelProfileFromPreferences,
+  validateTravelProfile,
+} from '../../../lib/places/travel-profile';
+
+/**
+ * GET /api/daily-plan/travel-profile
+ *
+ * Returns the speeds, fares and travel methods exit times are planned with.
+ */
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data, error } = await (supabase as any)
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const profile = getTravelProfileFromPreferences(data?.preferences);
+
+    return new Response(JSON.stringify(profile), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching travel profile:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch travel profile',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
+
+/**
+ * PUT /api/daily-plan/travel-profile
+ *
+ * Body: any TravelProfile fields, e.g.
+ * { allowed_methods: ['bike', 'walk'], cycling_speed_kmh: 18, bus_fare_pence: 200 }
+ * Fields left out keep their saved value; a null fare goes back to the standard one.
+ */
+export const PUT: APIRoute = async ({ request, cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const errors = body && typeof body === 'object' && !Array.isArray(body)
+      ? validateTravelProfile(body as Record<string, unknown>)
+      : ['Body must be an object of travel profile fields'];
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid travel profile', details: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: existing, error: existingError } = await (supabase as any)
+      .from('user_preferences')
+      .select('preferences')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    const existingPreferences =
+      existing?.preferences && typeof existing.preferences === 'object'
+        ? (existing.preferences as Record<string, unknown>)
+        : {};
+
+    const profile = {
+      ...getTravelProfileFromPreferences(existingPreferences),
+      ...body,
+    };
+
+    const nextPreferences = {
+      ...existingPreferences,
+      travel_profile: {
+        ...profile,
+        updated_at: new Date().toISOString(),
+      },
+    };
+
+    const { error: upsertError } = await (supabase as any)
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: user.id,
+          preferences: nextPreferences as any,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (upsertError) {
+      throw upsertError;
+    }
+
+    return new Response(JSON.stringify(profile), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error updating travel profile:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to update travel profile',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,39 @@
+// src/pages/api/expenses/subscriptions/[id].ts - Dismiss or restore a detected subscription
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { subscriptionService } from '../../../../lib/expenses/subscription-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+/**
+ * PATCH /api/expenses/subscriptions/[id]
+ *
+ * `{ dismissed: true }` for a payment that isn't a subscription; it stays
+ * dismissed when detection runs again.
+ */
+export const PATCH: APIRoute = async ({ cookies, params, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Subscription ID is required' }, 400);
+    }
+
+    const body = (await request.json().catch(() => null)) as { dismissed?: unknown } | null;
+    if (typeof body?.dismissed !== 'boolean') {
+      return jsonResponse({ error: 'Invalid subscription update', details: ['dismissed must be true or false'] }, 400);
+    }
+
+    const subscription = await subscriptionService.setDismissed(supabase, user.id, params.id, body.dismissed);
+    if (!subscription) {
+      return jsonResponse({ error: 'Subscription not found' }, 404);
+    }
+    return jsonResponse({ subscription }, 200);
+  } catch (error: any) {
+    console.error('Subscription update error:', error);
+    return jsonResponse({ error: 'Failed to update subscription', details: error.message }, 500);
+  }
+};
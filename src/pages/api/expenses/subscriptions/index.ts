@@ -0,0 +1,65 @@
+// src/pages/api/expenses/subscriptions/index.ts - Detected subscriptions, alerts and upcoming charges
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { addDays } from '../../../../lib/expenses/subscription-detector';
+import { localDateKey, subscriptionService } from '../../../../lib/expenses/subscription-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_WINDOW_DAYS = 30;
+
+/**
+ * GET /api/expenses/subscriptions?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Subscriptions, price-increase and missed-charge alerts, and the charges
+ * expected from `from` (default today) to `to` (default 30 days after from).
+ */
+export const GET: APIRoute = async ({ cookies, url }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const from = url.searchParams.get('from') || localDateKey(new Date());
+    const to = url.searchParams.get('to') || addDays(from, DEFAULT_WINDOW_DAYS);
+    const errors: string[] = [];
+    if (!DATE_PATTERN.test(from)) errors.push('from must be YYYY-MM-DD');
+    if (!DATE_PATTERN.test(to)) errors.push('to must be YYYY-MM-DD');
+    if (errors.length === 0 && to < from) errors.push('to must not be before from');
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid date range', details: errors }, 400);
+    }
+
+    const overview = await subscriptionService.getOverview(supabase, user.id, from, to);
+    return jsonResponse({ ...overview, from, to }, 200);
+  } catch (error: any) {
+    console.error('Subscriptions error:', error);
+    return jsonResponse({ error: 'Failed to load subscriptions', details: error.message }, 500);
+  }
+};
+
+/**
+ * POST /api/expenses/subscriptions
+ *
+ * Re-run detection over imported transactions. Imports already do this; this
+ * is for after editing or deleting transactions.
+ */
+export const POST: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const subscriptions = await subscriptionService.refreshSubscriptions(supabase, user.id);
+    return jsonResponse({ subscriptions }, 200);
+  } catch (error: any) {
+    console.error('Subscription detection error:', error);
+    return jsonResponse({ error: 'Failed to detect subscriptions', details: error.message }, 500);
+  }
+};
@@ -1,8 +1,9 @@
 // src/pages/api/expenses/upload-statement.ts - Bank Statement Upload & Processing
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
-import { bankParser } from '../../../lib/expenses/bank-statement-parser';
-import { autoCategorizer } from '../../../lib/expenses/auto-categorizer';
+import { STATEMENT_FORMATS, ingestStatement } from '../../../lib/expenses/statements/ingestion';
+import { findImportedHashes } from '../../../lib/expenses/statements/imported-hashes';
+import { subscriptionService } from '../../../lib/expenses/subscription-service';
 
 export const POST: APIRoute = async ({ cookies, request }) => {
   try {
@@ -34,13 +35,31 @@ export const POST: APIRoute = async ({ cookies, request }) => {
       });
     }
 
-    // Read CSV content
-    const csvContent = await file.text();
-    
-    // Parse the statement
-    const { transactions, format, errors } = bankParser.parseCSV(csvContent);
+    // Get user settings for categorization
+    const { data: userSettings } = await serverAuth.supabase
+      .from('user_expense_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .single();
+
+    const primaryCurrency = userSettings?.primary_currency || 'USD';
+    const forcedFormat = STATEMENT_FORMATS.find(format => format.id === bankFormat)?.id;
+
+    // Parse, dedupe against earlier imports and categorize the statement
+    const statement = await ingestStatement(await file.text(), {
+      fileName: file.name,
+      format: forcedFormat,
+      accountKey: accountId || '',
+      defaultCurrency: userSettings?.primary_currency,
+      userCountry: userSettings?.country_code,
+      userSettings,
+      findExistingHashes: (hashes) => findImportedHashes(serverAuth.supabase, user.id, 'expenses', hashes),
+      findExistingMatchHashes: (hashes) =>
+        findImportedHashes(serverAuth.supabase, user.id, 'expenses', hashes, 'match_hash')
+    });
+    const { transactions, errors } = statement;
     
-    if (errors.length > 0 && transactions.length === 0) {
+    if (errors.length > 0 && transactions.length === 0 && statement.duplicatesSkipped === 0) {
       return new Response(JSON.stringify({
         success: false,
         error: 'Failed to parse statement',
@@ -51,39 +70,26 @@ export const POST: APIRoute = async ({ cookies, request }) => {
       });
     }
 
-    // Get user settings for categorization
-    const { data: userSettings } = await serverAuth.supabase
-      .from('user_expense_settings')
-      .select('*')
-      .eq('user_id', user.id)
-      .single();
-
-    const userCountry = userSettings?.country_code || 'US';
-    const primaryCurrency = userSettings?.primary_currency || 'USD';
-
     // Generate batch ID for this import
     const batchId = crypto.randomUUID();
     
     // Process transactions
     const processedTransactions = [];
+    const categoryIds = new Map<string, string | undefined>();
     
     for (const transaction of transactions) {
       try {
-        // Auto-categorize
-        const categorization = autoCategorizer.categorizeTransaction(
-          transaction.description,
-          transaction.merchant,
-          transaction.amount,
-          userCountry,
-          userSettings
-        );
+        const { categorization } = transaction;
 
         // Get category ID
-        const { data: category } = await serverAuth.supabase
-          .from('expense_categories')
-          .select('id')
-          .eq('name', categorization.categoryName)
-          .single();
+        if (!categoryIds.has(categorization.categoryName)) {
+          const { data: category } = await serverAuth.supabase
+            .from('expense_categories')
+            .select('id')
+            .eq('name', categorization.categoryName)
+            .single();
+          categoryIds.set(categorization.categoryName, category?.id);
+        }
 
         // Convert currency if needed
         let amountPrimaryCurrency = transaction.amount;
@@ -128,16 +134,18 @@ export const POST: APIRoute = async ({ cookies, request }) => {
           merchant_name: transaction.merchant,
           description: transaction.description,
           original_description: transaction.description,
-          category_id: category?.id,
+          category_id: categoryIds.get(categorization.categoryName),
           subcategory: categorization.subcategory,
           auto_categorized: true,
           confidence_score: categorization.confidence,
           amount_primary_currency: amountPrimaryCurrency,
           amount_secondary_currency: amountSecondaryCurrency,
           exchange_rate_used: exchangeRateUsed,
-          import_source: 'csv_upload',
+          import_source: statement.format === 'csv' ? 'csv_upload' : `${statement.format}_upload`,
           import_batch_id: batchId,
           original_file_name: file.name,
+          content_hash: transaction.contentHash,
+          match_hash: transaction.matchHash,
           tags: [],
           notes: errors.length > 0 ? `Import warnings: ${errors.join('; ')}` : null
         };
@@ -171,6 +179,10 @@ export const POST: APIRoute = async ({ cookies, request }) => {
       }
     }
 
+    if (insertedTransactions.length > 0) {
+      await subscriptionService.refreshAfterImport(serverAuth.supabase, user.id);
+    }
+
     // Calculate import statistics
     const totalAmount = processedTransactions.reduce((sum, tx) => 
       sum + (tx.transaction_type === 'debit' ? tx.amount_primary_currency : 0), 0
@@ -188,14 +200,16 @@ export const POST: APIRoute = async ({ cookies, request }) => {
       summary: {
         total_transactions: insertedTransactions.length,
         failed_transactions: processedTransactions.length - insertedTransactions.length,
+        duplicates_skipped: statement.duplicatesSkipped,
         total_amount: totalAmount,
         currency: primaryCurrency,
         date_range: {
           start: Math.min(...processedTransactions.map(tx => new Date(tx.transaction_date).getTime())),
           end: Math.max(...processedTransactions.map(tx => new Date(tx.transaction_date).getTime()))
         },
+        statement_period: statement.period ?? null,
         category_breakdown: categoryBreakdown,
-        bank_format: format?.name || 'Unknown',
+        bank_format: statement.layout || 'Unknown',
         import_batch_id: batchId
       },
       transactions: insertedTransactions.slice(0, 10), // Return first 10 for preview
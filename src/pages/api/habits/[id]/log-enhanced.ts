@@ -2,6 +2,7 @@
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../../lib/supabase/server';
 import { updateHabitStreak } from '../../../../lib/habits/streaks';
+import { noteParseRuleService } from '../../../../lib/habits/note-parse-rule-service';
 import { invalidateDailyContextCache } from '../../context/today';
 
 export const POST: APIRoute = async ({ request, params, cookies }) => {
@@ -32,7 +33,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
     // Ensure the habit belongs to the authenticated user before writing entries.
     const { data: ownedHabit } = await supabase
       .from('habits')
-      .select('id')
+      .select('id, name')
       .eq('id', habitId)
       .eq('user_id', user.id)
       .single();
@@ -44,6 +45,9 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
       });
     }
 
+    // Notes are parsed with the user's own rules as well as the built-in patterns
+    const parsed = await noteParseRuleService.parseEntryNote(supabase, user.id, ownedHabit, notes);
+
     // Use provided date or default to today
     const targetDate = date || new Date().toISOString().split('T')[0];
     
@@ -63,6 +67,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
         .update({
           value,
           notes: notes || null,
+          parsed,
           effort,
           duration_minutes: duration || null,
           completion_time: completion_time || null,
@@ -71,7 +76,9 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
           location: location || null,
           weather: weather || null,
           context_tags: Array.isArray(context) ? context : (typeof context === 'string' ? context.split(',').filter((c: string) => c.trim()) : []),
-          logged_at: new Date().toISOString()
+          logged_at: new Date().toISOString(),
+          // Edited in the app: rolling back the import must not undo it
+          import_batch_id: null
         })
         .eq('id', existingEntry.id)
         .select()
@@ -80,7 +87,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
       if (updateError) throw updateError;
       
       // Recalculate streak
-      await updateHabitStreak(supabase, habitId, user.id);
+      await updateHabitStreak(supabase, habitId, user.id, targetDate);
       
       // Invalidate daily context cache
       invalidateDailyContextCache(user.id);
@@ -99,6 +106,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
         user_id: user.id,
         value,
         notes: notes || null,
+        parsed,
         effort,
         duration_minutes: duration || null,
         completion_time: completion_time || null,
@@ -116,7 +124,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
     if (error) throw error;
 
     // Update streak count with skip logic
-    await updateHabitStreak(supabase, habitId, user.id);
+    await updateHabitStreak(supabase, habitId, user.id, targetDate);
 
     // Invalidate daily context cache
     invalidateDailyContextCache(user.id);
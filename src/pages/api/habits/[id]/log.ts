@@ -1,6 +1,8 @@
 // src/pages/api/habits/[id]/log.ts
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../../lib/auth/simple-multi-user';
+import { updateHabitStreak } from '../../../../lib/habits/streaks';
+import { noteParseRuleService } from '../../../../lib/habits/note-parse-rule-service';
 import { invalidateDailyContextCache } from '../../context/today';
 
 export const POST: APIRoute = async ({ request, params, cookies }) => {
@@ -18,7 +20,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
     // Ensure the habit belongs to the authenticated user before writing entries.
     const { data: ownedHabit } = await supabase
       .from('habits')
-      .select('id')
+      .select('id, name')
       .eq('id', habitId)
       .eq('user_id', user.id)
       .single();
@@ -30,6 +32,9 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
       });
     }
 
+    // Notes are parsed with the user's own rules as well as the built-in patterns
+    const parsed = await noteParseRuleService.parseEntryNote(supabase, user.id, ownedHabit, notes);
+
     // Check if already logged today
     const todayIso = new Date().toISOString().split('T')[0];
     const { data: existingEntry } = await supabase
@@ -56,6 +61,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
         user_id: user.id,
         value,
         notes,
+        parsed,
         logged_at: new Date().toISOString()
       }])
       .select()
@@ -64,7 +70,7 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
     if (error) throw error;
 
     // Update streak count
-    await updateHabitStreak(supabase, habitId, user.id);
+    await updateHabitStreak(supabase, habitId, user.id, entry.date ?? todayIso);
 
     // Invalidate daily context cache
     invalidateDailyContextCache(user.id);
@@ -92,44 +98,3 @@ export const POST: APIRoute = async ({ request, params, cookies }) => {
     });
   }
 };
-
-async function updateHabitStreak(supabase: any, habitId: string, userId: string) {
-  // Get last 30 days of entries
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-  const { data: entries } = await supabase
-    .from('habit_entries')
-    .select('logged_at')
-    .eq('habit_id', habitId)
-    .eq('user_id', userId)
-    .gte('logged_at', thirtyDaysAgo.toISOString())
-    .order('logged_at', { ascending: false });
-
-  // Calculate current streak
-  let streak = 0;
-  const today = new Date();
-  
-  for (let i = 0; i < 30; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
-    const checkDateStr = checkDate.toISOString().split('T')[0];
-    
-    const hasEntry = entries?.some((entry: { logged_at: string | null }) => 
-      entry.logged_at?.split('T')[0] === checkDateStr
-    );
-    
-    if (hasEntry) {
-      streak++;
-    } else {
-      break;
-    }
-  }
-
-  // Update streak count
-  await supabase
-    .from('habits')
-    .update({ streak_count: streak })
-    .eq('id', habitId)
-    .eq('user_id', userId);
-}
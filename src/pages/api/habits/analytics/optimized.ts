@@ -4,11 +4,13 @@ import { createServerAuth } from '../../../../lib/auth/simple-multi-user';
 import { habitCacheService } from '../../../../lib/habits/cache-service';
 import { habitPaginationService } from '../../../../lib/habits/pagination-service';
 import { optimizedStreakService } from '../../../../lib/habits/optimized-streak-service';
+import { habitStrengthService } from '../../../../lib/habits/strength-service';
 
 interface AnalyticsRequest {
   days?: number;
   habitIds?: string[];
   includeStreaks?: boolean;
+  includeStrength?: boolean;
   includeContext?: boolean;
   includeTrends?: boolean;
   useCache?: boolean;
@@ -27,6 +29,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       days = 30,
       habitIds,
       includeStreaks = true,
+      includeStrength = true,
       includeContext = true,
       includeTrends = false,
       useCache = true
@@ -42,7 +45,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       });
     }
 
-    const cacheKey = `optimized_analytics:${user.id}:${days}:${habitIds?.join(',') || 'all'}:${includeStreaks}:${includeContext}:${includeTrends}`;
+    const cacheKey = `optimized_analytics:${user.id}:${days}:${habitIds?.join(',') || 'all'}:${includeStreaks}:${includeStrength}:${includeContext}:${includeTrends}`;
     
     // Check cache if enabled
     if (useCache) {
@@ -105,6 +108,34 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       }
     }
 
+    // Habit strength (Loop-style score) alongside the raw streaks
+    let strengthData = null;
+    let strengthTime = 0;
+    if (includeStrength && analyticsData?.length) {
+      const strengthStartTime = Date.now();
+
+      try {
+        const strengths = await habitStrengthService.getHabitStrengths(
+          supabase,
+          user.id,
+          analyticsData.map((h: any) => h.habit_id),
+          { days }
+        );
+
+        strengthData = Array.from(strengths.values()).map((strength) => ({
+          habitId: strength.habitId,
+          score: strength.score,
+          date: strength.date,
+          history: strength.history
+        }));
+
+        strengthTime = Date.now() - strengthStartTime;
+      } catch (error) {
+        console.warn('Habit strength calculation failed:', error);
+        strengthData = [];
+      }
+    }
+
     // Get context analysis from materialized view if available
     let contextData = null;
     let contextTime = 0;
@@ -173,6 +204,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     const result = {
       analytics: analyticsData || [],
       streaks: streakData,
+      strength: strengthData,
       context: contextData,
       trends: trendData,
       metadata: {
@@ -185,6 +217,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         filters: {
           habitIds: habitIds || null,
           includeStreaks,
+          includeStrength,
           includeContext,
           includeTrends
         }
@@ -193,6 +226,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         totalTime,
         analyticsTime,
         streakTime,
+        strengthTime,
         contextTime,
         trendTime,
         cacheHit: false,
@@ -300,6 +334,7 @@ export const GET: APIRoute = async ({ url, cookies }) => {
       days: parseInt(searchParams.get('days') || '30'),
       habitIds: searchParams.get('habitIds')?.split(',').filter(Boolean),
       includeStreaks: searchParams.get('includeStreaks') !== 'false',
+      includeStrength: searchParams.get('includeStrength') !== 'false',
       includeContext: searchParams.get('includeContext') !== 'false',
       includeTrends: searchParams.get('includeTrends') === 'true',
       useCache: searchParams.get('useCache') !== 'false'
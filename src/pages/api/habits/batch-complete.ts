@@ -1,6 +1,7 @@
 // src/pages/api/habits/batch-complete.ts
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { updateHabitStreak } from '../../../lib/habits/streaks';
 import { invalidateDailyContextCache } from '../context/today';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
@@ -72,7 +73,9 @@ export const POST: APIRoute = async ({ request, cookies }) => {
             .update({
               value,
               notes: 'Batch completed',
-              logged_at: new Date().toISOString()
+              logged_at: new Date().toISOString(),
+              // Edited in the app: rolling back the import must not undo it
+              import_batch_id: null
             })
             .eq('id', existingEntry.id)
             .select()
@@ -100,7 +103,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         }
 
         // Update streak for this habit
-        await updateHabitStreak(supabase, habitId, user.id);
+        await updateHabitStreak(supabase, habitId, user.id, targetDate);
 
       } catch (error: any) {
         console.error(`Error processing habit ${habitId}:`, error);
@@ -152,58 +155,3 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     });
   }
 };
-
-// Enhanced streak calculation that handles skips properly
-async function updateHabitStreak(supabase: any, habitId: string, userId: string) {
-  const { data: entries } = await supabase
-    .from('habit_entries')
-    .select('date, value')
-    .eq('habit_id', habitId)
-    .eq('user_id', userId)
-    .order('date', { ascending: false })
-    .limit(100);
-
-  if (!entries) return;
-
-  let currentStreak = 0;
-  let bestStreak = 0;
-  let tempStreak = 0;
-  const today = new Date();
-  
-  // Calculate current streak (from today backwards)
-  for (let i = 0; i < 100; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
-    const dateStr = checkDate.toISOString().split('T')[0];
-    
-    const entry = entries.find((e: any) => e.date === dateStr);
-    
-    if (entry) {
-      if (entry.value === 1 || entry.value === 3) { // Completed or partial
-        if (i === 0 || currentStreak > 0) currentStreak++;
-        tempStreak++;
-      } else if (entry.value === 2) { // Skipped - doesn't break streak
-        if (i === 0 || currentStreak > 0) currentStreak++;
-        tempStreak++;
-      } else { // Failed (value = 0)
-        if (currentStreak === 0) currentStreak = tempStreak;
-        break;
-      }
-    } else {
-      // No entry - only breaks streak if we have an active one
-      if (currentStreak > 0) break;
-    }
-    
-    bestStreak = Math.max(bestStreak, tempStreak);
-  }
-
-  // Update habit with new streaks
-  await supabase
-    .from('habits')
-    .update({ 
-      streak_count: currentStreak,
-      best_streak: Math.max(bestStreak, currentStreak)
-    })
-    .eq('id', habitId)
-    .eq('user_id', userId);
-}
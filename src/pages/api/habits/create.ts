@@ -1,6 +1,7 @@
 // src/pages/api/habits/create.ts
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../lib/supabase/server';
+import { parseHabitFrequency } from '../../../lib/habits/frequency';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   const supabase = createServerClient(cookies);
@@ -21,7 +22,8 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       target_unit,
       color = '#3B82F6',
       reminder_time,
-      allows_skips = false
+      allows_skips = false,
+      frequency = { type: 'daily' }
     } = body;
 
     // Validation
@@ -54,6 +56,14 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       });
     }
 
+    const habitFrequency = parseHabitFrequency(frequency);
+    if (!habitFrequency) {
+      return new Response(JSON.stringify({ error: 'Invalid frequency: use daily, times_per_week (1-7), weekdays (0-6) or every_n_days' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Check if habit with same name already exists for this user
     const { data: existingHabit } = await supabase
       .from('habits')
@@ -92,6 +102,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       measurement_type,
       color,
       allows_skips,
+      frequency: habitFrequency,
       position: nextPosition,
       streak_count: 0,
       best_streak: 0,
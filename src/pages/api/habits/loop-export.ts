@@ -0,0 +1,75 @@
+// src/pages/api/habits/loop-export.ts - Download habits as a Loop Habits CSV export (zip)
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../lib/supabase/server';
+import { buildLoopHabitsExport, type LoopExportEntry } from '../../../lib/import/loop-habits-export';
+import { createZip } from '../../../lib/utils/zip';
+
+// Supabase caps a select at 1000 rows; years of check-ins need paging
+const PAGE_SIZE = 1000;
+
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Archived habits are part of the backup too
+    const { data: habits, error: habitsError } = await (supabase as any)
+      .from('habits')
+      .select('id, name, description, measurement_type, target_value, target_unit, color, position, frequency')
+      .eq('user_id', user.id)
+      .order('position', { ascending: true });
+
+    if (habitsError) {
+      throw new Error(`Failed to fetch habits: ${habitsError.message}`);
+    }
+
+    const entries: LoopExportEntry[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: entriesError } = await (supabase as any)
+        .from('habit_entries')
+        .select('habit_id, date, value, notes')
+        .eq('user_id', user.id)
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (entriesError) {
+        throw new Error(`Failed to fetch habit entries: ${entriesError.message}`);
+      }
+
+      entries.push(...((page || []) as LoopExportEntry[]).filter((entry) => entry.date));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const folder = `Loop Habits CSV ${today}`;
+    const files = buildLoopHabitsExport(habits || [], entries, { asOf: today });
+    const archive = createZip(files.map((file) => ({ path: `${folder}/${file.path}`, content: file.content })));
+
+    return new Response(archive.buffer as ArrayBuffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${folder}.zip"`,
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error: any) {
+    console.error('[LoopExport] Export failed:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to export habits',
+      details: error.message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
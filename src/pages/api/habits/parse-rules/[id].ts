@@ -0,0 +1,78 @@
+// src/pages/api/habits/parse-rules/[id].ts - Update or delete a note parse rule
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { validateNoteParseRule, type NoteParseRuleInput } from '../../../../lib/habits/note-parse-rules';
+import { noteParseRuleService } from '../../../../lib/habits/note-parse-rule-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+/**
+ * PUT /api/habits/parse-rules/[id]
+ *
+ * Replaces the rule. Entries already logged keep what they were parsed with.
+ */
+export const PUT: APIRoute = async ({ cookies, params, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Rule ID is required' }, 400);
+    }
+
+    const body = (await request.json().catch(() => null)) as NoteParseRuleInput | null;
+    const errors = validateNoteParseRule(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid parse rule', details: errors }, 400);
+    }
+
+    if (body.habit_id) {
+      const { data: habit } = await (supabase as any)
+        .from('habits')
+        .select('id')
+        .eq('id', body.habit_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!habit) {
+        return jsonResponse({ error: 'Habit not found' }, 404);
+      }
+    }
+
+    const rule = await noteParseRuleService.updateRule(supabase, user.id, params.id, body);
+    if (!rule) {
+      return jsonResponse({ error: 'Rule not found' }, 404);
+    }
+    return jsonResponse({ rule }, 200);
+  } catch (error: any) {
+    console.error('Note parse rule update error:', error);
+    return jsonResponse({ error: 'Failed to update note parse rule', details: error.message }, 500);
+  }
+};
+
+/**
+ * DELETE /api/habits/parse-rules/[id]
+ */
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Rule ID is required' }, 400);
+    }
+
+    const deleted = await noteParseRuleService.deleteRule(supabase, user.id, params.id);
+    if (!deleted) {
+      return jsonResponse({ error: 'Rule not found' }, 404);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    console.error('Note parse rule delete error:', error);
+    return jsonResponse({ error: 'Failed to delete note parse rule', details: error.message }, 500);
+  }
+};
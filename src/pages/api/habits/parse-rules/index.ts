@@ -0,0 +1,70 @@
+// src/pages/api/habits/parse-rules/index.ts - List and create note parse rules
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { validateNoteParseRule, type NoteParseRuleInput } from '../../../../lib/habits/note-parse-rules';
+import { noteParseRuleService } from '../../../../lib/habits/note-parse-rule-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+/**
+ * GET /api/habits/parse-rules?habitId=
+ *
+ * The user's rules, highest priority first. With habitId, only rules that
+ * apply to that habit.
+ */
+export const GET: APIRoute = async ({ cookies, url }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const rules = await noteParseRuleService.listRules(supabase, user.id, {
+      habitId: url.searchParams.get('habitId') || undefined,
+    });
+
+    return jsonResponse({ rules }, 200);
+  } catch (error: any) {
+    console.error('Note parse rules error:', error);
+    return jsonResponse({ error: 'Failed to load note parse rules', details: error.message }, 500);
+  }
+};
+
+/**
+ * POST /api/habits/parse-rules
+ */
+export const POST: APIRoute = async ({ cookies, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = (await request.json().catch(() => null)) as NoteParseRuleInput | null;
+    const errors = validateNoteParseRule(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid parse rule', details: errors }, 400);
+    }
+
+    if (body.habit_id) {
+      const { data: habit } = await (supabase as any)
+        .from('habits')
+        .select('id')
+        .eq('id', body.habit_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!habit) {
+        return jsonResponse({ error: 'Habit not found' }, 404);
+      }
+    }
+
+    const rule = await noteParseRuleService.createRule(supabase, user.id, body);
+    return jsonResponse({ rule }, 201);
+  } catch (error: any) {
+    console.error('Note parse rule create error:', error);
+    return jsonResponse({ error: 'Failed to create note parse rule', details: error.message }, 500);
+  }
+};
@@ -2,6 +2,7 @@
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
 import type { Tables } from '../../../types/supabase';
+import { calculateScheduledStreak, normalizeHabitFrequency } from '../../../lib/habits/frequency';
 
 export const POST: APIRoute = async ({ cookies }) => {
   try {
@@ -14,7 +15,7 @@ export const POST: APIRoute = async ({ cookies }) => {
     // Get all habits for this user
     const { data: habits } = await supabase
       .from('habits')
-      .select('id, name, type')
+      .select('id, name, type, frequency')
       .eq('user_id', user.id);
     
     if (!habits) throw new Error('No habits found');
@@ -48,43 +49,15 @@ export const POST: APIRoute = async ({ cookies }) => {
         }
       };
       
-      // Calculate current streak from today backwards
-      let currentStreak = 0;
-      let bestStreak = 0;
-      let tempStreak = 0;
-      
-      const today = new Date();
-      const entryMap = new Map(entries.map((e: any) => [e.date, e.value]));
-      
-      // Current streak calculation
-      for (let i = 0; i < 90; i++) {
-        const checkDate = new Date(today);
-        checkDate.setDate(today.getDate() - i);
-        const dateStr = checkDate.toISOString().split('T')[0];
-        
-        const value = entryMap.get(dateStr);
-        const hasEntry = value !== undefined;
-        const success = hasEntry ? isSuccess(value, habit.name, habit.type!) : false;
-        
-        if (success) {
-          currentStreak++;
-        } else if (hasEntry) {
-          break; // Entry exists but not successful
-        } else {
-          if (currentStreak > 0) break; // No entry breaks streak
-        }
-      }
-      
-      // Best streak calculation
-      const allEntries = [...entries].reverse(); // Oldest first
-      for (const entry of allEntries) {
-        if (isSuccess(entry.value, habit.name, habit.type!)) {
-          tempStreak++;
-          bestStreak = Math.max(bestStreak, tempStreak);
-        } else {
-          tempStreak = 0;
-        }
-      }
+      // Streaks follow the habit's schedule, so rest days don't break them
+      const { current: currentStreak, best: bestStreak } = calculateScheduledStreak(
+        entries.map((e: any) => ({
+          date: e.date,
+          outcome: isSuccess(e.value, habit.name, habit.type!) ? 'done' as const : 'missed' as const,
+        })),
+        normalizeHabitFrequency((habit as any).frequency),
+        { asOf: new Date().toISOString().split('T')[0] }
+      );
       
       // Update habit with calculated streaks
       await supabase
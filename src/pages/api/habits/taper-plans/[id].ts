@@ -0,0 +1,75 @@
+// src/pages/api/habits/taper-plans/[id].ts - Update or delete a taper plan
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+import { validateTaperPlanUpdate } from '../../../../lib/habits/taper-plans';
+import {
+  TaperPlanConflictError,
+  taperPlanService,
+  type TaperPlanUpdate,
+} from '../../../../lib/habits/taper-plan-service';
+
+/**
+ * PUT /api/habits/taper-plans/[id]
+ *
+ * Pause, resume or complete a plan, or change its steps. Allowances already
+ * shown stay as they were: new steps start from today's allowance, and a
+ * pause moves the rest of the schedule back by its length.
+ */
+export const PUT: APIRoute = async ({ cookies, params, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Plan ID is required' }, 400);
+    }
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const errors = validateTaperPlanUpdate(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid taper plan update', details: errors }, 400);
+    }
+
+    const plan = await taperPlanService.updatePlan(supabase, user.id, params.id, body as TaperPlanUpdate);
+    if (!plan) {
+      return jsonResponse({ error: 'Plan not found' }, 404);
+    }
+    return jsonResponse({ plan }, 200);
+  } catch (error: any) {
+    if (error instanceof TaperPlanConflictError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    console.error('Taper plan update error:', error);
+    return jsonResponse({ error: 'Failed to update taper plan', details: error.message }, 500);
+  }
+};
+
+/**
+ * DELETE /api/habits/taper-plans/[id]
+ */
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Plan ID is required' }, 400);
+    }
+
+    const deleted = await taperPlanService.deletePlan(supabase, user.id, params.id);
+    if (!deleted) {
+      return jsonResponse({ error: 'Plan not found' }, 404);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    console.error('Taper plan delete error:', error);
+    return jsonResponse({ error: 'Failed to delete taper plan', details: error.message }, 500);
+  }
+};
@@ -0,0 +1,35 @@
+// src/pages/api/habits/taper-plans/baseline.ts - Baseline preview for a new taper plan
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+import { taperPlanService } from '../../../../lib/habits/taper-plan-service';
+
+/**
+ * GET /api/habits/taper-plans/baseline?habitId=
+ *
+ * Average daily use over the last two weeks of logged days.
+ */
+export const GET: APIRoute = async ({ cookies, url }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const habitId = url.searchParams.get('habitId');
+    if (!habitId) {
+      return jsonResponse({ error: 'habitId is required' }, 400);
+    }
+
+    const baseline = await taperPlanService.previewBaseline(supabase, user.id, habitId);
+    if (!baseline) {
+      return jsonResponse({ error: 'Habit not found' }, 404);
+    }
+    return jsonResponse(baseline, 200);
+  } catch (error: any) {
+    console.error('Taper baseline error:', error);
+    return jsonResponse({ error: 'Failed to calculate baseline', details: error.message }, 500);
+  }
+};
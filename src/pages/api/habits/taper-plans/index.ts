@@ -0,0 +1,77 @@
+// src/pages/api/habits/taper-plans/index.ts - List and create taper plans
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+import { validateTaperPlanInput, type TaperPlanInput } from '../../../../lib/habits/taper-plans';
+import { TaperPlanConflictError, taperPlanService } from '../../../../lib/habits/taper-plan-service';
+
+/** Days of allowance vs. actual returned for the trend chart */
+const DEFAULT_CHART_DAYS = 28;
+
+/**
+ * GET /api/habits/taper-plans?days=28
+ *
+ * Active and paused plans with today's allowance, adherence and the last
+ * `days` days of allowance vs. logged use.
+ */
+export const GET: APIRoute = async ({ cookies, url }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const chartDays = Math.min(Math.max(Number(url.searchParams.get('days')) || DEFAULT_CHART_DAYS, 1), 180);
+    const plans = await taperPlanService.listPlansWithProgress(supabase, user.id);
+
+    return jsonResponse(
+      {
+        plans: plans.map((plan) => ({
+          ...plan,
+          progress: { ...plan.progress, days: plan.progress.days.slice(-chartDays) },
+        })),
+      },
+      200
+    );
+  } catch (error: any) {
+    console.error('Taper plans error:', error);
+    return jsonResponse({ error: 'Failed to load taper plans', details: error.message }, 500);
+  }
+};
+
+/**
+ * POST /api/habits/taper-plans
+ *
+ * Without baseline_daily, the baseline is the average daily use logged over
+ * the two weeks before start_date.
+ */
+export const POST: APIRoute = async ({ cookies, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = (await request.json().catch(() => null)) as TaperPlanInput | null;
+    const errors = validateTaperPlanInput(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid taper plan', details: errors }, 400);
+    }
+
+    const plan = await taperPlanService.createPlan(supabase, user.id, body);
+    if (!plan) {
+      return jsonResponse({ error: 'Habit not found' }, 404);
+    }
+    return jsonResponse({ plan }, 201);
+  } catch (error: any) {
+    if (error instanceof TaperPlanConflictError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    console.error('Taper plan create error:', error);
+    return jsonResponse({ error: 'Failed to create taper plan', details: error.message }, 500);
+  }
+};
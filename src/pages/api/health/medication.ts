@@ -1,14 +1,40 @@
 // src/pages/api/health/medication.ts
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
+import { validateDoseLog } from '../../../lib/health/medication-schedule';
+import { MedicationDoseError, medicationService } from '../../../lib/health/medication-service';
+import { jsonResponse } from '../../../lib/utils/json-response';
 
+/**
+ * POST /api/health/medication
+ *
+ * With medication_id, logs one scheduled dose:
+ * { medication_id, slot_time: "08:00", status?: "taken" | "skipped", date?, taken_at? }
+ * The older { medication, taken } form still records a daily metric for
+ * the fixed morning/afternoon/evening doses.
+ */
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
     const serverAuth = createServerAuth(cookies);
     const user = await serverAuth.requireAuth();
     const supabase = serverAuth.supabase;
     
-    const { medication, taken } = await request.json();
+    const body = await request.json();
+
+    if (body?.medication_id !== undefined) {
+      const errors = validateDoseLog(body);
+      if (errors.length > 0) {
+        return jsonResponse({ error: 'Invalid dose', details: errors }, 400);
+      }
+
+      const result = await medicationService.logDose(supabase, user.id, body);
+      if (!result) {
+        return jsonResponse({ error: 'Medication not found' }, 404);
+      }
+      return jsonResponse({ success: true, ...result }, 200);
+    }
+
+    const { medication, taken } = body;
     
     if (!medication || typeof taken !== 'boolean') {
       return new Response(JSON.stringify({ 
@@ -93,6 +119,9 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
 
   } catch (error: any) {
+    if (error instanceof MedicationDoseError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
     // Handle auth errors
     if (error.message === 'Authentication required') {
       return new Response(JSON.stringify({
@@ -115,3 +144,37 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     });
   }
 };
+
+/**
+ * DELETE /api/health/medication?medicationId=&slot=08:00&date=
+ *
+ * Undo a dose log; a taken dose puts its pills back.
+ */
+export const DELETE: APIRoute = async ({ cookies, url }) => {
+  try {
+    const serverAuth = createServerAuth(cookies);
+    const user = await serverAuth.requireAuth();
+
+    const input = {
+      medication_id: url.searchParams.get('medicationId') || '',
+      slot_time: url.searchParams.get('slot') || '',
+      ...(url.searchParams.get('date') ? { date: url.searchParams.get('date')! } : {}),
+    };
+    const errors = validateDoseLog(input);
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid dose', details: errors }, 400);
+    }
+
+    const cleared = await medicationService.clearDose(serverAuth.supabase, user.id, input);
+    if (!cleared) {
+      return jsonResponse({ error: 'Dose not logged' }, 404);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    if (error.message === 'Authentication required') {
+      return jsonResponse({ success: false, error: 'Please sign in to continue' }, 401);
+    }
+    console.error('Medication dose clear error:', error);
+    return jsonResponse({ error: 'Failed to clear dose', details: error.message }, 500);
+  }
+};
@@ -0,0 +1,67 @@
+// src/pages/api/health/medications/[id].ts - Update or delete a medication
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { validateMedicationUpdate } from '../../../../lib/health/medication-schedule';
+import { medicationService, type MedicationUpdate } from '../../../../lib/health/medication-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+/**
+ * PUT /api/health/medications/[id]
+ *
+ * Change the schedule or dose, record a refill by setting pills_remaining,
+ * or set active: false to stop scheduling it without losing the dose log.
+ */
+export const PUT: APIRoute = async ({ cookies, params, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Medication ID is required' }, 400);
+    }
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const errors = validateMedicationUpdate(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid medication update', details: errors }, 400);
+    }
+
+    const medication = await medicationService.updateMedication(supabase, user.id, params.id, body as MedicationUpdate);
+    if (!medication) {
+      return jsonResponse({ error: 'Medication not found' }, 404);
+    }
+    return jsonResponse({ medication }, 200);
+  } catch (error: any) {
+    console.error('Medication update error:', error);
+    return jsonResponse({ error: 'Failed to update medication', details: error.message }, 500);
+  }
+};
+
+/**
+ * DELETE /api/health/medications/[id]
+ */
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Medication ID is required' }, 400);
+    }
+
+    const deleted = await medicationService.deleteMedication(supabase, user.id, params.id);
+    if (!deleted) {
+      return jsonResponse({ error: 'Medication not found' }, 404);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    console.error('Medication delete error:', error);
+    return jsonResponse({ error: 'Failed to delete medication', details: error.message }, 500);
+  }
+};
@@ -0,0 +1,55 @@
+// src/pages/api/health/medications/index.ts - List and add scheduled medications
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { validateMedicationInput, type MedicationInput } from '../../../../lib/health/medication-schedule';
+import { medicationService } from '../../../../lib/health/medication-service';
+import { jsonResponse } from '../../../../lib/utils/json-response';
+
+/**
+ * GET /api/health/medications
+ *
+ * Every medication with today's doses (taken, skipped, upcoming, due or
+ * missed) and its refill countdown.
+ */
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const medications = await medicationService.listMedicationsWithStatus(supabase, user.id);
+    return jsonResponse({ medications }, 200);
+  } catch (error: any) {
+    console.error('Medications error:', error);
+    return jsonResponse({ error: 'Failed to load medications', details: error.message }, 500);
+  }
+};
+
+/**
+ * POST /api/health/medications
+ */
+export const POST: APIRoute = async ({ cookies, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = (await request.json().catch(() => null)) as MedicationInput | null;
+    const errors = validateMedicationInput(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid medication', details: errors }, 400);
+    }
+
+    const medication = await medicationService.createMedication(supabase, user.id, body);
+    return jsonResponse({ medication }, 201);
+  } catch (error: any) {
+    console.error('Medication create error:', error);
+    return jsonResponse({ error: 'Failed to create medication', details: error.message }, 500);
+  }
+};
@@ -1,7 +1,8 @@
 // Health Data OCR Processor for Huawei Watch Screenshots
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { GEMINI_PRO_MODEL, getLLMProvider, type LLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 interface HealthDataExtraction {
   sleep?: {
@@ -39,12 +40,6 @@ interface HealthDataExtraction {
   }[];
 }
 
-const llm = new ChatGoogleGenerativeAI({
-  model: 'gemini-1.5-pro',
-  temperature: 0.1,
-  apiKey: process.env.GEMINI_API_KEY,
-});
-
 export const POST: APIRoute = async ({ request, cookies }) => {
     const serverAuth = createServerAuth(cookies);
     const user = await serverAuth.requireAuth();
@@ -71,7 +66,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
     if (textData) {
       // Process provided text data
-      extractedData = await processHealthText(textData, dataType);
+      extractedData = await processHealthText(textData, dataType, billedProvider(getLLMProvider(), user.id, 'AI health data extraction'));
     } else if (image) {
       // Process image with OCR
       extractedData = await processHealthImage(image, dataType);
@@ -110,7 +105,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 };
 
 // Process health data from text (OCR output or manual input)
-async function processHealthText(text: string, dataType: string): Promise<HealthDataExtraction> {
+async function processHealthText(text: string, dataType: string, llm: LLMProvider): Promise<HealthDataExtraction> {
   const prompt = `
   Extract health data from this Huawei Health app text. The data type is: ${dataType}
 
@@ -193,10 +188,16 @@ async function processHealthText(text: string, dataType: string): Promise<Health
   - "Stress: 27 Low" → level: 27, status: "Low"
   `;
 
-  const response = await llm.invoke(prompt);
+  const response = await llm.complete({
+    prompt,
+    temperature: 0.1,
+    json: true,
+    model: GEMINI_PRO_MODEL,
+    purpose: 'health_ocr',
+  });
   
   try {
-    return JSON.parse(response.content as string);
+    return JSON.parse(response.text);
   } catch (error) {
     console.error('Failed to parse health data:', error);
     return {};
@@ -17,6 +17,8 @@ function asImportSummaryFromPerHabit(result: {
   importedEntries: number;
   errors: Array<{ message: string; details?: any; severity?: string }>;
   warnings: Array<{ message: string; details?: any }>;
+  diff?: ImportSummary['diff'];
+  batchId?: string | null;
 }, processingTime: number): ImportSummary {
   return {
     success: result.success,
@@ -52,6 +54,8 @@ function asImportSummaryFromPerHabit(result: {
       averageStreakLength: 0,
       mostActiveHabit: '',
     },
+    diff: result.diff,
+    batchId: result.batchId,
   };
 }
 
@@ -63,6 +67,8 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     const formData = await request.formData();
     const importFormat = (formData.get('importFormat') as string | null) || 'root';
     const conflictResolutionsStr = formData.get('conflictResolutions') as string | null;
+    // A dry run reports what the import would change without writing anything
+    const dryRun = formData.get('dryRun') === 'true';
 
     let rootConflictResolutions: RootConflictResolution[] | undefined;
     let perHabitConflictResolutions: PerHabitConflictResolution[] | undefined;
@@ -98,7 +104,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
               name: typeof maybeFile?.name === 'string' ? maybeFile.name : undefined,
             });
 
-            if (key === 'importFormat' || key === 'conflictResolutions') continue;
+            if (key === 'importFormat' || key === 'conflictResolutions' || key === 'dryRun') continue;
             if (!maybeFile || typeof maybeFile !== 'object') continue;
             if (typeof maybeFile.name !== 'string') continue;
             if (typeof maybeFile.text !== 'function') continue;
@@ -136,8 +142,15 @@ export const POST: APIRoute = async ({ request, cookies }) => {
               files: perHabitFiles,
               userId: user.id,
               conflictResolution: perHabitConflictResolutions,
+              dryRun,
             })
             .then((result) => {
+              if (dryRun) {
+                send({ type: 'preview', diff: result.diff });
+                controller.close();
+                return;
+              }
+
               sendProgress({
                 stage: 'importing',
                 progress: 85,
@@ -177,12 +190,15 @@ export const POST: APIRoute = async ({ request, cookies }) => {
           .then(([habits, checkmarks, scores]) =>
             importer.importWithEnhancedHandling(
               { habits, checkmarks, scores },
-              rootConflictResolutions
+              rootConflictResolutions,
+              { dryRun }
             )
           )
           .then((summary) => {
             if (summary.conflicts.length > 0 && !rootConflictResolutions) {
               send({ type: 'conflicts', conflicts: summary.conflicts });
+            } else if (dryRun && summary.diff) {
+              send({ type: 'preview', diff: summary.diff });
             } else {
               send({ type: 'complete', summary });
             }
@@ -0,0 +1,50 @@
+// src/pages/api/import/habit-batches/[id]/rollback.ts - Undo a committed Loop import
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../../lib/supabase/server';
+import { habitImportBatchService } from '../../../../../lib/import/habit-import-batches';
+
+export const POST: APIRoute = async ({ cookies, params }) => {
+  try {
+    const supabase = createServerClient(cookies);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!params.id) {
+      return new Response(JSON.stringify({ error: 'Batch id is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const result = await habitImportBatchService.rollbackBatch(supabase, user.id, params.id);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    const message: string = error.message || 'Rollback failed';
+    if (message === 'Import batch not found' || message === 'Import batch was already rolled back') {
+      return new Response(JSON.stringify({ error: message }), {
+        status: message === 'Import batch not found' ? 404 : 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    console.error('Habit import rollback error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to roll back import',
+      details: message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,36 @@
+// src/pages/api/import/habit-batches/index.ts - Recent Loop import batches
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../../lib/supabase/server';
+import { habitImportBatchService } from '../../../../lib/import/habit-import-batches';
+
+export const GET: APIRoute = async ({ cookies, url }) => {
+  try {
+    const supabase = createServerClient(cookies);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const limit = Math.min(50, Math.max(1, Number(url.searchParams.get('limit')) || 10));
+    const batches = await habitImportBatchService.listBatches(supabase, user.id, limit);
+
+    return new Response(JSON.stringify({ batches }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    console.error('Habit import batches error:', error);
+    return new Response(JSON.stringify({
+      error: 'Failed to load import batches',
+      details: error.message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,69 @@
+// src/pages/api/places/[id].ts - Update or delete a saved place
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../lib/supabase/server';
+import { validateSavedPlaceUpdate } from '../../../lib/places/saved-places';
+import { placeService, SavedPlaceConflictError, type SavedPlaceUpdate } from '../../../lib/places/place-service';
+import { jsonResponse } from '../../../lib/utils/json-response';
+
+/**
+ * PUT /api/places/[id]
+ *
+ * Move a place, rename it, add aliases or change its access times.
+ */
+export const PUT: APIRoute = async ({ cookies, params, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Place ID is required' }, 400);
+    }
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    const errors = validateSavedPlaceUpdate(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid place update', details: errors }, 400);
+    }
+
+    const place = await placeService.updatePlace(supabase, user.id, params.id, body as SavedPlaceUpdate);
+    if (!place) {
+      return jsonResponse({ error: 'Place not found' }, 404);
+    }
+    return jsonResponse({ place }, 200);
+  } catch (error: any) {
+    if (error instanceof SavedPlaceConflictError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    console.error('Saved place update error:', error);
+    return jsonResponse({ error: 'Failed to update saved place', details: error.message }, 500);
+  }
+};
+
+/**
+ * DELETE /api/places/[id]
+ */
+export const DELETE: APIRoute = async ({ cookies, params }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    if (!params.id) {
+      return jsonResponse({ error: 'Place ID is required' }, 400);
+    }
+
+    const deleted = await placeService.deletePlace(supabase, user.id, params.id);
+    if (!deleted) {
+      return jsonResponse({ error: 'Place not found' }, 404);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error: any) {
+    console.error('Saved place delete error:', error);
+    return jsonResponse({ error: 'Failed to delete saved place', details: error.message }, 500);
+  }
+};
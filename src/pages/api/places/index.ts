@@ -0,0 +1,59 @@
+// src/pages/api/places/index.ts - List and add saved places
+import type { APIRoute } from 'astro';
+import { createServerClient } from '../../../lib/supabase/server';
+import { validateSavedPlaceInput, type SavedPlaceInput } from '../../../lib/places/saved-places';
+import { placeService, SavedPlaceConflictError } from '../../../lib/places/place-service';
+import { jsonResponse } from '../../../lib/utils/json-response';
+
+/**
+ * GET /api/places
+ *
+ * The user's saved places with their coordinates, aliases and access times.
+ */
+export const GET: APIRoute = async ({ cookies }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const places = await placeService.listPlaces(supabase, user.id);
+    return jsonResponse({ places }, 200);
+  } catch (error: any) {
+    console.error('Saved places error:', error);
+    return jsonResponse({ error: 'Failed to load saved places', details: error.message }, 500);
+  }
+};
+
+/**
+ * POST /api/places
+ *
+ * Only one place can be the home; adding a second is a 409.
+ */
+export const POST: APIRoute = async ({ cookies, request }) => {
+  try {
+    const supabase = createServerClient(cookies);
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = (await request.json().catch(() => null)) as SavedPlaceInput | null;
+    const errors = validateSavedPlaceInput(body || {});
+    if (!body || errors.length > 0) {
+      return jsonResponse({ error: 'Invalid place', details: errors }, 400);
+    }
+
+    const place = await placeService.createPlace(supabase, user.id, body);
+    return jsonResponse({ place }, 201);
+  } catch (error: any) {
+    if (error instanceof SavedPlaceConflictError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    console.error('Saved place create error:', error);
+    return jsonResponse({ error: 'Failed to create saved place', details: error.message }, 500);
+  }
+};
@@ -1,7 +1,8 @@
 // src/pages/api/tasks/ai-assistant.ts
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { GEMINI_PRO_MODEL, getLLMProvider } from "../../../lib/ai/llm";
+import { billedProvider } from "../../../lib/ai/llm/billing";
 import type { Tables } from '../../../types/supabase';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
@@ -40,12 +41,6 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     const sessions = sessionsResult.data || [];
     const habits = habitsResult.data || [];
 
-    const llm = new ChatGoogleGenerativeAI({
-      model: "gemini-1.5-pro",
-      temperature: 0.1,
-      apiKey: process.env.GEMINI_API_KEY,
-    });
-
     let analysisPrompt = '';
     let responseFormat = {};
 
@@ -209,8 +204,14 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     }
 
     try {
-      const response = await llm.invoke(analysisPrompt);
-      const analysis = JSON.parse(response.content as string);
+      const response = await billedProvider(getLLMProvider(), user.id, 'AI task assistant').complete({
+        prompt: analysisPrompt,
+        temperature: 0.1,
+        json: true,
+        model: GEMINI_PRO_MODEL,
+        purpose: `task_assistant_${type}`,
+      });
+      const analysis = JSON.parse(response.text);
       
       return new Response(JSON.stringify({
         success: true,
@@ -2,7 +2,9 @@
 import type { APIRoute } from 'astro';
 import { createServerAuth } from '../../../lib/auth/simple-multi-user';
 import { createServerClient } from '../../../lib/supabase/server';
-import { naturalLanguageTaskService } from '../../../lib/intelligence/natural-language-task-service';
+import { NaturalLanguageTaskService, naturalLanguageTaskService } from '../../../lib/intelligence/natural-language-task-service';
+import { getLLMProvider } from '../../../lib/ai/llm';
+import { billedProvider } from '../../../lib/ai/llm/billing';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
@@ -33,18 +35,22 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
     // Create server-side supabase client with user session
     const supabase = createServerClient(cookies);
+    // Charged per completion at the provider's reported usage
+    const billedTaskService = new NaturalLanguageTaskService(
+      billedProvider(getLLMProvider(), user.id, 'AI task creation')
+    );
 
     let result;
 
     switch (mode) {
       case 'simple':
         // Just parse, don't save
-        result = await naturalLanguageTaskService.createTasksFromText(input, user.id, config);
+        result = await billedTaskService.createTasksFromText(input, user.id, config);
         break;
 
       case 'create':
         // Parse and save tasks
-        const fullResult = await naturalLanguageTaskService.parseAndSaveTasks(input, user.id, config, supabase);
+        const fullResult = await billedTaskService.parseAndSaveTasks(input, user.id, config, supabase);
         result = {
           ...fullResult.parseResult,
           savedTasks: fullResult.savedTasks,
@@ -55,7 +61,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       case 'email':
         // Process email content
         const { subject, body, sender, date } = body;
-        result = await naturalLanguageTaskService.createTasksFromEmail({
+        result = await billedTaskService.createTasksFromEmail({
           subject: subject || 'No subject',
           body: body || input,
           sender: sender || 'Unknown',
@@ -66,7 +72,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       case 'conversation':
         // Process conversation
         const { messages } = body;
-        result = await naturalLanguageTaskService.createTasksFromConversation({
+        result = await billedTaskService.createTasksFromConversation({
           messages: messages || [{ role: 'user', content: input, timestamp: new Date().toISOString() }]
         }, user.id);
         break;
@@ -1,11 +1,14 @@
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../../lib/supabase/server';
-import { getDailyPlan, getTimeBlock, updateTimeBlock } from '../../../../lib/daily-plan/database';
+import { getDailyPlan, getTimeBlock, getTimeBlocksByPlan, updateTimeBlock } from '../../../../lib/daily-plan/database';
+import { recordStepDurationSample } from '../../../../lib/chains/duration-model';
+import { recordChainIntegrity } from '../../../../lib/chains/chain-history';
 
 /**
  * POST /api/time-blocks/:id/complete
  *
  * Marks a time block as completed and records completion metadata.
+ * Chain steps also feed the learned step duration model and chain integrity history.
  */
 export const POST: APIRoute = async ({ params, cookies }) => {
   try {
@@ -43,16 +46,25 @@ export const POST: APIRoute = async ({ params, cookies }) => {
       });
     }
 
+    const completedAt = new Date();
     const updated = await updateTimeBlock(supabase, blockId, {
       status: 'completed',
       skip_reason: null,
       metadata: {
         ...(block.metadata || {}),
-        completed_at: new Date().toISOString(),
+        completed_at: completedAt.toISOString(),
         completed_by: user.id,
       } as any,
     });
 
+    if (block.metadata?.chain_id) {
+      const planBlocks = await getTimeBlocksByPlan(supabase, block.planId);
+      if (block.status !== 'completed' && block.metadata.template_step_id) {
+        await recordStepDurationSample(supabase, user.id, block, planBlocks, completedAt);
+      }
+      await recordChainIntegrity(supabase, user.id, { ...plan, timeBlocks: planBlocks }, completedAt);
+    }
+
     return new Response(JSON.stringify({ block: updated }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -1,11 +1,15 @@
 import type { APIRoute } from 'astro';
 import { createServerClient } from '../../../../lib/supabase/server';
-import { getDailyPlan, getTimeBlock, updateTimeBlock } from '../../../../lib/daily-plan/database';
+import { getDailyPlan, getTimeBlock, getTimeBlocksByPlan, updateTimeBlock } from '../../../../lib/daily-plan/database';
+import { deleteStepDurationSample } from '../../../../lib/chains/duration-model';
+import { recordChainIntegrity } from '../../../../lib/chains/chain-history';
 
 /**
  * POST /api/time-blocks/:id/uncomplete
  *
  * Clears completion state for a time block and removes completion metadata.
+ * Any learned-duration sample recorded for the completion is dropped too,
+ * and the chain's integrity history is re-evaluated.
  */
 export const POST: APIRoute = async ({ params, cookies }) => {
   try {
@@ -52,6 +56,15 @@ export const POST: APIRoute = async ({ params, cookies }) => {
       metadata: existingMetadata as any,
     });
 
+    if (block.metadata?.template_step_id) {
+      await deleteStepDurationSample(supabase, blockId);
+    }
+
+    if (block.metadata?.chain_id) {
+      const planBlocks = await getTimeBlocksByPlan(supabase, block.planId);
+      await recordChainIntegrity(supabase, user.id, { ...plan, timeBlocks: planBlocks });
+    }
+
     return new Response(JSON.stringify({ block: updated }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { ExitTimeCalculator } from '../../lib/daily-plan/exit-time-calculator';
+import { getTravelProfileFromPreferences, toTravelPreferences } from '../../lib/places/travel-profile';
+import { loadGtfsFeedFromZip, parseGtfsTime } from '../../lib/uk-student/gtfs-feed';
+import { TransitRouter } from '../../lib/uk-student/transit-router';
+import { TravelService } from '../../lib/uk-student/travel-service';
+import { ZipReadError, createZip } from '../../lib/utils/zip';
+import type { Location } from '../../types/uk-student-travel';
+
+const FEED = {
+  'agency.txt': 'agency_id,agency_name,agency_url,agency_timezone\nWMR,West Midlands Railway,https://example.org,Europe/London\n',
+  'stops.txt': [
+    'stop_id,stop_name,stop_lat,stop_lon,location_type',
+    'FWY,Five Ways,52.4751,-1.9180,0',
+    'UNI,University,52.4508,-1.9305,0',
+    'UNI-BUS,University Bus Stop,52.4509,-1.9303,0',
+    'SLY,Selly Oak,52.4373,-1.9364,0',
+  ].join('\n'),
+  'routes.txt': 'route_id,route_short_name,route_long_name,route_type\nXC,Cross City,,2\n61,61,,3\n',
+  'trips.txt': [
+    'route_id,service_id,trip_id,trip_headsign',
+    'XC,WK,T0840,Redditch',
+    'XC,WK,T0910,Redditch',
+    'XC,WK,T0940,Redditch',
+    'XC,WE,T0925-SAT,Redditch',
+    '61,WK,B0925,Selly Oak',
+  ].join('\n'),
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'T0840,08:40:00,08:40:00,FWY,1',
+    'T0840,08:52:00,08:52:00,UNI,2',
+    'T0910,09:10:00,09:10:00,FWY,1',
+    'T0910,09:22:00,09:22:00,UNI,2',
+    'T0940,09:40:00,09:40:00,FWY,1',
+    'T0940,09:52:00,09:52:00,UNI,2',
+    'T0925-SAT,09:25:00,09:25:00,FWY,1',
+    'T0925-SAT,09:37:00,09:37:00,UNI,2',
+    'B0925,09:26:00,09:26:00,UNI-BUS,1',
+    'B0925,09:36:00,09:36:00,SLY,2',
+  ].join('\n'),
+  'calendar.txt': [
+    'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date',
+    'WK,1,1,1,1,1,0,0,20260101,20261231',
+    'WE,0,0,0,0,0,1,1,20260101,20261231',
+  ].join('\n'),
+  'calendar_dates.txt': 'service_id,date,exception_type\nWK,20260305,2\n',
+};
+
+const HOME: [number, number] = [52.4755, -1.9185];
+const CAMPUS: [number, number] = [52.451, -1.93];
+const SELLY_OAK: [number, number] = [52.4375, -1.9362];
+
+async function loadRouter(): Promise<TransitRouter> {
+  const archive = createZip(Object.entries(FEED).map(([path, content]) => ({ path: `feed/${path}`, content })));
+  return new TransitRouter(await loadGtfsFeedFromZip(archive));
+}
+
+describe('GTFS transit routing', () => {
+  it('parses times past midnight', () => {
+    expect(parseGtfsTime('25:10:00')).toBe(25 * 3600 + 600);
+    expect(parseGtfsTime('')).toBeNull();
+  });
+
+  it('rejects a feed with a corrupt deflated file instead of crashing', async () => {
+    const archive = createZip([{ path: 'feed/stops.txt', content: FEED['stops.txt'] }]);
+    const view = new DataView(archive.buffer);
+    // Mark the stored entry as deflated: its bytes are not a valid deflate stream
+    view.setUint16(8, 8, true);
+    view.setUint16(archive.length - 22 - 46 - 'feed/stops.txt'.length + 10, 8, true);
+
+    await expect(loadGtfsFeedFromZip(archive)).rejects.toThrow(ZipReadError);
+  });
+
+  it('leaves for the latest departure that still arrives in time', async () => {
+    const router = await loadRouter();
+    // Wednesday 4 March 2026, GMT
+    const journey = router.planArriveBy(HOME, CAMPUS, new Date('2026-03-04T10:00:00Z'));
+
+    expect(journey?.departure.toISOString()).toBe('2026-03-04T09:40:00.000Z');
+    expect(journey?.leaveAt.toISOString()).toBe('2026-03-04T09:37:00.000Z');
+    expect(journey?.legs).toHaveLength(1);
+    expect(journey?.legs[0]).toMatchObject({ mode: 'train', routeName: 'Cross City', fromStop: 'Five Ways', toStop: 'University' });
+
+    const earlier = router.planArriveBy(HOME, CAMPUS, new Date('2026-03-04T09:30:00Z'));
+    expect(earlier?.departure.toISOString()).toBe('2026-03-04T09:10:00.000Z');
+  });
+
+  it('follows the service calendar and its exceptions', async () => {
+    const router = await loadRouter();
+
+    const saturday = router.planArriveBy(HOME, CAMPUS, new Date('2026-03-07T10:00:00Z'));
+    expect(saturday?.departure.toISOString()).toBe('2026-03-07T09:25:00.000Z');
+
+    // Weekday service removed on Thursday 5 March
+    expect(router.planArriveBy(HOME, CAMPUS, new Date('2026-03-05T10:00:00Z'))).toBeNull();
+  });
+
+  it('keeps only recently planned service days built', async () => {
+    const router = await loadRouter();
+    const cachedDates = () => [...router['connectionsByDate'].keys()];
+
+    for (let day = 1; day <= 20; day++) {
+      router.planArriveBy(HOME, CAMPUS, new Date(Date.UTC(2026, 2, day, 10)));
+    }
+    expect(cachedDates()).toHaveLength(8);
+    expect(cachedDates()).not.toContain('2026-03-04');
+
+    // Planning again rebuilds an evicted day with the same answer
+    const journey = router.planArriveBy(HOME, CAMPUS, new Date('2026-03-04T10:00:00Z'));
+    expect(journey?.departure.toISOString()).toBe('2026-03-04T09:40:00.000Z');
+    expect(cachedDates().slice(-2)).toEqual(['2026-03-03', '2026-03-04']);
+  });
+
+  it('changes between trips with the wait counted', async () => {
+    const router = await loadRouter();
+    const journey = router.planArriveBy(HOME, SELLY_OAK, new Date('2026-03-04T09:45:00Z'));
+
+    expect(journey?.legs.map((leg) => leg.mode)).toEqual(['train', 'bus']);
+    expect(journey?.departure.toISOString()).toBe('2026-03-04T09:10:00.000Z');
+    expect(journey?.waitMinutes).toBe(3);
+
+    expect(router.planArriveBy(HOME, SELLY_OAK, new Date('2026-03-04T09:45:00Z'), { modes: ['train'] })).toBeNull();
+  });
+
+  it("charges the travel profile's train fare for a timetabled journey", async () => {
+    const travelService = new TravelService({ transitRouter: await loadRouter() });
+    const route = await travelService.getOptimalRoute(
+      { name: 'Home', coordinates: HOME, type: 'home' },
+      { name: 'University of Birmingham', coordinates: CAMPUS, type: 'university' },
+      {
+        weather: {
+          temperature: 15,
+          condition: 'sunny',
+          windSpeed: 5,
+          humidity: 50,
+          precipitation: 0,
+          visibility: 10,
+          timestamp: new Date('2026-03-04T08:00:00Z'),
+        },
+        userEnergy: 4,
+        timeConstraints: {
+          departure: new Date('2026-03-04T09:00:00Z'),
+          arrival: new Date('2026-03-04T10:00:00Z'),
+          flexibility: 15,
+        },
+      },
+      toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['train'], train_fare_pence: 150 } }))
+    );
+
+    expect(route).toMatchObject({ method: 'train', cost: 150 });
+  });
+
+  it('ties the exit time to the actual departure', async () => {
+    const travelService = new TravelService({ transitRouter: await loadRouter() });
+    const calculator = new ExitTimeCalculator(travelService);
+    const campus: Location = { name: 'University of Birmingham', coordinates: CAMPUS, type: 'university' };
+
+    const result = await calculator.calculateExitTime(
+      {
+        id: 'lecture',
+        title: 'Lecture',
+        startTime: new Date('2026-03-04T10:00:00Z'),
+        endTime: new Date('2026-03-04T11:00:00Z'),
+        location: campus,
+      },
+      {
+        currentLocation: { name: 'Home', coordinates: HOME, type: 'home' },
+        weather: {
+          temperature: 8,
+          condition: 'rainy',
+          windSpeed: 15,
+          humidity: 90,
+          precipitation: 8,
+          visibility: 5,
+          timestamp: new Date('2026-03-04T07:00:00Z'),
+        },
+      }
+    );
+
+    expect(result.travelMethod).toBe('train');
+    expect(result.departureTime?.toISOString()).toBe('2026-03-04T09:40:00.000Z');
+    // Leave at 09:37 for the 09:40, after 15 minutes getting ready
+    expect(result.exitTime.toISOString()).toBe('2026-03-04T09:22:00.000Z');
+  });
+});
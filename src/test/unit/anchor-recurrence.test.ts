@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/calendar/calendar-service', () => ({
+  calendarService: { getCalendarEvents: vi.fn().mockResolvedValue([]) },
+}));
+
+import { AnchorService } from '../../lib/anchors/anchor-service';
+import {
+  expandRecurrence,
+  parseRecurrenceRule,
+  zonedDateTimeToUtc,
+} from '../../lib/anchors/recurrence';
+import type { ManualAnchorSeries } from '../../lib/anchors/types';
+
+function series(overrides: Partial<ManualAnchorSeries> = {}): ManualAnchorSeries {
+  return {
+    id: 'therapy',
+    user_id: 'user-1',
+    title: 'Therapy',
+    location: 'Clinic',
+    anchor_type: 'appointment',
+    must_attend: true,
+    notes: null,
+    start_date: '2026-03-03',
+    start_local_time: '16:00',
+    duration_minutes: 50,
+    timezone: 'Europe/London',
+    recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU',
+    exdates: [],
+    ...overrides,
+  };
+}
+
+// Minimal chainable stand-in for the Supabase query builder.
+function fakeSupabase(tables: Record<string, any[]>) {
+  return {
+    from(table: string) {
+      let rows = [...(tables[table] || [])];
+      const builder: any = {
+        select: () => builder,
+        order: () => builder,
+        eq: (column: string, value: unknown) => {
+          rows = rows.filter(row => row[column] === value);
+          return builder;
+        },
+        lte: (column: string, value: string) => {
+          rows = rows.filter(row => String(row[column]) <= value);
+          return builder;
+        },
+        then: (resolve: (result: unknown) => unknown) => resolve({ data: rows, error: null }),
+      };
+      return builder;
+    },
+  };
+}
+
+describe('recurring manual anchors', () => {
+  it('expands biweekly and multi-weekday rules', () => {
+    const biweekly = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU');
+    expect(expandRecurrence(biweekly, '2026-03-03', '2026-03-01', '2026-03-31')).toEqual([
+      '2026-03-03',
+      '2026-03-17',
+      '2026-03-31',
+    ]);
+
+    const twiceWeekly = parseRecurrenceRule('RRULE:FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20260312');
+    expect(expandRecurrence(twiceWeekly, '2026-03-02', '2026-03-01', '2026-03-31')).toEqual([
+      '2026-03-02',
+      '2026-03-05',
+      '2026-03-09',
+      '2026-03-12',
+    ]);
+  });
+
+  it('counts excluded dates towards COUNT', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;COUNT=3', '2026-03-03');
+    expect(expandRecurrence(rule, '2026-03-03', '2026-03-01', '2026-04-30', ['2026-03-10'])).toEqual([
+      '2026-03-03',
+      '2026-03-17',
+    ]);
+  });
+
+  it('expands monthly rules on the start day of the month', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;INTERVAL=2', '2026-01-15');
+    expect(expandRecurrence(rule, '2026-01-15', '2026-01-01', '2026-06-30')).toEqual([
+      '2026-01-15',
+      '2026-03-15',
+      '2026-05-15',
+    ]);
+  });
+
+  it('expands monthly rules by position and day of the month', () => {
+    const firstMonday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1', '2026-03-02');
+    expect(expandRecurrence(firstMonday, '2026-03-02', '2026-03-01', '2026-05-31')).toEqual([
+      '2026-03-02',
+      '2026-04-06',
+      '2026-05-04',
+    ]);
+
+    const lastFriday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1', '2026-03-27');
+    expect(expandRecurrence(lastFriday, '2026-03-27', '2026-03-01', '2026-04-30')).toEqual(['2026-03-27', '2026-04-24']);
+
+    const twiceMonthly = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,15', '2026-03-01');
+    expect(expandRecurrence(twiceMonthly, '2026-03-01', '2026-03-01', '2026-04-30')).toEqual([
+      '2026-03-01',
+      '2026-03-15',
+      '2026-04-01',
+      '2026-04-15',
+    ]);
+
+    const termOnly = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1;BYMONTH=1,2', '2026-01-31');
+    expect(expandRecurrence(termOnly, '2026-01-31', '2026-01-01', '2026-12-31')).toEqual(['2026-01-31', '2026-02-28']);
+  });
+
+  it('rejects unsupported rules', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow('Unsupported RRULE frequency');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Unsupported RRULE weekday');
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO')).toThrow('Unsupported RRULE weekday');
+    expect(() => parseRecurrenceRule('FREQ=DAILY;BYHOUR=9')).toThrow('Unsupported RRULE part');
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO;BYSETPOS=1')).toThrow('BYSETPOS');
+    expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=32')).toThrow('Invalid RRULE BYMONTHDAY');
+  });
+
+  it('converts series wall-clock times across DST', () => {
+    expect(zonedDateTimeToUtc('2026-03-17', '16:00', 'Europe/London').toISOString()).toBe('2026-03-17T16:00:00.000Z');
+    expect(zonedDateTimeToUtc('2026-03-31', '16:00', 'Europe/London').toISOString()).toBe('2026-03-31T15:00:00.000Z');
+  });
+
+  it('expands series into anchors and skips individually edited occurrences', async () => {
+    const service = new AnchorService();
+    const supabase = fakeSupabase({
+      manual_anchor_series: [
+        series(),
+        series({ id: 'gym', title: 'Gym class', recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU', start_local_time: '08:00' }),
+      ],
+      manual_anchors: [
+        {
+          id: 'moved-gym',
+          user_id: 'user-1',
+          series_id: 'gym',
+          occurrence_date: '2026-03-17',
+          anchor_date: '2026-03-17',
+          title: 'Gym class (late slot)',
+          start_time: '2026-03-17T18:00:00.000Z',
+          end_time: '2026-03-17T18:50:00.000Z',
+          anchor_type: 'other',
+          must_attend: true,
+        },
+      ],
+    });
+
+    const anchors = await service.getAnchorsForDate(new Date('2026-03-17T00:00:00.000Z'), 'user-1', supabase);
+
+    expect(anchors.map(anchor => anchor.title)).toEqual(['Therapy', 'Gym class (late slot)']);
+    expect(anchors[0].id).toBe('series-therapy-2026-03-17');
+    expect(anchors[0].end.getTime() - anchors[0].start.getTime()).toBe(50 * 60000);
+
+    const offWeek = await service.getAnchorsForDate(new Date('2026-03-10T00:00:00.000Z'), 'user-1', supabase);
+    expect(offWeek.map(anchor => anchor.title)).toEqual(['Gym class']);
+  });
+});
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const createServerClientMock = vi.fn();
+
+vi.mock('../../lib/supabase/server', () => ({
+  createServerClient: (...args: unknown[]) => createServerClientMock(...args),
+}));
+
+import { PATCH } from '../../pages/api/anchors/series/[id]';
+
+function buildSupabaseMock(series: Record<string, unknown>) {
+  const query: any = {
+    select: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    maybeSingle: vi.fn(async () => ({ data: query.table === 'manual_anchor_series' ? series : null, error: null })),
+  };
+
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+    },
+    from: vi.fn((table: string) => {
+      query.table = table;
+      return query;
+    }),
+  };
+}
+
+describe('anchor series API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('PATCH returns 400 when the stored recurrence rule cannot be read', async () => {
+    createServerClientMock.mockReturnValue(buildSupabaseMock({
+      id: 'series-1',
+      user_id: 'user-1',
+      recurrence_rule: 'FREQ=HOURLY',
+      start_date: '2026-03-02',
+      exdates: [],
+    }));
+
+    const response = await PATCH({
+      params: { id: 'series-1' },
+      request: new Request('http://localhost/api/anchors/series/series-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ scope: 'occurrence', occurrence_date: '2026-03-09', title: 'Moved lecture' }),
+      }),
+      cookies: {} as never,
+    } as never);
+
+    expect(response.status).toBe(400);
+    const payload = await response.json();
+    expect(payload.error).toBe('Invalid recurrence rule');
+    expect(payload.details).toContain('HOURLY');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { buildChainIntegrityRecord, buildChainIntegrityReport, recordChainIntegrity } from '../../lib/chains/chain-history';
+import { reconstructChainsFromTimeBlocks } from '../../lib/chains/plan-chains';
+import type { ChainIntegrityRecord } from '../../lib/chains/types';
+import type { DailyPlan, TimeBlock } from '../../types/daily-plan';
+
+const planDate = new Date('2026-03-02T00:00:00.000Z');
+
+function chainBlock(
+  id: string,
+  name: string,
+  start: string,
+  end: string,
+  overrides: Partial<TimeBlock> = {},
+  metadata: Record<string, unknown> = {}
+): TimeBlock {
+  return {
+    id,
+    planId: 'plan-1',
+    startTime: new Date(start),
+    endTime: new Date(end),
+    activityType: 'routine',
+    activityName: name,
+    isFixed: false,
+    sequenceOrder: 1,
+    status: 'pending',
+    createdAt: planDate,
+    updatedAt: planDate,
+    ...overrides,
+    metadata: {
+      chain_id: 'chain-1',
+      anchor_id: 'lecture',
+      anchor_title: 'Lecture',
+      anchor_type: 'class',
+      anchor_start: '2026-03-02T10:00:00.000Z',
+      anchor_end: '2026-03-02T11:00:00.000Z',
+      role: { type: id === 'gate' ? 'exit-gate' : 'chain-step', required: true, chain_id: 'chain-1' },
+      ...metadata,
+    } as never,
+  };
+}
+
+function planWith(blocks: TimeBlock[]): DailyPlan {
+  return {
+    id: 'plan-1',
+    userId: 'user-1',
+    planDate,
+    wakeTime: planDate,
+    sleepTime: planDate,
+    energyState: 'medium',
+    status: 'active',
+    createdAt: planDate,
+    updatedAt: planDate,
+    timeBlocks: blocks,
+  } as DailyPlan;
+}
+
+function record(overrides: Partial<ChainIntegrityRecord>): ChainIntegrityRecord {
+  return {
+    chain_id: 'c',
+    plan_id: 'p',
+    plan_date: '2026-03-02',
+    anchor_id: 'a',
+    anchor_title: 'Lecture',
+    anchor_type: 'class',
+    status: 'completed',
+    chain_integrity: 'intact',
+    was_late: false,
+    late_minutes: null,
+    steps_total: 3,
+    steps_completed: 3,
+    missed_steps: [],
+    degradation_events: [],
+    evaluated_at: '2026-03-02T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// chain_integrity_history with its unique (user_id, plan_date, anchor_id) index
+function historyTable() {
+  const rows: Record<string, any>[] = [];
+  const supabase = {
+    from: () => ({
+      upsert: async (records: Record<string, any>[], { onConflict }: { onConflict: string }) => {
+        const keys = onConflict.split(',');
+        for (const record of records) {
+          const index = rows.findIndex((row) => keys.every((key) => row[key] === record[key]));
+          if (index >= 0) rows[index] = { ...rows[index], ...record };
+          else rows.push(record);
+        }
+        return { error: null };
+      },
+      delete: () => {
+        const filters: Array<(row: Record<string, any>) => boolean> = [];
+        const query: any = {
+          eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), query),
+          in: (column: string, values: unknown[]) => {
+            filters.push((row) => values.includes(row[column]));
+            const kept = rows.filter((row) => !filters.every((filter) => filter(row)));
+            rows.splice(0, rows.length, ...kept);
+            return Promise.resolve({ error: null });
+          },
+        };
+        return query;
+      },
+    }),
+  };
+  return { rows, supabase: supabase as never };
+}
+
+describe('chain integrity history', () => {
+  it('records a late but complete chain as intact', () => {
+    const plan = planWith([
+      chainBlock('shower', 'Shower', '2026-03-02T09:00:00.000Z', '2026-03-02T09:15:00.000Z', { status: 'completed' }),
+      chainBlock('gate', 'Exit gate', '2026-03-02T09:15:00.000Z', '2026-03-02T09:20:00.000Z', { status: 'completed' }, {
+        completed_at: '2026-03-02T09:32:00.000Z',
+      }),
+    ]);
+    const [chain] = reconstructChainsFromTimeBlocks(plan);
+
+    const result = buildChainIntegrityRecord(chain, plan, new Date('2026-03-02T09:40:00.000Z'));
+    expect(result).toMatchObject({
+      status: 'completed',
+      chain_integrity: 'intact',
+      was_late: true,
+      late_minutes: 12,
+      plan_date: '2026-03-02',
+      anchor_type: 'class',
+    });
+  });
+
+  it('records missed required steps once the anchor starts, including untouched chains', () => {
+    const blocks = [
+      chainBlock('shower', 'Shower', '2026-03-02T09:00:00.000Z', '2026-03-02T09:15:00.000Z', { status: 'completed' }),
+      chainBlock('pack', 'Pack bag', '2026-03-02T09:15:00.000Z', '2026-03-02T09:20:00.000Z', {}, { template_step_id: 'pack-bag' }),
+      chainBlock('gate', 'Exit gate', '2026-03-02T09:20:00.000Z', '2026-03-02T09:25:00.000Z'),
+    ];
+    const [chain] = reconstructChainsFromTimeBlocks(planWith(blocks));
+
+    expect(buildChainIntegrityRecord(chain, planWith(blocks), new Date('2026-03-02T09:18:00.000Z'))).toBeNull();
+
+    const broken = buildChainIntegrityRecord(chain, planWith(blocks), new Date('2026-03-02T10:05:00.000Z'));
+    expect(broken?.chain_integrity).toBe('broken');
+    expect(broken?.missed_steps.map(step => step.template_step_id)).toEqual(['pack-bag', null]);
+
+    const untouched = reconstructChainsFromTimeBlocks(planWith(blocks.map(block => ({ ...block, status: 'pending' }))))[0];
+    expect(buildChainIntegrityRecord(untouched, planWith(blocks), new Date('2026-03-02T09:18:00.000Z'))).toBeNull();
+    expect(buildChainIntegrityRecord(untouched, planWith(blocks), new Date('2026-03-02T10:05:00.000Z'))).toMatchObject({
+      status: 'failed',
+      chain_integrity: 'broken',
+      steps_completed: 0,
+    });
+  });
+
+  it('reports breaking steps, hardest anchor types and the weekly trend', () => {
+    const missedPack = [{ template_step_id: 'pack-bag', name: 'Pack bag', required: true, skipped: false }];
+    const report = buildChainIntegrityReport([
+      record({ plan_date: '2026-02-17', chain_integrity: 'broken', status: 'failed', missed_steps: missedPack }),
+      record({ plan_date: '2026-02-18', chain_integrity: 'broken', status: 'failed', anchor_type: 'appointment', missed_steps: missedPack }),
+      record({ plan_date: '2026-02-25' }),
+      record({ plan_date: '2026-03-02', was_late: true }),
+      record({ plan_date: '2026-03-03' }),
+    ], new Date('2026-03-04T12:00:00.000Z'), 3);
+
+    expect(report.weekly.map(week => week.week_start)).toEqual(['2026-02-16', '2026-02-23', '2026-03-02']);
+    expect(report.weekly.map(week => week.integrity_rate)).toEqual([0, 1, 1]);
+    expect(report.totals).toMatchObject({ chains: 5, intact: 3, broken: 2, late_but_intact: 1, integrity_rate: 0.6 });
+    expect(report.breaking_steps[0]).toMatchObject({ step_id: 'pack-bag', broken_chains: 2, share_of_broken: 1 });
+    expect(report.anchor_types[0].anchor_type).toBe('appointment');
+    expect(report.trend).toBe('improving');
+  });
+
+  it("keeps one record per anchor when the day's plan is generated again", async () => {
+    const { rows, supabase } = historyTable();
+    const done = { status: 'completed' as const };
+    const firstPlan = planWith([
+      chainBlock('shower', 'Shower', '2026-03-02T09:00:00.000Z', '2026-03-02T09:15:00.000Z', done),
+      chainBlock('gate', 'Exit gate', '2026-03-02T09:15:00.000Z', '2026-03-02T09:20:00.000Z', done),
+    ]);
+    await recordChainIntegrity(supabase, 'user-1', firstPlan, new Date('2026-03-02T09:30:00.000Z'));
+
+    // Regenerated: same anchor, new plan and chain ids, and this time the shower was missed
+    const regenerated = {
+      ...planWith([
+        chainBlock('shower-2', 'Shower', '2026-03-02T09:00:00.000Z', '2026-03-02T09:15:00.000Z', {}, { chain_id: 'chain-2' }),
+        chainBlock('gate', 'Exit gate', '2026-03-02T09:15:00.000Z', '2026-03-02T09:20:00.000Z', done, { chain_id: 'chain-2' }),
+      ]),
+      id: 'plan-2',
+    };
+    await recordChainIntegrity(supabase, 'user-1', regenerated, new Date('2026-03-02T10:05:00.000Z'));
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ anchor_id: 'lecture', plan_id: 'plan-2', chain_id: 'chain-2', chain_integrity: 'broken' });
+
+    // Un-completing the gate before the anchor starts removes the anchor's record
+    const reopened = {
+      ...regenerated,
+      timeBlocks: regenerated.timeBlocks!.map((block) => ({ ...block, status: 'pending' as const })),
+    };
+    await recordChainIntegrity(supabase, 'user-1', reopened, new Date('2026-03-02T09:18:00.000Z'));
+    expect(rows).toEqual([]);
+  });
+});
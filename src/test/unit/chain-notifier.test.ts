@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildChainNotifications } from '../../lib/chains/chain-notifier';
+import type { ChainStepInstance, ExecutionChain } from '../../lib/chains/types';
+
+function step(
+  id: string,
+  name: string,
+  start: string,
+  end: string,
+  overrides: Partial<ChainStepInstance> = {}
+): ChainStepInstance {
+  const startTime = new Date(`2026-03-02T${start}:00.000Z`);
+  const endTime = new Date(`2026-03-02T${end}:00.000Z`);
+  return {
+    step_id: id,
+    chain_id: 'chain-1',
+    name,
+    start_time: startTime,
+    end_time: endTime,
+    duration: (endTime.getTime() - startTime.getTime()) / 60000,
+    is_required: true,
+    can_skip_when_late: false,
+    status: 'pending',
+    role: 'chain-step',
+    ...overrides,
+  };
+}
+
+function chain(steps: ChainStepInstance[]): ExecutionChain {
+  return {
+    chain_id: 'chain-1',
+    anchor_id: 'lecture',
+    anchor: {
+      id: 'lecture',
+      title: 'Algorithms lecture',
+      start: new Date('2026-03-02T10:00:00.000Z'),
+      end: new Date('2026-03-02T11:00:00.000Z'),
+      type: 'class',
+      must_attend: true,
+      calendar_event_id: 'lecture',
+    },
+    chain_completion_deadline: new Date('2026-03-02T09:30:00.000Z'),
+    steps,
+    commitment_envelope: {} as ExecutionChain['commitment_envelope'],
+    status: 'pending',
+  };
+}
+
+describe('chain execution notifier schedule', () => {
+  it('nudges before each step ends with the next open step', () => {
+    const notifications = buildChainNotifications([chain([
+      step('shower', 'Shower', '09:00', '09:15'),
+      step('breakfast', 'Breakfast', '09:15', '09:20', { status: 'skipped' }),
+      step('dress', 'Dress', '09:20', '09:25'),
+      step('gate', 'Exit gate', '09:25', '09:30', { role: 'exit-gate' }),
+    ])], new Date('2026-03-02T08:00:00.000Z'));
+
+    const ending = notifications.find(notification => notification.id === 'chain-shower-ending');
+    expect(ending?.title).toBe('Shower ends in 5 min');
+    expect(ending?.body).toBe('Next: Dress');
+    expect(new Date(ending!.fire_at).toISOString()).toBe('2026-03-02T09:10:00.000Z');
+
+    // 5-minute steps have no room for an ending nudge
+    expect(notifications.some(notification => notification.id === 'chain-dress-ending')).toBe(false);
+    expect(notifications.some(notification => notification.step_id === 'breakfast')).toBe(false);
+
+    const deadline = notifications.find(notification => notification.kind === 'exit-deadline');
+    expect(deadline?.title).toBe('Leave now for Algorithms lecture');
+    expect(new Date(deadline!.fire_at).toISOString()).toBe('2026-03-02T09:30:00.000Z');
+  });
+
+  it('drops completed steps and anything already due', () => {
+    const notifications = buildChainNotifications([chain([
+      step('shower', 'Shower', '09:00', '09:15', { status: 'completed' }),
+      step('dress', 'Dress', '09:15', '09:30'),
+      step('gate', 'Exit gate', '09:30', '09:35', { role: 'exit-gate' }),
+    ])], new Date('2026-03-02T09:16:00.000Z'));
+
+    expect(notifications.map(notification => notification.id)).toEqual([
+      'chain-dress-ending',
+      'chain-gate-deadline',
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyPlan, TimeBlock } from '../../types/daily-plan';
+
+const createServerClientMock = vi.fn();
+const getDailyPlanMock = vi.fn();
+const getDailyPlanWithBlocksMock = vi.fn();
+const updateTimeBlockMock = vi.fn();
+const createTimeBlocksMock = vi.fn();
+const deleteTimeBlockMock = vi.fn();
+const updateDailyPlanMock = vi.fn();
+
+vi.mock('../../lib/supabase/server', () => ({
+  createServerClient: (...args: unknown[]) => createServerClientMock(...args),
+}));
+
+vi.mock('../../lib/daily-plan/database', () => ({
+  getDailyPlan: (...args: unknown[]) => getDailyPlanMock(...args),
+  getDailyPlanWithBlocks: (...args: unknown[]) => getDailyPlanWithBlocksMock(...args),
+  updateTimeBlock: (...args: unknown[]) => updateTimeBlockMock(...args),
+  createTimeBlocks: (...args: unknown[]) => createTimeBlocksMock(...args),
+  deleteTimeBlock: (...args: unknown[]) => deleteTimeBlockMock(...args),
+  updateDailyPlan: (...args: unknown[]) => updateDailyPlanMock(...args),
+  createDailyPlan: vi.fn(),
+  createExitTimes: vi.fn(),
+  createTimeBlock: vi.fn(),
+  getDailyPlanByDateWithBlocks: vi.fn(),
+}));
+
+vi.mock('../../lib/calendar/calendar-service', () => ({
+  calendarService: { getCalendarEvents: vi.fn() },
+}));
+
+vi.mock('../../lib/task-management/task-service', () => ({
+  TaskService: vi.fn(),
+}));
+
+import { PlanBuilderService, placeCollapseRecoveryBlocks } from '../../lib/daily-plan/plan-builder';
+import { POST as collapsePOST } from '../../pages/api/daily-plan/[id]/collapse';
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60000);
+}
+
+function block(overrides: Partial<TimeBlock>): TimeBlock {
+  return {
+    id: 'tb',
+    planId: 'plan-1',
+    startTime: minutesFromNow(60),
+    endTime: minutesFromNow(70),
+    activityType: 'routine',
+    activityName: 'Block',
+    isFixed: false,
+    sequenceOrder: 1,
+    status: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function plan(overrides: Partial<DailyPlan>): DailyPlan {
+  return {
+    id: 'plan-1',
+    userId: 'user-1',
+    planDate: new Date(),
+    wakeTime: minutesFromNow(-180),
+    sleepTime: minutesFromNow(600),
+    energyState: 'medium',
+    status: 'active',
+    generatedAt: new Date(),
+    generatedAfterNow: false,
+    planStart: minutesFromNow(-180),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Collapse Mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('places recovery blocks around kept anchors', () => {
+    const start = new Date('2026-02-20T10:00:00.000Z');
+    const sleep = new Date('2026-02-20T23:00:00.000Z');
+    const anchor = block({
+      startTime: new Date('2026-02-20T10:15:00.000Z'),
+      endTime: new Date('2026-02-20T11:00:00.000Z'),
+    });
+
+    const placements = placeCollapseRecoveryBlocks(start, sleep, [anchor]);
+
+    expect(placements.map((p) => p.kind)).toEqual(['eat', 'meds', 'hygiene', 'rest']);
+    expect(placements[0].startTime.toISOString()).toBe('2026-02-20T11:00:00.000Z');
+    for (const placement of placements) {
+      expect(placement.startTime < anchor.endTime && placement.endTime > anchor.startTime).toBe(false);
+    }
+  });
+
+  it('keeps must-attend required chain steps and drops everything else ahead', async () => {
+    const keptStep = block({
+      id: 'keep',
+      metadata: { role: { type: 'chain-step', required: true }, anchor_must_attend: true },
+    });
+    const optionalAnchorStep = block({
+      id: 'optional-anchor',
+      metadata: { role: { type: 'chain-step', required: true }, anchor_must_attend: false },
+    });
+    const task = block({ id: 'task', activityType: 'task' });
+    const pastTask = block({
+      id: 'past',
+      activityType: 'task',
+      startTime: minutesFromNow(-60),
+      endTime: minutesFromNow(-30),
+    });
+
+    getDailyPlanWithBlocksMock.mockResolvedValue(
+      plan({ timeBlocks: [keptStep, optionalAnchorStep, task, pastTask] })
+    );
+    createTimeBlocksMock.mockResolvedValue([]);
+
+    const service = new PlanBuilderService({} as never);
+    await service.collapsePlan('plan-1');
+
+    const droppedIds = updateTimeBlockMock.mock.calls.map(([, id]) => id);
+    expect(droppedIds).toEqual(['optional-anchor', 'task']);
+    expect(updateTimeBlockMock.mock.calls[0][2].metadata.collapse_dropped).toBe(true);
+
+    const [, createdBlocks] = createTimeBlocksMock.mock.calls[0];
+    expect(createdBlocks.every((created: any) => created.metadata.collapse_recovery)).toBe(true);
+
+    const [, , planUpdates] = updateDailyPlanMock.mock.calls[0];
+    expect(planUpdates.status).toBe('collapsed');
+    expect(planUpdates.pre_collapse_status).toBe('active');
+  });
+
+  it('restores dropped blocks and previous status when exiting', async () => {
+    const dropped = block({
+      id: 'dropped',
+      status: 'skipped',
+      skipReason: 'Dropped for Collapse Mode',
+      metadata: { collapse_dropped: true },
+    });
+    const pendingRecovery = block({ id: 'recovery', metadata: { collapse_recovery: true } });
+    const doneRecovery = block({ id: 'done', status: 'completed', metadata: { collapse_recovery: true } });
+
+    getDailyPlanWithBlocksMock.mockResolvedValue(
+      plan({
+        status: 'collapsed',
+        preCollapseStatus: 'degraded',
+        timeBlocks: [dropped, pendingRecovery, doneRecovery],
+      })
+    );
+
+    const service = new PlanBuilderService({} as never);
+    await service.exitCollapseMode('plan-1');
+
+    expect(deleteTimeBlockMock).toHaveBeenCalledTimes(1);
+    expect(deleteTimeBlockMock.mock.calls[0][1]).toBe('recovery');
+
+    const [, restoredId, updates] = updateTimeBlockMock.mock.calls[0];
+    expect(restoredId).toBe('dropped');
+    expect(updates.status).toBe('pending');
+    expect(updates.metadata.collapse_dropped).toBeUndefined();
+
+    const [, , planUpdates] = updateDailyPlanMock.mock.calls[0];
+    expect(planUpdates.status).toBe('degraded');
+  });
+
+  it('rejects collapsing a plan that is already collapsed', async () => {
+    createServerClientMock.mockReturnValue({
+      auth: {
+        getUser: vi.fn().mockResolvedValue({
+          data: { user: { id: 'user-1' } },
+          error: null,
+        }),
+      },
+    });
+    getDailyPlanMock.mockResolvedValue(plan({ status: 'collapsed' }));
+
+    const response = await collapsePOST({
+      params: { id: 'plan-1' },
+      cookies: {} as never,
+    } as never);
+
+    expect(response.status).toBe(400);
+    expect(getDailyPlanWithBlocksMock).not.toHaveBeenCalled();
+  });
+});
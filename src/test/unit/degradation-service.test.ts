@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyPlan, TimeBlock } from '../../types/daily-plan';
+
+const getDailyPlanWithBlocksMock = vi.fn();
+const updateTimeBlockMock = vi.fn();
+
+vi.mock('../../lib/daily-plan/database', () => ({
+  getDailyPlanWithBlocks: (...args: unknown[]) => getDailyPlanWithBlocksMock(...args),
+  updateTimeBlock: (...args: unknown[]) => updateTimeBlockMock(...args),
+  createTimeBlock: vi.fn(async () => ({})),
+  deleteTimeBlock: vi.fn(),
+  updateDailyPlan: vi.fn(),
+  createTimeBlocks: vi.fn(),
+  createDailyPlan: vi.fn(),
+  createExitTimes: vi.fn(),
+  getDailyPlan: vi.fn(),
+  getDailyPlanByDateWithBlocks: vi.fn(),
+}));
+
+vi.mock('../../lib/calendar/calendar-service', () => ({
+  calendarService: { getCalendarEvents: vi.fn() },
+}));
+
+vi.mock('../../lib/task-management/task-service', () => ({
+  TaskService: vi.fn(),
+}));
+
+import { DegradationService } from '../../lib/chains/degradation-service';
+import type { ChainStepInstance, ExecutionChain } from '../../lib/chains/types';
+import { PlanBuilderService } from '../../lib/daily-plan/plan-builder';
+
+const chainStart = new Date('2026-02-19T08:00:00.000Z');
+
+function step(
+  id: string,
+  offsetMinutes: number,
+  duration: number,
+  overrides: Partial<ChainStepInstance> = {}
+): ChainStepInstance {
+  const start = new Date(chainStart.getTime() + offsetMinutes * 60000);
+  return {
+    step_id: id,
+    chain_id: 'chain-1',
+    name: id,
+    start_time: start,
+    end_time: new Date(start.getTime() + duration * 60000),
+    duration,
+    is_required: true,
+    can_skip_when_late: false,
+    status: 'pending',
+    role: 'chain-step',
+    ...overrides,
+  };
+}
+
+function buildChain(): ExecutionChain {
+  const steps = [
+    step('bathroom', 0, 10),
+    step('Skincare', 10, 10, { is_required: false, can_skip_when_late: true, degrade_priority: 5 }),
+    step('Shower', 20, 15, { is_required: false, can_skip_when_late: true, degrade_priority: 20 }),
+    step('dress', 35, 10),
+  ];
+
+  return {
+    chain_id: 'chain-1',
+    anchor_id: 'anchor-1',
+    anchor: {
+      id: 'anchor-1',
+      title: 'Lecture',
+      start: new Date('2026-02-19T10:00:00.000Z'),
+      end: new Date('2026-02-19T11:00:00.000Z'),
+      type: 'class',
+      must_attend: true,
+      calendar_event_id: 'anchor-1',
+    },
+    chain_completion_deadline: new Date('2026-02-19T08:45:00.000Z'),
+    steps,
+    commitment_envelope: {} as ExecutionChain['commitment_envelope'],
+    status: 'pending',
+  };
+}
+
+describe('DegradationService degradation ladder', () => {
+  const service = new DegradationService();
+
+  it('does nothing when on time', () => {
+    const chain = buildChain();
+    const degraded = service.degradeChain(chain, chainStart);
+
+    expect(degraded.steps.every((s) => s.status === 'pending')).toBe(true);
+    expect(degraded.metadata?.degradation_events).toEqual([]);
+  });
+
+  it('sheds only the lowest-priority optional step when a little late', () => {
+    const chain = buildChain();
+    const degraded = service.degradeChain(chain, new Date(chainStart.getTime() + 8 * 60000));
+
+    const skincare = degraded.steps.find((s) => s.step_id === 'Skincare')!;
+    const shower = degraded.steps.find((s) => s.step_id === 'Shower')!;
+    expect(skincare.status).toBe('skipped');
+    expect(skincare.skip_reason).toBe('Dropped skincare to save 10 min');
+    expect(skincare.metadata?.degradation?.minutes_late).toBe(8);
+    expect(shower.status).toBe('pending');
+    expect(degraded.metadata?.degradation_events).toHaveLength(1);
+    expect(service.getDroppedSteps(chain, degraded)).toEqual(['Skincare']);
+  });
+
+  it('adds further tiers as lateness grows and never drops required steps', () => {
+    const first = service.degradeChain(buildChain(), new Date(chainStart.getTime() + 8 * 60000));
+    const second = service.degradeChain(first, new Date(chainStart.getTime() + 20 * 60000));
+
+    const events = second.metadata?.degradation_events || [];
+    expect(events.map((e) => e.tier)).toEqual([1, 2]);
+    expect(events[1].step_name).toBe('Shower');
+    expect(service.areRequiredStepsPreserved(second)).toBe(true);
+  });
+});
+
+describe('PlanBuilderService.degradePlan degradation ladder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function chainBlock(id: string, offsetMinutes: number, duration: number, metadata: Record<string, unknown> = {}): TimeBlock {
+    const startTime = new Date(chainStart.getTime() + offsetMinutes * 60000);
+    return {
+      id,
+      planId: 'plan-1',
+      startTime,
+      endTime: new Date(startTime.getTime() + duration * 60000),
+      activityType: 'routine',
+      activityName: id,
+      isFixed: false,
+      sequenceOrder: offsetMinutes,
+      status: 'pending',
+      createdAt: chainStart,
+      updatedAt: chainStart,
+      metadata: { chain_id: 'chain-1', step_id: id, role: { type: 'chain-step', required: true }, ...metadata },
+    };
+  }
+
+  it('sheds optional chain steps tier by tier and records why on their blocks', async () => {
+    const optional = { role: { type: 'chain-step', required: false }, can_skip_when_late: true };
+    const plan: DailyPlan = {
+      id: 'plan-1',
+      userId: 'user-1',
+      planDate: chainStart,
+      wakeTime: new Date(chainStart.getTime() - 60 * 60000),
+      sleepTime: new Date(chainStart.getTime() + 14 * 60 * 60000),
+      energyState: 'medium',
+      status: 'active',
+      generatedAt: chainStart,
+      generatedAfterNow: false,
+      planStart: chainStart,
+      createdAt: chainStart,
+      updatedAt: chainStart,
+      timeBlocks: [
+        chainBlock('bathroom', 0, 10),
+        chainBlock('skincare', 10, 10, { ...optional, degrade_priority: 5 }),
+        chainBlock('shower', 20, 15, { ...optional, degrade_priority: 20 }),
+        chainBlock('dress', 35, 10),
+      ],
+    };
+    getDailyPlanWithBlocksMock.mockResolvedValue(plan);
+    updateTimeBlockMock.mockResolvedValue({});
+
+    await new PlanBuilderService({} as never).degradePlan('plan-1', new Date(chainStart.getTime() + 8 * 60000));
+
+    const skipped = updateTimeBlockMock.mock.calls.filter(([, , updates]) => updates.status === 'skipped');
+    expect(skipped.map(([, id]) => id)).toEqual(['skincare']);
+    expect(skipped[0][2].skip_reason).toBe('Dropped skincare to save 10 min');
+    expect(skipped[0][2].metadata.degradation).toMatchObject({ tier: 1, minutes_late: 8, minutes_saved: 10 });
+    expect(skipped[0][2].metadata.chain_id).toBe('chain-1');
+  });
+});
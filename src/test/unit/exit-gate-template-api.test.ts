@@ -95,4 +95,31 @@ describe('exit gate template API', () => {
     expect(payload.user_id).toBe('user-1');
     expect(payload.preferences.exit_gate_template.gate_conditions).toBeDefined();
   });
+
+  it('PUT saves anchor type variants without resetting the base checklist', async () => {
+    const supabaseMock = buildSupabaseMock({
+      preferences: {
+        exit_gate_template: {
+          gate_conditions: [{ id: 'keys', name: 'Keys present', satisfied: false }],
+        },
+      },
+    });
+    createServerClientMock.mockReturnValue(supabaseMock);
+
+    const request = new Request('http://localhost/api/daily-plan/exit-gate-template', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        variants: {
+          class: { add: [{ id: 'laptop', name: 'Laptop' }] },
+        },
+      }),
+    });
+
+    const response = await PUT({ request, cookies: {} as never } as never);
+    expect(response.status).toBe(200);
+    const [payload] = supabaseMock.__spies.upsert.mock.calls[0];
+    expect(payload.preferences.exit_gate_template.gate_conditions.map((c: any) => c.id)).toEqual(['keys']);
+    expect(payload.preferences.exit_gate_template.variants.class.add[0].id).toBe('laptop');
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GATE_CONDITIONS,
+  ExitGateService,
+  getExitGateTemplateFromPreferences,
+  resolveGateConditionsForAnchor,
+} from '../../lib/chains/exit-gate';
+import { findVerifiedConditionIds, habitMatchesSource } from '../../lib/chains/gate-verification';
+
+describe('exit gate variants', () => {
+  it('adds and removes conditions for the bound anchor type only', () => {
+    const template = getExitGateTemplateFromPreferences({
+      exit_gate_template: {
+        gate_conditions: DEFAULT_GATE_CONDITIONS,
+        variants: {
+          class: {
+            add: [{ id: 'laptop', name: 'Laptop' }, { id: 'student-card', name: 'Student card' }],
+            remove: ['cat-fed'],
+          },
+          party: { add: [{ id: 'gift', name: 'Gift' }] },
+        },
+      },
+    });
+
+    expect(Object.keys(template.variants)).toEqual(['class']);
+
+    const classIds = resolveGateConditionsForAnchor(template.gate_conditions, template.variants, 'class')
+      .map((condition) => condition.id);
+    expect(classIds).toContain('laptop');
+    expect(classIds).toContain('student-card');
+    expect(classIds).not.toContain('cat-fed');
+
+    const appointmentIds = resolveGateConditionsForAnchor(template.gate_conditions, template.variants, 'appointment')
+      .map((condition) => condition.id);
+    expect(appointmentIds).toEqual(DEFAULT_GATE_CONDITIONS.map((condition) => condition.id));
+  });
+});
+
+describe('exit gate auto-verification', () => {
+  const habits = [
+    { id: 'h-meds', name: 'MEDS' },
+    { id: 'h-cat', name: 'Feed the cat' },
+    { id: 'h-vacation', name: 'Plan vacation' },
+  ];
+
+  it('matches habits by whole-word name or id', () => {
+    expect(habitMatchesSource(habits[0], { type: 'habit', habit_name: 'meds' })).toBe(true);
+    expect(habitMatchesSource(habits[1], { type: 'habit', habit_name: 'cat' })).toBe(true);
+    expect(habitMatchesSource(habits[2], { type: 'habit', habit_name: 'cat' })).toBe(false);
+    expect(habitMatchesSource(habits[2], { type: 'habit', habit_id: 'h-vacation' })).toBe(true);
+  });
+
+  it('ticks sourced conditions from entries logged on the plan date', () => {
+    const entries = [
+      { habit_id: 'h-meds', value: 1, date: '2026-03-02', logged_at: '2026-03-02T07:10:00.000Z' },
+      { habit_id: 'h-cat', value: 1, date: '2026-03-01', logged_at: '2026-03-01T07:10:00.000Z' },
+    ];
+
+    const service = ExitGateService.createDefault();
+    const verified = findVerifiedConditionIds(service.getAllConditions(), habits, entries, '2026-03-02');
+    expect(verified).toEqual(['meds']);
+
+    service.toggleCondition('keys', true);
+    expect(service.applyVerifiedConditions([...verified, 'keys'])).toEqual(['meds']);
+    expect(service.getCondition('meds')).toMatchObject({ satisfied: true, auto_verified: true });
+    expect(service.getCondition('keys')?.auto_verified).toBeUndefined();
+    expect(service.getCondition('cat-fed')?.satisfied).toBe(false);
+  });
+
+  it('does not tick conditions from skipped or partial entries', () => {
+    const conditions = ExitGateService.createDefault().getAllConditions();
+    const entry = (value: number | null) => [{ habit_id: 'h-meds', value, date: '2026-03-02', logged_at: null }];
+
+    expect(findVerifiedConditionIds(conditions, habits, entry(2), '2026-03-02')).toEqual([]);
+    expect(findVerifiedConditionIds(conditions, habits, entry(3), '2026-03-02')).toEqual([]);
+    expect(findVerifiedConditionIds(conditions, habits, entry(0), '2026-03-02')).toEqual([]);
+    expect(findVerifiedConditionIds(conditions, habits, entry(null), '2026-03-02')).toEqual(['meds']);
+  });
+});
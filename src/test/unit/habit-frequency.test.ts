@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateScheduledStreak,
+  frequencyFromLoop,
+  frequencyToLoop,
+  parseHabitFrequency,
+  type HabitEntryOutcome,
+  type ScheduledEntry,
+} from '../../lib/habits/frequency';
+
+function done(...dates: string[]): ScheduledEntry[] {
+  return dates.map((date) => ({ date, outcome: 'done' as HabitEntryOutcome }));
+}
+
+describe('habit frequency schedules', () => {
+  it('maps Loop numerator/denominator both ways', () => {
+    expect(frequencyFromLoop(1, 1)).toEqual({ type: 'daily' });
+    expect(frequencyFromLoop(3, 7)).toEqual({ type: 'times_per_week', times: 3 });
+    expect(frequencyFromLoop(1, 4)).toEqual({ type: 'every_n_days', interval: 4 });
+    expect(frequencyFromLoop(10, 30)).toEqual({ type: 'times_per_week', times: 2 });
+
+    expect(frequencyToLoop({ type: 'times_per_week', times: 3 })).toEqual({ numerator: 3, denominator: 7 });
+    expect(frequencyToLoop({ type: 'weekdays', days: [1, 3, 5] })).toEqual({ numerator: 3, denominator: 7 });
+    expect(frequencyToLoop({ type: 'every_n_days', interval: 4 })).toEqual({ numerator: 1, denominator: 4 });
+  });
+
+  it('validates request frequencies', () => {
+    expect(parseHabitFrequency({ type: 'weekdays', days: [5, 1, 3] })).toEqual({ type: 'weekdays', days: [1, 3, 5] });
+    expect(parseHabitFrequency({ type: 'times_per_week', times: 7 })).toEqual({ type: 'daily' });
+    expect(parseHabitFrequency({ type: 'times_per_week', times: 0 })).toBeNull();
+    expect(parseHabitFrequency({ type: 'weekdays', days: [8] })).toBeNull();
+    expect(parseHabitFrequency({ type: 'monthly' })).toBeNull();
+  });
+
+  it('keeps a 3x/week gym streak through rest days', () => {
+    // Weeks starting Mon 2026-03-02, 03-09; asOf Wed 2026-03-18 with one session so far
+    const entries = done('2026-03-02', '2026-03-04', '2026-03-06', '2026-03-09', '2026-03-11', '2026-03-14', '2026-03-16');
+    const result = calculateScheduledStreak(entries, { type: 'times_per_week', times: 3 }, { asOf: '2026-03-18' });
+
+    expect(result.current).toBe(7);
+    expect(result.periodsMet).toBe(2);
+    expect(result.completionRate).toBe(1);
+
+    // The same check-ins read as a daily habit break on every rest day
+    expect(calculateScheduledStreak(entries, { type: 'daily' }, { asOf: '2026-03-18' }).current).toBe(0);
+  });
+
+  it('breaks a weekly streak once the target can no longer be met', () => {
+    const entries = done('2026-03-02', '2026-03-04', '2026-03-06', '2026-03-09');
+    // Sunday 2026-03-15 closes a week with a single session
+    const result = calculateScheduledStreak(entries, { type: 'times_per_week', times: 3 }, { asOf: '2026-03-16' });
+
+    expect(result.current).toBe(0);
+    expect(result.best).toBe(3);
+    expect(result.completionRate).toBe(0.5);
+  });
+
+  it('follows specific weekdays and every-N-days schedules', () => {
+    // Mon/Wed/Fri, with Wednesday's session done a day late on Thursday
+    const weekdays = calculateScheduledStreak(
+      done('2026-03-02', '2026-03-05', '2026-03-06'),
+      { type: 'weekdays', days: [1, 3, 5] },
+      { asOf: '2026-03-08' }
+    );
+    expect(weekdays.current).toBe(3);
+
+    const everyThree = calculateScheduledStreak(
+      done('2026-03-01', '2026-03-03', '2026-03-09'),
+      { type: 'every_n_days', interval: 3 },
+      { asOf: '2026-03-10' }
+    );
+    // 03-04..03-06 had no check-in
+    expect(everyThree.current).toBe(1);
+    expect(everyThree.best).toBe(2);
+  });
+
+  it('does not break a daily streak before today is logged, but a failed today does', () => {
+    const entries = done('2026-03-01', '2026-03-02');
+    expect(calculateScheduledStreak(entries, { type: 'daily' }, { asOf: '2026-03-03' }).current).toBe(2);
+
+    const failedToday: ScheduledEntry[] = [...entries, { date: '2026-03-03', outcome: 'missed' }];
+    expect(calculateScheduledStreak(failedToday, { type: 'daily' }, { asOf: '2026-03-03' }).current).toBe(0);
+
+    const skippedToday: ScheduledEntry[] = [...entries, { date: '2026-03-03', outcome: 'skipped' }];
+    expect(calculateScheduledStreak(skippedToday, { type: 'daily' }, { asOf: '2026-03-03' }).current).toBe(3);
+  });
+});
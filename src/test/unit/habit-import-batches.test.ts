@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/habits/streaks', () => ({
+  updateHabitStreak: vi.fn(async () => undefined),
+}));
+
+vi.mock('../../lib/supabase/server', () => ({
+  createServerClient: vi.fn(() => ({})),
+}));
+
+import { EnhancedLoopHabitsImporter } from '../../lib/import/enhanced-loop-habits';
+import {
+  createEmptyImportDiff,
+  habitImportBatchService,
+  recordEntryDiff,
+} from '../../lib/import/habit-import-batches';
+
+type Row = Record<string, any>;
+
+// Just enough of the Supabase query builder for an import and rollbackBatch,
+// including PostgREST's 1000 row cap on reads
+function createFakeClient(tables: Record<string, Row[]>) {
+  return {
+    async rpc(name: string, args: Row) {
+      expect(name).toBe('insert_habit_entry_safe');
+      const existing = tables.habit_entries.find((row) => row.habit_id === args.p_habit_id && row.date === args.p_date);
+      if (existing) {
+        existing.value = args.p_value;
+        return { data: existing.id, error: null };
+      }
+      const id = `e-new-${tables.habit_entries.length}`;
+      tables.habit_entries.push({ id, user_id: args.p_user_id, habit_id: args.p_habit_id, date: args.p_date, value: args.p_value, import_batch_id: null });
+      return { data: id, error: null };
+    },
+    from(table: string) {
+      const filters: Array<(row: Row) => boolean> = [];
+      let action: 'select' | 'update' | 'delete' = 'select';
+      let patch: Row = {};
+      let head = false;
+      let range: [number, number] = [0, 999];
+
+      const run = () => {
+        const matched = tables[table].filter((row) => filters.every((filter) => filter(row)));
+        if (action === 'update') matched.forEach((row) => Object.assign(row, patch));
+        if (action === 'delete') tables[table] = tables[table].filter((row) => !matched.includes(row));
+        return matched;
+      };
+
+      const builder: any = {
+        select: (_columns?: string, options?: { head?: boolean }) => {
+          head = Boolean(options?.head);
+          return builder;
+        },
+        update: (values: Row) => {
+          action = 'update';
+          patch = values;
+          return builder;
+        },
+        delete: () => {
+          action = 'delete';
+          return builder;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return builder;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return builder;
+        },
+        order: () => builder,
+        range: (from: number, to: number) => {
+          range = [from, to];
+          return builder;
+        },
+        maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+        then: (resolve: (value: unknown) => void) => {
+          const rows = run();
+          const page = action === 'select' ? rows.slice(range[0], range[1] + 1) : rows;
+          resolve(head ? { count: rows.length, error: null } : { data: page, error: null });
+        },
+      };
+      return builder;
+    },
+  };
+}
+
+describe('habit import batches', () => {
+  it('diffs only entries the import actually changes', () => {
+    const diff = createEmptyImportDiff();
+    const existing = { value: 1, notes: 'ran 5k', logged_at: '2026-03-01T12:00:00.000Z' };
+
+    expect(recordEntryDiff(diff, 'Run', '2026-03-01', existing, { value: 1, notes: 'ran 5k' })).toBe(false);
+    expect(recordEntryDiff(diff, 'Run', '2026-03-02', existing, { value: 1, notes: 'ran 10k' })).toBe(true);
+    expect(recordEntryDiff(diff, 'Run', '2026-03-03', existing, { value: 0 })).toBe(true);
+
+    expect(diff.entries).toEqual({ insert: 0, overwrite: 2, unchanged: 1, noteChanges: 1 });
+    expect(diff.noteChanges[0]).toMatchObject({
+      date: '2026-03-02',
+      previous: { value: 1, notes: 'ran 5k' },
+      next: { value: 1, notes: 'ran 10k' },
+    });
+    expect(diff.overwrites[1].next).toEqual({ value: 0, notes: 'ran 5k' });
+  });
+
+  it('rolls back a batch: restores overwrites, deletes inserts and the habits it created', async () => {
+    const previous = { value: 1, notes: 'before', numeric_value: null, parsed: null, source: null, logged_at: null, import_batch_id: null };
+    const tables: Record<string, Row[]> = {
+      habit_import_batches: [{ id: 'b1', user_id: 'u1', status: 'committed' }],
+      habit_import_batch_changes: [
+        { batch_id: 'b1', user_id: 'u1', habit_id: 'h1', entry_id: 'e1', action: 'entry_updated', previous },
+        // Edited again after the import, so it must be left alone
+        { batch_id: 'b1', user_id: 'u1', habit_id: 'h1', entry_id: 'e2', action: 'entry_updated', previous },
+        { batch_id: 'b1', user_id: 'u1', habit_id: 'h2', entry_id: null, action: 'habit_created', previous: null },
+      ],
+      habit_entries: [
+        { id: 'e1', user_id: 'u1', habit_id: 'h1', value: 0, notes: 'after', import_batch_id: 'b1' },
+        { id: 'e2', user_id: 'u1', habit_id: 'h1', value: 2, notes: 'edited', import_batch_id: null },
+        { id: 'e3', user_id: 'u1', habit_id: 'h1', value: 1, notes: null, import_batch_id: 'b1' },
+        { id: 'e4', user_id: 'u1', habit_id: 'h2', value: 1, notes: null, import_batch_id: 'b1' },
+      ],
+      habits: [
+        { id: 'h1', user_id: 'u1' },
+        { id: 'h2', user_id: 'u1' },
+      ],
+    };
+
+    const result = await habitImportBatchService.rollbackBatch(createFakeClient(tables), 'u1', 'b1');
+
+    expect(result).toEqual({ restoredEntries: 1, deletedEntries: 2, deletedHabits: 1, skippedEntries: 1 });
+    expect(tables.habit_entries.map((entry) => [entry.id, entry.value, entry.notes])).toEqual([
+      ['e1', 1, 'before'],
+      ['e2', 2, 'edited'],
+    ]);
+    expect(tables.habits.map((habit) => habit.id)).toEqual(['h1']);
+    expect(tables.habit_import_batches[0].status).toBe('rolled_back');
+
+    await expect(habitImportBatchService.rollbackBatch(createFakeClient(tables), 'u1', 'b1'))
+      .rejects.toThrow('already rolled back');
+  });
+
+  it('rolls back an import without touching entries the user already had', async () => {
+    // Over a thousand days of history, with the overlapping day past the first page
+    const history: Row[] = Array.from({ length: 1200 }, (_, day) => ({
+      id: `e${String(day).padStart(4, '0')}`,
+      user_id: 'u1',
+      habit_id: 'h1',
+      date: new Date(Date.UTC(2022, 11, 18 + day)).toISOString().slice(0, 10),
+      value: 1,
+      import_batch_id: null,
+    }));
+    expect(history[1199].date).toBe('2026-03-31');
+    const tables: Record<string, Row[]> = {
+      habit_import_batches: [{ id: 'b1', user_id: 'u1', status: 'committed' }],
+      habit_import_batch_changes: [],
+      habit_entries: history,
+      habits: [{ id: 'h1', user_id: 'u1', name: 'Run' }],
+    };
+    const client = createFakeClient(tables);
+    const importer: any = new EnhancedLoopHabitsImporter({} as never, 'u1');
+    importer.supabase = client;
+    const parsedData = { checkmarks: { Run: { '2026-03-31': 0, '2026-04-01': 1 } }, scores: {} };
+
+    const diff = await importer.previewHabitsAndEntries([{ name: 'Run' }], parsedData);
+    expect(diff.entries).toMatchObject({ insert: 1, unchanged: 1 });
+
+    const result = await importer.importHabitsAndEntries([{ name: 'Run' }], parsedData, 'b1');
+    expect(result.importedEntries).toBe(1);
+    expect(tables.habit_entries.filter((entry) => entry.import_batch_id === 'b1').map((entry) => entry.date)).toEqual([
+      '2026-04-01',
+    ]);
+
+    const rollback = await habitImportBatchService.rollbackBatch(client, 'u1', 'b1');
+    expect(rollback.deletedEntries).toBe(1);
+    expect(tables.habit_entries).toHaveLength(1200);
+    expect(tables.habit_entries[1199]).toMatchObject({ date: '2026-03-31', value: 1 });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLoopScores, loopScoreEntryFromValue, nextLoopScore } from '../../lib/habits/loop-score';
+import { habitStrengthService } from '../../lib/habits/strength-service';
+
+const boolean = { measurement_type: 'boolean' };
+
+// Answers each query by table and filters, recording the filters used
+function supabaseWith(respond: (table: string, filters: Record<string, unknown>) => unknown) {
+  const queries: Array<{ table: string; filters: Record<string, unknown>; upsert?: any[] }> = [];
+  const client = {
+    from: (table: string) => {
+      const record: { table: string; filters: Record<string, unknown>; upsert?: any[] } = { table, filters: {} };
+      queries.push(record);
+      const query: any = {};
+      for (const method of ['select', 'eq', 'lt', 'lte', 'gte', 'order', 'limit', 'range', 'maybeSingle']) {
+        query[method] = (column: string, value: unknown) => {
+          record.filters[method === 'eq' ? column : `${method}:${column}`] = value;
+          return query;
+        };
+      }
+      query.upsert = (rows: any[]) => {
+        record.upsert = rows;
+        return Promise.resolve({ error: null });
+      };
+      query.then = (resolve: (value: unknown) => unknown) => resolve({ data: respond(table, record.filters), error: null });
+      return query;
+    },
+  };
+  return { client, queries };
+}
+
+describe('habit strength score', () => {
+  it('drifts down on a miss instead of resetting like a streak', () => {
+    const entries = ['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04']
+      .map((date) => loopScoreEntryFromValue(date, 1, boolean));
+    entries.push(loopScoreEntryFromValue('2026-03-05', 0, boolean));
+
+    const scores = calculateLoopScores(entries, { type: 'daily' }, { to: '2026-03-05' });
+    const beforeMiss = scores[3].score;
+
+    expect(scores[4].score).toBeLessThan(beforeMiss);
+    expect(scores[4].score).toBeGreaterThan(beforeMiss * 0.9);
+  });
+
+  it('holds on skips (2) and counts partials (3) as half a day', () => {
+    const scores = calculateLoopScores(
+      [
+        loopScoreEntryFromValue('2026-03-01', 1, boolean),
+        loopScoreEntryFromValue('2026-03-02', 2, boolean),
+        loopScoreEntryFromValue('2026-03-03', 3, boolean),
+      ],
+      { type: 'daily' },
+      { to: '2026-03-03' }
+    );
+
+    expect(scores[1].score).toBe(scores[0].score);
+    expect(scores[2].score).toBeCloseTo(nextLoopScore({ type: 'daily' }, scores[1].score, 0.5), 10);
+  });
+
+  it('continues from an imported Loop score using check-ins before it', () => {
+    const frequency = { type: 'times_per_week' as const, times: 3 };
+    const scores = calculateLoopScores(
+      [
+        // Inside the 7-day window of the first computed day
+        loopScoreEntryFromValue('2026-03-03', 1, boolean),
+        loopScoreEntryFromValue('2026-03-05', 1, boolean),
+        loopScoreEntryFromValue('2026-03-08', 1, boolean),
+      ],
+      frequency,
+      { to: '2026-03-09', seed: { date: '2026-03-07', score: 0.8 } }
+    );
+
+    expect(scores.map((score) => score.date)).toEqual(['2026-03-08', '2026-03-09']);
+    expect(scores[0].score).toBeCloseTo(nextLoopScore(frequency, 0.8, 1), 10);
+    expect(scores[1].score).toBeCloseTo(nextLoopScore(frequency, scores[0].score, 1), 10);
+  });
+
+  it('scores count habits by the share of target reached', () => {
+    const pushups = { measurement_type: 'count', target_value: 20 };
+    expect(loopScoreEntryFromValue('2026-03-01', 10, pushups)).toEqual({
+      date: '2026-03-01',
+      outcome: 'done',
+      progress: 0.5,
+    });
+    expect(loopScoreEntryFromValue('2026-03-01', 0, pushups).outcome).toBe('missed');
+  });
+
+  it('rescores a check-in from the stored score of the day before', async () => {
+    const { client, queries } = supabaseWith((table, filters) => {
+      if (table === 'habits') return { frequency: { type: 'daily' }, measurement_type: 'boolean', target_value: null };
+      if (table === 'habit_scores' && filters['lt:date']) return { date: '2026-03-09', score: 0.6 };
+      if (table === 'habit_scores') return [];
+      return [{ date: '2026-03-10', value: 1 }];
+    });
+
+    const scores = await habitStrengthService.updateHabitStrength(client, 'user-1', 'habit-1', '2026-03-10', '2026-03-11');
+
+    expect(scores.map((score) => score.date)).toEqual(['2026-03-10', '2026-03-11']);
+    expect(scores[0].score).toBeCloseTo(nextLoopScore({ type: 'daily' }, 0.6, 1), 10);
+    // Only the entries inside the day before's window are read, not the whole history
+    const entryQuery = queries.find((query) => query.table === 'habit_entries');
+    expect(entryQuery?.filters['gte:date']).toBe('2026-03-08');
+    expect(queries.find((query) => query.upsert)?.upsert?.map((row: any) => row.date)).toEqual(['2026-03-10', '2026-03-11']);
+  });
+});
@@ -107,4 +107,37 @@ describe('habit ownership guards on logging endpoints', () => {
     expect(updateHabitStreakMock).not.toHaveBeenCalled();
     expect(invalidateDailyContextCacheMock).not.toHaveBeenCalled();
   });
+
+  it('detaches an entry edited through /habits/[id]/log-enhanced from its import batch', async () => {
+    const update = vi.fn();
+    fromMock.mockImplementation((table: string) => {
+      const single = vi.fn().mockResolvedValue(
+        table === 'habits'
+          ? { data: { id: 'habit-123', name: 'Read' }, error: null }
+          : { data: { id: 'entry-1' }, error: null }
+      );
+      const query: any = { eq: () => query, select: () => query, single };
+      return {
+        select: () => query,
+        update: (values: unknown) => {
+          update(values);
+          return query;
+        },
+      };
+    });
+
+    const response = await logEnhancedPOST({
+      request: new Request('http://localhost/api/habits/habit-123/log-enhanced', {
+        method: 'POST',
+        body: JSON.stringify({ value: 0, date: '2026-02-18' }),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+      params: { id: 'habit-123' },
+      cookies: {} as never,
+    } as never);
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ value: 0, import_batch_id: null }));
+    expect(updateHabitStreakMock).toHaveBeenCalledWith(expect.anything(), 'habit-123', 'user-1', '2026-02-18');
+  });
 });
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { ICalParser } from '../../lib/calendar/ical-parser';
+import type { CalendarSource } from '../../types/calendar';
+
+const source = { id: 'uni', user_id: 'user-1' } as CalendarSource;
+const window = {
+  start: new Date('2026-03-01T00:00:00.000Z'),
+  end: new Date('2026-04-30T00:00:00.000Z'),
+};
+
+function feed(...events: string[]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//University//Timetable//EN',
+    'BEGIN:VTIMEZONE',
+    'TZID:Europe/London',
+    'BEGIN:STANDARD',
+    'DTSTART:19701025T020000',
+    'TZNAME:GMT',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...events,
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+const weeklyLecture = [
+  'BEGIN:VEVENT',
+  'UID:algo-lecture@uni',
+  'SUMMARY:Algorithms Lecture',
+  'DTSTART;TZID=Europe/London:20260317T100000',
+  'DTEND;TZID=Europe/London:20260317T110000',
+  'RRULE:FREQ=WEEKLY;BYDAY=TU;COUNT=4',
+  'EXDATE;TZID=Europe/London:20260407T100000',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+  'END:VEVENT',
+].join('\r\n');
+
+describe('iCal recurrence expansion', () => {
+  it('expands weekly lectures at the same local time across the BST change', () => {
+    const parser = new ICalParser();
+    const events = parser.convertToCalendarEvents(parser.parseICalString(feed(weeklyLecture)), source, 'user-1', window);
+
+    expect(events.map(event => event.start_time)).toEqual([
+      '2026-03-17T10:00:00.000Z',
+      '2026-03-24T10:00:00.000Z',
+      // 2026-03-31 is in BST: 10:00 London is 09:00 UTC. 2026-04-07 is excluded.
+      '2026-03-31T09:00:00.000Z',
+    ]);
+    expect(events[2].end_time).toBe('2026-03-31T10:00:00.000Z');
+    expect(events[0].external_id).toBe('algo-lecture@uni::2026-03-17T10:00:00.000Z');
+    expect(events[0].event_type).toBe('class');
+    // The VALARM description does not leak into the event
+    expect(events[0].description).toBeUndefined();
+  });
+
+  it('applies RECURRENCE-ID overrides and cancellations', () => {
+    const parser = new ICalParser();
+    const moved = [
+      'BEGIN:VEVENT',
+      'UID:algo-lecture@uni',
+      'RECURRENCE-ID;TZID=Europe/London:20260324T100000',
+      'SUMMARY:Algorithms Lecture (room change)',
+      'DTSTART;TZID=Europe/London:20260324T140000',
+      'DTEND;TZID=Europe/London:20260324T150000',
+      'LOCATION:Great Hall',
+      'END:VEVENT',
+    ].join('\r\n');
+    const cancelled = [
+      'BEGIN:VEVENT',
+      'UID:algo-lecture@uni',
+      'RECURRENCE-ID;TZID=Europe/London:20260331T100000',
+      'SUMMARY:Algorithms Lecture',
+      'DTSTART;TZID=Europe/London:20260331T100000',
+      'DTEND;TZID=Europe/London:20260331T110000',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+    ].join('\r\n');
+
+    const events = parser.convertToCalendarEvents(
+      parser.parseICalString(feed(weeklyLecture, moved, cancelled)),
+      source,
+      'user-1',
+      window
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[1]).toMatchObject({
+      external_id: 'algo-lecture@uni::2026-03-24T10:00:00.000Z',
+      title: 'Algorithms Lecture (room change)',
+      start_time: '2026-03-24T14:00:00.000Z',
+      location: 'Great Hall',
+    });
+  });
+
+  it('honours UNTIL, INTERVAL, UTC times and the sync window', () => {
+    const parser = new ICalParser();
+    const seminar = [
+      'BEGIN:VEVENT',
+      'UID:seminar@uni',
+      'SUMMARY:Seminar',
+      'DTSTART:20260302T150000Z',
+      'DTEND:20260302T160000Z',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20260413T235959Z',
+      'END:VEVENT',
+    ].join('\r\n');
+    const parsed = parser.parseICalString(feed(seminar));
+
+    const all = parser.convertToCalendarEvents(parsed, source, 'user-1', window);
+    expect(all.map(event => event.start_time)).toEqual([
+      '2026-03-02T15:00:00.000Z',
+      '2026-03-16T15:00:00.000Z',
+      '2026-03-30T15:00:00.000Z',
+      '2026-04-13T15:00:00.000Z',
+    ]);
+
+    const narrow = parser.convertToCalendarEvents(parsed, source, 'user-1', {
+      start: new Date('2026-03-20T00:00:00.000Z'),
+      end: new Date('2026-04-05T00:00:00.000Z'),
+    });
+    expect(narrow.map(event => event.start_time)).toEqual(['2026-03-30T15:00:00.000Z']);
+  });
+});
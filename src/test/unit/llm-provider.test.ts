@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { deductTokens, getTokenBalance } = vi.hoisted(() => ({
+  deductTokens: vi.fn(async () => ({ success: true })),
+  getTokenBalance: vi.fn(async () => ({ balance: 100 })),
+}));
+vi.mock('../../lib/tokens/service', () => ({ tokenService: { deductTokens, getTokenBalance } }));
+
+import {
+  GEMINI_PRO_MODEL,
+  LLMResponseFormatError,
+  OpenAICompatibleProvider,
+  StubLLMProvider,
+  completeJSON,
+  getLLMProvider,
+  setLLMProvider,
+  usageToAppTokens,
+} from '../../lib/ai/llm';
+import { billedProvider, deductForCompletion } from '../../lib/ai/llm/billing';
+import { enrichNoteWithAI } from '../../lib/habits/ai-note-enrichment';
+
+afterEach(() => {
+  setLLMProvider(null);
+  deductTokens.mockClear();
+});
+
+describe('LLM provider layer', () => {
+  it('replays fixtures by purpose and prompt and parses JSON answers', async () => {
+    const stub = new StubLLMProvider([
+      { purpose: 'summary', match: /weekly/, response: 'A good week.' },
+      { purpose: 'scores', response: '```json\n{"score": 7}\n```' },
+    ]);
+
+    expect((await stub.complete({ prompt: 'weekly recap', purpose: 'summary' })).text).toBe('A good week.');
+    expect((await completeJSON<{ score: number }>({ prompt: 'rate it', purpose: 'scores' }, stub)).data).toEqual({ score: 7 });
+    expect(stub.calls.map((call) => call.json)).toEqual([undefined, true]);
+
+    await expect(stub.complete({ prompt: 'daily recap', purpose: 'summary' })).rejects.toThrow('No stub fixture');
+
+    stub.addFixture({ purpose: 'prose', response: 'not json' });
+    await expect(completeJSON({ prompt: 'x', purpose: 'prose' }, stub)).rejects.toBeInstanceOf(LLMResponseFormatError);
+  });
+
+  it('reads usage from OpenAI-compatible servers', async () => {
+    const fetchImpl = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          model: 'llama3.1:8b',
+          choices: [{ message: { content: '{"ok":true}' } }],
+          usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+        })
+      )
+    );
+    const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'llama3.1', fetchImpl });
+
+    const completion = await completeJSON({ prompt: 'hi', system: 'be brief' }, provider);
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      model: 'llama3.1',
+      messages: [{ role: 'system' }, { role: 'user', content: 'hi' }],
+      response_format: { type: 'json_object' },
+    });
+    expect(completion.usage).toEqual({ inputTokens: 120, outputTokens: 30, totalTokens: 150, estimated: false });
+    expect(completion.model).toBe('llama3.1:8b');
+
+    // Features that pin a Gemini model still run on the local one
+    await provider.complete({ prompt: 'hi', model: GEMINI_PRO_MODEL });
+    const [, pinned] = fetchImpl.mock.calls[1] as unknown as [string, RequestInit];
+    expect(JSON.parse(pinned.body as string).model).toBe('llama3.1');
+  });
+
+  it('charges tokens from the reported usage', async () => {
+    const usage = { inputTokens: 400, outputTokens: 150, totalTokens: 550 };
+    expect(usageToAppTokens({ ...usage, estimated: false })).toBe(6);
+    expect(usageToAppTokens({ inputTokens: 3, outputTokens: 2, totalTokens: 5, estimated: true })).toBe(1);
+
+    await deductForCompletion('user-1', { usage: { ...usage, estimated: false }, provider: 'gemini', model: 'm' }, 'Test');
+    expect(deductTokens).toHaveBeenCalledWith('user-1', 6, 'Test', undefined, undefined, expect.objectContaining({
+      llm_provider: 'gemini',
+      llm_input_tokens: 400,
+      llm_output_tokens: 150,
+    }));
+  });
+
+  it('bills every completion a route makes through the billed provider', async () => {
+    const stub = new StubLLMProvider([
+      { purpose: 'chat', response: 'Hello.', usage: { inputTokens: 900, outputTokens: 100, totalTokens: 1000 } },
+      { purpose: 'plan', response: 'Plan.', usage: { inputTokens: 150, outputTokens: 50, totalTokens: 200 } },
+    ]);
+    const llm = billedProvider(stub, 'user-1', 'AI chat');
+
+    expect((await llm.complete({ prompt: 'hi', purpose: 'chat' })).text).toBe('Hello.');
+    await llm.complete({ prompt: 'plan my day', purpose: 'plan' });
+
+    expect(llm.name).toBe('stub');
+    expect(deductTokens.mock.calls.map((call: any[]) => [call[0], call[1], call[2], call[3]])).toEqual([
+      ['user-1', 10, 'AI chat', 'ai_completion'],
+      ['user-1', 2, 'AI chat', 'ai_completion'],
+    ]);
+    expect(deductTokens).toHaveBeenLastCalledWith('user-1', 2, 'AI chat', 'ai_completion', undefined, expect.objectContaining({
+      purpose: 'plan',
+      llm_input_tokens: 150,
+    }));
+
+    // A failed charge doesn't lose the answer the user already waited for
+    deductTokens.mockRejectedValueOnce(new Error('db down'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect((await llm.complete({ prompt: 'hi', purpose: 'chat' })).text).toBe('Hello.');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('runs note enrichment offline against the stub', async () => {
+    setLLMProvider(
+      new StubLLMProvider([
+        {
+          purpose: 'habit_note_enrichment',
+          response: { count: 3, confidence: 0.9 },
+          usage: { inputTokens: 250, outputTokens: 20, totalTokens: 270 },
+        },
+      ])
+    );
+
+    const result = await enrichNoteWithAI('user-1', 'had a few of the usual');
+
+    expect(getLLMProvider().name).toBe('stub');
+    expect(result.fallbackUsed).toBe(false);
+    expect(result.enrichedData).toMatchObject({ count: 3, parse_method: 'ai_enriched' });
+    expect(result.tokensUsed).toBe(3);
+    expect(deductTokens).toHaveBeenCalledWith('user-1', 3, 'AI habit note enrichment', 'ai_note_enrichment', undefined, expect.objectContaining({
+      llm_provider: 'stub',
+      llm_usage_estimated: false,
+    }));
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/supabase/server', () => ({
+  createServerClient: vi.fn(() => ({})),
+}));
+
+import { EnhancedLoopHabitsImporterV2, normalizeLoopValue } from '../../lib/import/enhanced-loop-habits-v2';
+import {
+  buildLoopHabitsExport,
+  encodeLoopValue,
+  type LoopExportEntry,
+  type LoopExportHabit,
+} from '../../lib/import/loop-habits-export';
+import { calculateLoopScores } from '../../lib/habits/loop-score';
+import { createZip } from '../../lib/utils/zip';
+
+const habits: LoopExportHabit[] = [
+  { id: 'pushups', name: 'Push-ups', measurement_type: 'count', target_value: 20, target_unit: 'reps', position: 2, color: '#5D4037' },
+  {
+    id: 'gym',
+    name: 'Gym',
+    description: 'Lift, then stretch',
+    measurement_type: 'boolean',
+    position: 1,
+    frequency: { type: 'times_per_week', times: 3 },
+  },
+];
+
+const entries: LoopExportEntry[] = [
+  { habit_id: 'gym', date: '2026-03-02', value: 1, notes: 'Legs, felt "heavy"' },
+  { habit_id: 'gym', date: '2026-03-03', value: 2 },
+  { habit_id: 'gym', date: '2026-03-04', value: 0, notes: '' },
+  { habit_id: 'pushups', date: '2026-03-03', value: 25 },
+];
+
+describe('Loop Habits CSV export', () => {
+  it('writes Loop root files ordered by position with frequency and trailing commas', () => {
+    const files = buildLoopHabitsExport(habits, entries, { asOf: '2026-03-04' });
+    const byPath = new Map(files.map((file) => [file.path, file.content]));
+
+    expect([...byPath.keys()]).toEqual([
+      'Habits.csv',
+      'Checkmarks.csv',
+      'Scores.csv',
+      '001 Gym/Checkmarks.csv',
+      '001 Gym/Scores.csv',
+      '002 Push-ups/Checkmarks.csv',
+      '002 Push-ups/Scores.csv',
+    ]);
+    expect(byPath.get('Habits.csv')).toBe(
+      'Position,Name,Question,Description,NumRepetitions,Interval,Color\n' +
+      '001,Gym,,"Lift, then stretch",3,7,#3b82f6\n' +
+      '002,Push-ups,How many reps today?,,1,1,#5D4037\n'
+    );
+    expect(byPath.get('Checkmarks.csv')).toBe(
+      'Date,Gym,Push-ups,\n' +
+      '2026-03-04,0,,\n' +
+      '2026-03-03,3,25000,\n' +
+      '2026-03-02,2,,\n'
+    );
+    expect(byPath.get('001 Gym/Scores.csv')?.split('\n')[0]).toMatch(/^2026-03-04,0\.\d{4}$/);
+  });
+
+  it('re-imports per-habit checkmarks and notes losslessly', () => {
+    const files = buildLoopHabitsExport(habits, entries, { asOf: '2026-03-04' });
+    const importer = new EnhancedLoopHabitsImporterV2({} as never, 'user-1') as any;
+
+    const gym = importer.parsePerHabitCSV(files.find((file) => file.path === '001 Gym/Checkmarks.csv')!.content, 'Gym');
+    expect(gym).toEqual([
+      { date: '2026-03-04', valueRaw: '0', notes: null },
+      { date: '2026-03-03', valueRaw: '3', notes: null },
+      { date: '2026-03-02', valueRaw: '2', notes: 'Legs, felt "heavy"' },
+    ]);
+    expect(gym.map((entry: any) => normalizeLoopValue(entry.valueRaw, 'YES_NO'))).toEqual([0, 2, 1]);
+
+    const pushups = importer.parsePerHabitCSV(files.find((file) => file.path === '002 Push-ups/Checkmarks.csv')!.content, 'Push-ups');
+    expect(normalizeLoopValue(pushups[0].valueRaw, 'NUMERICAL')).toBe(25);
+    expect(encodeLoopValue(3, 'YES_NO')).toBe('2');
+  });
+
+  it('round-trips numerical values below 1 and reads yes/no checkmarks of untyped habits', () => {
+    const water: LoopExportHabit = { id: 'water', name: 'Water', measurement_type: 'count', target_unit: 'litres' };
+    const files = buildLoopHabitsExport([water], [
+      { habit_id: 'water', date: '2026-03-03', value: 0.5 },
+      { habit_id: 'water', date: '2026-03-04', value: 2.25 },
+    ], { asOf: '2026-03-04' });
+    const importer = new EnhancedLoopHabitsImporterV2({} as never, 'user-1') as any;
+
+    const rows = importer.parsePerHabitCSV(files.find((file) => file.path === '001 Water/Checkmarks.csv')!.content, 'Water');
+    expect(rows.map((entry: any) => entry.valueRaw)).toEqual(['2250', '500']);
+    expect(rows.map((entry: any) => normalizeLoopValue(entry.valueRaw, importer.inferValueMode(rows, 'count'))))
+      .toEqual([2.25, 0.5]);
+    // A new habit is created as boolean: the values alone decide the mode
+    expect(importer.inferValueMode(rows, 'boolean')).toBe('NUMERICAL');
+    expect(importer.inferValueMode([{ date: '2026-03-04', valueRaw: '2', notes: null }], 'boolean')).toBe('YES_NO');
+  });
+
+  it('computes Loop scores that decay slowly and hold on skipped days', () => {
+    const scores = calculateLoopScores(
+      [
+        { date: '2026-03-01', outcome: 'done' },
+        { date: '2026-03-02', outcome: 'skipped' },
+        { date: '2026-03-03', outcome: 'missed' },
+      ],
+      { type: 'daily' },
+      { to: '2026-03-03' }
+    );
+
+    expect(scores.map((score) => score.date)).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+    expect(scores[0].score).toBeCloseTo(1 - Math.pow(0.5, 1 / 13), 6);
+    expect(scores[1].score).toBe(scores[0].score);
+    expect(scores[2].score).toBeCloseTo(scores[0].score * Math.pow(0.5, 1 / 13), 6);
+  });
+
+  it('packs the files into a zip archive', () => {
+    const archive = createZip([{ path: 'Loop/Habits.csv', content: 'Position\n' }]);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(archive.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(archive.length - 12, true)).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDaySchedule,
+  clockTime,
+  localDate,
+  outstandingDosesBy,
+  refillStatus,
+  validateMedicationInput,
+  type Medication,
+} from '../../lib/health/medication-schedule';
+import { findVerifiedConditionIds } from '../../lib/chains/gate-verification';
+import { ExitGateService } from '../../lib/chains/exit-gate';
+
+const adhd: Medication = {
+  id: 'm1',
+  name: 'Methylphenidate',
+  dose_amount: 18,
+  dose_unit: 'mg',
+  slots: [{ time: '08:00', latest: '10:00' }],
+  pills_remaining: 20,
+  pills_per_dose: 1,
+  refill_threshold_days: 7,
+  active: true,
+  notes: null,
+};
+
+const bupropion: Medication = {
+  ...adhd,
+  id: 'm2',
+  name: 'Bupropion',
+  dose_amount: 150,
+  slots: [{ time: '09:00' }, { time: '14:00' }],
+  pills_remaining: 10,
+};
+
+describe('medication schedule', () => {
+  it('marks doses upcoming, due, missed or as logged', () => {
+    const doses = [
+      { medication_id: 'm2', scheduled_date: '2026-03-02', slot_time: '09:00', status: 'taken' as const, taken_at: null },
+    ];
+
+    const morning = buildDaySchedule([adhd, bupropion], doses, '2026-03-02', { date: '2026-03-02', time: '09:30' });
+    expect(morning.map((dose) => [dose.name, dose.slot_time, dose.status])).toEqual([
+      ['Methylphenidate', '08:00', 'due'],
+      ['Bupropion', '09:00', 'taken'],
+      ['Bupropion', '14:00', 'upcoming'],
+    ]);
+    expect(morning[2].latest_time).toBe('16:00');
+
+    const lateMorning = buildDaySchedule([adhd, bupropion], doses, '2026-03-02', { date: '2026-03-02', time: '10:01' });
+    expect(lateMorning[0].status).toBe('missed');
+    // A missed dose no longer holds up leaving; the afternoon one does once it's scheduled before leaving
+    expect(outstandingDosesBy(lateMorning, '12:00')).toEqual([]);
+    expect(outstandingDosesBy(lateMorning, '15:00').map((dose) => dose.slot_time)).toEqual(['14:00']);
+
+    const yesterday = buildDaySchedule([adhd], [], '2026-03-01', { date: '2026-03-02', time: '00:00' });
+    expect(yesterday[0].status).toBe('missed');
+  });
+
+  it('counts down to a refill at the scheduled rate', () => {
+    expect(refillStatus(bupropion, '2026-03-02')).toEqual({ days_left: 5, runs_out_on: '2026-03-07', refill_due: true });
+    expect(refillStatus(adhd, '2026-03-02')).toEqual({ days_left: 20, runs_out_on: '2026-03-22', refill_due: false });
+    expect(refillStatus({ ...adhd, pills_remaining: null }, '2026-03-02')).toBeNull();
+
+    expect(validateMedicationInput({ name: 'Melatonin', slots: [{ time: '22:00' }] })).toEqual([]);
+    expect(
+      validateMedicationInput({ name: '', slots: [{ time: '8am' }, { time: '09:00', latest: '08:00' }], pills_per_dose: 0 })
+    ).toHaveLength(4);
+  });
+
+  it('verifies the meds gate from the dose log, falling back to the MEDS habit', () => {
+    const conditions = ExitGateService.createDefault().getAllConditions();
+    const habits = [{ id: 'h-meds', name: 'MEDS' }];
+    const entries = [{ habit_id: 'h-meds', value: 1, date: '2026-03-02', logged_at: '2026-03-02T07:10:00.000Z' }];
+
+    // No schedule yet: the habit entry still ticks it
+    expect(findVerifiedConditionIds(conditions, habits, entries, '2026-03-02', { schedule: [], departureTime: '09:00' }))
+      .toEqual(['meds']);
+
+    const pending = buildDaySchedule([adhd], [], '2026-03-02', { date: '2026-03-02', time: '08:30' });
+    expect(findVerifiedConditionIds(conditions, habits, entries, '2026-03-02', { schedule: pending, departureTime: '09:00' }))
+      .toEqual([]);
+
+    const taken = buildDaySchedule(
+      [adhd],
+      [{ medication_id: 'm1', scheduled_date: '2026-03-02', slot_time: '08:00', status: 'taken', taken_at: null }],
+      '2026-03-02',
+      { date: '2026-03-02', time: '08:30' }
+    );
+    expect(findVerifiedConditionIds(conditions, [], [], '2026-03-02', { schedule: taken, departureTime: '09:00' }))
+      .toEqual(['meds']);
+
+    // A dose missed before leaving was never taken, so the gate stays open
+    const missed = buildDaySchedule([adhd], [], '2026-03-02', { date: '2026-03-02', time: '10:30' });
+    expect(findVerifiedConditionIds(conditions, habits, entries, '2026-03-02', { schedule: missed, departureTime: '11:00' }))
+      .toEqual([]);
+  });
+
+  it("reads dose times in the user's timezone", () => {
+    // 23:30 UTC on 1 March is already 2 March in Kolkata
+    const instant = new Date('2026-03-01T23:30:00.000Z');
+    expect([localDate(instant, 'Asia/Kolkata'), clockTime(instant, 'Asia/Kolkata')]).toEqual(['2026-03-02', '05:00']);
+    expect([localDate(instant, 'America/New_York'), clockTime(instant, 'America/New_York')]).toEqual(['2026-03-01', '18:30']);
+    // British Summer Time
+    expect(clockTime(new Date('2026-07-01T08:30:00.000Z'))).toBe('09:30');
+
+    // Taken at 09:45 in London but 10:15 in Berlin, after the 10:00 window
+    const doses = [
+      { medication_id: 'm1', scheduled_date: '2026-07-01', slot_time: '08:00', status: 'taken' as const, taken_at: '2026-07-01T08:45:00.000Z' },
+    ];
+    const asOf = { date: '2026-07-01', time: '12:00' };
+    expect(buildDaySchedule([adhd], doses, '2026-07-01', asOf, 'Europe/London')[0].late).toBe(false);
+    expect(buildDaySchedule([adhd], doses, '2026-07-01', asOf, 'Europe/Berlin')[0].late).toBe(true);
+  });
+});
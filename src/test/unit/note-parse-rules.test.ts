@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { parseNote } from '../../lib/habits/note-parser';
+import {
+  isUnsafeRegexPattern,
+  parseCapturedNumber,
+  validateNoteParseRule,
+  type NoteParseRule,
+} from '../../lib/habits/note-parse-rules';
+
+function rule(overrides: Partial<NoteParseRule>): NoteParseRule {
+  return {
+    id: 'r1',
+    habit_id: null,
+    name: 'Rule',
+    match_type: 'regex',
+    pattern: '',
+    target: 'count',
+    field_name: null,
+    tag: null,
+    priority: 0,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('note parse rules', () => {
+  it('parses custom habits the built-in patterns know nothing about', () => {
+    const note = 'pages read: 42, finished Dune';
+    expect(parseNote(note).parse_method).toBe('failed');
+
+    const parsed = parseNote(note, undefined, {
+      rules: [
+        rule({ id: 'pages', pattern: 'pages read: (\\d+)' }),
+        rule({ id: 'book', pattern: 'finished (\\w+)', target: 'field', field_name: 'book' }),
+        rule({ id: 'scifi', match_type: 'keywords', pattern: 'dune, foundation', target: 'tag', tag: 'sci-fi' }),
+      ],
+    });
+
+    expect(parsed).toMatchObject({
+      count: 42,
+      fields: { book: 'Dune' },
+      tags: ['sci-fi'],
+      rules_applied: ['pages', 'book', 'scifi'],
+      parse_method: 'deterministic',
+    });
+    expect(parsed.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('scopes rules to their habit and lets the higher priority rule win', () => {
+    const rules = [
+      rule({ id: 'low', pattern: '(\\d+) laps', priority: 0 }),
+      rule({ id: 'high', pattern: 'swam (\\d+)', priority: 5 }),
+      rule({ id: 'other', pattern: '(\\d+)', habit_id: 'habit-b', priority: 10 }),
+    ];
+
+    const parsed = parseNote('swam 20 laps', undefined, { rules, habitId: 'habit-a' });
+    expect(parsed.count).toBe(20);
+    expect(parsed.rules_applied).toEqual(['high']);
+  });
+
+  it('rejects rules that cannot work', () => {
+    expect(validateNoteParseRule({ name: 'Pages', match_type: 'regex', pattern: 'pages read', target: 'count' }))
+      .toContain('Rules that extract a number need a capture group, e.g. "pages read: (\\d+)"');
+    expect(validateNoteParseRule({ name: 'Bad', match_type: 'regex', pattern: '(\\d+', target: 'count' }))
+      .toContain('Pattern is not a valid regular expression');
+    expect(validateNoteParseRule({ name: 'Gym', match_type: 'keywords', pattern: 'gym', target: 'tag', tag: 'gym' }))
+      .toEqual([]);
+  });
+
+  it('refuses patterns that backtrack catastrophically, on save and when applied', () => {
+    expect(isUnsafeRegexPattern('(\\d+)+ pages')).toBe(true);
+    expect(isUnsafeRegexPattern('(a|ab)*c')).toBe(true);
+    expect(isUnsafeRegexPattern('((x*)y)+')).toBe(true);
+    expect(isUnsafeRegexPattern('(\\w)\\1')).toBe(true);
+    expect(isUnsafeRegexPattern('pages read: (\\d+)')).toBe(false);
+    expect(isUnsafeRegexPattern('[(+)]+ (\\d+(?:\\.\\d+)?) km')).toBe(false);
+    expect(isUnsafeRegexPattern('.*.*.*.*x')).toBe(true);
+    expect(isUnsafeRegexPattern('\\s*\\s*\\s*\\s*x')).toBe(true);
+    expect(isUnsafeRegexPattern('(a?){25}a{25}')).toBe(true);
+    expect(isUnsafeRegexPattern('(?:\\w|\\d){2,}')).toBe(true);
+    expect(isUnsafeRegexPattern('\\w+?[a-z]+')).toBe(true);
+    expect(isUnsafeRegexPattern('read:?\\s*(\\d+)\\s*pages')).toBe(false);
+    expect(isUnsafeRegexPattern('(?<pages>\\d+)? pages?')).toBe(false);
+    expect(isUnsafeRegexPattern('(ab){3}')).toBe(false);
+
+    expect(validateNoteParseRule({ name: 'Evil', match_type: 'regex', pattern: '(a+)+$', target: 'field', field_name: 'x' }))
+      .toContain('Pattern could take too long to match: avoid repeating a repeated group like "(\\d+)+", repeats in a row like ".*.*" and backreferences');
+
+    // A rule stored before the check existed is skipped rather than run
+    const started = Date.now();
+    const parsed = parseNote(`${'a'.repeat(40)}!`, undefined, {
+      rules: [rule({ id: 'evil', pattern: '(a+)+$', target: 'field', field_name: 'x' })],
+    });
+    expect(parsed.rules_applied).toBeUndefined();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('reads thousands separators and decimal commas in captured numbers', () => {
+    expect(parseCapturedNumber('1,200')).toBe(1200);
+    expect(parseCapturedNumber('1,250,000')).toBe(1250000);
+    expect(parseCapturedNumber('1,200.5')).toBe(1200.5);
+    expect(parseCapturedNumber('2,5')).toBe(2.5);
+    expect(parseNote('steps: 12,400', undefined, { rules: [rule({ pattern: 'steps: ([\\d,]+)' })] }).count).toBe(12400);
+  });
+});
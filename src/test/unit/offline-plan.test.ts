@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyMutationToPlan,
+  classifyPlanMutation,
+  dailyPlanOfflineStore,
+  detectMutationConflict,
+  type QueuedPlanMutation,
+} from '../../lib/daily-plan/offline-plan';
+import { reconstructChainsFromTimeBlocks } from '../../lib/chains/plan-chains';
+import type { DailyPlan, TimeBlock } from '../../types/daily-plan';
+
+const planDate = new Date('2026-03-02T00:00:00.000Z');
+
+function block(id: string, name: string, start: string, end: string, overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id,
+    planId: 'plan-1',
+    startTime: new Date(`2026-03-02T${start}:00.000Z`),
+    endTime: new Date(`2026-03-02T${end}:00.000Z`),
+    activityType: 'routine',
+    activityName: name,
+    isFixed: false,
+    sequenceOrder: 1,
+    status: 'pending',
+    createdAt: planDate,
+    updatedAt: planDate,
+    metadata: {
+      chain_id: 'chain-1',
+      anchor_id: 'lecture',
+      anchor_title: 'Lecture',
+      anchor_type: 'class',
+      anchor_start: '2026-03-02T10:00:00.000Z',
+      anchor_end: '2026-03-02T11:00:00.000Z',
+      role: { type: id === 'gate' ? 'exit-gate' : 'chain-step', required: true, chain_id: 'chain-1' },
+    } as never,
+    ...overrides,
+  };
+}
+
+function planWith(blocks: TimeBlock[], id = 'plan-1'): DailyPlan {
+  const plan = {
+    id,
+    userId: 'user-1',
+    planDate,
+    wakeTime: planDate,
+    sleepTime: planDate,
+    energyState: 'medium',
+    status: 'active',
+    createdAt: planDate,
+    updatedAt: planDate,
+    timeBlocks: blocks,
+  } as DailyPlan;
+  return { ...plan, chains: reconstructChainsFromTimeBlocks(plan) };
+}
+
+function mutation(url: string, method: string, body: unknown = null, overrides: Partial<QueuedPlanMutation> = {}): QueuedPlanMutation {
+  const classified = classifyPlanMutation(url, method)!;
+  return {
+    ...classified,
+    url,
+    method,
+    body: body === null ? null : JSON.stringify(body),
+    plan_id: classified.plan_id || 'plan-1',
+    base_updated_at: planDate.toISOString(),
+    queued_at: '2026-03-02T09:05:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('offline daily plan queue', () => {
+  it('classifies step mutations and ignores everything else', () => {
+    expect(classifyPlanMutation('/api/time-blocks/shower/complete', 'POST')).toEqual({
+      kind: 'complete',
+      block_id: 'shower',
+      plan_id: null,
+    });
+    expect(classifyPlanMutation('https://app.test/api/daily-plan/plan-1/activity/shower', 'PATCH')).toEqual({
+      kind: 'activity-status',
+      block_id: 'shower',
+      plan_id: 'plan-1',
+    });
+    expect(classifyPlanMutation('/api/time-blocks/shower/complete', 'GET')).toBeNull();
+    expect(classifyPlanMutation('/api/daily-plan/plan-1/degrade', 'POST')).toBeNull();
+  });
+
+  it('applies queued completions, skips and renames to blocks and chain steps', () => {
+    const plan = planWith([
+      block('shower', 'Shower', '09:00', '09:15'),
+      block('dress', 'Dress', '09:15', '09:25'),
+      block('gate', 'Exit gate', '09:25', '09:30'),
+    ]);
+
+    const updated = [
+      mutation('/api/time-blocks/shower/complete', 'POST'),
+      mutation('/api/daily-plan/plan-1/activity/dress', 'PATCH', { status: 'skipped', skipReason: 'Running late' }),
+      mutation('/api/time-blocks/gate/edit-step', 'POST', { name: 'Leave', durationMinutes: 5 }),
+    ].reduce(applyMutationToPlan, plan);
+
+    expect(updated.timeBlocks!.map(item => item.status)).toEqual(['completed', 'skipped', 'pending']);
+    expect(updated.timeBlocks![1].skipReason).toBe('Running late');
+    expect(updated.chains![0].steps.map(step => [step.name, step.status])).toEqual([
+      ['Shower', 'completed'],
+      ['Dress', 'skipped'],
+      ['Leave', 'pending'],
+    ]);
+    // The cached plan itself is never mutated
+    expect(plan.timeBlocks![0].status).toBe('pending');
+  });
+
+  it('detects replaced plans, missing blocks, server-side edits and already applied changes', () => {
+    const server = planWith([
+      block('shower', 'Shower', '09:00', '09:15', { status: 'completed' }),
+      block('dress', 'Dress', '09:15', '09:25', { updatedAt: new Date('2026-03-02T09:10:00.000Z') }),
+    ]);
+
+    expect(detectMutationConflict(mutation('/api/time-blocks/shower/complete', 'POST'), planWith([], 'plan-2')))
+      .toBe('plan_replaced');
+    expect(detectMutationConflict(mutation('/api/time-blocks/gate/complete', 'POST'), server)).toBe('block_missing');
+    expect(detectMutationConflict(mutation('/api/time-blocks/shower/complete', 'POST'), server)).toBe('already_applied');
+    expect(detectMutationConflict(mutation('/api/time-blocks/shower/uncomplete', 'POST'), server)).toBeNull();
+    expect(detectMutationConflict(mutation('/api/time-blocks/dress/edit-step', 'POST', { name: 'Get dressed' }), server))
+      .toBe('server_changed');
+    expect(detectMutationConflict(
+      mutation('/api/time-blocks/dress/edit-step', 'POST', { name: 'Get dressed' }, { base_updated_at: '2026-03-02T09:10:00.000Z' }),
+      server
+    )).toBeNull();
+  });
+
+  describe('replay', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    it('checks each queued mutation against the plan after the ones replayed before it', async () => {
+      const server = planWith([block('shower', 'Shower', '09:00', '09:15')]);
+      const queue = [
+        { ...mutation('/api/time-blocks/shower/complete', 'POST'), seq: 1 },
+        { ...mutation('/api/time-blocks/shower/uncomplete', 'POST'), seq: 2 },
+      ];
+      vi.spyOn(dailyPlanOfflineStore, 'getQueue').mockResolvedValue(queue);
+      vi.spyOn(dailyPlanOfflineStore as any, 'removeMutation').mockResolvedValue(undefined);
+      const fetchMock = vi.fn(async (url: string) =>
+        new Response(JSON.stringify(url === '/api/daily-plan/today' ? { plan: server } : { success: true }), { status: 200 })
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await dailyPlanOfflineStore.replay();
+
+      expect(result).toMatchObject({ replayed: 2, already_applied: 0, conflicts: [], remaining: 0 });
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        '/api/daily-plan/today',
+        '/api/time-blocks/shower/complete',
+        '/api/time-blocks/shower/uncomplete',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { AnchorType } from '../../lib/anchors/types';
+import { resolveGateConditionsForOuting } from '../../lib/chains/exit-gate';
+import { LocationStateTracker } from '../../lib/chains/location-state';
+import { groupOutings, planOutings } from '../../lib/chains/outings';
+import type { ChainStepInstance, ExecutionChain, ExitGateVariants } from '../../lib/chains/types';
+
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 2, 4, hours, minutes);
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function step(chainId: string, name: string, start: Date, end: Date, role: ChainStepInstance['role'] = 'chain-step'): ChainStepInstance {
+  return {
+    step_id: `${chainId}-${name.toLowerCase().replace(/\s+/g, '-')}`,
+    chain_id: chainId,
+    name,
+    start_time: start,
+    end_time: end,
+    duration: Math.round((end.getTime() - start.getTime()) / 60000),
+    is_required: true,
+    can_skip_when_late: false,
+    status: 'pending',
+    role,
+  };
+}
+
+function inPersonChain(id: string, start: string, end: string, type: AnchorType = 'class', travel = 30): ExecutionChain {
+  const anchorStart = at(start);
+  const anchorEnd = at(end);
+  const leave = addMinutes(anchorStart, -travel);
+  const prep = step(id, 'Preparation', addMinutes(leave, -45), leave);
+  const travelBackEnd = addMinutes(anchorEnd, travel);
+
+  return {
+    chain_id: id,
+    anchor_id: `anchor-${id}`,
+    anchor: {
+      id: `anchor-${id}`,
+      start: anchorStart,
+      end: anchorEnd,
+      title: `Lecture ${id}`,
+      type,
+      must_attend: true,
+      calendar_event_id: `event-${id}`,
+    },
+    chain_completion_deadline: leave,
+    steps: [
+      step(id, 'Get dressed', addMinutes(leave, -45), addMinutes(leave, -5)),
+      step(id, 'Exit Gate', addMinutes(leave, -5), leave, 'exit-gate'),
+    ],
+    commitment_envelope: {
+      envelope_id: `${id}-envelope`,
+      prep,
+      travel_there: step(id, 'Travel there', leave, anchorStart),
+      anchor: step(id, 'Anchor', anchorStart, anchorEnd, 'anchor'),
+      travel_back: step(id, 'Travel back', anchorEnd, travelBackEnd),
+      recovery: step(id, 'Recovery', travelBackEnd, addMinutes(travelBackEnd, 10), 'recovery'),
+    },
+    status: 'pending',
+  };
+}
+
+describe('multi-anchor outings', () => {
+  it('joins anchors closer than a round trip plus a home stay', () => {
+    const chains = [
+      inPersonChain('a', '10:00', '11:20'),
+      inPersonChain('b', '12:30', '13:30'),
+      inPersonChain('c', '19:00', '20:00'),
+    ];
+
+    const groups = groupOutings(chains).map((group) => group.map((chain) => chain.chain_id));
+    expect(groups).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('travels out once, fills the gap on site and travels back once', () => {
+    const [first, second, evening] = planOutings([
+      inPersonChain('a', '10:00', '11:20'),
+      inPersonChain('b', '12:30', '13:30', 'seminar'),
+      inPersonChain('c', '19:00', '20:00'),
+    ]);
+
+    expect(first.metadata?.outing).toMatchObject({ index: 0, size: 2, anchor_types: ['class', 'seminar'] });
+    expect(first.commitment_envelope.travel_there).toBeDefined();
+    expect(first.commitment_envelope.travel_back).toBeUndefined();
+    expect(first.steps.some((s) => s.role === 'exit-gate')).toBe(true);
+
+    expect(second.metadata?.outing?.outing_id).toBe(first.metadata?.outing?.outing_id);
+    expect(second.commitment_envelope.travel_there).toBeUndefined();
+    expect(second.commitment_envelope.travel_back).toBeDefined();
+    expect(second.steps.some((s) => s.role === 'exit-gate')).toBe(false);
+    expect(second.steps.map((s) => s.name)).toEqual(['Lunch on site', 'Study on site']);
+    expect(second.steps[0].start_time).toEqual(at('11:30'));
+    expect(second.steps[second.steps.length - 1].end_time).toEqual(at('12:30'));
+
+    expect(evening.metadata?.outing).toBeUndefined();
+  });
+
+  it('leaves home once for the whole outing', () => {
+    const chains = planOutings([
+      inPersonChain('a', '10:00', '11:20'),
+      inPersonChain('b', '12:30', '13:30'),
+    ]);
+
+    const periods = new LocationStateTracker().calculateLocationPeriods(chains, at('07:00'), at('23:00'));
+    const away = periods.filter((period) => period.state === 'not_home');
+    expect(away).toHaveLength(1);
+    expect(away[0].start).toEqual(at('09:30'));
+    expect(away[0].end).toEqual(at('14:10'));
+  });
+
+  it('checks what every anchor of the outing needs at the one exit gate', () => {
+    const base = [{ id: 'keys', name: 'Keys', satisfied: false }, { id: 'cat-fed', name: 'Cat fed', satisfied: false }];
+    const variants: ExitGateVariants = {
+      class: { add: [{ id: 'laptop', name: 'Laptop', satisfied: false }], remove: ['cat-fed'] },
+      seminar: { add: [{ id: 'reading', name: 'Seminar reading', satisfied: false }], remove: [] },
+    };
+
+    const ids = resolveGateConditionsForOuting(base, variants, ['class', 'seminar']).map((condition) => condition.id);
+    expect(ids).toEqual(['keys', 'laptop', 'cat-fed', 'reading']);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { matchPlace, placeToLocation, validateSavedPlaceInput, type SavedPlace } from '../../lib/places/saved-places';
+import { getTravelProfileFromPreferences, toTravelPreferences } from '../../lib/places/travel-profile';
+import { TravelService } from '../../lib/uk-student/travel-service';
+import type { Location, TravelConditions } from '../../types/uk-student-travel';
+
+function place(overrides: Partial<SavedPlace>): SavedPlace {
+  return {
+    id: overrides.name?.toLowerCase().replace(/\s+/g, '-') ?? 'place',
+    name: 'Place',
+    kind: 'campus',
+    latitude: 52.4508,
+    longitude: -1.9305,
+    address: null,
+    aliases: [],
+    access_minutes: 0,
+    bike_parking_minutes: null,
+    notes: null,
+    ...overrides,
+  };
+}
+
+const PLACES = [
+  place({ name: 'Tower', latitude: 52.48, longitude: -1.9 }),
+  place({ name: 'Muirhead Tower', aliases: ['Muirhead', 'MT'], access_minutes: 6, bike_parking_minutes: 2 }),
+  place({ name: 'Sport & Fitness', kind: 'gym', aliases: ['gym'] }),
+];
+
+const HOME: Location = { name: 'Home', coordinates: [52.4755, -1.9185], type: 'home' };
+
+const CONDITIONS: TravelConditions = {
+  weather: {
+    temperature: 15,
+    condition: 'sunny',
+    windSpeed: 5,
+    humidity: 50,
+    precipitation: 0,
+    visibility: 10,
+    timestamp: new Date('2026-03-04T08:00:00Z'),
+  },
+  userEnergy: 4,
+  timeConstraints: {
+    departure: new Date('2026-03-04T09:00:00Z'),
+    arrival: new Date('2026-03-04T10:00:00Z'),
+    flexibility: 15,
+  },
+};
+
+describe('saved places', () => {
+  it('matches the longest name or alias as whole words', () => {
+    expect(matchPlace('Lecture, Muirhead Tower 118', PLACES)?.name).toBe('Muirhead Tower');
+    expect(matchPlace('MT G15', PLACES)?.name).toBe('Muirhead Tower');
+    expect(matchPlace('Clock tower', PLACES)?.name).toBe('Tower');
+    expect(matchPlace('sport & fitness, main hall', PLACES)?.kind).toBe('gym');
+    // "MT" inside another word isn't a match
+    expect(matchPlace('Smt building', PLACES)).toBeNull();
+  });
+
+  it('validates coordinates and overheads', () => {
+    expect(validateSavedPlaceInput({ name: 'Home', latitude: 52.4, longitude: -1.9 })).toEqual([]);
+    expect(validateSavedPlaceInput({ name: 'Home', latitude: 100, longitude: -1.9, access_minutes: -1 })).toEqual([
+      'latitude must be between -90 and 90',
+      'access_minutes must be a whole number from 0 to 120',
+    ]);
+  });
+
+  it("plans to the place's door with its own access and bike parking times", async () => {
+    const service = new TravelService({ transitRouter: null });
+    const preferences = toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['bike'] } }));
+    const bare = await service.getOptimalRoute(HOME, { name: 'Muirhead', coordinates: [52.4508, -1.9305], type: 'other' }, CONDITIONS, preferences);
+    const saved = await service.getOptimalRoute(HOME, placeToLocation(PLACES[1]), CONDITIONS, preferences);
+
+    expect(saved.method).toBe('bike');
+    // 2 + 6 minutes instead of the default 5 + 3
+    expect(saved.duration - bare.duration).toBe(0);
+
+    const slowGettingIn = await service.getOptimalRoute(
+      HOME,
+      placeToLocation({ ...PLACES[1], access_minutes: 20 }),
+      CONDITIONS,
+      preferences
+    );
+    expect(slowGettingIn.duration).toBeGreaterThan(saved.duration);
+  });
+
+  it('uses the travel profile speeds, fares and methods', async () => {
+    const service = new TravelService({ transitRouter: null });
+    const campus = placeToLocation(PLACES[1]);
+
+    const slow = toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['bike'], cycling_speed_kmh: 10 } }));
+    const fast = toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['bike'], cycling_speed_kmh: 20 } }));
+    const slowRoute = await service.getOptimalRoute(HOME, campus, CONDITIONS, slow);
+    const fastRoute = await service.getOptimalRoute(HOME, campus, CONDITIONS, fast);
+    expect(slowRoute.duration).toBeGreaterThan(fastRoute.duration);
+
+    // No timetable, no train estimate, whatever the places are called
+    const train = toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['train'], train_fare_pence: 150 } }));
+    const fiveWays: Location = { ...HOME, name: 'five-ways' };
+    await expect(service.getOptimalRoute(fiveWays, placeToLocation(place({ name: 'University' })), CONDITIONS, train))
+      .rejects.toThrow('No route');
+
+    const walkOnly = toTravelPreferences(getTravelProfileFromPreferences({ travel_profile: { allowed_methods: ['walk'], max_walking_distance_m: 500 } }));
+    await expect(service.getOptimalRoute(HOME, campus, CONDITIONS, walkOnly)).rejects.toThrow('No route');
+  });
+
+  it('keeps defaults for travel profile fields that are missing or out of range', () => {
+    const profile = getTravelProfileFromPreferences({
+      travel_profile: { walking_speed_kmh: 4, cycling_speed_kmh: 200, allowed_methods: ['bike', 'hoverboard'] },
+    });
+    expect(profile).toMatchObject({ walking_speed_kmh: 4, cycling_speed_kmh: 15, allowed_methods: ['bike'] });
+  });
+});
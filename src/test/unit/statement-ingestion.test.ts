@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import { detectStatementFormat, ingestStatement, parseStatement } from '../../lib/expenses/statements/ingestion';
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP
+<BANKACCTFROM><BANKID>200000<ACCTID>12345678<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240110
+<DTEND>20240131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[0:GMT]
+<TRNAMT>-3.20
+<FITID>A1
+<NAME>COSTA COFFEE
+<MEMO>Card payment
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115
+<TRNAMT>-3.20
+<FITID>A2
+<NAME>COSTA COFFEE
+<MEMO>Card payment
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240120
+<TRNAMT>1500.00
+<FITID>A3
+<NAME>STUDENT FINANCE ENGLAND
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<c:Document xmlns:c="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <c:BkToCstmrStmt>
+    <c:Stmt>
+      <c:FrToDt><c:FrDtTm>2024-02-01T00:00:00</c:FrDtTm><c:ToDtTm>2024-02-29T23:59:59</c:ToDtTm></c:FrToDt>
+      <c:Acct><c:Id><c:IBAN>DE89370400440532013000</c:IBAN></c:Id><c:Ccy>EUR</c:Ccy></c:Acct>
+      <c:Ntry>
+        <c:Amt Ccy="EUR">42.10</c:Amt>
+        <c:CdtDbtInd>DBIT</c:CdtDbtInd>
+        <c:Sts>BOOK</c:Sts>
+        <c:BookgDt><c:Dt>2024-02-03</c:Dt></c:BookgDt>
+        <c:AcctSvcrRef>REF-1</c:AcctSvcrRef>
+        <c:NtryDtls><c:TxDtls>
+          <c:RltdPties><c:Cdtr><c:Nm>Lidl &amp; Co</c:Nm></c:Cdtr></c:RltdPties>
+          <c:RmtInf><c:Ustrd>Groceries</c:Ustrd></c:RmtInf>
+        </c:TxDtls></c:NtryDtls>
+      </c:Ntry>
+      <c:Ntry>
+        <c:Amt Ccy="EUR">9.99</c:Amt>
+        <c:CdtDbtInd>DBIT</c:CdtDbtInd>
+        <c:Sts>PDNG</c:Sts>
+        <c:BookgDt><c:Dt>2024-02-28</c:Dt></c:BookgDt>
+      </c:Ntry>
+    </c:Stmt>
+  </c:BkToCstmrStmt>
+</c:Document>`;
+
+describe('statement ingestion', () => {
+  it('reads OFX, QIF and CAMT.053 into the same transaction shape', () => {
+    const ofx = parseStatement(OFX);
+    expect(ofx).toMatchObject({ format: 'ofx', account: '12345678', period: { start: '2024-01-10', end: '2024-01-31' } });
+    expect(ofx.transactions[2]).toMatchObject({
+      date: '2024-01-20',
+      amount: 1500,
+      currency: 'GBP',
+      transactionType: 'credit',
+      reference: 'A3',
+    });
+
+    // 13/02 can only be day first, so 01/02 is the 1st of February
+    const qif = parseStatement('!Type:Bank\nD01/02/2024\nT-12.50\nPTesco\nLGroceries\n^\nD13/02/2024\nT-4.00\nPGreggs\n^\n', {
+      defaultCurrency: 'GBP',
+    });
+    expect(qif.format).toBe('qif');
+    expect(qif.transactions.map((t) => t.date)).toEqual(['2024-02-01', '2024-02-13']);
+    expect(qif.transactions[0]).toMatchObject({ amount: 12.5, transactionType: 'debit', merchant: 'Tesco', bankCategory: 'Groceries' });
+
+    const camt = parseStatement(CAMT);
+    expect(camt).toMatchObject({ format: 'camt053', account: 'DE89370400440532013000' });
+    // The pending entry isn't read
+    expect(camt.transactions).toHaveLength(1);
+    expect(camt.transactions[0]).toMatchObject({
+      date: '2024-02-03',
+      amount: 42.1,
+      currency: 'EUR',
+      merchant: 'Lidl & Co',
+      description: 'Lidl & Co Groceries',
+      reference: 'REF-1',
+    });
+  });
+
+  it('finds CSV headers below title lines and keeps quoted multi-line fields together', () => {
+    const csv = [
+      'Jupiter Savings Account Statement',
+      'Account: XXXX1234',
+      'Date,Value Date,Particulars,Tran Type,Cheque Details,Withdrawals,Deposits,Balance',
+      '05/03/2024,05/03/2024,"UPI/ZEPTO',
+      'MARKETPLACE",UPI,,"1,250.00",,"8,750.00"',
+      '*** End of statement ***',
+    ].join('\n');
+
+    expect(detectStatementFormat(csv)?.id).toBe('csv');
+    const result = parseStatement(csv);
+    expect(result.layout).toBe('Jupiter India');
+    expect(result.errors).toEqual([]);
+    expect(result.transactions).toEqual([
+      expect.objectContaining({
+        date: '2024-03-05',
+        amount: 1250,
+        currency: 'INR',
+        description: 'UPI/ZEPTO MARKETPLACE',
+        transactionType: 'debit',
+        balance: 8750,
+      }),
+    ]);
+  });
+
+  it('prefers the bank layout that names the most columns', () => {
+    const lloyds = [
+      'Transaction Date,Transaction Type,Sort Code,Account Number,Transaction Description,Debit Amount,Credit Amount,Balance',
+      '15/01/2024,DEB,11-22-33,12345678,TESCO STORES,12.00,,488.00',
+    ].join('\n');
+    expect(parseStatement(lloyds).layout).toBe('Lloyds Bank UK');
+  });
+
+  it('skips transactions an overlapping download already imported by their bank ID', async () => {
+    const imported = new Set<string>();
+    const findExistingHashes = async (hashes: string[]) => new Set(hashes.filter((hash) => imported.has(hash)));
+
+    const january = await ingestStatement(OFX, { accountKey: 'current', findExistingHashes });
+    expect(january.transactions).toHaveLength(3);
+    january.transactions.forEach((t) => imported.add(t.contentHash));
+
+    // Downloaded again a few weeks later: the bank has since filled in the
+    // card details, so NAME and MEMO no longer match the first download
+    const redownload = OFX.replace('<DTEND>20240131', '<DTEND>20240205')
+      .replace(/<NAME>COSTA COFFEE\n<MEMO>Card payment/g, '<NAME>COSTA COFFEE 0412\n<MEMO>CARD PAYMENT TO COSTA COFFEE ON 15 JAN')
+      .replace('<NAME>STUDENT FINANCE ENGLAND', '<NAME>SLC RECEIPTS\n<MEMO>STUDENT FINANCE ENGLAND')
+      .replace(
+        '</BANKTRANLIST>',
+        '<STMTTRN>\n<TRNTYPE>DEBIT\n<DTPOSTED>20240203\n<TRNAMT>-3.20\n<FITID>A4\n<NAME>COSTA COFFEE 0412\n</BANKTRANLIST>'
+      );
+    const second = await ingestStatement(redownload, { accountKey: 'current', findExistingHashes });
+    expect(second.duplicatesSkipped).toBe(3);
+    expect(second.transactions.map((t) => [t.date, t.reference])).toEqual([['2024-02-03', 'A4']]);
+
+    // FITIDs are only unique within an account
+    const otherAccount = await ingestStatement(OFX, { accountKey: 'savings', findExistingHashes });
+    expect(otherAccount.duplicatesSkipped).toBe(0);
+
+    const camt = await ingestStatement(CAMT, { accountKey: 'giro', findExistingHashes });
+    camt.transactions.forEach((t) => imported.add(t.contentHash));
+    const camtAgain = await ingestStatement(CAMT.replace('<c:Ustrd>Groceries</c:Ustrd>', '<c:Ustrd>KARTE 1234 03.02 LIDL</c:Ustrd>'), {
+      accountKey: 'giro',
+      findExistingHashes,
+    });
+    expect(camtAgain.duplicatesSkipped).toBe(1);
+
+    const monzo = (name: string) =>
+      ['Transaction ID,Date,Time,Type,Name,Emoji,Category,Amount,Currency', `tx_0000A1,15/01/2024,08:12:44,Card payment,${name},,Eating out,-3.20,GBP`].join('\n');
+    const monzoFirst = await ingestStatement(monzo('Costa'), { accountKey: 'monzo', findExistingHashes });
+    expect(monzoFirst.transactions[0].bankTransactionId).toBe('tx_0000A1');
+    monzoFirst.transactions.forEach((t) => imported.add(t.contentHash));
+    expect((await ingestStatement(monzo('Costa Coffee'), { accountKey: 'monzo', findExistingHashes })).duplicatesSkipped).toBe(1);
+  });
+
+  it('falls back to date and amount when the statement has no transaction IDs', async () => {
+    const imported = new Set<string>();
+    const findExistingHashes = async (hashes: string[]) => new Set(hashes.filter((hash) => imported.has(hash)));
+
+    const csv = [
+      'Date,Description,Amount',
+      '2024-01-15,COSTA COFFEE,-3.20',
+      '2024-01-15,COSTA COFFEE,-3.20',
+    ].join('\n');
+    const first = await ingestStatement(csv, { accountKey: 'current', defaultCurrency: 'GBP', findExistingHashes });
+    expect(first.transactions).toHaveLength(2);
+    // Same day, same amount, still two coffees
+    expect(new Set(first.transactions.map((t) => t.contentHash)).size).toBe(2);
+    expect(first.transactions[0].categorization.categoryName).toBe('Food & Dining');
+    first.transactions.forEach((t) => imported.add(t.contentHash));
+
+    // The QIF export of the same month words both coffees differently
+    const qif = [
+      '!Type:Bank',
+      'D15/01/2024', 'T-3.20', 'PCosta Coffee 1234 London', 'MCard payment', '^',
+      'D15/01/2024', 'T-3.20', 'PCosta Coffee 1234 London', 'MCard payment', '^',
+      'D16/01/2024', 'T-3.20', 'PCosta Coffee 1234 London', '^',
+    ].join('\n');
+    const second = await ingestStatement(qif, { accountKey: 'current', defaultCurrency: 'GBP', findExistingHashes });
+    expect(second.duplicatesSkipped).toBe(2);
+    expect(second.transactions.map((t) => t.date)).toEqual(['2024-01-16']);
+
+    const otherAccount = await ingestStatement(csv, { accountKey: 'savings', defaultCurrency: 'GBP', findExistingHashes });
+    expect(otherAccount.duplicatesSkipped).toBe(0);
+  });
+
+  it('matches bank downloads with IDs against CSV exports without them, both ways round', async () => {
+    const contentHashes = new Set<string>();
+    const matchHashes = new Set<string>();
+    const options = {
+      accountKey: 'current',
+      defaultCurrency: 'GBP',
+      findExistingHashes: async (hashes: string[]) => new Set(hashes.filter((hash) => contentHashes.has(hash))),
+      findExistingMatchHashes: async (hashes: string[]) => new Set(hashes.filter((hash) => matchHashes.has(hash))),
+    };
+    const store = (transactions: Array<{ contentHash: string; matchHash: string }>) =>
+      transactions.forEach((t) => {
+        contentHashes.add(t.contentHash);
+        matchHashes.add(t.matchHash);
+      });
+
+    const csv = [
+      'Date,Description,Amount',
+      '2024-01-15,COSTA COFFEE,-3.20',
+      '2024-01-15,COSTA COFFEE,-3.20',
+      '2024-01-20,STUDENT FINANCE,1500.00',
+    ].join('\n');
+
+    const ofx = await ingestStatement(OFX, options);
+    expect(ofx.transactions).toHaveLength(3);
+    store(ofx.transactions);
+    const csvAfterOfx = await ingestStatement(csv, options);
+    expect(csvAfterOfx.duplicatesSkipped).toBe(3);
+    expect(csvAfterOfx.transactions).toEqual([]);
+
+    contentHashes.clear();
+    matchHashes.clear();
+    store((await ingestStatement(csv, options)).transactions);
+    expect((await ingestStatement(OFX, options)).duplicatesSkipped).toBe(3);
+
+    // A later coffee listed first isn't taken for one already imported by ID
+    contentHashes.clear();
+    matchHashes.clear();
+    store((await ingestStatement(OFX, options)).transactions);
+    const thirdCoffee = OFX.replace(
+      '<STMTTRN>',
+      '<STMTTRN>\n<TRNTYPE>DEBIT\n<DTPOSTED>20240115\n<TRNAMT>-3.20\n<FITID>A4\n<NAME>COSTA COFFEE\n<STMTTRN>'
+    );
+    expect((await ingestStatement(thirdCoffee, options)).transactions.map((t) => t.reference)).toEqual(['A4']);
+  });
+
+  it('reports files it cannot read instead of guessing', () => {
+    const result = parseStatement('just some notes\nnothing tabular here');
+    expect(result.format).toBeNull();
+    expect(result.errors[0]).toContain('Could not detect the statement format');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/context/daily-context', () => ({
+  generateDailyContext: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../../lib/uk-student/travel-service', () => ({
+  TravelService: vi.fn(),
+}));
+
+import { ChainGenerator } from '../../lib/chains/chain-generator';
+import {
+  measureStepDuration,
+  summarizeStepDurations,
+  type StepDurationSample,
+} from '../../lib/chains/duration-model';
+import type { Anchor } from '../../lib/anchors/types';
+import type { TimeBlock } from '../../types/daily-plan';
+
+const now = new Date('2026-03-02T08:00:00.000Z');
+
+function sample(stepId: string, minutes: number, daysAgo: number): StepDurationSample {
+  return {
+    template_step_id: stepId,
+    duration_minutes: minutes,
+    observed_at: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+function block(overrides: Partial<TimeBlock> = {}): TimeBlock {
+  return {
+    id: 'block-1',
+    planId: 'plan-1',
+    startTime: new Date('2026-03-02T07:00:00.000Z'),
+    endTime: new Date('2026-03-02T07:10:00.000Z'),
+    activityType: 'routine',
+    activityName: 'Shower',
+    isFixed: false,
+    sequenceOrder: 1,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('step duration model', () => {
+  it('summarizes median and P80 inside the trailing window only', () => {
+    const learned = summarizeStepDurations([
+      sample('shower', 12, 1),
+      sample('shower', 18, 2),
+      sample('shower', 20, 3),
+      sample('shower', 16, 4),
+      sample('shower', 60, 40), // outside the 28-day window
+      sample('pack-bag', 5, 1),
+      sample('pack-bag', 6, 2),
+    ], now);
+
+    expect(learned.shower).toEqual({ median: 17, p80: 19, sample_count: 4 });
+    expect(learned['pack-bag']).toBeUndefined();
+  });
+
+  it('measures from the previous completion and rejects forgotten ticks', () => {
+    const previous = block({
+      id: 'block-0',
+      status: 'completed',
+      metadata: { completed_at: '2026-03-02T07:02:00.000Z' },
+    });
+
+    expect(measureStepDuration(block(), previous, new Date('2026-03-02T07:20:00.000Z'))).toBe(18);
+    expect(measureStepDuration(block(), undefined, new Date('2026-03-02T07:05:00.000Z'))).toBe(5);
+    expect(measureStepDuration(block(), undefined, new Date('2026-03-02T09:00:00.000Z'))).toBeNull();
+    expect(measureStepDuration(block(), undefined, new Date('2026-03-02T07:00:10.000Z'))).toBeNull();
+  });
+
+  it('schedules learned steps with P80 unless the user set a duration', async () => {
+    const generator = new ChainGenerator();
+    const anchor: Anchor = {
+      id: 'event-1',
+      title: 'Lecture: Algorithms',
+      start: new Date('2026-03-02T11:00:00.000Z'),
+      end: new Date('2026-03-02T12:00:00.000Z'),
+      type: 'class',
+      must_attend: true,
+      calendar_event_id: 'event-1',
+    };
+    const options = {
+      userId: 'user-1',
+      date: new Date('2026-03-02T00:00:00.000Z'),
+      config: { currentLocation: { name: 'Home', coordinates: [52.45, -1.93], type: 'home' } as never },
+      learnedDurations: { 'feed-cat': { median: 7, p80: 9, sample_count: 5 } },
+    };
+
+    const [chain] = await generator.generateChainsForDate([anchor], options);
+    const feedCat = chain.steps.find(step => step.metadata?.template_step_id === 'feed-cat');
+    expect(feedCat?.duration).toBe(9);
+    expect(feedCat?.metadata?.learned_duration?.median).toBe(7);
+    expect(feedCat?.metadata?.original_duration).toBe(5);
+
+    const [overridden] = await generator.generateChainsForDate([anchor], {
+      ...options,
+      chainStepOverrides: { 'feed-cat': { duration_estimate: 4 } },
+    });
+    const overriddenStep = overridden.steps.find(step => step.metadata?.template_step_id === 'feed-cat');
+    expect(overriddenStep?.duration).toBe(4);
+    expect(overriddenStep?.metadata?.learned_duration).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectSubscriptions,
+  merchantKey,
+  nthChargeDate,
+  subscriptionAlerts,
+  upcomingCharges,
+  type Charge,
+} from '../../lib/expenses/subscription-detector';
+import { subscriptionService } from '../../lib/expenses/subscription-service';
+
+function charge(date: string, amount: number, description: string, currency = 'GBP'): Charge {
+  return { date, amount, currency, description };
+}
+
+// Every query resolves to the table's rows, whatever its filters, at most
+// 1000 at a time like PostgREST
+function fakeSupabase(tables: Record<string, any[]>) {
+  return {
+    from: (table: string) => {
+      let range: [number, number] = [0, 999];
+      const query: any = {
+        range: (from: number, to: number) => {
+          range = [from, to];
+          return query;
+        },
+        then: (resolve: (result: unknown) => unknown) =>
+          resolve({ data: (tables[table] ?? []).slice(range[0], range[1] + 1), error: null }),
+      };
+      for (const method of ['select', 'eq', 'gte', 'order']) query[method] = () => query;
+      return query;
+    },
+  };
+}
+
+describe('subscription detector', () => {
+  it('groups card references and payment prefixes under one merchant', () => {
+    expect(merchantKey('SPOTIFY P2A4B1C')).toBe('spotify');
+    expect(merchantKey('CARD PAYMENT TO Spotify.com')).toBe('spotify');
+    expect(merchantKey('DIRECT DEBIT PUREGYM LTD 88123')).toBe('puregym');
+    expect(merchantKey('Amazon Prime*2K4LM0 Amzn.co.uk')).toBe('amazon prime');
+  });
+
+  it('finds a monthly subscription through date jitter, a skipped month and a price rise', () => {
+    const charges = [
+      charge('2024-01-03', 10.99, 'NETFLIX.COM 8817'),
+      charge('2024-02-05', 10.99, 'NETFLIX.COM 9023'), // Weekend, taken on Monday
+      charge('2024-03-03', 10.99, 'NETFLIX.COM 1174'),
+      // April missing
+      charge('2024-05-03', 12.99, 'NETFLIX.COM 4410'),
+      charge('2024-01-10', 3.2, 'COSTA COFFEE'),
+      charge('2024-02-21', 4.1, 'COSTA COFFEE'),
+      charge('2024-02-22', 2.8, 'COSTA COFFEE'),
+    ];
+
+    const subscriptions = detectSubscriptions(charges);
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0]).toMatchObject({
+      merchant_key: 'netflix',
+      period: 'monthly',
+      typical_amount: 10.99,
+      last_amount: 12.99,
+      last_charge_date: '2024-05-03',
+      next_expected_date: '2024-06-03',
+      charge_count: 4,
+      status: 'active',
+    });
+    expect(subscriptions[0].confidence).toBeGreaterThanOrEqual(0.6);
+
+    expect(subscriptionAlerts(subscriptions)).toEqual([
+      expect.objectContaining({ type: 'price_increase', merchant_key: 'netflix', amount: 12.99, previous_amount: 10.99 }),
+    ]);
+  });
+
+  it('infers weekly and annual periods', () => {
+    const weekly = ['2024-03-01', '2024-03-08', '2024-03-15', '2024-03-22', '2024-03-29'].map((date) =>
+      charge(date, 4.5, 'TOO GOOD TO GO')
+    );
+    const annual = [charge('2023-09-14', 95, 'AMAZON PRIME'), charge('2024-09-12', 95, 'AMAZON PRIME')];
+
+    const subscriptions = detectSubscriptions([...weekly, ...annual], { coveredUntil: '2024-09-30' });
+    const byKey = Object.fromEntries(subscriptions.map((s) => [s.merchant_key, s]));
+    expect(byKey['amazon prime']).toMatchObject({ period: 'annual', next_expected_date: '2025-09-12', status: 'active' });
+    // Six months without a weekly charge: long gone, no alert
+    expect(byKey['too good']).toMatchObject({ period: 'weekly', status: 'lapsed' });
+    expect(subscriptionAlerts(subscriptions)).toEqual([]);
+  });
+
+  it('flags an expected charge missing from statements that cover its date', () => {
+    const charges = [
+      charge('2024-01-15', 24.99, 'DD PUREGYM'),
+      charge('2024-02-15', 24.99, 'DD PUREGYM'),
+      charge('2024-03-15', 24.99, 'DD PUREGYM'),
+      charge('2024-04-28', 6.0, 'TESCO STORES'),
+    ];
+
+    const [gym] = detectSubscriptions(charges);
+    expect(gym).toMatchObject({ merchant_key: 'puregym', status: 'missed', next_expected_date: '2024-04-15' });
+    expect(subscriptionAlerts([gym])).toEqual([
+      expect.objectContaining({ type: 'missed_charge', expected_date: '2024-04-15' }),
+    ]);
+  });
+
+  it('projects upcoming charges onto the calendar, keeping month-end days', () => {
+    expect(nthChargeDate('2024-01-31', 'monthly', 1)).toBe('2024-02-29');
+    expect(nthChargeDate('2024-01-31', 'monthly', 2)).toBe('2024-03-31');
+
+    const [rent] = detectSubscriptions([
+      charge('2023-11-30', 450, 'STANDING ORDER TO UNITE STUDENTS'),
+      charge('2023-12-31', 450, 'STANDING ORDER TO UNITE STUDENTS'),
+      charge('2024-01-31', 450, 'STANDING ORDER TO UNITE STUDENTS'),
+    ]);
+    expect(upcomingCharges([rent], '2024-02-01', '2024-04-30').map((c) => c.date)).toEqual([
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30',
+    ]);
+    expect(upcomingCharges([{ ...rent, status: 'lapsed' }], '2024-02-01', '2024-04-30')).toEqual([]);
+  });
+
+  it("finds a statement's subscriptions from the user's earlier debits and stored subscriptions", async () => {
+    // One month's statement: a single charge from each merchant
+    const statement = [
+      charge('2024-04-03', 10.99, 'NETFLIX.COM 4410'),
+      charge('2024-04-15', 24.99, 'DD PUREGYM'),
+      charge('2024-04-20', 7.5, 'ODEON CINEMAS'),
+      charge('2024-04-22', 3.2, 'COSTA COFFEE'),
+    ];
+    const supabase = fakeSupabase({
+      expenses: [
+        { transaction_date: '2024-01-03', amount: '-10.99', currency: 'GBP', merchant_name: null, description: 'NETFLIX.COM 8817' },
+        { transaction_date: '2024-02-03', amount: '-10.99', currency: 'GBP', merchant_name: null, description: 'NETFLIX.COM 9023' },
+        { transaction_date: '2024-03-04', amount: '-10.99', currency: 'GBP', merchant_name: null, description: 'NETFLIX.COM 1174' },
+        // This statement imported before: not history
+        { transaction_date: '2024-04-22', amount: '-3.20', currency: 'GBP', merchant_name: null, description: 'COSTA COFFEE' },
+      ],
+      detected_subscriptions: [
+        { merchant_key: 'puregym', currency: 'GBP', dismissed: false },
+        { merchant_key: 'odeon cinemas', currency: 'GBP', dismissed: true },
+      ],
+    });
+
+    expect(detectSubscriptions(statement)).toEqual([]);
+    const keys = await subscriptionService.recurringKeys(supabase, 'user-1', statement);
+    expect([...keys].sort()).toEqual(['netflix|GBP', 'puregym|GBP']);
+  });
+
+  it('reads every debit in the lookback window, past the 1000 row page size', async () => {
+    const expenses = Array.from({ length: 1500 }, (_, index) => ({
+      id: `expense-${index}`,
+      transaction_date: '2024-03-01',
+      amount: '-1.00',
+      currency: 'GBP',
+      merchant_name: null,
+      description: 'VENDING MACHINE',
+    }));
+    const metrics = [{ id: 'metric-1', value: 4.5, unit: 'GBP', metadata: { vendor: 'Greggs' }, recorded_at: '2024-03-02T12:00:00' }];
+
+    const charges = await subscriptionService.loadCharges(fakeSupabase({ expenses, metrics }), 'user-1', '2024-01-01');
+    expect(charges).toHaveLength(1501);
+    expect(charges[1500]).toMatchObject({ merchant: 'Greggs', amount: 4.5 });
+  });
+});
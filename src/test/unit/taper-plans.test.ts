@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTaperProgress,
+  calculateBaseline,
+  dailyAmounts,
+  taperPlanChanges,
+  validateTaperPlanInput,
+  type TaperPlan,
+} from '../../lib/habits/taper-plans';
+import { SemanticType } from '../../lib/habits/taxonomy';
+
+const plan = {
+  baseline_daily: 6,
+  step_amount: 1,
+  step_interval_days: 7,
+  target_daily: 2,
+  start_date: '2026-03-01',
+  status: 'active' as const,
+};
+
+const storedPlan: TaperPlan = {
+  ...plan,
+  id: 'p1',
+  habit_id: 'h1',
+  semantic_type: SemanticType.NICOTINE_POUCHES,
+  unit: 'pouches',
+  paused_at: null,
+  paused_days: 0,
+  schedule_history: [],
+};
+
+describe('taper plans', () => {
+  it('takes the baseline from recent logged amounts', () => {
+    const amounts = dailyAmounts(
+      [
+        { date: '2026-02-20', numeric_value: 5 },
+        { date: '2026-02-21', numeric_value: null, parsed: JSON.stringify({ count: 4 }) },
+        { date: '2026-02-21', numeric_value: 2 },
+        { date: '2026-02-25', value: 1, parsed: null },
+        { date: '2026-03-01', numeric_value: 9 },
+        { date: '2026-01-01', numeric_value: 30 },
+      ],
+      'boolean'
+    );
+
+    expect(amounts).toEqual([
+      { date: '2026-01-01', amount: 30 },
+      { date: '2026-02-20', amount: 5 },
+      { date: '2026-02-21', amount: 6 },
+      { date: '2026-03-01', amount: 9 },
+    ]);
+    expect(calculateBaseline(amounts, '2026-03-01')).toEqual({ baseline: 5.5, daysWithData: 2 });
+    expect(calculateBaseline([], '2026-03-01')).toEqual({ baseline: 0, daysWithData: 0 });
+  });
+
+  it('steps the allowance down and holds it a day for each day over', () => {
+    const kept = buildTaperProgress(plan, [], '2026-03-15');
+    expect(kept.days[6].allowance).toBe(6);
+    expect(kept.days[7].allowance).toBe(5);
+    expect(kept.todayAllowance).toBe(4);
+    expect(kept.nextStepDate).toBe('2026-03-22');
+    expect(kept.projectedTargetDate).toBe('2026-03-29');
+
+    // Two days over in the first week: no reset, the step just comes two days later
+    const slipped = buildTaperProgress(
+      plan,
+      [
+        { date: '2026-03-02', amount: 8 },
+        { date: '2026-03-03', amount: 7 },
+        { date: '2026-03-04', amount: 5 },
+      ],
+      '2026-03-15'
+    );
+    expect(slipped.heldDays).toBe(2);
+    expect(slipped.days.find((day) => day.date === '2026-03-08')?.allowance).toBe(6);
+    expect(slipped.days.find((day) => day.date === '2026-03-10')?.allowance).toBe(5);
+    expect(slipped.todayAllowance).toBe(5);
+    expect(slipped.daysTracked).toBe(3);
+    expect(slipped.adherenceRate).toBeCloseTo(1 / 3);
+
+    const done = buildTaperProgress(plan, [], '2026-04-30');
+    expect(done.todayAllowance).toBe(2);
+    expect(done.reachedTarget).toBe(true);
+    expect(done.nextStepDate).toBeNull();
+  });
+
+  it('holds the allowance while paused and moves later steps back', () => {
+    const paused = { ...storedPlan, ...taperPlanChanges(storedPlan, { status: 'paused' }, '2026-03-05') };
+    expect(paused.paused_at).toBe('2026-03-05');
+
+    const whilePaused = buildTaperProgress(paused, [{ date: '2026-03-10', amount: 9 }], '2026-03-20');
+    expect(whilePaused.todayAllowance).toBe(6);
+    expect(whilePaused.nextStepDate).toBeNull();
+    expect(whilePaused.heldDays).toBe(0);
+    expect(whilePaused.days.find((day) => day.date === '2026-03-10')).toMatchObject({ paused: true, within: null });
+
+    // Four days kept before the pause, so three more after resuming
+    const resumed = { ...paused, ...taperPlanChanges(paused, { status: 'active' }, '2026-03-20') };
+    expect(resumed).toMatchObject({
+      paused_at: null,
+      paused_days: 15,
+      schedule_history: [expect.objectContaining({ until: '2026-03-05', resumed_on: '2026-03-20' })],
+    });
+    const after = buildTaperProgress(resumed, [], '2026-03-23');
+    expect(after.pausedDays).toBe(15);
+    expect(after.todayAllowance).toBe(5);
+    expect(after.days.find((day) => day.date === '2026-03-22')?.allowance).toBe(6);
+    expect(after.nextStepDate).toBe('2026-03-30');
+  });
+
+  it('starts changed steps from the day of the change without rewriting earlier days', () => {
+    const before = buildTaperProgress(storedPlan, [], '2026-03-10');
+    const changed = { ...storedPlan, ...taperPlanChanges(storedPlan, { step_amount: 2, step_interval_days: 3 }, '2026-03-10') };
+    expect(changed.schedule_history).toEqual([
+      { until: '2026-03-10', step_amount: 1, step_interval_days: 7, target_daily: 2 },
+    ]);
+
+    const after = buildTaperProgress(changed, [], '2026-03-14');
+    expect(after.days.slice(0, 9)).toEqual(before.days.slice(0, 9));
+    expect(after.days.find((day) => day.date === '2026-03-10')?.allowance).toBe(5);
+    expect(after.days.find((day) => day.date === '2026-03-13')?.allowance).toBe(3);
+    expect(after.todayAllowance).toBe(3);
+    expect(after.nextStepDate).toBe('2026-03-16');
+  });
+
+  it('validates plan input', () => {
+    expect(
+      validateTaperPlanInput({ habit_id: 'h1', semantic_type: 'NICOTINE_POUCHES', step_amount: 1, step_interval_days: 7 })
+    ).toEqual([]);
+    expect(
+      validateTaperPlanInput({
+        habit_id: 'h1',
+        semantic_type: 'GYM',
+        step_amount: 0,
+        step_interval_days: 7.5,
+        baseline_daily: 2,
+        target_daily: 3,
+      })
+    ).toHaveLength(4);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/context/daily-context', () => ({
+  generateDailyContext: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../../lib/uk-student/travel-service', () => ({
+  TravelService: vi.fn(),
+}));
+
+import { ChainGenerator } from '../../lib/chains/chain-generator';
+import { diffTimetableImport, isTimetableExport, parseTimetableCsv } from '../../lib/import/timetable-csv';
+import type { Anchor } from '../../lib/anchors/types';
+
+// Rows shaped like sample-data/timetable_2025-09-08.csv after Papa.parse({ header: true })
+function row(overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    'Description': 'Programming for Data Science(35447)/Lecture',
+    'Start week': 'S1Wk1',
+    'Start day': 'Tue',
+    'Start date': '2025-09-30',
+    'Start time': '13:00',
+    'End day': 'Tue',
+    'End date': '2025-09-30',
+    'End time': '14:00',
+    'Duration': '1:00',
+    'Type': 'Lecture',
+    'Staff member(s)': 'Jiao, Dr Jianbo, Smith, Dr Phillip',
+    'Location(s)': 'Staff House - STH-205',
+    'Student(s)': '',
+    'Department': '016 Computer Science',
+    'Size': '172',
+    'Additional info': '',
+    'Attendance is mandatory for this activity': 'No',
+    'Draft': 'No',
+    'ID': '9718',
+    'This activity takes place on location': 'Yes',
+    'This activity takes place online': 'No',
+    ...overrides,
+  };
+}
+
+describe('timetable CSV import', () => {
+  it('keeps attendance, online, week and staff columns with stable external ids', () => {
+    const rows = [
+      row(),
+      row({ 'Start week': 'S1Wk2', 'Start date': '2025-10-07', 'End date': '2025-10-07' }),
+      row({
+        'ID': '95960',
+        'Description': 'Programming for Data Science(35447)/Seminar',
+        'Type': 'Seminar',
+        'Location(s)': '',
+        'Attendance is mandatory for this activity': 'Yes',
+        'This activity takes place on location': 'No',
+        'This activity takes place online': 'Yes',
+      }),
+      // Second session of the same activity in the same week
+      row({ 'Start day': 'Thu', 'Start date': '2025-10-02', 'End day': 'Thu', 'End date': '2025-10-02' }),
+      row({ 'ID': '1', 'Draft': 'Yes' }),
+      row({ 'Start time': '' }),
+      row(),
+    ];
+
+    expect(isTimetableExport(rows)).toBe(true);
+    expect(isTimetableExport([{ Description: 'x', 'Start date': '2025-09-30' }])).toBe(false);
+
+    const { events, skipped } = parseTimetableCsv(rows, { now: new Date('2025-09-08T00:00:00.000Z') });
+
+    // Same activity ID every session: the session's date and time keep occurrences apart
+    expect(events.map((event) => event.external_id)).toEqual([
+      'timetable:9718:2025-09-30T13:00',
+      'timetable:9718:2025-10-07T13:00',
+      'timetable:95960:2025-09-30T13:00',
+      'timetable:9718:2025-10-02T13:00',
+    ]);
+    expect(events[0]).toMatchObject({
+      // 13:00 in London during BST
+      start_time: '2025-09-30T12:00:00.000Z',
+      end_time: '2025-09-30T13:00:00.000Z',
+      event_type: 'class',
+      must_attend: false,
+      is_online: false,
+      location: 'Staff House - STH-205',
+    });
+    expect(events[0].description).toBe('Week: S1Wk1\nStaff: Jiao, Dr Jianbo, Smith, Dr Phillip');
+    expect(events[2]).toMatchObject({ must_attend: true, is_online: true, importance: 'high', location: undefined });
+    expect(skipped).toEqual([
+      { row: 6, reason: 'Draft activity' },
+      { row: 7, reason: 'Invalid start or end time' },
+      { row: 8, reason: 'Duplicate of activity 9718 at the same time' },
+    ]);
+  });
+
+  it('previews re-imports as added, updated, unchanged and removed', () => {
+    const { events: stored } = parseTimetableCsv([
+      row(),
+      row({ 'Start week': 'S1Wk2', 'Start date': '2025-10-07', 'End date': '2025-10-07' }),
+      row({ 'ID': '21624', 'Start date': '2025-10-01', 'End date': '2025-10-01' }),
+      // Outside the new export's date range, so it is kept
+      row({ 'Start week': 'S1Wk9', 'Start date': '2025-11-25', 'End date': '2025-11-25' }),
+    ]);
+    const existing = stored.map((event, index) => ({ ...event, id: `stored-${index}`, location: event.location ?? null } as never));
+
+    const { events: incoming } = parseTimetableCsv([
+      row(),
+      row({
+        'Start week': 'S1Wk2',
+        'Start date': '2025-10-07',
+        'End date': '2025-10-07',
+        'Location(s)': 'Muirhead Tower - MUIR-G15',
+      }),
+      row({ 'ID': '39551', 'Start date': '2025-09-29', 'End date': '2025-09-29' }),
+    ]);
+
+    const preview = diffTimetableImport(incoming, existing);
+
+    expect(preview.added.map((event) => event.external_id)).toEqual(['timetable:39551:2025-09-29T13:00']);
+    expect(preview.updated).toHaveLength(1);
+    expect(preview.updated[0].existing.id).toBe('stored-1');
+    expect(preview.updated[0].changes).toEqual(['location']);
+    expect(preview.unchanged.map((event) => event.id)).toEqual(['stored-0']);
+    expect(preview.removed.map((event) => event.id)).toEqual(['stored-2']);
+  });
+
+  it('builds no travel envelope for online sessions', async () => {
+    const generator = new ChainGenerator();
+    const online: Anchor = {
+      id: 'seminar',
+      title: 'Data Science Seminar',
+      start: new Date('2026-03-02T11:00:00.000Z'),
+      end: new Date('2026-03-02T12:00:00.000Z'),
+      type: 'seminar',
+      must_attend: true,
+      is_online: true,
+      calendar_event_id: 'seminar',
+    };
+
+    const [chain] = await generator.generateChainsForDate([online], {
+      userId: 'user-1',
+      date: new Date('2026-03-02T00:00:00.000Z'),
+      config: { currentLocation: { name: 'Home', coordinates: [52.45, -1.93], type: 'home' } as never },
+    });
+
+    expect(chain.commitment_envelope.travel_there).toBeUndefined();
+    expect(chain.commitment_envelope.travel_back).toBeUndefined();
+    expect(chain.commitment_envelope.recovery.start_time).toEqual(online.end);
+
+    const blocks = generator.convertChainToTimeBlocks(chain, 'plan-1');
+    const envelopeTypes = blocks
+      .map((block) => (block.metadata as any)?.commitment_envelope?.envelope_type)
+      .filter(Boolean);
+    expect(envelopeTypes).toEqual(['prep', 'anchor', 'recovery']);
+    expect(blocks.every((block) => (block.metadata as any)?.location_state !== 'not_home')).toBe(true);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { UKStudentAIAgent } from '../../lib/intelligence/uk-student-ai-agent';
+import { StubLLMProvider } from '../../lib/ai/llm';
 
-// Mock Supabase and Gemini
+// Mock Supabase; the AI is a fixture stub
 vi.mock('../../lib/auth/simple-multi-user', () => ({
   createServerAuth: vi.fn(() => {
     const mockChain = {
@@ -22,18 +23,6 @@ vi.mock('../../lib/auth/simple-multi-user', () => ({
   })
 }));
 
-vi.mock('@google/generative-ai', () => ({
-  GoogleGenerativeAI: vi.fn(() => ({
-    getGenerativeModel: vi.fn(() => ({
-      generateContent: vi.fn(() => Promise.resolve({
-        response: {
-          text: vi.fn(() => 'Mock AI response')
-        }
-      }))
-    }))
-  }))
-}));
-
 const mockUserProfile = {
   id: 'test-user-id',
   name: 'Test Student',
@@ -55,7 +44,7 @@ describe('UKStudentAIAgent', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    agent = new UKStudentAIAgent(mockCookies, 'test-user-id', 'mock-api-key');
+    agent = new UKStudentAIAgent(mockCookies, 'test-user-id', new StubLLMProvider([], { fallback: 'Mock AI response' }));
   });
 
   describe('Natural Language Task Creation', () => {
@@ -358,11 +347,12 @@ describe('UKStudentAIAgent', () => {
   });
 
   describe('Error Handling', () => {
-    it('should handle missing API key gracefully', async () => {
-      const agentNoKey = new UKStudentAIAgent(mockCookies, 'test-user-id', '');
+    it('should handle a provider with no answer gracefully', async () => {
+      const agentNoKey = new UKStudentAIAgent(mockCookies, 'test-user-id', new StubLLMProvider());
       
       // Should not throw, but provide fallback
       expect(agentNoKey).toBeDefined();
+      expect(typeof await agentNoKey.chat('test message')).toBe('string');
     });
 
     it('should provide fallback response on error', async () => {
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../lib/context/daily-context', () => ({
+  generateDailyContext: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../../lib/uk-student/travel-service', () => ({
+  TravelService: vi.fn(),
+}));
+
+import { ChainGenerator } from '../../lib/chains/chain-generator';
+import {
+  cloneChainTemplate,
+  matchUserChainTemplate,
+  parseUserChainTemplate,
+} from '../../lib/chains/user-templates';
+import type { Anchor } from '../../lib/anchors/types';
+import type { UserChainTemplate } from '../../lib/chains/types';
+
+function anchor(overrides: Partial<Anchor> = {}): Anchor {
+  return {
+    id: 'event-1',
+    title: 'Lecture: Algorithms',
+    start: new Date('2026-03-02T11:00:00.000Z'),
+    end: new Date('2026-03-02T12:00:00.000Z'),
+    type: 'class',
+    must_attend: true,
+    calendar_event_id: 'event-1',
+    ...overrides,
+  };
+}
+
+function template(id: string, bindings: UserChainTemplate['bindings']): UserChainTemplate {
+  return {
+    ...cloneChainTemplate('appointment', id, id),
+    bindings,
+  };
+}
+
+describe('user chain templates', () => {
+  it('prefers anchor, then title pattern, then anchor type bindings', () => {
+    const byType = template('by-type', [{ type: 'anchor_type', anchor_type: 'class' }]);
+    const byTitle = template('by-title', [{ type: 'title_pattern', pattern: '/^gym/' }]);
+    const byAnchor = template('by-anchor', [{ type: 'anchor', anchor_id: 'series-abc' }]);
+    const templates = [byType, byTitle, byAnchor];
+
+    expect(matchUserChainTemplate(anchor(), templates)?.template.id).toBe('by-type');
+    expect(matchUserChainTemplate(anchor({ title: 'Gym day class' }), templates)?.template.id).toBe('by-title');
+    expect(
+      matchUserChainTemplate(anchor({ id: 'series-abc-2026-03-02', title: 'Gym day class' }), templates)?.template.id
+    ).toBe('by-anchor');
+    expect(matchUserChainTemplate(anchor({ type: 'seminar' }), templates)).toBeNull();
+  });
+
+  it('never runs a title regex that could backtrack catastrophically', () => {
+    const evil = template('evil', [{ type: 'title_pattern', pattern: '/(a?){25}a{25}/' }]);
+    const started = Date.now();
+
+    expect(matchUserChainTemplate(anchor({ title: 'a'.repeat(25) }), [evil])).toBeNull();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('keeps the exit gate and leave steps when a template omits them', () => {
+    const result = parseUserChainTemplate({
+      id: 'dentist',
+      name: 'Dentist appointment',
+      steps: [{ name: 'Floss', duration_estimate: 5 }],
+      bindings: [{ type: 'title_pattern', pattern: 'dentist' }, { type: 'nonsense' }],
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.template.steps.map(step => step.id)).toEqual(['floss', 'exit-gate', 'leave']);
+    expect(result.template.bindings).toEqual([{ type: 'title_pattern', pattern: 'dentist' }]);
+  });
+
+  it('rejects templates without a name or with duplicate step ids', () => {
+    expect(parseUserChainTemplate({ id: 'x', name: ' ', steps: [] }).ok).toBe(false);
+    expect(parseUserChainTemplate({
+      id: 'x',
+      name: 'Dupes',
+      steps: [{ id: 'a', name: 'A' }, { id: 'a', name: 'B' }],
+    }).ok).toBe(false);
+  });
+
+  it('generates the chain from the bound template before the built-in default', async () => {
+    const generator = new ChainGenerator();
+    const gymDay = template('gym-day', [{ type: 'title_pattern', pattern: 'gym' }]);
+    gymDay.name = 'Gym day class';
+    gymDay.steps = [
+      { id: 'pack-kit', name: 'Pack gym kit', duration_estimate: 10, is_required: true, can_skip_when_late: false },
+      ...gymDay.steps,
+    ];
+
+    const [gymChain, lectureChain] = await generator.generateChainsForDate(
+      [anchor({ id: 'gym', title: 'Gym day class' }), anchor({ id: 'lecture' })],
+      {
+        userId: 'user-1',
+        date: new Date('2026-03-02T00:00:00.000Z'),
+        userTemplates: [gymDay],
+        config: { currentLocation: { name: 'Home', coordinates: [52.45, -1.93], type: 'home' } as never },
+      }
+    );
+
+    expect(gymChain.steps[0].name).toBe('Pack gym kit');
+    expect(gymChain.metadata?.user_template_id).toBe('gym-day');
+    expect(gymChain.metadata?.user_template_binding).toBe('title_pattern');
+    expect(lectureChain.steps[0].name).toBe('Feed cat');
+    expect(lectureChain.metadata?.user_template_id).toBeUndefined();
+  });
+});
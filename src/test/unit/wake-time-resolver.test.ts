@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fitnessSleepWakeCandidate,
+  loadWakeTimeCandidates,
+  resolveWakeTime,
+  sleepNoteWakeCandidate,
+  type WakeTimeCandidate,
+} from '../../lib/daily-plan/wake-time';
+
+const planDate = new Date(2026, 2, 2);
+const now = new Date(2026, 2, 2, 11, 0);
+const requested = new Date(2026, 2, 2, 7, 0);
+
+function at(hours: number, minutes: number): Date {
+  return new Date(2026, 2, 2, hours, minutes);
+}
+
+function candidate(source: WakeTimeCandidate['source'], wake: Date, confidence: number): WakeTimeCandidate {
+  return { source, wake_time: wake, confidence, detail: source };
+}
+
+function supabaseWith(tables: Record<string, unknown[]>) {
+  return {
+    from: (table: string) => {
+      const query: any = {
+        select: () => query,
+        eq: () => query,
+        gte: () => query,
+        lte: () => query,
+        then: (resolve: (value: unknown) => unknown) => resolve({ data: tables[table] || [], error: null }),
+      };
+      return query;
+    },
+  } as any;
+}
+
+describe('wake time resolver', () => {
+  it('reads wake times from overnight sleep notes and tracker sessions', () => {
+    const note = sleepNoteWakeCandidate({
+      notes: 'slept 11pm-7:30am',
+      date: '2026-03-01',
+      logged_at: null,
+      habit_name: 'Sleep',
+    }, planDate);
+    expect(note?.wake_time).toEqual(at(7, 30));
+    expect(note?.confidence).toBe(0.75);
+
+    // A same-day range logged yesterday is yesterday's nap, not last night
+    expect(sleepNoteWakeCandidate({ notes: 'slept 1pm-2pm', date: '2026-03-01', logged_at: null }, planDate)).toBeNull();
+
+    const tracker = fitnessSleepWakeCandidate({
+      source: 'fitbit',
+      confidence: 0.8,
+      metadata: { startedAt: at(0, 10).toISOString(), endedAt: at(7, 12).toISOString() },
+    }, planDate);
+    expect(tracker).toMatchObject({ source: 'fitness_tracker', confidence: 0.8 });
+    expect(fitnessSleepWakeCandidate({ source: 'fitbit', confidence: 0.8, metadata: {} }, planDate)).toBeNull();
+  });
+
+  it('prefers the most confident sleep source and boosts agreement', () => {
+    const result = resolveWakeTime({
+      requested,
+      requestedIsManual: false,
+      now,
+      candidates: [
+        candidate('sleep_note', at(7, 30), 0.7),
+        candidate('fitness_tracker', at(7, 12), 0.8),
+        candidate('first_interaction', at(8, 5), 0.55),
+      ],
+    });
+
+    expect(result.source).toBe('fitness_tracker');
+    expect(result.wake_time).toEqual(at(7, 12));
+    expect(result.confidence).toBeCloseTo(0.9);
+    expect(result.explanation).toContain('Your sleep note agrees.');
+  });
+
+  it('drops sleep data that ends after the first interaction and falls back in order', () => {
+    const afterInteraction = resolveWakeTime({
+      requested,
+      requestedIsManual: false,
+      now,
+      candidates: [
+        candidate('sleep_note', at(9, 0), 0.7),
+        candidate('first_interaction', at(6, 45), 0.55),
+      ],
+    });
+    expect(afterInteraction.source).toBe('first_interaction');
+    expect(afterInteraction.wake_time).toEqual(at(6, 45));
+
+    const nothing = resolveWakeTime({ requested, requestedIsManual: false, now, candidates: [] });
+    expect(nothing).toMatchObject({ source: 'default', wake_time: requested });
+
+    const manual = resolveWakeTime({
+      requested,
+      requestedIsManual: true,
+      now,
+      candidates: [candidate('fitness_tracker', at(6, 0), 0.9)],
+    });
+    expect(manual).toMatchObject({ source: 'manual', wake_time: requested, confidence: 1 });
+  });
+
+  it('ignores app activity before bed and before 04:00', () => {
+    const tracker = fitnessSleepWakeCandidate({
+      source: 'fitbit',
+      confidence: 0.8,
+      metadata: { startedAt: at(1, 0).toISOString(), endedAt: at(7, 40).toISOString() },
+    }, planDate)!;
+
+    const result = resolveWakeTime({
+      requested,
+      requestedIsManual: false,
+      now,
+      candidates: [tracker, candidate('first_interaction', at(0, 30), 0.55)],
+    });
+    expect(result).toMatchObject({ source: 'fitness_tracker', wake_time: at(7, 40) });
+    expect(result.explanation).not.toContain('Ignored');
+
+    const earlyOnly = resolveWakeTime({
+      requested,
+      requestedIsManual: false,
+      now,
+      candidates: [candidate('first_interaction', at(2, 15), 0.55)],
+    });
+    expect(earlyOnly).toMatchObject({ source: 'default', wake_time: requested });
+  });
+
+  it('does not treat imported habit entries as app activity', async () => {
+    const candidates = await loadWakeTimeCandidates(supabaseWith({
+      habit_entries: [
+        // Loop import backfill, stamped at midnight UTC of its date
+        { notes: null, date: '2026-03-02', logged_at: '2026-03-02T00:00:00.000Z', source: null, habits: { name: 'Read' } },
+        { notes: null, date: '2026-03-02', logged_at: at(5, 10).toISOString(), source: 'loop_per_habit', habits: { name: 'Walk' } },
+        { notes: null, date: '2026-03-02', logged_at: at(8, 20).toISOString(), source: 'manual', habits: { name: 'Meds' } },
+      ],
+    }), 'user-1', planDate);
+
+    expect(candidates).toEqual([
+      expect.objectContaining({ source: 'first_interaction', wake_time: at(8, 20) }),
+    ]);
+  });
+});
@@ -37,6 +37,8 @@ export interface CalendarEvent {
   event_type: 'class' | 'meeting' | 'personal' | 'workout' | 'task' | 'break' | 'meal';
   flexibility: 'fixed' | 'moveable' | 'flexible';
   importance: 'low' | 'medium' | 'high' | 'critical';
+  must_attend?: boolean | null; // From the source when it says so; null = infer from location
+  is_online?: boolean; // Online-only session, no travel needed
   created_at: string; // ISO string
   updated_at: string; // ISO string
 }
@@ -1,15 +1,16 @@
 // Daily Plan Generator V1 Types
 
 export type EnergyState = 'low' | 'medium' | 'high';
-export type PlanStatus = 'active' | 'degraded' | 'completed';
+export type PlanStatus = 'active' | 'degraded' | 'completed' | 'collapsed';
 export type ActivityType = 'commitment' | 'task' | 'routine' | 'meal' | 'buffer' | 'travel';
 export type BlockStatus = 'pending' | 'completed' | 'skipped';
 export type TravelMethod = 'bike' | 'train' | 'walk' | 'bus';
 
 // V2 Chain-Based Execution imports
-import type { ExecutionChain } from '../lib/chains/types';
+import type { DegradationEvent, ExecutionChain, LearnedStepDuration } from '../lib/chains/types';
 import type { HomeInterval, LocationPeriod } from '../lib/chains/location-state';
 import type { WakeRamp } from '../lib/chains/wake-ramp';
+import type { WakeTimeSource } from '../lib/daily-plan/wake-time';
 
 export interface DailyPlan {
   id: string;
@@ -22,6 +23,9 @@ export interface DailyPlan {
   generatedAt: Date;
   generatedAfterNow: boolean;
   planStart: Date;
+  collapsedAt?: Date;
+  preCollapseStatus?: PlanStatus;
+  wakeResolution?: PlanWakeResolution;
   createdAt: Date;
   updatedAt: Date;
   timeBlocks?: TimeBlock[];
@@ -101,8 +105,27 @@ export interface TimeBlockMetadata {
   // Chain execution completion metadata
   completed_at?: string;
   completed_by?: string;
+
+  // Degradation ladder metadata
+  can_skip_when_late?: boolean;
+  degrade_priority?: number;
+  degradation?: DegradationEvent;
+
+  // Learned step duration metadata
+  template_step_id?: string;
+  learned_duration?: LearnedStepDuration;
+  original_duration?: number;
+
+  // Collapse Mode metadata
+  anchor_must_attend?: boolean;
+  collapse_dropped?: boolean;
+  collapse_recovery?: boolean;
+  recovery_kind?: CollapseRecoveryKind;
 }
 
+// Collapse Mode recovery block kinds
+export type CollapseRecoveryKind = 'eat' | 'meds' | 'hygiene' | 'rest';
+
 export interface ExitTime {
   id: string;
   planId: string;
@@ -122,6 +145,14 @@ export interface PlanInput {
   wakeTime: Date;
   sleepTime: Date;
   energyState: EnergyState;
+  wakeResolution?: PlanWakeResolution;
+}
+
+// Which source the plan's wake time came from (see lib/daily-plan/wake-time.ts)
+export interface PlanWakeResolution {
+  source: WakeTimeSource;
+  confidence: number;
+  explanation: string;
 }
 
 // Database row types (snake_case from database)
@@ -136,6 +167,9 @@ export interface DailyPlanRow {
   generated_at: string;
   generated_after_now: boolean;
   plan_start: string;
+  collapsed_at?: string | null;
+  pre_collapse_status?: PlanStatus | null;
+  wake_resolution?: PlanWakeResolution | null;
   created_at: string;
   updated_at: string;
 }
@@ -151,7 +185,7 @@ export interface TimeBlockRow {
   is_fixed: boolean;
   sequence_order: number;
   status: BlockStatus;
-  skip_reason?: string;
+  skip_reason?: string | null;
   metadata?: TimeBlockMetadata;
   created_at: string;
   updated_at: string;
@@ -1,3 +1,5 @@
+import type { HabitFrequency } from '../lib/habits/frequency';
+
 export interface Habit {
   id: string;
   user_id: string;
@@ -8,6 +10,7 @@ export interface Habit {
   measurement_type: "boolean" | "count" | "duration";
   target_value: number | null;
   target_unit: string | null;
+  frequency?: HabitFrequency | null; // null = daily
   color: string | null;
   streak_count: number | null;
   best_streak: number | null;
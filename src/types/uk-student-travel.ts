@@ -8,6 +8,8 @@ export interface Location {
   address?: string;
   buildingCode?: string; // For university buildings
   notes?: string;
+  accessMinutes?: number; // Door to room: lifts, reception, finding the room
+  bikeParkingMinutes?: number; // Locking up and walking from the bike racks
 }
 
 export interface WeatherData {
@@ -40,10 +42,38 @@ export interface TravelRoute {
     cancellations: boolean;
     alternativeRoutes: TravelRoute[];
   };
+  transit?: TransitJourney; // Timetabled train/bus journey from a GTFS feed
+}
+
+export interface TransitLeg {
+  mode: 'train' | 'bus';
+  routeName: string;
+  headsign: string | null;
+  fromStop: string;
+  toStop: string;
+  departure: Date;
+  arrival: Date;
+}
+
+export interface TransitJourney {
+  leaveAt: Date; // Leave the origin to walk to the first departure
+  departure: Date; // First vehicle departure
+  arrival: Date; // At the destination, after the final walk
+  walkToStopMinutes: number;
+  walkFromStopMinutes: number;
+  waitMinutes: number; // Waiting at stops between legs
+  legs: TransitLeg[];
 }
 
 export interface TravelPreferences {
-  preferredMethod: 'bike' | 'train' | 'mixed';
+  preferredMethod: TravelRoute['method'] | 'mixed';
+  allowedMethods?: TravelRoute['method'][]; // Only plan these; all when unset
+  walkingSpeedKmh?: number;
+  cyclingSpeedKmh?: number;
+  fares?: {
+    train?: number; // in pence
+    bus?: number; // in pence, per bus boarded
+  };
   maxWalkingDistance: number; // in meters
   weatherThreshold: {
     minTemperature: number;
@@ -0,0 +1,23 @@
+-- V2.2 stabilization: Collapse Mode (recovery-first plan state).
+-- Additive migration only.
+
+ALTER TABLE public.daily_plans
+  DROP CONSTRAINT IF EXISTS daily_plans_status_check;
+
+ALTER TABLE public.daily_plans
+  ADD CONSTRAINT daily_plans_status_check
+  CHECK (status IN ('active', 'degraded', 'completed', 'collapsed'));
+
+ALTER TABLE public.daily_plans
+  ADD COLUMN IF NOT EXISTS collapsed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS pre_collapse_status text;
+
+ALTER TABLE public.daily_plans
+  DROP CONSTRAINT IF EXISTS daily_plans_pre_collapse_status_check;
+
+ALTER TABLE public.daily_plans
+  ADD CONSTRAINT daily_plans_pre_collapse_status_check
+  CHECK (pre_collapse_status IS NULL OR pre_collapse_status IN ('active', 'degraded', 'completed'));
+
+COMMENT ON COLUMN public.daily_plans.collapsed_at IS 'When the plan last entered Collapse Mode';
+COMMENT ON COLUMN public.daily_plans.pre_collapse_status IS 'Status to restore when leaving Collapse Mode';
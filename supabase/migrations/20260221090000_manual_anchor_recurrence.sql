@@ -0,0 +1,80 @@
+-- V2.2 stabilization: recurring manual anchors (RRULE series + per-occurrence overrides).
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.manual_anchor_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  location text,
+  anchor_type text NOT NULL DEFAULT 'other',
+  must_attend boolean NOT NULL DEFAULT true,
+  notes text,
+  start_date date NOT NULL,
+  start_local_time time NOT NULL,
+  duration_minutes integer NOT NULL,
+  timezone text NOT NULL DEFAULT 'Europe/London',
+  recurrence_rule text NOT NULL,
+  exdates date[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT manual_anchor_series_anchor_type_check
+    CHECK (anchor_type IN ('class', 'seminar', 'workshop', 'appointment', 'other')),
+  CONSTRAINT manual_anchor_series_duration_check
+    CHECK (duration_minutes > 0 AND duration_minutes <= 1440)
+);
+
+CREATE INDEX IF NOT EXISTS manual_anchor_series_user_start_idx
+  ON public.manual_anchor_series (user_id, start_date);
+
+COMMENT ON COLUMN public.manual_anchor_series.recurrence_rule IS 'RRULE subset: FREQ=DAILY|WEEKLY, INTERVAL, BYDAY, UNTIL, COUNT';
+COMMENT ON COLUMN public.manual_anchor_series.exdates IS 'Occurrence dates removed from the series';
+
+-- A manual anchor row linked to a series overrides one occurrence of it.
+ALTER TABLE public.manual_anchors
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES public.manual_anchor_series(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+ALTER TABLE public.manual_anchors
+  DROP CONSTRAINT IF EXISTS manual_anchors_occurrence_check;
+
+ALTER TABLE public.manual_anchors
+  ADD CONSTRAINT manual_anchors_occurrence_check
+  CHECK ((series_id IS NULL) = (occurrence_date IS NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS manual_anchors_series_occurrence_idx
+  ON public.manual_anchors (series_id, occurrence_date)
+  WHERE series_id IS NOT NULL;
+
+COMMENT ON COLUMN public.manual_anchors.series_id IS 'Series this row overrides an occurrence of (NULL for one-off anchors)';
+COMMENT ON COLUMN public.manual_anchors.occurrence_date IS 'Original series date this row replaces';
+
+ALTER TABLE public.manual_anchor_series ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own manual anchor series" ON public.manual_anchor_series;
+CREATE POLICY "Users can view own manual anchor series"
+ON public.manual_anchor_series
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own manual anchor series" ON public.manual_anchor_series;
+CREATE POLICY "Users can insert own manual anchor series"
+ON public.manual_anchor_series
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own manual anchor series" ON public.manual_anchor_series;
+CREATE POLICY "Users can update own manual anchor series"
+ON public.manual_anchor_series
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own manual anchor series" ON public.manual_anchor_series;
+CREATE POLICY "Users can delete own manual anchor series"
+ON public.manual_anchor_series
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,58 @@
+-- V2.2 stabilization: observed chain step durations for learned estimates.
+-- Additive migration only.
+
+-- time_block_id is deliberately not a foreign key: plans are replaced on
+-- regenerate, and the duration history has to outlive the blocks it came from.
+CREATE TABLE IF NOT EXISTS public.chain_step_duration_samples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  template_step_id text NOT NULL,
+  time_block_id uuid NOT NULL,
+  duration_minutes numeric(6, 1) NOT NULL,
+  planned_minutes integer,
+  observed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT chain_step_duration_samples_duration_check
+    CHECK (duration_minutes > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS chain_step_duration_samples_block_idx
+  ON public.chain_step_duration_samples (time_block_id);
+
+CREATE INDEX IF NOT EXISTS chain_step_duration_samples_user_observed_idx
+  ON public.chain_step_duration_samples (user_id, observed_at DESC);
+
+COMMENT ON COLUMN public.chain_step_duration_samples.template_step_id IS 'Chain template step id (e.g. shower), shared across days';
+COMMENT ON COLUMN public.chain_step_duration_samples.duration_minutes IS 'Measured minutes from step start to completion';
+
+ALTER TABLE public.chain_step_duration_samples ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own chain step duration samples" ON public.chain_step_duration_samples;
+CREATE POLICY "Users can view own chain step duration samples"
+ON public.chain_step_duration_samples
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own chain step duration samples" ON public.chain_step_duration_samples;
+CREATE POLICY "Users can insert own chain step duration samples"
+ON public.chain_step_duration_samples
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- Completing a step again upserts on time_block_id, which needs UPDATE
+DROP POLICY IF EXISTS "Users can update own chain step duration samples" ON public.chain_step_duration_samples;
+CREATE POLICY "Users can update own chain step duration samples"
+ON public.chain_step_duration_samples
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own chain step duration samples" ON public.chain_step_duration_samples;
+CREATE POLICY "Users can delete own chain step duration samples"
+ON public.chain_step_duration_samples
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
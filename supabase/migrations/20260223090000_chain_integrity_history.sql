@@ -0,0 +1,69 @@
+-- V2.2 stabilization: per-day chain integrity history for the weekly report.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.chain_integrity_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  chain_id text NOT NULL,
+  plan_id uuid,
+  plan_date date NOT NULL,
+  anchor_id text NOT NULL,
+  anchor_title text NOT NULL,
+  anchor_type text NOT NULL,
+  status text NOT NULL,
+  chain_integrity text NOT NULL,
+  was_late boolean NOT NULL DEFAULT false,
+  late_minutes integer,
+  steps_total integer NOT NULL DEFAULT 0,
+  steps_completed integer NOT NULL DEFAULT 0,
+  missed_steps jsonb NOT NULL DEFAULT '[]'::jsonb,
+  degradation_events jsonb NOT NULL DEFAULT '[]'::jsonb,
+  evaluated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT chain_integrity_history_status_check
+    CHECK (status IN ('completed', 'failed')),
+  CONSTRAINT chain_integrity_history_integrity_check
+    CHECK (chain_integrity IN ('intact', 'broken'))
+);
+
+-- plan_id is not a foreign key so history survives plan regeneration.
+CREATE UNIQUE INDEX IF NOT EXISTS chain_integrity_history_chain_idx
+  ON public.chain_integrity_history (chain_id);
+
+CREATE INDEX IF NOT EXISTS chain_integrity_history_user_date_idx
+  ON public.chain_integrity_history (user_id, plan_date DESC);
+
+COMMENT ON COLUMN public.chain_integrity_history.late_minutes IS 'Exit gate completion minus planned leave time; null when the gate was not ticked';
+COMMENT ON COLUMN public.chain_integrity_history.missed_steps IS 'Steps not completed: [{template_step_id, name, required, skipped}]';
+
+ALTER TABLE public.chain_integrity_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own chain integrity history" ON public.chain_integrity_history;
+CREATE POLICY "Users can view own chain integrity history"
+ON public.chain_integrity_history
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own chain integrity history" ON public.chain_integrity_history;
+CREATE POLICY "Users can insert own chain integrity history"
+ON public.chain_integrity_history
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own chain integrity history" ON public.chain_integrity_history;
+CREATE POLICY "Users can update own chain integrity history"
+ON public.chain_integrity_history
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own chain integrity history" ON public.chain_integrity_history;
+CREATE POLICY "Users can delete own chain integrity history"
+ON public.chain_integrity_history
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
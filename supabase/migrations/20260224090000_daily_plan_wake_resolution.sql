@@ -0,0 +1,7 @@
+-- V2.2 stabilization: record where a plan's wake time came from.
+-- Additive migration only.
+
+ALTER TABLE public.daily_plans
+  ADD COLUMN IF NOT EXISTS wake_resolution jsonb;
+
+COMMENT ON COLUMN public.daily_plans.wake_resolution IS 'Wake time source, confidence and explanation (manual, sleep_note, fitness_tracker, first_interaction, default)';
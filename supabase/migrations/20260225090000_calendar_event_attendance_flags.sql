@@ -0,0 +1,13 @@
+-- V2.2 stabilization: carry timetable attendance and online flags on calendar events.
+-- Additive migration only.
+
+ALTER TABLE public.calendar_events
+  ADD COLUMN IF NOT EXISTS must_attend boolean,
+  ADD COLUMN IF NOT EXISTS is_online boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.calendar_events.must_attend IS 'Attendance flag from the source; null falls back to the location rule';
+COMMENT ON COLUMN public.calendar_events.is_online IS 'Online-only session: anchors built from it get no travel envelope';
+
+-- Timetable re-imports look events up by their stable external id
+CREATE INDEX IF NOT EXISTS idx_calendar_events_source_external
+  ON public.calendar_events(source_id, external_id);
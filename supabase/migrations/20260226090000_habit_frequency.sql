@@ -0,0 +1,7 @@
+-- V2.2 stabilization: habit frequency schedules (N times per week, weekdays, every N days).
+-- Additive migration only.
+
+ALTER TABLE public.habits
+  ADD COLUMN IF NOT EXISTS frequency jsonb;
+
+COMMENT ON COLUMN public.habits.frequency IS 'Schedule: {"type":"daily"} | {"type":"times_per_week","times":n} | {"type":"weekdays","days":[0-6]} | {"type":"every_n_days","interval":n}; null = daily';
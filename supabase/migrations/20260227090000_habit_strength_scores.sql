@@ -0,0 +1,57 @@
+-- V2.2 stabilization: Loop-style habit strength scores, one row per habit per day.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.habit_scores (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id uuid NOT NULL REFERENCES public.habits(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  date date NOT NULL,
+  score numeric(5, 4) NOT NULL,
+  source text NOT NULL DEFAULT 'computed',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT habit_scores_score_check
+    CHECK (score >= 0 AND score <= 1),
+  CONSTRAINT habit_scores_source_check
+    CHECK (source IN ('computed', 'loop_import'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS habit_scores_habit_date_idx
+  ON public.habit_scores (habit_id, date);
+
+CREATE INDEX IF NOT EXISTS habit_scores_user_date_idx
+  ON public.habit_scores (user_id, date DESC);
+
+COMMENT ON COLUMN public.habit_scores.score IS 'Habit strength 0-1, exponentially weighted like Loop Habits'' Scores.csv';
+COMMENT ON COLUMN public.habit_scores.source IS 'loop_import = copied from a Loop Scores.csv; computed = continued from habit_entries';
+
+ALTER TABLE public.habit_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own habit scores" ON public.habit_scores;
+CREATE POLICY "Users can view own habit scores"
+ON public.habit_scores
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own habit scores" ON public.habit_scores;
+CREATE POLICY "Users can insert own habit scores"
+ON public.habit_scores
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own habit scores" ON public.habit_scores;
+CREATE POLICY "Users can update own habit scores"
+ON public.habit_scores
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own habit scores" ON public.habit_scores;
+CREATE POLICY "Users can delete own habit scores"
+ON public.habit_scores
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,87 @@
+-- V2.2 stabilization: habit import batches so a committed Loop import can be rolled back.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.habit_import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  source text NOT NULL,
+  status text NOT NULL DEFAULT 'committed',
+  summary jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  rolled_back_at timestamptz,
+  CONSTRAINT habit_import_batches_source_check
+    CHECK (source IN ('loop_root', 'loop_per_habit')),
+  CONSTRAINT habit_import_batches_status_check
+    CHECK (status IN ('committed', 'rolled_back'))
+);
+
+CREATE INDEX IF NOT EXISTS habit_import_batches_user_created_idx
+  ON public.habit_import_batches (user_id, created_at DESC);
+
+-- habit_id and entry_id are deliberately not foreign keys: the rows they
+-- point at may be deleted later, and rollback skips what is gone.
+CREATE TABLE IF NOT EXISTS public.habit_import_batch_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.habit_import_batches(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  habit_id uuid NOT NULL,
+  entry_id uuid,
+  date date,
+  action text NOT NULL,
+  previous jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT habit_import_batch_changes_action_check
+    CHECK (action IN ('habit_created', 'entry_updated'))
+);
+
+CREATE INDEX IF NOT EXISTS habit_import_batch_changes_batch_idx
+  ON public.habit_import_batch_changes (batch_id);
+
+ALTER TABLE public.habit_entries
+  ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES public.habit_import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_habit_entries_import_batch
+  ON public.habit_entries (import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+COMMENT ON COLUMN public.habit_entries.import_batch_id IS 'Import batch that last inserted or overwrote this entry; null for entries logged in the app';
+COMMENT ON COLUMN public.habit_import_batch_changes.previous IS 'Entry values before the import overwrote them (entry_updated only)';
+
+ALTER TABLE public.habit_import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.habit_import_batch_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own habit import batches" ON public.habit_import_batches;
+CREATE POLICY "Users can view own habit import batches"
+ON public.habit_import_batches
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own habit import batches" ON public.habit_import_batches;
+CREATE POLICY "Users can insert own habit import batches"
+ON public.habit_import_batches
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own habit import batches" ON public.habit_import_batches;
+CREATE POLICY "Users can update own habit import batches"
+ON public.habit_import_batches
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own habit import batch changes" ON public.habit_import_batch_changes;
+CREATE POLICY "Users can view own habit import batch changes"
+ON public.habit_import_batch_changes
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own habit import batch changes" ON public.habit_import_batch_changes;
+CREATE POLICY "Users can insert own habit import batch changes"
+ON public.habit_import_batch_changes
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,66 @@
+-- V2.2 stabilization: user-defined note parse rules for habits outside the built-in note parser.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.habit_note_parse_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  habit_id uuid REFERENCES public.habits(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  match_type text NOT NULL DEFAULT 'regex',
+  pattern text NOT NULL,
+  target text NOT NULL,
+  field_name text,
+  tag text,
+  priority integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT habit_note_parse_rules_match_type_check
+    CHECK (match_type IN ('regex', 'keywords')),
+  CONSTRAINT habit_note_parse_rules_target_check
+    CHECK (target IN ('count', 'duration_minutes', 'strength_mg', 'field', 'tag')),
+  CONSTRAINT habit_note_parse_rules_pattern_length_check
+    CHECK (char_length(pattern) <= 200),
+  CONSTRAINT habit_note_parse_rules_field_check
+    CHECK (target <> 'field' OR field_name IS NOT NULL),
+  CONSTRAINT habit_note_parse_rules_tag_check
+    CHECK (target <> 'tag' OR tag IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS habit_note_parse_rules_user_idx
+  ON public.habit_note_parse_rules (user_id, priority DESC);
+
+COMMENT ON COLUMN public.habit_note_parse_rules.habit_id IS 'Habit the rule is limited to; null applies it to every habit';
+COMMENT ON COLUMN public.habit_note_parse_rules.pattern IS 'Case-insensitive regex (first capture group is the value), or comma-separated keywords';
+COMMENT ON COLUMN public.habit_note_parse_rules.target IS 'ParsedNoteData field the match writes: count, duration_minutes, strength_mg, fields[field_name] or tags';
+
+ALTER TABLE public.habit_note_parse_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own note parse rules" ON public.habit_note_parse_rules;
+CREATE POLICY "Users can view own note parse rules"
+ON public.habit_note_parse_rules
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own note parse rules" ON public.habit_note_parse_rules;
+CREATE POLICY "Users can insert own note parse rules"
+ON public.habit_note_parse_rules
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own note parse rules" ON public.habit_note_parse_rules;
+CREATE POLICY "Users can update own note parse rules"
+ON public.habit_note_parse_rules
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own note parse rules" ON public.habit_note_parse_rules;
+CREATE POLICY "Users can delete own note parse rules"
+ON public.habit_note_parse_rules
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,69 @@
+-- V2.2 stabilization: substance reduction (taper) plans for nicotine, vaping, cannabis and caffeine habits.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.habit_taper_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  habit_id uuid NOT NULL REFERENCES public.habits(id) ON DELETE CASCADE,
+  semantic_type text NOT NULL,
+  unit text NOT NULL,
+  baseline_daily numeric(8,1) NOT NULL,
+  step_amount numeric(8,1) NOT NULL,
+  step_interval_days integer NOT NULL DEFAULT 7,
+  target_daily numeric(8,1) NOT NULL DEFAULT 0,
+  start_date date NOT NULL DEFAULT current_date,
+  status text NOT NULL DEFAULT 'active',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT habit_taper_plans_semantic_type_check
+    CHECK (semantic_type IN ('NICOTINE_POUCHES', 'VAPING_PUFFS', 'POT_USE', 'ENERGY_DRINK')),
+  CONSTRAINT habit_taper_plans_status_check
+    CHECK (status IN ('active', 'paused', 'completed')),
+  CONSTRAINT habit_taper_plans_step_check
+    CHECK (step_amount > 0 AND step_interval_days BETWEEN 1 AND 90),
+  CONSTRAINT habit_taper_plans_target_check
+    CHECK (target_daily >= 0 AND baseline_daily > target_daily)
+);
+
+CREATE INDEX IF NOT EXISTS habit_taper_plans_user_idx
+  ON public.habit_taper_plans (user_id, status);
+
+-- One running plan per habit
+CREATE UNIQUE INDEX IF NOT EXISTS habit_taper_plans_active_habit_idx
+  ON public.habit_taper_plans (habit_id)
+  WHERE status = 'active';
+
+COMMENT ON COLUMN public.habit_taper_plans.baseline_daily IS 'Average daily use over the logged days before the plan started (or set by the user)';
+COMMENT ON COLUMN public.habit_taper_plans.step_amount IS 'Daily allowance drops by this much every step_interval_days days kept at or under the allowance';
+COMMENT ON COLUMN public.habit_taper_plans.start_date IS 'First day of the plan; days logged over the allowance push later steps back instead of resetting';
+
+ALTER TABLE public.habit_taper_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own taper plans" ON public.habit_taper_plans;
+CREATE POLICY "Users can view own taper plans"
+ON public.habit_taper_plans
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own taper plans" ON public.habit_taper_plans;
+CREATE POLICY "Users can insert own taper plans"
+ON public.habit_taper_plans
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own taper plans" ON public.habit_taper_plans;
+CREATE POLICY "Users can update own taper plans"
+ON public.habit_taper_plans
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own taper plans" ON public.habit_taper_plans;
+CREATE POLICY "Users can delete own taper plans"
+ON public.habit_taper_plans
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
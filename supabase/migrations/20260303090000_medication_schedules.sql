@@ -0,0 +1,115 @@
+-- V2.2 stabilization: named medications with scheduled doses, dose windows, a dose log and refill tracking.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  dose_amount numeric(10,2),
+  dose_unit text,
+  slots jsonb NOT NULL DEFAULT '[]'::jsonb,
+  pills_remaining numeric(10,2),
+  pills_per_dose numeric(6,2) NOT NULL DEFAULT 1,
+  refill_threshold_days integer NOT NULL DEFAULT 7,
+  active boolean NOT NULL DEFAULT true,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT medications_slots_check
+    CHECK (jsonb_typeof(slots) = 'array'),
+  CONSTRAINT medications_supply_check
+    CHECK ((pills_remaining IS NULL OR pills_remaining >= 0) AND pills_per_dose > 0 AND refill_threshold_days >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS medications_user_idx
+  ON public.medications (user_id, active);
+
+COMMENT ON COLUMN public.medications.slots IS 'Daily doses: [{"time": "08:00", "latest": "10:00", "label": "morning"}]; latest defaults to two hours after time';
+COMMENT ON COLUMN public.medications.pills_remaining IS 'Supply left; each dose logged as taken subtracts pills_per_dose. NULL when not tracked';
+COMMENT ON COLUMN public.medications.refill_threshold_days IS 'Flag a refill when the supply covers this many days or fewer';
+
+CREATE TABLE IF NOT EXISTS public.medication_doses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  medication_id uuid NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  scheduled_date date NOT NULL,
+  slot_time text NOT NULL,
+  status text NOT NULL DEFAULT 'taken',
+  taken_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT medication_doses_status_check
+    CHECK (status IN ('taken', 'skipped')),
+  CONSTRAINT medication_doses_slot_time_check
+    CHECK (slot_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+);
+
+-- One log per scheduled dose; re-logging updates it
+CREATE UNIQUE INDEX IF NOT EXISTS medication_doses_slot_idx
+  ON public.medication_doses (medication_id, scheduled_date, slot_time);
+
+CREATE INDEX IF NOT EXISTS medication_doses_user_date_idx
+  ON public.medication_doses (user_id, scheduled_date);
+
+COMMENT ON COLUMN public.medication_doses.slot_time IS 'The medications.slots time this dose was scheduled for';
+COMMENT ON COLUMN public.medication_doses.status IS 'taken, or skipped on purpose; a slot with no row is due or missed depending on its window';
+
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.medication_doses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own medications" ON public.medications;
+CREATE POLICY "Users can view own medications"
+ON public.medications
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own medications" ON public.medications;
+CREATE POLICY "Users can insert own medications"
+ON public.medications
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own medications" ON public.medications;
+CREATE POLICY "Users can update own medications"
+ON public.medications
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own medications" ON public.medications;
+CREATE POLICY "Users can delete own medications"
+ON public.medications
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own medication doses" ON public.medication_doses;
+CREATE POLICY "Users can view own medication doses"
+ON public.medication_doses
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own medication doses" ON public.medication_doses;
+CREATE POLICY "Users can insert own medication doses"
+ON public.medication_doses
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own medication doses" ON public.medication_doses;
+CREATE POLICY "Users can update own medication doses"
+ON public.medication_doses
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own medication doses" ON public.medication_doses;
+CREATE POLICY "Users can delete own medication doses"
+ON public.medication_doses
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
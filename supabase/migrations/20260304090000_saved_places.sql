@@ -0,0 +1,67 @@
+-- V2.2 stabilization: per-user saved places (home, campus buildings, gym, GP) with coordinates and access overheads.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.saved_places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'other',
+  latitude numeric(9,6) NOT NULL,
+  longitude numeric(9,6) NOT NULL,
+  address text,
+  aliases text[] NOT NULL DEFAULT '{}',
+  access_minutes integer NOT NULL DEFAULT 0,
+  bike_parking_minutes integer,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT saved_places_kind_check
+    CHECK (kind IN ('home', 'campus', 'gym', 'gp', 'work', 'store', 'other')),
+  CONSTRAINT saved_places_coordinates_check
+    CHECK (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180),
+  CONSTRAINT saved_places_overheads_check
+    CHECK (access_minutes BETWEEN 0 AND 120 AND (bike_parking_minutes IS NULL OR bike_parking_minutes BETWEEN 0 AND 60))
+);
+
+CREATE INDEX IF NOT EXISTS saved_places_user_idx
+  ON public.saved_places (user_id, kind);
+
+-- Journeys start from home, so there can only be one
+CREATE UNIQUE INDEX IF NOT EXISTS saved_places_one_home_idx
+  ON public.saved_places (user_id)
+  WHERE kind = 'home';
+
+COMMENT ON COLUMN public.saved_places.aliases IS 'Other names an anchor location may use for this place ("Muirhead", "ERI"); matched as whole words, case-insensitively';
+COMMENT ON COLUMN public.saved_places.access_minutes IS 'Minutes from arriving outside to being in the room: lifts, stairs, security desks';
+COMMENT ON COLUMN public.saved_places.bike_parking_minutes IS 'Minutes to lock up and walk from the bike racks; NULL uses the default';
+
+ALTER TABLE public.saved_places ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own saved places" ON public.saved_places;
+CREATE POLICY "Users can view own saved places"
+ON public.saved_places
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own saved places" ON public.saved_places;
+CREATE POLICY "Users can insert own saved places"
+ON public.saved_places
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own saved places" ON public.saved_places;
+CREATE POLICY "Users can update own saved places"
+ON public.saved_places
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own saved places" ON public.saved_places;
+CREATE POLICY "Users can delete own saved places"
+ON public.saved_places
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
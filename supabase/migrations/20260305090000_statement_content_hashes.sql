@@ -0,0 +1,17 @@
+-- V2.2 stabilization: content hashes for bank statement imports, so overlapping statements don't import a transaction twice.
+-- Additive migration only.
+
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+COMMENT ON COLUMN public.expenses.content_hash IS
+  'SHA-256 of account, date, signed amount, currency and normalized description from statement ingestion; null for manual entries';
+
+CREATE UNIQUE INDEX IF NOT EXISTS expenses_user_content_hash_idx
+  ON public.expenses (user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- Bank rows imported as metrics keep the same hash in metadata.content_hash
+CREATE INDEX IF NOT EXISTS metrics_user_content_hash_idx
+  ON public.metrics (user_id, (metadata->>'content_hash'))
+  WHERE metadata ? 'content_hash';
@@ -0,0 +1,71 @@
+-- V2.2 stabilization: subscriptions and other recurring payments detected from imported bank transactions.
+-- Additive migration only.
+
+CREATE TABLE IF NOT EXISTS public.detected_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  merchant_key text NOT NULL,
+  merchant_name text NOT NULL,
+  period text NOT NULL,
+  currency text NOT NULL,
+  typical_amount numeric(12,2) NOT NULL,
+  last_amount numeric(12,2) NOT NULL,
+  first_charge_date date NOT NULL,
+  last_charge_date date NOT NULL,
+  next_expected_date date NOT NULL,
+  charge_count integer NOT NULL,
+  confidence numeric(3,2) NOT NULL,
+  status text NOT NULL DEFAULT 'active',
+  dismissed boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT detected_subscriptions_period_check
+    CHECK (period IN ('weekly', 'monthly', 'annual')),
+  CONSTRAINT detected_subscriptions_status_check
+    CHECK (status IN ('active', 'missed', 'lapsed')),
+  CONSTRAINT detected_subscriptions_confidence_check
+    CHECK (confidence BETWEEN 0 AND 1)
+);
+
+-- Re-detection after each import updates rows in place, keeping dismissed
+CREATE UNIQUE INDEX IF NOT EXISTS detected_subscriptions_user_merchant_idx
+  ON public.detected_subscriptions (user_id, merchant_key, currency);
+
+CREATE INDEX IF NOT EXISTS detected_subscriptions_user_next_idx
+  ON public.detected_subscriptions (user_id, next_expected_date);
+
+COMMENT ON COLUMN public.detected_subscriptions.merchant_key IS 'Merchant name normalized for grouping: lower case, no payment-type prefix or reference numbers';
+COMMENT ON COLUMN public.detected_subscriptions.typical_amount IS 'Median of the charges before the latest one; a higher last_amount is a price increase';
+COMMENT ON COLUMN public.detected_subscriptions.status IS 'missed: the expected charge is overdue in the imported statements; lapsed: overdue by more than a whole period';
+COMMENT ON COLUMN public.detected_subscriptions.dismissed IS 'The user said this is not a subscription; kept so re-detection does not bring it back';
+
+ALTER TABLE public.detected_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own detected subscriptions" ON public.detected_subscriptions;
+CREATE POLICY "Users can view own detected subscriptions"
+ON public.detected_subscriptions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own detected subscriptions" ON public.detected_subscriptions;
+CREATE POLICY "Users can insert own detected subscriptions"
+ON public.detected_subscriptions
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own detected subscriptions" ON public.detected_subscriptions;
+CREATE POLICY "Users can update own detected subscriptions"
+ON public.detected_subscriptions
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own detected subscriptions" ON public.detected_subscriptions;
+CREATE POLICY "Users can delete own detected subscriptions"
+ON public.detected_subscriptions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
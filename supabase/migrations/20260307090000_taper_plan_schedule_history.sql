@@ -0,0 +1,16 @@
+-- V2.2 stabilization: taper plans keep their schedule through pauses and step changes.
+-- Additive migration only.
+
+ALTER TABLE public.habit_taper_plans
+  ADD COLUMN IF NOT EXISTS paused_at date,
+  ADD COLUMN IF NOT EXISTS paused_days integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS schedule_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Plans paused before this migration count as paused from today
+UPDATE public.habit_taper_plans
+SET paused_at = current_date
+WHERE status = 'paused' AND paused_at IS NULL;
+
+COMMENT ON COLUMN public.habit_taper_plans.paused_at IS 'Day the current pause began; paused days hold the allowance and move later steps back';
+COMMENT ON COLUMN public.habit_taper_plans.paused_days IS 'Total days spent in earlier pauses';
+COMMENT ON COLUMN public.habit_taper_plans.schedule_history IS 'Earlier step settings and pauses as [{until, resumed_on?, step_amount, step_interval_days, target_daily}], so changes never rewrite past allowances';
@@ -0,0 +1,15 @@
+-- V2.2 stabilization: one chain integrity record per anchor and plan date.
+-- Regenerating a plan gives its chains new ids, so chain_id can't be the key.
+
+-- Keep the latest evaluation of each anchor's chain
+DELETE FROM public.chain_integrity_history AS older
+USING public.chain_integrity_history AS newer
+WHERE older.user_id = newer.user_id
+  AND older.plan_date = newer.plan_date
+  AND older.anchor_id = newer.anchor_id
+  AND (older.evaluated_at, older.id) < (newer.evaluated_at, newer.id);
+
+DROP INDEX IF EXISTS public.chain_integrity_history_chain_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS chain_integrity_history_anchor_idx
+  ON public.chain_integrity_history (user_id, plan_date, anchor_id);
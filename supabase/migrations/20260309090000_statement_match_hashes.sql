@@ -0,0 +1,20 @@
+-- V2.2 stabilization: date and amount hashes for bank statement imports, so an OFX or CAMT.053 download and a CSV or QIF export of the same transactions don't both import.
+-- Additive migration only.
+
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS match_hash text;
+
+COMMENT ON COLUMN public.expenses.content_hash IS
+  'SHA-256 of account and bank transaction ID, or of account, date, signed amount and currency, from statement ingestion; null for manual entries';
+
+COMMENT ON COLUMN public.expenses.match_hash IS
+  'SHA-256 of account, date, signed amount and currency from statement ingestion, also for transactions with a bank ID; null for manual entries';
+
+CREATE INDEX IF NOT EXISTS expenses_user_match_hash_idx
+  ON public.expenses (user_id, match_hash)
+  WHERE match_hash IS NOT NULL;
+
+-- Bank rows imported as metrics keep the same hash in metadata.match_hash
+CREATE INDEX IF NOT EXISTS metrics_user_match_hash_idx
+  ON public.metrics (user_id, (metadata->>'match_hash'))
+  WHERE metadata ? 'match_hash';
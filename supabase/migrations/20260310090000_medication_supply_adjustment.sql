@@ -0,0 +1,23 @@
+-- V2.2 stabilization: change a medication's pill count in one statement, so doses logged at the same time don't overwrite each other's count.
+-- Additive migration only.
+
+CREATE OR REPLACE FUNCTION public.adjust_medication_supply(
+  p_medication_id uuid,
+  p_user_id uuid,
+  p_doses_taken integer
+)
+RETURNS numeric AS $$
+  UPDATE public.medications
+  SET
+    pills_remaining = GREATEST(0, pills_remaining - p_doses_taken * pills_per_dose),
+    updated_at = NOW()
+  WHERE id = p_medication_id
+    AND user_id = p_user_id
+    AND pills_remaining IS NOT NULL
+  RETURNING pills_remaining;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION public.adjust_medication_supply(uuid, uuid, integer) IS
+  'Subtracts p_doses_taken doses (negative gives pills back) from the supply, never below zero; returns the new count, or NULL when the supply is not tracked';
+
+GRANT EXECUTE ON FUNCTION public.adjust_medication_supply(uuid, uuid, integer) TO authenticated;